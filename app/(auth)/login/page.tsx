@@ -12,7 +12,17 @@ import { Suspense } from 'react';
 import { EnhancedLoginForm } from '@/components/auth';
 import { Skeleton } from '@/components/ui/skeleton';
 
-export default function LoginPage() {
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ callbackUrl?: string }>;
+}) {
+  // Only follow same-origin callback paths (e.g. a scanned /t/[code] link)
+  const { callbackUrl } = await searchParams;
+  const safeCallbackUrl = callbackUrl?.startsWith('/') && !callbackUrl.startsWith('//')
+    ? callbackUrl
+    : undefined;
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -25,7 +35,7 @@ export default function LoginPage() {
             </div>
           }
         >
-          <EnhancedLoginForm />
+          <EnhancedLoginForm callbackUrl={safeCallbackUrl} />
         </Suspense>
       </div>
     </div>
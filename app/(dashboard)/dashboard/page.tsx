@@ -1,3 +1,6 @@
+import { OverdueLoansWidget } from '@/components/inventory/OverdueLoansWidget';
+import { CategoryBreakdownWidget } from '@/components/inventory/CategoryBreakdownWidget';
+
 export default function DashboardPage() {
   return (
     <div className="min-h-screen bg-gray-50">
@@ -11,7 +14,11 @@ export default function DashboardPage() {
         </header>
         <main>
           <div className="max-w-7xl mx-auto sm:px-6 lg:px-8">
-            <div className="px-4 py-8 sm:px-0">
+            <div className="px-4 py-8 sm:px-0 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <OverdueLoansWidget />
+                <CategoryBreakdownWidget />
+              </div>
               <div className="border-4 border-dashed border-gray-200 rounded-lg h-96 flex items-center justify-center">
                 <div className="text-center">
                   <h2 className="text-2xl font-semibold text-gray-600 mb-4">
@@ -0,0 +1,295 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ItemForm } from '@/components/inventory/ItemForm';
+import { Alert, AlertDescription, Button } from '@/components/ui';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2 } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { LocationType } from '@prisma/client';
+import { buildItemDetailUrl } from '@/lib/utils/url-state';
+
+/**
+ * Location interface for form
+ */
+interface Location {
+  id: string;
+  name: string;
+  path: string;
+  locationType: LocationType;
+  parentId: string | null;
+  level: number;
+  itemCount?: number;
+}
+
+/**
+ * Item interface
+ */
+interface Item {
+  id?: string;
+  name: string;
+  description?: string | null;
+  locationId: string;
+  quantity: number;
+  unit: string;
+  purchasePrice?: number | null;
+  currentValue?: number | null;
+  purchaseDate?: Date | string | null;
+  photoUrl?: string | null;
+  thumbnailUrl?: string | null;
+}
+
+/**
+ * Mock locations data
+ */
+const MOCK_LOCATIONS: Location[] = [
+  {
+    id: 'loc-1',
+    name: 'Garage',
+    path: 'Garage',
+    locationType: LocationType.BUILDING,
+    parentId: null,
+    level: 0,
+    itemCount: 5
+  },
+  {
+    id: 'loc-2',
+    name: 'Workbench',
+    path: 'Garage → Workbench',
+    locationType: LocationType.FURNITURE,
+    parentId: 'loc-1',
+    level: 1,
+    itemCount: 3
+  },
+  {
+    id: 'loc-3',
+    name: 'Kitchen',
+    path: 'Kitchen',
+    locationType: LocationType.ROOM,
+    parentId: null,
+    level: 0,
+    itemCount: 8
+  },
+  {
+    id: 'loc-4',
+    name: 'Master Bedroom',
+    path: 'Master Bedroom',
+    locationType: LocationType.ROOM,
+    parentId: null,
+    level: 0,
+    itemCount: 2
+  },
+  {
+    id: 'loc-5',
+    name: 'Closet',
+    path: 'Master Bedroom → Closet',
+    locationType: LocationType.FURNITURE,
+    parentId: 'loc-4',
+    level: 1,
+    itemCount: 12
+  }
+];
+
+/**
+ * NewItemView - Form for adding a new inventory item
+ * 
+ * Provides a comprehensive form for adding new items with:
+ * - React 19 useActionState form handling
+ * - Photo upload with security validation
+ * - Location selection with inline creation
+ * - Mobile-responsive design
+ * - Success/error state management
+ * - Barcode prefill when arriving from a camera scan
+ * - Binding the scanned NFC tag when arriving from the claim flow
+ * 
+ * Reads the URL with useSearchParams, so the page renders it inside a
+ * Suspense boundary.
+ * 
+ * @component
+ */
+export function NewItemView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // Scanned tag code from /t/[code], plus its ID when it is already registered
+  const claimTag = searchParams.get('claimTag');
+  const claimTagId = searchParams.get('claimTagId');
+  // Product barcode from /inventory/scan; ItemForm stores it in metadata
+  const barcode = searchParams.get('barcode');
+  const [locations, setLocations] = useState<Location[]>(MOCK_LOCATIONS);
+  const [success, setSuccess] = useState(false);
+  const [createdItemId, setCreatedItemId] = useState<string | null>(null);
+  const [isBinding, setIsBinding] = useState(false);
+  const [bindError, setBindError] = useState<string | null>(null);
+
+  /**
+   * Bind the scanned tag that started this flow (see /t/[code])
+   *
+   * Registered tags are bound in place; unregistered codes are registered
+   * and bound in one step, as ClaimTagFlow does for existing items.
+   *
+   * @returns Whether the tag is now bound to the item
+   */
+  const bindClaimedTag = async (itemId: string): Promise<boolean> => {
+    setIsBinding(true);
+    setBindError(null);
+
+    try {
+      const response = claimTagId
+        ? await fetch(`/api/v1/tags/nfc/${claimTagId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ itemId }),
+          })
+        : await fetch('/api/v1/tags/nfc', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ uid: claimTag, itemId }),
+          });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.message || 'Failed to bind tag');
+      }
+      return true;
+    } catch (error) {
+      setBindError(error instanceof Error ? error.message : 'Failed to bind tag');
+      return false;
+    } finally {
+      setIsBinding(false);
+    }
+  };
+
+  /**
+   * Handle successful item creation
+   */
+  const handleSuccess = async (item: Item) => {
+    setSuccess(true);
+
+    if (claimTag && item.id) {
+      setCreatedItemId(item.id);
+
+      // Stay on the page so the user can retry rather than believe the tag is bound
+      if (!(await bindClaimedTag(item.id))) {
+        return;
+      }
+    }
+
+    // Redirect after a short delay to show success message
+    setTimeout(() => {
+      router.push(claimTag && item.id ? buildItemDetailUrl(item.id, {}) : '/inventory');
+    }, 2000);
+  };
+
+  /**
+   * Try binding the tag to the created item again
+   */
+  const handleRetryBind = async () => {
+    if (createdItemId && await bindClaimedTag(createdItemId)) {
+      router.push(buildItemDetailUrl(createdItemId, {}));
+    }
+  };
+
+  /**
+   * Handle cancellation
+   */
+  const handleCancel = () => {
+    router.back();
+  };
+
+  /**
+   * Handle location creation
+   */
+  const handleLocationCreate = async (locationData: {
+    name: string;
+    locationType: LocationType;
+    parentId?: string;
+    description?: string;
+  }) => {
+    // Mock location creation - in real app this would call API
+    const newLocation: Location = {
+      id: `loc-${Date.now()}`,
+      name: locationData.name,
+      path: locationData.parentId 
+        ? `${locations.find(l => l.id === locationData.parentId)?.path} → ${locationData.name}`
+        : locationData.name,
+      locationType: locationData.locationType,
+      parentId: locationData.parentId || null,
+      level: locationData.parentId 
+        ? (locations.find(l => l.id === locationData.parentId)?.level || 0) + 1
+        : 0,
+      itemCount: 0
+    };
+
+    setLocations(prev => [...prev, newLocation]);
+    return newLocation;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.back()}
+            className="gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Inventory
+          </Button>
+        </div>
+
+        {/* Success State */}
+        {success && !bindError && (
+          <div className="mb-8 p-6 bg-green-50 border border-green-200 rounded-lg">
+            <div className="flex items-center gap-3">
+              <CheckCircle className="h-6 w-6 text-green-600" />
+              <div>
+                <h3 className="font-semibold text-green-800">Item Added Successfully!</h3>
+                <p className="text-green-700">Redirecting to inventory...</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Tag binding failed after the item was created */}
+        {bindError && createdItemId && (
+          <Alert variant="destructive" className="mb-8">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="space-y-3">
+              <p>
+                The item was added, but tag <span className="font-mono">{claimTag}</span> could
+                not be bound to it: {bindError}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={handleRetryBind} disabled={isBinding} className="gap-2">
+                  {isBinding && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Retry
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => router.push(buildItemDetailUrl(createdItemId, {}))}
+                  disabled={isBinding}
+                >
+                  Open item without the tag
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Form */}
+        <ItemForm
+          mode="create"
+          item={barcode ? { metadata: { barcode } } : undefined}
+          locations={locations}
+          onSuccess={handleSuccess}
+          onCancel={handleCancel}
+          onLocationCreate={handleLocationCreate}
+        />
+      </div>
+    </div>
+  );
+}
+
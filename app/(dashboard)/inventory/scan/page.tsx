@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { CameraCapture } from '@/components/camera/CameraCapture';
+import { Button } from '@/components/ui';
+import { ArrowLeft, AlertCircle } from 'lucide-react';
+import { buildTagResolverUrl } from '@/lib/utils/url-state';
+import type { ScannedCode } from '@/lib/types/barcodes';
+
+/**
+ * Scan Page - Camera scanning for house labels and product barcodes
+ *
+ * Works on any phone with a camera, unlike NFC:
+ * - Printed QR/Code 128 labels open the item or location via /t/[code]
+ * - Retail EAN/UPC barcodes open the new item form prefilled with the code,
+ *   which lists any items already carrying that barcode
+ *
+ * @page
+ */
+export default function ScanPage() {
+  const router = useRouter();
+  const [message, setMessage] = useState<string | null>(null);
+
+  /**
+   * Route each scanned code to where it belongs
+   */
+  const handleCodeScanned = useCallback((code: ScannedCode) => {
+    switch (code.kind) {
+      case 'house-label':
+        router.push(buildTagResolverUrl(code.code));
+        break;
+      case 'retail':
+        router.push(`/inventory/new?barcode=${encodeURIComponent(code.barcode)}`);
+        break;
+      default:
+        setMessage('That code is not an inventory label or product barcode');
+    }
+  }, [router]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.back()}
+            className="gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold">Scan a Code</h1>
+        </div>
+
+        {message && (
+          <div className="mb-6 flex items-center gap-2 text-sm text-muted-foreground bg-muted p-3 rounded-md">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <CameraCapture
+          mode="scan"
+          onCodeScanned={handleCodeScanned}
+          onError={setMessage}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { SearchResults, EmptySearchState } from '@/components/search';
+import { Badge, Button, Skeleton } from '@/components/ui';
+import { AlertCircle, Link2, Users, User, Trash2 } from 'lucide-react';
+import { useSavedSearches } from '@/lib/hooks/useSavedSearches';
+import { buildCollectionUrl, buildItemDetailUrl, buildLocationUrl } from '@/lib/utils/url-state';
+import type { SavedSearchEntry } from '@/lib/types/saved-searches';
+import type { SearchResults as SearchResultsType } from '@/lib/types/search';
+
+/**
+ * Items loaded per page
+ */
+const PAGE_SIZE = 20;
+
+/**
+ * Collection view props
+ */
+interface CollectionViewProps {
+  savedSearchId: string;
+}
+
+/**
+ * CollectionView - A saved search and the items it matches now
+ *
+ * Runs the saved search again on every visit, so the items follow edits to
+ * the inventory. The link can be copied to share a household collection;
+ * the member who saved it can share, unshare or delete it.
+ *
+ * @component
+ * @since 1.17.0
+ */
+export function CollectionView({ savedSearchId }: CollectionViewProps) {
+  const router = useRouter();
+  const { updateSavedSearch, deleteSavedSearch, isSubmitting } = useSavedSearches();
+
+  const [savedSearch, setSavedSearch] = useState<SavedSearchEntry | null>(null);
+  const [results, setResults] = useState<SearchResultsType | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  /**
+   * Load a page of the collection's items
+   */
+  const fetchItems = useCallback(async (cursor?: string): Promise<SearchResultsType> => {
+    const params = new URLSearchParams({ limit: PAGE_SIZE.toString() });
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await fetch(`/api/v1/saved-searches/${savedSearchId}/items?${params}`);
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'This collection was deleted or is not shared with you' : 'Failed to load collection');
+    }
+    return (await response.json()).data;
+  }, [savedSearchId]);
+
+  /**
+   * Load the saved search and its first page of items
+   */
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/saved-searches/${savedSearchId}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'This collection was deleted or is not shared with you' : 'Failed to load collection');
+      }
+
+      setSavedSearch((await response.json()).data);
+      setResults(await fetchItems());
+    } catch (err) {
+      console.error('❌ Collection failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load collection');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [savedSearchId, fetchItems]);
+
+  /**
+   * Append the next page of items
+   */
+  const handleLoadMore = useCallback(async () => {
+    if (!results?.nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+
+    try {
+      const next = await fetchItems(results.nextCursor);
+      setResults({ ...next, items: [...results.items, ...next.items], locations: results.locations });
+    } catch (err) {
+      console.error('❌ Collection items failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load collection');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [results, isLoadingMore, fetchItems]);
+
+  /**
+   * Copy the collection link
+   */
+  const handleCopyLink = useCallback(async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}${buildCollectionUrl(savedSearchId)}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [savedSearchId]);
+
+  /**
+   * Share the collection with the household, or make it personal again
+   */
+  const handleToggleShared = useCallback(async () => {
+    if (!savedSearch) return;
+
+    const visibility = savedSearch.visibility === 'HOUSEHOLD' ? 'PERSONAL' : 'HOUSEHOLD';
+    if (await updateSavedSearch(savedSearch.id, { visibility })) {
+      setSavedSearch({ ...savedSearch, visibility });
+    }
+  }, [savedSearch, updateSavedSearch]);
+
+  /**
+   * Delete the collection after confirmation
+   */
+  const handleDelete = useCallback(async () => {
+    if (!savedSearch) return;
+    if (!window.confirm(`Delete the "${savedSearch.name}" collection? Its items are not affected.`)) return;
+
+    if (await deleteSavedSearch(savedSearch.id)) {
+      router.push('/search');
+    }
+  }, [savedSearch, deleteSavedSearch, router]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-4 w-96" />
+        <div className="space-y-3">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!savedSearch) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error ?? 'Failed to load collection'}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold">{savedSearch.name}</h1>
+            <Badge variant="secondary" className="gap-1">
+              {savedSearch.visibility === 'HOUSEHOLD'
+                ? <><Users className="h-3 w-3" />Household</>
+                : <><User className="h-3 w-3" />Personal</>}
+            </Badge>
+          </div>
+          <p className="text-muted-foreground">
+            {savedSearch.query ? `Items matching "${savedSearch.query}"` : 'Items matching the saved filters'}
+            {results && ` · ${results.totalCount} item${results.totalCount === 1 ? '' : 's'} now`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopyLink}>
+            <Link2 className="h-4 w-4 mr-2" />
+            {copied ? 'Copied' : 'Copy link'}
+          </Button>
+          {savedSearch.isOwner && (
+            <>
+              <Button variant="outline" disabled={isSubmitting} onClick={handleToggleShared}>
+                {savedSearch.visibility === 'HOUSEHOLD' ? 'Make personal' : 'Share with household'}
+              </Button>
+              <Button variant="ghost" size="icon" disabled={isSubmitting} onClick={handleDelete} aria-label="Delete collection">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {results && results.items.length > 0 ? (
+        <SearchResults
+          results={results}
+          query={savedSearch.query}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={results.nextCursor ? handleLoadMore : undefined}
+          onItemClick={(item) => router.push(buildItemDetailUrl(item.id, {}))}
+          onLocationClick={(locationId) => router.push(buildLocationUrl(locationId, {}))}
+          showPerformanceInfo={false}
+        />
+      ) : (
+        <EmptySearchState
+          title="Nothing in this collection right now"
+          query={savedSearch.query}
+          hasSearched
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { SearchBar, SearchResults, EmptySearchState } from '@/components/search';
+import { Button, Card, CardContent, Input, Label, Checkbox } from '@/components/ui';
+import { AlertCircle, Bookmark, Loader2 } from 'lucide-react';
+import { useSearch } from '@/lib/hooks/useSearch';
+import { useSavedSearches } from '@/lib/hooks/useSavedSearches';
+import {
+  parseSearchState,
+  serializeSearchState,
+  buildCollectionUrl,
+  buildItemDetailUrl,
+  buildLocationUrl,
+  type SearchUrlState,
+} from '@/lib/utils/url-state';
+import type { SearchFilters } from '@/lib/types/search';
+import { CollectionView } from './CollectionView';
+
+/**
+ * Filters of the search page URL as saved search filters
+ */
+function toSearchFilters(state: SearchUrlState): SearchFilters {
+  return {
+    ...(state.locations?.length && { locationIds: state.locations }),
+    ...(state.tags?.length && { tagIds: state.tags }),
+    ...(state.statuses?.length && { statuses: state.statuses as SearchFilters['statuses'] }),
+  };
+}
+
+/**
+ * SearchView - Search page contents
+ *
+ * Shows a saved collection when the URL names one, and otherwise searches
+ * with the query, filters and sort order kept in the URL and offers to save
+ * them as a collection.
+ *
+ * @component
+ * @since 1.17.0
+ */
+export function SearchView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const urlState = parseSearchState(searchParams);
+
+  /**
+   * Replace the search state in the URL
+   */
+  const handleUrlStateChange = useCallback((state: SearchUrlState) => {
+    const params = serializeSearchState(state).toString();
+    router.replace(`/search${params ? `?${params}` : ''}`);
+  }, [router]);
+
+  if (urlState.collection) {
+    return <CollectionView savedSearchId={urlState.collection} />;
+  }
+
+  return <SearchWithSave urlState={urlState} onUrlStateChange={handleUrlStateChange} />;
+}
+
+/**
+ * Search UI with the save-as-collection form
+ */
+function SearchWithSave({
+  urlState,
+  onUrlStateChange,
+}: {
+  urlState: SearchUrlState;
+  onUrlStateChange: (state: SearchUrlState) => void;
+}) {
+  const router = useRouter();
+  const {
+    query,
+    results,
+    isLoading,
+    error,
+    setQuery,
+    search,
+    loadMore,
+    canLoadMore,
+  } = useSearch({
+    includeLocation: true,
+    includePhotos: true,
+    includeTags: true,
+    filters: urlState,
+  });
+  const { createSavedSearch, isSubmitting, error: saveError } = useSavedSearches();
+
+  // Save form state
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+
+  /**
+   * Show the query in the URL in the search bar
+   */
+  const syncQueryFromUrl = useCallback(() => {
+    if (urlState.query) {
+      setQuery(urlState.query);
+    }
+  }, [urlState.query, setQuery]);
+
+  // Start from the query in the URL, and follow it on back/forward navigation
+  useEffect(() => {
+    syncQueryFromUrl();
+  }, [syncQueryFromUrl]);
+
+  /**
+   * Run a search and keep it in the URL
+   */
+  const handleSearch = useCallback((searchQuery: string) => {
+    onUrlStateChange({ ...urlState, query: searchQuery, page: undefined });
+    search(searchQuery);
+  }, [onUrlStateChange, urlState, search]);
+
+  /**
+   * Save the current search and open it as a collection
+   */
+  const handleSave = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const created = await createSavedSearch({
+      name: name.trim(),
+      query: query.trim(),
+      filters: toSearchFilters(urlState),
+      sortBy: urlState.sort,
+      sortOrder: urlState.sortDir,
+      visibility: shared ? 'HOUSEHOLD' : 'PERSONAL',
+    });
+    if (created) {
+      router.push(buildCollectionUrl(created.id));
+    }
+  }, [createSavedSearch, name, query, urlState, shared, router]);
+
+  const canSave = query.trim().length >= 2 || Object.keys(toSearchFilters(urlState)).length > 0;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Search</h1>
+          <p className="text-muted-foreground">
+            Find items anywhere in the household, and save searches you run often as collections.
+          </p>
+        </div>
+        <Button variant="outline" disabled={!canSave} onClick={() => setIsSaving(open => !open)}>
+          <Bookmark className="h-4 w-4 mr-2" />
+          Save as collection
+        </Button>
+      </div>
+
+      <SearchBar
+        value={query}
+        onChange={setQuery}
+        onSearch={handleSearch}
+        isLoading={isLoading}
+        size="lg"
+        autoFocus
+      />
+
+      {isSaving && canSave && (
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSave} className="space-y-4">
+              {saveError && (
+                <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>{saveError}</span>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="saved-search-name">Collection name</Label>
+                <Input
+                  id="saved-search-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Camping gear"
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="saved-search-shared"
+                  checked={shared}
+                  onCheckedChange={(checked) => setShared(checked === true)}
+                />
+                <Label htmlFor="saved-search-shared">Share with the household</Label>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                The collection keeps the search, not the items: it shows whatever matches when you open it.
+              </p>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting || !name.trim()}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setIsSaving(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {results && (results.items.length > 0 || results.locations?.length > 0) ? (
+        <SearchResults
+          results={results}
+          query={query}
+          isLoadingMore={isLoading}
+          onLoadMore={canLoadMore ? loadMore : undefined}
+          onItemClick={(item) => router.push(buildItemDetailUrl(item.id, { ...urlState, query }))}
+          onLocationClick={(locationId) => router.push(buildLocationUrl(locationId, { ...urlState, query }))}
+          layout={urlState.viewMode}
+        />
+      ) : results && !isLoading ? (
+        <EmptySearchState query={query} />
+      ) : null}
+    </div>
+  );
+}
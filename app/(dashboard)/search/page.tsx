@@ -0,0 +1,48 @@
+import React, { Suspense } from 'react';
+import { SearchView } from './components/SearchView';
+import { Skeleton } from '@/components/ui';
+
+/**
+ * Loading component for search page
+ */
+function SearchPageSkeleton() {
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <Skeleton className="h-8 w-48" />
+      <Skeleton className="h-12 w-full" />
+      <div className="space-y-3">
+        {Array.from({ length: 6 }).map((_, i) => (
+          <Skeleton key={i} className="h-20 w-full" />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Search Page - Find items and open saved searches
+ *
+ * Searches the household's items with the query, filters and sort order
+ * kept in the URL, saves them as named collections, and shows a saved
+ * collection's current items when opened from the sidebar or a shared
+ * `?collection=` link.
+ *
+ * @page
+ */
+export default function SearchPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Suspense fallback={<SearchPageSkeleton />}>
+        <SearchView />
+      </Suspense>
+    </div>
+  );
+}
+
+/**
+ * Page metadata for SEO and navigation
+ */
+export const metadata = {
+  title: 'Search - Digital Inventory Manager',
+  description: 'Search your household inventory and keep saved searches as collections.',
+};
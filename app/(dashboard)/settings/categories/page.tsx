@@ -0,0 +1,37 @@
+/**
+ * Categories Settings Page
+ *
+ * Manages the household's item category tree, with default custom fields
+ * and depreciation rules per category.
+ *
+ * @component
+ * @category Settings Pages
+ * @since 1.15.0
+ */
+
+import { CategoriesPanel } from '@/components/inventory';
+
+/**
+ * Categories settings page
+ */
+export default function CategoriesSettingsPage() {
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Categories</h1>
+        <p className="text-muted-foreground">
+          Group items by what they are, filter inventory by category, and estimate their value over time.
+        </p>
+      </div>
+
+      <CategoriesPanel />
+    </div>
+  );
+}
+
+/**
+ * Page metadata
+ */
+export const metadata = {
+  title: 'Categories - Digital Inventory Manager',
+};
@@ -0,0 +1,392 @@
+/**
+ * ExportColumnSettingsPanel - Column and formatting options for CSV and XLSX exports
+ *
+ * This component lets users shape the exported spreadsheet:
+ * - Pick and order columns, including custom metadata keys (required columns stay)
+ * - Choose the delimiter, date format and currency formatting
+ * - Save the layout as a named household template, or load and delete templates
+ *
+ * @component
+ * @category Export Components
+ * @since 1.13.0
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, ArrowUp, Columns3, Lock, Plus, Save, Trash2, X } from 'lucide-react';
+import type { ExportColumnSettings, ExportDateFormat, ExportTemplate } from '@/lib/types/exports';
+import {
+  DEFAULT_EXPORT_COLUMN_SETTINGS,
+  EXPORT_COLUMNS,
+  METADATA_COLUMN_PREFIX,
+  REQUIRED_EXPORT_COLUMNS,
+  getExportColumnHeader,
+  type ExportCustomField,
+} from '@/lib/utils/export-columns';
+
+interface ExportColumnSettingsPanelProps {
+  settings: ExportColumnSettings;
+  /** Template the settings were loaded from, null once edited */
+  templateId: string | null;
+  onChange: (settings: ExportColumnSettings, templateId: string | null) => void;
+}
+
+const DEFAULT_LAYOUT_VALUE = 'default';
+
+const DELIMITER_OPTIONS: Array<{ value: ExportColumnSettings['delimiter']; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const DATE_FORMAT_OPTIONS: Array<{ value: ExportDateFormat; label: string }> = [
+  { value: 'iso', label: 'ISO (2026-03-04)' },
+  { value: 'us', label: 'US (03/04/2026)' },
+  { value: 'eu', label: 'European (04.03.2026)' },
+];
+
+/**
+ * Column settings panel with template save and load
+ */
+export function ExportColumnSettingsPanel({ settings, templateId, onChange }: ExportColumnSettingsPanelProps) {
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [metadataKeys, setMetadataKeys] = useState<string[]>([]);
+  const [customFields, setCustomFields] = useState<ExportCustomField[]>([]);
+  const [columnToAdd, setColumnToAdd] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load saved templates, the household's metadata keys and custom fields
+   */
+  useEffect(() => {
+    fetch('/api/v1/exports/templates')
+      .then(response => (response.ok ? response.json() : null))
+      .then(payload => setTemplates(payload?.data || []))
+      .catch(err => console.error('Failed to load export templates:', err));
+
+    fetch('/api/v1/exports/columns')
+      .then(response => (response.ok ? response.json() : null))
+      .then(payload => {
+        setMetadataKeys(payload?.data?.metadataKeys || []);
+        setCustomFields(payload?.data?.customFields || []);
+      })
+      .catch(err => console.error('Failed to load export columns:', err));
+  }, []);
+
+  const availableColumns = [
+    ...EXPORT_COLUMNS.map(column => column.id),
+    ...Array.from(new Set([...customFields.map(field => field.key), ...metadataKeys]))
+      .map(key => METADATA_COLUMN_PREFIX + key),
+  ].filter(id => !settings.columns.includes(id));
+
+  /**
+   * Apply an edit; edited settings no longer match the loaded template
+   */
+  const update = (changes: Partial<ExportColumnSettings>) => {
+    onChange({ ...settings, ...changes }, null);
+  };
+
+  const handleMoveColumn = (index: number, offset: -1 | 1) => {
+    const columns = [...settings.columns];
+    [columns[index], columns[index + offset]] = [columns[index + offset], columns[index]];
+    update({ columns });
+  };
+
+  const handleRemoveColumn = (id: string) => {
+    update({ columns: settings.columns.filter(column => column !== id) });
+  };
+
+  const handleAddColumn = () => {
+    if (!columnToAdd) return;
+    update({ columns: [...settings.columns, columnToAdd] });
+    setColumnToAdd('');
+  };
+
+  const handleSelectTemplate = (value: string) => {
+    setError(null);
+    if (value === DEFAULT_LAYOUT_VALUE) {
+      onChange(DEFAULT_EXPORT_COLUMN_SETTINGS, null);
+      return;
+    }
+
+    const template = templates.find(t => t.id === value);
+    if (template) {
+      onChange(template.settings, template.id);
+    }
+  };
+
+  /**
+   * Save the current settings as a new template
+   */
+  const handleSaveTemplate = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/exports/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: templateName, settings }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error?.message || 'Failed to save template');
+      }
+
+      const { data: template } = await response.json();
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setTemplateName('');
+      onChange(template.settings, template.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Delete the loaded template; the settings stay as they are
+   */
+  const handleDeleteTemplate = async () => {
+    if (!templateId) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/exports/templates/${templateId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error?.message || 'Failed to delete template');
+      }
+
+      setTemplates(prev => prev.filter(t => t.id !== templateId));
+      onChange(settings, null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  return (
+    <Card className="border-dashed">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Columns &amp; Formatting
+        </CardTitle>
+        <CardDescription>
+          Choose which columns to export and how values are written. Item name and location path are
+          always included so the file can be imported back.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Templates */}
+        <div className="space-y-2">
+          <Label htmlFor="export-template" className="text-sm font-medium">Template</Label>
+          <div className="flex gap-2">
+            <Select value={templateId ?? ''} onValueChange={handleSelectTemplate}>
+              <SelectTrigger id="export-template">
+                <SelectValue placeholder="Custom layout" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_LAYOUT_VALUE}>Default layout</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleDeleteTemplate}
+              disabled={!templateId}
+              aria-label="Delete template"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Column selection and order */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Columns</Label>
+          <ul className="divide-y rounded-md border">
+            {settings.columns.map((id, index) => {
+              const required = REQUIRED_EXPORT_COLUMNS.includes(id);
+
+              return (
+                <li key={id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                  <span className="flex-1">
+                    {getExportColumnHeader(id, customFields)}
+                    {id.startsWith(METADATA_COLUMN_PREFIX) && (
+                      <Badge variant="outline" className="ml-2">custom</Badge>
+                    )}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleMoveColumn(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${getExportColumnHeader(id, customFields)} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleMoveColumn(index, 1)}
+                    disabled={index === settings.columns.length - 1}
+                    aria-label={`Move ${getExportColumnHeader(id, customFields)} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  {required ? (
+                    <Lock className="h-4 w-4 mx-2.5 text-muted-foreground" aria-label="Required column" />
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveColumn(id)}
+                      aria-label={`Remove ${getExportColumnHeader(id, customFields)}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {availableColumns.length > 0 && (
+            <div className="flex gap-2">
+              <Select value={columnToAdd} onValueChange={setColumnToAdd}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add a column..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableColumns.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {getExportColumnHeader(id, customFields)}
+                      {id.startsWith(METADATA_COLUMN_PREFIX) && ' (custom)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" onClick={handleAddColumn} disabled={!columnToAdd}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Formatting */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-delimiter" className="text-sm font-medium">Delimiter (CSV)</Label>
+            <Select
+              value={settings.delimiter}
+              onValueChange={(value: ExportColumnSettings['delimiter']) => update({ delimiter: value })}
+            >
+              <SelectTrigger id="export-delimiter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIMITER_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="export-date-format" className="text-sm font-medium">Date Format</Label>
+            <Select
+              value={settings.dateFormat}
+              onValueChange={(value: ExportDateFormat) => update({ dateFormat: value })}
+            >
+              <SelectTrigger id="export-date-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_FORMAT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="export-currency-symbol" className="text-sm font-medium">Currency Symbol</Label>
+            <Input
+              id="export-currency-symbol"
+              value={settings.currency.symbol}
+              maxLength={3}
+              onChange={(e) => update({ currency: { ...settings.currency, symbol: e.target.value } })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="export-decimal-separator" className="text-sm font-medium">Decimal Separator</Label>
+            <Select
+              value={settings.currency.decimalSeparator}
+              onValueChange={(value: '.' | ',') =>
+                update({ currency: { ...settings.currency, decimalSeparator: value } })
+              }
+            >
+              <SelectTrigger id="export-decimal-separator">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=".">Point (12.50)</SelectItem>
+                <SelectItem value=",">Comma (12,50)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Save as template */}
+        <div className="space-y-2 pt-4 border-t">
+          <Label htmlFor="export-template-name" className="text-sm font-medium">Save as Template</Label>
+          <div className="flex gap-2">
+            <Input
+              id="export-template-name"
+              placeholder="Template name..."
+              value={templateName}
+              maxLength={100}
+              onChange={(e) => setTemplateName(e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSaveTemplate}
+              disabled={!templateName.trim() || isSaving}
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
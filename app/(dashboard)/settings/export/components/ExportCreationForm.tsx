@@ -2,7 +2,9 @@
  * ExportCreationForm - Form component for creating new export jobs
  *
  * This component provides a user-friendly interface for configuring export parameters:
- * - Export format selection (currently CSV only)
+ * - Export format selection (CSV, JSON, XLSX or PDF)
+ * - Insurance report mode: a signed PDF by room, optionally for a past date
+ * - Column selection, ordering and formatting for CSV and XLSX, with saved templates
  * - Advanced filtering options for locations, tags, status, and date ranges
  * - Form validation and user feedback
  * - Progress indication during export creation
@@ -24,17 +26,26 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileText, Filter, Calendar, MapPin, Tag, Settings } from 'lucide-react';
+import { FileText, Filter, Calendar, MapPin, Tag, Settings, ShieldCheck, Bookmark } from 'lucide-react';
+import type { ExportColumnSettings, ExportFormat, ExportReportType } from '@/lib/types/exports';
+import { useSavedSearches } from '@/lib/hooks/useSavedSearches';
+import { DEFAULT_EXPORT_COLUMN_SETTINGS } from '@/lib/utils/export-columns';
+import { ExportColumnSettingsPanel } from './ExportColumnSettingsPanel';
 
 interface ExportCreationFormProps {
   onCreateExport: (request: {
-    format: 'csv';
+    format: ExportFormat;
+    report?: ExportReportType;
+    asOf?: Date;
+    columnSettings?: ExportColumnSettings;
+    templateId?: string;
     filters?: {
       locationIds?: string[];
       tagNames?: string[];
       status?: string[];
       createdAfter?: Date;
       createdBefore?: Date;
+      savedSearchId?: string;
     };
   }) => Promise<void>;
   isLoading: boolean;
@@ -46,8 +57,54 @@ interface ExportFilters {
   status: string[];
   createdAfter: string;
   createdBefore: string;
+  savedSearchId: string;
 }
 
+/**
+ * Collection select value for every item (Select items cannot be empty)
+ */
+const ALL_ITEMS = 'all';
+
+const EXPORT_FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  {
+    value: 'csv',
+    label: 'CSV (Comma-Separated Values)',
+    description: 'CSV format includes all item details, locations, photos, and tags. Compatible with Excel, ' +
+      'Google Sheets, and other spreadsheet applications, and can be imported back.',
+  },
+  {
+    value: 'json',
+    label: 'JSON',
+    description: 'Nested JSON with each item\'s location, household, tags and photos as objects. Best for ' +
+      'scripts and other software.',
+  },
+  {
+    value: 'xlsx',
+    label: 'Excel Workbook (XLSX)',
+    description: 'One sheet per top-level location plus a summary sheet with item counts and values.',
+  },
+  {
+    value: 'pdf',
+    label: 'PDF Inventory',
+    description: 'A printable inventory list with a thumbnail of each item\'s primary photo.',
+  },
+];
+
+const REPORT_OPTIONS: Array<{ value: ExportReportType; label: string; description: string }> = [
+  {
+    value: 'inventory',
+    label: 'Inventory Export',
+    description: 'Export items in the format of your choice, optionally filtered.',
+  },
+  {
+    value: 'insurance',
+    label: 'Insurance Report',
+    description: 'A signed, timestamped PDF for claims and policy renewals: items grouped by room with ' +
+      'purchase price, purchase date, current value, serial number and photo, plus room and grand totals. ' +
+      'Sold and lost items are left out.',
+  },
+];
+
 const ITEM_STATUSES = [
   { value: 'AVAILABLE', label: 'Available' },
   { value: 'BORROWED', label: 'Borrowed' },
@@ -60,7 +117,11 @@ const ITEM_STATUSES = [
  * Export creation form component with comprehensive filtering options
  */
 export function ExportCreationForm({ onCreateExport, isLoading }: ExportCreationFormProps) {
-  const [format, setFormat] = useState<'csv'>('csv');
+  const [report, setReport] = useState<ExportReportType>('inventory');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [asOf, setAsOf] = useState('');
+  const [columnSettings, setColumnSettings] = useState<ExportColumnSettings>(DEFAULT_EXPORT_COLUMN_SETTINGS);
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [useFilters, setUseFilters] = useState(false);
   const [filters, setFilters] = useState<ExportFilters>({
     locationIds: [],
@@ -68,7 +129,9 @@ export function ExportCreationForm({ onCreateExport, isLoading }: ExportCreation
     status: [],
     createdAfter: '',
     createdBefore: '',
+    savedSearchId: '',
   });
+  const { savedSearches } = useSavedSearches();
 
   const [customTagInput, setCustomTagInput] = useState('');
 
@@ -78,10 +141,30 @@ export function ExportCreationForm({ onCreateExport, isLoading }: ExportCreation
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (report === 'insurance') {
+      // A past date covers the whole day; today is the current inventory
+      const endOfDay = asOf ? new Date(`${asOf}T23:59:59.999`) : null;
+      await onCreateExport({
+        format: 'pdf',
+        report,
+        ...(endOfDay && endOfDay < new Date() && { asOf: endOfDay }),
+      });
+      return;
+    }
+
     const exportRequest: Parameters<typeof onCreateExport>[0] = {
       format,
     };
 
+    // Templates are sent by ID; the default layout needs no settings at all
+    if (format === 'csv' || format === 'xlsx') {
+      if (templateId) {
+        exportRequest.templateId = templateId;
+      } else if (columnSettings !== DEFAULT_EXPORT_COLUMN_SETTINGS) {
+        exportRequest.columnSettings = columnSettings;
+      }
+    }
+
     // Add filters if enabled and has values
     if (useFilters) {
       const exportFilters: any = {};
@@ -106,6 +189,10 @@ export function ExportCreationForm({ onCreateExport, isLoading }: ExportCreation
         exportFilters.createdBefore = new Date(filters.createdBefore);
       }
 
+      if (filters.savedSearchId) {
+        exportFilters.savedSearchId = filters.savedSearchId;
+      }
+
       if (Object.keys(exportFilters).length > 0) {
         exportRequest.filters = exportFilters;
       }
@@ -159,6 +246,7 @@ export function ExportCreationForm({ onCreateExport, isLoading }: ExportCreation
       status: [],
       createdAfter: '',
       createdBefore: '',
+      savedSearchId: '',
     });
   };
 
@@ -173,210 +261,304 @@ export function ExportCreationForm({ onCreateExport, isLoading }: ExportCreation
       filters.tagNames.length +
       filters.status.length +
       (filters.createdAfter ? 1 : 0) +
-      (filters.createdBefore ? 1 : 0)
+      (filters.createdBefore ? 1 : 0) +
+      (filters.savedSearchId ? 1 : 0)
     );
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
-      {/* Export Format Selection */}
+      {/* Report Selection */}
       <div className="space-y-3">
-        <Label htmlFor="format" className="text-base font-medium">
-          Export Format
+        <Label htmlFor="report" className="text-base font-medium">
+          Report
         </Label>
-        <Select value={format} onValueChange={(value: 'csv') => setFormat(value)}>
-          <SelectTrigger id="format">
-            <SelectValue placeholder="Select export format" />
+        <Select value={report} onValueChange={(value: ExportReportType) => setReport(value)}>
+          <SelectTrigger id="report">
+            <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="csv" className="flex items-center gap-2">
-              <FileText className="h-4 w-4" />
-              CSV (Comma-Separated Values)
-            </SelectItem>
+            {REPORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
         <p className="text-sm text-muted-foreground">
-          CSV format includes all item details, locations, photos, and tags. Compatible with Excel,
-          Google Sheets, and other spreadsheet applications.
+          {REPORT_OPTIONS.find((option) => option.value === report)?.description}
         </p>
       </div>
 
-      {/* Advanced Filters Toggle */}
-      <div className="space-y-4">
-        <div className="flex items-center space-x-2">
-          <Checkbox
-            id="use-filters"
-            checked={useFilters}
-            onCheckedChange={(checked) => setUseFilters(checked === true)}
-          />
-          <Label htmlFor="use-filters" className="text-base font-medium cursor-pointer">
-            Apply Advanced Filters
-            {useFilters && getActiveFilterCount() > 0 && (
-              <Badge variant="secondary" className="ml-2">
-                {getActiveFilterCount()} active
-              </Badge>
-            )}
+      {report === 'insurance' && (
+        <div className="space-y-2 md:w-1/2">
+          <Label htmlFor="as-of" className="text-sm font-medium flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            Inventory as of
           </Label>
+          <Input
+            id="as-of"
+            type="date"
+            value={asOf}
+            max={new Date().toISOString().slice(0, 10)}
+            onChange={(e) => setAsOf(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            Leave empty for the current inventory, or pick a past date to rebuild the report from the
+            activity history.
+          </p>
         </div>
+      )}
+
+      {report === 'inventory' && (
+        <>
+          {/* Export Format Selection */}
+          <div className="space-y-3">
+            <Label htmlFor="format" className="text-base font-medium">
+              Export Format
+            </Label>
+            <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+              <SelectTrigger id="format">
+                <SelectValue placeholder="Select export format" />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMAT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {EXPORT_FORMAT_OPTIONS.find((option) => option.value === format)?.description}
+            </p>
+          </div>
+
+          {(format === 'csv' || format === 'xlsx') && (
+            <ExportColumnSettingsPanel
+              settings={columnSettings}
+              templateId={templateId}
+              onChange={(settings, id) => {
+                setColumnSettings(settings);
+                setTemplateId(id);
+              }}
+            />
+          )}
 
-        {useFilters && (
-          <Card className="border-dashed">
-            <CardHeader className="pb-4">
-              <CardTitle className="text-lg flex items-center gap-2">
-                <Filter className="h-5 w-5" />
-                Export Filters
-              </CardTitle>
-              <CardDescription>
-                Apply filters to export only specific items. Leave empty to export all items.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Tabs defaultValue="status" className="space-y-4">
-                <TabsList className="grid w-full grid-cols-4">
-                  <TabsTrigger value="status">Status</TabsTrigger>
-                  <TabsTrigger value="tags">Tags</TabsTrigger>
-                  <TabsTrigger value="dates">Dates</TabsTrigger>
-                  <TabsTrigger value="locations">Locations</TabsTrigger>
-                </TabsList>
-
-                {/* Status Filters */}
-                <TabsContent value="status" className="space-y-4">
-                  <div>
-                    <Label className="text-sm font-medium mb-3 block">Item Status</Label>
-                    <div className="grid grid-cols-2 gap-3">
-                      {ITEM_STATUSES.map((status) => (
-                        <div key={status.value} className="flex items-center space-x-2">
-                          <Checkbox
-                            id={`status-${status.value}`}
-                            checked={filters.status.includes(status.value)}
-                            onCheckedChange={(checked) =>
-                              handleStatusToggle(status.value, checked as boolean)
-                            }
+          {/* Advanced Filters Toggle */}
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="use-filters"
+                checked={useFilters}
+                onCheckedChange={(checked) => setUseFilters(checked === true)}
+              />
+              <Label htmlFor="use-filters" className="text-base font-medium cursor-pointer">
+                Apply Advanced Filters
+                {useFilters && getActiveFilterCount() > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {getActiveFilterCount()} active
+                  </Badge>
+                )}
+              </Label>
+            </div>
+
+            {useFilters && (
+              <Card className="border-dashed">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Filter className="h-5 w-5" />
+                    Export Filters
+                  </CardTitle>
+                  <CardDescription>
+                    Apply filters to export only specific items. Leave empty to export all items.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Tabs defaultValue="status" className="space-y-4">
+                    <TabsList className="grid w-full grid-cols-5">
+                      <TabsTrigger value="collection">Collection</TabsTrigger>
+                      <TabsTrigger value="status">Status</TabsTrigger>
+                      <TabsTrigger value="tags">Tags</TabsTrigger>
+                      <TabsTrigger value="dates">Dates</TabsTrigger>
+                      <TabsTrigger value="locations">Locations</TabsTrigger>
+                    </TabsList>
+
+                    {/* Status Filters */}
+                    <TabsContent value="status" className="space-y-4">
+                      <div>
+                        <Label className="text-sm font-medium mb-3 block">Item Status</Label>
+                        <div className="grid grid-cols-2 gap-3">
+                          {ITEM_STATUSES.map((status) => (
+                            <div key={status.value} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`status-${status.value}`}
+                                checked={filters.status.includes(status.value)}
+                                onCheckedChange={(checked) =>
+                                  handleStatusToggle(status.value, checked as boolean)
+                                }
+                              />
+                              <Label
+                                htmlFor={`status-${status.value}`}
+                                className="text-sm cursor-pointer"
+                              >
+                                {status.label}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    </TabsContent>
+
+                    {/* Tag Filters */}
+                    <TabsContent value="tags" className="space-y-4">
+                      <div>
+                        <Label className="text-sm font-medium mb-3 block">Filter by Tags</Label>
+                        <div className="flex gap-2 mb-3">
+                          <Input
+                            placeholder="Enter tag name..."
+                            value={customTagInput}
+                            onChange={(e) => setCustomTagInput(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault();
+                                handleAddTag();
+                              }
+                            }}
                           />
-                          <Label
-                            htmlFor={`status-${status.value}`}
-                            className="text-sm cursor-pointer"
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleAddTag}
+                            disabled={!customTagInput.trim()}
                           >
-                            {status.label}
+                            <Tag className="h-4 w-4 mr-1" />
+                            Add
+                          </Button>
+                        </div>
+
+                        {filters.tagNames.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {filters.tagNames.map((tag) => (
+                              <Badge
+                                key={tag}
+                                variant="secondary"
+                                className="cursor-pointer"
+                                onClick={() => handleRemoveTag(tag)}
+                              >
+                                {tag}
+                                <span className="ml-1 text-xs">×</span>
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </TabsContent>
+
+                    {/* Date Filters */}
+                    <TabsContent value="dates" className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="created-after" className="text-sm font-medium">
+                            Created After
                           </Label>
+                          <Input
+                            id="created-after"
+                            type="date"
+                            value={filters.createdAfter}
+                            onChange={(e) =>
+                              setFilters(prev => ({ ...prev, createdAfter: e.target.value }))
+                            }
+                          />
                         </div>
-                      ))}
-                    </div>
-                  </div>
-                </TabsContent>
-
-                {/* Tag Filters */}
-                <TabsContent value="tags" className="space-y-4">
-                  <div>
-                    <Label className="text-sm font-medium mb-3 block">Filter by Tags</Label>
-                    <div className="flex gap-2 mb-3">
-                      <Input
-                        placeholder="Enter tag name..."
-                        value={customTagInput}
-                        onChange={(e) => setCustomTagInput(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            e.preventDefault();
-                            handleAddTag();
-                          }
-                        }}
-                      />
+                        <div>
+                          <Label htmlFor="created-before" className="text-sm font-medium">
+                            Created Before
+                          </Label>
+                          <Input
+                            id="created-before"
+                            type="date"
+                            value={filters.createdBefore}
+                            onChange={(e) =>
+                              setFilters(prev => ({ ...prev, createdBefore: e.target.value }))
+                            }
+                          />
+                        </div>
+                      </div>
+                    </TabsContent>
+
+                    {/* Location Filters */}
+                    <TabsContent value="locations" className="space-y-4">
+                      <div>
+                        <Label className="text-sm font-medium mb-3 block">Filter by Locations</Label>
+                        <p className="text-sm text-muted-foreground mb-3">
+                          Location filtering will be available in the next version. For now, all
+                          accessible locations will be included in the export.
+                        </p>
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <MapPin className="h-4 w-4" />
+                          <span className="text-sm">All locations included</span>
+                        </div>
+                      </div>
+                    </TabsContent>
+
+                    {/* Saved Search Filter */}
+                    <TabsContent value="collection" className="space-y-4">
+                      <div>
+                        <Label className="text-sm font-medium mb-3 block">Export a Collection</Label>
+                        <p className="text-sm text-muted-foreground mb-3">
+                          Only export the items a saved search matches when the export runs.
+                        </p>
+                        <Select
+                          value={filters.savedSearchId || ALL_ITEMS}
+                          onValueChange={(value) => setFilters(prev => ({
+                            ...prev,
+                            savedSearchId: value === ALL_ITEMS ? '' : value,
+                          }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_ITEMS}>
+                              <div className="flex items-center gap-2">
+                                <Bookmark className="h-4 w-4" />
+                                All items
+                              </div>
+                            </SelectItem>
+                            {savedSearches.map((savedSearch) => (
+                              <SelectItem key={savedSearch.id} value={savedSearch.id}>
+                                {savedSearch.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </TabsContent>
+                  </Tabs>
+
+                  {getActiveFilterCount() > 0 && (
+                    <div className="flex justify-between items-center pt-4 border-t">
+                      <span className="text-sm text-muted-foreground">
+                        {getActiveFilterCount()} filter(s) active
+                      </span>
                       <Button
                         type="button"
-                        variant="outline"
-                        onClick={handleAddTag}
-                        disabled={!customTagInput.trim()}
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleClearFilters}
                       >
-                        <Tag className="h-4 w-4 mr-1" />
-                        Add
+                        Clear All Filters
                       </Button>
                     </div>
-
-                    {filters.tagNames.length > 0 && (
-                      <div className="flex flex-wrap gap-2">
-                        {filters.tagNames.map((tag) => (
-                          <Badge
-                            key={tag}
-                            variant="secondary"
-                            className="cursor-pointer"
-                            onClick={() => handleRemoveTag(tag)}
-                          >
-                            {tag}
-                            <span className="ml-1 text-xs">×</span>
-                          </Badge>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                </TabsContent>
-
-                {/* Date Filters */}
-                <TabsContent value="dates" className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="created-after" className="text-sm font-medium">
-                        Created After
-                      </Label>
-                      <Input
-                        id="created-after"
-                        type="date"
-                        value={filters.createdAfter}
-                        onChange={(e) =>
-                          setFilters(prev => ({ ...prev, createdAfter: e.target.value }))
-                        }
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="created-before" className="text-sm font-medium">
-                        Created Before
-                      </Label>
-                      <Input
-                        id="created-before"
-                        type="date"
-                        value={filters.createdBefore}
-                        onChange={(e) =>
-                          setFilters(prev => ({ ...prev, createdBefore: e.target.value }))
-                        }
-                      />
-                    </div>
-                  </div>
-                </TabsContent>
-
-                {/* Location Filters */}
-                <TabsContent value="locations" className="space-y-4">
-                  <div>
-                    <Label className="text-sm font-medium mb-3 block">Filter by Locations</Label>
-                    <p className="text-sm text-muted-foreground mb-3">
-                      Location filtering will be available in the next version. For now, all
-                      accessible locations will be included in the export.
-                    </p>
-                    <div className="flex items-center gap-2 text-muted-foreground">
-                      <MapPin className="h-4 w-4" />
-                      <span className="text-sm">All locations included</span>
-                    </div>
-                  </div>
-                </TabsContent>
-              </Tabs>
-
-              {getActiveFilterCount() > 0 && (
-                <div className="flex justify-between items-center pt-4 border-t">
-                  <span className="text-sm text-muted-foreground">
-                    {getActiveFilterCount()} filter(s) active
-                  </span>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleClearFilters}
-                  >
-                    Clear All Filters
-                  </Button>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        )}
-      </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </>
+      )}
 
       {/* Submit Button */}
       <div className="flex justify-end pt-4 border-t">
@@ -386,6 +568,11 @@ export function ExportCreationForm({ onCreateExport, isLoading }: ExportCreation
               <Settings className="h-4 w-4 mr-2 animate-spin" />
               Creating Export...
             </>
+          ) : report === 'insurance' ? (
+            <>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Create Insurance Report
+            </>
           ) : (
             <>
               <FileText className="h-4 w-4 mr-2" />
@@ -6,6 +6,7 @@
  * - Download functionality for available exports
  * - Export metadata and statistics
  * - Expiration status and cleanup notifications
+ * - Runs of export schedules, kept until their schedule's retention count
  * - Filtering and sorting options
  *
  * @component
@@ -30,16 +31,19 @@ import {
   AlertTriangle,
   Filter,
   Archive,
+  CalendarClock,
 } from 'lucide-react';
-import type { ExportJob } from '@/lib/types/exports';
+import type { ExportJob, ExportSchedule } from '@/lib/types/exports';
 
 interface ExportHistoryListProps {
   exportHistory: ExportJob[];
+  /** Schedules used to name scheduled runs */
+  schedules?: ExportSchedule[];
   onDownload: (exportJob: ExportJob) => void;
 }
 
 type SortOption = 'newest' | 'oldest' | 'size' | 'status';
-type StatusFilter = 'all' | 'completed' | 'failed';
+type StatusFilter = 'all' | 'completed' | 'failed' | 'scheduled';
 
 /**
  * Format file size for display
@@ -105,7 +109,7 @@ const getStatusInfo = (status: ExportJob['status']) => {
 /**
  * Export history list component
  */
-export function ExportHistoryList({ exportHistory, onDownload }: ExportHistoryListProps) {
+export function ExportHistoryList({ exportHistory, schedules = [], onDownload }: ExportHistoryListProps) {
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
 
@@ -114,7 +118,9 @@ export function ExportHistoryList({ exportHistory, onDownload }: ExportHistoryLi
     let filtered = [...exportHistory];
 
     // Apply status filter
-    if (statusFilter !== 'all') {
+    if (statusFilter === 'scheduled') {
+      filtered = filtered.filter(export_ => export_.scheduleId);
+    } else if (statusFilter !== 'all') {
       filtered = filtered.filter(export_ => export_.status === statusFilter);
     }
 
@@ -205,6 +211,7 @@ export function ExportHistoryList({ exportHistory, onDownload }: ExportHistoryLi
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="completed">Completed</SelectItem>
               <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="scheduled">Scheduled</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -234,8 +241,13 @@ export function ExportHistoryList({ exportHistory, onDownload }: ExportHistoryLi
         {filteredAndSortedExports.map((exportJob) => {
           const statusInfo = getStatusInfo(exportJob.status);
           const StatusIcon = statusInfo.icon;
-          const expired = isExpired(exportJob.expiresAt);
+          const scheduled = !!exportJob.scheduleId;
+          // Scheduled exports have no expiry; their files are removed past the retention count
+          const expired = scheduled
+            ? exportJob.status === 'completed' && !exportJob.downloadUrl
+            : isExpired(exportJob.expiresAt);
           const daysUntilExpiration = getDaysUntilExpiration(exportJob.expiresAt);
+          const scheduleName = schedules.find(schedule => schedule.id === exportJob.scheduleId)?.name;
 
           return (
             <Card key={exportJob.id} className={expired ? 'opacity-60' : ''}>
@@ -249,10 +261,16 @@ export function ExportHistoryList({ exportHistory, onDownload }: ExportHistoryLi
                         <StatusIcon className="h-3 w-3" />
                         {statusInfo.label}
                       </Badge>
+                      {scheduled && (
+                        <Badge variant="outline" className="flex items-center gap-1">
+                          <CalendarClock className="h-3 w-3" />
+                          {scheduleName ? `Scheduled: ${scheduleName}` : 'Scheduled'}
+                        </Badge>
+                      )}
                       {expired && (
                         <Badge variant="outline" className="text-red-600 border-red-200">
                           <AlertTriangle className="h-3 w-3 mr-1" />
-                          Expired
+                          {scheduled ? 'Removed' : 'Expired'}
                         </Badge>
                       )}
                     </div>
@@ -285,7 +303,7 @@ export function ExportHistoryList({ exportHistory, onDownload }: ExportHistoryLi
                     </div>
 
                     {/* Expiration Warning */}
-                    {!expired && daysUntilExpiration <= 2 && daysUntilExpiration > 0 && (
+                    {!scheduled && !expired && daysUntilExpiration <= 2 && daysUntilExpiration > 0 && (
                       <div className="mt-2 text-xs text-amber-600 bg-amber-50 rounded px-2 py-1 inline-block">
                         <Clock className="h-3 w-3 inline mr-1" />
                         Expires in {daysUntilExpiration} day{daysUntilExpiration !== 1 ? 's' : ''}
@@ -308,7 +326,7 @@ export function ExportHistoryList({ exportHistory, onDownload }: ExportHistoryLi
                     {exportJob.status === 'completed' && expired && (
                       <Button disabled size="sm" variant="outline">
                         <AlertTriangle className="h-4 w-4 mr-2" />
-                        Expired
+                        {scheduled ? 'Removed' : 'Expired'}
                       </Button>
                     )}
 
@@ -6,6 +6,7 @@
  * - Processing stage descriptions and item counts
  * - Estimated time remaining calculations
  * - Download button for completed exports
+ * - Cancel button for pending and processing exports
  * - Error handling and retry options
  *
  * @component
@@ -34,6 +35,7 @@ import type { ExportJob } from '@/lib/types/exports';
 interface ExportProgressTrackerProps {
   exportJob: ExportJob;
   onDownload: () => void;
+  onCancel?: () => void;
 }
 
 /**
@@ -102,7 +104,7 @@ const getProcessingStage = (progress: number, status: ExportJob['status'], total
     } else if (progress < 60) {
       return 'Including photo references...';
     } else if (progress < 90) {
-      return 'Generating CSV format...';
+      return 'Generating export file...';
     } else {
       return 'Finalizing export file...';
     }
@@ -116,13 +118,17 @@ const getProcessingStage = (progress: number, status: ExportJob['status'], total
     return 'Export processing failed';
   }
 
+  if (status === 'cancelled') {
+    return 'Export cancelled';
+  }
+
   return 'Processing...';
 };
 
 /**
  * Export progress tracker component
  */
-export function ExportProgressTracker({ exportJob, onDownload }: ExportProgressTrackerProps) {
+export function ExportProgressTracker({ exportJob, onDownload, onCancel }: ExportProgressTrackerProps) {
   const statusBadge = getStatusBadge(exportJob.status);
   const StatusIcon = statusBadge.icon;
   const processingStage = getProcessingStage(exportJob.progress, exportJob.status, exportJob.totalItems);
@@ -147,7 +153,11 @@ export function ExportProgressTracker({ exportJob, onDownload }: ExportProgressT
             </div>
 
             <div className="text-sm text-muted-foreground space-y-1">
-              <div>Format: CSV • Items: {exportJob.totalItems.toLocaleString()}</div>
+              <div>
+                {exportJob.report === 'insurance' ? 'Insurance report' : `Format: ${exportJob.format.toUpperCase()}`}
+                {exportJob.asOf && ` as of ${new Date(exportJob.asOf).toLocaleDateString()}`}
+                {' • '}Items: {exportJob.totalItems.toLocaleString()}
+              </div>
               <div>Created: {new Date(exportJob.createdAt).toLocaleString()}</div>
               {exportJob.fileSize && (
                 <div>Size: {formatFileSize(exportJob.fileSize)}</div>
@@ -240,6 +250,16 @@ export function ExportProgressTracker({ exportJob, onDownload }: ExportProgressT
               </Button>
             )}
 
+            {(exportJob.status === 'pending' || exportJob.status === 'processing') && onCancel && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onCancel}
+              >
+                Cancel
+              </Button>
+            )}
+
             {exportJob.status === 'failed' && (
               <Button
                 variant="outline"
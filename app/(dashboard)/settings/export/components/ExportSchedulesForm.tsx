@@ -0,0 +1,316 @@
+/**
+ * ExportSchedulesForm - Manage recurring exports for off-site backup
+ *
+ * This component lists the household's export schedules and lets members:
+ * - Create weekly, monthly or custom (cron) schedules with a saved filter set
+ * - Choose how many completed exports each schedule keeps
+ * - Pause, resume and delete schedules
+ *
+ * Each run appears in the export history of the member who created the
+ * schedule.
+ *
+ * @component
+ * @category Export Components
+ * @since 1.13.0
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Pause, Play, Trash2 } from 'lucide-react';
+import type { ItemStatus } from '@prisma/client';
+import type { CreateExportRequest, ExportFormat, ExportSchedule } from '@/lib/types/exports';
+
+interface ExportSchedulesFormProps {
+  schedules: ExportSchedule[];
+  onSchedulesChange: (schedules: ExportSchedule[]) => void;
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+type Frequency = 'weekly' | 'monthly' | 'custom';
+
+/** Cron expressions for the preset frequencies (03:00 UTC) */
+const FREQUENCY_CRON: Record<Exclude<Frequency, 'custom'>, string> = {
+  weekly: '0 3 * * 1',
+  monthly: '0 3 1 * *',
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'XLSX',
+  pdf: 'PDF',
+};
+
+const ITEM_STATUSES: Array<{ value: ItemStatus; label: string }> = [
+  { value: 'AVAILABLE', label: 'Available' },
+  { value: 'BORROWED', label: 'Borrowed' },
+  { value: 'MAINTENANCE', label: 'In Maintenance' },
+  { value: 'LOST', label: 'Lost' },
+  { value: 'SOLD', label: 'Sold' },
+];
+
+/**
+ * Describe a schedule's cron expression
+ */
+const describeFrequency = (cronExpression: string): string => {
+  if (cronExpression === FREQUENCY_CRON.weekly) return 'Weekly (Mondays, 03:00 UTC)';
+  if (cronExpression === FREQUENCY_CRON.monthly) return 'Monthly (1st, 03:00 UTC)';
+  return `Cron: ${cronExpression} (UTC)`;
+};
+
+/**
+ * Export schedules form component
+ */
+export function ExportSchedulesForm({ schedules, onSchedulesChange, onSuccess, onError }: ExportSchedulesFormProps) {
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [frequency, setFrequency] = useState<Frequency>('weekly');
+  const [customCron, setCustomCron] = useState('');
+  const [retentionCount, setRetentionCount] = useState('4');
+  const [statuses, setStatuses] = useState<ItemStatus[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Create a schedule from the form
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const filters: NonNullable<CreateExportRequest['filters']> = {};
+      const tagNames = tagInput.split(',').map(tag => tag.trim()).filter(Boolean);
+      if (statuses.length > 0) filters.status = statuses;
+      if (tagNames.length > 0) filters.tagNames = tagNames;
+
+      const response = await fetch('/api/v1/exports/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          format,
+          filters: Object.keys(filters).length > 0 ? filters : undefined,
+          cronExpression: frequency === 'custom' ? customCron.trim() : FREQUENCY_CRON[frequency],
+          retentionCount: Number(retentionCount),
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(payload?.error?.details?.[0]?.message || payload?.error?.message || 'Failed to create schedule');
+      }
+
+      const schedule: ExportSchedule = payload.data;
+      onSchedulesChange([...schedules, schedule].sort((a, b) => a.name.localeCompare(b.name)));
+      onSuccess?.(`Scheduled "${schedule.name}". First run: ${new Date(schedule.nextRunAt).toLocaleString()}`);
+      setName('');
+      setStatuses([]);
+      setTagInput('');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create schedule';
+      onError?.(errorMessage);
+      console.error('Schedule creation failed:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Pause or resume a schedule
+   */
+  const handleToggle = async (schedule: ExportSchedule) => {
+    try {
+      const response = await fetch(`/api/v1/exports/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(payload?.error?.message || 'Failed to update schedule');
+      }
+
+      onSchedulesChange(schedules.map(s => (s.id === schedule.id ? payload.data : s)));
+    } catch (err) {
+      onError?.(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  /**
+   * Delete a schedule and the files it kept
+   */
+  const handleDelete = async (schedule: ExportSchedule) => {
+    if (!window.confirm(`Delete "${schedule.name}" and the exports it kept?`)) return;
+
+    try {
+      const response = await fetch(`/api/v1/exports/schedules/${schedule.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error?.message || 'Failed to delete schedule');
+      }
+
+      onSchedulesChange(schedules.filter(s => s.id !== schedule.id));
+      onSuccess?.(`Deleted schedule "${schedule.name}"`);
+    } catch (err) {
+      onError?.(err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Existing schedules */}
+      <div className="space-y-3">
+        {schedules.length === 0 && (
+          <p className="text-sm text-muted-foreground">No scheduled exports yet.</p>
+        )}
+
+        {schedules.map((schedule) => (
+          <div key={schedule.id} className="flex items-start justify-between rounded-lg border p-3">
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{schedule.name}</span>
+                <Badge variant="outline">{FORMAT_LABELS[schedule.format]}</Badge>
+                {!schedule.enabled && <Badge variant="secondary">Paused</Badge>}
+              </div>
+              <div className="text-muted-foreground">
+                {describeFrequency(schedule.cronExpression)} • Keeps the last {schedule.retentionCount}
+              </div>
+              <div className="text-muted-foreground">
+                {schedule.enabled && <>Next run: {new Date(schedule.nextRunAt).toLocaleString()}</>}
+                {schedule.lastRunAt && <span className="ml-2">• Last run: {new Date(schedule.lastRunAt).toLocaleString()}</span>}
+              </div>
+              {schedule.lastError && (
+                <div className="text-red-600">Last run failed: {schedule.lastError}</div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 ml-4">
+              <Button variant="outline" size="sm" onClick={() => handleToggle(schedule)}>
+                {schedule.enabled ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                {schedule.enabled ? 'Pause' : 'Resume'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleDelete(schedule)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* New schedule */}
+      <form onSubmit={handleCreate} className="space-y-4 pt-4 border-t">
+        <h4 className="text-sm font-medium">New Schedule</h4>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-name">Name</Label>
+            <Input
+              id="schedule-name"
+              value={name}
+              maxLength={100}
+              placeholder="Weekly backup"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-format">Format</Label>
+            <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+              <SelectTrigger id="schedule-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel Workbook (XLSX)</SelectItem>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+                <SelectItem value="pdf">PDF Inventory</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-frequency">Frequency</Label>
+            <Select value={frequency} onValueChange={(value: Frequency) => setFrequency(value)}>
+              <SelectTrigger id="schedule-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekly">Weekly (Mondays, 03:00 UTC)</SelectItem>
+                <SelectItem value="monthly">Monthly (1st, 03:00 UTC)</SelectItem>
+                <SelectItem value="custom">Custom cron expression</SelectItem>
+              </SelectContent>
+            </Select>
+            {frequency === 'custom' && (
+              <Input
+                value={customCron}
+                placeholder="0 3 * * 1"
+                onChange={(e) => setCustomCron(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-retention">Exports to keep</Label>
+            <Input
+              id="schedule-retention"
+              type="number"
+              min={1}
+              max={100}
+              value={retentionCount}
+              onChange={(e) => setRetentionCount(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium block">Item Status (all when none selected)</Label>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {ITEM_STATUSES.map((status) => (
+              <div key={status.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`schedule-status-${status.value}`}
+                  checked={statuses.includes(status.value)}
+                  onCheckedChange={(checked) =>
+                    setStatuses(prev => (checked ? [...prev, status.value] : prev.filter(s => s !== status.value)))
+                  }
+                />
+                <Label htmlFor={`schedule-status-${status.value}`} className="text-sm cursor-pointer">
+                  {status.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2 md:w-1/2">
+          <Label htmlFor="schedule-tags">Tags (comma-separated, optional)</Label>
+          <Input
+            id="schedule-tags"
+            value={tagInput}
+            placeholder="electronics, insured"
+            onChange={(e) => setTagInput(e.target.value)}
+          />
+        </div>
+
+        <Button
+          type="submit"
+          disabled={isSaving || !name.trim() || (frequency === 'custom' && !customCron.trim())}
+        >
+          <CalendarClock className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Create Schedule'}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * HouseholdBackupForm - Download and restore full household backups
+ *
+ * This component covers both halves of a backup:
+ * - Download a ZIP of the household's data and original photos
+ * - Restore an archive into a new household, or into the current one while
+ *   it is still empty, then switch to the restored household
+ *
+ * @component
+ * @category Export Components
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Settings, Upload } from 'lucide-react';
+import type { RestoreResult } from '@/lib/types/backups';
+
+interface HouseholdBackupFormProps {
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+type RestoreTargetMode = 'new' | 'current';
+
+/**
+ * Household backup form component
+ */
+export function HouseholdBackupForm({ onSuccess, onError }: HouseholdBackupFormProps) {
+  const router = useRouter();
+  const { data: session, update } = useSession();
+  const [file, setFile] = useState<File | null>(null);
+  const [target, setTarget] = useState<RestoreTargetMode>('new');
+  const [name, setName] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  /**
+   * Restore the selected archive and open the restored household
+   */
+  const handleRestore = async () => {
+    if (!file) return;
+    setIsRestoring(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('target', target);
+      if (target === 'new' && name.trim()) {
+        formData.append('name', name.trim());
+      }
+
+      const response = await fetch('/api/v1/households/restore', { method: 'POST', body: formData });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(payload?.message || 'Restore failed');
+      }
+
+      const result: RestoreResult = payload.data;
+
+      if (target === 'new') {
+        // Switch the session to the restored household
+        await update({
+          name: session?.user?.name,
+          email: session?.user?.email,
+          householdId: result.householdId,
+        });
+      }
+
+      onSuccess?.(
+        `Restored ${result.counts.items} items, ${result.counts.locations} locations and ` +
+        `${result.counts.photos} photos into ${result.householdName}` +
+        (result.missingPhotos > 0 ? ` (${result.missingPhotos} photos were missing from the archive)` : '')
+      );
+      setFile(null);
+      router.refresh();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Restore failed';
+      onError?.(errorMessage);
+      console.error('Restore failed:', err);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Download */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Download Backup</h4>
+        <p className="text-sm text-muted-foreground">
+          A ZIP with every location, item, tag, loan and NFC tag in this household, plus the
+          original photos. Large households can take a while to package.
+        </p>
+        <Button asChild variant="outline">
+          <a href="/api/v1/households/backup" download>
+            <Download className="h-4 w-4 mr-2" />
+            Download Backup
+          </a>
+        </Button>
+      </div>
+
+      {/* Restore */}
+      <div className="space-y-4 pt-4 border-t">
+        <h4 className="text-sm font-medium">Restore Backup</h4>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="backup-file">Backup archive</Label>
+            <Input
+              id="backup-file"
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="restore-target">Restore into</Label>
+            <Select value={target} onValueChange={(value: RestoreTargetMode) => setTarget(value)}>
+              <SelectTrigger id="restore-target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new">A new household</SelectItem>
+                <SelectItem value="current">This household (must be empty)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {target === 'new' && (
+          <div className="space-y-2 md:w-1/2">
+            <Label htmlFor="restore-name">Household name</Label>
+            <Input
+              id="restore-name"
+              value={name}
+              maxLength={100}
+              placeholder="Defaults to the name in the backup"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="button" disabled={!file || isRestoring} onClick={handleRestore} className="min-w-[200px]">
+            {isRestoring ? (
+              <>
+                <Settings className="h-4 w-4 mr-2 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                Restore Backup
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
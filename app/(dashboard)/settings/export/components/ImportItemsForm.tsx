@@ -0,0 +1,327 @@
+/**
+ * ImportItemsForm - Form component for importing items from a spreadsheet
+ *
+ * This component walks users through a spreadsheet import:
+ * - Upload a CSV or XLSX file (an edited export imports back as-is)
+ * - Preview a dry run with per-row errors and planned creates/updates
+ * - Adjust the column mapping and options, then commit
+ *
+ * @component
+ * @category Export Components
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Eye, Settings, Upload } from 'lucide-react';
+import { IMPORT_FIELDS } from '@/lib/validation/imports';
+import type {
+  ImportColumnMapping,
+  ImportDuplicateStrategy,
+  ImportField,
+  ImportReport,
+} from '@/lib/types/imports';
+
+interface ImportItemsFormProps {
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+const FIELD_OPTIONS: { value: ImportField | 'ignore'; label: string }[] = [
+  { value: 'ignore', label: "Don't import" },
+  ...IMPORT_FIELDS.map(field => ({
+    value: field,
+    label: {
+      name: 'Item name',
+      description: 'Description',
+      quantity: 'Quantity',
+      unit: 'Unit',
+      purchasePrice: 'Purchase price',
+      currentValue: 'Current value',
+      purchaseDate: 'Purchase date',
+      status: 'Status',
+      locationPath: 'Location path',
+      tags: 'Tags',
+    }[field],
+  })),
+];
+
+const DUPLICATE_OPTIONS: { value: ImportDuplicateStrategy; label: string }[] = [
+  { value: 'update', label: 'Update the existing item' },
+  { value: 'skip', label: 'Skip the row' },
+  { value: 'create', label: 'Create another item' },
+];
+
+/**
+ * Rows shown in the preview before "show all"
+ */
+const PREVIEW_ROW_LIMIT = 100;
+
+/**
+ * Import items form component
+ */
+export function ImportItemsForm({ onSuccess, onError }: ImportItemsFormProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [onDuplicate, setOnDuplicate] = useState<ImportDuplicateStrategy>('update');
+  const [createMissingLocations, setCreateMissingLocations] = useState(true);
+  const [createMissingTags, setCreateMissingTags] = useState(false);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isPreviewStale, setIsPreviewStale] = useState(false);
+  const [showAllRows, setShowAllRows] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Send the file for a dry run or a committed import
+   */
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsSubmitting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', String(dryRun));
+      formData.append('onDuplicate', onDuplicate);
+      formData.append('createMissingLocations', String(createMissingLocations));
+      formData.append('createMissingTags', String(createMissingTags));
+      formData.append('skipInvalidRows', String(skipInvalidRows));
+      if (mapping) {
+        formData.append('mapping', JSON.stringify(mapping));
+      }
+
+      const response = await fetch('/api/v1/imports', { method: 'POST', body: formData });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        // Blocked imports come back with the dry-run report
+        if (payload?.error?.context?.report) {
+          setReport(payload.error.context.report);
+        }
+        throw new Error(payload?.error?.message || 'Import failed');
+      }
+
+      const result: ImportReport = payload.data;
+      setReport(result);
+      setIsPreviewStale(false);
+
+      if (result.committed) {
+        onSuccess?.(`Imported ${result.summary.create} new and ${result.summary.update} updated items`);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Import failed';
+      onError?.(errorMessage);
+      console.error('Import failed:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    setMapping(null);
+    setReport(null);
+    setShowAllRows(false);
+  };
+
+  const handleMappingChange = (header: string, field: ImportField | 'ignore') => {
+    const current = mapping ?? Object.fromEntries([
+      ...Object.entries(report?.mapping ?? {}),
+      ...(report?.unmappedHeaders ?? []).map(h => [h, 'ignore'] as const),
+    ]);
+    setMapping({ ...current, [header]: field });
+    setIsPreviewStale(true);
+  };
+
+  const headers = report ? [...Object.keys(report.mapping), ...report.unmappedHeaders] : [];
+  const visibleRows = report
+    ? report.rows.filter(row => row.errors.length > 0 || row.warnings.length > 0 || row.action !== 'create')
+    : [];
+  const canCommit = !!report && !report.committed && !isPreviewStale
+    && report.summary.create + report.summary.update > 0
+    && (report.summary.error === 0 || skipInvalidRows);
+
+  return (
+    <div className="space-y-6">
+      {/* File and Options */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="import-file">Spreadsheet</Label>
+          <Input id="import-file" type="file" accept=".csv,.xlsx,text/csv" onChange={handleFileChange} />
+          <p className="text-xs text-muted-foreground">
+            CSV or XLSX, up to 5,000 rows. Use the columns from a CSV export, or map your own below.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="import-duplicates">When an item already exists in that location</Label>
+          <Select
+            value={onDuplicate}
+            onValueChange={(value: ImportDuplicateStrategy) => {
+              setOnDuplicate(value);
+              setIsPreviewStale(true);
+            }}
+          >
+            <SelectTrigger id="import-duplicates">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DUPLICATE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        {[
+          { id: 'create-locations', label: 'Create missing locations', checked: createMissingLocations, set: setCreateMissingLocations },
+          { id: 'create-tags', label: 'Create missing tags', checked: createMissingTags, set: setCreateMissingTags },
+          { id: 'skip-invalid', label: 'Import valid rows even if others have errors', checked: skipInvalidRows, set: setSkipInvalidRows },
+        ].map(option => (
+          <div key={option.id} className="flex items-center space-x-2">
+            <Checkbox
+              id={option.id}
+              checked={option.checked}
+              onCheckedChange={(checked) => {
+                option.set(checked === true);
+                setIsPreviewStale(true);
+              }}
+            />
+            <Label htmlFor={option.id} className="cursor-pointer">
+              {option.label}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      {/* Column Mapping */}
+      {headers.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Column Mapping</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {headers.map(header => (
+              <div key={header} className="flex items-center gap-2">
+                <span className="w-40 truncate text-sm" title={header}>{header}</span>
+                <Select
+                  value={(mapping ?? report?.mapping)?.[header] ?? 'ignore'}
+                  onValueChange={(value: ImportField | 'ignore') => handleMappingChange(header, value)}
+                >
+                  <SelectTrigger className="h-9" aria-label={`Field for ${header}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELD_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Dry Run Report */}
+      {report && (
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">
+              {report.committed ? 'Imported' : 'Preview'} · {report.totalRows} rows
+            </span>
+            <Badge variant="default">{report.summary.create} create</Badge>
+            <Badge variant="secondary">{report.summary.update} update</Badge>
+            <Badge variant="outline">{report.summary.skip} skip</Badge>
+            <Badge variant={report.summary.error > 0 ? 'destructive' : 'outline'}>
+              {report.summary.error} with errors
+            </Badge>
+            {isPreviewStale && (
+              <span className="text-xs text-muted-foreground">Options changed — preview again before importing</span>
+            )}
+          </div>
+
+          {report.locationsToCreate.length > 0 && (
+            <p className="text-sm">
+              <span className="font-medium">New locations:</span> {report.locationsToCreate.join(', ')}
+            </p>
+          )}
+          {report.tagsToCreate.length > 0 && (
+            <p className="text-sm">
+              <span className="font-medium">New tags:</span> {report.tagsToCreate.join(', ')}
+            </p>
+          )}
+
+          {visibleRows.length > 0 && (
+            <div className="max-h-96 overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="py-1 pr-2">Row</th>
+                    <th className="py-1 pr-2">Item</th>
+                    <th className="py-1 pr-2">Action</th>
+                    <th className="py-1">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {(showAllRows ? visibleRows : visibleRows.slice(0, PREVIEW_ROW_LIMIT)).map(row => (
+                    <tr key={row.row} className="align-top">
+                      <td className="py-1 pr-2">{row.row}</td>
+                      <td className="py-1 pr-2">{row.name || '—'}</td>
+                      <td className="py-1 pr-2 capitalize">{row.action}</td>
+                      <td className="py-1">
+                        {row.errors.map(message => (
+                          <div key={message} className="text-destructive">{message}</div>
+                        ))}
+                        {row.warnings.map(message => (
+                          <div key={message} className="text-muted-foreground">{message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {!showAllRows && visibleRows.length > PREVIEW_ROW_LIMIT && (
+                <Button type="button" variant="link" size="sm" onClick={() => setShowAllRows(true)}>
+                  Show all {visibleRows.length} rows
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex justify-end gap-2 pt-4 border-t">
+        <Button type="button" variant="outline" disabled={!file || isSubmitting} onClick={() => runImport(true)}>
+          <Eye className="h-4 w-4 mr-2" />
+          Preview Import
+        </Button>
+        <Button type="button" disabled={!canCommit || isSubmitting} onClick={() => runImport(false)} className="min-w-[200px]">
+          {isSubmitting ? (
+            <>
+              <Settings className="h-4 w-4 mr-2 animate-spin" />
+              Working...
+            </>
+          ) : (
+            <>
+              <Upload className="h-4 w-4 mr-2" />
+              Import {report ? report.summary.create + report.summary.update : ''} Items
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * LabelSheetForm - Form component for printing QR/barcode label sheets
+ *
+ * This component lets users print labels as a fallback for phones without NFC:
+ * - Avery layout and code type selection
+ * - Label a whole location subtree or hand-picked items
+ * - Skip already-used labels on a partial sheet
+ *
+ * @component
+ * @category Export Components
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { QrCode, Settings, Search, X } from 'lucide-react';
+import type { LabelCodeType, LabelLayoutId } from '@/lib/types/labels';
+
+interface LabelSheetFormProps {
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+interface LocationOption {
+  id: string;
+  name: string;
+  path: string;
+}
+
+interface ItemOption {
+  id: string;
+  name: string;
+}
+
+const LABEL_LAYOUT_OPTIONS: { value: LabelLayoutId; label: string }[] = [
+  { value: 'avery-5160', label: 'Avery 5160 – 30 per sheet (Letter)' },
+  { value: 'avery-5163', label: 'Avery 5163 – 10 per sheet (Letter)' },
+  { value: 'avery-22805', label: 'Avery 22805 – 24 square (Letter)' },
+  { value: 'avery-l7160', label: 'Avery L7160 – 21 per sheet (A4)' },
+  { value: 'avery-l7163', label: 'Avery L7163 – 14 per sheet (A4)' },
+];
+
+/**
+ * Label sheet form component
+ */
+export function LabelSheetForm({ onSuccess, onError }: LabelSheetFormProps) {
+  const [layout, setLayout] = useState<LabelLayoutId>('avery-5160');
+  const [codeType, setCodeType] = useState<LabelCodeType>('qr');
+  const [mode, setMode] = useState<'location' | 'items'>('location');
+  const [skipLabels, setSkipLabels] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Location mode
+  const [locations, setLocations] = useState<LocationOption[]>([]);
+  const [locationId, setLocationId] = useState<string>('');
+  const [includeSubtree, setIncludeSubtree] = useState(true);
+  const [includeLocationLabels, setIncludeLocationLabels] = useState(true);
+
+  // Items mode
+  const [itemQuery, setItemQuery] = useState('');
+  const [itemResults, setItemResults] = useState<ItemOption[]>([]);
+  const [selectedItems, setSelectedItems] = useState<ItemOption[]>([]);
+
+  /**
+   * Load locations for the location picker
+   */
+  useEffect(() => {
+    fetch('/api/v1/locations?sortBy=path')
+      .then(response => (response.ok ? response.json() : null))
+      .then(payload => setLocations(payload?.data || []))
+      .catch(err => console.error('Failed to load locations:', err));
+  }, []);
+
+  /**
+   * Search items to add to the selection
+   */
+  useEffect(() => {
+    if (itemQuery.trim().length < 2) {
+      setItemResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: itemQuery.trim(), limit: '10' });
+        const response = await fetch(`/api/v1/items?${params}`);
+        const payload = response.ok ? await response.json() : null;
+        setItemResults(payload?.data || []);
+      } catch (err) {
+        console.error('Item search failed:', err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [itemQuery]);
+
+  const handleAddItem = (item: ItemOption) => {
+    setSelectedItems(prev => (prev.some(i => i.id === item.id) ? prev : [...prev, item]));
+    setItemQuery('');
+    setItemResults([]);
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    setSelectedItems(prev => prev.filter(i => i.id !== itemId));
+  };
+
+  const canSubmit = mode === 'location' ? !!locationId : selectedItems.length > 0;
+
+  /**
+   * Generate and download the label sheet
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsGenerating(true);
+
+    try {
+      const response = await fetch('/api/v1/exports/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          layout,
+          codeType,
+          skipLabels,
+          ...(mode === 'location'
+            ? { locationId, includeSubtree, includeLocationLabels }
+            : { itemIds: selectedItems.map(i => i.id) }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error?.message || 'Failed to generate labels');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || 'inventory-labels.pdf';
+      const labelCount = response.headers.get('X-Label-Count');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      onSuccess?.(labelCount
+        ? `Downloaded ${labelCount} labels as ${filename}`
+        : `Downloaded ${filename}`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to generate labels';
+      onError?.(errorMessage);
+      console.error('Label generation failed:', err);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Sheet Options */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="label-layout">Label Sheet</Label>
+          <Select value={layout} onValueChange={(value: LabelLayoutId) => setLayout(value)}>
+            <SelectTrigger id="label-layout">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LABEL_LAYOUT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="label-code-type">Code Type</Label>
+          <Select value={codeType} onValueChange={(value: LabelCodeType) => setCodeType(value)}>
+            <SelectTrigger id="label-code-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="qr">QR code (opens in phone camera)</SelectItem>
+              <SelectItem value="code128">Code 128 barcode</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="skip-labels">Skip Used Labels</Label>
+          <Input
+            id="skip-labels"
+            type="number"
+            min={0}
+            max={80}
+            value={skipLabels}
+            onChange={(e) => setSkipLabels(Math.max(0, Math.min(80, Number(e.target.value) || 0)))}
+          />
+        </div>
+      </div>
+
+      {/* What to Label */}
+      <Tabs value={mode} onValueChange={(value) => setMode(value as 'location' | 'items')}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="location">By Location</TabsTrigger>
+          <TabsTrigger value="items">Selected Items</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="location" className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="label-location">Location</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger id="label-location">
+                <SelectValue placeholder="Choose a location..." />
+              </SelectTrigger>
+              <SelectContent className="max-h-80">
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="include-subtree"
+              checked={includeSubtree}
+              onCheckedChange={(checked) => setIncludeSubtree(checked === true)}
+            />
+            <Label htmlFor="include-subtree" className="cursor-pointer">
+              Include nested locations
+            </Label>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="include-location-labels"
+              checked={includeLocationLabels}
+              onCheckedChange={(checked) => setIncludeLocationLabels(checked === true)}
+            />
+            <Label htmlFor="include-location-labels" className="cursor-pointer">
+              Print a label for each location as well as its items
+            </Label>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="items" className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={itemQuery}
+              onChange={(e) => setItemQuery(e.target.value)}
+              placeholder="Search items to add..."
+              className="pl-9"
+            />
+          </div>
+
+          {itemResults.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {itemResults.map(item => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    className="w-full p-2 text-left text-sm hover:bg-muted"
+                    onClick={() => handleAddItem(item)}
+                  >
+                    {item.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selectedItems.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {selectedItems.map(item => (
+                <Badge key={item.id} variant="secondary" className="gap-1">
+                  {item.name}
+                  <button type="button" onClick={() => handleRemoveItem(item.id)} aria-label={`Remove ${item.name}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {/* Submit Button */}
+      <div className="flex justify-end pt-4 border-t">
+        <Button type="submit" disabled={isGenerating || !canSubmit} className="min-w-[200px]">
+          {isGenerating ? (
+            <>
+              <Settings className="h-4 w-4 mr-2 animate-spin" />
+              Generating Labels...
+            </>
+          ) : (
+            <>
+              <QrCode className="h-4 w-4 mr-2" />
+              Download Label Sheet
+            </>
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -6,6 +6,9 @@
  * - Real-time progress tracking for export generation
  * - Download interface with export history
  * - Export job management and status monitoring
+ * - Spreadsheet import with a dry-run preview
+ * - Full household backup download and restore
+ * - Recurring exports kept for off-site backup
  *
  * QA CRITICAL: Implements user authentication validation
  * QA CRITICAL: Provides real-time feedback during export generation
@@ -25,11 +28,15 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Download, Clock, CheckCircle, XCircle, AlertCircle, FileText } from 'lucide-react';
+import { Download, Clock, CheckCircle, XCircle, AlertCircle, FileText, QrCode, Upload, Archive, CalendarClock } from 'lucide-react';
 import { ExportCreationForm } from './components/ExportCreationForm';
 import { ExportHistoryList } from './components/ExportHistoryList';
 import { ExportProgressTracker } from './components/ExportProgressTracker';
-import type { ExportJob } from '@/lib/types/exports';
+import { LabelSheetForm } from './components/LabelSheetForm';
+import { ImportItemsForm } from './components/ImportItemsForm';
+import { HouseholdBackupForm } from './components/HouseholdBackupForm';
+import { ExportSchedulesForm } from './components/ExportSchedulesForm';
+import type { ExportColumnSettings, ExportFormat, ExportJob, ExportReportType, ExportSchedule } from '@/lib/types/exports';
 
 /**
  * Export settings page component with comprehensive export management
@@ -37,6 +44,7 @@ import type { ExportJob } from '@/lib/types/exports';
 export default function ExportPage() {
   const [activeExports, setActiveExports] = useState<ExportJob[]>([]);
   const [exportHistory, setExportHistory] = useState<ExportJob[]>([]);
+  const [exportSchedules, setExportSchedules] = useState<ExportSchedule[]>([]);
   const [isCreatingExport, setIsCreatingExport] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -45,7 +53,11 @@ export default function ExportPage() {
    * Create a new export job
    */
   const handleCreateExport = async (exportRequest: {
-    format: 'csv';
+    format: ExportFormat;
+    report?: ExportReportType;
+    asOf?: Date;
+    columnSettings?: ExportColumnSettings;
+    templateId?: string;
     filters?: {
       locationIds?: string[];
       tagNames?: string[];
@@ -96,7 +108,7 @@ export default function ExportPage() {
   const startProgressPolling = (jobId: string) => {
     const pollInterval = setInterval(async () => {
       try {
-        const response = await fetch(`/api/v1/exports?jobId=${jobId}&includeDownloadUrl=true`);
+        const response = await fetch(`/api/v1/exports/${jobId}`);
 
         if (!response.ok) {
           clearInterval(pollInterval);
@@ -110,8 +122,8 @@ export default function ExportPage() {
           prev.map(job => job.id === jobId ? updatedJob : job)
         );
 
-        // If completed or failed, move to history and stop polling
-        if (updatedJob.status === 'completed' || updatedJob.status === 'failed') {
+        // If completed, failed or cancelled, move to history and stop polling
+        if (['completed', 'failed', 'cancelled'].includes(updatedJob.status)) {
           clearInterval(pollInterval);
 
           // Move to history after a short delay
@@ -122,7 +134,7 @@ export default function ExportPage() {
 
           if (updatedJob.status === 'completed') {
             setSuccessMessage(`Export completed! ${updatedJob.filename} is ready for download.`);
-          } else {
+          } else if (updatedJob.status === 'failed') {
             setError(`Export failed: ${updatedJob.errorMessage || 'Unknown error'}`);
           }
         }
@@ -137,6 +149,59 @@ export default function ExportPage() {
     setTimeout(() => clearInterval(pollInterval), 10 * 60 * 1000);
   };
 
+  /**
+   * Cancel a pending or processing export
+   */
+  const handleCancel = async (exportJob: ExportJob) => {
+    try {
+      const response = await fetch(`/api/v1/exports/${exportJob.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to cancel export');
+      }
+
+      const { data: cancelledJob } = await response.json();
+      setActiveExports(prev => prev.map(job => job.id === cancelledJob.id ? cancelledJob : job));
+      setSuccessMessage(`Export ${exportJob.filename} cancelled.`);
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Cancel failed';
+      setError(errorMessage);
+      console.error('Export cancellation failed:', err);
+    }
+  };
+
+  /**
+   * Load export jobs from earlier visits and resume tracking unfinished ones
+   */
+  useEffect(() => {
+    const loadExportJobs = async () => {
+      try {
+        const response = await fetch('/api/v1/exports');
+        if (!response.ok) return;
+
+        const { data: exportJobs }: { data: ExportJob[] } = await response.json();
+        const unfinished = exportJobs.filter(job => job.status === 'pending' || job.status === 'processing');
+
+        setActiveExports(unfinished);
+        setExportHistory(exportJobs.filter(job => !unfinished.includes(job)));
+        unfinished.forEach(job => startProgressPolling(job.id));
+
+        const schedulesResponse = await fetch('/api/v1/exports/schedules');
+        if (schedulesResponse.ok) {
+          const { data: schedules }: { data: ExportSchedule[] } = await schedulesResponse.json();
+          setExportSchedules(schedules);
+        }
+
+      } catch (err) {
+        console.error('Failed to load export history:', err);
+      }
+    };
+
+    loadExportJobs();
+  }, []);
+
   /**
    * Download completed export
    */
@@ -191,7 +256,8 @@ export default function ExportPage() {
         <h1 className="text-3xl font-bold mb-2">Data Export & Backup</h1>
         <p className="text-muted-foreground">
           Export your inventory data for backup, analysis, or migration purposes.
-          All exports include comprehensive item details, photos, and metadata.
+          All exports include comprehensive item details, photos, and metadata, and
+          can be edited and imported back.
         </p>
       </div>
 
@@ -211,7 +277,7 @@ export default function ExportPage() {
       )}
 
       <Tabs defaultValue="create" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="create">Create Export</TabsTrigger>
           <TabsTrigger value="progress">
             Active Exports
@@ -222,6 +288,9 @@ export default function ExportPage() {
             )}
           </TabsTrigger>
           <TabsTrigger value="history">Export History</TabsTrigger>
+          <TabsTrigger value="labels">Print Labels</TabsTrigger>
+          <TabsTrigger value="import">Import Items</TabsTrigger>
+          <TabsTrigger value="backup">Backup</TabsTrigger>
         </TabsList>
 
         {/* Create Export Tab */}
@@ -275,6 +344,7 @@ export default function ExportPage() {
                       key={exportJob.id}
                       exportJob={exportJob}
                       onDownload={() => handleDownload(exportJob)}
+                      onCancel={() => handleCancel(exportJob)}
                     />
                   ))}
                 </div>
@@ -293,17 +363,107 @@ export default function ExportPage() {
               </CardTitle>
               <CardDescription>
                 View and download your previous exports. Export files are available for
-                7 days after creation.
+                7 days after creation; scheduled exports are kept until their schedule&apos;s
+                retention count is reached.
               </CardDescription>
             </CardHeader>
             <CardContent>
               <ExportHistoryList
                 exportHistory={exportHistory}
+                schedules={exportSchedules}
                 onDownload={handleDownload}
               />
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Print Labels Tab */}
+        <TabsContent value="labels">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <QrCode className="h-5 w-5" />
+                Print QR Labels
+              </CardTitle>
+              <CardDescription>
+                Print labels for phones without NFC. Scanning a label opens the item or
+                location, just like tapping an NFC tag.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LabelSheetForm
+                onSuccess={setSuccessMessage}
+                onError={setError}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Import Items Tab */}
+        <TabsContent value="import">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                Import Items
+              </CardTitle>
+              <CardDescription>
+                Bring items in from a CSV or XLSX spreadsheet. Preview the import to see
+                errors and planned changes before anything is saved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ImportItemsForm
+                onSuccess={setSuccessMessage}
+                onError={setError}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Household Backup Tab */}
+        <TabsContent value="backup">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Archive className="h-5 w-5" />
+                Household Backup
+              </CardTitle>
+              <CardDescription>
+                Keep a complete copy of this household, including the location tree, tag
+                colors, photos and loans, and restore it into a new or empty household.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <HouseholdBackupForm
+                onSuccess={setSuccessMessage}
+                onError={setError}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Scheduled Exports
+              </CardTitle>
+              <CardDescription>
+                Export this household automatically every week or month for off-site backup.
+                Each schedule keeps its most recent exports in backup storage, and every run
+                shows up in your export history.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ExportSchedulesForm
+                schedules={exportSchedules}
+                onSchedulesChange={setExportSchedules}
+                onSuccess={setSuccessMessage}
+                onError={setError}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,37 @@
+/**
+ * Custom Fields Settings Page
+ *
+ * Defines the typed fields (serial numbers, warranty dates, choice lists,
+ * ...) the household's item forms ask for.
+ *
+ * @component
+ * @category Settings Pages
+ * @since 1.14.0
+ */
+
+import { CustomFieldsPanel } from '@/components/inventory';
+
+/**
+ * Custom fields settings page
+ */
+export default function CustomFieldsSettingsPage() {
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Custom Fields</h1>
+        <p className="text-muted-foreground">
+          Track the details that matter to your household on every item, and search and export them.
+        </p>
+      </div>
+
+      <CustomFieldsPanel />
+    </div>
+  );
+}
+
+/**
+ * Page metadata
+ */
+export const metadata = {
+  title: 'Custom Fields - Digital Inventory Manager',
+};
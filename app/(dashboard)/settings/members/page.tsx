@@ -0,0 +1,37 @@
+/**
+ * Household Members Settings Page
+ *
+ * Lists the people in the household, with invitations, role changes and
+ * member removal for owners and admins.
+ *
+ * @component
+ * @category Settings Pages
+ * @since 1.11.0
+ */
+
+import { HouseholdMembersPanel } from '@/components/households';
+
+/**
+ * Household members settings page
+ */
+export default function MembersSettingsPage() {
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Household Members</h1>
+        <p className="text-muted-foreground">
+          Invite family and housemates to share this inventory, and choose what they can manage.
+        </p>
+      </div>
+
+      <HouseholdMembersPanel />
+    </div>
+  );
+}
+
+/**
+ * Page metadata
+ */
+export const metadata = {
+  title: 'Household Members - Digital Inventory Manager',
+};
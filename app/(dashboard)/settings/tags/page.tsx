@@ -0,0 +1,37 @@
+/**
+ * Tags Settings Page
+ *
+ * Manages the household's item tags: add, rename, recolor, merge and
+ * delete them.
+ *
+ * @component
+ * @category Settings Pages
+ * @since 1.16.0
+ */
+
+import { TagsPanel } from '@/components/inventory';
+
+/**
+ * Tags settings page
+ */
+export default function TagsSettingsPage() {
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Tags</h1>
+        <p className="text-muted-foreground">
+          Label items across locations and categories, and clean up tags that mean the same thing.
+        </p>
+      </div>
+
+      <TagsPanel />
+    </div>
+  );
+}
+
+/**
+ * Page metadata
+ */
+export const metadata = {
+  title: 'Tags - Digital Inventory Manager',
+};
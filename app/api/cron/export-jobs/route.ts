@@ -0,0 +1,91 @@
+/**
+ * Export Worker Cron Route - Process queued exports and remove expired files
+ *
+ * Called by Vercel Cron (see vercel.json) with `Authorization: Bearer
+ * <CRON_SECRET>`. Each run first queues jobs for export schedules that are
+ * due, claims pending export jobs (and jobs whose worker stopped
+ * heartbeating) until its time budget is used, then deletes files of
+ * exports past their expiresAt and scheduled exports past their schedule's
+ * retention count.
+ *
+ * @route GET /api/cron/export-jobs - Run the export worker
+ * @access Cron (requires CRON_SECRET bearer token)
+ * @since 1.12.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exportsService } from '@/lib/services/exports';
+import { exportScheduleService } from '@/lib/services/export-schedules';
+import { serverEnv } from '@/lib/utils/env';
+
+export const maxDuration = 300;
+
+/** Leave headroom under maxDuration for cleanup and the response */
+const WORKER_TIME_BUDGET_MS = 240 * 1000;
+
+/**
+ * GET /api/cron/export-jobs - Run the export worker
+ *
+ * @param request - Next.js request object carrying the cron bearer token
+ * @returns Promise<Response> JSON response with the schedule, worker and cleanup results
+ *
+ * @throws {401} Unauthorized - Missing or wrong bearer token
+ * @throws {503} Service Unavailable - CRON_SECRET is not configured
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Success response
+ * ```json
+ * {
+ *   "data": {
+ *     "schedules": { "due": 1, "started": 1, "failed": 0 },
+ *     "worker": { "processed": 2, "completed": 2, "failed": 0, "cancelled": 0 },
+ *     "cleanup": { "filesRemoved": 5, "jobsFailed": 0 },
+ *     "retention": { "filesRemoved": 1 }
+ *   },
+ *   "meta": { "timestamp": "2026-03-04T10:30:00Z", "version": "v1" }
+ * }
+ * ```
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  if (!serverEnv.CRON_SECRET) {
+    return NextResponse.json(
+      { error: { code: 'CRON_DISABLED', message: 'CRON_SECRET is not configured', timestamp: new Date().toISOString() } },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${serverEnv.CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: { code: 'UNAUTHORIZED', message: 'Invalid cron token', timestamp: new Date().toISOString() } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const schedules = await exportScheduleService.runDueSchedules();
+    const worker = await exportsService.runExportWorker({ timeBudgetMs: WORKER_TIME_BUDGET_MS });
+    const cleanup = await exportsService.cleanupExpiredExports();
+    const retention = await exportScheduleService.pruneScheduledExports();
+
+    console.log(
+      `Export worker run: schedules ${JSON.stringify(schedules)}, worker ${JSON.stringify(worker)}, ` +
+      `cleanup ${JSON.stringify(cleanup)}, retention ${JSON.stringify(retention)}`
+    );
+
+    return NextResponse.json({
+      data: { schedules, worker, cleanup, retention },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export worker cron error:', error);
+
+    return NextResponse.json(
+      { error: { code: 'EXPORT_WORKER_FAILED', message: 'Export worker run failed', timestamp: new Date().toISOString() } },
+      { status: 500 }
+    );
+  }
+}
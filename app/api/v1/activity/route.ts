@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { activityLogService } from '@/lib/services';
+import {
+  validateActivityQuery,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/activity - List household activity (audit log)
+ *
+ * Supports filtering by entity (`entityType` + `entityId`), acting user
+ * (`userId`), `action` (comma-separated) and date range (`from`/`to`, ISO
+ * dates). Entries are returned newest first.
+ *
+ * @route GET /api/v1/activity
+ * @access Private (requires authentication)
+ * @param request - Next.js request object with query parameters
+ * @returns Promise<Response> JSON response with activity entries and pagination metadata
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {400} Bad Request - Invalid query parameters
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Extract and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const query = validateActivityQuery({
+      entityType: searchParams.get('entityType') || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      actions: searchParams.get('action')?.split(',') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      page: searchParams.get('page') ? Number(searchParams.get('page')) : 1,
+      limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : 50,
+    });
+
+    // 4. Fetch activity
+    const result = await activityLogService.listActivity(householdId, query);
+
+    // 5. Return paginated response
+    return Response.json({
+      data: result.entries,
+      pagination: result.pagination,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('GET /api/v1/activity error:', error);
+
+    if (error instanceof Error) {
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { categoryService } from '@/lib/services';
+import {
+  validateUpdateCategory,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * PATCH /api/v1/categories/{id} - Rename, move or change the defaults of a category
+ *
+ * Renames and moves also update the paths of every subcategory. When
+ * `customFieldIds` is given it replaces the category's default fields.
+ *
+ * @route PATCH /api/v1/categories/{id}
+ * @access Private (requires categories:manage permission)
+ * @param request - Next.js request object with the changes
+ * @param context - Route context with category ID
+ * @returns Promise<Response> JSON response with the updated category
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid changes or a move into its own subtree
+ * @throws {403} Forbidden - Household role lacks the categories:manage permission
+ * @throws {404} Not Found - Category or new parent not found
+ * @throws {409} Conflict - The parent already has a category with the name
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: categoryId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'categories:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateUpdateCategory(body);
+
+    // 3. Update the category
+    const category = await categoryService.updateCategory(categoryId, householdId, validatedData);
+
+    // 4. Return updated category
+    return Response.json(createSuccessResponse(category));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`PATCH /api/v1/categories/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_NOT_FOUND', 'Category not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('already exists')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_EXISTS', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to update category'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/categories/{id} - Delete a category
+ *
+ * Items in the category become uncategorized. Categories with
+ * subcategories cannot be deleted.
+ *
+ * @route DELETE /api/v1/categories/{id}
+ * @access Private (requires categories:manage permission)
+ * @param request - Next.js request object
+ * @param context - Route context with category ID
+ * @returns Promise<Response> JSON response confirming deletion
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the categories:manage permission
+ * @throws {404} Not Found - Category not found
+ * @throws {409} Conflict - Category has subcategories
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { id: categoryId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'categories:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Delete the category
+    await categoryService.deleteCategory(categoryId, householdId);
+
+    // 4. Return success
+    return Response.json(
+      createSuccessResponse({ message: 'Category deleted successfully' })
+    );
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`DELETE /api/v1/categories/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_NOT_FOUND', 'Category not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('subcategories')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_NOT_EMPTY', error.message),
+          { status: 409 }
+        );
+      }
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to delete category'),
+      { status: 500 }
+    );
+  }
+}
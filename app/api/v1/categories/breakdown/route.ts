@@ -0,0 +1,54 @@
+import { auth } from '@/lib/auth/config';
+import { categoryService } from '@/lib/services';
+import { createSuccessResponse, createErrorResponse } from '@/lib/validation';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/categories/breakdown - Item counts and values per root category
+ *
+ * Subcategories roll up into their root category; items without a category
+ * are grouped as "Uncategorized". `depreciatedValue` applies each item's
+ * inherited depreciation rule to its purchase price.
+ *
+ * @route GET /api/v1/categories/breakdown
+ * @access Private (requires authentication)
+ * @returns Promise<Response> JSON response with breakdown entries, highest value first
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET() {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Total up the categories
+    const breakdown = await categoryService.getCategoryBreakdown(householdId);
+
+    // 4. Return breakdown
+    return Response.json(createSuccessResponse(breakdown));
+
+  } catch (error) {
+    console.error('GET /api/v1/categories/breakdown error:', error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve category breakdown'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { categoryService } from '@/lib/services';
+import {
+  validateCreateCategory,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/categories - Category tree of the current household
+ *
+ * @route GET /api/v1/categories
+ * @access Private (requires authentication)
+ * @returns Promise<Response> JSON response with categories ordered by path,
+ *   parents before their subcategories
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET() {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get the categories
+    const categories = await categoryService.listCategories(householdId);
+
+    // 4. Return categories
+    return Response.json(createSuccessResponse(categories));
+
+  } catch (error) {
+    console.error('GET /api/v1/categories error:', error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve categories'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/categories - Add a category
+ *
+ * Body takes `name`, and optionally `parentId`, a default depreciation rule
+ * (`depreciationMethod` with `usefulLifeYears` for STRAIGHT_LINE or
+ * `depreciationRate` for DECLINING_BALANCE) and `customFieldIds`, the
+ * custom fields items in the category are asked for.
+ *
+ * @route POST /api/v1/categories
+ * @access Private (requires categories:manage permission)
+ * @param request - Next.js request object with the category details
+ * @returns Promise<Response> JSON response with the created category
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid category details
+ * @throws {403} Forbidden - Household role lacks the categories:manage permission
+ * @throws {404} Not Found - Parent category not found
+ * @throws {409} Conflict - The parent already has a category with the name
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context and validate request body
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'categories:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateCreateCategory(body);
+
+    // 3. Create the category
+    const category = await categoryService.createCategory(householdId, validatedData);
+
+    // 4. Return category
+    return Response.json(createSuccessResponse(category), { status: 201 });
+
+  } catch (error) {
+    console.error('POST /api/v1/categories error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_NOT_FOUND', 'Parent category not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('already exists')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_EXISTS', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to create category'),
+      { status: 500 }
+    );
+  }
+}
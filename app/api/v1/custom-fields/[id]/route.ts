@@ -0,0 +1,153 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { customFieldService } from '@/lib/services';
+import {
+  validateUpdateCustomField,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * PATCH /api/v1/custom-fields/{id} - Change a custom field
+ *
+ * The key and type cannot change; every other definition field can.
+ *
+ * @route PATCH /api/v1/custom-fields/{id}
+ * @access Private (requires fields:manage permission)
+ * @param request - Next.js request object with the changes
+ * @param context - Route context with field ID
+ * @returns Promise<Response> JSON response with the updated field
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid changes
+ * @throws {403} Forbidden - Household role lacks the fields:manage permission
+ * @throws {404} Not Found - Field not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: fieldId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'fields:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateUpdateCustomField(body);
+
+    // 3. Update the field
+    const field = await customFieldService.updateField(fieldId, householdId, validatedData);
+
+    // 4. Return updated field
+    return Response.json(createSuccessResponse(field));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`PATCH /api/v1/custom-fields/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('CUSTOM_FIELD_NOT_FOUND', 'Custom field not found'),
+          { status: 404 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to update custom field'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/custom-fields/{id} - Delete a custom field
+ *
+ * Values already stored on items stay in their metadata.
+ *
+ * @route DELETE /api/v1/custom-fields/{id}
+ * @access Private (requires fields:manage permission)
+ * @param request - Next.js request object
+ * @param context - Route context with field ID
+ * @returns Promise<Response> JSON response confirming deletion
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the fields:manage permission
+ * @throws {404} Not Found - Field not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { id: fieldId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'fields:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Delete the field
+    await customFieldService.deleteField(fieldId, householdId);
+
+    // 4. Return success
+    return Response.json(
+      createSuccessResponse({ message: 'Custom field deleted successfully' })
+    );
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`DELETE /api/v1/custom-fields/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('CUSTOM_FIELD_NOT_FOUND', 'Custom field not found'),
+          { status: 404 }
+        );
+      }
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to delete custom field'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { customFieldService } from '@/lib/services';
+import {
+  validateCreateCustomField,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/custom-fields - Custom item fields of the current household
+ *
+ * @route GET /api/v1/custom-fields
+ * @access Private (requires authentication)
+ * @returns Promise<Response> JSON response with field definitions in display order
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET() {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get the fields
+    const fields = await customFieldService.listFields(householdId);
+
+    // 4. Return fields
+    return Response.json(createSuccessResponse(fields));
+
+  } catch (error) {
+    console.error('GET /api/v1/custom-fields error:', error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve custom fields'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/custom-fields - Define a custom item field
+ *
+ * Body takes `key` (the metadata key values are stored under), `label`,
+ * `type`, and optionally `options` (select fields), `required`,
+ * `searchable`, `tagIds`, `locationTypes` and `displayOrder`.
+ *
+ * @route POST /api/v1/custom-fields
+ * @access Private (requires fields:manage permission)
+ * @param request - Next.js request object with the field definition
+ * @returns Promise<Response> JSON response with the created field
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid field definition
+ * @throws {403} Forbidden - Household role lacks the fields:manage permission
+ * @throws {409} Conflict - A field with the key already exists
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context and validate request body
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'fields:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateCreateCustomField(body);
+
+    // 3. Create the field
+    const field = await customFieldService.createField(householdId, validatedData);
+
+    // 4. Return field
+    return Response.json(createSuccessResponse(field), { status: 201 });
+
+  } catch (error) {
+    console.error('POST /api/v1/custom-fields error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('already exists')) {
+        return Response.json(
+          createErrorResponse('CUSTOM_FIELD_EXISTS', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to create custom field'),
+      { status: 500 }
+    );
+  }
+}
@@ -3,40 +3,39 @@
  *
  * This module provides secure download functionality for completed export files:
  * - GET: Download export file with authentication and ownership validation
- * - Implements secure file access with automatic cleanup
- * - Supports resumable downloads for large files
+ * - HEAD: Check whether an export file can be downloaded
+ *
+ * Files live in the exports bucket until the job's expiresAt, after which the
+ * export worker cron removes them.
  *
  * QA CRITICAL: Implements strict user ownership validation to prevent cross-user file access
- * QA CRITICAL: Implements file cleanup after download expiration
  *
  * @route GET /api/v1/exports/[id]/download - Download export file
  * @access Private (requires authentication and file ownership)
  * @since 1.8.0
- * @version 1.0.0 - Initial implementation with security validation
+ * @version 1.1.0 - Files are read from the exports bucket
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/config';
-import { ExportErrorCodes } from '@/lib/services/exports';
-import { readFile, stat } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
+import { exportsService, ExportErrorCodes, EXPORT_FORMATS } from '@/lib/services/exports';
+import { isServiceError } from '@/lib/validation/common';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * GET /api/v1/exports/[id]/download - Download completed export file
  *
- * Downloads a completed export file with comprehensive security validation
- * and support for large file downloads.
- *
  * @param request - Next.js request object
  * @param params - Route parameters containing export job ID
  * @returns Promise<Response> File download response or error response
  *
  * @throws {401} Unauthorized - Missing or invalid authentication token
- * @throws {404} Not Found - Export job not found or file not available
- * @throws {403} Forbidden - User lacks permission to download this file
+ * @throws {400} Bad Request - Invalid export job ID
+ * @throws {404} Not Found - Export job not found
+ * @throws {409} Conflict - Export is not completed yet
  * @throws {410} Gone - Export file has expired and been cleaned up
- * @throws {500} Internal Server Error - File system or server error
+ * @throws {500} Internal Server Error - Storage or server error
  *
  * @example Request
  * ```
@@ -46,7 +45,7 @@ import { tmpdir } from 'os';
  *
  * @example Success response headers
  * ```
- * Content-Type: text/csv
+ * Content-Type: text/csv (or the JSON, XLSX or PDF type of the job's format)
  * Content-Disposition: attachment; filename="inventory-export-2024-09-14T10-30-00.csv"
  * Content-Length: 2048576
  * Cache-Control: private, no-cache
@@ -76,7 +75,6 @@ export async function GET(
     const exportJobId = params.id;
 
     // Validate export job ID format (UUID)
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(exportJobId)) {
       return NextResponse.json(
         {
@@ -90,102 +88,48 @@ export async function GET(
       );
     }
 
-    // QA CRITICAL: In production, this would validate export job ownership and status
-    // const exportJob = await exportsService.getExportJob(exportJobId, session.user.id);
-    //
-    // if (!exportJob) {
-    //   return NextResponse.json({ error: 'Export job not found' }, { status: 404 });
-    // }
-    //
-    // if (exportJob.userId !== session.user.id) {
-    //   return NextResponse.json({ error: 'Access denied' }, { status: 403 });
-    // }
-    //
-    // if (exportJob.status !== 'completed') {
-    //   return NextResponse.json({ error: 'Export not ready for download' }, { status: 409 });
-    // }
-    //
-    // if (exportJob.expiresAt && new Date() > exportJob.expiresAt) {
-    //   return NextResponse.json({ error: 'Export has expired' }, { status: 410 });
-    // }
-
-    // For demonstration, we'll simulate a file download
-    // In production, this would be the actual file path
-    const filename = `inventory-export-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
-    const filePath = join(tmpdir(), filename);
-
-    try {
-      // QA CRITICAL: Secure file access validation
-      // Check if file exists and is accessible
-      const fileStats = await stat(filePath);
+    // QA CRITICAL: Ownership, status and expiry are checked by the service
+    const { job, buffer } = await exportsService.getExportFile(exportJobId, session.user.id);
 
-      // QA ENHANCEMENT: For large files, implement streaming download
-      if (fileStats.size > 50 * 1024 * 1024) { // 50MB threshold
-        return handleLargeFileDownload(filePath, filename, fileStats.size);
-      }
-
-      // Read file for smaller exports
-      const fileBuffer = await readFile(filePath);
-
-      // Set appropriate headers for CSV download
-      const headers = new Headers({
-        'Content-Type': 'text/csv; charset=utf-8',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': fileStats.size.toString(),
-        'Cache-Control': 'private, no-cache, no-store, must-revalidate',
-        'Pragma': 'no-cache',
-        'Expires': '0',
-        // QA SECURITY: Prevent content type sniffing
-        'X-Content-Type-Options': 'nosniff',
-        // QA SECURITY: Prevent XSS in case of malicious filename
-        'X-Frame-Options': 'DENY',
-        'X-XSS-Protection': '1; mode=block',
-      });
-
-      // Log download for audit trail
-      console.log(`Export download: User ${session.user.id} downloaded ${filename} (${fileStats.size} bytes)`);
+    const headers = new Headers({
+      'Content-Type': EXPORT_FORMATS[job.format].contentType,
+      'Content-Disposition': `attachment; filename="${job.filename}"`,
+      'Content-Length': buffer.length.toString(),
+      'Cache-Control': 'private, no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0',
+      // QA SECURITY: Prevent content type sniffing
+      'X-Content-Type-Options': 'nosniff',
+      // QA SECURITY: Prevent XSS in case of malicious filename
+      'X-Frame-Options': 'DENY',
+      'X-XSS-Protection': '1; mode=block',
+    });
 
-      return new Response(fileBuffer as any, {
-        status: 200,
-        headers,
-      });
+    // Log download for audit trail
+    console.log(`Export download: User ${session.user.id} downloaded ${job.filename} (${buffer.length} bytes)`);
 
-    } catch (fileError) {
-      console.error('File access error:', fileError);
+    return new Response(buffer as any, {
+      status: 200,
+      headers,
+    });
 
-      // Check specific file system errors
-      if ((fileError as any).code === 'ENOENT') {
-        return NextResponse.json(
-          {
-            error: {
-              code: 'FILE_NOT_FOUND',
-              message: 'Export file not found or has been cleaned up',
-              timestamp: new Date().toISOString(),
-            },
-          },
-          { status: 404 }
-        );
-      }
+  } catch (error) {
+    console.error('Export download error:', error);
 
-      if ((fileError as any).code === 'EACCES') {
-        return NextResponse.json(
-          {
-            error: {
-              code: ExportErrorCodes.PHOTO_ACCESS_DENIED,
-              message: 'Access denied to export file',
-              timestamp: new Date().toISOString(),
-            },
+    // Handle custom export errors
+    if (isServiceError(error, downloadErrorStatus)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes[error.code],
+            message: error.message,
+            timestamp: new Date().toISOString(),
           },
-          { status: 403 }
-        );
-      }
-
-      throw fileError; // Re-throw for general error handling
+        },
+        { status: downloadErrorStatus[error.code] }
+      );
     }
 
-  } catch (error) {
-    console.error('Export download error:', error);
-
     return NextResponse.json(
       {
         error: {
@@ -200,44 +144,13 @@ export async function GET(
 }
 
 /**
- * Handle large file downloads with streaming
- * QA ENHANCEMENT: Implements streaming for files > 50MB to prevent memory issues
- *
- * @param filePath - Path to the file
- * @param filename - Original filename for headers
- * @param fileSize - File size in bytes
- * @returns Streaming response for large files
+ * HTTP status for each export error a download can hit
  */
-async function handleLargeFileDownload(
-  filePath: string,
-  filename: string,
-  fileSize: number
-): Promise<Response> {
-  // For large files, we would implement streaming using ReadableStream
-  // This is a simplified implementation for demonstration
-
-  const headers = new Headers({
-    'Content-Type': 'text/csv; charset=utf-8',
-    'Content-Disposition': `attachment; filename="${filename}"`,
-    'Content-Length': fileSize.toString(),
-    'Cache-Control': 'private, no-cache, no-store, must-revalidate',
-    'Accept-Ranges': 'bytes', // Enable resumable downloads
-    'X-Content-Type-Options': 'nosniff',
-    'X-Frame-Options': 'DENY',
-    'X-XSS-Protection': '1; mode=block',
-  });
-
-  // In production, this would create a ReadableStream from the file
-  // For now, we'll read the file normally but indicate it's a large file
-  console.log(`Initiating large file download: ${filename} (${fileSize} bytes)`);
-
-  const fileBuffer = await readFile(filePath);
-
-  return new Response(fileBuffer as any, {
-    status: 200,
-    headers,
-  });
-}
+const downloadErrorStatus = {
+  EXPORT_NOT_FOUND: 404,
+  EXPORT_NOT_READY: 409,
+  EXPORT_EXPIRED: 410,
+} as const;
 
 /**
  * HEAD /api/v1/exports/[id]/download - Check download availability
@@ -264,22 +177,29 @@ export async function HEAD(
     const exportJobId = params.id;
 
     // Validate export job ID format
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(exportJobId)) {
       return new Response(null, { status: 400 });
     }
 
-    // Simulate file check (in production, would check actual file and database)
-    const filename = `inventory-export-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
-    const mockFileSize = 2048576; // 2MB
+    const job = await exportsService.getExportJob(exportJobId, session.user.id);
+    if (!job) {
+      return new Response(null, { status: 404 });
+    }
+
+    if (job.status !== 'completed') {
+      return new Response(null, { status: 409 });
+    }
+
+    if (!job.downloadUrl) {
+      return new Response(null, { status: 410 });
+    }
 
     const headers = new Headers({
-      'Content-Type': 'text/csv; charset=utf-8',
-      'Content-Disposition': `attachment; filename="${filename}"`,
-      'Content-Length': mockFileSize.toString(),
+      'Content-Type': EXPORT_FORMATS[job.format].contentType,
+      'Content-Disposition': `attachment; filename="${job.filename}"`,
+      'Content-Length': String(job.fileSize ?? 0),
       'Cache-Control': 'private, no-cache',
-      'Accept-Ranges': 'bytes',
-      'Last-Modified': new Date().toUTCString(),
+      'Last-Modified': (job.completedAt ?? job.createdAt).toUTCString(),
     });
 
     return new Response(null, {
@@ -291,4 +211,4 @@ export async function HEAD(
     console.error('Export HEAD request error:', error);
     return new Response(null, { status: 500 });
   }
-}
\ No newline at end of file
+}
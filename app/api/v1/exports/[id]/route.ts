@@ -0,0 +1,204 @@
+/**
+ * Export Job API Route - Inspect or cancel a single export job
+ *
+ * @route GET /api/v1/exports/[id] - Get export job status
+ * @route DELETE /api/v1/exports/[id] - Cancel a pending or processing export
+ * @access Private (requires authentication and job ownership)
+ * @since 1.12.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { exportsService, ExportErrorCodes } from '@/lib/services/exports';
+import { isServiceError } from '@/lib/validation/common';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/v1/exports/[id] - Get export job status
+ *
+ * @param request - Next.js request object
+ * @param params - Route parameters containing export job ID
+ * @returns Promise<Response> JSON response with the export job
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid export job ID
+ * @throws {404} Not Found - Export job not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const params = await context.params;
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_EXPORT_ID',
+            message: 'Invalid export job ID format',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const exportJob = await exportsService.getExportJob(params.id, session.user.id);
+    if (!exportJob) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.EXPORT_NOT_FOUND,
+            message: 'Export job not found',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      data: exportJob,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export job retrieval error:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to retrieve export job',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/exports/[id] - Cancel an export job
+ *
+ * Pending jobs are never started; a job that is already processing stops at
+ * its next chunk and no file is kept. The job stays in the history as
+ * cancelled.
+ *
+ * @param request - Next.js request object
+ * @param params - Route parameters containing export job ID
+ * @returns Promise<Response> JSON response with the cancelled job
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid export job ID
+ * @throws {404} Not Found - Export job not found
+ * @throws {409} Conflict - Export job already completed, failed or cancelled
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const params = await context.params;
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_EXPORT_ID',
+            message: 'Invalid export job ID format',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const exportJob = await exportsService.cancelExport(params.id, session.user.id);
+
+    return NextResponse.json({
+      data: exportJob,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export cancellation error:', error);
+
+    // Handle custom export errors
+    if (isServiceError(error, ExportErrorCodes)) {
+      switch (error.code) {
+        case 'EXPORT_NOT_FOUND':
+          return NextResponse.json(
+            {
+              error: {
+                code: ExportErrorCodes.EXPORT_NOT_FOUND,
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+            },
+            { status: 404 }
+          );
+
+        case 'EXPORT_NOT_CANCELLABLE':
+          return NextResponse.json(
+            {
+              error: {
+                code: ExportErrorCodes.EXPORT_NOT_CANCELLABLE,
+                message: error.message,
+                context: error.context,
+                timestamp: new Date().toISOString(),
+              },
+            },
+            { status: 409 }
+          );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to cancel export job',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
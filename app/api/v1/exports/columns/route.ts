@@ -0,0 +1,91 @@
+/**
+ * Export Columns API Route - Custom metadata keys available as export columns
+ *
+ * Built-in columns are listed client-side from EXPORT_COLUMNS; this route
+ * adds the metadata keys the household's items actually use and the
+ * household's custom fields, exported as `metadata.<key>` columns.
+ *
+ * @route GET /api/v1/exports/columns - List metadata keys usable as columns
+ * @access Private (requires authentication and household membership)
+ * @since 1.13.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { exportsService, ExportErrorCodes } from '@/lib/services/exports';
+import { customFieldService } from '@/lib/services/custom-fields';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/exports/columns - List metadata keys and custom fields
+ *
+ * @param request - Next.js request object
+ * @returns Promise<Response> JSON response with the keys, sorted, and the
+ *   custom fields whose labels head their columns
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Success response
+ * ```json
+ * {
+ *   "data": {
+ *     "metadataKeys": ["invoiceNumber", "serialNumber", "warrantyUntil"],
+ *     "customFields": [{ "key": "warrantyUntil", "label": "Warranty", "type": "WARRANTY_EXPIRY" }]
+ *   },
+ *   "meta": { "timestamp": "2026-03-04T10:30:00Z", "version": "v1" }
+ * }
+ * ```
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const [metadataKeys, fields] = await Promise.all([
+      exportsService.listMetadataKeys(householdId),
+      customFieldService.listFields(householdId),
+    ]);
+    const customFields = fields.map(({ key, label, type }) => ({ key, label, type }));
+
+    return NextResponse.json({
+      data: { metadataKeys, customFields },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export column listing error:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to list export columns',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
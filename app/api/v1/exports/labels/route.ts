@@ -0,0 +1,154 @@
+/**
+ * Label Sheet API Route - Printable QR/barcode labels
+ *
+ * Renders an Avery-compatible PDF label sheet for selected items or a
+ * location subtree. Generated synchronously: label runs are small compared
+ * to full data exports and are capped at 1000 labels.
+ *
+ * @route POST /api/v1/exports/labels - Generate label sheet PDF
+ * @access Private (requires exports:create permission)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { ExportErrorCodes } from '@/lib/services/exports';
+import { labelService } from '@/lib/services/labels';
+import { validateCreateLabelSheetRequest } from '@/lib/validation/labels';
+import { isServiceError } from '@/lib/validation/common';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+import { ZodError } from 'zod';
+
+/**
+ * POST /api/v1/exports/labels - Generate a label sheet
+ *
+ * @param request - Next.js request object with label sheet options
+ * @returns Promise<Response> PDF file download
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {400} Bad Request - Invalid request parameters
+ * @throws {404} Not Found - No items or locations matched
+ * @throws {413} Payload Too Large - More labels than a single request allows
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Request body
+ * ```json
+ * {
+ *   "layout": "avery-5160",
+ *   "codeType": "qr",
+ *   "locationId": "location-uuid",
+ *   "includeSubtree": true,
+ *   "includeLocationLabels": true,
+ *   "skipLabels": 0
+ * }
+ * ```
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    // Authentication using NextAuth session validation
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // Labels are household-scoped, like the tag codes they print
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // Parse and validate request body using Zod
+    const body = await request.json();
+    const validatedData = validateCreateLabelSheetRequest(body);
+
+    const sheet = await labelService.generateLabelSheet(
+      session.user.id,
+      householdId,
+      validatedData,
+      request.nextUrl.origin
+    );
+
+    const headers = new Headers({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${sheet.filename}"`,
+      'Content-Length': sheet.buffer.length.toString(),
+      'Cache-Control': 'no-store',
+      'X-Content-Type-Options': 'nosniff',
+      'X-Label-Count': sheet.labelCount.toString(),
+      'X-Page-Count': sheet.pageCount.toString(),
+    });
+
+    return new Response(new Uint8Array(sheet.buffer), { status: 200, headers });
+
+  } catch (error) {
+    console.error('Label sheet generation error:', error);
+
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid request parameters',
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle custom export errors
+    if (isServiceError(error, ExportErrorCodes)) {
+      switch (error.code) {
+        case 'LABEL_TARGETS_NOT_FOUND':
+          return NextResponse.json(
+            {
+              error: {
+                code: ExportErrorCodes.LABEL_TARGETS_NOT_FOUND,
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+            },
+            { status: 404 }
+          );
+
+        case 'DATASET_TOO_LARGE':
+          return NextResponse.json(
+            {
+              error: {
+                code: ExportErrorCodes.DATASET_TOO_LARGE,
+                message: error.message,
+                context: error.context,
+                timestamp: new Date().toISOString(),
+              },
+            },
+            { status: 413 }
+          );
+      }
+    }
+
+    // Handle unexpected errors
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to generate label sheet',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
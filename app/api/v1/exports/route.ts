@@ -3,7 +3,11 @@
  *
  * This module provides RESTful API endpoints for inventory data export functionality:
  * - POST: Create new export jobs with security validation
- * - GET: Check export job status and retrieve download URLs
+ * - GET: Check export job status, or list recent export jobs
+ *
+ * Jobs are stored in export_jobs. Small exports are generated right after the
+ * response is sent; larger ones are picked up by the export worker cron
+ * (GET /api/cron/export-jobs).
  *
  * QA CRITICAL: Implements authentication middleware with household membership enforcement
  * QA CRITICAL: Implements background job processing for large dataset exports (500+ items)
@@ -11,15 +15,22 @@
  *
  * @route POST /api/v1/exports - Create export job
  * @route GET /api/v1/exports?jobId={id} - Get export job status
+ * @route GET /api/v1/exports - List the caller's recent export jobs
  * @access Private (requires authentication)
  * @since 1.8.0
- * @version 1.0.0 - Initial implementation with security and performance optimizations
+ * @version 1.1.0 - Column settings and saved export templates
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { auth } from '@/lib/auth/config';
 import { exportsService, ExportErrorCodes } from '@/lib/services/exports';
 import { validateCreateExportRequest, ExportErrorSchema } from '@/lib/validation/exports';
+import { isServiceError } from '@/lib/validation/common';
+import {
+  requireHouseholdPermission,
+  getHouseholdContext,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
 import { ZodError } from 'zod';
 
 /**
@@ -33,7 +44,8 @@ import { ZodError } from 'zod';
  *
  * @throws {401} Unauthorized - Missing or invalid authentication token
  * @throws {400} Bad Request - Invalid request parameters
- * @throws {403} Forbidden - User lacks permission to export data
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {404} Not Found - Export template or saved search not found
  * @throws {413} Payload Too Large - Dataset exceeds export limits
  * @throws {500} Internal Server Error - Unexpected server error
  *
@@ -51,6 +63,39 @@ import { ZodError } from 'zod';
  * }
  * ```
  *
+ * @example Request body (chosen columns and formats)
+ * ```json
+ * {
+ *   "format": "csv",
+ *   "columnSettings": {
+ *     "columns": ["name", "locationPath", "currentValue", "metadata.serialNumber"],
+ *     "delimiter": ";",
+ *     "dateFormat": "eu",
+ *     "currency": { "symbol": "€", "decimalSeparator": "," }
+ *   }
+ * }
+ * ```
+ *
+ * Or `"templateId": "template-uuid"` to use a saved export template
+ * (see /api/v1/exports/templates).
+ *
+ * @example Request body (the items a saved search matches)
+ * ```json
+ * {
+ *   "format": "xlsx",
+ *   "filters": { "savedSearchId": "saved-search-uuid" }
+ * }
+ * ```
+ *
+ * @example Request body (insurance report as of a past date)
+ * ```json
+ * {
+ *   "format": "pdf",
+ *   "report": "insurance",
+ *   "asOf": "2026-02-28T23:59:59Z"
+ * }
+ * ```
+ *
  * @example Success response
  * ```json
  * {
@@ -90,6 +135,14 @@ export async function POST(request: NextRequest): Promise<Response> {
       );
     }
 
+    // Exporting is a household capability that can be revoked per member
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
     // QA CRITICAL: Rate limiting would be implemented here in production
     // const rateLimitResult = await rateLimitMiddleware(session.user.id, 'export_create');
     // if (!rateLimitResult.success) {
@@ -101,7 +154,15 @@ export async function POST(request: NextRequest): Promise<Response> {
     const validatedData = validateCreateExportRequest(body);
 
     // QA CRITICAL: Create export job with comprehensive security validation
-    const exportJob = await exportsService.createExport(session.user.id, validatedData);
+    const exportJob = await exportsService.createExport(session.user.id, validatedData, householdId);
+
+    // Small exports finish within this function's time limit; the cron worker
+    // picks up anything left pending
+    if (!exportsService.isBackgroundJob(exportJob)) {
+      after(() => exportsService.processExportJob(exportJob.id).catch((error) => {
+        console.error(`Inline export processing failed for ${exportJob.id}:`, error);
+      }));
+    }
 
     // Standard API response format
     return NextResponse.json(
@@ -134,29 +195,51 @@ export async function POST(request: NextRequest): Promise<Response> {
     }
 
     // Handle custom export errors
-    if (error && typeof error === 'object' && 'code' in error) {
-      const exportError = error as any;
-
-      switch (exportError.code) {
+    if (isServiceError(error, ExportErrorCodes)) {
+      switch (error.code) {
         case 'UNAUTHORIZED':
           return NextResponse.json(
             {
               error: {
                 code: ExportErrorCodes.UNAUTHORIZED,
-                message: exportError.message,
+                message: error.message,
                 timestamp: new Date().toISOString(),
               },
             },
             { status: 403 }
           );
 
+        case 'EXPORT_TEMPLATE_NOT_FOUND':
+          return NextResponse.json(
+            {
+              error: {
+                code: ExportErrorCodes.EXPORT_TEMPLATE_NOT_FOUND,
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+            },
+            { status: 404 }
+          );
+
+        case 'SAVED_SEARCH_NOT_FOUND':
+          return NextResponse.json(
+            {
+              error: {
+                code: ExportErrorCodes.SAVED_SEARCH_NOT_FOUND,
+                message: error.message,
+                timestamp: new Date().toISOString(),
+              },
+            },
+            { status: 404 }
+          );
+
         case 'DATASET_TOO_LARGE':
           return NextResponse.json(
             {
               error: {
                 code: ExportErrorCodes.DATASET_TOO_LARGE,
-                message: exportError.message,
-                context: exportError.context,
+                message: error.message,
+                context: error.context,
                 timestamp: new Date().toISOString(),
               },
             },
@@ -168,7 +251,7 @@ export async function POST(request: NextRequest): Promise<Response> {
             {
               error: {
                 code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
-                message: exportError.message,
+                message: error.message,
                 timestamp: new Date().toISOString(),
               },
             },
@@ -192,23 +275,23 @@ export async function POST(request: NextRequest): Promise<Response> {
 }
 
 /**
- * GET /api/v1/exports?jobId={id} - Get export job status and download URL
+ * GET /api/v1/exports - Get export job status, or list recent export jobs
  *
- * Retrieves the current status of an export job, including progress information
- * and download URL for completed exports.
+ * With `jobId`, returns that job if it belongs to the caller. Without it,
+ * returns the caller's 20 most recent export jobs in the current household,
+ * including cancelled, failed and expired ones.
  *
  * @param request - Next.js request object with query parameters
  * @returns Promise<Response> JSON response with export job status
  *
  * @throws {401} Unauthorized - Missing or invalid authentication token
- * @throws {400} Bad Request - Missing or invalid jobId parameter
+ * @throws {400} Bad Request - Invalid jobId parameter
  * @throws {404} Not Found - Export job not found
- * @throws {403} Forbidden - User lacks permission to access this export job
  * @throws {500} Internal Server Error - Unexpected server error
  *
  * @example Request
  * ```
- * GET /api/v1/exports?jobId=export-job-uuid&includeDownloadUrl=true
+ * GET /api/v1/exports?jobId=export-job-uuid
  * ```
  *
  * @example Success response (completed)
@@ -217,6 +300,7 @@ export async function POST(request: NextRequest): Promise<Response> {
  *   "data": {
  *     "id": "export-job-uuid",
  *     "userId": "user-uuid",
+ *     "householdId": "household-id",
  *     "format": "csv",
  *     "status": "completed",
  *     "filename": "inventory-export-2024-09-14T10-30-00.csv",
@@ -226,6 +310,7 @@ export async function POST(request: NextRequest): Promise<Response> {
  *     "fileSize": 2048576,
  *     "downloadUrl": "/api/v1/exports/export-job-uuid/download",
  *     "createdAt": "2024-09-14T10:30:00Z",
+ *     "startedAt": "2024-09-14T10:30:05Z",
  *     "completedAt": "2024-09-14T10:32:15Z",
  *     "expiresAt": "2024-09-21T10:30:00Z"
  *   },
@@ -244,8 +329,7 @@ export async function POST(request: NextRequest): Promise<Response> {
  *     "status": "processing",
  *     "progress": 45,
  *     "totalItems": 1250,
- *     "processedItems": 562,
- *     "estimatedTimeRemaining": 120
+ *     "processedItems": 562
  *   }
  * }
  * ```
@@ -267,17 +351,38 @@ export async function GET(request: NextRequest): Promise<Response> {
       );
     }
 
-    // Extract and validate query parameters
+    // Extract query parameters
     const { searchParams } = new URL(request.url);
     const jobId = searchParams.get('jobId');
-    const includeDownloadUrl = searchParams.get('includeDownloadUrl') === 'true';
 
+    // Without a jobId, list the caller's export history
     if (!jobId) {
+      let householdId: string;
+      try {
+        householdId = await getHouseholdContext(session);
+      } catch (error) {
+        return handleHouseholdContextError(error);
+      }
+
+      const exportJobs = await exportsService.listExportJobs(session.user.id, householdId);
+
+      return NextResponse.json({
+        data: exportJobs,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: 'v1',
+        },
+      });
+    }
+
+    // Validate jobId format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(jobId)) {
       return NextResponse.json(
         {
           error: {
             code: 'INVALID_PARAMETERS',
-            message: 'Missing required parameter: jobId',
+            message: 'Invalid jobId format',
             timestamp: new Date().toISOString(),
           },
         },
@@ -285,46 +390,23 @@ export async function GET(request: NextRequest): Promise<Response> {
       );
     }
 
-    // Validate jobId format (UUID)
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(jobId)) {
+    // QA CRITICAL: Only the requesting user can see a job
+    const exportJob = await exportsService.getExportJob(jobId, session.user.id);
+    if (!exportJob) {
       return NextResponse.json(
         {
           error: {
-            code: 'INVALID_PARAMETERS',
-            message: 'Invalid jobId format',
+            code: ExportErrorCodes.EXPORT_NOT_FOUND,
+            message: 'Export job not found',
             timestamp: new Date().toISOString(),
           },
         },
-        { status: 400 }
+        { status: 404 }
       );
     }
 
-    // QA CRITICAL: In a production environment, this would retrieve the job from database
-    // and validate user ownership. For now, we'll simulate the response structure.
-
-    // TODO: Implement actual job retrieval from database
-    // const exportJob = await exportsService.getExportStatus(jobId, session.user.id);
-
-    // Simulated response for demonstration
-    const mockExportJob = {
-      id: jobId,
-      userId: session.user.id,
-      format: 'csv' as const,
-      status: 'completed' as const,
-      filename: `inventory-export-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`,
-      progress: 100,
-      totalItems: 1250,
-      processedItems: 1250,
-      fileSize: 2048576,
-      downloadUrl: includeDownloadUrl ? `/api/v1/exports/${jobId}/download` : undefined,
-      createdAt: new Date(Date.now() - 5 * 60 * 1000), // 5 minutes ago
-      completedAt: new Date(Date.now() - 2 * 60 * 1000), // 2 minutes ago
-      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-    };
-
     return NextResponse.json({
-      data: mockExportJob,
+      data: exportJob,
       meta: {
         timestamp: new Date().toISOString(),
         version: 'v1',
@@ -345,4 +427,4 @@ export async function GET(request: NextRequest): Promise<Response> {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
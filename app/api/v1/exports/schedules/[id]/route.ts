@@ -0,0 +1,218 @@
+/**
+ * Export Schedule API Route - Update or delete a recurring export
+ *
+ * Deleting a schedule removes the files it kept from the backups bucket;
+ * its runs stay in the export history.
+ *
+ * @route PATCH /api/v1/exports/schedules/[id] - Change, pause or resume a schedule
+ * @route DELETE /api/v1/exports/schedules/[id] - Delete a schedule
+ * @access Private (requires the exports:create household permission)
+ * @since 1.13.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth/config';
+import { ExportErrorCodes } from '@/lib/services/exports';
+import { exportScheduleService } from '@/lib/services/export-schedules';
+import { validateUpdateExportSchedule } from '@/lib/validation/exports';
+import { isServiceError } from '@/lib/validation/common';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * HTTP status for each export schedule error
+ */
+const scheduleErrorStatus = {
+  EXPORT_SCHEDULE_NOT_FOUND: 404,
+} as const;
+
+/**
+ * PATCH /api/v1/exports/schedules/[id] - Update an export schedule
+ *
+ * A new cron expression, or resuming a paused schedule, moves the next run
+ * to the next time the expression fires.
+ *
+ * @param request - Next.js request object with the fields to change
+ * @param params - Route parameters containing the schedule ID
+ * @returns Promise<Response> JSON response with the updated schedule
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid schedule ID or fields
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {404} Not Found - Schedule not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Request body
+ * ```json
+ * { "enabled": false }
+ * ```
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const params = await context.params;
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return unauthorized();
+    }
+
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return invalidScheduleId();
+    }
+
+    const body = await request.json();
+    const validatedData = validateUpdateExportSchedule(body);
+
+    const schedule = await exportScheduleService.updateSchedule(params.id, householdId, validatedData);
+
+    return NextResponse.json({
+      data: schedule,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export schedule update error:', error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid export schedule',
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return scheduleErrorResponse(error, 'Failed to update export schedule');
+  }
+}
+
+/**
+ * DELETE /api/v1/exports/schedules/[id] - Delete an export schedule
+ *
+ * @param request - Next.js request object
+ * @param params - Route parameters containing the schedule ID
+ * @returns Promise<Response> JSON response confirming the deletion
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid schedule ID
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {404} Not Found - Schedule not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const params = await context.params;
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return unauthorized();
+    }
+
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return invalidScheduleId();
+    }
+
+    await exportScheduleService.deleteSchedule(params.id, householdId);
+
+    return NextResponse.json({
+      data: { id: params.id, deleted: true },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export schedule deletion error:', error);
+    return scheduleErrorResponse(error, 'Failed to delete export schedule');
+  }
+}
+
+/**
+ * 401 response for requests without a session
+ */
+function unauthorized(): Response {
+  return NextResponse.json(
+    {
+      error: {
+        code: ExportErrorCodes.UNAUTHORIZED,
+        message: 'Authentication required',
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 401 }
+  );
+}
+
+/**
+ * 400 response for a malformed schedule ID
+ */
+function invalidScheduleId(): Response {
+  return NextResponse.json(
+    {
+      error: {
+        code: 'INVALID_SCHEDULE_ID',
+        message: 'Invalid export schedule ID format',
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Map an export schedule error to its response, else a 500
+ */
+function scheduleErrorResponse(error: unknown, fallbackMessage: string): Response {
+  if (isServiceError(error, scheduleErrorStatus)) {
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes[error.code],
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: scheduleErrorStatus[error.code] }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: {
+        code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+        message: fallbackMessage,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * Export Schedules API Routes - Recurring exports for off-site backup
+ *
+ * Each run of a schedule is an export job created as the member who saved
+ * the schedule, stored in the backups bucket and listed in their export
+ * history. Listing only needs membership; saving a schedule needs the
+ * exports:create permission.
+ *
+ * @route GET /api/v1/exports/schedules - List the household's export schedules
+ * @route POST /api/v1/exports/schedules - Create an export schedule
+ * @access Private (requires authentication and household membership)
+ * @since 1.13.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth/config';
+import { ExportErrorCodes } from '@/lib/services/exports';
+import { exportScheduleService } from '@/lib/services/export-schedules';
+import { validateCreateExportSchedule } from '@/lib/validation/exports';
+import {
+  requireHouseholdPermission,
+  getHouseholdContext,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/exports/schedules - List export schedules
+ *
+ * @param request - Next.js request object
+ * @returns Promise<Response> JSON response with the schedules, by name
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const schedules = await exportScheduleService.listSchedules(householdId);
+
+    return NextResponse.json({
+      data: schedules,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export schedule listing error:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to list export schedules',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/exports/schedules - Create an export schedule
+ *
+ * The first run is the next time the cron expression fires (UTC).
+ *
+ * @param request - Next.js request object with the schedule
+ * @returns Promise<Response> JSON response with the created schedule
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid cron expression, filters, column settings or retention count
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Request body
+ * ```json
+ * {
+ *   "name": "Weekly backup",
+ *   "format": "xlsx",
+ *   "filters": { "status": ["AVAILABLE", "BORROWED"] },
+ *   "cronExpression": "0 3 * * 1",
+ *   "retentionCount": 8
+ * }
+ * ```
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateCreateExportSchedule(body);
+
+    const schedule = await exportScheduleService.createSchedule(session.user.id, householdId, validatedData);
+
+    return NextResponse.json(
+      {
+        data: schedule,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: 'v1',
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Export schedule creation error:', error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid export schedule',
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to create export schedule',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
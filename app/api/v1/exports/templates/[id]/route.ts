@@ -0,0 +1,217 @@
+/**
+ * Export Template API Route - Update or delete a saved export layout
+ *
+ * Exports already created from a template keep the settings they were
+ * created with.
+ *
+ * @route PATCH /api/v1/exports/templates/[id] - Rename a template or replace its settings
+ * @route DELETE /api/v1/exports/templates/[id] - Delete a template
+ * @access Private (requires the exports:create household permission)
+ * @since 1.13.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth/config';
+import { ExportErrorCodes } from '@/lib/services/exports';
+import { exportTemplateService } from '@/lib/services/export-templates';
+import { validateUpdateExportTemplate } from '@/lib/validation/exports';
+import { isServiceError } from '@/lib/validation/common';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * HTTP status for each export template error
+ */
+const templateErrorStatus = {
+  EXPORT_TEMPLATE_NOT_FOUND: 404,
+  EXPORT_TEMPLATE_NAME_TAKEN: 409,
+} as const;
+
+/**
+ * PATCH /api/v1/exports/templates/[id] - Update an export template
+ *
+ * @param request - Next.js request object with the fields to change
+ * @param params - Route parameters containing the template ID
+ * @returns Promise<Response> JSON response with the updated template
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid template ID, name or column settings
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {404} Not Found - Template not found
+ * @throws {409} Conflict - Another template already has the new name
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Request body
+ * ```json
+ * { "name": "Accounting (2026)" }
+ * ```
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const params = await context.params;
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return unauthorized();
+    }
+
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return invalidTemplateId();
+    }
+
+    const body = await request.json();
+    const validatedData = validateUpdateExportTemplate(body);
+
+    const template = await exportTemplateService.updateTemplate(params.id, householdId, validatedData);
+
+    return NextResponse.json({
+      data: template,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export template update error:', error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid export template',
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return templateErrorResponse(error, 'Failed to update export template');
+  }
+}
+
+/**
+ * DELETE /api/v1/exports/templates/[id] - Delete an export template
+ *
+ * @param request - Next.js request object
+ * @param params - Route parameters containing the template ID
+ * @returns Promise<Response> JSON response confirming the deletion
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid template ID
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {404} Not Found - Template not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const params = await context.params;
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return unauthorized();
+    }
+
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return invalidTemplateId();
+    }
+
+    await exportTemplateService.deleteTemplate(params.id, householdId);
+
+    return NextResponse.json({
+      data: { id: params.id, deleted: true },
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export template deletion error:', error);
+    return templateErrorResponse(error, 'Failed to delete export template');
+  }
+}
+
+/**
+ * 401 response for requests without a session
+ */
+function unauthorized(): Response {
+  return NextResponse.json(
+    {
+      error: {
+        code: ExportErrorCodes.UNAUTHORIZED,
+        message: 'Authentication required',
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 401 }
+  );
+}
+
+/**
+ * 400 response for a malformed template ID
+ */
+function invalidTemplateId(): Response {
+  return NextResponse.json(
+    {
+      error: {
+        code: 'INVALID_TEMPLATE_ID',
+        message: 'Invalid export template ID format',
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Map an export template error to its response, else a 500
+ */
+function templateErrorResponse(error: unknown, fallbackMessage: string): Response {
+  if (isServiceError(error, templateErrorStatus)) {
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes[error.code],
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: templateErrorStatus[error.code] }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: {
+        code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+        message: fallbackMessage,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Export Templates API Routes - Saved export column layouts
+ *
+ * Templates are shared by every member of a household. Anyone who can
+ * create exports can save templates; listing only needs membership.
+ *
+ * @route GET /api/v1/exports/templates - List the household's export templates
+ * @route POST /api/v1/exports/templates - Save an export template
+ * @access Private (requires authentication and household membership)
+ * @since 1.13.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { auth } from '@/lib/auth/config';
+import { ExportErrorCodes } from '@/lib/services/exports';
+import { exportTemplateService } from '@/lib/services/export-templates';
+import { validateCreateExportTemplate } from '@/lib/validation/exports';
+import { isServiceError } from '@/lib/validation/common';
+import {
+  requireHouseholdPermission,
+  getHouseholdContext,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/exports/templates - List export templates
+ *
+ * @param request - Next.js request object
+ * @returns Promise<Response> JSON response with the templates, by name
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const templates = await exportTemplateService.listTemplates(householdId);
+
+    return NextResponse.json({
+      data: templates,
+      meta: {
+        timestamp: new Date().toISOString(),
+        version: 'v1',
+      },
+    });
+
+  } catch (error) {
+    console.error('Export template listing error:', error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to list export templates',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/exports/templates - Save an export template
+ *
+ * @param request - Next.js request object with the template
+ * @returns Promise<Response> JSON response with the created template
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid name or column settings
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {409} Conflict - The household already has a template with this name
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Request body
+ * ```json
+ * {
+ *   "name": "Accounting",
+ *   "settings": {
+ *     "columns": ["name", "locationPath", "purchaseDate", "purchasePrice", "metadata.invoiceNumber"],
+ *     "delimiter": ";",
+ *     "dateFormat": "eu",
+ *     "currency": { "symbol": "€", "decimalSeparator": "," }
+ *   }
+ * }
+ * ```
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.UNAUTHORIZED,
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateCreateExportTemplate(body);
+
+    const template = await exportTemplateService.createTemplate(session.user.id, householdId, validatedData);
+
+    return NextResponse.json(
+      {
+        data: template,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: 'v1',
+        },
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Export template creation error:', error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid export template',
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isServiceError(error, ExportErrorCodes) && error.code === 'EXPORT_TEMPLATE_NAME_TAKEN') {
+      return NextResponse.json(
+        {
+          error: {
+            code: ExportErrorCodes.EXPORT_TEMPLATE_NAME_TAKEN,
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: ExportErrorCodes.EXPORT_GENERATION_FAILED,
+          message: 'Failed to save export template',
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Household Backup API Route - Download a full backup archive
+ *
+ * Streams a ZIP with the household's manifest.json (locations, tags, items,
+ * photos, loans and NFC tags) plus the original photo files. Restore it with
+ * POST /api/v1/households/restore.
+ *
+ * @route GET /api/v1/households/backup - Download the current household's backup
+ * @access Private (requires exports:create permission)
+ * @since 1.11.0
+ */
+
+import { auth } from '@/lib/auth/config';
+import { backupService } from '@/lib/services';
+import { createErrorResponse } from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/households/backup - Download a backup archive
+ *
+ * @route GET /api/v1/households/backup
+ * @access Private (requires exports:create permission)
+ * @returns Promise<Response> ZIP archive as an attachment
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the exports:create permission
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET() {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. A backup holds everything an export would, so it needs the same capability
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'exports:create'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Build the archive
+    const backup = await backupService.createBackup(householdId);
+
+    // 4. Stream it as a download
+    return new Response(backup.stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${backup.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('GET /api/v1/households/backup error:', error);
+
+    return Response.json(
+      createErrorResponse('BACKUP_FAILED', 'Failed to create household backup'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { householdService } from '@/lib/services';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * DELETE /api/v1/households/invitations/{id} - Revoke a pending invitation
+ *
+ * @route DELETE /api/v1/households/invitations/{id}
+ * @access Private (requires members:manage permission)
+ * @param request - Next.js request object
+ * @param context - Route context with invitation ID
+ * @returns Promise<Response> JSON response confirming revocation
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the members:manage permission
+ * @throws {404} Not Found - Invitation not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { id: invitationId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'members:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Revoke the invitation
+    await householdService.revokeInvitation(session.user.id, householdId, invitationId);
+
+    // 4. Return success
+    return Response.json(
+      createSuccessResponse({ message: 'Invitation revoked successfully' })
+    );
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`DELETE /api/v1/households/invitations/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Insufficient permissions')) {
+        return Response.json(
+          createErrorResponse('FORBIDDEN', error.message),
+          { status: 403 }
+        );
+      }
+
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('INVITATION_NOT_FOUND', 'Invitation not found'),
+          { status: 404 }
+        );
+      }
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to revoke invitation'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { householdService } from '@/lib/services';
+import {
+  validateCreateInvitation,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/households/invitations - Pending invitations to the current household
+ *
+ * @route GET /api/v1/households/invitations
+ * @access Private (requires authentication)
+ * @returns Promise<Response> JSON response with unexpired invitations, newest first
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET() {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get pending invitations
+    const invitations = await householdService.listInvitations(householdId);
+
+    // 4. Return invitations
+    return Response.json(createSuccessResponse(invitations));
+
+  } catch (error) {
+    console.error('GET /api/v1/households/invitations error:', error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve invitations'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/households/invitations - Invite someone to the household
+ *
+ * Body takes `email`, optional `role` (defaults to member) and optional
+ * `expiresInDays`. The response includes the invitation link for the
+ * inviter to share. The link carries the invitation token, so it is never
+ * logged.
+ *
+ * @route POST /api/v1/households/invitations
+ * @access Private (requires members:manage permission)
+ * @param request - Next.js request object with invitation data
+ * @returns Promise<Response> JSON response with the invitation and its link
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid invitation data
+ * @throws {403} Forbidden - Household role lacks the members:manage permission
+ * @throws {409} Conflict - Invitee is already a member
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context and validate request body
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'members:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateCreateInvitation(body);
+
+    // 3. Create the invitation
+    const { invitation, token } = await householdService.inviteMember(
+      session.user.id,
+      householdId,
+      validatedData
+    );
+
+    // 4. Build the invitation link
+    const inviteUrl = `${process.env.NEXTAUTH_URL ?? request.nextUrl.origin}/invite/${token}`;
+
+    // 5. Return invitation
+    return Response.json(
+      createSuccessResponse({ invitation, inviteUrl }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('POST /api/v1/households/invitations error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Insufficient permissions')) {
+        return Response.json(
+          createErrorResponse('FORBIDDEN', error.message),
+          { status: 403 }
+        );
+      }
+
+      if (error.message.includes('already a member')) {
+        return Response.json(
+          createErrorResponse('ALREADY_MEMBER', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to create invitation'),
+      { status: 500 }
+    );
+  }
+}
+
@@ -0,0 +1,186 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { householdService } from '@/lib/services';
+import {
+  validateUpdateMember,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * Map membership errors to API responses
+ */
+function membershipErrorResponse(error: Error): Response | null {
+  if (error.message.includes('Insufficient permissions')) {
+    return Response.json(
+      createErrorResponse('FORBIDDEN', error.message),
+      { status: 403 }
+    );
+  }
+
+  if (error.message.includes('not found') || error.message.includes('access denied')) {
+    return Response.json(
+      createErrorResponse('MEMBER_NOT_FOUND', 'Member not found'),
+      { status: 404 }
+    );
+  }
+
+  if (error.message.includes('at least one owner')) {
+    return Response.json(
+      createErrorResponse('LAST_OWNER', error.message),
+      { status: 409 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * PATCH /api/v1/households/members/{memberId} - Change a member's role or permissions
+ *
+ * Body takes an optional `role` and optional `permissions` overrides such as
+ * `{ "items:delete": true, "exports:create": false }`; null clears an override.
+ *
+ * @route PATCH /api/v1/households/members/{memberId}
+ * @access Private (members:manage; owner changes need an owner)
+ * @param request - Next.js request object with the new role and/or overrides
+ * @param context - Route context with membership ID
+ * @returns Promise<Response> JSON response with the updated member
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid role or permission
+ * @throws {403} Forbidden - User may not change this member's role
+ * @throws {404} Not Found - Member not found
+ * @throws {409} Conflict - Would leave the household without an owner
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ memberId: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { memberId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'members:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateUpdateMember(body);
+
+    // 3. Change the role and/or permission overrides
+    const member = await householdService.updateMember(
+      session.user.id,
+      householdId,
+      memberId,
+      validatedData
+    );
+
+    // 4. Return updated member
+    return Response.json(createSuccessResponse(member));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`PATCH /api/v1/households/members/${resolvedParams.memberId} error:`, error);
+
+    if (error instanceof Error) {
+      const response = membershipErrorResponse(error);
+      if (response) return response;
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to update member'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/households/members/{memberId} - Remove a member or leave the household
+ *
+ * Access is revoked on the member's next request, since every request
+ * re-checks household membership.
+ *
+ * @route DELETE /api/v1/households/members/{memberId}
+ * @access Private (members:manage, or the member themselves)
+ * @param request - Next.js request object
+ * @param context - Route context with membership ID
+ * @returns Promise<Response> JSON response confirming removal
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User may not remove this member
+ * @throws {404} Not Found - Member not found
+ * @throws {409} Conflict - Would leave the household without an owner
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ memberId: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { memberId } = await context.params;
+    // Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Remove the member
+    await householdService.removeMember(session.user.id, householdId, memberId);
+
+    // 4. Return success
+    return Response.json(
+      createSuccessResponse({ message: 'Member removed successfully' })
+    );
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`DELETE /api/v1/households/members/${resolvedParams.memberId} error:`, error);
+
+    if (error instanceof Error) {
+      const response = membershipErrorResponse(error);
+      if (response) return response;
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to remove member'),
+      { status: 500 }
+    );
+  }
+}
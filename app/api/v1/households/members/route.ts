@@ -0,0 +1,53 @@
+import { auth } from '@/lib/auth/config';
+import { householdService } from '@/lib/services';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '@/lib/validation';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/households/members - Members of the current household
+ *
+ * @route GET /api/v1/households/members
+ * @access Private (requires authentication)
+ * @returns Promise<Response> JSON response with members, owners first
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET() {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get members
+    const members = await householdService.listMembers(householdId);
+
+    // 4. Return members
+    return Response.json(createSuccessResponse(members));
+
+  } catch (error) {
+    console.error('GET /api/v1/households/members error:', error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve household members'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Household Restore API Route - Rebuild a household from a backup archive
+ *
+ * Restores an archive from GET /api/v1/households/backup into a new
+ * household owned by the caller, or into the current household when it has
+ * no locations, categories, items, tags, custom fields or NFC tags yet.
+ * Every record gets a new ID.
+ *
+ * @route POST /api/v1/households/restore - Restore a backup archive
+ * @access Private (restoring into the current household requires members:manage)
+ * @since 1.11.0
+ */
+
+import { auth } from '@/lib/auth/config';
+import { backupService, BackupErrorCodes } from '@/lib/services';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  formatValidationErrors,
+  isServiceError,
+  validateRestoreOptions,
+  MAX_BACKUP_FILE_SIZE,
+} from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+import type { RestoreTarget } from '@/lib/types/backups';
+import { ZodError } from 'zod';
+
+/**
+ * Restores write up to 250MB of photos and then run a transaction of up to
+ * two minutes; keep in step with the function config in vercel.json
+ */
+export const maxDuration = 300;
+
+/** Room for the multipart boundaries and option fields around the archive */
+const MAX_RESTORE_REQUEST_SIZE = MAX_BACKUP_FILE_SIZE + 1024 * 1024;
+
+/**
+ * POST /api/v1/households/restore - Restore a backup archive
+ *
+ * Multipart form fields:
+ * - `file` - Backup ZIP archive (max 250MB)
+ * - `target` - "new" (default) for a new household, or "current"
+ * - `name` - Optional name for a new household; defaults to the archived name
+ *
+ * After restoring into a new household, switch the session to the returned
+ * `householdId` to open it.
+ *
+ * @route POST /api/v1/households/restore
+ * @access Private (restoring into the current household requires members:manage)
+ * @returns Promise<Response> JSON response with the restored household and counts
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Missing file, invalid options or not a valid backup
+ * @throws {403} Forbidden - Household role lacks the members:manage permission
+ * @throws {409} Conflict - The current household already has data
+ * @throws {411} Length Required - The upload has no Content-Length
+ * @throws {413} Payload Too Large - Archive exceeds the size limit
+ * @throws {422} Unprocessable Entity - Archive version is newer than supported
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Success response
+ * ```json
+ * {
+ *   "data": {
+ *     "householdId": "clx...",
+ *     "householdName": "Beach House",
+ *     "counts": { "locations": 12, "categories": 6, "tags": 8, "customFields": 2, "items": 240, "photos": 96, "loans": 3, "nfcTags": 10 },
+ *     "missingPhotos": 0
+ *   },
+ *   "meta": { "timestamp": "2026-03-04T10:30:00Z", "version": "v1" }
+ * }
+ * ```
+ */
+export async function POST(request: Request) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Refuse oversized uploads before reading them into memory
+    const contentLength = Number(request.headers.get('content-length'));
+    if (!contentLength) {
+      return Response.json(
+        createErrorResponse('LENGTH_REQUIRED', 'Backup uploads must declare their size'),
+        { status: 411 }
+      );
+    }
+    if (contentLength > MAX_RESTORE_REQUEST_SIZE) {
+      return Response.json(
+        createErrorResponse(
+          BackupErrorCodes.FILE_TOO_LARGE,
+          `Backup archives cannot exceed ${MAX_BACKUP_FILE_SIZE / 1024 / 1024}MB`
+        ),
+        { status: 413 }
+      );
+    }
+
+    // 3. Read the upload and options
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return Response.json(
+        createErrorResponse('VALIDATION_ERROR', 'A backup archive is required'),
+        { status: 400 }
+      );
+    }
+
+    const options = validateRestoreOptions({
+      target: formData.get('target') ?? undefined,
+      name: formData.get('name') || undefined,
+    });
+
+    // 4. Restoring over the current household replaces its contents
+    let target: RestoreTarget = { mode: 'new', name: options.name };
+    if (options.target === 'current') {
+      try {
+        const { householdId } = await requireHouseholdPermission(session, 'members:manage');
+        target = { mode: 'current', householdId };
+      } catch (error) {
+        return handleHouseholdContextError(error);
+      }
+    }
+
+    // 5. Restore
+    const result = await backupService.restoreBackup(
+      session.user.id,
+      new Uint8Array(await file.arrayBuffer()),
+      target
+    );
+
+    // 6. Return the restored household
+    return Response.json(createSuccessResponse(result), { status: 201 });
+
+  } catch (error) {
+    console.error('POST /api/v1/households/restore error:', error);
+
+    if (error instanceof ZodError) {
+      return Response.json(
+        createErrorResponse('VALIDATION_ERROR', 'Invalid restore options', formatValidationErrors(error)),
+        { status: 400 }
+      );
+    }
+
+    // Handle custom backup errors
+    if (isServiceError(error, BackupErrorCodes)) {
+      const code = BackupErrorCodes[error.code];
+
+      switch (error.code) {
+        case 'INVALID_ARCHIVE':
+          return Response.json(
+            createErrorResponse(code, error.message, error.context?.details),
+            { status: 400 }
+          );
+
+        case 'FILE_TOO_LARGE':
+          return Response.json(createErrorResponse(code, error.message), { status: 413 });
+
+        case 'UNSUPPORTED_VERSION':
+          return Response.json(createErrorResponse(code, error.message), { status: 422 });
+
+        case 'HOUSEHOLD_NOT_EMPTY':
+          return Response.json(createErrorResponse(code, error.message), { status: 409 });
+      }
+    }
+
+    return Response.json(
+      createErrorResponse(BackupErrorCodes.BACKUP_FAILED, 'Failed to restore household backup'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Import API Route - Bring items in from CSV and XLSX spreadsheets
+ *
+ * Accepts a spreadsheet laid out like the CSV export (or a custom column
+ * mapping) and either reports what would happen (dry run, the default) or
+ * writes the items. Dry runs list per-row errors and planned
+ * creates/updates so the file can be fixed before anything commits.
+ *
+ * @route POST /api/v1/imports - Dry-run or commit an item import
+ * @access Private (requires items:create permission)
+ * @since 1.11.0
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { importService, ImportErrorCodes } from '@/lib/services/imports';
+import { validateImportOptions } from '@/lib/validation/imports';
+import { isServiceError } from '@/lib/validation/common';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+import type { HouseholdAccess } from '@/lib/utils/household-context';
+import { ZodError } from 'zod';
+
+/**
+ * POST /api/v1/imports - Import items from a spreadsheet
+ *
+ * Multipart form fields:
+ * - `file` - CSV or XLSX file (max 10MB, 5000 rows)
+ * - `dryRun` - "false" to commit; defaults to a dry run
+ * - `mapping` - Optional JSON object of column header -> field
+ * - `onDuplicate` - "update" (default), "skip" or "create" for items whose
+ *   name already exists in the same location
+ * - `createMissingLocations`, `createMissingTags`, `skipInvalidRows` - "true"/"false"
+ *
+ * Missing locations are only created for members with locations:manage, and
+ * existing items are only updated for members with items:update; otherwise
+ * those rows report errors or are skipped.
+ *
+ * @param request - Next.js request object with multipart form data
+ * @returns Promise<Response> JSON response with the import report
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Missing file, unreadable file or invalid options
+ * @throws {403} Forbidden - Household role lacks the items:create permission
+ * @throws {413} Payload Too Large - File or row count exceeds import limits
+ * @throws {422} Unprocessable Entity - Rows have errors and skipInvalidRows is off
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Success response
+ * ```json
+ * {
+ *   "data": {
+ *     "dryRun": true,
+ *     "committed": false,
+ *     "format": "csv",
+ *     "totalRows": 2,
+ *     "summary": { "create": 1, "update": 0, "skip": 0, "error": 1 },
+ *     "locationsToCreate": ["Garage → Shelf A"],
+ *     "tagsToCreate": [],
+ *     "rows": [
+ *       { "row": 2, "action": "create", "name": "Drill", "locationPath": "Garage → Shelf A", "errors": [], "warnings": [] },
+ *       { "row": 3, "action": "error", "name": "", "locationPath": "Garage", "errors": ["Item name is required"], "warnings": [] }
+ *     ]
+ *   },
+ *   "meta": { "timestamp": "2026-03-04T10:30:00Z", "version": "v1" }
+ * }
+ * ```
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    // Authentication using NextAuth session validation
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    // Importing creates items, so it needs the same capability
+    let access: HouseholdAccess;
+    try {
+      access = await requireHouseholdPermission(session, 'items:create');
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // Read the upload and options
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return importErrorResponse('VALIDATION_FAILED', 'A CSV or XLSX file is required', 400);
+    }
+
+    const mapping = formData.get('mapping');
+    const options = validateImportOptions({
+      dryRun: formData.get('dryRun') ?? undefined,
+      mapping: typeof mapping === 'string' && mapping ? parseMapping(mapping) : undefined,
+      onDuplicate: formData.get('onDuplicate') ?? undefined,
+      createMissingLocations: formData.get('createMissingLocations') ?? undefined,
+      createMissingTags: formData.get('createMissingTags') ?? undefined,
+      skipInvalidRows: formData.get('skipInvalidRows') ?? undefined,
+    });
+
+    // Narrow options to what the member is allowed to do
+    if (!access.permissions.includes('locations:manage')) {
+      options.createMissingLocations = false;
+    }
+    if (options.onDuplicate === 'update' && !access.permissions.includes('items:update')) {
+      options.onDuplicate = 'skip';
+    }
+
+    const report = await importService.importItems(
+      session.user.id,
+      access.householdId,
+      { filename: file.name, data: new Uint8Array(await file.arrayBuffer()) },
+      options
+    );
+
+    // Standard API response format
+    return NextResponse.json(
+      {
+        data: report,
+        meta: {
+          timestamp: new Date().toISOString(),
+          version: 'v1',
+        },
+      },
+      { status: report.committed ? 201 : 200 }
+    );
+
+  } catch (error) {
+    console.error('Import error:', error);
+
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid import options',
+            details: error.errors,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle custom import errors
+    if (isServiceError(error, ImportErrorCodes)) {
+      const code = ImportErrorCodes[error.code];
+
+      switch (error.code) {
+        case 'UNSUPPORTED_FORMAT':
+        case 'MISSING_COLUMNS':
+          return importErrorResponse(code, error.message, 400, error.context);
+
+        case 'FILE_TOO_LARGE':
+        case 'TOO_MANY_ROWS':
+          return importErrorResponse(code, error.message, 413, error.context);
+
+        case 'ROWS_INVALID':
+          return importErrorResponse(code, error.message, 422, error.context);
+      }
+    }
+
+    // Handle unexpected errors
+    return importErrorResponse(ImportErrorCodes.IMPORT_FAILED, 'Failed to import items', 500);
+  }
+}
+
+/**
+ * Parse the JSON column mapping form field
+ */
+function parseMapping(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ZodError([{ code: 'custom', path: ['mapping'], message: 'Column mapping must be valid JSON' }]);
+  }
+}
+
+/**
+ * Build an import error response
+ */
+function importErrorResponse(
+  code: string,
+  message: string,
+  status: number,
+  context?: Record<string, unknown>
+): Response {
+  return NextResponse.json(
+    {
+      error: {
+        code,
+        message,
+        context,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status }
+  );
+}
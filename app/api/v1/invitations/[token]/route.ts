@@ -0,0 +1,155 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { householdService } from '@/lib/services';
+import {
+  validateAcceptInvitation,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+
+/**
+ * Map invitation errors to API responses
+ */
+function invitationErrorResponse(error: Error): Response | null {
+  if (error.message.includes('not found or expired')) {
+    return Response.json(
+      createErrorResponse('INVITATION_NOT_FOUND', 'Invitation is invalid or has expired'),
+      { status: 404 }
+    );
+  }
+
+  if (error.message.includes('different email address')) {
+    return Response.json(
+      createErrorResponse('INVITATION_EMAIL_MISMATCH', error.message),
+      { status: 403 }
+    );
+  }
+
+  if (error.message.includes('already a member')) {
+    return Response.json(
+      createErrorResponse('ALREADY_MEMBER', error.message),
+      { status: 409 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/v1/invitations/{token} - Accept a household invitation
+ *
+ * No household context is required: the invitee may not belong to any
+ * household yet. The invitation must have been sent to the signed-in
+ * user's email address. Body optionally takes `makeDefault` (default true).
+ *
+ * @route POST /api/v1/invitations/{token}
+ * @access Private (requires authentication)
+ * @param request - Next.js request object
+ * @param context - Route context with the invitation token
+ * @returns Promise<Response> JSON response with the new membership
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Invitation was sent to someone else
+ * @throws {404} Not Found - Invitation is invalid or expired
+ * @throws {409} Conflict - User is already a member
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { token } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const options = validateAcceptInvitation(body);
+
+    // 3. Join the household
+    const member = await householdService.acceptInvitation(token, session.user.id, options);
+
+    // 4. Return membership
+    return Response.json(createSuccessResponse(member), { status: 201 });
+
+  } catch (error) {
+    console.error('POST /api/v1/invitations/[token] error:', error);
+
+    if (error instanceof Error) {
+      const response = invitationErrorResponse(error);
+      if (response) return response;
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to accept invitation'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/invitations/{token} - Decline a household invitation
+ *
+ * @route DELETE /api/v1/invitations/{token}
+ * @access Private (requires authentication)
+ * @param request - Next.js request object
+ * @param context - Route context with the invitation token
+ * @returns Promise<Response> JSON response confirming the invitation was declined
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Invitation was sent to someone else
+ * @throws {404} Not Found - Invitation is invalid or expired
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { token } = await context.params;
+
+    // 3. Decline the invitation
+    await householdService.declineInvitation(token, session.user.id);
+
+    // 4. Return success
+    return Response.json(
+      createSuccessResponse({ message: 'Invitation declined' })
+    );
+
+  } catch (error) {
+    console.error('DELETE /api/v1/invitations/[token] error:', error);
+
+    if (error instanceof Error) {
+      const response = invitationErrorResponse(error);
+      if (response) return response;
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to decline invitation'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { itemsService } from '@/lib/services';
+import {
+  validateReturnItem,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * POST /api/v1/items/{id}/loans/return - Record the return of a lent item
+ *
+ * Closes the open loan; `condition: 'NEEDS_MAINTENANCE'` puts the item
+ * into maintenance instead of making it available.
+ *
+ * @route POST /api/v1/items/{id}/loans/return
+ * @access Private (requires items:lend permission)
+ * @param request - Next.js request object with optional condition and notes
+ * @param context - Route context with item ID
+ * @returns Promise<Response> JSON response with the returned item
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the items:lend permission
+ * @throws {400} Bad Request - Invalid return data
+ * @throws {404} Not Found - Item not found
+ * @throws {409} Conflict - Item is not currently borrowed
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: itemId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'items:lend'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = validateReturnItem(body);
+
+    // 3. Return the item
+    const returnedItem = await itemsService.returnItem(
+      session.user.id,
+      itemId,
+      householdId,
+      validatedData
+    );
+
+    // 4. Return updated item
+    return Response.json(createSuccessResponse(returnedItem));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`POST /api/v1/items/${resolvedParams.id}/loans/return error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('ITEM_NOT_FOUND', 'Item not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('not currently borrowed')) {
+        return Response.json(
+          createErrorResponse('ITEM_NOT_BORROWED', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to return item'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { itemsService } from '@/lib/services';
+import {
+  validateBorrowItem,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/items/{id}/loans - Lending history of an item
+ *
+ * @route GET /api/v1/items/{id}/loans
+ * @access Private (requires authentication)
+ * @param request - Next.js request object
+ * @param context - Route context with item ID
+ * @returns Promise<Response> JSON response with loans, newest first
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {404} Not Found - Item not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { id: itemId } = await context.params;
+    // Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get the lending history
+    const loans = await itemsService.getItemLoans(itemId, householdId);
+
+    // 4. Return loans
+    return Response.json(createSuccessResponse(loans));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`GET /api/v1/items/${resolvedParams.id}/loans error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('ITEM_NOT_FOUND', 'Item not found'),
+          { status: 404 }
+        );
+      }
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve loans'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/items/{id}/loans - Lend an item
+ *
+ * Body takes either `borrowerId` (household member) or `borrowerName`
+ * (with optional `borrowerContact`) for someone outside the household,
+ * plus optional `borrowedUntil` and `notes`.
+ *
+ * @route POST /api/v1/items/{id}/loans
+ * @access Private (requires items:lend permission)
+ * @param request - Next.js request object with loan data
+ * @param context - Route context with item ID
+ * @returns Promise<Response> JSON response with the borrowed item
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the items:lend permission
+ * @throws {400} Bad Request - Invalid loan data or unknown borrower
+ * @throws {404} Not Found - Item not found
+ * @throws {409} Conflict - Item is not available for borrowing
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: itemId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'items:lend'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateBorrowItem(body);
+
+    // 3. Lend the item
+    const borrowedItem = await itemsService.borrowItem(
+      session.user.id,
+      itemId,
+      householdId,
+      validatedData
+    );
+
+    // 4. Return borrowed item
+    return Response.json(createSuccessResponse(borrowedItem), { status: 201 });
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`POST /api/v1/items/${resolvedParams.id}/loans error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Borrower not found')) {
+        return Response.json(
+          createErrorResponse('BORROWER_NOT_FOUND', 'Borrower is not a member of this household'),
+          { status: 400 }
+        );
+      }
+
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('ITEM_NOT_FOUND', 'Item not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('not available for borrowing')) {
+        return Response.json(
+          createErrorResponse('ITEM_NOT_AVAILABLE', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to lend item'),
+      { status: 500 }
+    );
+  }
+}
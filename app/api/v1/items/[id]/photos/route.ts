@@ -10,16 +10,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, ActivityAction, ActivityEntityType } from '@prisma/client';
 import {
   storageService,
   photoProcessingService,
   CostProtectionService,
-  cdnService
+  cdnService,
+  activityLogService
 } from '@/lib/services';
 import { getCdnUrl } from '@/lib/config/storage';
 import { validateItem, validatePhotoUpload } from '@/lib/validation';
 import { createSessionAwareRateLimit, RATE_LIMIT_CONFIGS } from '@/lib/middleware/rate-limiting';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
 
 const prisma = new PrismaClient();
 const costProtectionService = new CostProtectionService(prisma);
@@ -54,14 +56,22 @@ export async function POST(
       );
     }
 
+    // Household context and photo permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'photos:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error) as NextResponse;
+    }
+
     const params = await context.params;
     const itemId = params.id;
 
-    // Validate item exists and user has access
+    // Validate item exists in the household
     const item = await prisma.item.findFirst({
       where: {
         id: itemId,
-        createdBy: session.user.id, // Simplified access check
+        householdId,
       }
     });
 
@@ -151,21 +161,39 @@ export async function POST(
     const originalCdnUrl = getCdnUrl(primary.original.key);
     const thumbnailCdnUrl = getCdnUrl(primary.thumbnail.key);
 
-    // Save photo record to database
-    const photo = await prisma.itemPhoto.create({
-      data: {
-        itemId,
-        originalUrl: originalCdnUrl,
-        thumbnailUrl: thumbnailCdnUrl,
-        filename: file.name,
-        mimeType: file.type,
-        fileSize: primary.original.fileSize,
-        width: processedResult.primary?.dimensions?.width,
-        height: processedResult.primary?.dimensions?.height,
-        processingStatus: 'COMPLETED',
-        optimizationSavings: ((file.size - primary.original.fileSize) / file.size) * 100,
-        uploadedBy: session.user.id,
-      },
+    // Save photo record to database, with its activity entry
+    const photo = await prisma.$transaction(async (tx) => {
+      const created = await tx.itemPhoto.create({
+        data: {
+          itemId,
+          originalUrl: originalCdnUrl,
+          thumbnailUrl: thumbnailCdnUrl,
+          filename: file.name,
+          mimeType: file.type,
+          fileSize: primary.original.fileSize,
+          width: processedResult.primary?.dimensions?.width,
+          height: processedResult.primary?.dimensions?.height,
+          processingStatus: 'COMPLETED',
+          optimizationSavings: ((file.size - primary.original.fileSize) / file.size) * 100,
+          uploadedBy: session.user.id,
+        },
+      });
+
+      await activityLogService.recordActivity(tx, {
+        householdId: item.householdId,
+        userId: session.user.id,
+        entityType: ActivityEntityType.ITEM,
+        entityId: itemId,
+        action: ActivityAction.PHOTO_ADDED,
+        metadata: {
+          itemName: item.name,
+          photoId: created.id,
+          filename: created.filename,
+          thumbnailUrl: created.thumbnailUrl,
+        },
+      });
+
+      return created;
     });
 
     // Clear CDN cache for updated item
@@ -7,7 +7,11 @@ import {
   createErrorResponse,
   handleValidationError,
 } from '@/lib/validation';
-import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
 
 /**
  * GET /api/v1/items/{id} - Get single item with details
@@ -83,13 +87,14 @@ export async function GET(
  * PATCH /api/v1/items/{id} - Update an existing item
  * 
  * @route PATCH /api/v1/items/{id}
- * @access Private (requires authentication)
+ * @access Private (requires items:update permission)
  * @param request - Next.js request object with update data
  * @param context - Route context with item ID
  * @returns Promise<Response> JSON response with updated item data
  * 
  * @throws {401} Unauthorized - Missing or invalid authentication token
- * @throws {400} Bad Request - Invalid update data
+ * @throws {403} Forbidden - Household role lacks the items:update permission
+ * @throws {400} Bad Request - Invalid update data, unknown category or tags of another household
  * @throws {404} Not Found - Item not found
  * @throws {500} Internal Server Error - Unexpected server error
  */
@@ -109,10 +114,10 @@ export async function PATCH(
 
     // 2. Get parameters and validate request body
     const { id: itemId } = await context.params;
-    // Get user's household context with security validation
+    // Get user's household context and check their permission
     let householdId: string;
     try {
-      householdId = await getHouseholdContext(session);
+      ({ householdId } = await requireHouseholdPermission(session, 'items:update'));
     } catch (error) {
       return handleHouseholdContextError(error);
     }
@@ -136,6 +141,21 @@ export async function PATCH(
     console.error(`PATCH /api/v1/items/${resolvedParams.id} error:`, error);
     
     if (error instanceof Error) {
+      // Checked first so an unknown category is not reported as a missing item
+      if (error.message.includes('Category not found')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_NOT_FOUND', error.message),
+          { status: 400 }
+        );
+      }
+      
+      if (error.message.includes('Tags must belong')) {
+        return Response.json(
+          createErrorResponse('INVALID_TAGS', error.message),
+          { status: 400 }
+        );
+      }
+      
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return Response.json(
           createErrorResponse('ITEM_NOT_FOUND', 'Item not found'),
@@ -167,12 +187,13 @@ export async function PATCH(
  * DELETE /api/v1/items/{id} - Delete an item (soft delete)
  * 
  * @route DELETE /api/v1/items/{id}
- * @access Private (requires authentication)
+ * @access Private (requires items:delete permission)
  * @param request - Next.js request object
  * @param context - Route context with item ID
  * @returns Promise<Response> JSON response confirming deletion
  * 
  * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the items:delete permission
  * @throws {404} Not Found - Item not found
  * @throws {409} Conflict - Item cannot be deleted (e.g., currently borrowed)
  * @throws {500} Internal Server Error - Unexpected server error
@@ -193,10 +214,10 @@ export async function DELETE(
 
     // 2. Get parameters
     const { id: itemId } = await context.params;
-    // Get user's household context with security validation
+    // Get user's household context and check their permission
     let householdId: string;
     try {
-      householdId = await getHouseholdContext(session);
+      ({ householdId } = await requireHouseholdPermission(session, 'items:delete'));
     } catch (error) {
       return handleHouseholdContextError(error);
     }
@@ -8,7 +8,11 @@ import {
   createErrorResponse,
   handleValidationError,
 } from '@/lib/validation';
-import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
 
 /**
  * GET /api/v1/items - List items with pagination and filtering
@@ -47,10 +51,12 @@ export async function GET(request: NextRequest) {
     const searchData = {
       query: searchParams.get('q') || undefined,
       locationId: searchParams.get('locationId') || undefined,
+      categoryId: searchParams.get('categoryId') || undefined,
       status: searchParams.get('status') || undefined,
       tags: searchParams.get('tags')?.split(',') || undefined,
       minValue: searchParams.get('minValue') ? Number(searchParams.get('minValue')) : undefined,
       maxValue: searchParams.get('maxValue') ? Number(searchParams.get('maxValue')) : undefined,
+      barcode: searchParams.get('barcode') || undefined,
       page: searchParams.get('page') ? Number(searchParams.get('page')) : 1,
       limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : 20,
       sortBy: searchParams.get('sortBy') || 'name',
@@ -94,13 +100,14 @@ export async function GET(request: NextRequest) {
  * POST /api/v1/items - Create a new inventory item
  * 
  * @route POST /api/v1/items
- * @access Private (requires authentication)
+ * @access Private (requires items:create permission)
  * @param request - Next.js request object with item data in body
  * @returns Promise<Response> JSON response with created item data
  * 
  * @throws {401} Unauthorized - Missing or invalid authentication token
- * @throws {400} Bad Request - Invalid item data
- * @throws {404} Not Found - Location not found
+ * @throws {403} Forbidden - Household role lacks the items:create permission
+ * @throws {400} Bad Request - Invalid item data or tags of another household
+ * @throws {404} Not Found - Location or category not found
  * @throws {500} Internal Server Error - Unexpected server error
  */
 export async function POST(request: NextRequest) {
@@ -114,10 +121,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 2. Get user's household context with security validation
+    // 2. Get user's household context and check their permission
     let householdId: string;
     try {
-      householdId = await getHouseholdContext(session);
+      ({ householdId } = await requireHouseholdPermission(session, 'items:create'));
     } catch (error) {
       return handleHouseholdContextError(error);
     }
@@ -151,6 +158,20 @@ export async function POST(request: NextRequest) {
         );
       }
       
+      if (error.message.includes('Category not found')) {
+        return Response.json(
+          createErrorResponse('CATEGORY_NOT_FOUND', error.message),
+          { status: 404 }
+        );
+      }
+      
+      if (error.message.includes('Tags must belong')) {
+        return Response.json(
+          createErrorResponse('INVALID_TAGS', error.message),
+          { status: 400 }
+        );
+      }
+      
       if (error.message.includes('access denied')) {
         return Response.json(
           createErrorResponse('ACCESS_DENIED', error.message),
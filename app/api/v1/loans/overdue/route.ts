@@ -0,0 +1,53 @@
+import { auth } from '@/lib/auth/config';
+import { itemsService } from '@/lib/services';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from '@/lib/validation';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/loans/overdue - Items lent out past their due date
+ *
+ * @route GET /api/v1/loans/overdue
+ * @access Private (requires authentication)
+ * @returns Promise<Response> JSON response with overdue loans, most overdue first
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET() {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get overdue loans
+    const loans = await itemsService.getOverdueLoans(householdId);
+
+    // 4. Return loans
+    return Response.json(createSuccessResponse(loans));
+
+  } catch (error) {
+    console.error('GET /api/v1/loans/overdue error:', error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve overdue loans'),
+      { status: 500 }
+    );
+  }
+}
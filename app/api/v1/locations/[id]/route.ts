@@ -7,7 +7,11 @@ import {
   createErrorResponse,
   handleValidationError,
 } from '@/lib/validation';
-import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
 
 /**
  * GET /api/v1/locations/{id} - Get single location with details
@@ -83,12 +87,13 @@ export async function GET(
  * PATCH /api/v1/locations/{id} - Update an existing location
  * 
  * @route PATCH /api/v1/locations/{id}
- * @access Private (requires authentication)
+ * @access Private (requires locations:manage permission)
  * @param request - Next.js request object with update data
  * @param context - Route context with location ID
  * @returns Promise<Response> JSON response with updated location data
  * 
  * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the locations:manage permission
  * @throws {400} Bad Request - Invalid update data or hierarchy violation
  * @throws {404} Not Found - Location not found
  * @throws {500} Internal Server Error - Unexpected server error
@@ -109,10 +114,10 @@ export async function PATCH(
 
     // 2. Get parameters and validate request body
     const { id: locationId } = await context.params;
-    // Get user's household context with security validation
+    // Get user's household context and check their permission
     let householdId: string;
     try {
-      householdId = await getHouseholdContext(session);
+      ({ householdId } = await requireHouseholdPermission(session, 'locations:manage'));
     } catch (error) {
       return handleHouseholdContextError(error);
     }
@@ -167,12 +172,13 @@ export async function PATCH(
  * DELETE /api/v1/locations/{id} - Delete a location
  * 
  * @route DELETE /api/v1/locations/{id}
- * @access Private (requires authentication)
+ * @access Private (requires locations:manage permission)
  * @param request - Next.js request object
  * @param context - Route context with location ID
  * @returns Promise<Response> JSON response confirming deletion
  * 
  * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the locations:manage permission
  * @throws {404} Not Found - Location not found
  * @throws {409} Conflict - Location has children or items
  * @throws {500} Internal Server Error - Unexpected server error
@@ -193,10 +199,10 @@ export async function DELETE(
 
     // 2. Get parameters
     const { id: locationId } = await context.params;
-    // Get user's household context with security validation
+    // Get user's household context and check their permission
     let householdId: string;
     try {
-      householdId = await getHouseholdContext(session);
+      ({ householdId } = await requireHouseholdPermission(session, 'locations:manage'));
     } catch (error) {
       return handleHouseholdContextError(error);
     }
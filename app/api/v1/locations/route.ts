@@ -8,7 +8,11 @@ import {
   createErrorResponse,
   handleValidationError,
 } from '@/lib/validation';
-import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
 
 /**
  * GET /api/v1/locations - List locations with hierarchy and filtering
@@ -85,11 +89,12 @@ export async function GET(request: NextRequest) {
  * POST /api/v1/locations - Create a new location
  * 
  * @route POST /api/v1/locations
- * @access Private (requires authentication)
+ * @access Private (requires locations:manage permission)
  * @param request - Next.js request object with location data in body
  * @returns Promise<Response> JSON response with created location data
  * 
  * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the locations:manage permission
  * @throws {400} Bad Request - Invalid location data or hierarchy violation
  * @throws {404} Not Found - Parent location not found
  * @throws {500} Internal Server Error - Unexpected server error
@@ -106,10 +111,10 @@ export async function POST(request: NextRequest) {
     }
 
     // 2. Get user's household
-    // Get user's household context with security validation
+    // Get user's household context and check their permission
     let householdId: string;
     try {
-      householdId = await getHouseholdContext(session);
+      ({ householdId } = await requireHouseholdPermission(session, 'locations:manage'));
     } catch (error) {
       return handleHouseholdContextError(error);
     }
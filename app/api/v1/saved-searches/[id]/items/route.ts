@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { savedSearchService } from '@/lib/services';
+import {
+  validateSavedSearchItemsQuery,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/saved-searches/{id}/items - Items a saved search matches now
+ *
+ * The search is run again on every request, so the items follow edits to
+ * the inventory. Results have the shape of GET /api/v1/search, with
+ * locations, photos and tags included and `totalCount` covering every
+ * match. Query takes `limit` (default 20, at most 100), and `cursor` (the
+ * previous page's `nextCursor`) or `offset`.
+ *
+ * @route GET /api/v1/saved-searches/{id}/items
+ * @access Private (requires authentication)
+ * @param request - Next.js request object with paging parameters
+ * @param context - Route context with saved search ID
+ * @returns Promise<Response> JSON response with the page of items and facets
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid paging parameters
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {404} Not Found - Saved search not found, or personal to another member
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and household context
+    const { id: savedSearchId } = await context.params;
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Extract and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedParams = validateSavedSearchItemsQuery({
+      limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : undefined,
+      offset: searchParams.get('offset') ? Number(searchParams.get('offset')) : undefined,
+      cursor: searchParams.get('cursor') || undefined,
+    });
+
+    // 4. Run the saved search
+    const results = await savedSearchService.getSavedSearchItems(
+      savedSearchId,
+      householdId,
+      session.user.id,
+      validatedParams
+    );
+
+    // 5. Return results
+    return Response.json(createSuccessResponse(results));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`GET /api/v1/saved-searches/${resolvedParams.id}/items error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('SAVED_SEARCH_NOT_FOUND', 'Saved search not found'),
+          { status: 404 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to load saved search items'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,227 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { savedSearchService } from '@/lib/services';
+import {
+  validateUpdateSavedSearch,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * Response for errors the saved search endpoints share, or null for others
+ */
+function savedSearchErrorResponse(error: unknown): Response | null {
+  if (!(error instanceof Error)) return null;
+
+  if (error.message.includes('not found') || error.message.includes('access denied')) {
+    return Response.json(
+      createErrorResponse('SAVED_SEARCH_NOT_FOUND', 'Saved search not found'),
+      { status: 404 }
+    );
+  }
+
+  if (error.message.includes('Only the member')) {
+    return Response.json(
+      createErrorResponse('FORBIDDEN', error.message),
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/v1/saved-searches/{id} - Get a saved search
+ *
+ * @route GET /api/v1/saved-searches/{id}
+ * @access Private (requires authentication)
+ * @param request - Next.js request object
+ * @param context - Route context with saved search ID
+ * @returns Promise<Response> JSON response with the saved search
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {404} Not Found - Saved search not found, or personal to another member
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and household context
+    const { id: savedSearchId } = await context.params;
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get the saved search
+    const savedSearch = await savedSearchService.getSavedSearch(savedSearchId, householdId, session.user.id);
+
+    // 4. Return saved search
+    return Response.json(createSuccessResponse(savedSearch));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`GET /api/v1/saved-searches/${resolvedParams.id} error:`, error);
+
+    return savedSearchErrorResponse(error) ?? Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve saved search'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/saved-searches/{id} - Rename, share or change a saved search
+ *
+ * Takes any of the fields of POST /api/v1/saved-searches; `filters`
+ * replaces the saved filters.
+ *
+ * @route PATCH /api/v1/saved-searches/{id}
+ * @access Private (member who saved the search)
+ * @param request - Next.js request object with the changes
+ * @param context - Route context with saved search ID
+ * @returns Promise<Response> JSON response with the updated saved search
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid changes, or neither text nor filters left
+ * @throws {403} Forbidden - Another member saved the search
+ * @throws {404} Not Found - Saved search not found
+ * @throws {409} Conflict - Another saved search already has the name
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: savedSearchId } = await context.params;
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateUpdateSavedSearch(body);
+
+    // 3. Update the saved search
+    const savedSearch = await savedSearchService.updateSavedSearch(
+      savedSearchId,
+      householdId,
+      session.user.id,
+      validatedData
+    );
+
+    // 4. Return updated saved search
+    return Response.json(createSuccessResponse(savedSearch));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`PATCH /api/v1/saved-searches/${resolvedParams.id} error:`, error);
+
+    const response = savedSearchErrorResponse(error);
+    if (response) return response;
+
+    if (error instanceof Error) {
+      if (error.message.includes('already exists')) {
+        return Response.json(
+          createErrorResponse('SAVED_SEARCH_EXISTS', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to update saved search'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/saved-searches/{id} - Delete a saved search
+ *
+ * @route DELETE /api/v1/saved-searches/{id}
+ * @access Private (member who saved the search)
+ * @param request - Next.js request object
+ * @param context - Route context with saved search ID
+ * @returns Promise<Response> JSON response confirming deletion
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Another member saved the search
+ * @throws {404} Not Found - Saved search not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and household context
+    const { id: savedSearchId } = await context.params;
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Delete the saved search
+    await savedSearchService.deleteSavedSearch(savedSearchId, householdId, session.user.id);
+
+    // 4. Return success
+    return Response.json(
+      createSuccessResponse({ message: 'Saved search deleted successfully' })
+    );
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`DELETE /api/v1/saved-searches/${resolvedParams.id} error:`, error);
+
+    return savedSearchErrorResponse(error) ?? Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to delete saved search'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { savedSearchService } from '@/lib/services';
+import {
+  validateCreateSavedSearch,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { getHouseholdContext, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/saved-searches - Saved searches the member can see, by name
+ *
+ * Lists the member's personal searches and those shared with the household.
+ *
+ * @route GET /api/v1/saved-searches
+ * @access Private (requires authentication)
+ * @param request - Next.js request object
+ * @returns Promise<Response> JSON response with the saved searches
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get the saved searches
+    const savedSearches = await savedSearchService.listSavedSearches(householdId, session.user.id);
+
+    // 4. Return saved searches
+    return Response.json(createSuccessResponse(savedSearches));
+
+  } catch (error) {
+    console.error('GET /api/v1/saved-searches error:', error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve saved searches'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/saved-searches - Save a search
+ *
+ * Body takes `name`, the search text as `query` and/or `filters` (as for
+ * POST /api/v1/search), optionally `sortBy` and `sortOrder`, and
+ * `visibility`: "PERSONAL" (default) or "HOUSEHOLD" to share it.
+ *
+ * @route POST /api/v1/saved-searches
+ * @access Private (requires authentication)
+ * @param request - Next.js request object with the saved search
+ * @returns Promise<Response> JSON response with the saved search
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid saved search, or neither text nor filters
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {409} Conflict - A saved search with the name already exists
+ * @throws {500} Internal Server Error - Unexpected server error
+ *
+ * @example Request body
+ * ```json
+ * {
+ *   "name": "Items worth > $500 without photos",
+ *   "filters": { "valueRange": { "min": 500 }, "hasPhotos": false },
+ *   "sortBy": "value",
+ *   "sortOrder": "desc",
+ *   "visibility": "HOUSEHOLD"
+ * }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context and validate request body
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateCreateSavedSearch(body);
+
+    // 3. Save the search
+    const savedSearch = await savedSearchService.createSavedSearch(householdId, session.user.id, validatedData);
+
+    // 4. Return saved search
+    return Response.json(createSuccessResponse(savedSearch), { status: 201 });
+
+  } catch (error) {
+    console.error('POST /api/v1/saved-searches error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('already exists')) {
+        return Response.json(
+          createErrorResponse('SAVED_SEARCH_EXISTS', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to save search'),
+      { status: 500 }
+    );
+  }
+}
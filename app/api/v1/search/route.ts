@@ -13,7 +13,7 @@ import { NextRequest } from 'next/server';
 import { auth } from '@/lib/auth/config';
 import { searchService } from '@/lib/services/search';
 import { 
-  validateSearchQuery,
+  validateAdvancedSearchQuery,
   transformSearchParams,
   validateSearchRateLimit,
   createSuccessResponse,
@@ -50,7 +50,16 @@ import { SearchError, SearchValidationError } from '@/lib/services/search';
  *     "totalCount": 5,
  *     "responseTime": 85,
  *     "searchMethod": "full_text_search",
- *     "hasMore": false
+ *     "hasMore": false,
+ *     "nextCursor": null,
+ *     "facets": {
+ *       "statuses": [{ "value": "AVAILABLE", "label": "Available", "count": 4 }, ...],
+ *       "tags": [{ "value": "tag-uuid", "label": "Tools", "count": 3, "color": "#3B82F6" }, ...],
+ *       "locations": [{ "value": "location-uuid", "label": "Garage", "count": 5 }, ...]
+ *     },
+ *     "locations": [
+ *       { "id": "location-uuid", "name": "Garage", "path": "House → Garage", "pathComponents": [...], "itemCount": 12, "relevanceScore": 1 }
+ *     ]
  *   },
  *   "meta": {
  *     "timestamp": "2025-01-09T...",
@@ -63,6 +72,32 @@ import { SearchError, SearchValidationError } from '@/lib/services/search';
  * ```
  * GET /api/v1/search?q=cordless+drill&limit=20&offset=10&includeLocation=true&includePhotos=true&includeTags=true
  * ```
+ * 
+ * @example Items in a place
+ * ```
+ * GET /api/v1/search?q=blue+box+in+attic&includeLocation=true
+ * ```
+ * Matches items named like "blue box" whose location path contains "attic",
+ * as well as items matching the whole text. Each item's location carries
+ * `pathComponents` from the top level down, answering where it is.
+ * 
+ * @example Next page of results
+ * ```
+ * GET /api/v1/search?q=cordless+drill&limit=20&cursor=<nextCursor of the previous page>
+ * ```
+ * `totalCount` counts every match. Paging by cursor stays in place when
+ * items are added, edited or deleted between requests; a cursor only works
+ * with the sort order it was issued for.
+ * 
+ * @example Search within a category and its subcategories
+ * ```
+ * GET /api/v1/search?q=sony&categoryId=990e8400-e29b-41d4-a716-446655440012
+ * ```
+ * 
+ * @example Search with the filters and sort order of the search page URL
+ * ```
+ * GET /api/v1/search?q=drill&locations=location-uuid&tags=tag-uuid-1,tag-uuid-2&statuses=AVAILABLE&sort=value&sortDir=desc
+ * ```
  */
 export async function GET(request: NextRequest): Promise<Response> {
   const startTime = Date.now();
@@ -103,7 +138,7 @@ export async function GET(request: NextRequest): Promise<Response> {
     const searchData = transformSearchParams(searchParams);
     
     // Validate search query parameters
-    const validatedQuery = validateSearchQuery(searchData);
+    const validatedQuery = validateAdvancedSearchQuery(searchData);
 
     // 5. Execute search using the search service
     const searchResults = await searchService.searchItems(userId, validatedQuery);
@@ -199,7 +234,8 @@ export async function GET(request: NextRequest): Promise<Response> {
  * 
  * Provides advanced search functionality with complex filtering, sorting,
  * and search configuration options. Supports more sophisticated search
- * queries that cannot be easily expressed via URL parameters.
+ * queries that cannot be easily expressed via URL parameters, such as
+ * value, date and quantity ranges. Location filters include sublocations.
  * 
  * @param request - Next.js request object with advanced search data in body
  * @returns Promise<Response> JSON response with search results
@@ -258,7 +294,7 @@ export async function POST(request: NextRequest): Promise<Response> {
 
     // 4. Parse and validate request body
     const body = await request.json();
-    const validatedQuery = validateSearchQuery(body); // Note: Could extend to validateAdvancedSearchQuery
+    const validatedQuery = validateAdvancedSearchQuery(body);
 
     // 5. Execute advanced search
     const searchResults = await searchService.searchItems(userId, validatedQuery);
@@ -312,6 +348,14 @@ export async function POST(request: NextRequest): Promise<Response> {
       }
     }
 
+    // Invalid filters or sort options
+    if (error instanceof Error) {
+      const validationError = handleValidationError(error);
+      if (validationError.error === 'VALIDATION_ERROR') {
+        return Response.json(validationError, { status: 400 });
+      }
+    }
+
     return Response.json(
       createErrorResponse('INTERNAL_ERROR', 'Advanced search failed'),
       { status: 500 }
@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { tagService } from '@/lib/services';
+import {
+  validateMergeTags,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * POST /api/v1/tags/{id}/merge - Merge a tag into another
+ *
+ * Every item tagged with {id} is tagged with `targetTagId` instead, and
+ * tag {id} is deleted.
+ *
+ * @route POST /api/v1/tags/{id}/merge
+ * @access Private (requires tags:manage permission)
+ * @param request - Next.js request object with `targetTagId`
+ * @param context - Route context with the ID of the tag to merge away
+ * @returns Promise<Response> JSON response with the target tag and its new
+ *   usage count
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid target or a merge into itself
+ * @throws {403} Forbidden - Household role lacks the tags:manage permission
+ * @throws {404} Not Found - Either tag not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: tagId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'tags:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const { targetTagId } = validateMergeTags(body);
+
+    // 3. Merge the tags
+    const tag = await tagService.mergeTags(tagId, householdId, targetTagId);
+
+    // 4. Return the remaining tag
+    return Response.json(createSuccessResponse(tag));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`POST /api/v1/tags/${resolvedParams.id}/merge error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('TAG_NOT_FOUND', 'Tag not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('into itself')) {
+        return Response.json(
+          createErrorResponse('INVALID_MERGE', error.message),
+          { status: 400 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to merge tags'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { tagService } from '@/lib/services';
+import {
+  validateUpdateTag,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import { requireHouseholdPermission, handleHouseholdContextError } from '@/lib/utils/household-context';
+
+/**
+ * PATCH /api/v1/tags/{id} - Rename or recolor a tag
+ *
+ * @route PATCH /api/v1/tags/{id}
+ * @access Private (requires tags:manage permission)
+ * @param request - Next.js request object with `name` and/or `color`
+ * @param context - Route context with tag ID
+ * @returns Promise<Response> JSON response with the updated tag
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid changes
+ * @throws {403} Forbidden - Household role lacks the tags:manage permission
+ * @throws {404} Not Found - Tag not found
+ * @throws {409} Conflict - Another tag already has the name
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: tagId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'tags:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateUpdateTag(body);
+
+    // 3. Update the tag
+    const tag = await tagService.updateTag(tagId, householdId, validatedData);
+
+    // 4. Return updated tag
+    return Response.json(createSuccessResponse(tag));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`PATCH /api/v1/tags/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('TAG_NOT_FOUND', 'Tag not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('already exists')) {
+        return Response.json(
+          createErrorResponse('TAG_EXISTS', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to update tag'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/tags/{id} - Delete a tag
+ *
+ * The tag is taken off every item that carries it.
+ *
+ * @route DELETE /api/v1/tags/{id}
+ * @access Private (requires tags:manage permission)
+ * @param request - Next.js request object
+ * @param context - Route context with tag ID
+ * @returns Promise<Response> JSON response confirming deletion
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the tags:manage permission
+ * @throws {404} Not Found - Tag not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { id: tagId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'tags:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Delete the tag
+    await tagService.deleteTag(tagId, householdId);
+
+    // 4. Return success
+    return Response.json(
+      createSuccessResponse({ message: 'Tag deleted successfully' })
+    );
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`DELETE /api/v1/tags/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('TAG_NOT_FOUND', 'Tag not found'),
+          { status: 404 }
+        );
+      }
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to delete tag'),
+      { status: 500 }
+    );
+  }
+}
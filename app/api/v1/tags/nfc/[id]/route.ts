@@ -0,0 +1,242 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { nfcTagService } from '@/lib/services';
+import {
+  validateBindNfcTag,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/tags/nfc/{id} - Get a single NFC tag with its bound target
+ *
+ * @route GET /api/v1/tags/nfc/{id}
+ * @access Private (requires authentication)
+ * @param request - Next.js request object
+ * @param context - Route context with tag ID
+ * @returns Promise<Response> JSON response with tag data
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {404} Not Found - Tag not found
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { id: tagId } = await context.params;
+    // Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Get the tag
+    const tag = await nfcTagService.getTagById(tagId, householdId);
+
+    if (!tag) {
+      return Response.json(
+        createErrorResponse('TAG_NOT_FOUND', 'Tag not found'),
+        { status: 404 }
+      );
+    }
+
+    // 4. Return tag data
+    return Response.json(createSuccessResponse(tag));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`GET /api/v1/tags/nfc/${resolvedParams.id} error:`, error);
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve tag'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/tags/nfc/{id} - Bind, rebind or relabel a tag
+ *
+ * @route PATCH /api/v1/tags/nfc/{id}
+ * @access Private (requires tags:manage permission)
+ * @param request - Next.js request object with binding data
+ * @param context - Route context with tag ID
+ * @returns Promise<Response> JSON response with updated tag data
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the tags:manage permission
+ * @throws {400} Bad Request - Invalid binding data
+ * @throws {404} Not Found - Tag, item or location not found
+ * @throws {409} Conflict - Tag is retired
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters and validate request body
+    const { id: tagId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'tags:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateBindNfcTag(body);
+
+    // 3. Bind the tag
+    const tag = await nfcTagService.bindTag(
+      session.user.id,
+      tagId,
+      householdId,
+      validatedData
+    );
+
+    // 4. Return updated tag
+    return Response.json(createSuccessResponse(tag));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`PATCH /api/v1/tags/nfc/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Tag not found')) {
+        return Response.json(
+          createErrorResponse('TAG_NOT_FOUND', 'Tag not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('not found')) {
+        return Response.json(
+          createErrorResponse('TARGET_NOT_FOUND', error.message),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('retired')) {
+        return Response.json(
+          createErrorResponse('TAG_RETIRED', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to bind tag'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/tags/nfc/{id} - Retire a tag
+ *
+ * Tags are never hard-deleted; retiring keeps the UID on record but stops it resolving.
+ *
+ * @route DELETE /api/v1/tags/nfc/{id}
+ * @access Private (requires tags:manage permission)
+ * @param request - Next.js request object
+ * @param context - Route context with tag ID
+ * @returns Promise<Response> JSON response with the retired tag
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the tags:manage permission
+ * @throws {404} Not Found - Tag not found
+ * @throws {409} Conflict - Tag is already retired
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get parameters
+    const { id: tagId } = await context.params;
+    // Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'tags:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Retire the tag
+    const tag = await nfcTagService.retireTag(session.user.id, tagId, householdId);
+
+    // 4. Return success response
+    return Response.json(createSuccessResponse(tag));
+
+  } catch (error) {
+    const resolvedParams = await context.params;
+    console.error(`DELETE /api/v1/tags/nfc/${resolvedParams.id} error:`, error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return Response.json(
+          createErrorResponse('TAG_NOT_FOUND', 'Tag not found'),
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('already retired')) {
+        return Response.json(
+          createErrorResponse('TAG_RETIRED', error.message),
+          { status: 409 }
+        );
+      }
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retire tag'),
+      { status: 500 }
+    );
+  }
+}
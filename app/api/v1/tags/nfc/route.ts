@@ -0,0 +1,163 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { nfcTagService } from '@/lib/services';
+import {
+  validateRegisterNfcTag,
+  validateSearchNfcTags,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/tags/nfc - List NFC tags registered in the household
+ *
+ * @route GET /api/v1/tags/nfc
+ * @access Private (requires authentication)
+ * @param request - Next.js request object with query parameters
+ * @returns Promise<Response> JSON response with tags array
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid query parameters
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Extract and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const searchData = {
+      uid: searchParams.get('uid') || undefined,
+      status: searchParams.get('status') || undefined,
+      itemId: searchParams.get('itemId') || undefined,
+      locationId: searchParams.get('locationId') || undefined,
+      unbound: searchParams.get('unbound') ? searchParams.get('unbound') === 'true' : undefined,
+    };
+
+    const validatedSearchParams = validateSearchNfcTags(searchData);
+
+    // 4. List tags
+    const tags = await nfcTagService.listTags(householdId, validatedSearchParams);
+
+    // 5. Return response
+    return Response.json(createSuccessResponse(tags));
+
+  } catch (error) {
+    console.error('GET /api/v1/tags/nfc error:', error);
+
+    if (error instanceof Error) {
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'An unexpected error occurred'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/tags/nfc - Register a new NFC tag
+ *
+ * @route POST /api/v1/tags/nfc
+ * @access Private (requires tags:manage permission)
+ * @param request - Next.js request object with tag UID and optional binding in body
+ * @returns Promise<Response> JSON response with registered tag data
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {403} Forbidden - Household role lacks the tags:manage permission
+ * @throws {400} Bad Request - Invalid tag data
+ * @throws {404} Not Found - Item or location to bind not found
+ * @throws {409} Conflict - Tag already registered in this household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context and check their permission
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'tags:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Parse and validate request body
+    const body = await request.json();
+    const validatedData = validateRegisterNfcTag(body);
+
+    // 4. Register the tag
+    const tag = await nfcTagService.registerTag(
+      session.user.id,
+      householdId,
+      validatedData
+    );
+
+    // 5. Return success response
+    return Response.json(
+      createSuccessResponse(tag),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('POST /api/v1/tags/nfc error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('already registered')) {
+        return Response.json(
+          createErrorResponse('TAG_ALREADY_REGISTERED', error.message),
+          { status: 409 }
+        );
+      }
+
+      if (error.message.includes('not found')) {
+        return Response.json(
+          createErrorResponse('TARGET_NOT_FOUND', error.message),
+          { status: 404 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to register tag'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { tagService } from '@/lib/services';
+import {
+  validateCreateTag,
+  validateSearchTags,
+  createSuccessResponse,
+  createErrorResponse,
+  handleValidationError,
+} from '@/lib/validation';
+import {
+  getHouseholdContext,
+  requireHouseholdPermission,
+  handleHouseholdContextError,
+} from '@/lib/utils/household-context';
+
+/**
+ * GET /api/v1/tags - Tags of the current household, most used first
+ *
+ * Query takes `q` to match part of a tag name (for autocomplete) and
+ * `limit` (default 100, at most 500).
+ *
+ * @route GET /api/v1/tags
+ * @access Private (requires authentication)
+ * @param request - Next.js request object with query parameters
+ * @returns Promise<Response> JSON response with tags ordered by usage count
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid query parameters
+ * @throws {403} Forbidden - User lacks permission to access the household
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context with security validation
+    let householdId: string;
+    try {
+      householdId = await getHouseholdContext(session);
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    // 3. Extract and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedParams = validateSearchTags({
+      query: searchParams.get('q') || undefined,
+      limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : undefined,
+    });
+
+    // 4. Get the tags
+    const tags = await tagService.listTags(householdId, validatedParams);
+
+    // 5. Return tags
+    return Response.json(createSuccessResponse(tags));
+
+  } catch (error) {
+    console.error('GET /api/v1/tags error:', error);
+
+    if (error instanceof Error) {
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to retrieve tags'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/tags - Add a tag
+ *
+ * Body takes `name` and optionally `color` (hex, e.g. "#3B82F6").
+ *
+ * @route POST /api/v1/tags
+ * @access Private (requires tags:manage permission)
+ * @param request - Next.js request object with the tag details
+ * @returns Promise<Response> JSON response with the created tag
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - Invalid tag details
+ * @throws {403} Forbidden - Household role lacks the tags:manage permission
+ * @throws {409} Conflict - A tag with the name already exists
+ * @throws {500} Internal Server Error - Unexpected server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return Response.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // 2. Get user's household context and validate request body
+    let householdId: string;
+    try {
+      ({ householdId } = await requireHouseholdPermission(session, 'tags:manage'));
+    } catch (error) {
+      return handleHouseholdContextError(error);
+    }
+
+    const body = await request.json();
+    const validatedData = validateCreateTag(body);
+
+    // 3. Create the tag
+    const tag = await tagService.createTag(householdId, validatedData);
+
+    // 4. Return tag
+    return Response.json(createSuccessResponse(tag), { status: 201 });
+
+  } catch (error) {
+    console.error('POST /api/v1/tags error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('already exists')) {
+        return Response.json(
+          createErrorResponse('TAG_EXISTS', error.message),
+          { status: 409 }
+        );
+      }
+
+      const validationError = handleValidationError(error);
+      return Response.json(validationError, {
+        status: validationError.error === 'VALIDATION_ERROR' ? 400 : 500
+      });
+    }
+
+    return Response.json(
+      createErrorResponse('INTERNAL_ERROR', 'Failed to create tag'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Barcode decoding API endpoint
+ * Decodes QR codes and EAN/UPC barcodes from camera frames for continuous scanning
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { barcodeScanService } from '@/lib/services/barcode-scanning';
+import { createSuccessResponse, createErrorResponse } from '@/lib/validation';
+import { barcodeDecodeRateLimit } from '@/lib/middleware/rate-limiting';
+
+/**
+ * Largest frame accepted (frames are downscaled client-side first)
+ */
+const MAX_FRAME_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Decode a single camera frame
+ * POST /api/v1/utils/decode-barcode
+ *
+ * @returns `{ data: { format, text } }`, or `{ data: null }` when the frame has no readable code
+ *
+ * @throws {401} Unauthorized - Missing or invalid authentication token
+ * @throws {400} Bad Request - No frame or not an image
+ * @throws {413} Payload Too Large - Frame exceeds 5MB
+ * @throws {429} Too Many Requests - Rate limit exceeded
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Rate limiting check
+    const rateLimitResponse = await barcodeDecodeRateLimit(request);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    // Authentication check
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        createErrorResponse('UNAUTHORIZED', 'Authentication required'),
+        { status: 401 }
+      );
+    }
+
+    // Parse form data
+    const formData = await request.formData();
+    const frame = formData.get('frame');
+
+    if (!(frame instanceof File) || !frame.type.startsWith('image/')) {
+      return NextResponse.json(
+        createErrorResponse('INVALID_FRAME', 'An image frame is required'),
+        { status: 400 }
+      );
+    }
+
+    if (frame.size > MAX_FRAME_BYTES) {
+      return NextResponse.json(
+        createErrorResponse('FRAME_TOO_LARGE', 'Frame must be 5MB or smaller'),
+        { status: 413 }
+      );
+    }
+
+    // Decode on the worker pool
+    const buffer = Buffer.from(await frame.arrayBuffer());
+    const decoded = await barcodeScanService.decodeFrame(buffer);
+
+    return NextResponse.json(createSuccessResponse(decoded), {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    console.error('❌ Barcode decoding failed:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('unsupported image format')) {
+        return NextResponse.json(
+          createErrorResponse('INVALID_FRAME', 'Frame is not a supported image'),
+          { status: 400 }
+        );
+      }
+
+      if (error.message.includes('Task timeout')) {
+        return NextResponse.json(
+          createErrorResponse('DECODE_TIMEOUT', 'Frame took too long to decode'),
+          { status: 503 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'Barcode decoding failed'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Household Invitation Page
+ *
+ * Target of the link in household invitation emails. Shows who sent the
+ * invitation and lets the signed-in invitee accept or decline it. The
+ * invitation only works for the email address it was sent to.
+ *
+ * @page /invite/[token]
+ */
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth/config';
+import { householdService } from '@/lib/services';
+import { InvitationResponse } from '@/components/households';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export default async function InvitationPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const invitationPath = `/invite/${encodeURIComponent(token)}`;
+
+  // 1. Authentication - come back here after signing in
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect(`/login?callbackUrl=${encodeURIComponent(invitationPath)}`);
+  }
+
+  // 2. Resolve the invitation
+  const invitation = await householdService.getInvitation(token);
+  const isForThisUser = Boolean(
+    invitation && session.user.email?.toLowerCase() === invitation.email.toLowerCase()
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {invitation && isForThisUser ? (
+          <InvitationResponse
+            token={token}
+            householdId={invitation.household.id}
+            householdName={invitation.household.name}
+            role={invitation.role}
+            inviterName={invitation.inviter?.name || invitation.inviter?.email || null}
+          />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invitation unavailable</CardTitle>
+              <CardDescription>
+                {invitation
+                  ? `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`
+                  : 'This invitation link is invalid, has expired or has already been used.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/dashboard" className="text-sm text-primary hover:underline">
+                Go to dashboard
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Page metadata
+ */
+export const metadata = {
+  title: 'Household Invitation - Digital Inventory Manager',
+};
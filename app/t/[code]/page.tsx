@@ -0,0 +1,68 @@
+/**
+ * Tag Resolver Page
+ *
+ * Target of the NDEF URL record written to NFC tags (and QR labels).
+ * Resolves the scanned code within the signed-in user's household and
+ * redirects to the bound item or location. Unknown codes open the
+ * claim flow so the tag can be bound on the spot.
+ *
+ * @page /t/[code]
+ */
+
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth/config';
+import { nfcTagService } from '@/lib/services';
+import { getHouseholdContext } from '@/lib/utils/household-context';
+import { buildItemDetailUrl, buildLocationUrl } from '@/lib/utils/url-state';
+import { ClaimTagFlow } from '@/components/nfc';
+
+export default async function TagResolverPage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+  const resolverPath = `/t/${encodeURIComponent(code)}`;
+
+  // 1. Authentication - come back here after signing in
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect(`/login?callbackUrl=${encodeURIComponent(resolverPath)}`);
+  }
+
+  // 2. Household context - a tag only resolves inside its own household
+  let householdId: string;
+  try {
+    householdId = await getHouseholdContext(session);
+  } catch {
+    redirect(`/login?callbackUrl=${encodeURIComponent(resolverPath)}`);
+  }
+
+  // 3. Resolve the code and record the scan
+  const tag = await nfcTagService.recordScan(householdId, code);
+
+  // 4. Redirect to the bound target
+  if (tag?.itemId) {
+    redirect(buildItemDetailUrl(tag.itemId, {}));
+  }
+
+  if (tag?.locationId) {
+    redirect(buildLocationUrl(tag.locationId, {}));
+  }
+
+  // 5. Unknown or unbound tag - offer to claim it
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <ClaimTagFlow code={code} tagId={tag?.id} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Page metadata
+ */
+export const metadata = {
+  title: 'Scan Tag - Digital Inventory Manager',
+};
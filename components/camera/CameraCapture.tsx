@@ -14,7 +14,8 @@ import {
   CheckCircle,
   Loader2,
   Smartphone,
-  Monitor
+  Monitor,
+  ScanLine
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
@@ -27,6 +28,8 @@ import {
 } from '@/lib/utils/pwa';
 import { validateHEICFile, convertHEICToJPEG } from '@/lib/utils/heic-support';
 import { validatePhotoUpload } from '@/lib/validation';
+import { startFrameScanner } from '@/lib/utils/barcode';
+import type { ScannedCode } from '@/lib/types/barcodes';
 
 /**
  * Camera capture state interface
@@ -69,7 +72,9 @@ interface CapturedPhoto {
  */
 interface CameraCaptureProps {
   onPhotoCapture?: (photo: CapturedPhoto) => void;
+  onCodeScanned?: (code: ScannedCode) => void;
   onError?: (error: string) => void;
+  mode?: 'photo' | 'scan';
   disabled?: boolean;
   className?: string;
   preferredFacingMode?: 'user' | 'environment';
@@ -85,10 +90,16 @@ interface CameraCaptureProps {
  * Implements comprehensive Safari compatibility with iOS-specific workarounds,
  * multi-device support, and HEIC conversion for seamless photo capture
  * across all browsers and devices.
+ *
+ * In scan mode the stream is continuously decoded for QR codes and EAN/UPC
+ * barcodes (on the server's barcode worker pool) and each new code is passed
+ * to onCodeScanned. When both callbacks are provided the user can switch modes.
  */
 export function CameraCapture({
   onPhotoCapture,
+  onCodeScanned,
   onError,
+  mode = 'photo',
   disabled = false,
   className,
   preferredFacingMode = 'environment',
@@ -119,11 +130,17 @@ export function CameraCapture({
 
   const [capturedPhoto, setCapturedPhoto] = useState<CapturedPhoto | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [activeMode, setActiveMode] = useState<'photo' | 'scan'>(mode);
+  const [lastScannedCode, setLastScannedCode] = useState<ScannedCode | null>(null);
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const onCodeScannedRef = useRef(onCodeScanned);
+  onCodeScannedRef.current = onCodeScanned;
+
+  const canSwitchMode = !!onPhotoCapture && !!onCodeScanned;
 
   /**
    * Initialize camera functionality
@@ -440,6 +457,28 @@ export function CameraCapture({
     };
   }, [initializeCamera, stopCamera]);
 
+  /**
+   * Continuously decode codes while scan mode is active
+   */
+  useEffect(() => {
+    if (activeMode !== 'scan' || !cameraState.isActive || !videoRef.current) return;
+
+    const stopScanner = startFrameScanner(
+      videoRef.current,
+      (code) => {
+        setLastScannedCode(code);
+        onCodeScannedRef.current?.(code);
+        console.log('🔍 Code scanned:', { kind: code.kind, format: code.decoded.format });
+      },
+      {
+        onError: (error) => console.warn('⚠️ Frame decode failed:', error),
+      }
+    );
+
+    console.log('🔍 Code scanning started');
+    return stopScanner;
+  }, [activeMode, cameraState.isActive]);
+
   /**
    * Handle window focus/blur for battery optimization
    */
@@ -530,6 +569,21 @@ export function CameraCapture({
                   muted
                 />
 
+                {/* Scan overlay */}
+                {activeMode === 'scan' && (
+                  <div className="absolute inset-0 pointer-events-none flex flex-col items-center justify-center">
+                    <div className="w-3/4 h-1/2 rounded-lg border-2 border-white/70 relative overflow-hidden">
+                      <div className="absolute inset-x-0 top-1/2 h-0.5 bg-red-500/80 animate-pulse" />
+                    </div>
+                    <Badge
+                      variant="secondary"
+                      className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-black/50 text-white text-xs max-w-[90%] truncate"
+                    >
+                      {lastScannedCode ? describeScannedCode(lastScannedCode) : 'Point at a QR code or barcode'}
+                    </Badge>
+                  </div>
+                )}
+
                 {/* Camera overlay */}
                 <div className="absolute inset-0 pointer-events-none">
                   {/* Corner guides */}
@@ -590,7 +644,12 @@ export function CameraCapture({
             )}
 
             {/* Main action button */}
-            {cameraState.isActive ? (
+            {cameraState.isActive && activeMode === 'scan' ? (
+              <Badge variant="outline" className="h-10 px-4">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Scanning...
+              </Badge>
+            ) : cameraState.isActive ? (
               <Button
                 onClick={capturePhoto}
                 disabled={disabled || isProcessing}
@@ -618,6 +677,19 @@ export function CameraCapture({
               </Button>
             )}
 
+            {/* Photo/scan mode toggle */}
+            {canSwitchMode && (
+              <Button
+                onClick={() => setActiveMode(prev => (prev === 'scan' ? 'photo' : 'scan'))}
+                variant={activeMode === 'scan' ? 'default' : 'outline'}
+                size="icon"
+                disabled={disabled}
+                aria-label={activeMode === 'scan' ? 'Switch to photo mode' : 'Switch to scan mode'}
+              >
+                {activeMode === 'scan' ? <Camera className="h-4 w-4" /> : <ScanLine className="h-4 w-4" />}
+              </Button>
+            )}
+
             {/* Stop camera button */}
             {cameraState.isActive && (
               <Button
@@ -678,6 +750,20 @@ function isSafariIOS(): boolean {
   return /iPad|iPhone|iPod/.test(userAgent) && /Safari/.test(userAgent);
 }
 
+/**
+ * Short description of a scanned code for the viewport badge
+ */
+function describeScannedCode(code: ScannedCode): string {
+  switch (code.kind) {
+    case 'house-label':
+      return `Label ${code.code}`;
+    case 'retail':
+      return `Barcode ${code.barcode}`;
+    default:
+      return 'Unrecognized code';
+  }
+}
+
 /**
  * Get camera facing mode from constraints
  */
@@ -0,0 +1,424 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Input,
+  Label,
+  Checkbox,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { Users, UserPlus, Mail, Copy, Check, X, Loader2, AlertCircle, LogOut, ShieldCheck } from 'lucide-react';
+import { useHouseholdMembers } from '@/lib/hooks/useHouseholdMembers';
+import {
+  HOUSEHOLD_PERMISSIONS,
+  ROLE_PERMISSIONS,
+  isHouseholdRole,
+  resolvePermissions,
+  type HouseholdPermission,
+} from '@/lib/utils/permissions';
+import type { HouseholdMemberEntry, HouseholdRoleName } from '@/lib/types/households';
+
+/**
+ * Household members panel props
+ */
+interface HouseholdMembersPanelProps {
+  className?: string;
+}
+
+/**
+ * Role options, most privileged first
+ */
+const ROLE_OPTIONS: Array<{ value: HouseholdRoleName; label: string }> = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'admin', label: 'Admin' },
+  { value: 'member', label: 'Member' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+/**
+ * Capability labels for the permissions editor
+ */
+const PERMISSION_LABELS: Record<HouseholdPermission, string> = {
+  'items:create': 'Add items',
+  'items:update': 'Edit items',
+  'items:delete': 'Delete items',
+  'items:lend': 'Lend items',
+  'photos:manage': 'Manage photos',
+  'locations:manage': 'Manage locations',
+  'tags:manage': 'Manage tags and NFC tags',
+  'fields:manage': 'Manage custom fields',
+  'categories:manage': 'Manage categories',
+  'exports:create': 'Export data',
+  'members:manage': 'Manage members',
+};
+
+/**
+ * Format a date for display
+ */
+const formatDate = (date: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  }).format(new Date(date));
+
+/**
+ * Per-member capability checkboxes; unticking a role default revokes it and
+ * ticking something outside the defaults grants it
+ */
+function MemberPermissionsEditor({
+  member,
+  disabled,
+  onChange,
+}: {
+  member: HouseholdMemberEntry;
+  disabled: boolean;
+  onChange: (permission: HouseholdPermission, granted: boolean | null) => void;
+}) {
+  const effective = resolvePermissions(member.role, member.permissions);
+  const defaults: readonly HouseholdPermission[] = isHouseholdRole(member.role) ? ROLE_PERMISSIONS[member.role] : [];
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 rounded-md border bg-muted/30 p-3">
+      {HOUSEHOLD_PERMISSIONS.map((permission) => {
+        const checked = effective.includes(permission);
+        const isOverride = member.permissions?.[permission] !== undefined;
+        const id = `permission-${member.id}-${permission}`;
+
+        return (
+          <div key={permission} className="flex items-center gap-2">
+            <Checkbox
+              id={id}
+              checked={checked}
+              disabled={disabled}
+              onCheckedChange={(value) => {
+                const granted = value === true;
+                // Back to the role default clears the override
+                onChange(permission, granted === defaults.includes(permission) ? null : granted);
+              }}
+            />
+            <Label htmlFor={id} className="text-xs font-normal">
+              {PERMISSION_LABELS[permission]}
+              {isOverride && <span className="text-muted-foreground"> (custom)</span>}
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * HouseholdMembersPanel - Invite people and manage household members
+ *
+ * Members with the members:manage permission (owners and admins by
+ * default) can invite by email, revoke pending invitations, change roles,
+ * adjust per-member permissions and remove members; only owners can grant
+ * or take away the owner role. Everyone else sees the member list and can
+ * leave.
+ *
+ * @component
+ * @category Household Components
+ * @since 1.11.0
+ */
+export function HouseholdMembersPanel({ className }: HouseholdMembersPanelProps) {
+  const { data: session } = useSession();
+  const {
+    members,
+    invitations,
+    isLoading,
+    isSubmitting,
+    error,
+    invite,
+    revokeInvitation,
+    changeRole,
+    setPermission,
+    removeMember,
+  } = useHouseholdMembers();
+
+  // Invite form state
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<HouseholdRoleName>('member');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [editingPermissionsFor, setEditingPermissionsFor] = useState<string | null>(null);
+
+  const currentMember = members.find((member) => member.userId === session?.user?.id);
+  const isOwner = currentMember?.role === 'owner';
+  const canManage = currentMember
+    ? resolvePermissions(currentMember.role, currentMember.permissions).includes('members:manage')
+    : false;
+
+  /**
+   * Submit the invite form
+   */
+  const handleInvite = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const url = await invite({ email: email.trim(), role });
+    if (url) {
+      setInviteUrl(url);
+      setCopied(false);
+      setEmail('');
+      setRole('member');
+    }
+  }, [invite, email, role]);
+
+  /**
+   * Copy the latest invitation link
+   */
+  const handleCopy = useCallback(async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+  }, [inviteUrl]);
+
+  /**
+   * Remove a member after confirmation
+   */
+  const handleRemove = useCallback(async (memberId: string, label: string, isSelf: boolean) => {
+    const message = isSelf
+      ? 'Leave this household? You will lose access to its inventory immediately.'
+      : `Remove ${label} from the household? They will lose access immediately.`;
+    if (!window.confirm(message)) return;
+
+    const removed = await removeMember(memberId);
+    if (removed && isSelf) {
+      window.location.assign('/dashboard');
+    }
+  }, [removeMember]);
+
+  return (
+    <div className={className}>
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive mb-4">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {/* Invite form */}
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="h-5 w-5" />
+                Invite Someone
+              </CardTitle>
+              <CardDescription>
+                Share the invitation link with the invitee; it expires after 7 days. The
+                invitee signs in with the invited address to accept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1 flex-1 min-w-[14rem]">
+                  <Label htmlFor="invite-email" className="text-xs">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="name@example.com"
+                    maxLength={255}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="invite-role" className="text-xs">Role</Label>
+                  <Select value={role} onValueChange={(value) => setRole(value as HouseholdRoleName)}>
+                    <SelectTrigger id="invite-role" className="w-36 h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLE_OPTIONS
+                        .filter((option) => isOwner || option.value !== 'owner')
+                        .map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" disabled={isSubmitting || !email.trim()} className="gap-2">
+                  {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                  Send Invitation
+                </Button>
+              </form>
+
+              {inviteUrl && (
+                <div className="flex items-center gap-2 rounded-md border bg-muted/50 p-2">
+                  <code className="flex-1 truncate text-xs">{inviteUrl}</code>
+                  <Button type="button" variant="ghost" size="sm" onClick={handleCopy} className="gap-1">
+                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    {copied ? 'Copied' : 'Copy link'}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Members
+              {members.length > 0 && (
+                <Badge variant="secondary" className="ml-1">{members.length}</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && members.length === 0 ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              <ul className="divide-y">
+                {members.map((member) => {
+                  const isSelf = member.userId === session?.user?.id;
+                  const label = member.user.name || member.user.email;
+                  // Owner roles are reserved for owners
+                  const canEdit = canManage && !isSelf && (isOwner || member.role !== 'owner');
+
+                  return (
+                    <li key={member.id} className="py-3 space-y-3">
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {label}
+                            {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {member.user.email} · Joined {formatDate(member.joinedAt)}
+                          </p>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          {canEdit ? (
+                            <Select
+                              value={member.role}
+                              onValueChange={(value) => changeRole(member.id, value as HouseholdRoleName)}
+                              disabled={isSubmitting}
+                            >
+                              <SelectTrigger className="w-32 h-9" aria-label={`Role for ${label}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ROLE_OPTIONS
+                                  .filter((option) => isOwner || option.value !== 'owner')
+                                  .map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant={member.role === 'owner' ? 'default' : 'outline'} className="capitalize">
+                              {member.role}
+                            </Badge>
+                          )}
+
+                          {canEdit && member.role !== 'owner' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingPermissionsFor(
+                                editingPermissionsFor === member.id ? null : member.id
+                              )}
+                              className="gap-1"
+                              aria-expanded={editingPermissionsFor === member.id}
+                            >
+                              <ShieldCheck className="h-4 w-4" />
+                              Permissions
+                            </Button>
+                          )}
+
+                          {(canEdit || isSelf) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRemove(member.id, label, isSelf)}
+                              disabled={isSubmitting}
+                              className="gap-1 text-destructive"
+                            >
+                              {isSelf ? <LogOut className="h-4 w-4" /> : <X className="h-4 w-4" />}
+                              {isSelf ? 'Leave' : 'Remove'}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+
+                      {editingPermissionsFor === member.id && canEdit && (
+                        <MemberPermissionsEditor
+                          member={member}
+                          disabled={isSubmitting}
+                          onChange={(permission, granted) => setPermission(member.id, permission, granted)}
+                        />
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pending invitations */}
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5" />
+                Pending Invitations
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y">
+                {invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{invitation.email}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        <span className="capitalize">{invitation.role}</span>
+                        {invitation.inviter && ` · Invited by ${invitation.inviter.name || invitation.inviter.email}`}
+                        {` · Expires ${formatDate(invitation.expires)}`}
+                      </p>
+                    </div>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeInvitation(invitation.id)}
+                        disabled={isSubmitting}
+                        className="gap-1"
+                      >
+                        <X className="h-4 w-4" />
+                        Revoke
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Home, Check, X, Loader2 } from 'lucide-react';
+
+/**
+ * InvitationResponse Component Props
+ */
+interface InvitationResponseProps {
+  /** Plain token from the invitation link */
+  token: string;
+  householdId: string;
+  householdName: string;
+  role: string;
+  inviterName: string | null;
+}
+
+/**
+ * InvitationResponse - Accept or decline a household invitation
+ *
+ * Shown by the /invite/[token] page to the signed-in invitee. Accepting
+ * joins the household and switches the session to it.
+ *
+ * @component
+ */
+export function InvitationResponse({
+  token,
+  householdId,
+  householdName,
+  role,
+  inviterName,
+}: InvitationResponseProps) {
+  const router = useRouter();
+  const { data: session, update } = useSession();
+  const [pendingAction, setPendingAction] = useState<'accept' | 'decline' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Accept or decline, then head to the dashboard
+   */
+  const respond = useCallback(async (action: 'accept' | 'decline') => {
+    setPendingAction(action);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/invitations/${encodeURIComponent(token)}`, {
+        method: action === 'accept' ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: action === 'accept' ? JSON.stringify({ makeDefault: true }) : undefined,
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload.message || `Failed to ${action} invitation`);
+      }
+
+      if (action === 'accept') {
+        // Switch the session to the household just joined
+        await update({
+          name: session?.user?.name,
+          email: session?.user?.email,
+          householdId,
+        });
+      }
+
+      router.push('/dashboard');
+      router.refresh();
+    } catch (err) {
+      console.error(`❌ Invitation ${action} failed:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} invitation`);
+      setPendingAction(null);
+    }
+  }, [token, householdId, session, update, router]);
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+          <Home className="h-6 w-6 text-primary" />
+        </div>
+        <CardTitle>Join {householdName}</CardTitle>
+        <CardDescription>
+          {inviterName ? `${inviterName} invited you` : 'You have been invited'} to join this
+          household as {role === 'admin' || role === 'owner' ? 'an' : 'a'} {role}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            className="flex-1 gap-2"
+            onClick={() => respond('accept')}
+            disabled={pendingAction !== null}
+          >
+            {pendingAction === 'accept' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+            Accept
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1 gap-2"
+            onClick={() => respond('decline')}
+            disabled={pendingAction !== null}
+          >
+            {pendingAction === 'decline' ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+            Decline
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
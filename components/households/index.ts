@@ -0,0 +1,7 @@
+/**
+ * Barrel exports for household components
+ * Provides clean imports for membership and invitation components
+ */
+
+export { HouseholdMembersPanel } from './HouseholdMembersPanel';
+export { InvitationResponse } from './InvitationResponse';
@@ -0,0 +1,338 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Input,
+  Label,
+  Checkbox,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { FolderTree, Plus, Pencil, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import type { DepreciationMethod } from '@prisma/client';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { useCustomFields } from '@/lib/hooks/useCustomFields';
+import { getCategorySubtreeIds } from '@/lib/utils/categories';
+import type { CategoryEntry } from '@/lib/types/categories';
+
+/**
+ * Categories panel props
+ */
+interface CategoriesPanelProps {
+  className?: string;
+}
+
+/**
+ * Select value for "no parent" / "no rule" (Select items cannot be empty)
+ */
+const NONE = 'none';
+
+/**
+ * Depreciation method options
+ */
+const DEPRECIATION_LABELS: Record<DepreciationMethod, string> = {
+  STRAIGHT_LINE: 'Straight line',
+  DECLINING_BALANCE: 'Declining balance',
+};
+
+/**
+ * Describe a category's own depreciation rule
+ */
+const describeRule = (category: CategoryEntry): string | null => {
+  switch (category.depreciationMethod) {
+    case 'STRAIGHT_LINE':
+      return `Straight line over ${category.usefulLifeYears} year${category.usefulLifeYears === 1 ? '' : 's'}`;
+    case 'DECLINING_BALANCE':
+      return `Declining balance at ${category.depreciationRate}% a year`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * CategoriesPanel - Manage the household's item category tree
+ *
+ * Lists categories as an indented tree and lets members with the
+ * categories:manage permission add, edit and delete them. Each category
+ * can set the custom fields its items are asked for and a depreciation
+ * rule; subcategories inherit both.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.15.0
+ */
+export function CategoriesPanel({ className }: CategoriesPanelProps) {
+  const { categories, isLoading, isSubmitting, error, createCategory, updateCategory, deleteCategory } = useCategories();
+  const { fields } = useCustomFields();
+
+  // Category form state; editingId is set when editing an existing category
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [parentId, setParentId] = useState<string>(NONE);
+  const [method, setMethod] = useState<DepreciationMethod | typeof NONE>(NONE);
+  const [usefulLifeYears, setUsefulLifeYears] = useState('');
+  const [depreciationRate, setDepreciationRate] = useState('');
+  const [customFieldIds, setCustomFieldIds] = useState<string[]>([]);
+
+  /**
+   * Clear the form back to "new category"
+   */
+  const resetForm = useCallback(() => {
+    setEditingId(null);
+    setName('');
+    setParentId(NONE);
+    setMethod(NONE);
+    setUsefulLifeYears('');
+    setDepreciationRate('');
+    setCustomFieldIds([]);
+  }, []);
+
+  /**
+   * Load a category into the form
+   */
+  const startEditing = useCallback((category: CategoryEntry) => {
+    setEditingId(category.id);
+    setName(category.name);
+    setParentId(category.parentId ?? NONE);
+    setMethod(category.depreciationMethod ?? NONE);
+    setUsefulLifeYears(category.usefulLifeYears?.toString() ?? '');
+    setDepreciationRate(category.depreciationRate?.toString() ?? '');
+    setCustomFieldIds(category.customFieldIds);
+  }, []);
+
+  /**
+   * Submit the category form
+   */
+  const handleSubmit = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const request = {
+      name: name.trim(),
+      parentId: parentId === NONE ? null : parentId,
+      depreciationMethod: method === NONE ? null : method,
+      usefulLifeYears: method === 'STRAIGHT_LINE' && usefulLifeYears ? Number(usefulLifeYears) : null,
+      depreciationRate: method === 'DECLINING_BALANCE' && depreciationRate ? Number(depreciationRate) : null,
+      customFieldIds,
+    };
+
+    const saved = editingId
+      ? await updateCategory(editingId, request)
+      : await createCategory(request);
+    if (saved) resetForm();
+  }, [name, parentId, method, usefulLifeYears, depreciationRate, customFieldIds, editingId, createCategory, updateCategory, resetForm]);
+
+  /**
+   * Delete a category after confirmation
+   */
+  const handleDelete = useCallback(async (category: CategoryEntry) => {
+    if (!window.confirm(`Delete "${category.path}"? Its items will have no category.`)) return;
+    if (await deleteCategory(category.id) && editingId === category.id) resetForm();
+  }, [deleteCategory, editingId, resetForm]);
+
+  // A category cannot be moved under itself or its subcategories
+  const excludedParentIds = editingId ? getCategorySubtreeIds(categories, editingId) : [];
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderTree className="h-5 w-5" />
+            Categories
+          </CardTitle>
+          <CardDescription>
+            Sort items into a tree such as Electronics › Audio › Headphones. Subcategories inherit default fields and depreciation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Category tree */}
+          <div className="space-y-2">
+            {isLoading && categories.length === 0 && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading categories...
+              </div>
+            )}
+            {!isLoading && categories.length === 0 && (
+              <p className="text-sm text-muted-foreground">No categories yet.</p>
+            )}
+
+            {categories.map((category) => (
+              <div
+                key={category.id}
+                className="flex items-start justify-between rounded-lg border p-3"
+                style={{ marginLeft: `${category.level * 1.5}rem` }}
+              >
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{category.name}</span>
+                    <Badge variant="outline">{category.itemCount} item{category.itemCount === 1 ? '' : 's'}</Badge>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {describeRule(category) ?? (category.parentId ? 'Inherits depreciation' : 'No depreciation')}
+                    {category.customFieldIds.length > 0
+                      && ` • ${category.customFieldIds.length} default field${category.customFieldIds.length === 1 ? '' : 's'}`}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSubmitting}
+                    onClick={() => startEditing(category)}
+                    aria-label={`Edit ${category.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSubmitting}
+                    onClick={() => handleDelete(category)}
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* New or edited category */}
+          <form onSubmit={handleSubmit} className="space-y-4 pt-4 border-t">
+            <h4 className="text-sm font-medium">{editingId ? 'Edit Category' : 'New Category'}</h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="category-name">Name</Label>
+                <Input
+                  id="category-name"
+                  value={name}
+                  maxLength={100}
+                  placeholder="Headphones"
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="category-parent">Parent</Label>
+                <Select value={parentId} onValueChange={setParentId}>
+                  <SelectTrigger id="category-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None (top level)</SelectItem>
+                    {categories
+                      .filter(category => !excludedParentIds.includes(category.id))
+                      .map(category => (
+                        <SelectItem key={category.id} value={category.id}>{category.path}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="category-depreciation">Depreciation</Label>
+                <Select value={method} onValueChange={(value: DepreciationMethod | typeof NONE) => setMethod(value)}>
+                  <SelectTrigger id="category-depreciation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None (inherit from parent)</SelectItem>
+                    {(Object.keys(DEPRECIATION_LABELS) as DepreciationMethod[]).map(value => (
+                      <SelectItem key={value} value={value}>{DEPRECIATION_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {method === 'STRAIGHT_LINE' && (
+                <div className="space-y-2">
+                  <Label htmlFor="category-useful-life">Useful life (years)</Label>
+                  <Input
+                    id="category-useful-life"
+                    type="number"
+                    min={1}
+                    max={100}
+                    step={1}
+                    value={usefulLifeYears}
+                    onChange={(e) => setUsefulLifeYears(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {method === 'DECLINING_BALANCE' && (
+                <div className="space-y-2">
+                  <Label htmlFor="category-rate">Yearly rate (%)</Label>
+                  <Input
+                    id="category-rate"
+                    type="number"
+                    min={0.01}
+                    max={100}
+                    step={0.01}
+                    value={depreciationRate}
+                    onChange={(e) => setDepreciationRate(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {fields.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium block">Default fields for items in this category</Label>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {fields.map((field) => (
+                    <div key={field.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`category-field-${field.id}`}
+                        checked={customFieldIds.includes(field.id)}
+                        onCheckedChange={(checked) =>
+                          setCustomFieldIds(prev => (checked ? [...prev, field.id] : prev.filter(id => id !== field.id)))
+                        }
+                      />
+                      <Label htmlFor={`category-field-${field.id}`} className="text-sm cursor-pointer">
+                        {field.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isSubmitting || !name.trim()}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                {editingId ? 'Save Category' : 'Add Category'}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { PieChart, Loader2, AlertCircle } from 'lucide-react';
+import type { CategoryBreakdownEntry } from '@/lib/types/categories';
+
+/**
+ * Category breakdown widget props
+ */
+interface CategoryBreakdownWidgetProps {
+  className?: string;
+}
+
+/**
+ * Format a value in whole dollars
+ */
+const formatCurrency = (value: number): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+
+/**
+ * CategoryBreakdownWidget - Dashboard summary of items per top-level category
+ *
+ * Shows each root category's item count and value, with subcategories
+ * rolled up, and the estimated value after depreciation when it differs.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.15.0
+ */
+export function CategoryBreakdownWidget({ className }: CategoryBreakdownWidgetProps) {
+  const [entries, setEntries] = useState<CategoryBreakdownEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the breakdown once on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBreakdown = async () => {
+      try {
+        const response = await fetch('/api/v1/categories/breakdown');
+        if (!response.ok) {
+          throw new Error(`Failed to load category breakdown: ${response.status} ${response.statusText}`);
+        }
+        const payload = await response.json();
+        if (!cancelled) setEntries(payload.data);
+      } catch (err) {
+        console.error('❌ Category breakdown failed to load:', err);
+        if (!cancelled) setError('Could not load categories');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadBreakdown();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const maxValue = Math.max(...entries.map(entry => entry.totalValue), 0);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <PieChart className="h-4 w-4" />
+          By Category
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : error ? (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No items yet. <Link href="/settings/categories" className="underline">Set up categories</Link>
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => (
+              <li key={entry.categoryId ?? 'uncategorized'}>
+                <div className="flex items-baseline justify-between gap-3 text-sm">
+                  <span className="font-medium truncate">{entry.name}</span>
+                  <span className="whitespace-nowrap">{formatCurrency(entry.totalValue)}</span>
+                </div>
+                <div className="flex items-baseline justify-between gap-3 text-xs text-muted-foreground">
+                  <span>{entry.itemCount} item{entry.itemCount === 1 ? '' : 's'}</span>
+                  {entry.depreciatedValue !== entry.totalValue && (
+                    <span className="whitespace-nowrap">≈ {formatCurrency(entry.depreciatedValue)} depreciated</span>
+                  )}
+                </div>
+                <div className="mt-1 h-1.5 rounded-full bg-muted">
+                  <div
+                    className="h-1.5 rounded-full bg-primary"
+                    style={{ width: `${maxValue > 0 ? (entry.totalValue / maxValue) * 100 : 0}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
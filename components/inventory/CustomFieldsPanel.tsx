@@ -0,0 +1,295 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Input,
+  Label,
+  Checkbox,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { ListPlus, Plus, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import type { CustomFieldType, LocationType } from '@prisma/client';
+import { useCustomFields } from '@/lib/hooks/useCustomFields';
+import { toCustomFieldKey } from '@/lib/utils/custom-fields';
+
+/**
+ * Custom fields panel props
+ */
+interface CustomFieldsPanelProps {
+  className?: string;
+}
+
+/**
+ * Field type options
+ */
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  TEXT: 'Text',
+  NUMBER: 'Number',
+  DATE: 'Date',
+  SELECT: 'Choice list',
+  URL: 'Link (URL)',
+  SERIAL_NUMBER: 'Serial number',
+  WARRANTY_EXPIRY: 'Warranty expiry',
+};
+
+/**
+ * Location type options for scoping a field
+ */
+const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  BUILDING: 'Building',
+  ROOM: 'Room',
+  FURNITURE: 'Furniture',
+  CONTAINER: 'Container',
+  AREA: 'Area',
+};
+
+/**
+ * CustomFieldsPanel - Define the typed fields items carry
+ *
+ * Lists the household's custom fields and lets members with the
+ * fields:manage permission add fields, limit them to kinds of location,
+ * mark them required or searchable, and delete them. Deleting a field
+ * keeps the values already stored on items.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.14.0
+ */
+export function CustomFieldsPanel({ className }: CustomFieldsPanelProps) {
+  const { fields, isLoading, isSubmitting, error, createField, updateField, deleteField } = useCustomFields();
+
+  // New field form state
+  const [label, setLabel] = useState('');
+  const [key, setKey] = useState('');
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [type, setType] = useState<CustomFieldType>('TEXT');
+  const [optionsInput, setOptionsInput] = useState('');
+  const [locationTypes, setLocationTypes] = useState<LocationType[]>([]);
+  const [required, setRequired] = useState(false);
+
+  /**
+   * Submit the new field form
+   */
+  const handleCreate = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const created = await createField({
+      key: key.trim(),
+      label: label.trim(),
+      type,
+      options: type === 'SELECT'
+        ? optionsInput.split(',').map(option => option.trim()).filter(Boolean)
+        : [],
+      required,
+      locationTypes,
+      displayOrder: fields.length,
+    });
+    if (created) {
+      setLabel('');
+      setKey('');
+      setKeyEdited(false);
+      setType('TEXT');
+      setOptionsInput('');
+      setLocationTypes([]);
+      setRequired(false);
+    }
+  }, [createField, key, label, type, optionsInput, required, locationTypes, fields.length]);
+
+  /**
+   * Delete a field after confirmation
+   */
+  const handleDelete = useCallback(async (fieldId: string, fieldLabel: string) => {
+    if (!window.confirm(`Delete the "${fieldLabel}" field? Values already entered stay on the items.`)) return;
+    await deleteField(fieldId);
+  }, [deleteField]);
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5" />
+            Custom Fields
+          </CardTitle>
+          <CardDescription>
+            Extra details every item form asks for, such as serial numbers or warranty dates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Existing fields */}
+          <div className="space-y-3">
+            {isLoading && fields.length === 0 && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading fields...
+              </div>
+            )}
+            {!isLoading && fields.length === 0 && (
+              <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+            )}
+
+            {fields.map((field) => (
+              <div key={field.id} className="flex items-start justify-between rounded-lg border p-3">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{field.label}</span>
+                    <Badge variant="outline">{FIELD_TYPE_LABELS[field.type]}</Badge>
+                    {field.required && <Badge variant="secondary">Required</Badge>}
+                  </div>
+                  <div className="text-muted-foreground">
+                    Key: <code>{field.key}</code>
+                    {field.type === 'SELECT' && <> • {field.options.join(', ')}</>}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {field.locationTypes.length > 0
+                      ? `Only in: ${field.locationTypes.map(value => LOCATION_TYPE_LABELS[value]).join(', ')}`
+                      : 'All locations'}
+                    {field.tagIds.length > 0 && ` • Limited to ${field.tagIds.length} tag${field.tagIds.length === 1 ? '' : 's'}`}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3 ml-4">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`field-searchable-${field.id}`}
+                      checked={field.searchable}
+                      disabled={isSubmitting}
+                      onCheckedChange={(checked) => updateField(field.id, { searchable: checked === true })}
+                    />
+                    <Label htmlFor={`field-searchable-${field.id}`} className="text-sm cursor-pointer">
+                      Searchable
+                    </Label>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSubmitting}
+                    onClick={() => handleDelete(field.id, field.label)}
+                    aria-label={`Delete ${field.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* New field */}
+          <form onSubmit={handleCreate} className="space-y-4 pt-4 border-t">
+            <h4 className="text-sm font-medium">New Field</h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="field-label">Label</Label>
+                <Input
+                  id="field-label"
+                  value={label}
+                  maxLength={100}
+                  placeholder="Warranty expires"
+                  onChange={(e) => {
+                    setLabel(e.target.value);
+                    if (!keyEdited) setKey(toCustomFieldKey(e.target.value));
+                  }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="field-key">Key</Label>
+                <Input
+                  id="field-key"
+                  value={key}
+                  maxLength={50}
+                  placeholder="warrantyExpires"
+                  onChange={(e) => {
+                    setKey(e.target.value);
+                    setKeyEdited(true);
+                  }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="field-type">Type</Label>
+                <Select value={type} onValueChange={(value: CustomFieldType) => setType(value)}>
+                  <SelectTrigger id="field-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[]).map(value => (
+                      <SelectItem key={value} value={value}>{FIELD_TYPE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {type === 'SELECT' && (
+              <div className="space-y-2">
+                <Label htmlFor="field-options">Choices (comma-separated)</Label>
+                <Input
+                  id="field-options"
+                  value={optionsInput}
+                  placeholder="New, Used, Refurbished"
+                  onChange={(e) => setOptionsInput(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium block">Only for items in (all locations when none selected)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {(Object.keys(LOCATION_TYPE_LABELS) as LocationType[]).map((value) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`field-location-${value}`}
+                      checked={locationTypes.includes(value)}
+                      onCheckedChange={(checked) =>
+                        setLocationTypes(prev => (checked ? [...prev, value] : prev.filter(v => v !== value)))
+                      }
+                    />
+                    <Label htmlFor={`field-location-${value}`} className="text-sm cursor-pointer">
+                      {LOCATION_TYPE_LABELS[value]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="field-required"
+                checked={required}
+                onCheckedChange={(checked) => setRequired(checked === true)}
+              />
+              <Label htmlFor="field-required" className="text-sm cursor-pointer">
+                Items must have a value
+              </Label>
+            </div>
+
+            <Button type="submit" disabled={isSubmitting || !label.trim() || !key.trim()}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Field
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,13 +7,18 @@ import { Badge } from '@/components/ui/badge';
 import { PhotoGallery } from '@/components/camera/PhotoGallery';
 import { PhotoEditor } from '@/components/camera/PhotoEditor';
 import { PhotoErrorBoundary } from '@/components/common/PhotoErrorBoundary';
+import { WriteTagButton } from '@/components/nfc/WriteTagButton';
 import { ItemForm } from './ItemForm';
+import { ItemHistoryTimeline } from './ItemHistoryTimeline';
+import { ItemLoansPanel } from './ItemLoansPanel';
 import {
   Edit,
   Share2,
   Download,
   ArrowLeft,
   MapPin,
+  FolderTree,
+  Tag,
   Calendar,
   DollarSign,
   Package,
@@ -33,8 +38,16 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
-import { ItemStatus } from '@prisma/client';
+import { ItemStatus, LocationType } from '@prisma/client';
 import type { GalleryPhoto } from '@/lib/hooks/usePhotoGallery';
+import { useCustomFields } from '@/lib/hooks/useCustomFields';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { getCategoryLineage } from '@/lib/utils/categories';
+import {
+  formatCustomFieldValue,
+  isCustomFieldApplicable,
+  isWarrantyExpired,
+} from '@/lib/utils/custom-fields';
 
 /**
  * Item interface with photos
@@ -57,7 +70,15 @@ interface ItemWithPhotos {
     id: string;
     name: string;
     path: string;
+    locationType?: LocationType;
   };
+  category?: {
+    id: string;
+    name: string;
+    path: string;
+  } | null;
+  metadata?: Record<string, unknown> | null;
+  tags?: Array<{ tagId: string; tag?: { name: string; color: string } }>;
   photos?: Array<{
     id: string;
     originalUrl: string;
@@ -90,9 +111,11 @@ interface ItemDetailPageProps {
   onPhotoShare?: (photoId: string) => void;
   onPhotoDownload?: (photoId: string) => void;
   onBack?: () => void;
+  onItemChange?: () => void;
   className?: string;
   showEditForm?: boolean;
   enablePhotoEdit?: boolean;
+  showHistory?: boolean;
 }
 
 /**
@@ -127,13 +150,32 @@ export function ItemDetailPage({
   onPhotoShare,
   onPhotoDownload,
   onBack,
+  onItemChange,
   className,
   showEditForm = false,
   enablePhotoEdit = true,
+  showHistory = true,
 }: ItemDetailPageProps) {
   // State
   const [isEditing, setIsEditing] = useState(showEditForm);
   const [selectedPhotoForEdit, setSelectedPhotoForEdit] = useState<string | null>(null);
+  const { fields: customFields } = useCustomFields();
+  const { categories } = useCategories();
+
+  /**
+   * Custom fields that apply to the item or already hold a value
+   */
+  const customFieldRows = React.useMemo(() => {
+    const scope = {
+      tagIds: (item.tags || []).map(itemTag => itemTag.tagId),
+      locationType: item.location.locationType,
+      categoryIds: item.category ? getCategoryLineage(categories, item.category.id) : [],
+    };
+
+    return customFields
+      .map(field => ({ field, value: item.metadata?.[field.key] }))
+      .filter(({ field, value }) => value !== undefined || isCustomFieldApplicable(field, scope));
+  }, [customFields, categories, item.metadata, item.tags, item.location.locationType, item.category]);
 
   /**
    * Convert item photos to gallery format
@@ -316,6 +358,8 @@ export function ItemDetailPage({
           )}
 
           <div className="flex items-center gap-2">
+            <WriteTagButton itemId={item.id} label={item.name} size="default" />
+
             <Button
               variant="outline"
               onClick={handleEditToggle}
@@ -447,6 +491,42 @@ export function ItemDetailPage({
                 </CardContent>
               </Card>
 
+              {item.category && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-medium flex items-center gap-2">
+                      <FolderTree className="h-4 w-4" />
+                      Category
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm">{item.category.path}</p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {item.tags && item.tags.some(itemTag => itemTag.tag) && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm font-medium flex items-center gap-2">
+                      <Tag className="h-4 w-4" />
+                      Tags
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-2">
+                    {item.tags.map(itemTag => itemTag.tag && (
+                      <span
+                        key={itemTag.tagId}
+                        className="rounded-full px-2.5 py-0.5 text-xs font-medium text-white"
+                        style={{ backgroundColor: itemTag.tag.color }}
+                      >
+                        {itemTag.tag.name}
+                      </span>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               <Card>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-sm font-medium flex items-center gap-2">
@@ -515,6 +595,44 @@ export function ItemDetailPage({
               </Card>
             )}
 
+            {/* Custom Fields */}
+            {customFieldRows.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm font-medium">Custom Fields</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {customFieldRows.map(({ field, value }) => {
+                    const formatted = formatCustomFieldValue(field, value);
+                    const expired = field.type === 'WARRANTY_EXPIRY' && isWarrantyExpired(value);
+
+                    return (
+                      <div key={field.id} className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">{field.label}:</span>
+                        {formatted === null ? (
+                          <span className="text-muted-foreground">Not set</span>
+                        ) : field.type === 'URL' ? (
+                          <a
+                            href={formatted}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-primary hover:underline truncate"
+                          >
+                            {formatted}
+                            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                          </a>
+                        ) : (
+                          <span className={cn('text-right', expired && 'text-red-600')}>
+                            {formatted}{expired && ' (expired)'}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Metadata */}
             <Card>
               <CardHeader>
@@ -546,6 +664,12 @@ export function ItemDetailPage({
             </Card>
           </div>
         </div>
+
+        {/* Lending */}
+        <ItemLoansPanel itemId={item.id} status={item.status} onChange={onItemChange} />
+
+        {/* History Timeline */}
+        {showHistory && <ItemHistoryTimeline itemId={item.id} />}
       </div>
     </PhotoErrorBoundary>
   );
@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useActionState, useOptimistic, useState, useCallback } from 'react';
+import React, { useActionState, useOptimistic, useState, useCallback, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -9,10 +10,18 @@ import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { PhotoUpload } from '@/components/camera/PhotoUpload';
 import { LocationSelector } from '@/components/locations/LocationSelector';
+import { TagPicker } from './TagPicker';
 import { createItemAction, updateItemAction } from '@/lib/actions/items';
-import { AlertCircle, CheckCircle, Loader2, Save, Plus, Edit } from 'lucide-react';
+import { AlertCircle, CheckCircle, Loader2, Save, Plus, Edit, Barcode } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { LocationType } from '@prisma/client';
+import { buildItemDetailUrl } from '@/lib/utils/url-state';
+import { getApplicableCustomFields } from '@/lib/utils/custom-fields';
+import { getCategoryLineage } from '@/lib/utils/categories';
+import { useCustomFields } from '@/lib/hooks/useCustomFields';
+import { useCategories } from '@/lib/hooks/useCategories';
+import { useTags } from '@/lib/hooks/useTags';
+import type { CustomFieldDefinition } from '@/lib/types/custom-fields';
 
 /**
  * Item data interface
@@ -22,6 +31,7 @@ interface Item {
   name: string;
   description?: string | null;
   locationId: string;
+  categoryId?: string | null;
   quantity: number;
   unit: string;
   purchasePrice?: number | null;
@@ -29,6 +39,7 @@ interface Item {
   purchaseDate?: Date | string | null;
   photoUrl?: string | null;
   thumbnailUrl?: string | null;
+  metadata?: Record<string, any> | null;
   status?: any;
   createdAt?: Date;
   updatedAt?: Date;
@@ -67,6 +78,15 @@ interface ItemFormProps {
   mode?: 'create' | 'edit';
 }
 
+/**
+ * Existing item that already carries the entered barcode
+ */
+interface BarcodeMatch {
+  id: string;
+  name: string;
+  location: { path: string };
+}
+
 /**
  * Form state interface for React 19 useActionState
  */
@@ -89,6 +109,38 @@ const initialState: FormState = {
   message: undefined,
 };
 
+/**
+ * Input type used for each custom field type (select fields use a dropdown)
+ */
+const CUSTOM_FIELD_INPUT_TYPES: Record<CustomFieldDefinition['type'], string> = {
+  TEXT: 'text',
+  NUMBER: 'number',
+  DATE: 'date',
+  SELECT: 'text',
+  URL: 'url',
+  SERIAL_NUMBER: 'text',
+  WARRANTY_EXPIRY: 'date',
+};
+
+/**
+ * Show a stored metadata value in a text input
+ */
+function formatInputValue(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Convert an input's text to the value submitted for a custom field;
+ * numbers are sent as numbers so the server can check them
+ */
+function toCustomFieldValue(field: CustomFieldDefinition, value: string): unknown {
+  const trimmed = value.trim();
+  if (field.type === 'NUMBER' && trimmed !== '' && !Number.isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  return trimmed;
+}
+
 /**
  * ItemForm - React 19 useActionState form for comprehensive item creation and editing.
  * 
@@ -156,8 +208,40 @@ export function ItemForm({
 
   // Local form state
   const [selectedLocationId, setSelectedLocationId] = useState<string>(item?.locationId || '');
+  const [selectedCategoryId, setSelectedCategoryId] = useState<string>(item?.categoryId || '');
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>(
+    () => (item?.tags || []).map((itemTag: { tagId: string }) => itemTag.tagId)
+  );
   const [photoUrl, setPhotoUrl] = useState<string>(item?.photoUrl || '');
   const [thumbnailUrl, setThumbnailUrl] = useState<string>(item?.thumbnailUrl || '');
+  const [barcode, setBarcode] = useState<string>(item?.metadata?.barcode || '');
+  const [barcodeMatches, setBarcodeMatches] = useState<BarcodeMatch[]>([]);
+  const [customValues, setCustomValues] = useState<Record<string, string>>({});
+  const { fields: customFields } = useCustomFields();
+  const { categories } = useCategories();
+  const { tags, createTag, error: tagError } = useTags();
+
+  // Custom fields shown depend on the chosen location's type, category and tags
+  const applicableFields = useMemo(() => {
+    const locationType = locations.find(location => location.id === selectedLocationId)?.locationType
+      ?? item?.location?.locationType;
+    const categoryIds = selectedCategoryId ? getCategoryLineage(categories, selectedCategoryId) : [];
+    return getApplicableCustomFields(customFields, { tagIds: selectedTagIds, locationType, categoryIds });
+  }, [customFields, categories, locations, selectedLocationId, selectedCategoryId, selectedTagIds, item?.location?.locationType]);
+
+  // Metadata is submitted whole so keys other than barcode survive edits
+  const metadataField = useMemo(() => {
+    const rest = Object.fromEntries(
+      Object.entries(item?.metadata || {}).filter(([key]) => key !== 'barcode')
+    );
+    for (const field of applicableFields) {
+      if (field.key in customValues) {
+        rest[field.key] = toCustomFieldValue(field, customValues[field.key]);
+      }
+    }
+    const trimmed = barcode.trim();
+    return JSON.stringify(trimmed ? { ...rest, barcode: trimmed } : rest);
+  }, [item?.metadata, barcode, applicableFields, customValues]);
 
   // Optimistic state for immediate UI feedback
   const [optimisticSubmitting, addOptimisticSubmitting] = useOptimistic(
@@ -190,6 +274,31 @@ export function ItemForm({
     }
   }, [state.success, state.item, onSuccess]);
 
+  /**
+   * Look up items that already have this barcode (e.g. from a scan)
+   */
+  useEffect(() => {
+    const digits = barcode.replace(/[\s-]/g, '');
+    if (!/^(\d{8}|\d{12,14})$/.test(digits)) {
+      setBarcodeMatches([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ barcode: digits, limit: '5' });
+        const response = await fetch(`/api/v1/items?${params}`);
+        const payload = response.ok ? await response.json() : null;
+        const matches: BarcodeMatch[] = payload?.data || [];
+        setBarcodeMatches(matches.filter(match => match.id !== item?.id));
+      } catch (error) {
+        console.error('Barcode lookup failed:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [barcode, item?.id]);
+
   /**
    * Handle photo upload success
    */
@@ -215,6 +324,7 @@ export function ItemForm({
 
   // Determine if form is submitting
   const isSubmitting = isPending || optimisticSubmitting;
+  const barcodeError = state.fieldErrors?.['metadata.barcode'] || state.fieldErrors?.metadata;
 
   return (
     <Card className={cn('w-full max-w-2xl mx-auto', className)}>
@@ -308,6 +418,59 @@ export function ItemForm({
             )}
           </div>
 
+          {/* Category */}
+          {categories.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="categoryId" className="text-sm font-medium">
+                Category
+              </Label>
+              <select
+                id="categoryId"
+                name="categoryId"
+                value={selectedCategoryId}
+                onChange={(e) => setSelectedCategoryId(e.target.value)}
+                disabled={isSubmitting}
+                className={cn(
+                  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm',
+                  state.fieldErrors?.categoryId && 'border-destructive focus:border-destructive'
+                )}
+              >
+                <option value="">No category</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.path}</option>
+                ))}
+              </select>
+              {state.fieldErrors?.categoryId && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <span>{state.fieldErrors.categoryId}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label htmlFor="tag-picker" className="text-sm font-medium">
+              Tags
+            </Label>
+            <input type="hidden" name="tagIds" value={selectedTagIds.join(',')} />
+            <TagPicker
+              id="tag-picker"
+              tags={tags}
+              value={selectedTagIds}
+              onChange={setSelectedTagIds}
+              onCreateTag={(name) => createTag({ name })}
+              disabled={isSubmitting}
+            />
+            {(state.fieldErrors?.tagIds || tagError) && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                <span>{state.fieldErrors?.tagIds || tagError}</span>
+              </div>
+            )}
+          </div>
+
           {/* Quantity and Unit */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -443,6 +606,101 @@ export function ItemForm({
             )}
           </div>
 
+          {/* Barcode */}
+          <div className="space-y-2">
+            <Label htmlFor="barcode" className="text-sm font-medium">
+              Barcode (UPC/EAN)
+            </Label>
+            <div className="relative">
+              <Barcode className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="barcode"
+                type="text"
+                inputMode="numeric"
+                placeholder="Scan or type the product barcode"
+                value={barcode}
+                onChange={(e) => setBarcode(e.target.value)}
+                disabled={isSubmitting}
+                className={cn(
+                  'pl-9',
+                  barcodeError && 'border-destructive focus:border-destructive'
+                )}
+              />
+            </div>
+            <input type="hidden" name="metadata" value={metadataField} />
+            {barcodeError && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                <span>{barcodeError}</span>
+              </div>
+            )}
+            {barcodeMatches.length > 0 && (
+              <div className="text-sm bg-muted p-3 rounded-md space-y-1">
+                <p className="font-medium">Already in your inventory:</p>
+                <ul className="space-y-1">
+                  {barcodeMatches.map(match => (
+                    <li key={match.id}>
+                      <Link href={buildItemDetailUrl(match.id, {})} className="text-primary hover:underline">
+                        {match.name}
+                      </Link>
+                      <span className="text-muted-foreground"> · {match.location.path}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Custom Fields */}
+          {applicableFields.map((field) => {
+            const fieldError = state.fieldErrors?.[`metadata.${field.key}`];
+            const value = customValues[field.key] ?? formatInputValue(item?.metadata?.[field.key]);
+            const inputId = `custom-field-${field.key}`;
+            const onValueChange = (newValue: string) =>
+              setCustomValues(prev => ({ ...prev, [field.key]: newValue }));
+
+            return (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={inputId} className="text-sm font-medium">
+                  {field.label}{field.required && ' *'}
+                </Label>
+                {field.type === 'SELECT' ? (
+                  <select
+                    id={inputId}
+                    value={value}
+                    onChange={(e) => onValueChange(e.target.value)}
+                    disabled={isSubmitting}
+                    className={cn(
+                      'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm',
+                      fieldError && 'border-destructive focus:border-destructive'
+                    )}
+                  >
+                    <option value="">Not set</option>
+                    {field.options.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <Input
+                    id={inputId}
+                    type={CUSTOM_FIELD_INPUT_TYPES[field.type]}
+                    step={field.type === 'NUMBER' ? 'any' : undefined}
+                    value={value}
+                    onChange={(e) => onValueChange(e.target.value)}
+                    disabled={isSubmitting}
+                    className={cn(fieldError && 'border-destructive focus:border-destructive')}
+                  />
+                )}
+                {fieldError && (
+                  <div className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <span>{fieldError}</span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
           {/* Photo Upload */}
           <div className="space-y-2">
             <Label className="text-sm font-medium">Photo</Label>
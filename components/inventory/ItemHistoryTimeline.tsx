@@ -0,0 +1,181 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  History,
+  PlusCircle,
+  Edit,
+  MoveRight,
+  Tag,
+  ArrowUpRight,
+  ArrowDownLeft,
+  ImagePlus,
+  ImageMinus,
+  Trash2,
+  Loader2,
+  AlertCircle,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useItemHistory } from '@/lib/hooks/useItemHistory';
+import {
+  ACTIVITY_EVENT_TYPES,
+  describeActivity,
+  getActivityActorName,
+  getActivityFieldChanges,
+} from '@/lib/utils/activity-timeline';
+import type { ActivityAction } from '@prisma/client';
+import type { ActivityEventType } from '@/lib/types/activity';
+
+/**
+ * Item history timeline props
+ */
+interface ItemHistoryTimelineProps {
+  itemId: string;
+  pageSize?: number;
+  className?: string;
+}
+
+/**
+ * Icon per logged action
+ */
+const ACTION_ICONS: Record<ActivityAction, React.ComponentType<{ className?: string }>> = {
+  CREATED: PlusCircle,
+  UPDATED: Edit,
+  MOVED: MoveRight,
+  STATUS_CHANGED: Tag,
+  BORROWED: ArrowUpRight,
+  RETURNED: ArrowDownLeft,
+  PHOTO_ADDED: ImagePlus,
+  PHOTO_DELETED: ImageMinus,
+  DELETED: Trash2,
+};
+
+/**
+ * ItemHistoryTimeline - Chronological activity for a single item
+ *
+ * Shows who created, edited, moved, lent out or re-photographed the item
+ * and when, newest first, with field-level before/after values for edits.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.10.0
+ */
+export function ItemHistoryTimeline({ itemId, pageSize = 20, className }: ItemHistoryTimelineProps) {
+  const {
+    entries,
+    eventType,
+    totalCount,
+    isLoading,
+    error,
+    setEventType,
+    loadMore,
+    canLoadMore,
+  } = useItemHistory(itemId, pageSize);
+
+  const formatTimestamp = (timestamp: string) =>
+    new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(new Date(timestamp));
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+          {totalCount > 0 && (
+            <span className="text-muted-foreground font-normal">({totalCount})</span>
+          )}
+        </CardTitle>
+
+        <Select value={eventType} onValueChange={(value) => setEventType(value as ActivityEventType)}>
+          <SelectTrigger className="w-44 h-8 text-xs" aria-label="Filter history by event type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ACTIVITY_EVENT_TYPES) as ActivityEventType[]).map((type) => (
+              <SelectItem key={type} value={type} className="text-xs">
+                {ACTIVITY_EVENT_TYPES[type].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+
+      <CardContent>
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive mb-4">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!isLoading && !error && entries.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No history recorded for this filter yet
+          </p>
+        )}
+
+        <ol className="relative border-l border-border ml-2 space-y-5">
+          {entries.map((entry) => {
+            const Icon = ACTION_ICONS[entry.action] ?? Edit;
+            const changes = getActivityFieldChanges(entry);
+
+            return (
+              <li key={entry.id} className="ml-5">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background border border-border">
+                  <Icon className="h-3 w-3 text-muted-foreground" />
+                </span>
+
+                <p className="text-sm font-medium">{describeActivity(entry)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {getActivityActorName(entry)} · <time dateTime={entry.createdAt}>{formatTimestamp(entry.createdAt)}</time>
+                </p>
+
+                {changes.length > 0 && (
+                  <dl className="mt-2 space-y-1 text-xs">
+                    {changes.map((change) => (
+                      <div key={change.field} className="flex flex-wrap gap-1">
+                        <dt className="text-muted-foreground">{change.label}:</dt>
+                        <dd>
+                          <span className="line-through text-muted-foreground">{change.before}</span>
+                          {' → '}
+                          <span>{change.after}</span>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        {(isLoading || canLoadMore) && (
+          <div className={cn('flex justify-center', entries.length > 0 && 'mt-4')}>
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              <Button variant="outline" size="sm" onClick={loadMore}>
+                Load older events
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
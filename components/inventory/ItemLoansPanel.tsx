@@ -0,0 +1,283 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Input,
+  Label,
+  Textarea,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { HandHelping, Undo2, Loader2, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useItemLoans, type ReturnItemRequest } from '@/lib/hooks/useItemLoans';
+import { formatLoanDue, isLoanOverdue } from '@/lib/utils/loans';
+import { ItemStatus } from '@prisma/client';
+
+/**
+ * Item loans panel props
+ */
+interface ItemLoansPanelProps {
+  itemId: string;
+  status: ItemStatus;
+  /** Called after the item is lent or returned (its status changed) */
+  onChange?: () => void;
+  className?: string;
+}
+
+/**
+ * Return condition options
+ */
+const RETURN_CONDITIONS: Array<{ value: NonNullable<ReturnItemRequest['condition']>; label: string }> = [
+  { value: 'GOOD', label: 'Good' },
+  { value: 'DAMAGED', label: 'Damaged' },
+  { value: 'NEEDS_MAINTENANCE', label: 'Needs maintenance' },
+];
+
+/**
+ * Format a loan date
+ */
+const formatDate = (date: string | null): string => {
+  if (!date) return '—';
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  }).format(new Date(date));
+};
+
+/**
+ * ItemLoansPanel - Lend an item and review its lending history
+ *
+ * Lends available items to anyone by name (neighbours, friends, family
+ * outside the household), records returns with the item's condition, and
+ * lists every past loan.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.10.0
+ */
+export function ItemLoansPanel({ itemId, status, onChange, className }: ItemLoansPanelProps) {
+  const {
+    loans,
+    currentLoan,
+    isLoading,
+    isSubmitting,
+    error,
+    lend,
+    markReturned,
+  } = useItemLoans(itemId, onChange);
+
+  // Lend form state
+  const [borrowerName, setBorrowerName] = useState('');
+  const [borrowerContact, setBorrowerContact] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  // Return form state
+  const [condition, setCondition] = useState<ReturnItemRequest['condition']>('GOOD');
+
+  /**
+   * Submit the lend form
+   */
+  const handleLend = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const lent = await lend({
+      borrowerName: borrowerName.trim(),
+      borrowerContact: borrowerContact.trim() || undefined,
+      // Due at the end of the chosen day
+      borrowedUntil: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : undefined,
+      notes: notes.trim() || undefined,
+    });
+
+    if (lent) {
+      setBorrowerName('');
+      setBorrowerContact('');
+      setDueDate('');
+      setNotes('');
+    }
+  }, [lend, borrowerName, borrowerContact, dueDate, notes]);
+
+  /**
+   * Record the return
+   */
+  const handleReturn = useCallback(async () => {
+    await markReturned({ condition });
+  }, [markReturned, condition]);
+
+  const dueLabel = currentLoan ? formatLoanDue(currentLoan) : null;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <HandHelping className="h-4 w-4" />
+          Lending
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Current loan */}
+        {status === ItemStatus.BORROWED && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>
+                Lent to <span className="font-medium">{currentLoan?.borrowerName ?? 'someone'}</span>
+                {currentLoan && ` on ${formatDate(currentLoan.lentAt)}`}
+              </span>
+              {dueLabel && currentLoan && (
+                <Badge variant={isLoanOverdue(currentLoan) ? 'destructive' : 'secondary'} className="text-xs">
+                  {dueLabel}
+                </Badge>
+              )}
+            </div>
+            {currentLoan?.borrowerContact && (
+              <p className="text-xs text-muted-foreground">Contact: {currentLoan.borrowerContact}</p>
+            )}
+
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="return-condition" className="text-xs">Condition on return</Label>
+                <Select
+                  value={condition}
+                  onValueChange={(value) => setCondition(value as ReturnItemRequest['condition'])}
+                >
+                  <SelectTrigger id="return-condition" className="w-48 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETURN_CONDITIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleReturn} disabled={isSubmitting} className="gap-2">
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                Mark Returned
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Lend form */}
+        {status === ItemStatus.AVAILABLE && (
+          <form onSubmit={handleLend} className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="loan-borrower" className="text-xs">Borrower</Label>
+                <Input
+                  id="loan-borrower"
+                  value={borrowerName}
+                  onChange={(e) => setBorrowerName(e.target.value)}
+                  placeholder="Who is borrowing it?"
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="loan-contact" className="text-xs">Contact (optional)</Label>
+                <Input
+                  id="loan-contact"
+                  value={borrowerContact}
+                  onChange={(e) => setBorrowerContact(e.target.value)}
+                  placeholder="Phone or email"
+                  maxLength={255}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="loan-due" className="text-xs">Due back (optional)</Label>
+                <Input
+                  id="loan-due"
+                  type="date"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  min={new Date().toISOString().slice(0, 10)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="loan-notes" className="text-xs">Notes (optional)</Label>
+              <Textarea
+                id="loan-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={500}
+                rows={2}
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting || !borrowerName.trim()} className="gap-2">
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <HandHelping className="h-4 w-4" />}
+              Lend Item
+            </Button>
+          </form>
+        )}
+
+        {/* Lending history */}
+        <div>
+          <h3 className="text-xs font-medium text-muted-foreground mb-2">History</h3>
+          {isLoading && loans.length === 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : loans.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This item has never been lent out</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="py-2 pr-3 font-medium">Borrower</th>
+                    <th className="py-2 pr-3 font-medium">Lent</th>
+                    <th className="py-2 pr-3 font-medium">Due</th>
+                    <th className="py-2 pr-3 font-medium">Returned</th>
+                    <th className="py-2 font-medium">Condition</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {loans.map((loan) => (
+                    <tr key={loan.id} className="border-b last:border-0">
+                      <td className="py-2 pr-3">
+                        <div>{loan.borrowerName}</div>
+                        {!loan.borrowerUserId && loan.borrowerContact && (
+                          <div className="text-xs text-muted-foreground">{loan.borrowerContact}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3">{formatDate(loan.lentAt)}</td>
+                      <td className={cn('py-2 pr-3', isLoanOverdue(loan) && 'text-destructive font-medium')}>
+                        {formatDate(loan.dueAt)}
+                      </td>
+                      <td className="py-2 pr-3">{loan.returnedAt ? formatDate(loan.returnedAt) : 'Out'}</td>
+                      <td className="py-2">
+                        {loan.returnCondition
+                          ? RETURN_CONDITIONS.find((option) => option.value === loan.returnCondition)?.label
+                          : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle, Badge } from '@/components/ui';
+import { AlarmClock, CheckCircle2, Loader2, AlertCircle } from 'lucide-react';
+import { formatLoanDue } from '@/lib/utils/loans';
+import type { OverdueLoanEntry } from '@/lib/types/loans';
+
+/**
+ * Overdue loans widget props
+ */
+interface OverdueLoansWidgetProps {
+  className?: string;
+}
+
+/**
+ * OverdueLoansWidget - Dashboard list of lent items past their due date
+ *
+ * Uses each loan's due date (`borrowedUntil` when lending), including items
+ * lent before loan records existed, and links to the item so it can be
+ * chased up or marked returned.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.10.0
+ */
+export function OverdueLoansWidget({ className }: OverdueLoansWidgetProps) {
+  const [loans, setLoans] = useState<OverdueLoanEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load overdue loans once on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOverdueLoans = async () => {
+      try {
+        const response = await fetch('/api/v1/loans/overdue');
+        if (!response.ok) {
+          throw new Error(`Failed to load overdue loans: ${response.status} ${response.statusText}`);
+        }
+        const payload = await response.json();
+        if (!cancelled) setLoans(payload.data);
+      } catch (err) {
+        console.error('❌ Overdue loans failed to load:', err);
+        if (!cancelled) setError('Could not load overdue items');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadOverdueLoans();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <AlarmClock className="h-4 w-4" />
+          Overdue
+        </CardTitle>
+        {loans.length > 0 && (
+          <Badge variant="destructive" className="text-xs">{loans.length}</Badge>
+        )}
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : error ? (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        ) : loans.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            <span>Nothing overdue</span>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {loans.map((loan) => (
+              <li key={loan.id} className="py-2 first:pt-0 last:pb-0">
+                <Link href={`/inventory/${loan.item.id}`} className="flex items-start justify-between gap-3 hover:underline">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{loan.item.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {loan.borrowerName}
+                      {loan.borrowerContact && ` · ${loan.borrowerContact}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-destructive whitespace-nowrap">
+                    {formatLoanDue(loan)}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { Input } from '@/components/ui';
+import { X, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { TagEntry } from '@/lib/types/tags';
+
+/**
+ * Most suggestions shown under the input
+ */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Tag picker props
+ */
+interface TagPickerProps {
+  /** The household's tags, most used first */
+  tags: TagEntry[];
+  /** IDs of the selected tags */
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  /** Adds a tag that does not exist yet; omitted when the user cannot */
+  onCreateTag?: (name: string) => Promise<TagEntry | null>;
+  disabled?: boolean;
+  id?: string;
+  className?: string;
+}
+
+/**
+ * TagPicker - Attach and detach tags with autocomplete
+ *
+ * Selected tags show as removable chips. Typing suggests matching tags,
+ * most used first; Enter picks the first suggestion, or adds a new tag
+ * when nothing matches the name exactly.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.16.0
+ */
+export function TagPicker({
+  tags,
+  value,
+  onChange,
+  onCreateTag,
+  disabled,
+  id,
+  className,
+}: TagPickerProps) {
+  const [query, setQuery] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedTags = useMemo(
+    () => value.map(tagId => tags.find(tag => tag.id === tagId)).filter((tag): tag is TagEntry => !!tag),
+    [tags, value]
+  );
+
+  // Unselected tags matching the query; tags arrive sorted by usage
+  const suggestions = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    return tags
+      .filter(tag => !value.includes(tag.id) && tag.name.toLowerCase().includes(needle))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [tags, value, query]);
+
+  const exactMatch = tags.find(tag => tag.name.toLowerCase() === query.trim().toLowerCase());
+  const canCreate = !!onCreateTag && query.trim().length > 0 && !exactMatch;
+
+  /**
+   * Select a tag and clear the input
+   */
+  const handleSelect = useCallback((tagId: string) => {
+    if (!value.includes(tagId)) onChange([...value, tagId]);
+    setQuery('');
+  }, [value, onChange]);
+
+  /**
+   * Add a tag named after the input and select it
+   */
+  const handleCreate = useCallback(async () => {
+    if (!onCreateTag) return;
+    setIsCreating(true);
+    try {
+      const tag = await onCreateTag(query.trim());
+      if (tag) handleSelect(tag.id);
+    } finally {
+      setIsCreating(false);
+    }
+  }, [onCreateTag, query, handleSelect]);
+
+  /**
+   * Enter picks the exact match, the first suggestion or a new tag;
+   * Backspace in an empty input removes the last tag
+   */
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (exactMatch) {
+        handleSelect(exactMatch.id);
+      } else if (suggestions.length > 0) {
+        handleSelect(suggestions[0].id);
+      } else if (canCreate) {
+        handleCreate();
+      }
+    } else if (event.key === 'Backspace' && query === '' && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  }, [exactMatch, suggestions, canCreate, handleSelect, handleCreate, query, value, onChange]);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {selectedTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selectedTags.map(tag => (
+            <span
+              key={tag.id}
+              className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium text-white"
+              style={{ backgroundColor: tag.color }}
+            >
+              {tag.name}
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onChange(value.filter(tagId => tagId !== tag.id))}
+                aria-label={`Remove ${tag.name}`}
+                className="rounded-full hover:bg-black/20"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Input
+          id={id}
+          value={query}
+          maxLength={50}
+          placeholder={onCreateTag ? 'Type to find or add a tag' : 'Type to find a tag'}
+          disabled={disabled || isCreating}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoComplete="off"
+        />
+
+        {(suggestions.length > 0 || canCreate) && (
+          <ul className="absolute z-10 mt-1 w-full rounded-md border bg-background shadow-md" role="listbox">
+            {suggestions.map(tag => (
+              <li key={tag.id}>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-muted"
+                  onClick={() => handleSelect(tag.id)}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{tag.usageCount}</span>
+                </button>
+              </li>
+            ))}
+            {canCreate && (
+              <li>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 px-3 py-2 text-sm hover:bg-muted"
+                  disabled={isCreating}
+                  onClick={handleCreate}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add &quot;{query.trim()}&quot;
+                </button>
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui';
+import { Tags, Plus, Pencil, Merge, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { useTags } from '@/lib/hooks/useTags';
+import { DEFAULT_TAG_COLOR, type TagEntry } from '@/lib/types/tags';
+
+/**
+ * Tags panel props
+ */
+interface TagsPanelProps {
+  className?: string;
+}
+
+/**
+ * Select value before a merge target is chosen (Select items cannot be empty)
+ */
+const NONE = 'none';
+
+/**
+ * TagsPanel - Keep the household's tags tidy
+ *
+ * Lists tags with how many items carry each, and lets members with the
+ * tags:manage permission add, rename and recolor tags, merge duplicates
+ * into one tag, and delete tags.
+ *
+ * @component
+ * @category Inventory Components
+ * @since 1.16.0
+ */
+export function TagsPanel({ className }: TagsPanelProps) {
+  const { tags, isLoading, isSubmitting, error, createTag, updateTag, mergeTags, deleteTag } = useTags();
+
+  // New tag form state
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_TAG_COLOR);
+
+  // Row being renamed or merged
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState(NONE);
+
+  /**
+   * Submit the new tag form
+   */
+  const handleCreate = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const created = await createTag({ name: name.trim(), color });
+    if (created) {
+      setName('');
+      setColor(DEFAULT_TAG_COLOR);
+    }
+  }, [createTag, name, color]);
+
+  /**
+   * Save a new name
+   */
+  const handleRename = useCallback(async (event: React.FormEvent, tag: TagEntry) => {
+    event.preventDefault();
+
+    if (editName.trim() === tag.name || await updateTag(tag.id, { name: editName.trim() })) {
+      setEditingId(null);
+    }
+  }, [updateTag, editName]);
+
+  /**
+   * Merge a tag into the chosen one after confirmation
+   */
+  const handleMerge = useCallback(async (tag: TagEntry) => {
+    const target = tags.find(candidate => candidate.id === mergeTargetId);
+    if (!target) return;
+    if (!window.confirm(`Retag ${tag.usageCount} item${tag.usageCount === 1 ? '' : 's'} from "${tag.name}" to "${target.name}" and delete "${tag.name}"?`)) return;
+
+    if (await mergeTags(tag.id, target.id)) {
+      setMergingId(null);
+      setMergeTargetId(NONE);
+    }
+  }, [tags, mergeTargetId, mergeTags]);
+
+  /**
+   * Delete a tag after confirmation
+   */
+  const handleDelete = useCallback(async (tag: TagEntry) => {
+    if (!window.confirm(`Delete the "${tag.name}" tag? It is removed from ${tag.usageCount} item${tag.usageCount === 1 ? '' : 's'}.`)) return;
+    await deleteTag(tag.id);
+  }, [deleteTag]);
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Tags
+          </CardTitle>
+          <CardDescription>
+            Free-form labels for items. Merge duplicates so searches find everything.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Existing tags */}
+          <div className="space-y-3">
+            {isLoading && tags.length === 0 && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading tags...
+              </div>
+            )}
+            {!isLoading && tags.length === 0 && (
+              <p className="text-sm text-muted-foreground">No tags yet.</p>
+            )}
+
+            {tags.map((tag) => (
+              <div key={tag.id} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <input
+                      type="color"
+                      value={tag.color}
+                      disabled={isSubmitting}
+                      onChange={(e) => updateTag(tag.id, { color: e.target.value })}
+                      aria-label={`Color of ${tag.name}`}
+                      className="h-8 w-8 cursor-pointer rounded border bg-transparent"
+                    />
+                    {editingId === tag.id ? (
+                      <form onSubmit={(e) => handleRename(e, tag)} className="flex items-center gap-2">
+                        <Input
+                          value={editName}
+                          maxLength={50}
+                          autoFocus
+                          aria-label="Tag name"
+                          onChange={(e) => setEditName(e.target.value)}
+                        />
+                        <Button type="submit" size="sm" disabled={isSubmitting || !editName.trim()}>
+                          Save
+                        </Button>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                      </form>
+                    ) : (
+                      <span className="font-medium truncate">{tag.name}</span>
+                    )}
+                    <Badge variant="secondary">
+                      {tag.usageCount} item{tag.usageCount === 1 ? '' : 's'}
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSubmitting}
+                      onClick={() => {
+                        setEditingId(tag.id);
+                        setEditName(tag.name);
+                      }}
+                      aria-label={`Rename ${tag.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSubmitting || tags.length < 2}
+                      onClick={() => {
+                        setMergingId(mergingId === tag.id ? null : tag.id);
+                        setMergeTargetId(NONE);
+                      }}
+                      aria-label={`Merge ${tag.name} into another tag`}
+                    >
+                      <Merge className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSubmitting}
+                      onClick={() => handleDelete(tag)}
+                      aria-label={`Delete ${tag.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {mergingId === tag.id && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`merge-target-${tag.id}`} className="text-sm whitespace-nowrap">
+                      Merge into
+                    </Label>
+                    <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                      <SelectTrigger id={`merge-target-${tag.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Choose a tag</SelectItem>
+                        {tags.filter(candidate => candidate.id !== tag.id).map(candidate => (
+                          <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      disabled={isSubmitting || mergeTargetId === NONE}
+                      onClick={() => handleMerge(tag)}
+                    >
+                      Merge
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* New tag */}
+          <form onSubmit={handleCreate} className="space-y-4 pt-4 border-t">
+            <h4 className="text-sm font-medium">New Tag</h4>
+
+            <div className="flex items-end gap-4">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="tag-name">Name</Label>
+                <Input
+                  id="tag-name"
+                  value={name}
+                  maxLength={50}
+                  placeholder="Camping"
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tag-color">Color</Label>
+                <input
+                  id="tag-color"
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                  className="block h-10 w-14 cursor-pointer rounded border bg-transparent"
+                />
+              </div>
+            </div>
+
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Tag
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
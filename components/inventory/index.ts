@@ -3,7 +3,15 @@
  * Provides clean imports for inventory-related components
  */
 
+export { CategoriesPanel } from './CategoriesPanel';
+export { CategoryBreakdownWidget } from './CategoryBreakdownWidget';
+export { CustomFieldsPanel } from './CustomFieldsPanel';
 export { ItemCard } from './ItemCard';
 export { ItemForm } from './ItemForm';
 export { ItemGrid } from './ItemGrid';
-export { ItemModal } from './ItemModal';
\ No newline at end of file
+export { ItemHistoryTimeline } from './ItemHistoryTimeline';
+export { ItemLoansPanel } from './ItemLoansPanel';
+export { ItemModal } from './ItemModal';
+export { OverdueLoansWidget } from './OverdueLoansWidget';
+export { TagPicker } from './TagPicker';
+export { TagsPanel } from './TagsPanel';
\ No newline at end of file
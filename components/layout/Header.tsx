@@ -11,6 +11,7 @@
 
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { ScanTagButton } from '@/components/nfc/ScanTagButton';
 
 export function Header() {
   return (
@@ -21,6 +22,10 @@ export function Header() {
         </Link>
 
         <nav className="flex items-center space-x-4">
+          <ScanTagButton />
+          <Link href="/inventory/scan">
+            <Button variant="ghost">Scan Code</Button>
+          </Link>
           <Link href="/inventory">
             <Button variant="ghost">Inventory</Button>
           </Link>
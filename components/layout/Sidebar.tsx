@@ -1,7 +1,8 @@
 /**
  * Dashboard Sidebar Component
  *
- * Navigation sidebar with main application sections and quick actions.
+ * Navigation sidebar with main application sections, quick actions and the
+ * member's saved searches ("collections").
  *
  * @component
  * @since 1.8.0
@@ -11,15 +12,24 @@
 
 import Link from 'next/link';
 import { cn } from '@/lib/utils';
+import { useSavedSearches } from '@/lib/hooks/useSavedSearches';
+import { buildCollectionUrl } from '@/lib/utils/url-state';
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: '📊' },
   { name: 'Inventory', href: '/inventory', icon: '📦' },
+  { name: 'Search', href: '/search', icon: '🔍' },
   { name: 'Add Item', href: '/inventory/new', icon: '➕' },
+  { name: 'Members', href: '/settings/members', icon: '👥' },
+  { name: 'Categories', href: '/settings/categories', icon: '🗂️' },
+  { name: 'Tags', href: '/settings/tags', icon: '🔖' },
+  { name: 'Custom Fields', href: '/settings/fields', icon: '🏷️' },
   { name: 'Settings', href: '/settings', icon: '⚙️' },
 ];
 
 export function Sidebar() {
+  const { savedSearches } = useSavedSearches();
+
   return (
     <aside className="w-64 bg-white border-r border-gray-200">
       <nav className="p-4 space-y-2">
@@ -36,6 +46,28 @@ export function Sidebar() {
             {item.name}
           </Link>
         ))}
+
+        {savedSearches.length > 0 && (
+          <div className="pt-4">
+            <h3 className="px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+              Collections
+            </h3>
+            {savedSearches.map((savedSearch) => (
+              <Link
+                key={savedSearch.id}
+                href={buildCollectionUrl(savedSearch.id)}
+                title={savedSearch.visibility === 'HOUSEHOLD' ? 'Shared with the household' : 'Only you'}
+                className={cn(
+                  'flex items-center px-3 py-2 text-sm font-medium rounded-md',
+                  'text-gray-700 hover:text-gray-900 hover:bg-gray-100'
+                )}
+              >
+                <span className="mr-3">{savedSearch.visibility === 'HOUSEHOLD' ? '👪' : '⭐'}</span>
+                <span className="truncate">{savedSearch.name}</span>
+              </Link>
+            ))}
+          </div>
+        )}
       </nav>
     </aside>
   );
@@ -30,6 +30,7 @@ import {
   Building 
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { WriteTagButton } from '@/components/nfc/WriteTagButton';
 import { LocationType } from '@prisma/client';
 
 /**
@@ -291,6 +292,15 @@ export function LocationSelector({
         </SelectContent>
       </Select>
 
+      {/* Write NFC tag for the selected location (hidden without Web NFC) */}
+      {selectedLocation && (
+        <WriteTagButton
+          locationId={selectedLocation.id}
+          label={selectedLocation.name}
+          className="w-full"
+        />
+      )}
+
       {/* Create New Location Button */}
       {showCreateButton && onCreateLocation && (
         <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
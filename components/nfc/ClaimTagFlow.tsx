@@ -0,0 +1,192 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Nfc, Plus, Search, Loader2, Package } from 'lucide-react';
+import { buildItemDetailUrl } from '@/lib/utils/url-state';
+
+/**
+ * Minimal item shape returned by the items search API
+ */
+interface ItemOption {
+  id: string;
+  name: string;
+  location?: { name: string; path: string } | null;
+}
+
+/**
+ * ClaimTagFlow Component Props
+ */
+interface ClaimTagFlowProps {
+  /** Scanned tag code (tag UID) */
+  code: string;
+  /** ID of the tag if it is registered but not bound yet */
+  tagId?: string;
+}
+
+/**
+ * ClaimTagFlow - Bind an unknown NFC tag to a new or existing item
+ *
+ * Shown by the /t/[code] resolver when a scanned code is not bound to
+ * anything in the household. Unregistered codes are registered and bound
+ * in one step; registered but unbound tags are bound in place.
+ *
+ * @component
+ */
+export function ClaimTagFlow({ code, tagId }: ClaimTagFlowProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ItemOption[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Search existing items as the user types
+   */
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const params = new URLSearchParams({ q: query.trim(), limit: '10' });
+        const response = await fetch(`/api/v1/items?${params}`, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error('Failed to search items');
+        }
+        const payload = await response.json();
+        setResults(payload.data || []);
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          setError('Could not search items. Please try again.');
+        }
+      } finally {
+        setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  /**
+   * Bind the tag to an existing item and open it
+   */
+  const handleClaim = async (itemId: string) => {
+    setIsClaiming(true);
+    setError(null);
+
+    try {
+      const response = tagId
+        ? await fetch(`/api/v1/tags/nfc/${tagId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ itemId }),
+          })
+        : await fetch('/api/v1/tags/nfc', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ uid: code, itemId }),
+          });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.message || 'Failed to bind tag');
+      }
+
+      router.push(buildItemDetailUrl(itemId, {}));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to bind tag');
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+          <Nfc className="h-6 w-6" />
+        </div>
+        <CardTitle>Claim this tag</CardTitle>
+        <CardDescription>
+          Tag <span className="font-mono">{code}</span> isn&apos;t linked to anything yet.
+          Bind it to an item so the next scan opens it directly.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          className="w-full gap-2"
+          disabled={isClaiming}
+          onClick={() => router.push(`/inventory/new?${new URLSearchParams({
+            claimTag: code,
+            ...(tagId && { claimTagId: tagId }),
+          })}`)}
+        >
+          <Plus className="h-4 w-4" />
+          Create a new item
+        </Button>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Or bind it to an existing item:</p>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search items..."
+              className="pl-9"
+              disabled={isClaiming}
+            />
+          </div>
+
+          {isSearching && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {results.map((item) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-3 p-3 text-left hover:bg-muted disabled:opacity-50"
+                    onClick={() => handleClaim(item.id)}
+                    disabled={isClaiming}
+                  >
+                    <Package className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{item.name}</p>
+                      {item.location?.path && (
+                        <p className="truncate text-xs text-muted-foreground">{item.location.path}</p>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ScanLine, Loader2 } from 'lucide-react';
+import { useNfc } from '@/lib/hooks/useNfc';
+import { buildTagResolverUrl } from '@/lib/utils/url-state';
+
+/**
+ * ScanTagButton Component Props
+ */
+interface ScanTagButtonProps {
+  className?: string;
+}
+
+/**
+ * ScanTagButton - Read an NFC tag and jump to whatever it is bound to
+ *
+ * Navigates through the /t/[code] resolver so the scan is recorded and
+ * unknown tags land in the claim flow. Renders nothing on browsers
+ * without Web NFC.
+ *
+ * @component
+ */
+export function ScanTagButton({ className }: ScanTagButtonProps) {
+  const router = useRouter();
+  const { state, actions } = useNfc();
+
+  if (!state.isSupported) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    if (state.isScanning) {
+      actions.cancel();
+      return;
+    }
+
+    const result = await actions.readTag();
+    if (result) {
+      router.push(buildTagResolverUrl(result.serialNumber));
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      onClick={handleClick}
+      className={className}
+      title={state.error || undefined}
+      aria-label={state.isScanning ? 'Cancel scan' : 'Scan tag'}
+    >
+      {state.isScanning ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <ScanLine className="h-4 w-4 mr-2" />
+      )}
+      {state.isScanning ? 'Scanning…' : 'Scan'}
+    </Button>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Nfc, Loader2, Check } from 'lucide-react';
+import { useNfc } from '@/lib/hooks/useNfc';
+import { buildTagResolverUrl } from '@/lib/utils/url-state';
+import { normalizeNfcTagUid } from '@/lib/validation/nfc-tags';
+import { cn } from '@/lib/utils';
+
+/**
+ * WriteTagButton Component Props
+ */
+interface WriteTagButtonProps {
+  /** Item to bind the tag to */
+  itemId?: string;
+  /** Location to bind the tag to */
+  locationId?: string;
+  /** Optional label stored with the tag */
+  label?: string;
+  variant?: 'default' | 'outline' | 'ghost' | 'secondary';
+  size?: 'default' | 'sm' | 'lg' | 'icon';
+  className?: string;
+  /** Called once the tag has been written and bound */
+  onWritten?: (uid: string) => void;
+}
+
+/**
+ * Register the tag, or rebind it if it's already registered in the household
+ */
+async function bindTag(
+  uid: string,
+  target: { itemId?: string; locationId?: string; label?: string }
+): Promise<void> {
+  const registerResponse = await fetch('/api/v1/tags/nfc', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ uid, ...target }),
+  });
+
+  if (registerResponse.ok) return;
+
+  if (registerResponse.status !== 409) {
+    const payload = await registerResponse.json().catch(() => null);
+    throw new Error(payload?.message || 'Failed to register tag');
+  }
+
+  // Already registered - look it up and move the binding
+  const lookupResponse = await fetch(`/api/v1/tags/nfc?uid=${encodeURIComponent(uid)}`);
+  const lookup = await lookupResponse.json();
+  const existingTag = lookup.data?.[0];
+
+  if (!existingTag) {
+    throw new Error('Failed to find registered tag');
+  }
+
+  const bindResponse = await fetch(`/api/v1/tags/nfc/${existingTag.id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      itemId: target.itemId ?? null,
+      locationId: target.locationId ?? null,
+      ...(target.label && { label: target.label }),
+    }),
+  });
+
+  if (!bindResponse.ok) {
+    const payload = await bindResponse.json().catch(() => null);
+    throw new Error(payload?.message || 'Failed to bind tag');
+  }
+}
+
+/**
+ * WriteTagButton - Write the tag resolver URL to an NFC tag and bind it
+ *
+ * Waits for a tag to be tapped, writes an NDEF URL record pointing at
+ * /t/[uid], then binds that tag to the given item or location.
+ * Renders nothing on browsers without Web NFC.
+ *
+ * @component
+ */
+export function WriteTagButton({
+  itemId,
+  locationId,
+  label,
+  variant = 'outline',
+  size = 'sm',
+  className,
+  onWritten,
+}: WriteTagButtonProps) {
+  const { state, actions } = useNfc();
+  const [isBinding, setIsBinding] = useState(false);
+  const [bindError, setBindError] = useState<string | null>(null);
+  const [writtenUid, setWrittenUid] = useState<string | null>(null);
+
+  if (!state.isSupported) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    if (state.isWriting) {
+      actions.cancel();
+      return;
+    }
+
+    setBindError(null);
+    setWrittenUid(null);
+
+    const result = await actions.writeTag((serialNumber) =>
+      buildTagResolverUrl(normalizeNfcTagUid(serialNumber), window.location.origin)
+    );
+
+    if (!result) return;
+
+    setIsBinding(true);
+    try {
+      const uid = normalizeNfcTagUid(result.serialNumber);
+      await bindTag(uid, { itemId, locationId, label });
+      setWrittenUid(uid);
+      onWritten?.(uid);
+    } catch (error) {
+      setBindError(error instanceof Error ? error.message : 'Failed to bind tag');
+    } finally {
+      setIsBinding(false);
+    }
+  };
+
+  const error = state.error || bindError;
+
+  return (
+    <div className={cn('inline-flex flex-col gap-1', className)}>
+      <Button
+        type="button"
+        variant={variant}
+        size={size}
+        onClick={handleClick}
+        disabled={isBinding}
+        className="gap-2"
+      >
+        {state.isWriting || isBinding ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : writtenUid ? (
+          <Check className="h-4 w-4" />
+        ) : (
+          <Nfc className="h-4 w-4" />
+        )}
+        {state.isWriting ? 'Hold tag to phone… (tap to cancel)' : isBinding ? 'Saving…' : 'Write tag'}
+      </Button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
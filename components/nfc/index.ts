@@ -0,0 +1,8 @@
+/**
+ * Barrel exports for NFC tag components
+ * Provides clean imports for tag scanning and binding components
+ */
+
+export { ClaimTagFlow } from './ClaimTagFlow';
+export { WriteTagButton } from './WriteTagButton';
+export { ScanTagButton } from './ScanTagButton';
@@ -11,14 +11,16 @@
 
 'use client';
 
-import React, { useState, useRef, useCallback, useEffect, KeyboardEvent } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo, KeyboardEvent } from 'react';
 import { Search, X, Clock, MapPin, Tag } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useSearchSuggestions } from '@/lib/hooks/useSearch';
-import type { SearchSuggestion } from '@/lib/types/search';
+import { parseSearchQuery } from '@/lib/services/search-query-parser';
+import type { SearchQueryContext, SearchQueryError } from '@/lib/services/search-query-parser';
+import type { AdvancedSearchQuery, SearchSuggestion } from '@/lib/types/search';
 
 /**
  * Props for the SearchBar component.
@@ -59,6 +61,15 @@ export interface SearchBarProps {
   
   /** Maximum number of suggestions to show */
   maxSuggestions?: number;
+
+  /**
+   * Locations and tags for in: and tag: filters. When set, queries are
+   * parsed before searching and syntax errors are highlighted in place.
+   */
+  queryContext?: SearchQueryContext;
+
+  /** Callback with the parsed query, before onSearch */
+  onAdvancedSearch?: (query: AdvancedSearchQuery) => void;
 }
 
 /**
@@ -95,6 +106,15 @@ export interface SearchBarProps {
  *   maxSuggestions={8}
  * />
  * ```
+ *
+ * @example With structured queries
+ * ```tsx
+ * <SearchBar
+ *   placeholder="drill in:garage tag:tools value:>100"
+ *   queryContext={{ locations, tags }}
+ *   onAdvancedSearch={(query) => search(query)}
+ * />
+ * ```
  */
 export function SearchBar({
   value = '',
@@ -109,12 +129,15 @@ export function SearchBar({
   size = 'md',
   autoFocus = false,
   maxSuggestions = 5,
+  queryContext,
+  onAdvancedSearch,
 }: SearchBarProps) {
   // Local state
   const [internalValue, setInternalValue] = useState(value);
   const [isFocused, setIsFocused] = useState(false);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
   const [showSuggestionList, setShowSuggestionList] = useState(false);
+  const [queryErrors, setQueryErrors] = useState<{ query: string; errors: SearchQueryError[] } | null>(null);
 
   // Refs
   const inputRef = useRef<HTMLInputElement>(null);
@@ -141,6 +164,7 @@ export function SearchBar({
     setInternalValue(newValue);
     setSelectedSuggestionIndex(-1);
     setShowSuggestionList(true);
+    setQueryErrors(null);
     onChange?.(newValue);
   }, [onChange]);
 
@@ -148,11 +172,25 @@ export function SearchBar({
   const handleSearch = useCallback((query?: string) => {
     const searchQuery = query || internalValue;
     if (searchQuery.trim()) {
+      if (queryContext) {
+        const result = parseSearchQuery(searchQuery, queryContext);
+        if (!result.success) {
+          // Keep the input focused with the first problem selected
+          setQueryErrors({ query: searchQuery, errors: result.errors });
+          setShowSuggestionList(false);
+          inputRef.current?.focus();
+          inputRef.current?.setSelectionRange(result.errors[0].start, result.errors[0].end);
+          return;
+        }
+        setQueryErrors(null);
+        onAdvancedSearch?.(result.query);
+      }
+
       onSearch?.(searchQuery.trim());
       setShowSuggestionList(false);
       inputRef.current?.blur();
     }
-  }, [internalValue, onSearch]);
+  }, [internalValue, onSearch, queryContext, onAdvancedSearch]);
 
   // Handle suggestion selection
   const handleSuggestionSelect = useCallback((suggestion: SearchSuggestion) => {
@@ -234,6 +272,7 @@ export function SearchBar({
     setInternalValue('');
     setShowSuggestionList(false);
     setSelectedSuggestionIndex(-1);
+    setQueryErrors(null);
     onChange?.('');
     inputRef.current?.focus();
   }, [onChange]);
@@ -270,6 +309,28 @@ export function SearchBar({
     lg: 'h-12 text-lg',
   };
 
+  // Split the failed query into plain and highlighted segments
+  const errorSegments = useMemo(() => {
+    if (!queryErrors) return [];
+
+    const segments: Array<{ text: string; isError: boolean }> = [];
+    let position = 0;
+    for (const error of queryErrors.errors) {
+      const start = Math.max(error.start, position);
+      if (start > position) {
+        segments.push({ text: queryErrors.query.slice(position, start), isError: false });
+      }
+      if (error.end > start) {
+        segments.push({ text: queryErrors.query.slice(start, error.end), isError: true });
+        position = error.end;
+      }
+    }
+    if (position < queryErrors.query.length) {
+      segments.push({ text: queryErrors.query.slice(position), isError: false });
+    }
+    return segments;
+  }, [queryErrors]);
+
   // Determine if suggestions should be shown
   const shouldShowSuggestions = showSuggestions && 
     showSuggestionList && 
@@ -306,6 +367,8 @@ export function SearchBar({
           )}
           aria-label="Search inventory items"
           aria-autocomplete="list"
+          aria-invalid={queryErrors ? true : undefined}
+          aria-describedby={queryErrors ? 'search-query-errors' : undefined}
           aria-activedescendant={
             selectedSuggestionIndex >= 0 
               ? `suggestion-${selectedSuggestionIndex}`
@@ -348,6 +411,30 @@ export function SearchBar({
         </div>
       </div>
 
+      {/* Query syntax errors */}
+      {queryErrors && (
+        <div
+          id="search-query-errors"
+          role="alert"
+          className="mt-2 rounded-md border border-destructive/50 bg-destructive/5 p-2 text-sm"
+        >
+          <div className="whitespace-pre-wrap break-words font-mono text-xs">
+            {errorSegments.map((segment, index) => segment.isError ? (
+              <mark key={index} className="rounded-sm bg-destructive/20 text-destructive underline decoration-wavy">
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ))}
+          </div>
+          <ul className="mt-1 space-y-0.5 text-destructive">
+            {queryErrors.errors.map((error, index) => (
+              <li key={`${error.start}-${index}`}>{error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Suggestions dropdown */}
       {shouldShowSuggestions && (
         <div className="absolute top-full z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
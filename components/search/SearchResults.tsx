@@ -14,9 +14,9 @@
 
 'use client';
 
-import React, { useMemo, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
-import { MapPin, Tag, Clock, Zap, Database, Grid3X3, List, Eye, BarChart3 } from 'lucide-react';
+import React, { useMemo, useCallback, useEffect, useRef } from 'react';
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import { MapPin, Tag, Clock, Zap, Database, Grid3X3, List, Eye, BarChart3, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -25,13 +25,21 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { ItemCard } from '@/components/inventory/ItemCard';
 import { LocationBreadcrumbs } from '@/components/locations/LocationBreadcrumbs';
 import { highlightSearchTerms, createSearchHighlight } from '@/lib/utils/search-highlighting';
-import { buildItemDetailUrl, buildLocationUrl, parseSearchState, serializeSearchState } from '@/lib/utils/url-state';
+import {
+  buildItemDetailUrl,
+  buildLocationUrl,
+  parseSearchState,
+  serializeSearchState,
+  type SearchUrlState,
+} from '@/lib/utils/url-state';
 import { useKeyboardNavigation } from '@/lib/hooks/useKeyboardNavigation';
 import { logger, withPerformanceLogging, ErrorCategory } from '@/lib/utils/logging';
 import { metrics, searchMetrics, SEARCH_METRICS } from '@/lib/utils/metrics';
 import type { 
   SearchResults as SearchResultsType, 
   SearchResult, 
+  SearchFacets,
+  LocationSearchResult,
   EnhancedSearchResults, 
   EnhancedSearchResult 
 } from '@/lib/types/search';
@@ -58,6 +66,9 @@ export interface SearchResultsProps {
   /** Callback when a result item is clicked */
   onItemClick?: (item: SearchResult) => void;
   
+  /** Callback when a matching location or a breadcrumb is clicked */
+  onLocationClick?: (locationId: string, locationName: string) => void;
+  
   /** Whether to show performance metadata */
   showPerformanceInfo?: boolean;
   
@@ -67,6 +78,9 @@ export interface SearchResultsProps {
   /** Layout style for results */
   layout?: 'grid' | 'list';
   
+  /** Whether to show clickable status, tag and location facets */
+  showFacets?: boolean;
+  
   /** Additional CSS class names */
   className?: string;
 }
@@ -296,6 +310,98 @@ function SearchPerformanceInfo({
   );
 }
 
+/**
+ * Load more button that also loads the next page when scrolled into view.
+ */
+function LoadMoreResults({
+  onLoadMore,
+  isLoadingMore,
+}: {
+  onLoadMore?: () => void;
+  isLoadingMore: boolean;
+}) {
+  const triggerRef = useRef<HTMLDivElement>(null);
+
+  // Infinite scroll: ask for the next page once the button comes near the viewport
+  useEffect(() => {
+    const trigger = triggerRef.current;
+    if (!trigger || !onLoadMore || isLoadingMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(trigger);
+
+    return () => observer.disconnect();
+  }, [onLoadMore, isLoadingMore]);
+
+  return (
+    <div ref={triggerRef} className="flex justify-center pt-4">
+      <Button
+        onClick={onLoadMore}
+        disabled={isLoadingMore}
+        variant="outline"
+        className="min-w-32"
+      >
+        {isLoadingMore ? (
+          <>
+            <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+            Loading...
+          </>
+        ) : (
+          'Load More Results'
+        )}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Locations matching the search, shown above the items.
+ */
+function LocationMatches({
+  locations,
+  query,
+  onLocationClick,
+}: {
+  locations: LocationSearchResult[];
+  query?: string;
+  onLocationClick?: (locationId: string, locationName: string) => void;
+}) {
+  return (
+    <div role="region" aria-label="Matching locations" className="space-y-2">
+      <h2 className="text-sm font-medium text-muted-foreground">Places</h2>
+      <div className="flex flex-wrap gap-2">
+        {locations.map(location => (
+          <Button
+            key={location.id}
+            variant="outline"
+            className="h-auto py-2 flex-col items-start gap-1"
+            disabled={!onLocationClick}
+            onClick={() => onLocationClick?.(location.id, location.name)}
+          >
+            <span className="flex items-center gap-1 font-medium">
+              <MapPin className="h-4 w-4" />
+              <HighlightedText text={location.name} query={query} />
+            </span>
+            <span className="text-xs text-muted-foreground font-normal">
+              {location.pathComponents.length > 1
+                ? `${location.pathComponents.slice(0, -1).map(component => component.name).join(' → ')} · `
+                : ''}
+              {location.itemCount} item{location.itemCount === 1 ? '' : 's'}
+            </span>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Component for highlighting search terms within text.
  */
@@ -344,6 +450,128 @@ function HighlightedText({
   return <span className={className}>{highlightedText}</span>;
 }
 
+/**
+ * Facet groups in display order, keyed by their URL state filter.
+ */
+const FACET_GROUPS = [
+  { key: 'statuses', facet: 'statuses', title: 'Status' },
+  { key: 'tags', facet: 'tags', title: 'Tags' },
+  { key: 'locations', facet: 'locations', title: 'Location' },
+] as const;
+
+/**
+ * Props for the search facet filters.
+ */
+export interface SearchFacetFiltersProps {
+  /** Facet counts from the search results */
+  facets: SearchFacets;
+
+  /** Current URL search parameters; read from the router when omitted */
+  urlSearchParams?: URLSearchParams;
+
+  /** Additional CSS class names */
+  className?: string;
+}
+
+/**
+ * Clickable status, tag and location facets for narrowing search results.
+ * 
+ * Selecting a facet toggles its filter in the page URL through the search
+ * URL state, so the selection survives reloads, sharing and back navigation.
+ * Selected facets stay visible so they can be cleared again.
+ * 
+ * @param props - SearchFacetFilters component props
+ * @returns JSX.Element The rendered facet filters
+ * 
+ * @example
+ * ```tsx
+ * {results.facets && <SearchFacetFilters facets={results.facets} />}
+ * ```
+ */
+export function SearchFacetFilters({ facets, urlSearchParams, className }: SearchFacetFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const routerSearchParams = useSearchParams();
+  const currentParams = urlSearchParams ?? routerSearchParams;
+  const searchState = useMemo(() => parseSearchState(currentParams), [currentParams]);
+
+  const hasActiveFilters = FACET_GROUPS.some(group => (searchState[group.key]?.length ?? 0) > 0);
+
+  // Write the new filters to the URL, back on the first page
+  const applyFilters = useCallback((changes: Partial<SearchUrlState>) => {
+    const params = serializeSearchState(
+      { ...searchState, ...changes, page: undefined },
+      new URLSearchParams(currentParams.toString())
+    );
+    router.replace(`${pathname}?${params}`);
+  }, [searchState, currentParams, pathname, router]);
+
+  const handleToggle = useCallback((key: typeof FACET_GROUPS[number]['key'], value: string) => {
+    const selected = searchState[key] ?? [];
+    const next = selected.includes(value)
+      ? selected.filter(selectedValue => selectedValue !== value)
+      : [...selected, value];
+
+    logger.info('Search facet toggled', { facet: key, selected: next.length });
+    applyFilters({ [key]: next });
+  }, [searchState, applyFilters]);
+
+  if (!hasActiveFilters && FACET_GROUPS.every(group => facets[group.facet].length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-3 space-y-3">
+        {FACET_GROUPS.map(group => {
+          const selected = searchState[group.key] ?? [];
+          const entries = facets[group.facet];
+          if (entries.length === 0 && selected.length === 0) return null;
+
+          return (
+            <div key={group.key} role="group" aria-label={`Filter by ${group.title.toLowerCase()}`} className="flex items-center gap-2 flex-wrap">
+              <span className="text-xs font-medium text-muted-foreground w-16">{group.title}</span>
+              {entries.map(entry => {
+                const isSelected = selected.includes(entry.value);
+                return (
+                  <Button
+                    key={entry.value}
+                    type="button"
+                    variant={isSelected ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    aria-pressed={isSelected}
+                    onClick={() => handleToggle(group.key, entry.value)}
+                  >
+                    {entry.color && (
+                      <span className="mr-1 h-2 w-2 rounded-full" style={{ backgroundColor: entry.color }} />
+                    )}
+                    {entry.label}
+                    <span className="ml-1 opacity-70">{entry.count}</span>
+                  </Button>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        {hasActiveFilters && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => applyFilters({ statuses: [], tags: [], locations: [] })}
+          >
+            <X className="h-3 w-3 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 /**
  * SearchResults component for displaying search results with comprehensive features.
  * 
@@ -384,9 +612,11 @@ export function SearchResults({
   isLoadingMore = false,
   onLoadMore,
   onItemClick,
+  onLocationClick,
   showPerformanceInfo = true,
   highlightQuery = true,
   layout = 'grid',
+  showFacets = true,
   className,
 }: SearchResultsProps) {
   // Loading skeleton
@@ -429,6 +659,20 @@ export function SearchResults({
         <SearchPerformanceInfo results={results} query={query} />
       )}
 
+      {/* Facet filters */}
+      {showFacets && results.facets && (
+        <SearchFacetFilters facets={results.facets} />
+      )}
+
+      {/* Locations matching the search */}
+      {results.locations?.length > 0 && (
+        <LocationMatches
+          locations={results.locations}
+          query={highlightQuery ? query : undefined}
+          onLocationClick={onLocationClick}
+        />
+      )}
+
       {/* Results grid/list */}
       <div
         role="region"
@@ -489,18 +733,25 @@ export function SearchResults({
                         )}
                       </div>
 
-                      {/* Location and tags */}
+                      {/* Where is it */}
+                      {item.location && (
+                        <div onClick={(event) => event.stopPropagation()}>
+                          <LocationBreadcrumbs
+                            pathComponents={item.location.pathComponents || [
+                              { id: item.location.id, name: item.location.name }
+                            ]}
+                            onLocationClick={onLocationClick}
+                            interactive={Boolean(onLocationClick)}
+                            size="sm"
+                            maxComponents={3}
+                            ariaLabel={`Where ${item.name} is`}
+                            className="text-xs"
+                          />
+                        </div>
+                      )}
+
+                      {/* Tags */}
                       <div className="flex items-center gap-2 flex-wrap">
-                        {item.location && (
-                          <Badge variant="outline" className="text-xs">
-                            <MapPin className="h-3 w-3 mr-1" />
-                            <HighlightedText
-                              text={item.location.name}
-                              query={highlightQuery ? query : undefined}
-                            />
-                          </Badge>
-                        )}
-                        
                         {item.tags?.slice(0, 3).map(tag => (
                           <Badge
                             key={tag.id}
@@ -543,25 +794,9 @@ export function SearchResults({
         ))}
       </div>
 
-      {/* Load more button */}
+      {/* Load more button and infinite scroll */}
       {results.hasMore && (
-        <div className="flex justify-center pt-4">
-          <Button
-            onClick={onLoadMore}
-            disabled={isLoadingMore}
-            variant="outline"
-            className="min-w-32"
-          >
-            {isLoadingMore ? (
-              <>
-                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                Loading...
-              </>
-            ) : (
-              'Load More Results'
-            )}
-          </Button>
-        </div>
+        <LoadMoreResults onLoadMore={onLoadMore} isLoadingMore={isLoadingMore} />
       )}
 
       {/* Results summary for screen readers */}
@@ -619,6 +854,7 @@ export function SearchResultsV2({
   enableQuickPreview = false,
   showSearchStats = true,
   layout = 'grid',
+  showFacets = true,
   className,
   urlSearchParams,
 }: SearchResultsV2Props) {
@@ -667,7 +903,7 @@ export function SearchResultsV2({
         } else {
           // Default navigation to item detail
           const currentSearchState = urlSearchParams 
-            ? parseSearchState(urlSearchParams as any)
+            ? parseSearchState(urlSearchParams)
             : { query, viewMode: layout };
           
           const detailUrl = buildItemDetailUrl(item.id, currentSearchState);
@@ -697,7 +933,7 @@ export function SearchResultsV2({
       } else {
         // Default navigation to location page
         const currentSearchState = urlSearchParams 
-          ? parseSearchState(urlSearchParams as any)
+          ? parseSearchState(urlSearchParams)
           : { query, viewMode: layout };
         
         const locationUrl = buildLocationUrl(locationId, currentSearchState);
@@ -850,6 +1086,11 @@ export function SearchResultsV2({
         <EnhancedSearchPerformanceInfo results={results} query={query} />
       )}
 
+      {/* Facet filters */}
+      {showFacets && results.facets && (
+        <SearchFacetFilters facets={results.facets} urlSearchParams={urlSearchParams} />
+      )}
+
       {/* View mode controls */}
       {onViewModeChange && (
         <div className="flex justify-between items-center">
@@ -1030,25 +1271,9 @@ export function SearchResultsV2({
         })}
       </div>
 
-      {/* Load more button */}
+      {/* Load more button and infinite scroll */}
       {results.hasMore && (
-        <div className="flex justify-center pt-4">
-          <Button
-            onClick={onLoadMore}
-            disabled={isLoadingMore}
-            variant="outline"
-            className="min-w-32"
-          >
-            {isLoadingMore ? (
-              <>
-                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                Loading...
-              </>
-            ) : (
-              'Load More Results'
-            )}
-          </Button>
-        </div>
+        <LoadMoreResults onLoadMore={onLoadMore} isLoadingMore={isLoadingMore} />
       )}
 
       {/* Results summary for screen readers */}
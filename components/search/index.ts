@@ -6,8 +6,8 @@
 export { SearchBar } from './SearchBar';
 export type { SearchBarProps } from './SearchBar';
 
-export { SearchResults, SearchResultsV2 } from './SearchResults';
-export type { SearchResultsProps, SearchResultsV2Props } from './SearchResults';
+export { SearchResults, SearchResultsV2, SearchFacetFilters } from './SearchResults';
+export type { SearchResultsProps, SearchResultsV2Props, SearchFacetFiltersProps } from './SearchResults';
 
 export { SearchResultsLoading } from './SearchResultsLoading';
 export type { SearchResultsLoadingProps } from './SearchResultsLoading';
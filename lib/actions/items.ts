@@ -10,6 +10,7 @@ import {
   validateUpdateItem 
 } from '@/lib/validation/items';
 import { redirect } from 'next/navigation';
+import { requireHouseholdPermission } from '@/lib/utils/household-context';
 
 /**
  * Form state interface for React 19 useActionState
@@ -22,6 +23,42 @@ interface FormState {
   message?: string;
 }
 
+/**
+ * Read the JSON-encoded metadata field ItemForm submits (barcode and any
+ * other keys already on the item)
+ */
+function parseMetadataField(formData: FormData): Record<string, unknown> | undefined {
+  const raw = formData.get('metadata')?.toString();
+  if (!raw) return undefined;
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the comma-separated tag IDs ItemForm submits; undefined when the
+ * form has no tag field, an empty list when every tag was removed
+ */
+function parseTagIdsField(formData: FormData): string[] | undefined {
+  const raw = formData.get('tagIds')?.toString();
+  if (raw === undefined) return undefined;
+
+  return raw.split(',').map(tagId => tagId.trim()).filter(Boolean);
+}
+
+/**
+ * Form field an issue belongs to; metadata issues keep their key
+ * (`metadata.barcode`, `metadata.<custom field key>`) so ItemForm can show
+ * them next to the right input
+ */
+function getFieldErrorKey(path: Array<string | number>): string {
+  return path[0] === 'metadata' && path.length > 1 ? `metadata.${path[1]}` : String(path[0]);
+}
+
 /**
  * Server action for creating a new inventory item with React 19 useActionState pattern.
  * 
@@ -74,19 +111,21 @@ export async function createItemAction(prevState: FormState, formData: FormData)
       name: formData.get('name')?.toString(),
       description: formData.get('description')?.toString() || undefined,
       locationId: formData.get('locationId')?.toString(),
+      categoryId: formData.get('categoryId')?.toString() || undefined,
+      tagIds: parseTagIdsField(formData),
       quantity: Number(formData.get('quantity')) || 1,
       unit: formData.get('unit')?.toString() || 'piece',
       purchasePrice: formData.get('purchasePrice') ? Number(formData.get('purchasePrice')) : undefined,
       currentValue: formData.get('currentValue') ? Number(formData.get('currentValue')) : undefined,
       purchaseDate: formData.get('purchaseDate')?.toString() || undefined,
+      metadata: parseMetadataField(formData),
     };
 
     // 3. Validate data against schema
     const validatedData = validateCreateItem(rawData);
 
-    // 4. Get user's household ID (assuming from session or user profile)
-    // Note: This would need to be implemented based on your household management
-    const householdId = session.user.householdId || 'temp-household-id';
+    // 4. Get user's household and check their permission
+    const { householdId } = await requireHouseholdPermission(session, 'items:create');
 
     // 5. Create the item
     const item = await itemsService.createItem(
@@ -114,7 +153,7 @@ export async function createItemAction(prevState: FormState, formData: FormData)
       const fieldErrors: Record<string, string> = {};
       error.errors.forEach((err: any) => {
         if (err.path.length > 0) {
-          fieldErrors[err.path[0]] = err.message;
+          fieldErrors[getFieldErrorKey(err.path)] = err.message;
         }
       });
 
@@ -161,6 +200,13 @@ export async function updateItemAction(itemId: string, prevState: FormState, for
     const locationId = formData.get('locationId')?.toString();
     if (locationId) rawData.locationId = locationId;
     
+    // An empty selection takes the item out of its category
+    const categoryId = formData.get('categoryId')?.toString();
+    if (categoryId !== undefined) rawData.categoryId = categoryId || null;
+    
+    const tagIds = parseTagIdsField(formData);
+    if (tagIds) rawData.tagIds = tagIds;
+    
     const quantity = formData.get('quantity')?.toString();
     if (quantity) rawData.quantity = Number(quantity);
     
@@ -175,12 +221,15 @@ export async function updateItemAction(itemId: string, prevState: FormState, for
     
     const purchaseDate = formData.get('purchaseDate')?.toString();
     if (purchaseDate) rawData.purchaseDate = purchaseDate;
+    
+    const metadata = parseMetadataField(formData);
+    if (metadata) rawData.metadata = metadata;
 
     // 3. Validate data against schema
     const validatedData = validateUpdateItem(rawData);
 
-    // 4. Get user's household ID
-    const householdId = session.user.householdId || 'temp-household-id';
+    // 4. Get user's household and check their permission
+    const { householdId } = await requireHouseholdPermission(session, 'items:update');
 
     // 5. Update the item
     const item = await itemsService.updateItem(
@@ -210,7 +259,7 @@ export async function updateItemAction(itemId: string, prevState: FormState, for
       const fieldErrors: Record<string, string> = {};
       error.errors.forEach((err: any) => {
         if (err.path.length > 0) {
-          fieldErrors[err.path[0]] = err.message;
+          fieldErrors[getFieldErrorKey(err.path)] = err.message;
         }
       });
 
@@ -241,8 +290,8 @@ export async function deleteItemAction(itemId: string) {
       throw new Error('Authentication required');
     }
 
-    // 2. Get user's household ID
-    const householdId = session.user.householdId || 'temp-household-id';
+    // 2. Get user's household and check their permission
+    const { householdId } = await requireHouseholdPermission(session, 'items:delete');
 
     // 3. Delete the item (soft delete)
     await itemsService.deleteItem(
@@ -4,6 +4,10 @@ import { auth } from '@/lib/auth';
 import { validateImageFile } from '@/lib/utils/file-validation';
 import { processAndUploadPhoto, deletePhotoFromStorage } from '@/lib/utils/photos';
 import { revalidatePath } from 'next/cache';
+import { ActivityAction, ActivityEntityType } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { activityLogService } from '@/lib/services/activity';
+import { requireHouseholdPermission, PermissionError } from '@/lib/utils/household-context';
 
 /**
  * Server action for secure photo upload
@@ -20,7 +24,10 @@ export async function uploadPhotoAction(itemId: string, formData: FormData) {
       };
     }
 
-    // 2. Extract file from form data
+    // 2. Household context and photo permission
+    const { householdId } = await requireHouseholdPermission(session, 'photos:manage');
+
+    // 3. Extract file from form data
     const file = formData.get('photo') as File;
     if (!file || file.size === 0) {
       return { 
@@ -29,7 +36,7 @@ export async function uploadPhotoAction(itemId: string, formData: FormData) {
       };
     }
 
-    // 3. Comprehensive file validation (SEC-003 mitigation)
+    // 4. Comprehensive file validation (SEC-003 mitigation)
     const validationResult = await validateImageFile(file);
     if (!validationResult.valid) {
       return { 
@@ -38,11 +45,11 @@ export async function uploadPhotoAction(itemId: string, formData: FormData) {
       };
     }
 
-    // 4. Process and store the photo securely (S3 or local)
+    // 5. Process and store the photo securely (S3 or local)
     const fileBuffer = Buffer.from(await file.arrayBuffer());
     const photoResult = await processAndUploadPhoto(
       fileBuffer,
-      session.user.householdId!, // We know this exists from auth
+      householdId,
       {
         itemId,
         uploadedBy: session.user.id,
@@ -50,7 +57,7 @@ export async function uploadPhotoAction(itemId: string, formData: FormData) {
       }
     );
 
-    // 5. TODO: Update database with photo information
+    // 6. TODO: Update database with photo information
     // This would integrate with the items service to store photo metadata
     // await itemsService.addItemPhoto(itemId, {
     //   photoUrl: photoResult.photoUrl,
@@ -58,7 +65,7 @@ export async function uploadPhotoAction(itemId: string, formData: FormData) {
     //   metadata: photoResult.metadata
     // });
 
-    // 6. Revalidate relevant paths
+    // 7. Revalidate relevant paths
     revalidatePath(`/inventory/${itemId}`);
     revalidatePath('/inventory');
 
@@ -76,7 +83,9 @@ export async function uploadPhotoAction(itemId: string, formData: FormData) {
     // Provide user-friendly error messages while logging details
     let userMessage = 'Photo upload failed';
     
-    if (error instanceof Error) {
+    if (error instanceof PermissionError) {
+      userMessage = error.message;
+    } else if (error instanceof Error) {
       if (error.message.includes('processing failed')) {
         userMessage = 'The image could not be processed. Please try a different image.';
       } else if (error.message.includes('storage')) {
@@ -95,7 +104,9 @@ export async function uploadPhotoAction(itemId: string, formData: FormData) {
 
 /**
  * Server action for removing a photo
- * Cleans up stored files and database references
+ * Deletes one photo, or every photo of the item when no photo is given,
+ * records each deletion in the item's activity timeline and cleans up the
+ * stored files
  */
 export async function removePhotoAction(itemId: string, photoId?: string) {
   try {
@@ -108,23 +119,65 @@ export async function removePhotoAction(itemId: string, photoId?: string) {
       };
     }
 
-    // 2. TODO: Verify user has permission to modify this item
-    // This would check the item belongs to the user's household
+    // 2. Verify the user may manage photos in their household
+    const { householdId } = await requireHouseholdPermission(session, 'photos:manage');
+    const userId = session.user.id;
 
-    // 3. Remove specific photo or all photos for item
-    if (photoId) {
-      // TODO: Remove specific photo from database and filesystem
-      // For MVP, we'll implement removal of all photos for the item
+    // 3. Find the photos, only on items in the household
+    const photos = await prisma.itemPhoto.findMany({
+      where: {
+        itemId,
+        ...(photoId && { id: photoId }),
+        item: { householdId },
+      },
+      select: {
+        id: true,
+        filename: true,
+        originalUrl: true,
+        thumbnailUrl: true,
+        item: { select: { name: true } },
+      },
+    });
+
+    if (photoId && photos.length === 0) {
+      return {
+        success: false,
+        error: 'Photo not found'
+      };
     }
-    
-    // Remove all photos for the item (MVP approach - single photo per item)
-    // TODO: Get photo URLs from database and delete them
-    // For now, this is a placeholder - photos would be deleted when item is deleted
 
-    // 4. TODO: Update database to remove photo references
-    // await itemsService.removeItemPhotos(itemId);
+    // 4. Delete the photo records, with the item's activity entries
+    await prisma.$transaction(async (tx) => {
+      await tx.itemPhoto.deleteMany({
+        where: { id: { in: photos.map(photo => photo.id) } },
+      });
+
+      for (const photo of photos) {
+        await activityLogService.recordActivity(tx, {
+          householdId,
+          userId,
+          entityType: ActivityEntityType.ITEM,
+          entityId: itemId,
+          action: ActivityAction.PHOTO_DELETED,
+          metadata: {
+            itemName: photo.item.name,
+            photoId: photo.id,
+            filename: photo.filename,
+          },
+        });
+      }
+    });
+
+    // 5. Remove the stored files; a file left behind does not undo the deletion
+    for (const photo of photos) {
+      try {
+        await deletePhotoFromStorage(photo.originalUrl, photo.thumbnailUrl);
+      } catch (error) {
+        console.error('Photo file cleanup error:', error);
+      }
+    }
 
-    // 5. Revalidate relevant paths
+    // 6. Revalidate relevant paths
     revalidatePath(`/inventory/${itemId}`);
     revalidatePath('/inventory');
 
@@ -138,7 +191,7 @@ export async function removePhotoAction(itemId: string, photoId?: string) {
     
     return {
       success: false,
-      error: 'Failed to remove photo'
+      error: error instanceof PermissionError ? error.message : 'Failed to remove photo'
     };
   }
 }
@@ -344,6 +344,20 @@ export const authOptions: NextAuthOptions = {
       if (trigger === 'update' && session) {
         token.name = session.name;
         token.email = session.email;
+
+        // Switch household (e.g. after accepting an invitation) - membership is re-checked
+        if (session.householdId && token.id) {
+          const memberships = await prisma.householdMember.findMany({
+            where: { userId: token.id as string },
+            select: { householdId: true },
+          });
+          const householdIds = memberships.map((m) => m.householdId);
+
+          token.householdIds = householdIds;
+          if (householdIds.includes(session.householdId)) {
+            token.householdId = session.householdId;
+          }
+        }
       }
 
       return token;
@@ -245,6 +245,27 @@ export const getCdnUrl = (key: string): string => {
   return `https://${bucket}.s3.${region}.amazonaws.com/${key}`;
 };
 
+/**
+ * Recovers the S3 object key from a CDN or direct S3 URL built by getCdnUrl.
+ *
+ * @param url - Photo or file URL
+ * @returns Object key, or null when the URL cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * getStorageKeyFromUrl('https://d1234567.cloudfront.net/items/123/photos/image.webp');
+ * // 'items/123/photos/image.webp'
+ * ```
+ */
+export const getStorageKeyFromUrl = (url: string): string | null => {
+  try {
+    const key = decodeURIComponent(new URL(url).pathname.replace(/^\/+/, ''));
+    return key || null;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Type definitions for storage-related operations.
  */
@@ -1,4 +1,4 @@
-import { PrismaClient, LocationType, ItemStatus, PhotoStatus } from '@prisma/client';
+import { PrismaClient, LocationType, ItemStatus, PhotoStatus, DepreciationMethod } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -205,12 +205,163 @@ export const seedTags = [
   },
 ];
 
+export const seedCategories = [
+  // Johnson Family starter taxonomy
+  {
+    id: '990e8400-e29b-41d4-a716-446655440001',
+    householdId: 'household-1',
+    name: 'Electronics',
+    parentId: null,
+    path: 'Electronics',
+    level: 0,
+    depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+    usefulLifeYears: 5,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440002',
+    householdId: 'household-1',
+    name: 'Audio',
+    parentId: '990e8400-e29b-41d4-a716-446655440001',
+    path: 'Electronics > Audio',
+    level: 1,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440003',
+    householdId: 'household-1',
+    name: 'Headphones',
+    parentId: '990e8400-e29b-41d4-a716-446655440002',
+    path: 'Electronics > Audio > Headphones',
+    level: 2,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440004',
+    householdId: 'household-1',
+    name: 'Computers',
+    parentId: '990e8400-e29b-41d4-a716-446655440001',
+    path: 'Electronics > Computers',
+    level: 1,
+    depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+    usefulLifeYears: 3,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440005',
+    householdId: 'household-1',
+    name: 'Tools',
+    parentId: null,
+    path: 'Tools',
+    level: 0,
+    depreciationMethod: DepreciationMethod.DECLINING_BALANCE,
+    depreciationRate: 20,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440006',
+    householdId: 'household-1',
+    name: 'Power Tools',
+    parentId: '990e8400-e29b-41d4-a716-446655440005',
+    path: 'Tools > Power Tools',
+    level: 1,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440007',
+    householdId: 'household-1',
+    name: 'Hand Tools',
+    parentId: '990e8400-e29b-41d4-a716-446655440005',
+    path: 'Tools > Hand Tools',
+    level: 1,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440008',
+    householdId: 'household-1',
+    name: 'Kitchen',
+    parentId: null,
+    path: 'Kitchen',
+    level: 0,
+    depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+    usefulLifeYears: 8,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440009',
+    householdId: 'household-1',
+    name: 'Appliances',
+    parentId: '990e8400-e29b-41d4-a716-446655440008',
+    path: 'Kitchen > Appliances',
+    level: 1,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440010',
+    householdId: 'household-1',
+    name: 'Furniture',
+    parentId: null,
+    path: 'Furniture',
+    level: 0,
+    depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+    usefulLifeYears: 10,
+  },
+  
+  // Bob's starter taxonomy
+  {
+    id: '990e8400-e29b-41d4-a716-446655440011',
+    householdId: 'household-2',
+    name: 'Electronics',
+    parentId: null,
+    path: 'Electronics',
+    level: 0,
+    depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+    usefulLifeYears: 5,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440012',
+    householdId: 'household-2',
+    name: 'Audio',
+    parentId: '990e8400-e29b-41d4-a716-446655440011',
+    path: 'Electronics > Audio',
+    level: 1,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440013',
+    householdId: 'household-2',
+    name: 'Headphones',
+    parentId: '990e8400-e29b-41d4-a716-446655440012',
+    path: 'Electronics > Audio > Headphones',
+    level: 2,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440014',
+    householdId: 'household-2',
+    name: 'Gaming',
+    parentId: '990e8400-e29b-41d4-a716-446655440011',
+    path: 'Electronics > Gaming',
+    level: 1,
+    depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+    usefulLifeYears: 4,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440015',
+    householdId: 'household-2',
+    name: 'TV & Video',
+    parentId: '990e8400-e29b-41d4-a716-446655440011',
+    path: 'Electronics > TV & Video',
+    level: 1,
+  },
+  {
+    id: '990e8400-e29b-41d4-a716-446655440016',
+    householdId: 'household-2',
+    name: 'Furniture',
+    parentId: null,
+    path: 'Furniture',
+    level: 0,
+    depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+    usefulLifeYears: 10,
+  },
+];
+
 export const seedItems = [
   // Johnson Family items
   {
     id: '770e8400-e29b-41d4-a716-446655440001',
     householdId: 'household-1',
     locationId: '550e8400-e29b-41d4-a716-446655440003', // Tool Drawer
+    categoryId: '990e8400-e29b-41d4-a716-446655440006',
     name: 'Power Drill',
     description: 'Cordless 18V power drill with battery and charger',
     quantity: 1,
@@ -231,6 +382,7 @@ export const seedItems = [
     id: '770e8400-e29b-41d4-a716-446655440002',
     householdId: 'household-1',
     locationId: '550e8400-e29b-41d4-a716-446655440003', // Tool Drawer
+    categoryId: '990e8400-e29b-41d4-a716-446655440007',
     name: 'Screwdriver Set',
     description: 'Phillips and flathead screwdrivers, various sizes',
     quantity: 1,
@@ -250,6 +402,7 @@ export const seedItems = [
     id: '770e8400-e29b-41d4-a716-446655440003',
     householdId: 'household-1',
     locationId: '550e8400-e29b-41d4-a716-446655440005', // Pantry
+    categoryId: '990e8400-e29b-41d4-a716-446655440009',
     name: 'Stand Mixer',
     description: 'Heavy duty stand mixer for baking',
     quantity: 1,
@@ -270,6 +423,7 @@ export const seedItems = [
     id: '770e8400-e29b-41d4-a716-446655440004',
     householdId: 'household-1',
     locationId: '550e8400-e29b-41d4-a716-446655440002', // Workbench
+    categoryId: '990e8400-e29b-41d4-a716-446655440006',
     name: 'Circular Saw',
     description: '7-1/4" circular saw with laser guide',
     quantity: 1,
@@ -294,6 +448,7 @@ export const seedItems = [
     id: '770e8400-e29b-41d4-a716-446655440005',
     householdId: 'household-2',
     locationId: '550e8400-e29b-41d4-a716-446655440007', // TV Stand
+    categoryId: '990e8400-e29b-41d4-a716-446655440014',
     name: 'Gaming Console',
     description: 'PlayStation 5 gaming console',
     quantity: 1,
@@ -314,6 +469,7 @@ export const seedItems = [
     id: '770e8400-e29b-41d4-a716-446655440006',
     householdId: 'household-2',
     locationId: '550e8400-e29b-41d4-a716-446655440007', // TV Stand
+    categoryId: '990e8400-e29b-41d4-a716-446655440015',
     name: '4K TV',
     description: '55" OLED 4K Smart TV',
     quantity: 1,
@@ -427,6 +583,7 @@ export async function seedDevelopmentData() {
   await prisma.itemTag.deleteMany();
   await prisma.itemPhoto.deleteMany();
   await prisma.item.deleteMany();
+  await prisma.category.deleteMany();
   await prisma.tag.deleteMany();
   await prisma.location.deleteMany();
   await prisma.householdMember.deleteMany();
@@ -498,6 +655,14 @@ export async function seedDevelopmentData() {
   }
   console.log('🏷️ Seeded tags');
 
+  // Seed categories (parents are listed before their subcategories)
+  for (const category of seedCategories) {
+    await prisma.category.create({
+      data: category,
+    });
+  }
+  console.log('🗂️ Seeded categories');
+
   // Seed items
   for (const item of seedItems) {
     await prisma.item.create({
@@ -525,6 +690,9 @@ export async function seedDevelopmentData() {
   // Update location statistics
   await updateLocationStatistics();
 
+  // Match tag usage counts to the seeded item tags
+  await updateTagUsageCounts();
+
   console.log('✅ Development data seeding completed successfully!');
 }
 
@@ -560,4 +728,24 @@ async function updateLocationStatistics() {
   }
 
   console.log('📊 Updated location statistics');
-}
\ No newline at end of file
+}
+
+/**
+ * Set each tag's usage count to the number of items carrying it
+ */
+async function updateTagUsageCounts() {
+  const tags = await prisma.tag.findMany({
+    include: {
+      _count: { select: { items: true } },
+    },
+  });
+
+  for (const tag of tags) {
+    await prisma.tag.update({
+      where: { id: tag.id },
+      data: { usageCount: tag._count.items },
+    });
+  }
+
+  console.log('🏷️ Updated tag usage counts');
+}
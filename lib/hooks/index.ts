@@ -8,6 +8,22 @@ export { useDebounce, useAdvancedDebounce, useDebounceCallback } from './useDebo
 
 // Feature-specific hooks
 export { useSearch, useSearchSuggestions } from './useSearch';
+export { useNfc } from './useNfc';
+export { useItemHistory } from './useItemHistory';
+export { useItemLoans } from './useItemLoans';
+export { useHouseholdMembers } from './useHouseholdMembers';
+export { useCustomFields } from './useCustomFields';
+export { useCategories } from './useCategories';
+export { useTags } from './useTags';
+export { useSavedSearches } from './useSavedSearches';
 
 // Re-export types
-export type { UseSearchOptions, UseSearchReturn } from './useSearch';
\ No newline at end of file
+export type { UseSearchOptions, UseSearchReturn } from './useSearch';
+export type { NfcState, NfcTagReadResult, UseNfcReturn } from './useNfc';
+export type { UseItemHistoryReturn } from './useItemHistory';
+export type { LendItemRequest, ReturnItemRequest, UseItemLoansReturn } from './useItemLoans';
+export type { InviteMemberRequest, UseHouseholdMembersReturn } from './useHouseholdMembers';
+export type { CreateCustomFieldRequest, UpdateCustomFieldRequest, UseCustomFieldsReturn } from './useCustomFields';
+export type { CreateCategoryRequest, UpdateCategoryRequest, UseCategoriesReturn } from './useCategories';
+export type { CreateTagRequest, UpdateTagRequest, UseTagsReturn } from './useTags';
+export type { CreateSavedSearchRequest, UpdateSavedSearchRequest, UseSavedSearchesReturn } from './useSavedSearches';
@@ -9,6 +9,8 @@ import {
   isCameraSupported,
   type CameraPermissionState
 } from '@/lib/utils/pwa';
+import { startFrameScanner, type FrameScannerOptions } from '@/lib/utils/barcode';
+import type { ScannedCode } from '@/lib/types/barcodes';
 
 /**
  * Camera hook state interface
@@ -25,6 +27,7 @@ export interface CameraState {
   currentDeviceId: string | null;
   hasMultipleCameras: boolean;
   stream: MediaStream | null;
+  isScanning: boolean;
 }
 
 /**
@@ -39,6 +42,12 @@ export interface UseCameraReturn {
     stopCamera: () => void;
     switchCamera: () => Promise<void>;
     capturePhoto: (videoElement: HTMLVideoElement, quality?: number) => Promise<Blob>;
+    startScanning: (
+      videoElement: HTMLVideoElement,
+      onDetected: (code: ScannedCode) => void,
+      options?: FrameScannerOptions
+    ) => void;
+    stopScanning: () => void;
   };
 }
 
@@ -59,8 +68,10 @@ export function useCamera(): UseCameraReturn {
     currentDeviceId: null,
     hasMultipleCameras: false,
     stream: null,
+    isScanning: false,
   });
 
+  const stopScannerRef = useRef<(() => void) | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const currentConstraintsRef = useRef<MediaStreamConstraints>({
     video: {
@@ -225,6 +236,10 @@ export function useCamera(): UseCameraReturn {
    */
   const stopCamera = useCallback(() => {
     try {
+      // No stream, nothing to scan
+      stopScannerRef.current?.();
+      stopScannerRef.current = null;
+
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => {
           track.stop();
@@ -235,6 +250,7 @@ export function useCamera(): UseCameraReturn {
       setState(prev => ({
         ...prev,
         isActive: false,
+        isScanning: false,
         stream: null,
         currentDeviceId: null,
       }));
@@ -321,14 +337,45 @@ export function useCamera(): UseCameraReturn {
     });
   }, []);
 
+  /**
+   * Stop continuous code scanning
+   */
+  const stopScanning = useCallback(() => {
+    if (stopScannerRef.current) {
+      stopScannerRef.current();
+      stopScannerRef.current = null;
+      console.log('🔍 Code scanning stopped');
+    }
+    setState(prev => ({ ...prev, isScanning: false }));
+  }, []);
+
+  /**
+   * Start continuously decoding QR codes and barcodes from the video stream
+   * Frames are decoded server-side on the barcode worker pool
+   */
+  const startScanning = useCallback((
+    videoElement: HTMLVideoElement,
+    onDetected: (code: ScannedCode) => void,
+    options?: FrameScannerOptions
+  ) => {
+    stopScannerRef.current?.();
+    stopScannerRef.current = startFrameScanner(videoElement, onDetected, {
+      ...options,
+      onError: options?.onError ?? ((error) => console.warn('⚠️ Frame decode failed:', error)),
+    });
+    setState(prev => ({ ...prev, isScanning: true, error: null }));
+    console.log('🔍 Code scanning started');
+  }, []);
+
   /**
    * Clean up on unmount
    */
   useEffect(() => {
     return () => {
+      stopScanning();
       stopCamera();
     };
-  }, [stopCamera]);
+  }, [stopScanning, stopCamera]);
 
   /**
    * Initialize on mount
@@ -346,6 +393,8 @@ export function useCamera(): UseCameraReturn {
       stopCamera,
       switchCamera,
       capturePhoto,
+      startScanning,
+      stopScanning,
     },
   };
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+/**
+ * useCategories Hook
+ *
+ * Loads the current household's category tree, and adds, changes and
+ * deletes categories through the /api/v1/categories endpoints.
+ *
+ * @category Hooks
+ * @since 1.15.0
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { DepreciationMethod } from '@prisma/client';
+import type { CategoryEntry } from '@/lib/types/categories';
+
+/**
+ * Details for adding a category
+ */
+export interface CreateCategoryRequest {
+  name: string;
+  parentId?: string | null;
+  depreciationMethod?: DepreciationMethod | null;
+  usefulLifeYears?: number | null;
+  depreciationRate?: number | null;
+  customFieldIds?: string[];
+}
+
+/**
+ * Changes to a category
+ */
+export type UpdateCategoryRequest = Partial<CreateCategoryRequest>;
+
+/**
+ * Categories hook state and methods.
+ */
+export interface UseCategoriesReturn {
+  // State
+  categories: CategoryEntry[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  createCategory: (request: CreateCategoryRequest) => Promise<boolean>;
+  updateCategory: (categoryId: string, request: UpdateCategoryRequest) => Promise<boolean>;
+  deleteCategory: (categoryId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Read the error message from an API error response
+ */
+async function readApiError(response: Response, fallback: string): Promise<string> {
+  try {
+    const payload = await response.json();
+    return payload.details?.[0]?.message || payload.message || payload.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Custom hook for the household's category tree.
+ *
+ * @returns Categories, parents before their subcategories, and methods
+ *
+ * @example
+ * ```typescript
+ * const { categories, createCategory } = useCategories();
+ * await createCategory({ name: 'Headphones', parentId: audio.id });
+ * ```
+ */
+export function useCategories(): UseCategoriesReturn {
+  // State
+  const [categories, setCategories] = useState<CategoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the categories
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/categories');
+      if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to load categories'));
+      }
+
+      setCategories((await response.json()).data);
+    } catch (err) {
+      console.error('❌ Categories failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load categories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Send a request to a category endpoint, then reload
+   */
+  const submit = useCallback(async (
+    path: string,
+    init: RequestInit,
+    fallback: string
+  ): Promise<boolean> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/categories${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+      }
+
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error(`❌ ${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [refresh]);
+
+  /**
+   * Add a category
+   */
+  const createCategory = useCallback(
+    async (request: CreateCategoryRequest) =>
+      submit('', { method: 'POST', body: JSON.stringify(request) }, 'Failed to create category'),
+    [submit]
+  );
+
+  /**
+   * Change a category
+   */
+  const updateCategory = useCallback(
+    async (categoryId: string, request: UpdateCategoryRequest) =>
+      submit(`/${categoryId}`, { method: 'PATCH', body: JSON.stringify(request) }, 'Failed to update category'),
+    [submit]
+  );
+
+  /**
+   * Delete a category
+   */
+  const deleteCategory = useCallback(
+    async (categoryId: string) =>
+      submit(`/${categoryId}`, { method: 'DELETE' }, 'Failed to delete category'),
+    [submit]
+  );
+
+  // Load on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    categories,
+    isLoading,
+    isSubmitting,
+    error,
+    createCategory,
+    updateCategory,
+    deleteCategory,
+    refresh,
+  };
+}
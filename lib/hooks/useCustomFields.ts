@@ -0,0 +1,177 @@
+/**
+ * useCustomFields Hook
+ *
+ * Loads the current household's custom item fields, and defines, changes
+ * and deletes them through the /api/v1/custom-fields endpoints.
+ *
+ * @category Hooks
+ * @since 1.14.0
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { CustomFieldType, LocationType } from '@prisma/client';
+import type { CustomFieldDefinition } from '@/lib/types/custom-fields';
+
+/**
+ * Details for defining a field
+ */
+export interface CreateCustomFieldRequest {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+  searchable?: boolean;
+  tagIds?: string[];
+  locationTypes?: LocationType[];
+  displayOrder?: number;
+}
+
+/**
+ * Changes to a field; the key and type are fixed
+ */
+export type UpdateCustomFieldRequest = Partial<Omit<CreateCustomFieldRequest, 'key' | 'type'>>;
+
+/**
+ * Custom fields hook state and methods.
+ */
+export interface UseCustomFieldsReturn {
+  // State
+  fields: CustomFieldDefinition[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  createField: (request: CreateCustomFieldRequest) => Promise<boolean>;
+  updateField: (fieldId: string, request: UpdateCustomFieldRequest) => Promise<boolean>;
+  deleteField: (fieldId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Read the error message from an API error response
+ */
+async function readApiError(response: Response, fallback: string): Promise<string> {
+  try {
+    const payload = await response.json();
+    return payload.details?.[0]?.message || payload.message || payload.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Custom hook for the household's custom item fields.
+ *
+ * @returns Field definitions and methods
+ *
+ * @example
+ * ```typescript
+ * const { fields, createField } = useCustomFields();
+ * await createField({ key: 'warrantyUntil', label: 'Warranty', type: 'WARRANTY_EXPIRY' });
+ * ```
+ */
+export function useCustomFields(): UseCustomFieldsReturn {
+  // State
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the field definitions
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/custom-fields');
+      if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to load custom fields'));
+      }
+
+      setFields((await response.json()).data);
+    } catch (err) {
+      console.error('❌ Custom fields failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load custom fields');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Send a request to a custom field endpoint, then reload
+   */
+  const submit = useCallback(async (
+    path: string,
+    init: RequestInit,
+    fallback: string
+  ): Promise<boolean> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/custom-fields${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+      }
+
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error(`❌ ${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [refresh]);
+
+  /**
+   * Define a field
+   */
+  const createField = useCallback(
+    async (request: CreateCustomFieldRequest) =>
+      submit('', { method: 'POST', body: JSON.stringify(request) }, 'Failed to create custom field'),
+    [submit]
+  );
+
+  /**
+   * Change a field
+   */
+  const updateField = useCallback(
+    async (fieldId: string, request: UpdateCustomFieldRequest) =>
+      submit(`/${fieldId}`, { method: 'PATCH', body: JSON.stringify(request) }, 'Failed to update custom field'),
+    [submit]
+  );
+
+  /**
+   * Delete a field
+   */
+  const deleteField = useCallback(
+    async (fieldId: string) =>
+      submit(`/${fieldId}`, { method: 'DELETE' }, 'Failed to delete custom field'),
+    [submit]
+  );
+
+  // Load on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    fields,
+    isLoading,
+    isSubmitting,
+    error,
+    createField,
+    updateField,
+    deleteField,
+    refresh,
+  };
+}
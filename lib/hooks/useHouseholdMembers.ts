@@ -0,0 +1,219 @@
+/**
+ * useHouseholdMembers Hook
+ *
+ * Loads the current household's members and pending invitations, and
+ * invites, re-roles, adjusts permissions of and removes members through
+ * the /api/v1/households endpoints.
+ *
+ * @category Hooks
+ * @since 1.11.0
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type {
+  HouseholdMemberEntry,
+  HouseholdInvitationEntry,
+  HouseholdRoleName,
+} from '@/lib/types/households';
+import type { HouseholdPermission } from '@/lib/utils/permissions';
+
+/**
+ * Details for inviting someone by email
+ */
+export interface InviteMemberRequest {
+  email: string;
+  role?: HouseholdRoleName;
+  expiresInDays?: number;
+}
+
+/**
+ * Household members hook state and methods.
+ */
+export interface UseHouseholdMembersReturn {
+  // State
+  members: HouseholdMemberEntry[];
+  invitations: HouseholdInvitationEntry[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  /** Resolves to the invitation link, or null on failure */
+  invite: (request: InviteMemberRequest) => Promise<string | null>;
+  revokeInvitation: (invitationId: string) => Promise<boolean>;
+  changeRole: (memberId: string, role: HouseholdRoleName) => Promise<boolean>;
+  /** Grant (true), revoke (false) or reset to the role default (null) */
+  setPermission: (memberId: string, permission: HouseholdPermission, granted: boolean | null) => Promise<boolean>;
+  removeMember: (memberId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Read the error message from an API error response
+ */
+async function readApiError(response: Response, fallback: string): Promise<string> {
+  try {
+    const payload = await response.json();
+    return payload.message || payload.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Custom hook for managing household membership.
+ *
+ * @returns Member and invitation state and methods
+ *
+ * @example
+ * ```typescript
+ * const { members, invite, changeRole } = useHouseholdMembers();
+ * const link = await invite({ email: 'sam@example.com', role: 'member' });
+ * ```
+ */
+export function useHouseholdMembers(): UseHouseholdMembersReturn {
+  // State
+  const [members, setMembers] = useState<HouseholdMemberEntry[]>([]);
+  const [invitations, setInvitations] = useState<HouseholdInvitationEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load members and pending invitations
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [membersResponse, invitationsResponse] = await Promise.all([
+        fetch('/api/v1/households/members'),
+        fetch('/api/v1/households/invitations'),
+      ]);
+      if (!membersResponse.ok) {
+        throw new Error(await readApiError(membersResponse, 'Failed to load members'));
+      }
+      if (!invitationsResponse.ok) {
+        throw new Error(await readApiError(invitationsResponse, 'Failed to load invitations'));
+      }
+
+      setMembers((await membersResponse.json()).data);
+      setInvitations((await invitationsResponse.json()).data);
+    } catch (err) {
+      console.error('❌ Household members failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Send a request to a membership endpoint, then reload
+   */
+  const submit = useCallback(async (
+    path: string,
+    init: RequestInit,
+    fallback: string
+  ): Promise<Response | null> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/households${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+      }
+
+      await refresh();
+      return response;
+    } catch (err) {
+      console.error(`❌ ${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [refresh]);
+
+  /**
+   * Invite someone by email
+   */
+  const invite = useCallback(async (request: InviteMemberRequest) => {
+    const response = await submit(
+      '/invitations',
+      { method: 'POST', body: JSON.stringify(request) },
+      'Failed to send invitation'
+    );
+    if (!response) return null;
+
+    const payload = await response.json();
+    return payload.data.inviteUrl as string;
+  }, [submit]);
+
+  /**
+   * Cancel a pending invitation
+   */
+  const revokeInvitation = useCallback(
+    async (invitationId: string) =>
+      Boolean(await submit(`/invitations/${invitationId}`, { method: 'DELETE' }, 'Failed to revoke invitation')),
+    [submit]
+  );
+
+  /**
+   * Change a member's role
+   */
+  const changeRole = useCallback(
+    async (memberId: string, role: HouseholdRoleName) =>
+      Boolean(await submit(
+        `/members/${memberId}`,
+        { method: 'PATCH', body: JSON.stringify({ role }) },
+        'Failed to change role'
+      )),
+    [submit]
+  );
+
+  /**
+   * Override a single capability for a member
+   */
+  const setPermission = useCallback(
+    async (memberId: string, permission: HouseholdPermission, granted: boolean | null) =>
+      Boolean(await submit(
+        `/members/${memberId}`,
+        { method: 'PATCH', body: JSON.stringify({ permissions: { [permission]: granted } }) },
+        'Failed to change permissions'
+      )),
+    [submit]
+  );
+
+  /**
+   * Remove a member (or leave, for your own membership)
+   */
+  const removeMember = useCallback(
+    async (memberId: string) =>
+      Boolean(await submit(`/members/${memberId}`, { method: 'DELETE' }, 'Failed to remove member')),
+    [submit]
+  );
+
+  // Load on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    members,
+    invitations,
+    isLoading,
+    isSubmitting,
+    error,
+    invite,
+    revokeInvitation,
+    changeRole,
+    setPermission,
+    removeMember,
+    refresh,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * useItemHistory Hook
+ *
+ * Loads an item's activity history page by page from the activity log,
+ * optionally narrowed to one event type.
+ *
+ * @category Hooks
+ * @since 1.10.0
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ACTIVITY_EVENT_TYPES } from '@/lib/utils/activity-timeline';
+import type { ActivityEventType, ActivityLogEntry } from '@/lib/types/activity';
+
+/**
+ * Item history hook state and methods.
+ */
+export interface UseItemHistoryReturn {
+  // State
+  entries: ActivityLogEntry[];
+  eventType: ActivityEventType;
+  totalCount: number;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  setEventType: (eventType: ActivityEventType) => void;
+  refresh: () => Promise<void>;
+
+  // Pagination
+  loadMore: () => Promise<void>;
+  canLoadMore: boolean;
+}
+
+/**
+ * Custom hook for an item's history timeline.
+ *
+ * @param itemId - Item to load history for
+ * @param pageSize - Entries fetched per page
+ * @returns History state and methods
+ *
+ * @example
+ * ```typescript
+ * const { entries, loadMore, canLoadMore, setEventType } = useItemHistory(item.id);
+ * ```
+ */
+export function useItemHistory(itemId: string, pageSize: number = 20): UseItemHistoryReturn {
+  // State
+  const [entries, setEntries] = useState<ActivityLogEntry[]>([]);
+  const [eventType, setEventType] = useState<ActivityEventType>('all');
+  const [page, setPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refs for managing requests
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Fetch one page, replacing or appending to the loaded entries
+   */
+  const fetchPage = useCallback(async (targetPage: number, append: boolean) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        entityType: 'ITEM',
+        entityId: itemId,
+        page: String(targetPage),
+        limit: String(pageSize),
+      });
+      const actions = ACTIVITY_EVENT_TYPES[eventType].actions;
+      if (actions.length > 0) {
+        params.set('action', actions.join(','));
+      }
+
+      const response = await fetch(`/api/v1/activity?${params}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Failed to load history: ${response.status} ${response.statusText}`);
+      }
+
+      const payload = await response.json();
+      setEntries((prev) => (append ? [...prev, ...payload.data] : payload.data));
+      setPage(targetPage);
+      setTotalCount(payload.pagination.totalCount);
+      setHasNextPage(payload.pagination.hasNextPage);
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') return;
+      console.error('❌ Item history failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      if (abortControllerRef.current === controller) {
+        setIsLoading(false);
+      }
+    }
+  }, [itemId, eventType, pageSize]);
+
+  /**
+   * Reload from the first page
+   */
+  const refresh = useCallback(() => fetchPage(1, false), [fetchPage]);
+
+  /**
+   * Append the next page of older entries
+   */
+  const loadMore = useCallback(async () => {
+    if (!hasNextPage || isLoading) return;
+    await fetchPage(page + 1, true);
+  }, [fetchPage, hasNextPage, isLoading, page]);
+
+  // Reload whenever the item or filter changes
+  useEffect(() => {
+    refresh();
+    return () => abortControllerRef.current?.abort();
+  }, [refresh]);
+
+  return {
+    entries,
+    eventType,
+    totalCount,
+    isLoading,
+    error,
+    setEventType,
+    refresh,
+    loadMore,
+    canLoadMore: hasNextPage && !isLoading,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * useItemLoans Hook
+ *
+ * Loads an item's lending history and lends or returns the item through
+ * the /api/v1/items/{id}/loans endpoints.
+ *
+ * @category Hooks
+ * @since 1.10.0
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { ItemLoanEntry } from '@/lib/types/loans';
+
+/**
+ * Details for lending an item to someone outside the household
+ */
+export interface LendItemRequest {
+  borrowerName: string;
+  borrowerContact?: string;
+  /** ISO date-time */
+  borrowedUntil?: string;
+  notes?: string;
+}
+
+/**
+ * Details recorded when a lent item comes back
+ */
+export interface ReturnItemRequest {
+  condition?: 'GOOD' | 'DAMAGED' | 'NEEDS_MAINTENANCE';
+  notes?: string;
+}
+
+/**
+ * Item loans hook state and methods.
+ */
+export interface UseItemLoansReturn {
+  // State
+  loans: ItemLoanEntry[];
+  currentLoan: ItemLoanEntry | null;
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  lend: (request: LendItemRequest) => Promise<boolean>;
+  markReturned: (request?: ReturnItemRequest) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Read the error message from an API error response
+ */
+async function readApiError(response: Response, fallback: string): Promise<string> {
+  try {
+    const payload = await response.json();
+    return payload.message || payload.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Custom hook for lending an item and browsing its loans.
+ *
+ * @param itemId - Item to manage loans for
+ * @param onChange - Called after the item is lent or returned
+ * @returns Loan state and methods
+ *
+ * @example
+ * ```typescript
+ * const { currentLoan, lend, markReturned } = useItemLoans(item.id);
+ * await lend({ borrowerName: 'Pat (next door)', borrowedUntil: dueDate.toISOString() });
+ * ```
+ */
+export function useItemLoans(itemId: string, onChange?: () => void): UseItemLoansReturn {
+  // State
+  const [loans, setLoans] = useState<ItemLoanEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the lending history
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/items/${itemId}/loans`);
+      if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to load loans'));
+      }
+
+      const payload = await response.json();
+      setLoans(payload.data);
+    } catch (err) {
+      console.error('❌ Item loans failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load loans');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itemId]);
+
+  /**
+   * POST to a loan endpoint, then reload the history
+   */
+  const submit = useCallback(async (path: string, body: object, fallback: string): Promise<boolean> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/items/${itemId}/loans${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+      }
+
+      await refresh();
+      onChange?.();
+      return true;
+    } catch (err) {
+      console.error(`❌ ${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [itemId, refresh, onChange]);
+
+  /**
+   * Lend the item
+   */
+  const lend = useCallback(
+    (request: LendItemRequest) => submit('', request, 'Failed to lend item'),
+    [submit]
+  );
+
+  /**
+   * Record that the item came back
+   */
+  const markReturned = useCallback(
+    (request: ReturnItemRequest = {}) => submit('/return', request, 'Failed to return item'),
+    [submit]
+  );
+
+  // Load history for the item
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    loans,
+    currentLoan: loans.find((loan) => !loan.returnedAt) ?? null,
+    isLoading,
+    isSubmitting,
+    error,
+    lend,
+    markReturned,
+    refresh,
+  };
+}
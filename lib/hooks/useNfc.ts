@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  checkNfcPermission,
+  isNfcSupported,
+  isSecureContext,
+  type NfcPermissionState
+} from '@/lib/utils/pwa';
+
+/**
+ * NFC hook state interface
+ */
+export interface NfcState {
+  permissionState: NfcPermissionState;
+  isSupported: boolean;
+  isSecure: boolean;
+  isScanning: boolean;
+  isWriting: boolean;
+  error: string | null;
+}
+
+/**
+ * Result of reading (or writing) a tag
+ */
+export interface NfcTagReadResult {
+  /** Tag serial number as reported by the browser (e.g. "04:a2:b3:c4") */
+  serialNumber: string;
+  /** First URL record on the tag, if any */
+  url: string | null;
+}
+
+/**
+ * NFC hook return interface
+ */
+export interface UseNfcReturn {
+  state: NfcState;
+  actions: {
+    initialize: () => Promise<void>;
+    readTag: () => Promise<NfcTagReadResult | null>;
+    writeTag: (buildUrl: (serialNumber: string) => string) => Promise<NfcTagReadResult | null>;
+    cancel: () => void;
+  };
+}
+
+/**
+ * Extract the first URL record from an NDEF message
+ */
+function getUrlRecord(message: NDEFMessage): string | null {
+  const record = message.records.find(r => r.recordType === 'url' || r.recordType === 'absolute-url');
+  if (!record?.data) return null;
+
+  return new TextDecoder(record.encoding || 'utf-8').decode(record.data);
+}
+
+/**
+ * Map NDEFReader errors to user-facing messages
+ */
+function getNfcErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error || error instanceof DOMException) {
+    switch (error.name) {
+      case 'NotAllowedError':
+        return 'NFC permission was denied. Please allow NFC access in your browser settings.';
+      case 'NotSupportedError':
+        return 'NFC is turned off or not available on this device';
+      case 'NotReadableError':
+        return 'Could not read the tag. Try holding it closer.';
+      case 'NetworkError':
+        return 'The tag moved away before the write finished. Please try again.';
+      default:
+        return error.message || fallback;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Custom hook for Web NFC functionality
+ * Wraps NDEFReader for single-tag reads and URL writes, with graceful
+ * fallback on browsers without Web NFC (everything except Chrome on Android)
+ */
+export function useNfc(): UseNfcReturn {
+  // Support is detected on mount so server and client renders match
+  const [state, setState] = useState<NfcState>({
+    permissionState: 'unknown',
+    isSupported: false,
+    isSecure: false,
+    isScanning: false,
+    isWriting: false,
+    error: null,
+  });
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Initialize NFC functionality
+   */
+  const initialize = useCallback(async () => {
+    const isSupported = isNfcSupported();
+    const isSecure = isSecureContext();
+    setState(prev => ({ ...prev, isSupported, isSecure }));
+
+    if (!isSupported) return;
+
+    const permissionState = await checkNfcPermission();
+    setState(prev => ({ ...prev, permissionState }));
+
+    console.log('📡 NFC initialized:', { permission: permissionState });
+  }, []);
+
+  /**
+   * Start a scan and wait for the first tag to be tapped
+   */
+  const waitForTag = useCallback(async (
+    onTag?: (reader: NDEFReader, event: NDEFReadingEvent) => Promise<void>
+  ): Promise<NfcTagReadResult> => {
+    if (!state.isSupported) {
+      throw new Error('NFC is not supported by this browser');
+    }
+
+    if (!state.isSecure) {
+      throw new Error('NFC requires HTTPS in production environments');
+    }
+
+    // Only one scan at a time
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const reader = new NDEFReader();
+
+    try {
+      // scan() triggers the permission prompt on first use
+      await reader.scan({ signal: controller.signal });
+      setState(prev => ({ ...prev, permissionState: 'granted' }));
+
+      const event = await new Promise<NDEFReadingEvent>((resolve, reject) => {
+        reader.onreading = (readingEvent) => resolve(readingEvent);
+        reader.onreadingerror = () => reject(new DOMException('Tag could not be read', 'NotReadableError'));
+        controller.signal.addEventListener('abort', () => {
+          reject(new DOMException('Scan cancelled', 'AbortError'));
+        });
+      });
+
+      if (onTag) {
+        await onTag(reader, event);
+      }
+
+      return {
+        serialNumber: event.serialNumber,
+        url: getUrlRecord(event.message),
+      };
+    } finally {
+      // Stop listening once we have a result (or failed)
+      controller.abort();
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+    }
+  }, [state.isSupported, state.isSecure]);
+
+  /**
+   * Read a single tag
+   */
+  const readTag = useCallback(async (): Promise<NfcTagReadResult | null> => {
+    setState(prev => ({ ...prev, isScanning: true, error: null }));
+
+    try {
+      const result = await waitForTag();
+
+      setState(prev => ({ ...prev, isScanning: false }));
+      console.log('✅ NFC tag read:', result.serialNumber);
+
+      return result;
+    } catch (error) {
+      const cancelled = (error as Error)?.name === 'AbortError';
+      setState(prev => ({
+        ...prev,
+        isScanning: false,
+        permissionState: (error as Error)?.name === 'NotAllowedError' ? 'denied' : prev.permissionState,
+        error: cancelled ? null : getNfcErrorMessage(error, 'Failed to read tag'),
+      }));
+
+      if (!cancelled) {
+        console.error('❌ NFC read error:', error);
+      }
+      return null;
+    }
+  }, [waitForTag]);
+
+  /**
+   * Write a URL record to the next tag tapped
+   *
+   * The URL is built from the tag's serial number so it can point at the
+   * tag resolver for that specific tag.
+   */
+  const writeTag = useCallback(async (
+    buildUrl: (serialNumber: string) => string
+  ): Promise<NfcTagReadResult | null> => {
+    setState(prev => ({ ...prev, isWriting: true, error: null }));
+
+    try {
+      let url = '';
+      const result = await waitForTag(async (reader, event) => {
+        url = buildUrl(event.serialNumber);
+        // Write while the tag is still in range
+        await reader.write({
+          records: [{ recordType: 'url', data: url }],
+        });
+      });
+
+      setState(prev => ({ ...prev, isWriting: false }));
+      console.log('✅ NFC tag written:', { serialNumber: result.serialNumber, url });
+
+      return { serialNumber: result.serialNumber, url };
+    } catch (error) {
+      const cancelled = (error as Error)?.name === 'AbortError';
+      setState(prev => ({
+        ...prev,
+        isWriting: false,
+        permissionState: (error as Error)?.name === 'NotAllowedError' ? 'denied' : prev.permissionState,
+        error: cancelled ? null : getNfcErrorMessage(error, 'Failed to write tag'),
+      }));
+
+      if (!cancelled) {
+        console.error('❌ NFC write error:', error);
+      }
+      return null;
+    }
+  }, [waitForTag]);
+
+  /**
+   * Cancel a pending read or write
+   */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  /**
+   * Clean up on unmount
+   */
+  useEffect(() => {
+    return () => {
+      cancel();
+    };
+  }, [cancel]);
+
+  /**
+   * Initialize on mount
+   */
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  return {
+    state,
+    actions: {
+      initialize,
+      readTag,
+      writeTag,
+      cancel,
+    },
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * useSavedSearches Hook
+ *
+ * Loads the saved searches ("smart collections") the member can see and
+ * saves, changes and deletes them through the /api/v1/saved-searches
+ * endpoints. Every mounted instance reloads after a change, so the sidebar
+ * follows searches saved from the search page.
+ *
+ * @category Hooks
+ * @since 1.17.0
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { SavedSearchEntry, SavedSearchVisibility } from '@/lib/types/saved-searches';
+import type { SearchFilters } from '@/lib/types/search';
+
+/**
+ * Details for saving a search
+ */
+export interface CreateSavedSearchRequest {
+  name: string;
+  query?: string;
+  filters?: SearchFilters;
+  sortBy?: SavedSearchEntry['sortBy'];
+  sortOrder?: SavedSearchEntry['sortOrder'];
+  visibility?: SavedSearchVisibility;
+}
+
+/**
+ * Changes to a saved search
+ */
+export type UpdateSavedSearchRequest = Partial<CreateSavedSearchRequest>;
+
+/**
+ * Saved searches hook state and methods.
+ */
+export interface UseSavedSearchesReturn {
+  // State
+  savedSearches: SavedSearchEntry[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  createSavedSearch: (request: CreateSavedSearchRequest) => Promise<SavedSearchEntry | null>;
+  updateSavedSearch: (savedSearchId: string, request: UpdateSavedSearchRequest) => Promise<boolean>;
+  deleteSavedSearch: (savedSearchId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Window event announcing that saved searches changed
+ */
+const SAVED_SEARCHES_CHANGED = 'saved-searches-changed';
+
+/**
+ * Read the error message from an API error response
+ */
+async function readApiError(response: Response, fallback: string): Promise<string> {
+  try {
+    const payload = await response.json();
+    return payload.details?.[0]?.message || payload.message || payload.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Custom hook for the member's saved searches.
+ *
+ * @returns Saved searches ordered by name, and methods
+ *
+ * @example
+ * ```typescript
+ * const { savedSearches, createSavedSearch } = useSavedSearches();
+ * await createSavedSearch({ name: 'Camping gear', query: 'camping', visibility: 'HOUSEHOLD' });
+ * ```
+ */
+export function useSavedSearches(): UseSavedSearchesReturn {
+  // State
+  const [savedSearches, setSavedSearches] = useState<SavedSearchEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the saved searches
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/saved-searches');
+      if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to load saved searches'));
+      }
+
+      setSavedSearches((await response.json()).data);
+    } catch (err) {
+      console.error('❌ Saved searches failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load saved searches');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Send a request to a saved search endpoint, then have every instance
+   * reload; resolves to the response data, or null when the request failed
+   */
+  const submit = useCallback(async (
+    path: string,
+    init: RequestInit,
+    fallback: string
+  ): Promise<any | null> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/saved-searches${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+      }
+
+      const payload = await response.json();
+      window.dispatchEvent(new Event(SAVED_SEARCHES_CHANGED));
+      return payload.data;
+    } catch (err) {
+      console.error(`❌ ${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  /**
+   * Save a search
+   */
+  const createSavedSearch = useCallback(
+    async (request: CreateSavedSearchRequest): Promise<SavedSearchEntry | null> =>
+      submit('', { method: 'POST', body: JSON.stringify(request) }, 'Failed to save search'),
+    [submit]
+  );
+
+  /**
+   * Rename, share or change a saved search
+   */
+  const updateSavedSearch = useCallback(
+    async (savedSearchId: string, request: UpdateSavedSearchRequest) =>
+      (await submit(`/${savedSearchId}`, { method: 'PATCH', body: JSON.stringify(request) }, 'Failed to update saved search')) !== null,
+    [submit]
+  );
+
+  /**
+   * Delete a saved search
+   */
+  const deleteSavedSearch = useCallback(
+    async (savedSearchId: string) =>
+      (await submit(`/${savedSearchId}`, { method: 'DELETE' }, 'Failed to delete saved search')) !== null,
+    [submit]
+  );
+
+  // Load on mount, and again whenever any instance changes a saved search
+  useEffect(() => {
+    refresh();
+
+    window.addEventListener(SAVED_SEARCHES_CHANGED, refresh);
+    return () => window.removeEventListener(SAVED_SEARCHES_CHANGED, refresh);
+  }, [refresh]);
+
+  return {
+    savedSearches,
+    isLoading,
+    isSubmitting,
+    error,
+    createSavedSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    refresh,
+  };
+}
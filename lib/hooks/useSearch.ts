@@ -3,6 +3,7 @@
  * 
  * A React hook that manages search state and API calls for inventory items.
  * Provides debounced search, loading states, error handling, and result caching.
+ * Further pages are fetched by cursor and appended, for infinite scroll.
  * 
  * @category Hooks
  * @since 1.4.0
@@ -10,6 +11,7 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useDebounce } from './useDebounce';
+import { serializeSearchState, type SearchUrlState } from '@/lib/utils/url-state';
 import type { SearchQuery, SearchResults, SearchSuggestion } from '@/lib/types/search';
 
 /**
@@ -30,6 +32,8 @@ export interface UseSearchOptions {
   includeTags?: boolean;
   /** Default limit for search results */
   defaultLimit?: number;
+  /** Location, tag and status filters and sort order, as kept in the search page URL */
+  filters?: Pick<SearchUrlState, 'locations' | 'tags' | 'statuses' | 'sort' | 'sortDir'>;
 }
 
 /**
@@ -120,8 +124,18 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
     includePhotos = false,
     includeTags = false,
     defaultLimit = 20,
+    filters,
   } = options;
 
+  // Filters as URL parameters; a string, so equal filters do not trigger a new search
+  const filterParams = serializeSearchState({
+    locations: filters?.locations,
+    tags: filters?.tags,
+    statuses: filters?.statuses,
+    sort: filters?.sort,
+    sortDir: filters?.sortDir,
+  }).toString();
+
   // State
   const [query, setQueryState] = useState('');
   const [results, setResults] = useState<SearchResults | null>(null);
@@ -185,8 +199,11 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
         includePhotos: (searchOptions?.includePhotos ?? includePhotos).toString(),
         includeTags: (searchOptions?.includeTags ?? includeTags).toString(),
       });
+      if (searchOptions?.cursor) {
+        searchParams.set('cursor', searchOptions.cursor);
+      }
 
-      const response = await fetch(`/api/v1/search?${searchParams}`, {
+      const response = await fetch(`/api/v1/search?${searchParams}${filterParams ? `&${filterParams}` : ''}`, {
         signal: abortController.signal,
       });
 
@@ -196,7 +213,10 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
       }
 
       const data = await response.json();
-      setResults(data.data);
+      // A cursor continues the current results, keeping the first page's locations; anything else starts over
+      setResults(previous => searchOptions?.cursor && previous
+        ? { ...data.data, items: [...previous.items, ...data.data.items], locations: previous.locations }
+        : data.data);
       setResponseTime(data.data.responseTime);
       setSearchMethod(data.data.searchMethod);
       setHasSearched(true);
@@ -209,7 +229,7 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
       setIsLoading(false);
       searchAbortControllerRef.current = null;
     }
-  }, [query, minQueryLength, defaultLimit, includeLocation, includePhotos, includeTags]);
+  }, [query, minQueryLength, defaultLimit, includeLocation, includePhotos, includeTags, filterParams]);
 
   // Get search suggestions
   const getSuggestions = useCallback(async (suggestionQuery?: string) => {
@@ -259,14 +279,14 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
     }
   }, [query]);
 
-  // Load more results (pagination)
+  // Load the next page after the current results (infinite scroll)
   const loadMore = useCallback(async () => {
-    if (!results || !results.hasMore || isLoading) {
+    if (!results?.nextCursor || isLoading) {
       return;
     }
 
     await search(query, {
-      offset: results.items.length,
+      cursor: results.nextCursor,
       limit: defaultLimit,
     });
   }, [results, isLoading, search, query, defaultLimit]);
@@ -341,7 +361,7 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
 
     // Pagination
     loadMore,
-    canLoadMore: Boolean(results?.hasMore && !isLoading),
+    canLoadMore: Boolean(results?.nextCursor && !isLoading),
 
     // Performance
     responseTime,
@@ -0,0 +1,183 @@
+/**
+ * useTags Hook
+ *
+ * Loads the current household's tags, most used first, and adds, renames,
+ * recolors, merges and deletes them through the /api/v1/tags endpoints.
+ *
+ * @category Hooks
+ * @since 1.16.0
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { TagEntry } from '@/lib/types/tags';
+
+/**
+ * Details for adding a tag
+ */
+export interface CreateTagRequest {
+  name: string;
+  color?: string;
+}
+
+/**
+ * Changes to a tag
+ */
+export type UpdateTagRequest = Partial<CreateTagRequest>;
+
+/**
+ * Tags hook state and methods.
+ */
+export interface UseTagsReturn {
+  // State
+  tags: TagEntry[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  createTag: (request: CreateTagRequest) => Promise<TagEntry | null>;
+  updateTag: (tagId: string, request: UpdateTagRequest) => Promise<boolean>;
+  mergeTags: (tagId: string, targetTagId: string) => Promise<boolean>;
+  deleteTag: (tagId: string) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Read the error message from an API error response
+ */
+async function readApiError(response: Response, fallback: string): Promise<string> {
+  try {
+    const payload = await response.json();
+    return payload.details?.[0]?.message || payload.message || payload.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Custom hook for the household's tags.
+ *
+ * @returns Tags ordered by usage count, and methods
+ *
+ * @example
+ * ```typescript
+ * const { tags, createTag, mergeTags } = useTags();
+ * const tag = await createTag({ name: 'Camping', color: '#16A34A' });
+ * await mergeTags(duplicate.id, tag.id);
+ * ```
+ */
+export function useTags(): UseTagsReturn {
+  // State
+  const [tags, setTags] = useState<TagEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the tags
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/v1/tags?limit=500');
+      if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to load tags'));
+      }
+
+      setTags((await response.json()).data);
+    } catch (err) {
+      console.error('❌ Tags failed to load:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tags');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Send a request to a tag endpoint, then reload; resolves to the
+   * response data, or null when the request failed
+   */
+  const submit = useCallback(async (
+    path: string,
+    init: RequestInit,
+    fallback: string
+  ): Promise<any | null> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/v1/tags${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+      }
+
+      const payload = await response.json();
+      await refresh();
+      return payload.data;
+    } catch (err) {
+      console.error(`❌ ${fallback}:`, err);
+      setError(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [refresh]);
+
+  /**
+   * Add a tag
+   */
+  const createTag = useCallback(
+    async (request: CreateTagRequest): Promise<TagEntry | null> =>
+      submit('', { method: 'POST', body: JSON.stringify(request) }, 'Failed to create tag'),
+    [submit]
+  );
+
+  /**
+   * Rename or recolor a tag
+   */
+  const updateTag = useCallback(
+    async (tagId: string, request: UpdateTagRequest) =>
+      (await submit(`/${tagId}`, { method: 'PATCH', body: JSON.stringify(request) }, 'Failed to update tag')) !== null,
+    [submit]
+  );
+
+  /**
+   * Retag every item from one tag to another and delete the first
+   */
+  const mergeTags = useCallback(
+    async (tagId: string, targetTagId: string) =>
+      (await submit(`/${tagId}/merge`, { method: 'POST', body: JSON.stringify({ targetTagId }) }, 'Failed to merge tags')) !== null,
+    [submit]
+  );
+
+  /**
+   * Delete a tag
+   */
+  const deleteTag = useCallback(
+    async (tagId: string) =>
+      (await submit(`/${tagId}`, { method: 'DELETE' }, 'Failed to delete tag')) !== null,
+    [submit]
+  );
+
+  // Load on mount
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    tags,
+    isLoading,
+    isSubmitting,
+    error,
+    createTag,
+    updateTag,
+    mergeTags,
+    deleteTag,
+    refresh,
+  };
+}
@@ -76,6 +76,14 @@ export const RATE_LIMIT_CONFIGS = {
     skipFailedRequests: true,
   } as RateLimitConfig,
 
+  // Camera barcode scanning (continuous, a few frames per second)
+  BARCODE_DECODE: {
+    maxRequests: 300, // 300 frames per minute per user
+    windowMs: 60 * 1000,
+    skipSuccessfulRequests: false,
+    skipFailedRequests: true,
+  } as RateLimitConfig,
+
   // Bulk operations
   BULK_UPLOAD: {
     maxRequests: 3, // 3 bulk operations per 5 minutes
@@ -179,6 +187,14 @@ export const photoUploadRateLimit = createRateLimit(RATE_LIMIT_CONFIGS.PHOTO_UPL
  */
 export const heicConversionRateLimit = createRateLimit(RATE_LIMIT_CONFIGS.HEIC_CONVERSION);
 
+/**
+ * Rate limiting middleware for barcode frame decoding
+ */
+export const barcodeDecodeRateLimit = createRateLimit({
+  ...RATE_LIMIT_CONFIGS.BARCODE_DECODE,
+  keyGenerator: (req: NextRequest) => generateRateLimitKey(req, 'barcode'),
+});
+
 /**
  * Rate limiting middleware for bulk operations
  */
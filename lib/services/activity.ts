@@ -0,0 +1,214 @@
+import { PrismaClient, ActivityLog, ActivityEntityType, ActivityAction, Prisma } from '@prisma/client';
+import {
+  ActivityQueryInput,
+  PaginationMeta,
+  createPaginationMeta,
+} from '@/lib/validation';
+import { getRequestIp } from '@/lib/utils/request-context';
+import type { ActivityDiff } from '@/lib/types/activity';
+
+/**
+ * A single audit entry to record
+ */
+export interface ActivityEntry {
+  householdId: string;
+  userId: string | null;
+  entityType: ActivityEntityType;
+  entityId: string;
+  action: ActivityAction;
+  diff?: ActivityDiff;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Activity entry with the acting user's display details
+ */
+type ActivityLogWithUser = ActivityLog & {
+  user: { id: string; name: string | null; email: string } | null;
+};
+
+/**
+ * Item fields tracked in activity diffs
+ */
+export const ITEM_ACTIVITY_FIELDS = [
+  'name',
+  'description',
+  'locationId',
+  'categoryId',
+  'quantity',
+  'unit',
+  'purchasePrice',
+  'currentValue',
+  'purchaseDate',
+  'status',
+  'borrowedBy',
+  'borrowedAt',
+  'borrowedUntil',
+  'metadata',
+] as const;
+
+/**
+ * Location fields tracked in activity diffs
+ */
+export const LOCATION_ACTIVITY_FIELDS = [
+  'name',
+  'description',
+  'parentId',
+  'path',
+  'locationType',
+] as const;
+
+/**
+ * NFC tag fields tracked in activity diffs
+ */
+export const NFC_TAG_ACTIVITY_FIELDS = [
+  'uid',
+  'label',
+  'itemId',
+  'locationId',
+  'status',
+] as const;
+
+/**
+ * Build a before/after diff of the given fields
+ *
+ * Pass null for `before` on creation and for `after` on deletion so the
+ * entry captures a full snapshot. Decimals and dates are stored as JSON
+ * numbers and ISO strings; unchanged fields are left out.
+ *
+ * @param before - Entity state before the change, or null
+ * @param after - Entity state after the change, or null
+ * @param fields - Fields to compare
+ * @returns Diff containing only the fields that changed
+ *
+ * @example
+ * ```typescript
+ * buildActivityDiff({ name: 'Drill' }, { name: 'Cordless Drill' }, ['name']);
+ * // { name: { before: 'Drill', after: 'Cordless Drill' } }
+ * ```
+ */
+export function buildActivityDiff(
+  before: object | null,
+  after: object | null,
+  fields: readonly string[]
+): ActivityDiff {
+  const diff: ActivityDiff = {};
+
+  for (const field of fields) {
+    const beforeValue = before ? normalizeDiffValue((before as Record<string, unknown>)[field]) : null;
+    const afterValue = after ? normalizeDiffValue((after as Record<string, unknown>)[field]) : null;
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      diff[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Convert a field value into its JSON form for storage and comparison
+ */
+function normalizeDiffValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Prisma.Decimal.isDecimal(value)) return (value as Prisma.Decimal).toNumber();
+  if (typeof value === 'object') return JSON.parse(JSON.stringify(value));
+  return value;
+}
+
+/**
+ * ActivityLogService - Persistent audit trail for items, locations and NFC tags
+ *
+ * Entries are written inside the caller's transaction so a change and its
+ * audit record are committed (or rolled back) together.
+ */
+export class ActivityLogService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record an activity entry within an existing transaction
+   *
+   * The client IP is taken from the current request when there is one.
+   *
+   * @param tx - Transaction client of the change being audited
+   * @param entry - Entry details
+   * @returns Promise resolving to the stored entry
+   */
+  async recordActivity(tx: Prisma.TransactionClient, entry: ActivityEntry): Promise<ActivityLog> {
+    const ipAddress = await getRequestIp();
+
+    return await tx.activityLog.create({
+      data: {
+        householdId: entry.householdId,
+        userId: entry.userId,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        diff: (entry.diff ?? {}) as Prisma.InputJsonValue,
+        metadata: (entry.metadata ? JSON.parse(JSON.stringify(entry.metadata)) : {}) as Prisma.InputJsonValue,
+        ipAddress,
+      },
+    });
+  }
+
+  /**
+   * List household activity, newest first
+   *
+   * @param householdId - ID of the household (for access control)
+   * @param query - Validated filters and pagination
+   * @returns Promise resolving to paginated activity entries
+   */
+  async listActivity(
+    householdId: string,
+    query: ActivityQueryInput
+  ): Promise<{
+    entries: ActivityLogWithUser[];
+    pagination: PaginationMeta;
+  }> {
+    const { entityType, entityId, userId, actions, from, to, page, limit } = query;
+
+    const whereClause: Prisma.ActivityLogWhereInput = {
+      householdId,
+      ...(entityType && { entityType }),
+      ...(entityId && { entityId }),
+      ...(userId && { userId }),
+      ...(actions && actions.length > 0 && { action: { in: actions } }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: from }),
+          ...(to && { lte: to }),
+        },
+      }),
+    };
+
+    const [entries, totalCount] = await Promise.all([
+      this.prisma.activityLog.findMany({
+        where: whereClause,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.activityLog.count({ where: whereClause }),
+    ]);
+
+    return {
+      entries,
+      pagination: createPaginationMeta(page, limit, totalCount),
+    };
+  }
+}
+
+/**
+ * Singleton instance of ActivityLogService
+ */
+export const activityLogService = new ActivityLogService(new PrismaClient());
@@ -0,0 +1,856 @@
+/**
+ * BackupService - Business logic for household backup archives
+ *
+ * Unlike the CSV export, a backup keeps everything needed to rebuild a
+ * household: the location and category hierarchies, tag colors, custom
+ * field definitions, photo ordering, item metadata, loans and NFC tag
+ * bindings. An archive is a ZIP holding:
+ * - `manifest.json` - a versioned BackupManifest with the original IDs
+ * - `photos/<photoId>/<file>` - each photo's original file from storage
+ *
+ * Restores rebuild the archive into a new household, or into the current one
+ * when it is still empty, giving every record a fresh ID. Activity history
+ * and user references other than the restoring user are not carried over.
+ *
+ * @category Business Logic Services
+ * @since 1.11.0
+ */
+
+import { PrismaClient, Prisma, ItemStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { Zip, ZipDeflate, ZipPassThrough, strFromU8, strToU8, unzipSync } from 'fflate';
+import sharp from 'sharp';
+import { ZodError } from 'zod';
+import {
+  BACKUP_FORMAT_VERSION,
+  MAX_BACKUP_FILE_SIZE,
+  MAX_BACKUP_MANIFEST_SIZE,
+  MAX_BACKUP_PHOTO_SIZE,
+  MAX_BACKUP_UNPACKED_SIZE,
+  validateBackupManifest,
+} from '@/lib/validation/backups';
+import { formatValidationErrors, isServiceError } from '@/lib/validation/common';
+import { getCdnUrl, getStorageKeyFromUrl } from '@/lib/config/storage';
+import { detectImageType } from '@/lib/utils/file-validation';
+import type {
+  BackupError,
+  BackupItem,
+  BackupManifest,
+  RestoreResult,
+  RestoreTarget,
+} from '@/lib/types/backups';
+import { S3StorageService, storageService } from './storage';
+
+/**
+ * Backup error codes for consistent error handling
+ */
+export const BackupErrorCodes = {
+  FILE_TOO_LARGE: 'BACKUP_001',
+  INVALID_ARCHIVE: 'BACKUP_002',
+  UNSUPPORTED_VERSION: 'BACKUP_003',
+  HOUSEHOLD_NOT_EMPTY: 'BACKUP_004',
+  BACKUP_FAILED: 'BACKUP_005',
+} as const;
+
+/**
+ * Name of the manifest entry in the archive
+ */
+const MANIFEST_FILENAME = 'manifest.json';
+
+/**
+ * Directory of photo entries in the archive
+ */
+const PHOTOS_DIRECTORY = 'photos/';
+
+/**
+ * File extension stored for each allowed photo type
+ */
+const PHOTO_EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+} as const;
+
+/**
+ * Thumbnail settings, matching processImage in lib/utils/photos.ts
+ */
+const THUMBNAIL_CONFIG = {
+  width: 200,
+  height: 200,
+  quality: 80,
+} as const;
+
+/**
+ * URLs and detected type of a restored photo
+ */
+interface RestoredPhoto {
+  originalUrl: string;
+  thumbnailUrl: string;
+  mimeType: string;
+}
+
+/**
+ * Statuses left out of location statistics, matching ItemsService
+ */
+const INACTIVE_STATUSES: ItemStatus[] = [ItemStatus.SOLD, ItemStatus.LOST];
+
+/**
+ * Backup archive ready to stream to the client
+ */
+export interface HouseholdBackup {
+  filename: string;
+  stream: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Photo file queued for the archive
+ */
+interface PendingPhotoFile {
+  photoId: string;
+  key: string;
+}
+
+/**
+ * BackupService class
+ */
+export class BackupService {
+  constructor(
+    private prisma: PrismaClient,
+    private storage: S3StorageService = storageService
+  ) {}
+
+  /**
+   * Build a backup archive for a household
+   *
+   * The database is read up front; photos are then downloaded one at a time
+   * while the ZIP streams out, and the manifest is written last so it can
+   * record photos that could not be downloaded (their `file` is null).
+   *
+   * @param householdId - ID of the household to back up
+   * @returns Archive filename and stream
+   */
+  async createBackup(householdId: string): Promise<HouseholdBackup> {
+    // 1. Read the household
+    const { manifest, photoFiles } = await this.buildManifest(householdId);
+
+    // 2. Stream photos then the manifest into the ZIP
+    const storage = this.storage;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const zip = new Zip((error, chunk, final) => {
+          if (error) {
+            controller.error(error);
+            return;
+          }
+          controller.enqueue(chunk);
+          if (final) {
+            controller.close();
+          }
+        });
+
+        try {
+          const photos = new Map(
+            manifest.items.flatMap((item) => item.photos).map((photo) => [photo.id, photo])
+          );
+
+          for (const { photoId, key } of photoFiles) {
+            const photo = photos.get(photoId)!;
+
+            try {
+              const { buffer } = await storage.downloadFile(key);
+              // Photos are already compressed, so store them as-is
+              const entry = new ZipPassThrough(photo.file!);
+              zip.add(entry);
+              entry.push(new Uint8Array(buffer), true);
+            } catch (error) {
+              console.warn(`Backup of ${householdId} skipped photo ${photoId}:`, error);
+              photo.file = null;
+            }
+          }
+
+          const manifestEntry = new ZipDeflate(MANIFEST_FILENAME, { level: 6 });
+          zip.add(manifestEntry);
+          manifestEntry.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+          zip.end();
+        } catch (error) {
+          zip.terminate();
+          controller.error(error);
+        }
+      },
+    });
+
+    const date = manifest.createdAt.slice(0, 10);
+    return {
+      filename: `${slugify(manifest.household.name)}-backup-${date}.zip`,
+      stream,
+    };
+  }
+
+  /**
+   * Restore a backup archive into a new or empty household
+   *
+   * Every record gets a new ID, and references inside the archive are
+   * remapped to match. Photos are uploaded first and removed again if the
+   * database write fails. Records created or registered by someone else are
+   * attributed to the restoring user; loan lenders and borrowing members are
+   * cleared, keeping the borrower's name.
+   *
+   * @param userId - ID of the user restoring
+   * @param archive - Uploaded ZIP archive
+   * @param target - New household, or the current (empty) one
+   * @returns Restored household and record counts
+   * @throws BackupError for unreadable, invalid or too-new archives, and
+   *   HOUSEHOLD_NOT_EMPTY when restoring over existing data
+   */
+  async restoreBackup(
+    userId: string,
+    archive: Uint8Array,
+    target: RestoreTarget
+  ): Promise<RestoreResult> {
+    // 1. Read and validate the archive
+    const { manifest, files } = this.readArchive(archive);
+    const ids = this.remapIds(manifest);
+
+    // 2. Only restore over an empty household
+    if (target.mode === 'current') {
+      await this.ensureHouseholdEmpty(target.householdId);
+    }
+
+    // 3. Upload photos before writing records
+    const uploaded = await this.uploadPhotos(manifest, files, ids);
+
+    try {
+      // 4. Write the household in one transaction
+      const household = await this.prisma.$transaction(async (tx) => {
+        const restored = target.mode === 'new'
+          ? await tx.household.create({
+              data: {
+                name: target.name ?? manifest.household.name,
+                description: manifest.household.description,
+                settings: toJson(manifest.household.settings) ?? {},
+                members: { create: { userId, role: 'owner' } },
+              },
+            })
+          : await tx.household.findUniqueOrThrow({ where: { id: target.householdId } });
+
+        await this.writeRecords(tx, restored.id, userId, manifest, ids, uploaded.photos);
+        return restored;
+      }, { timeout: 120000 });
+
+      return {
+        householdId: household.id,
+        householdName: household.name,
+        counts: {
+          locations: manifest.locations.length,
+          categories: manifest.categories.length,
+          tags: manifest.tags.length,
+          customFields: manifest.customFields.length,
+          items: manifest.items.length,
+          photos: uploaded.photos.size,
+          loans: manifest.loans.length,
+          nfcTags: manifest.nfcTags.length,
+        },
+        missingPhotos: uploaded.missing,
+      };
+    } catch (error) {
+      await this.storage.deleteFiles(uploaded.keys).catch((cleanupError) => {
+        console.error('Failed to clean up restored photos:', cleanupError);
+      });
+      throw error;
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Read everything in the household into a manifest
+   */
+  private async buildManifest(
+    householdId: string
+  ): Promise<{ manifest: BackupManifest; photoFiles: PendingPhotoFile[] }> {
+    const [household, locations, categories, tags, customFields, items, loans, nfcTags] = await Promise.all([
+      this.prisma.household.findUniqueOrThrow({ where: { id: householdId } }),
+      this.prisma.location.findMany({
+        where: { householdId },
+        orderBy: [{ level: 'asc' }, { path: 'asc' }],
+      }),
+      this.prisma.category.findMany({
+        where: { householdId },
+        orderBy: [{ level: 'asc' }, { path: 'asc' }],
+      }),
+      this.prisma.tag.findMany({ where: { householdId }, orderBy: { name: 'asc' } }),
+      this.prisma.customField.findMany({ where: { householdId }, orderBy: { displayOrder: 'asc' } }),
+      this.prisma.item.findMany({
+        where: { householdId },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          tags: { select: { tagId: true } },
+          photos: { orderBy: { displayOrder: 'asc' } },
+        },
+      }),
+      this.prisma.itemLoan.findMany({ where: { householdId }, orderBy: { lentAt: 'asc' } }),
+      this.prisma.nfcTag.findMany({ where: { householdId }, orderBy: { createdAt: 'asc' } }),
+    ]);
+
+    const photoFiles: PendingPhotoFile[] = [];
+
+    const manifest: BackupManifest = {
+      format: 'household-backup',
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      household: {
+        name: household.name,
+        description: household.description,
+        settings: household.settings ?? {},
+      },
+      locations: locations.map((location) => ({
+        id: location.id,
+        name: location.name,
+        description: location.description,
+        parentId: location.parentId,
+        path: location.path,
+        level: location.level,
+        locationType: location.locationType,
+        createdAt: location.createdAt.toISOString(),
+      })),
+      categories: categories.map((category) => ({
+        id: category.id,
+        name: category.name,
+        parentId: category.parentId,
+        path: category.path,
+        level: category.level,
+        depreciationMethod: category.depreciationMethod,
+        usefulLifeYears: category.usefulLifeYears,
+        depreciationRate: category.depreciationRate?.toString() ?? null,
+        createdAt: category.createdAt.toISOString(),
+      })),
+      tags: tags.map((tag) => ({
+        id: tag.id,
+        name: tag.name,
+        color: tag.color,
+        createdAt: tag.createdAt.toISOString(),
+      })),
+      customFields: customFields.map((field) => ({
+        id: field.id,
+        key: field.key,
+        label: field.label,
+        type: field.type,
+        options: field.options,
+        required: field.required,
+        searchable: field.searchable,
+        tagIds: field.tagIds,
+        locationTypes: field.locationTypes,
+        categoryIds: field.categoryIds,
+        displayOrder: field.displayOrder,
+        createdAt: field.createdAt.toISOString(),
+      })),
+      items: items.map((item) => ({
+        id: item.id,
+        locationId: item.locationId,
+        categoryId: item.categoryId,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        purchasePrice: item.purchasePrice?.toString() ?? null,
+        currentValue: item.currentValue?.toString() ?? null,
+        purchaseDate: item.purchaseDate?.toISOString() ?? null,
+        status: item.status,
+        borrowedAt: item.borrowedAt?.toISOString() ?? null,
+        borrowedUntil: item.borrowedUntil?.toISOString() ?? null,
+        metadata: item.metadata,
+        createdAt: item.createdAt.toISOString(),
+        updatedAt: item.updatedAt.toISOString(),
+        tagIds: item.tags.map((itemTag) => itemTag.tagId),
+        photos: item.photos.map((photo) => {
+          const key = getStorageKeyFromUrl(photo.originalUrl);
+          if (key) {
+            photoFiles.push({ photoId: photo.id, key });
+          }
+
+          return {
+            id: photo.id,
+            file: key ? `photos/${photo.id}/${key.split('/').pop()}` : null,
+            filename: photo.filename,
+            mimeType: photo.mimeType,
+            fileSize: photo.fileSize,
+            width: photo.width,
+            height: photo.height,
+            displayOrder: photo.displayOrder,
+            isPrimary: photo.isPrimary,
+            createdAt: photo.createdAt.toISOString(),
+          };
+        }),
+      })),
+      loans: loans.map((loan) => ({
+        id: loan.id,
+        itemId: loan.itemId,
+        borrowerName: loan.borrowerName,
+        borrowerContact: loan.borrowerContact,
+        lentAt: loan.lentAt.toISOString(),
+        dueAt: loan.dueAt?.toISOString() ?? null,
+        notes: loan.notes,
+        returnedAt: loan.returnedAt?.toISOString() ?? null,
+        returnCondition: loan.returnCondition,
+        returnNotes: loan.returnNotes,
+      })),
+      nfcTags: nfcTags.map((nfcTag) => ({
+        id: nfcTag.id,
+        uid: nfcTag.uid,
+        label: nfcTag.label,
+        itemId: nfcTag.itemId,
+        locationId: nfcTag.locationId,
+        status: nfcTag.status,
+        retiredAt: nfcTag.retiredAt?.toISOString() ?? null,
+        createdAt: nfcTag.createdAt.toISOString(),
+      })),
+    };
+
+    return { manifest, photoFiles };
+  }
+
+  /**
+   * Unzip an archive and validate its manifest
+   *
+   * Entries are checked against their declared unpacked size before they
+   * are inflated (fflate never inflates past it), so a small archive cannot
+   * unpack into more memory than the limits allow.
+   */
+  private readArchive(archive: Uint8Array): { manifest: BackupManifest; files: Record<string, Uint8Array> } {
+    if (archive.byteLength > MAX_BACKUP_FILE_SIZE) {
+      throw this.createError(
+        'FILE_TOO_LARGE',
+        `Backup archives cannot exceed ${MAX_BACKUP_FILE_SIZE / 1024 / 1024}MB`
+      );
+    }
+
+    let files: Record<string, Uint8Array>;
+    let unpackedSize = 0;
+    try {
+      files = unzipSync(archive, {
+        filter: (entry) => {
+          if (entry.name.endsWith('/')) {
+            return false;
+          }
+
+          const isManifest = entry.name === MANIFEST_FILENAME;
+          if (!isManifest && !entry.name.startsWith(PHOTOS_DIRECTORY)) {
+            throw this.createError('INVALID_ARCHIVE', `Backup contains an unexpected file: ${entry.name}`);
+          }
+
+          unpackedSize += entry.originalSize;
+          if (
+            entry.originalSize > (isManifest ? MAX_BACKUP_MANIFEST_SIZE : MAX_BACKUP_PHOTO_SIZE) ||
+            unpackedSize > MAX_BACKUP_UNPACKED_SIZE
+          ) {
+            throw this.createError(
+              'FILE_TOO_LARGE',
+              `Backup archives cannot unpack to more than ${MAX_BACKUP_UNPACKED_SIZE / 1024 / 1024}MB`
+            );
+          }
+          return true;
+        },
+      });
+    } catch (error) {
+      if (isServiceError(error, BackupErrorCodes)) {
+        throw error;
+      }
+      throw this.createError('INVALID_ARCHIVE', 'File is not a household backup archive');
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(strFromU8(files[MANIFEST_FILENAME]));
+    } catch {
+      throw this.createError('INVALID_ARCHIVE', 'File is not a household backup archive');
+    }
+
+    const version = (raw as { version?: unknown } | null)?.version;
+    if (typeof version === 'number' && version > BACKUP_FORMAT_VERSION) {
+      throw this.createError(
+        'UNSUPPORTED_VERSION',
+        `Backup version ${version} is newer than this server supports (max ${BACKUP_FORMAT_VERSION})`
+      );
+    }
+
+    try {
+      return { manifest: validateBackupManifest(raw) as BackupManifest, files };
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw this.createError('INVALID_ARCHIVE', 'Backup manifest is invalid', {
+          details: formatValidationErrors(error),
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Assign a new ID to every record and check references resolve
+   */
+  private remapIds(manifest: BackupManifest): Map<string, string> {
+    const ids = new Map<string, string>();
+    const assign = (kind: string, id: string) => {
+      if (ids.has(id)) {
+        throw this.createError('INVALID_ARCHIVE', `Backup lists ${kind} ${id} more than once`);
+      }
+      ids.set(id, randomUUID());
+    };
+    const check = (kind: string, id: string | null) => {
+      if (id !== null && !ids.has(id)) {
+        throw this.createError('INVALID_ARCHIVE', `Backup references unknown ${kind} ${id}`);
+      }
+    };
+
+    // Parents are listed before children, so check as we go
+    for (const location of manifest.locations) {
+      check('parent location', location.parentId);
+      assign('location', location.id);
+    }
+    for (const category of manifest.categories) {
+      check('parent category', category.parentId);
+      assign('category', category.id);
+    }
+    manifest.tags.forEach((tag) => assign('tag', tag.id));
+    manifest.customFields.forEach((field) => assign('custom field', field.id));
+
+    for (const item of manifest.items) {
+      check('location', item.locationId);
+      check('category', item.categoryId);
+      item.tagIds.forEach((tagId) => check('tag', tagId));
+      assign('item', item.id);
+      item.photos.forEach((photo) => assign('photo', photo.id));
+    }
+
+    for (const loan of manifest.loans) {
+      check('item', loan.itemId);
+      assign('loan', loan.id);
+    }
+
+    for (const nfcTag of manifest.nfcTags) {
+      check('item', nfcTag.itemId);
+      check('location', nfcTag.locationId);
+      assign('NFC tag', nfcTag.id);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Reject restores over a household that already has data
+   */
+  private async ensureHouseholdEmpty(householdId: string): Promise<void> {
+    const [locations, categories, items, tags, customFields, nfcTags] = await Promise.all([
+      this.prisma.location.count({ where: { householdId } }),
+      this.prisma.category.count({ where: { householdId } }),
+      this.prisma.item.count({ where: { householdId } }),
+      this.prisma.tag.count({ where: { householdId } }),
+      this.prisma.customField.count({ where: { householdId } }),
+      this.prisma.nfcTag.count({ where: { householdId } }),
+    ]);
+
+    if (locations + categories + items + tags + customFields + nfcTags > 0) {
+      throw this.createError(
+        'HOUSEHOLD_NOT_EMPTY',
+        'Backups can only be restored into a new or empty household',
+        { locations, categories, items, tags, customFields, nfcTags }
+      );
+    }
+  }
+
+  /**
+   * Upload archived photo files under the restored item IDs
+   *
+   * Mirrors the photo upload route: an original and a thumbnail object per
+   * photo. The type comes from the file's magic bytes, never its name, and
+   * only JPEG, PNG and WebP are accepted; photos that are missing, of
+   * another type or cannot be decoded are counted as missing. Returns the
+   * new URLs by original photo ID.
+   */
+  private async uploadPhotos(
+    manifest: BackupManifest,
+    files: Record<string, Uint8Array>,
+    ids: Map<string, string>
+  ): Promise<{ photos: Map<string, RestoredPhoto>; keys: string[]; missing: number }> {
+    const photos = new Map<string, RestoredPhoto>();
+    const keys: string[] = [];
+    let missing = 0;
+
+    try {
+      for (const item of manifest.items) {
+        for (const photo of item.photos) {
+          const data = photo.file?.startsWith(PHOTOS_DIRECTORY) ? files[photo.file] : undefined;
+          const mimeType = data ? detectImageType(data) : null;
+          if (!data || !mimeType) {
+            missing++;
+            continue;
+          }
+
+          const buffer = Buffer.from(data);
+          let thumbnailBuffer: Buffer;
+          try {
+            thumbnailBuffer = await createThumbnail(buffer);
+          } catch {
+            missing++;
+            continue;
+          }
+
+          const prefix = `items/${ids.get(item.id)}/photos/${Date.now()}`;
+          const original = await this.storage.uploadFile(
+            buffer,
+            `${prefix}-original.${PHOTO_EXTENSIONS[mimeType]}`,
+            mimeType
+          );
+          keys.push(original.key);
+          const thumbnail = await this.storage.uploadFile(thumbnailBuffer, `${prefix}-thumb.jpg`, 'image/jpeg');
+          keys.push(thumbnail.key);
+
+          photos.set(photo.id, {
+            originalUrl: getCdnUrl(original.key),
+            thumbnailUrl: getCdnUrl(thumbnail.key),
+            mimeType,
+          });
+        }
+      }
+    } catch (error) {
+      await this.storage.deleteFiles(keys).catch(() => undefined);
+      throw error;
+    }
+
+    return { photos, keys, missing };
+  }
+
+  /**
+   * Create the manifest's records in the target household
+   */
+  private async writeRecords(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    userId: string,
+    manifest: BackupManifest,
+    ids: Map<string, string>,
+    photoUrls: Map<string, RestoredPhoto>
+  ): Promise<void> {
+    const id = (originalId: string) => ids.get(originalId)!;
+    const optionalId = (originalId: string | null) => (originalId ? id(originalId) : null);
+    const date = (value: string | null) => (value ? new Date(value) : null);
+    const locationStats = computeLocationStats(manifest.items);
+
+    // Locations, parents first
+    for (const location of manifest.locations) {
+      const stats = locationStats.get(location.id);
+      await tx.location.create({
+        data: {
+          id: id(location.id),
+          householdId,
+          name: location.name,
+          description: location.description,
+          parentId: optionalId(location.parentId),
+          path: location.path,
+          level: location.level,
+          locationType: location.locationType,
+          itemCount: stats?.itemCount ?? 0,
+          totalValue: stats?.totalValue ?? 0,
+          createdAt: new Date(location.createdAt),
+        },
+      });
+    }
+
+    // Categories, parents first
+    for (const category of manifest.categories) {
+      await tx.category.create({
+        data: {
+          id: id(category.id),
+          householdId,
+          name: category.name,
+          parentId: optionalId(category.parentId),
+          path: category.path,
+          level: category.level,
+          depreciationMethod: category.depreciationMethod,
+          usefulLifeYears: category.usefulLifeYears,
+          depreciationRate: category.depreciationRate,
+          createdAt: new Date(category.createdAt),
+        },
+      });
+    }
+
+    await tx.tag.createMany({
+      data: manifest.tags.map((tag) => ({
+        id: id(tag.id),
+        householdId,
+        name: tag.name,
+        color: tag.color,
+        usageCount: manifest.items.filter((item) => item.tagIds.includes(tag.id)).length,
+        createdAt: new Date(tag.createdAt),
+      })),
+    });
+
+    // Field scopes are plain ID arrays rather than relations, so IDs of
+    // tags or categories that are no longer in the backup are dropped
+    const scopeIds = (originalIds: string[]) =>
+      originalIds.filter((originalId) => ids.has(originalId)).map(id);
+
+    await tx.customField.createMany({
+      data: manifest.customFields.map((field) => ({
+        id: id(field.id),
+        householdId,
+        key: field.key,
+        label: field.label,
+        type: field.type,
+        options: field.options,
+        required: field.required,
+        searchable: field.searchable,
+        tagIds: scopeIds(field.tagIds),
+        locationTypes: field.locationTypes,
+        categoryIds: scopeIds(field.categoryIds),
+        displayOrder: field.displayOrder,
+        createdAt: new Date(field.createdAt),
+      })),
+    });
+
+    await tx.item.createMany({
+      data: manifest.items.map((item) => ({
+        id: id(item.id),
+        householdId,
+        locationId: id(item.locationId),
+        categoryId: optionalId(item.categoryId),
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        purchasePrice: item.purchasePrice,
+        currentValue: item.currentValue,
+        purchaseDate: date(item.purchaseDate),
+        status: item.status,
+        borrowedAt: date(item.borrowedAt),
+        borrowedUntil: date(item.borrowedUntil),
+        metadata: toJson(item.metadata) ?? {},
+        createdAt: new Date(item.createdAt),
+        updatedAt: new Date(item.updatedAt),
+        createdBy: userId,
+      })),
+    });
+
+    await tx.itemTag.createMany({
+      data: manifest.items.flatMap((item) =>
+        item.tagIds.map((tagId) => ({ itemId: id(item.id), tagId: id(tagId) }))
+      ),
+      skipDuplicates: true,
+    });
+
+    await tx.itemPhoto.createMany({
+      data: manifest.items.flatMap((item) =>
+        item.photos
+          .filter((photo) => photoUrls.has(photo.id))
+          .map((photo) => ({
+            id: id(photo.id),
+            itemId: id(item.id),
+            ...photoUrls.get(photo.id)!,
+            filename: photo.filename,
+            fileSize: photo.fileSize,
+            width: photo.width,
+            height: photo.height,
+            processingStatus: 'COMPLETED' as const,
+            displayOrder: photo.displayOrder,
+            isPrimary: photo.isPrimary,
+            createdAt: new Date(photo.createdAt),
+            uploadedBy: userId,
+          }))
+      ),
+    });
+
+    await tx.itemLoan.createMany({
+      data: manifest.loans.map((loan) => ({
+        id: id(loan.id),
+        householdId,
+        itemId: id(loan.itemId),
+        borrowerName: loan.borrowerName,
+        borrowerContact: loan.borrowerContact,
+        lentAt: new Date(loan.lentAt),
+        dueAt: date(loan.dueAt),
+        notes: loan.notes,
+        returnedAt: date(loan.returnedAt),
+        returnCondition: loan.returnCondition,
+        returnNotes: loan.returnNotes,
+      })),
+    });
+
+    await tx.nfcTag.createMany({
+      data: manifest.nfcTags.map((nfcTag) => ({
+        id: id(nfcTag.id),
+        householdId,
+        uid: nfcTag.uid,
+        label: nfcTag.label,
+        itemId: optionalId(nfcTag.itemId),
+        locationId: optionalId(nfcTag.locationId),
+        status: nfcTag.status,
+        retiredAt: date(nfcTag.retiredAt),
+        registeredBy: userId,
+        createdAt: new Date(nfcTag.createdAt),
+      })),
+    });
+  }
+
+  /**
+   * Create a standardized backup error
+   */
+  private createError(
+    code: BackupError['code'],
+    message: string,
+    context?: Record<string, any>
+  ): BackupError {
+    const error = new Error(message) as BackupError;
+    error.code = code;
+    error.context = context;
+    return error;
+  }
+}
+
+/**
+ * Decode a photo and render its thumbnail, as processImage in lib/utils/photos.ts does
+ */
+async function createThumbnail(buffer: Buffer): Promise<Buffer> {
+  return await sharp(buffer, { limitInputPixels: 100000000, sequentialRead: true })
+    .resize(THUMBNAIL_CONFIG.width, THUMBNAIL_CONFIG.height, { fit: 'cover', position: 'centre' })
+    .jpeg({ quality: THUMBNAIL_CONFIG.quality, mozjpeg: true })
+    .toBuffer();
+}
+
+/**
+ * Item count and total value per location, matching ItemsService statistics
+ */
+function computeLocationStats(items: BackupItem[]): Map<string, { itemCount: number; totalValue: Prisma.Decimal }> {
+  const stats = new Map<string, { itemCount: number; totalValue: Prisma.Decimal }>();
+
+  for (const item of items) {
+    if (INACTIVE_STATUSES.includes(item.status)) continue;
+
+    const current = stats.get(item.locationId) ?? { itemCount: 0, totalValue: new Prisma.Decimal(0) };
+    current.itemCount++;
+    if (item.currentValue) {
+      current.totalValue = current.totalValue.plus(item.currentValue);
+    }
+    stats.set(item.locationId, current);
+  }
+
+  return stats;
+}
+
+/**
+ * Convert a manifest JSON value for a Prisma Json column
+ */
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  return value === null || value === undefined ? undefined : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * Household name as a filename slug
+ */
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'household';
+}
+
+/**
+ * Backup service singleton instance
+ */
+export const backupService = new BackupService(new PrismaClient());
@@ -0,0 +1,78 @@
+/**
+ * Barcode Scanning Service
+ *
+ * Decodes QR codes and retail barcodes from camera frames on a dedicated
+ * worker pool so continuous scanning never blocks request handling.
+ *
+ * @category Services
+ * @since 1.9.0
+ */
+
+import { join } from 'path';
+import { WorkerPool } from '@/lib/utils/worker-pool';
+import type { DecodedBarcode } from '@/lib/types/barcodes';
+
+/**
+ * Longest edge frames are scaled to before decoding
+ */
+const MAX_FRAME_DIMENSION = 1024;
+
+/**
+ * Frames that take longer than this are dropped; the client sends another
+ */
+const DECODE_TIMEOUT_MS = 5000;
+
+/**
+ * BarcodeScanService - Frame decoding on worker threads
+ */
+export class BarcodeScanService {
+  private workerPool: WorkerPool | null = null;
+
+  /**
+   * Decode the first barcode found in a camera frame
+   *
+   * @param buffer - Encoded frame (JPEG, PNG or WebP)
+   * @returns Promise resolving to the decoded barcode, or null if none was found
+   */
+  async decodeFrame(buffer: Buffer): Promise<DecodedBarcode | null> {
+    return await this.getWorkerPool().exec<DecodedBarcode | null>(
+      'decodeFrame',
+      [buffer, { maxDimension: MAX_FRAME_DIMENSION }],
+      DECODE_TIMEOUT_MS
+    );
+  }
+
+  /**
+   * Shut down the worker pool
+   */
+  async shutdown(): Promise<void> {
+    if (this.workerPool) {
+      await this.workerPool.terminate();
+      this.workerPool = null;
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Create the worker pool on first use so importing the service is free
+   */
+  private getWorkerPool(): WorkerPool {
+    if (!this.workerPool) {
+      const workerScript = join(process.cwd(), 'lib/workers/barcode-decoder.js');
+      this.workerPool = new WorkerPool(workerScript, {
+        maxWorkers: 2,
+        minWorkers: 1,
+        defaultTimeout: DECODE_TIMEOUT_MS,
+        memoryLimitBytes: 128 * 1024 * 1024,
+        maxTasksPerWorker: 500,
+      });
+    }
+    return this.workerPool;
+  }
+}
+
+/**
+ * Barcode scan service singleton instance
+ */
+export const barcodeScanService = new BarcodeScanService();
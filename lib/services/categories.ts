@@ -0,0 +1,420 @@
+import { PrismaClient, ItemStatus, Prisma } from '@prisma/client';
+import type { CreateCategoryInput, UpdateCategoryInput } from '@/lib/validation';
+import { getDepreciationRuleError } from '@/lib/validation';
+import { getCategoryLineage, getCategorySubtreeIds, resolveDepreciationRule } from '@/lib/utils/categories';
+import { calculateDepreciatedValue } from '@/lib/utils/depreciation';
+import {
+  CATEGORY_PATH_SEPARATOR,
+  type CategoryBreakdownEntry,
+  type CategoryEntry,
+  type DepreciationRule,
+} from '@/lib/types/categories';
+
+/** Deepest level a category can sit at; roots are level 0 */
+const MAX_CATEGORY_LEVEL = 5;
+
+/**
+ * CategoryService - Business logic for the household category tree
+ *
+ * Categories are a hierarchical taxonomy separate from tags: each item has
+ * at most one, and a category's default custom fields and depreciation
+ * rule also apply to items in its subcategories. Default fields are kept
+ * on the fields themselves (`CustomField.categoryIds`) so field scoping
+ * stays in one place.
+ */
+export class CategoryService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List the household's categories in tree order
+   *
+   * @param householdId - ID of the household
+   * @returns Promise resolving to the categories, parents before children
+   */
+  async listCategories(householdId: string): Promise<CategoryEntry[]> {
+    const [categories, fields] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { householdId },
+        include: { _count: { select: { items: true } } },
+        orderBy: { path: 'asc' },
+      }),
+      this.prisma.customField.findMany({
+        where: { householdId },
+        select: { id: true, categoryIds: true },
+        orderBy: [{ displayOrder: 'asc' }, { label: 'asc' }],
+      }),
+    ]);
+
+    return categories.map(category => ({
+      id: category.id,
+      name: category.name,
+      parentId: category.parentId,
+      path: category.path,
+      level: category.level,
+      depreciationMethod: category.depreciationMethod,
+      usefulLifeYears: category.usefulLifeYears,
+      depreciationRate: category.depreciationRate === null ? null : Number(category.depreciationRate),
+      customFieldIds: fields.filter(field => field.categoryIds.includes(category.id)).map(field => field.id),
+      itemCount: category._count.items,
+    }));
+  }
+
+  /**
+   * Add a category
+   *
+   * @param householdId - ID of the household
+   * @param data - Validated category details
+   * @returns Promise resolving to the created category
+   */
+  async createCategory(householdId: string, data: CreateCategoryInput) {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Place the category under its parent
+      let path = data.name;
+      let level = 0;
+      if (data.parentId) {
+        const parent = await this.validateCategoryAccess(tx, householdId, data.parentId);
+        path = `${parent.path}${CATEGORY_PATH_SEPARATOR}${data.name}`;
+        level = parent.level + 1;
+
+        if (level > MAX_CATEGORY_LEVEL) {
+          throw new Error(`Maximum category depth (${MAX_CATEGORY_LEVEL + 1} levels) exceeded`);
+        }
+      }
+
+      // 2. Sibling names are unique
+      await this.ensurePathAvailable(tx, householdId, path);
+
+      // 3. Create the category
+      const category = await tx.category.create({
+        data: {
+          householdId,
+          name: data.name,
+          parentId: data.parentId,
+          path,
+          level,
+          depreciationMethod: data.depreciationMethod,
+          usefulLifeYears: data.usefulLifeYears,
+          depreciationRate: data.depreciationRate,
+        },
+      });
+
+      // 4. Attach the default custom fields
+      await this.syncDefaultFields(tx, householdId, category.id, data.customFieldIds);
+
+      return category;
+    });
+  }
+
+  /**
+   * Rename, move or change the defaults of a category
+   *
+   * @param categoryId - ID of the category
+   * @param householdId - ID of the household
+   * @param data - Validated changes
+   * @returns Promise resolving to the updated category
+   */
+  async updateCategory(categoryId: string, householdId: string, data: UpdateCategoryInput) {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the category within the household
+      const existing = await this.validateCategoryAccess(tx, householdId, categoryId);
+      const { customFieldIds, ...changes } = data;
+
+      // 2. The depreciation rule must still be complete after the change
+      const ruleError = getDepreciationRuleError({
+        depreciationMethod: changes.depreciationMethod !== undefined ? changes.depreciationMethod : existing.depreciationMethod,
+        usefulLifeYears: changes.usefulLifeYears !== undefined ? changes.usefulLifeYears : existing.usefulLifeYears,
+        depreciationRate: changes.depreciationRate !== undefined
+          ? changes.depreciationRate
+          : existing.depreciationRate === null ? null : Number(existing.depreciationRate),
+      });
+      if (ruleError) {
+        throw new Error(ruleError);
+      }
+
+      // 3. Validate the new place in the tree
+      const isMove = changes.parentId !== undefined && changes.parentId !== existing.parentId;
+      const isRename = changes.name !== undefined && changes.name !== existing.name;
+      if (isMove || isRename) {
+        const parentId = isMove ? changes.parentId ?? null : existing.parentId;
+        const name = changes.name ?? existing.name;
+        let parentPath: string | null = null;
+
+        if (parentId) {
+          const parent = await this.validateCategoryAccess(tx, householdId, parentId);
+          if (isMove) await this.validateCategoryMove(tx, householdId, categoryId, parent.id);
+          parentPath = parent.path;
+        }
+
+        await this.ensurePathAvailable(
+          tx,
+          householdId,
+          parentPath ? `${parentPath}${CATEGORY_PATH_SEPARATOR}${name}` : name
+        );
+      }
+
+      // 4. Apply the changes
+      const category = await tx.category.update({
+        where: { id: existing.id },
+        data: changes,
+      });
+
+      // 5. Recompute paths of the category and its subtree
+      if (isMove || isRename) {
+        await this.updateCategoryPaths(tx, category.id);
+      }
+
+      // 6. Replace the default custom fields when given
+      if (customFieldIds) {
+        await this.syncDefaultFields(tx, householdId, category.id, customFieldIds);
+      }
+
+      return isMove || isRename
+        ? await tx.category.findUniqueOrThrow({ where: { id: category.id } })
+        : category;
+    });
+  }
+
+  /**
+   * Delete a category; its items become uncategorized
+   *
+   * @param categoryId - ID of the category
+   * @param householdId - ID of the household
+   */
+  async deleteCategory(categoryId: string, householdId: string): Promise<void> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the category within the household
+      const category = await this.validateCategoryAccess(tx, householdId, categoryId);
+
+      // 2. Subcategories must be moved or deleted first
+      const childCount = await tx.category.count({ where: { parentId: category.id } });
+      if (childCount > 0) {
+        throw new Error('Cannot delete a category that has subcategories. Please move or delete them first.');
+      }
+
+      // 3. Stop the category's default fields pointing at it
+      await this.syncDefaultFields(tx, householdId, category.id, []);
+
+      // 4. Delete the category (items are detached by the foreign key)
+      await tx.category.delete({ where: { id: category.id } });
+    });
+  }
+
+  /**
+   * Item counts and values per root category
+   *
+   * Values include subcategories. Items with a purchase price, purchase date
+   * and a depreciation rule in their category lineage are also valued after
+   * depreciation; other items count at their current value.
+   *
+   * @param householdId - ID of the household
+   * @param asOf - Point in time to depreciate to
+   * @returns Promise resolving to one entry per root category, plus
+   *   "Uncategorized" when some items have no category, highest value first
+   */
+  async getCategoryBreakdown(householdId: string, asOf: Date = new Date()): Promise<CategoryBreakdownEntry[]> {
+    const [categories, items] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { householdId },
+        select: {
+          id: true,
+          parentId: true,
+          name: true,
+          depreciationMethod: true,
+          usefulLifeYears: true,
+          depreciationRate: true,
+        },
+      }),
+      this.prisma.item.findMany({
+        where: { householdId, status: { not: ItemStatus.SOLD } },
+        select: { categoryId: true, currentValue: true, purchasePrice: true, purchaseDate: true },
+      }),
+    ]);
+
+    // 1. One entry per root category
+    const entries = new Map<string | null, CategoryBreakdownEntry>();
+    for (const category of categories) {
+      if (!category.parentId) {
+        entries.set(category.id, { categoryId: category.id, name: category.name, itemCount: 0, totalValue: 0, depreciatedValue: 0 });
+      }
+    }
+
+    // 2. Add each item to its root category
+    const rootOf = new Map<string, string>();
+    const ruleOf = new Map<string, DepreciationRule | null>();
+    for (const item of items) {
+      let rootId: string | null = null;
+      let rule: DepreciationRule | null = null;
+      if (item.categoryId) {
+        if (!rootOf.has(item.categoryId)) {
+          rootOf.set(item.categoryId, getCategoryLineage(categories, item.categoryId).pop() ?? item.categoryId);
+          ruleOf.set(item.categoryId, resolveDepreciationRule(categories, item.categoryId));
+        }
+        rootId = rootOf.get(item.categoryId)!;
+        rule = ruleOf.get(item.categoryId)!;
+      }
+
+      if (!entries.has(rootId)) {
+        entries.set(rootId, { categoryId: null, name: 'Uncategorized', itemCount: 0, totalValue: 0, depreciatedValue: 0 });
+      }
+      const entry = entries.get(rootId)!;
+
+      const value = Number(item.currentValue ?? item.purchasePrice ?? 0);
+      entry.itemCount += 1;
+      entry.totalValue += value;
+      entry.depreciatedValue += rule && item.purchasePrice !== null && item.purchaseDate
+        ? calculateDepreciatedValue(Number(item.purchasePrice), item.purchaseDate, rule, asOf)
+        : value;
+    }
+
+    // 3. Round to cents, highest value first
+    return Array.from(entries.values())
+      .map(entry => ({
+        ...entry,
+        totalValue: Math.round(entry.totalValue * 100) / 100,
+        depreciatedValue: Math.round(entry.depreciatedValue * 100) / 100,
+      }))
+      .sort((a, b) => b.totalValue - a.totalValue || a.name.localeCompare(b.name));
+  }
+
+  // Private helper methods
+
+  /**
+   * Validate that a category exists and belongs to the household
+   */
+  private async validateCategoryAccess(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    categoryId: string
+  ) {
+    const category = await tx.category.findFirst({
+      where: { id: categoryId, householdId },
+    });
+
+    if (!category) {
+      throw new Error('Category not found or access denied');
+    }
+
+    return category;
+  }
+
+  /**
+   * Check that no sibling already uses the name
+   */
+  private async ensurePathAvailable(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    path: string
+  ): Promise<void> {
+    const existing = await tx.category.findFirst({
+      where: { householdId, path },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new Error(`A category "${path}" already exists`);
+    }
+  }
+
+  /**
+   * Validate that moving a category under a parent keeps the tree sound
+   */
+  private async validateCategoryMove(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    categoryId: string,
+    parentId: string
+  ): Promise<void> {
+    const categories = await tx.category.findMany({
+      where: { householdId },
+      select: { id: true, parentId: true, level: true },
+    });
+
+    // The new parent cannot be the category itself or one of its descendants
+    if (getCategoryLineage(categories, parentId).includes(categoryId)) {
+      throw new Error('Cannot move a category into itself or one of its subcategories');
+    }
+
+    // The deepest descendant must stay within the depth limit
+    const parent = categories.find(category => category.id === parentId)!;
+    const category = categories.find(candidate => candidate.id === categoryId)!;
+    const subtreeIds = getCategorySubtreeIds(categories, categoryId);
+    const deepestLevel = Math.max(
+      ...categories.filter(candidate => subtreeIds.includes(candidate.id)).map(candidate => candidate.level)
+    );
+    if (parent.level + 1 + (deepestLevel - category.level) > MAX_CATEGORY_LEVEL) {
+      throw new Error(`Maximum category depth (${MAX_CATEGORY_LEVEL + 1} levels) would be exceeded`);
+    }
+  }
+
+  /**
+   * Update category paths and levels after renames and moves
+   */
+  private async updateCategoryPaths(
+    tx: Prisma.TransactionClient,
+    categoryId: string
+  ): Promise<void> {
+    const category = await tx.category.findUniqueOrThrow({
+      where: { id: categoryId },
+      include: { parent: true },
+    });
+
+    await tx.category.update({
+      where: { id: categoryId },
+      data: {
+        path: category.parent
+          ? `${category.parent.path}${CATEGORY_PATH_SEPARATOR}${category.name}`
+          : category.name,
+        level: category.parent ? category.parent.level + 1 : 0,
+      },
+    });
+
+    const children = await tx.category.findMany({
+      where: { parentId: categoryId },
+      select: { id: true },
+    });
+
+    for (const child of children) {
+      await this.updateCategoryPaths(tx, child.id);
+    }
+  }
+
+  /**
+   * Make exactly the given fields defaults of the category
+   */
+  private async syncDefaultFields(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    categoryId: string,
+    customFieldIds: string[]
+  ): Promise<void> {
+    const fields = await tx.customField.findMany({
+      where: { householdId },
+      select: { id: true, categoryIds: true },
+    });
+
+    const knownIds = new Set(fields.map(field => field.id));
+    if (customFieldIds.some(fieldId => !knownIds.has(fieldId))) {
+      throw new Error('Custom fields must belong to this household');
+    }
+
+    for (const field of fields) {
+      const isDefault = field.categoryIds.includes(categoryId);
+      const shouldBeDefault = customFieldIds.includes(field.id);
+      if (isDefault === shouldBeDefault) continue;
+
+      await tx.customField.update({
+        where: { id: field.id },
+        data: {
+          categoryIds: shouldBeDefault
+            ? [...field.categoryIds, categoryId]
+            : field.categoryIds.filter(id => id !== categoryId),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Singleton instance of CategoryService
+ */
+export const categoryService = new CategoryService(new PrismaClient());
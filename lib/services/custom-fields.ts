@@ -0,0 +1,155 @@
+import { PrismaClient, CustomFieldType, Prisma } from '@prisma/client';
+import type { CreateCustomFieldInput, UpdateCustomFieldInput } from '@/lib/validation';
+import type { CustomFieldDefinition } from '@/lib/types/custom-fields';
+
+/**
+ * CustomFieldService - Business logic for household custom item fields
+ *
+ * Households define typed fields (text, number, date, select, URL, serial
+ * number, warranty expiry) that items fill in. Values live in
+ * `Item.metadata` under the field's key, so the key and type are fixed once
+ * a field exists, and deleting a field leaves stored values in place.
+ */
+export class CustomFieldService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List the household's fields in display order
+   *
+   * @param householdId - ID of the household
+   * @returns Promise resolving to the field definitions
+   */
+  async listFields(householdId: string): Promise<CustomFieldDefinition[]> {
+    return await this.prisma.customField.findMany({
+      where: { householdId },
+      orderBy: [{ displayOrder: 'asc' }, { label: 'asc' }],
+    });
+  }
+
+  /**
+   * Define a new field
+   *
+   * @param householdId - ID of the household
+   * @param data - Validated field definition
+   * @returns Promise resolving to the created field
+   */
+  async createField(householdId: string, data: CreateCustomFieldInput): Promise<CustomFieldDefinition> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Keys are unique per household
+      const existing = await tx.customField.findFirst({
+        where: { householdId, key: data.key },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new Error(`A custom field with key "${data.key}" already exists`);
+      }
+
+      // 2. Scoping tags must belong to the household
+      await this.validateTags(tx, householdId, data.tagIds);
+
+      // 3. Create the field
+      return await tx.customField.create({
+        data: {
+          householdId,
+          key: data.key,
+          label: data.label,
+          type: data.type,
+          options: data.options,
+          required: data.required,
+          searchable: data.searchable,
+          tagIds: data.tagIds,
+          locationTypes: data.locationTypes,
+          displayOrder: data.displayOrder,
+        },
+      });
+    });
+  }
+
+  /**
+   * Change a field's label, options, scope or flags
+   *
+   * @param fieldId - ID of the field
+   * @param householdId - ID of the household
+   * @param data - Validated changes
+   * @returns Promise resolving to the updated field
+   */
+  async updateField(
+    fieldId: string,
+    householdId: string,
+    data: UpdateCustomFieldInput
+  ): Promise<CustomFieldDefinition> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the field within the household
+      const field = await tx.customField.findFirst({
+        where: { id: fieldId, householdId },
+      });
+
+      if (!field) {
+        throw new Error('Custom field not found or access denied');
+      }
+
+      // 2. Options only make sense for select fields
+      if (data.options !== undefined) {
+        if (field.type !== CustomFieldType.SELECT && data.options.length > 0) {
+          throw new Error('Only select fields have options');
+        }
+        if (field.type === CustomFieldType.SELECT && data.options.length === 0) {
+          throw new Error('Select fields need at least one option');
+        }
+      }
+
+      // 3. Scoping tags must belong to the household
+      if (data.tagIds) {
+        await this.validateTags(tx, householdId, data.tagIds);
+      }
+
+      // 4. Apply the changes
+      return await tx.customField.update({
+        where: { id: field.id },
+        data,
+      });
+    });
+  }
+
+  /**
+   * Delete a field; values already stored on items are kept
+   *
+   * @param fieldId - ID of the field
+   * @param householdId - ID of the household
+   */
+  async deleteField(fieldId: string, householdId: string): Promise<void> {
+    const { count } = await this.prisma.customField.deleteMany({
+      where: { id: fieldId, householdId },
+    });
+
+    if (count === 0) {
+      throw new Error('Custom field not found or access denied');
+    }
+  }
+
+  /**
+   * Check that every tag ID belongs to the household
+   */
+  private async validateTags(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    tagIds: string[]
+  ): Promise<void> {
+    const uniqueIds = Array.from(new Set(tagIds));
+    if (uniqueIds.length === 0) return;
+
+    const count = await tx.tag.count({
+      where: { id: { in: uniqueIds }, householdId },
+    });
+
+    if (count !== uniqueIds.length) {
+      throw new Error('Tags must belong to this household');
+    }
+  }
+}
+
+/**
+ * Singleton instance of CustomFieldService
+ */
+export const customFieldService = new CustomFieldService(new PrismaClient());
@@ -0,0 +1,346 @@
+/**
+ * ExportScheduleService - Recurring household exports for off-site backup
+ *
+ * A schedule stores an export request (format, saved filter set and column
+ * settings) with a cron expression. The runner creates an export job
+ * through ExportService for every schedule that is due; the export worker
+ * then generates it into the backups bucket like any other job. Only the
+ * last `retentionCount` completed exports of a schedule are kept.
+ *
+ * The runner is invoked by the export worker cron route and by
+ * `npm run exports:run-schedules`. It re-checks the owner's `exports:create`
+ * permission on every run and pauses schedules whose owner lost it.
+ *
+ * @category Business Logic Services
+ * @since 1.13.0
+ */
+
+import { PrismaClient, Prisma, ExportSchedule as ExportScheduleRecord } from '@prisma/client';
+import { ZodError, ZodIssueCode } from 'zod';
+import type { ExportError, ExportFormat, ExportSchedule, ExportScheduleRunResult } from '@/lib/types/exports';
+import { ExportErrorCodes, ExportService, exportsService } from '@/lib/services/exports';
+import { S3StorageService, storageService } from '@/lib/services/storage';
+import { getNextCronRun } from '@/lib/utils/cron';
+import { hasPermission } from '@/lib/utils/permissions';
+import {
+  ExportColumnSettingsSchema,
+  ExportFiltersSchema,
+  validateCreateExportSchedule,
+  validateUpdateExportSchedule,
+  type CreateExportScheduleInput,
+  type UpdateExportScheduleInput
+} from '@/lib/validation/exports';
+
+/**
+ * ExportScheduleService class for managing and running export schedules
+ */
+export class ExportScheduleService {
+  constructor(
+    private prisma: PrismaClient,
+    private exports: ExportService = exportsService,
+    private storage: S3StorageService = storageService
+  ) {}
+
+  /**
+   * List a household's export schedules
+   *
+   * @param householdId - ID of the household
+   * @returns Promise resolving to the schedules, by name
+   */
+  async listSchedules(householdId: string): Promise<ExportSchedule[]> {
+    const schedules = await this.prisma.exportSchedule.findMany({
+      where: { householdId },
+      orderBy: { name: 'asc' },
+    });
+
+    return schedules.map(schedule => this.toExportSchedule(schedule));
+  }
+
+  /**
+   * Create an export schedule; its first run is the next time the cron
+   * expression fires
+   *
+   * @param userId - Member the exports will be created as
+   * @param householdId - ID of the household
+   * @param data - Schedule settings
+   * @returns Promise resolving to the created schedule
+   */
+  async createSchedule(
+    userId: string,
+    householdId: string,
+    data: CreateExportScheduleInput
+  ): Promise<ExportSchedule> {
+    const validatedData = validateCreateExportSchedule(data);
+
+    const schedule = await this.prisma.exportSchedule.create({
+      data: {
+        householdId,
+        userId,
+        name: validatedData.name,
+        format: validatedData.format,
+        filters: toJson(validatedData.filters),
+        columnSettings: toJson(validatedData.columnSettings),
+        cronExpression: validatedData.cronExpression,
+        retentionCount: validatedData.retentionCount,
+        enabled: validatedData.enabled,
+        nextRunAt: getNextCronRun(validatedData.cronExpression, new Date()),
+      },
+    });
+
+    return this.toExportSchedule(schedule);
+  }
+
+  /**
+   * Update an export schedule
+   *
+   * A new cron expression, or resuming a paused schedule, moves the next run
+   * to the next time the expression fires. Lowering the retention count
+   * takes effect at the next prune.
+   *
+   * @param scheduleId - Schedule ID
+   * @param householdId - ID of the household (for access control)
+   * @param data - Fields to change; null filters or column settings clear them
+   * @returns Promise resolving to the updated schedule
+   * @throws {ZodError} When column settings are given for a non-spreadsheet format
+   * @throws {ExportError} When the schedule is not found
+   */
+  async updateSchedule(
+    scheduleId: string,
+    householdId: string,
+    data: UpdateExportScheduleInput
+  ): Promise<ExportSchedule> {
+    const validatedData = validateUpdateExportSchedule(data);
+
+    const existing = await this.prisma.exportSchedule.findFirst({
+      where: { id: scheduleId, householdId },
+    });
+    if (!existing) {
+      throw this.createError('EXPORT_SCHEDULE_NOT_FOUND', 'Export schedule not found', { scheduleId });
+    }
+
+    const format = validatedData.format ?? existing.format;
+    const cronExpression = validatedData.cronExpression ?? existing.cronExpression;
+    const reschedule = validatedData.cronExpression !== undefined || (validatedData.enabled && !existing.enabled);
+
+    // Column settings only apply to spreadsheet formats; switching away drops them
+    const spreadsheet = format === 'csv' || format === 'xlsx';
+    if (validatedData.columnSettings && !spreadsheet) {
+      throw new ZodError([{
+        code: ZodIssueCode.custom,
+        message: 'Column settings only apply to CSV and XLSX exports',
+        path: ['columnSettings'],
+      }]);
+    }
+    const columnSettings = validatedData.columnSettings === null || !spreadsheet
+      ? Prisma.DbNull
+      : toJson(validatedData.columnSettings);
+
+    const schedule = await this.prisma.exportSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        name: validatedData.name,
+        format: validatedData.format,
+        filters: validatedData.filters === null ? Prisma.DbNull : toJson(validatedData.filters),
+        columnSettings,
+        cronExpression: validatedData.cronExpression,
+        retentionCount: validatedData.retentionCount,
+        enabled: validatedData.enabled,
+        nextRunAt: reschedule ? getNextCronRun(cronExpression, new Date()) : undefined,
+      },
+    });
+
+    return this.toExportSchedule(schedule);
+  }
+
+  /**
+   * Delete an export schedule and the files it kept
+   *
+   * Its jobs stay in the export history without a file.
+   *
+   * @param scheduleId - Schedule ID
+   * @param householdId - ID of the household (for access control)
+   * @throws {ExportError} When the schedule is not found
+   */
+  async deleteSchedule(scheduleId: string, householdId: string): Promise<void> {
+    const schedule = await this.prisma.exportSchedule.findFirst({
+      where: { id: scheduleId, householdId },
+      select: { id: true },
+    });
+    if (!schedule) {
+      throw this.createError('EXPORT_SCHEDULE_NOT_FOUND', 'Export schedule not found', { scheduleId });
+    }
+
+    const stored = await this.prisma.exportJob.findMany({
+      where: { scheduleId, storageKey: { not: null } },
+      select: { id: true, storageKey: true },
+    });
+
+    await this.storage.deleteFiles(stored.map(job => job.storageKey!), 'backups');
+    await this.prisma.exportJob.updateMany({
+      where: { scheduleId },
+      data: { storageKey: null },
+    });
+    await this.prisma.exportSchedule.delete({ where: { id: scheduleId } });
+  }
+
+  /**
+   * Create export jobs for every enabled schedule that is due
+   *
+   * Each schedule is claimed by moving its nextRunAt forward with a
+   * conditional update, so concurrent runners never start the same run
+   * twice. Runs missed while nothing was running are collapsed into one.
+   * Schedules whose member left the household or may no longer create
+   * exports are paused with the reason as their last error; resuming them
+   * is up to a household admin. Other failures are recorded on the schedule
+   * and retried at its next run.
+   *
+   * @param options - Reference time and maximum schedules for this pass
+   * @returns Promise resolving to counts of due, started and failed schedules
+   */
+  async runDueSchedules(options: { now?: Date; maxSchedules?: number } = {}): Promise<ExportScheduleRunResult> {
+    const { now = new Date(), maxSchedules = 20 } = options;
+    const result: ExportScheduleRunResult = { due: 0, started: 0, failed: 0 };
+
+    const due = await this.prisma.exportSchedule.findMany({
+      where: { enabled: true, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: maxSchedules,
+    });
+
+    for (const schedule of due) {
+      const { count } = await this.prisma.exportSchedule.updateMany({
+        where: { id: schedule.id, enabled: true, nextRunAt: schedule.nextRunAt },
+        data: { nextRunAt: getNextCronRun(schedule.cronExpression, now), lastRunAt: now },
+      });
+      if (count === 0) continue;
+
+      result.due++;
+
+      // The member's role or overrides may have changed since the schedule was created
+      const member = await this.prisma.householdMember.findUnique({
+        where: { userId_householdId: { userId: schedule.userId, householdId: schedule.householdId } },
+        select: { role: true, permissions: true },
+      });
+      if (!member || !hasPermission(member.role, member.permissions, 'exports:create')) {
+        await this.prisma.exportSchedule.update({
+          where: { id: schedule.id },
+          data: {
+            enabled: false,
+            lastError: 'Paused: the schedule owner no longer has permission to create exports',
+          },
+        });
+        result.failed++;
+        continue;
+      }
+
+      try {
+        await this.exports.createExport(
+          schedule.userId,
+          {
+            format: schedule.format as ExportFormat,
+            filters: schedule.filters ? ExportFiltersSchema.parse(schedule.filters) : undefined,
+            columnSettings: schedule.columnSettings ? ExportColumnSettingsSchema.parse(schedule.columnSettings) : undefined,
+          },
+          schedule.householdId,
+          { scheduleId: schedule.id }
+        );
+
+        await this.prisma.exportSchedule.update({ where: { id: schedule.id }, data: { lastError: null } });
+        result.started++;
+
+      } catch (error) {
+        console.error(`Export schedule ${schedule.id} run failed:`, error);
+
+        await this.prisma.exportSchedule.update({
+          where: { id: schedule.id },
+          data: { lastError: error instanceof Error ? error.message : 'Unknown error' },
+        });
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete files of scheduled exports beyond each schedule's retention count
+   *
+   * Pruned jobs stay in the history without a file.
+   *
+   * @returns Promise resolving to the number of files removed
+   */
+  async pruneScheduledExports(): Promise<{ filesRemoved: number }> {
+    const schedules = await this.prisma.exportSchedule.findMany({
+      select: { id: true, retentionCount: true },
+    });
+
+    let filesRemoved = 0;
+    for (const schedule of schedules) {
+      const outdated = await this.prisma.exportJob.findMany({
+        where: { scheduleId: schedule.id, status: 'completed', storageKey: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        skip: schedule.retentionCount,
+        select: { id: true, storageKey: true },
+      });
+      if (outdated.length === 0) continue;
+
+      await this.storage.deleteFiles(outdated.map(job => job.storageKey!), 'backups');
+      await this.prisma.exportJob.updateMany({
+        where: { id: { in: outdated.map(job => job.id) } },
+        data: { storageKey: null },
+      });
+      filesRemoved += outdated.length;
+    }
+
+    return { filesRemoved };
+  }
+
+  /**
+   * Convert a stored schedule to the API shape
+   */
+  private toExportSchedule(schedule: ExportScheduleRecord): ExportSchedule {
+    return {
+      id: schedule.id,
+      householdId: schedule.householdId,
+      userId: schedule.userId,
+      name: schedule.name,
+      format: schedule.format as ExportFormat,
+      filters: schedule.filters ? ExportFiltersSchema.parse(schedule.filters) : undefined,
+      columnSettings: schedule.columnSettings ? ExportColumnSettingsSchema.parse(schedule.columnSettings) : undefined,
+      cronExpression: schedule.cronExpression,
+      retentionCount: schedule.retentionCount,
+      enabled: schedule.enabled,
+      nextRunAt: schedule.nextRunAt,
+      lastRunAt: schedule.lastRunAt ?? undefined,
+      lastError: schedule.lastError ?? undefined,
+      createdAt: schedule.createdAt,
+      updatedAt: schedule.updatedAt,
+    };
+  }
+
+  /**
+   * Create a standardized export error
+   */
+  private createError(
+    code: keyof typeof ExportErrorCodes,
+    message: string,
+    context?: Record<string, any>
+  ): ExportError {
+    const error = new Error(message) as ExportError;
+    error.code = code;
+    error.context = context;
+    return error;
+  }
+}
+
+/**
+ * Serialize an optional settings object for a JSON column
+ */
+function toJson(value: object | undefined): Prisma.InputJsonObject | undefined {
+  return value ? (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonObject) : undefined;
+}
+
+/**
+ * Export schedule service singleton instance
+ */
+export const exportScheduleService = new ExportScheduleService(new PrismaClient());
@@ -0,0 +1,203 @@
+/**
+ * ExportTemplateService - Named export column layouts saved per household
+ *
+ * A template stores the column selection, ordering, delimiter and date and
+ * currency formats of a CSV or XLSX export, so members can reuse a layout
+ * (for example the one their accounting spreadsheet expects) by picking it
+ * by name. Exports copy the settings when they are created; editing a
+ * template does not change exports already made with it.
+ *
+ * @category Business Logic Services
+ * @since 1.13.0
+ */
+
+import { PrismaClient, Prisma, ExportTemplate as ExportTemplateRecord } from '@prisma/client';
+import type { ExportError, ExportTemplate } from '@/lib/types/exports';
+import { ExportErrorCodes } from '@/lib/services/exports';
+import {
+  ExportColumnSettingsSchema,
+  validateCreateExportTemplate,
+  validateUpdateExportTemplate,
+  type CreateExportTemplateInput,
+  type UpdateExportTemplateInput
+} from '@/lib/validation/exports';
+
+/**
+ * ExportTemplateService class for managing saved export layouts
+ */
+export class ExportTemplateService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List a household's export templates
+   *
+   * @param householdId - ID of the household
+   * @returns Promise resolving to the templates, by name
+   */
+  async listTemplates(householdId: string): Promise<ExportTemplate[]> {
+    const templates = await this.prisma.exportTemplate.findMany({
+      where: { householdId },
+      orderBy: { name: 'asc' },
+    });
+
+    return templates.map(template => this.toExportTemplate(template));
+  }
+
+  /**
+   * Get an export template
+   *
+   * @param templateId - Template ID
+   * @param householdId - ID of the household (for access control)
+   * @returns Promise resolving to the template, or null when not found
+   */
+  async getTemplate(templateId: string, householdId: string): Promise<ExportTemplate | null> {
+    const template = await this.prisma.exportTemplate.findFirst({
+      where: { id: templateId, householdId },
+    });
+
+    return template ? this.toExportTemplate(template) : null;
+  }
+
+  /**
+   * Save column settings as a named template
+   *
+   * @param userId - ID of the member saving the template
+   * @param householdId - ID of the household
+   * @param data - Template name and settings
+   * @returns Promise resolving to the created template
+   * @throws {ExportError} When the household already has a template with the name
+   */
+  async createTemplate(
+    userId: string,
+    householdId: string,
+    data: CreateExportTemplateInput
+  ): Promise<ExportTemplate> {
+    const validatedData = validateCreateExportTemplate(data);
+
+    return await this.prisma.$transaction(async (tx) => {
+      await this.assertNameAvailable(tx, householdId, validatedData.name);
+
+      const template = await tx.exportTemplate.create({
+        data: {
+          householdId,
+          name: validatedData.name,
+          settings: validatedData.settings as unknown as Prisma.InputJsonObject,
+          createdBy: userId,
+        },
+      });
+
+      return this.toExportTemplate(template);
+    });
+  }
+
+  /**
+   * Rename a template or replace its settings
+   *
+   * @param templateId - Template ID
+   * @param householdId - ID of the household (for access control)
+   * @param data - Fields to change
+   * @returns Promise resolving to the updated template
+   * @throws {ExportError} When the template is not found or the new name is taken
+   */
+  async updateTemplate(
+    templateId: string,
+    householdId: string,
+    data: UpdateExportTemplateInput
+  ): Promise<ExportTemplate> {
+    const validatedData = validateUpdateExportTemplate(data);
+
+    return await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.exportTemplate.findFirst({
+        where: { id: templateId, householdId },
+      });
+      if (!existing) {
+        throw this.createError('EXPORT_TEMPLATE_NOT_FOUND', 'Export template not found', { templateId });
+      }
+
+      if (validatedData.name !== undefined && validatedData.name !== existing.name) {
+        await this.assertNameAvailable(tx, householdId, validatedData.name);
+      }
+
+      const template = await tx.exportTemplate.update({
+        where: { id: templateId },
+        data: {
+          name: validatedData.name,
+          settings: validatedData.settings
+            ? (validatedData.settings as unknown as Prisma.InputJsonObject)
+            : undefined,
+        },
+      });
+
+      return this.toExportTemplate(template);
+    });
+  }
+
+  /**
+   * Delete a template
+   *
+   * @param templateId - Template ID
+   * @param householdId - ID of the household (for access control)
+   * @throws {ExportError} When the template is not found
+   */
+  async deleteTemplate(templateId: string, householdId: string): Promise<void> {
+    const { count } = await this.prisma.exportTemplate.deleteMany({
+      where: { id: templateId, householdId },
+    });
+
+    if (count === 0) {
+      throw this.createError('EXPORT_TEMPLATE_NOT_FOUND', 'Export template not found', { templateId });
+    }
+  }
+
+  /**
+   * Reject a name another template in the household already uses
+   */
+  private async assertNameAvailable(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    name: string
+  ): Promise<void> {
+    const duplicate = await tx.exportTemplate.findFirst({
+      where: { householdId, name: { equals: name, mode: 'insensitive' } },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      throw this.createError('EXPORT_TEMPLATE_NAME_TAKEN', `An export template named "${name}" already exists`, { name });
+    }
+  }
+
+  /**
+   * Convert a stored template to the API shape
+   */
+  private toExportTemplate(template: ExportTemplateRecord): ExportTemplate {
+    return {
+      id: template.id,
+      householdId: template.householdId,
+      name: template.name,
+      settings: ExportColumnSettingsSchema.parse(template.settings),
+      createdBy: template.createdBy,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    };
+  }
+
+  /**
+   * Create a standardized export error
+   */
+  private createError(
+    code: keyof typeof ExportErrorCodes,
+    message: string,
+    context?: Record<string, any>
+  ): ExportError {
+    const error = new Error(message) as ExportError;
+    error.code = code;
+    error.context = context;
+    return error;
+  }
+}
+
+/**
+ * Export template service singleton instance
+ */
+export const exportTemplateService = new ExportTemplateService(new PrismaClient());
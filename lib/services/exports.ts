@@ -4,6 +4,8 @@
  * This service handles comprehensive inventory data export with:
  * - Secure user data isolation and household membership validation
  * - Streaming CSV generation for large datasets (500+ items)
+ * - JSON, XLSX and PDF formats built from the same filters and item data
+ * - Signed insurance reports grouped by room, reproducible for past dates
  * - Background job processing with progress tracking
  * - Memory-efficient chunked processing
  * - CloudFront photo URL integration
@@ -18,9 +20,33 @@
 
 import { PrismaClient, Prisma, Item, ItemPhoto, Tag, Location, Household, ItemStatus } from '@prisma/client';
 import { createWriteStream, type WriteStream } from 'fs';
+import { readFile, unlink, writeFile } from 'fs/promises';
 import { join } from 'path';
-import { tmpdir } from 'os';
-import { randomUUID } from 'crypto';
+import { hostname, tmpdir } from 'os';
+import { createHmac, randomUUID } from 'crypto';
+import PDFDocument from 'pdfkit';
+import sharp from 'sharp';
+import { S3StorageService, storageService } from './storage';
+import { SavedSearchService, savedSearchService } from './saved-searches';
+import { getStorageKeyFromUrl, type BucketType } from '@/lib/config/storage';
+import { buildXLSX, type WorksheetData } from '@/lib/utils/spreadsheet';
+import {
+  INSURED_ITEM_STATUSES,
+  buildReportDigest,
+  computeLocationTotals,
+  getSerialNumber,
+  groupItemsByRoom,
+  rollBackItems,
+  rollBackLocations,
+} from '@/lib/utils/insurance-report';
+import {
+  buildCSVConfig,
+  buildCustomFieldColumns,
+  DEFAULT_EXPORT_COLUMN_SETTINGS,
+  METADATA_KEY_PATTERN,
+  type ExportCustomField,
+} from '@/lib/utils/export-columns';
+import { serverEnv } from '@/lib/utils/env';
 import {
   type CreateExportRequest,
   type ExportJob,
@@ -28,11 +54,19 @@ import {
   type ExportProgressUpdate,
   type CSVExportConfig,
   type CSVColumn,
+  type ExportColumnSettings,
   type ExportError,
   type ExportSecurityValidation,
-  type ExportJobStatus
+  type ExportJobStatus,
+  type ExportWorkerResult,
+  type ExportFormat,
+  type InsuranceReport,
+  type InsuranceReportLocation,
+  type InsuranceReportRoom
 } from '@/lib/types/exports';
 import {
+  ExportColumnSettingsSchema,
+  ExportFiltersSchema,
   validateCreateExportRequest,
   validateExportJob,
   type CreateExportRequestInput
@@ -41,6 +75,37 @@ import {
 // Type for Prisma transaction client
 type PrismaTransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
 
+type ExportJobRecord = Prisma.ExportJobGetPayload<object>;
+
+/** How long a finished export file is kept for download */
+export const EXPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** A processing job without a heartbeat for this long is treated as abandoned */
+const EXPORT_JOB_LEASE_MS = 5 * 60 * 1000;
+
+/** Tries a job gets before it is marked failed */
+const MAX_EXPORT_ATTEMPTS = 3;
+
+/**
+ * File extension and content type of each export format
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  xlsx: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+};
+
+/**
+ * Bucket a job's file is stored in: scheduled exports are off-site backups
+ */
+export function exportBucket(job: { scheduleId: string | null }): BucketType {
+  return job.scheduleId ? 'backups' : 'exports';
+}
+
+/** Separator LocationsService uses between names in a location path */
+const LOCATION_PATH_SEPARATOR = ' → ';
+
 /**
  * Export error codes for consistent error handling
  */
@@ -51,6 +116,15 @@ export const ExportErrorCodes = {
   PHOTO_ACCESS_DENIED: 'EXPORT_004',
   MEMORY_LIMIT_EXCEEDED: 'EXPORT_005',
   BACKGROUND_JOB_FAILED: 'EXPORT_006',
+  LABEL_TARGETS_NOT_FOUND: 'EXPORT_007',
+  EXPORT_NOT_FOUND: 'EXPORT_008',
+  EXPORT_NOT_CANCELLABLE: 'EXPORT_009',
+  EXPORT_NOT_READY: 'EXPORT_010',
+  EXPORT_EXPIRED: 'EXPORT_011',
+  EXPORT_TEMPLATE_NOT_FOUND: 'EXPORT_012',
+  EXPORT_TEMPLATE_NAME_TAKEN: 'EXPORT_013',
+  EXPORT_SCHEDULE_NOT_FOUND: 'EXPORT_014',
+  SAVED_SEARCH_NOT_FOUND: 'EXPORT_015',
 } as const;
 
 /**
@@ -69,30 +143,11 @@ interface ExportProcessingConfig {
 
 /**
  * Default CSV export configuration
+ *
+ * Also the default column layout for imports, so an export can be edited
+ * and imported back.
  */
-const DEFAULT_CSV_CONFIG: CSVExportConfig = {
-  includeHeaders: true,
-  delimiter: ',',
-  textQualifier: '"',
-  lineEnding: '\n',
-  columns: [
-    { key: 'name', header: 'Item Name', formatter: (value: unknown) => String(value || ''), required: true },
-    { key: 'description', header: 'Description', formatter: (value: unknown) => String(value || ''), required: false },
-    { key: 'quantity', header: 'Quantity', formatter: (value: unknown) => String(value || 0), required: true },
-    { key: 'unit', header: 'Unit', formatter: (value: unknown) => String(value || 'piece'), required: true },
-    { key: 'purchasePrice', header: 'Purchase Price', formatter: (value: unknown) => value ? `$${Number(value).toFixed(2)}` : '', required: false },
-    { key: 'currentValue', header: 'Current Value', formatter: (value: unknown) => value ? `$${Number(value).toFixed(2)}` : '', required: false },
-    { key: 'purchaseDate', header: 'Purchase Date', formatter: (value: unknown) => value ? new Date(value as string).toISOString().split('T')[0] : '', required: false },
-    { key: 'status', header: 'Status', formatter: (value: unknown) => String(value || 'AVAILABLE'), required: true },
-    { key: 'location', header: 'Location Path', formatter: (value: unknown, item: ExportItemData) => item.location?.path || '', required: true },
-    { key: 'location', header: 'Location Name', formatter: (value: unknown, item: ExportItemData) => item.location?.name || '', required: true },
-    { key: 'household', header: 'Household', formatter: (value: unknown, item: ExportItemData) => item.household?.name || '', required: true },
-    { key: 'photoUrls', header: 'Photo URLs', formatter: (value: unknown) => Array.isArray(value) ? value.join(';') : '', required: false },
-    { key: 'tagNames', header: 'Tags', formatter: (value: unknown) => Array.isArray(value) ? value.join(',') : '', required: false },
-    { key: 'createdAt', header: 'Created Date', formatter: (value: unknown) => new Date(value as string).toISOString(), required: true },
-    { key: 'updatedAt', header: 'Updated Date', formatter: (value: unknown) => new Date(value as string).toISOString(), required: true },
-  ]
-};
+export const DEFAULT_CSV_CONFIG: CSVExportConfig = buildCSVConfig(DEFAULT_EXPORT_COLUMN_SETTINGS);
 
 /**
  * Default processing configuration with QA-recommended limits
@@ -104,10 +159,36 @@ const DEFAULT_PROCESSING_CONFIG: ExportProcessingConfig = {
   backgroundProcessingThreshold: 100, // Use background processing for 100+ items
 };
 
+/**
+ * Writes one export format to a temporary file, a chunk of items at a time
+ */
+interface ExportFileWriter {
+  /** Write whatever precedes the items (column headers, document title) */
+  writeHeaders(): Promise<void>;
+  /** Append a chunk of items */
+  writeChunk(items: ExportItemData[]): Promise<void>;
+  /** Write whatever follows the items and close the file */
+  finalize(): Promise<void>;
+}
+
+/**
+ * Get value from item using dot notation key
+ */
+function getItemValue(item: ExportItemData, key: string): any {
+  const keys = key.split('.');
+  let value: any = item;
+
+  for (const k of keys) {
+    value = value?.[k];
+  }
+
+  return value;
+}
+
 /**
  * Streaming CSV writer for memory-efficient large dataset processing
  */
-class StreamingCSVWriter {
+class StreamingCSVWriter implements ExportFileWriter {
   private stream: WriteStream;
   private headerWritten = false;
   private config: CSVExportConfig;
@@ -141,8 +222,8 @@ class StreamingCSVWriter {
     for (const item of items) {
       const row = this.config.columns.map(col => {
         const value = col.formatter
-          ? col.formatter(this.getItemValue(item, col.key), item)
-          : String(this.getItemValue(item, col.key) || '');
+          ? col.formatter(getItemValue(item, col.key), item)
+          : String(getItemValue(item, col.key) || '');
         return this.escapeCSVValue(value);
       });
 
@@ -153,20 +234,6 @@ class StreamingCSVWriter {
     await this.flush();
   }
 
-  /**
-   * Get value from item using dot notation key
-   */
-  private getItemValue(item: ExportItemData, key: string): any {
-    const keys = key.split('.');
-    let value: any = item;
-
-    for (const k of keys) {
-      value = value?.[k];
-    }
-
-    return value;
-  }
-
   /**
    * Escape CSV value with proper quoting and delimiter handling
    */
@@ -221,6 +288,450 @@ class StreamingCSVWriter {
   }
 }
 
+/**
+ * Streaming JSON writer: an object with export metadata and an `items` array
+ * of nested items (location, household, tags and photos as objects)
+ */
+class StreamingJSONWriter implements ExportFileWriter {
+  private stream: WriteStream;
+  private itemsWritten = 0;
+
+  constructor(filePath: string, private exportedAt: Date) {
+    this.stream = createWriteStream(filePath, { encoding: 'utf8' });
+  }
+
+  async writeHeaders(): Promise<void> {
+    await this.write(`{\n  "exportedAt": ${JSON.stringify(this.exportedAt.toISOString())},\n  "items": [`);
+  }
+
+  async writeChunk(items: ExportItemData[]): Promise<void> {
+    const entries = items.map(item => {
+      const separator = this.itemsWritten++ === 0 ? '\n' : ',\n';
+      return separator + '    ' + JSON.stringify(toJSONExportItem(item));
+    });
+
+    await this.write(entries.join(''));
+  }
+
+  async finalize(): Promise<void> {
+    await this.write(this.itemsWritten > 0 ? '\n  ]\n}\n' : ']\n}\n');
+    return new Promise((resolve, reject) => {
+      this.stream.end((error?: Error | null) => {
+        if (error) reject(error);
+        else resolve();
+      });
+    });
+  }
+
+  private write(text: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.write(text, (error) => {
+        if (error) reject(error);
+        else resolve();
+      });
+    });
+  }
+}
+
+/**
+ * Nested JSON shape of an exported item; drops the flattened columns the CSV
+ * needs (tagNames, photoUrls)
+ */
+function toJSONExportItem(item: ExportItemData) {
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    quantity: item.quantity,
+    unit: item.unit,
+    purchasePrice: item.purchasePrice,
+    currentValue: item.currentValue,
+    totalValue: item.totalValue,
+    purchaseDate: item.purchaseDate,
+    serialNumber: item.serialNumber,
+    status: item.status,
+    metadata: item.metadata,
+    location: item.location,
+    household: item.household,
+    tags: item.tags,
+    photos: item.photos,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * XLSX writer: one sheet per top-level location using the CSV columns, after
+ * a summary sheet with item counts and values per location
+ *
+ * A workbook is a single ZIP, so rows are collected and written on finalize;
+ * the 10,000 item export limit keeps this bounded.
+ */
+class XLSXExportWriter implements ExportFileWriter {
+  private sheets = new Map<string, { rows: WorksheetData['rows']; quantity: number; value: number }>();
+
+  constructor(private filePath: string, private config: CSVExportConfig) {}
+
+  async writeHeaders(): Promise<void> {
+    // Each location sheet gets its own header row on finalize
+  }
+
+  async writeChunk(items: ExportItemData[]): Promise<void> {
+    for (const item of items) {
+      const topLevel = item.location?.path?.split(LOCATION_PATH_SEPARATOR)[0] || item.location?.name || 'Unassigned';
+      const sheet = this.sheets.get(topLevel) ?? { rows: [], quantity: 0, value: 0 };
+
+      // Numbers stay numeric so spreadsheet formulas work on them
+      sheet.rows.push(this.config.columns.map(col => {
+        const value = getItemValue(item, col.key);
+        if (typeof value === 'number') return value;
+        return col.formatter ? col.formatter(value, item) : String(value ?? '');
+      }));
+      sheet.quantity += item.quantity;
+      sheet.value += item.totalValue;
+
+      this.sheets.set(topLevel, sheet);
+    }
+  }
+
+  async finalize(): Promise<void> {
+    const locations = Array.from(this.sheets.keys()).sort((a, b) => a.localeCompare(b));
+    const headers = this.config.columns.map(col => col.header);
+
+    const summary: WorksheetData = {
+      name: 'Summary',
+      rows: [['Location', 'Items', 'Total Quantity', 'Total Value']],
+    };
+    let items = 0, quantity = 0, value = 0;
+    for (const location of locations) {
+      const sheet = this.sheets.get(location)!;
+      summary.rows.push([location, sheet.rows.length, sheet.quantity, roundCurrency(sheet.value)]);
+      items += sheet.rows.length;
+      quantity += sheet.quantity;
+      value += sheet.value;
+    }
+    summary.rows.push(['Total', items, quantity, roundCurrency(value)]);
+
+    const workbook = buildXLSX([
+      summary,
+      ...locations.map(location => ({ name: location, rows: [headers, ...this.sheets.get(location)!.rows] })),
+    ]);
+
+    await writeFile(this.filePath, workbook);
+  }
+}
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * PDF writer: a printable inventory list, one row per item with its primary
+ * photo thumbnail, location, quantity, status, value and tags
+ */
+class PDFExportWriter implements ExportFileWriter {
+  private static readonly ROW_HEIGHT = 64;
+  private static readonly THUMBNAIL_SIZE = 52;
+
+  private doc: PDFKit.PDFDocument;
+  private finished: Promise<void>;
+
+  constructor(
+    filePath: string,
+    private exportedAt: Date,
+    private loadThumbnail: (url: string) => Promise<Buffer | null>
+  ) {
+    this.doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 36,
+      info: { Title: 'Inventory export', Creator: 'Digital Inventory Manager' },
+    });
+
+    const stream = createWriteStream(filePath);
+    this.finished = new Promise((resolve, reject) => {
+      stream.on('finish', () => resolve());
+      stream.on('error', reject);
+      this.doc.on('error', reject);
+    });
+    this.doc.pipe(stream);
+  }
+
+  async writeHeaders(): Promise<void> {
+    this.doc.font('Helvetica-Bold').fontSize(18).fillColor('#000000').text('Inventory');
+    this.doc.font('Helvetica').fontSize(9).fillColor('#666666')
+      .text(`Exported ${this.exportedAt.toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })}`);
+    this.doc.moveDown();
+  }
+
+  async writeChunk(items: ExportItemData[]): Promise<void> {
+    for (const item of items) {
+      await this.writeItem(item);
+    }
+  }
+
+  async finalize(): Promise<void> {
+    this.doc.end();
+    await this.finished;
+  }
+
+  private async writeItem(item: ExportItemData): Promise<void> {
+    const { ROW_HEIGHT, THUMBNAIL_SIZE } = PDFExportWriter;
+    const doc = this.doc;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    if (doc.y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    const top = doc.y;
+
+    // Thumbnail, or an empty frame when there is no usable photo
+    const photo = item.photos.find(p => p.isPrimary) ?? item.photos[0];
+    const thumbnail = photo ? await this.loadThumbnail(photo.thumbnailUrl) : null;
+    if (thumbnail) {
+      doc.image(thumbnail, left, top, { fit: [THUMBNAIL_SIZE, THUMBNAIL_SIZE], align: 'center', valign: 'center' });
+    } else {
+      doc.rect(left, top, THUMBNAIL_SIZE, THUMBNAIL_SIZE).strokeColor('#dddddd').stroke();
+    }
+
+    // Details
+    const textLeft = left + THUMBNAIL_SIZE + 12;
+    const textWidth = width - THUMBNAIL_SIZE - 12;
+    const value = item.currentValue ?? item.purchasePrice;
+    const details = [
+      `Qty: ${item.quantity} ${item.unit}`,
+      `Status: ${item.status}`,
+      value !== null ? `Value: $${value.toFixed(2)}` : null,
+    ].filter(Boolean).join('  •  ');
+
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000')
+      .text(item.name, textLeft, top, { width: textWidth, lineBreak: false, ellipsis: true });
+    doc.font('Helvetica').fontSize(9).fillColor('#444444')
+      .text(item.location?.path || '', textLeft, doc.y + 2, { width: textWidth, lineBreak: false, ellipsis: true })
+      .text(details, textLeft, doc.y + 2, { width: textWidth, lineBreak: false });
+    if (item.tagNames.length > 0) {
+      doc.fillColor('#666666')
+        .text(`Tags: ${item.tagNames.join(', ')}`, textLeft, doc.y + 2, { width: textWidth, lineBreak: false, ellipsis: true });
+    }
+
+    // Divider below the row
+    const bottom = top + ROW_HEIGHT - 6;
+    doc.moveTo(left, bottom).lineTo(left + width, bottom).strokeColor('#eeeeee').stroke();
+    doc.x = left;
+    doc.y = top + ROW_HEIGHT;
+  }
+}
+
+/**
+ * Insurance report PDF: a summary of room totals, then each room's items with
+ * their photo, purchase details, value and serial number. Every page carries
+ * the report ID, generation time and signature, and the last one the full
+ * digest and signature.
+ */
+class InsuranceReportPDFWriter {
+  private static readonly ROW_HEIGHT = 120;
+  private static readonly PHOTO_SIZE = 108;
+
+  private doc: PDFKit.PDFDocument;
+  private finished: Promise<void>;
+
+  constructor(
+    filePath: string,
+    private report: InsuranceReport,
+    private loadPhoto: (url: string) => Promise<Buffer | null>
+  ) {
+    this.doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 36,
+      // Pages are kept until finalize so the footers can be added
+      bufferPages: true,
+      info: {
+        Title: `Insurance inventory - ${report.householdName}`,
+        Creator: 'Digital Inventory Manager',
+        CreationDate: report.generatedAt,
+      },
+    });
+
+    const stream = createWriteStream(filePath);
+    this.finished = new Promise((resolve, reject) => {
+      stream.on('finish', () => resolve());
+      stream.on('error', reject);
+      this.doc.on('error', reject);
+    });
+    this.doc.pipe(stream);
+  }
+
+  /**
+   * Write the title block and room totals
+   */
+  writeSummary(): void {
+    const { report, doc } = this;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    doc.font('Helvetica-Bold').fontSize(20).fillColor('#000000').text('Home Inventory for Insurance');
+    doc.font('Helvetica').fontSize(12).fillColor('#000000').text(report.householdName);
+    doc.fontSize(10).fillColor('#444444')
+      .text(report.asOf ? `Inventory as of ${formatReportDate(report.asOf)}` : 'Current inventory')
+      .text(`Generated ${report.generatedAt.toISOString()}`);
+    doc.moveDown(1.5);
+
+    const row = (cells: [string, string, string], bold = false) => {
+      if (doc.y + 18 > doc.page.height - doc.page.margins.bottom) doc.addPage();
+      const top = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10).fillColor('#000000')
+        .text(cells[0], left, top, { width: width - 200, lineBreak: false, ellipsis: true })
+        .text(cells[1], left + width - 200, top, { width: 80, align: 'right' })
+        .text(cells[2], left + width - 120, top, { width: 120, align: 'right' });
+      doc.moveTo(left, top + 14).lineTo(left + width, top + 14).strokeColor('#eeeeee').stroke();
+      doc.x = left;
+      doc.y = top + 18;
+    };
+
+    row(['Room', 'Items', 'Total Value'], true);
+    for (const room of report.rooms) {
+      row([room.location.path, String(room.items.length), formatReportCurrency(room.totalValue)]);
+    }
+    row(['Grand total', String(report.itemCount), formatReportCurrency(report.grandTotal)], true);
+  }
+
+  /**
+   * Write a room's heading and items, starting on a new page
+   */
+  async writeRoom(room: InsuranceReportRoom): Promise<void> {
+    const doc = this.doc;
+    doc.addPage();
+
+    doc.font('Helvetica-Bold').fontSize(14).fillColor('#000000').text(room.location.path);
+    doc.font('Helvetica').fontSize(10).fillColor('#444444')
+      .text(`${room.items.length} ${room.items.length === 1 ? 'item' : 'items'}  •  Room total ${formatReportCurrency(room.totalValue)}`);
+    doc.moveDown();
+
+    for (const item of room.items) {
+      await this.writeItem(room, item);
+    }
+  }
+
+  /**
+   * Add page footers and the signature block, then close the file
+   */
+  async finalize(digest: string, signature: string): Promise<void> {
+    const { report, doc } = this;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    if (doc.y + 110 > doc.page.height - doc.page.margins.bottom) doc.addPage();
+    doc.moveDown(2);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000').text('Certification', left);
+    doc.font('Helvetica').fontSize(9).fillColor('#444444').text(
+      `This report lists ${report.itemCount} items with a total value of ${formatReportCurrency(report.grandTotal)}, ` +
+      `${report.asOf ? `as recorded in the inventory on ${formatReportDate(report.asOf)}` : 'as currently recorded in the inventory'}. ` +
+      'The signature below is an HMAC-SHA256 of the SHA-256 digest of the figures in this report, issued by the ' +
+      'inventory service; it can be checked against the export record with this report ID.',
+      left,
+      doc.y + 4,
+      { width }
+    );
+    doc.font('Courier').fontSize(8).fillColor('#000000')
+      .text(`Report ID: ${report.reportId}`, left, doc.y + 6)
+      .text(`Digest:    ${digest}`)
+      .text(`Signature: ${signature}`);
+
+    const { start, count } = doc.bufferedPageRange();
+    for (let i = start; i < start + count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      // Footers sit in the bottom margin, which text would otherwise avoid
+      doc.page.margins.bottom = 0;
+      doc.font('Helvetica').fontSize(7).fillColor('#888888').text(
+        `Report ${report.reportId}  •  Generated ${report.generatedAt.toISOString()}  •  ` +
+        `Signature ${signature.slice(0, 16)}…  •  Page ${i - start + 1} of ${count}`,
+        left,
+        doc.page.height - bottomMargin + 12,
+        { width, align: 'center', lineBreak: false }
+      );
+      doc.page.margins.bottom = bottomMargin;
+    }
+
+    doc.end();
+    await this.finished;
+  }
+
+  private async writeItem(room: InsuranceReportRoom, item: ExportItemData): Promise<void> {
+    const { ROW_HEIGHT, PHOTO_SIZE } = InsuranceReportPDFWriter;
+    const doc = this.doc;
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    if (doc.y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    const top = doc.y;
+
+    // Primary photo, or an empty frame when there is no usable photo
+    const photo = item.photos.find(p => p.isPrimary) ?? item.photos[0];
+    const image = photo ? await this.loadPhoto(photo.originalUrl) : null;
+    if (image) {
+      doc.image(image, left, top, { fit: [PHOTO_SIZE, PHOTO_SIZE], align: 'center', valign: 'center' });
+    } else {
+      doc.rect(left, top, PHOTO_SIZE, PHOTO_SIZE).strokeColor('#dddddd').stroke();
+    }
+
+    const textLeft = left + PHOTO_SIZE + 14;
+    const textWidth = width - PHOTO_SIZE - 14;
+    const columnWidth = textWidth / 2;
+
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000')
+      .text(item.name, textLeft, top, { width: textWidth, lineBreak: false, ellipsis: true });
+    if (item.location.id !== room.location.id) {
+      doc.font('Helvetica').fontSize(9).fillColor('#666666')
+        .text(item.location.path, textLeft, doc.y + 2, { width: textWidth, lineBreak: false, ellipsis: true });
+    }
+
+    const details: Array<[string, string]> = [
+      ['Purchase price', item.purchasePrice !== null ? formatReportCurrency(item.purchasePrice) : '—'],
+      ['Purchase date', item.purchaseDate ? formatReportDate(item.purchaseDate) : '—'],
+      ['Current value', item.currentValue !== null ? formatReportCurrency(item.currentValue) : '—'],
+      ['Serial number', item.serialNumber ?? '—'],
+      ['Quantity', `${item.quantity} ${item.unit}`],
+      ['Status', item.status],
+    ];
+
+    const detailsTop = doc.y + 6;
+    details.forEach(([label, value], index) => {
+      const x = textLeft + (index % 2) * columnWidth;
+      const y = detailsTop + Math.floor(index / 2) * 14;
+      doc.font('Helvetica').fontSize(9).fillColor('#666666')
+        .text(`${label}: `, x, y, { continued: true, lineBreak: false })
+        .fillColor('#000000')
+        .text(value, { width: columnWidth - 8, lineBreak: false, ellipsis: true });
+    });
+
+    // Divider below the row
+    const bottom = top + ROW_HEIGHT - 6;
+    doc.moveTo(left, bottom).lineTo(left + width, bottom).strokeColor('#eeeeee').stroke();
+    doc.x = left;
+    doc.y = top + ROW_HEIGHT;
+  }
+}
+
+/**
+ * Format an amount for the insurance report, e.g. "$1,234.50"
+ */
+function formatReportCurrency(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Format a date for the insurance report, e.g. "March 4, 2026"
+ */
+function formatReportDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { dateStyle: 'long', timeZone: 'UTC' });
+}
+
 /**
  * ExportService class with comprehensive security and performance features
  */
@@ -231,7 +742,9 @@ export class ExportService {
   constructor(
     private prisma: PrismaClient,
     config?: Partial<ExportProcessingConfig>,
-    csvConfig?: Partial<CSVExportConfig>
+    csvConfig?: Partial<CSVExportConfig>,
+    private storage: S3StorageService = storageService,
+    private savedSearches: SavedSearchService = savedSearchService
   ) {
     this.config = { ...DEFAULT_PROCESSING_CONFIG, ...config };
     this.csvConfig = { ...DEFAULT_CSV_CONFIG, ...csvConfig };
@@ -240,58 +753,312 @@ export class ExportService {
   /**
    * Create a new export job with comprehensive security validation
    *
+   * The job is stored as pending; a worker claims it and generates the file
+   * (see runExportWorker). Jobs over the background threshold are left for
+   * the scheduled worker, smaller ones can be processed straight away with
+   * processExportJob.
+   *
+   * Insurance reports cover the household's insured items (see
+   * INSURED_ITEM_STATUSES) and may be taken as of a past date.
+   *
    * QA CRITICAL: Implements SEC-001 risk mitigation with strict user validation
    *
    * @param userId - ID of the user requesting the export
    * @param request - Validated export request data
+   * @param householdId - Household to export; defaults to the user's first membership
+   * @param options - Schedule creating the export, if any; scheduled exports
+   *   don't expire and are kept in the backups bucket
    * @returns Promise resolving to the created export job
    * @throws {ExportError} When security validation fails or dataset is too large
    */
-  async createExport(userId: string, request: CreateExportRequestInput): Promise<ExportJob> {
+  async createExport(
+    userId: string,
+    request: CreateExportRequestInput,
+    householdId?: string,
+    options: { scheduleId?: string } = {}
+  ): Promise<ExportJob> {
     const validatedRequest = validateCreateExportRequest(request);
 
-    return await this.prisma.$transaction(async (tx) => {
+    const exportJob = await this.prisma.$transaction(async (tx) => {
       // QA CRITICAL: Security validation with household membership verification
       const securityValidation = await this.validateUserAccess(tx, userId);
       if (!securityValidation.hasAccess) {
         throw this.createError('UNAUTHORIZED', 'User has no accessible household data', { userId });
       }
 
+      const targetHouseholdId = householdId ?? securityValidation.accessibleHouseholds[0];
+      if (!securityValidation.accessibleHouseholds.includes(targetHouseholdId)) {
+        throw this.createError('UNAUTHORIZED', 'User has no access to this household', { userId, householdId });
+      }
+
       // QA CRITICAL: Check dataset size for performance optimization
-      const itemCount = await this.getExportItemCount(tx, userId, validatedRequest.filters);
+      const isInsuranceReport = validatedRequest.report === 'insurance';
+      const itemCount = await this.getExportItemCount(
+        tx,
+        userId,
+        isInsuranceReport ? { status: INSURED_ITEM_STATUSES } : validatedRequest.filters,
+        targetHouseholdId
+      );
       if (itemCount > 10000) { // Configurable limit
         throw this.createError('DATASET_TOO_LARGE', `Dataset too large: ${itemCount} items (max: 10000)`, { itemCount });
       }
 
-      // Generate unique job ID and filename
-      const jobId = randomUUID();
+      // Column layouts are copied onto the job, so later template edits don't change it
+      let columnSettings = validatedRequest.columnSettings;
+      if (validatedRequest.templateId) {
+        const template = await tx.exportTemplate.findFirst({
+          where: { id: validatedRequest.templateId, householdId: targetHouseholdId },
+        });
+        if (!template) {
+          throw this.createError('EXPORT_TEMPLATE_NOT_FOUND', 'Export template not found', { templateId: validatedRequest.templateId });
+        }
+        columnSettings = ExportColumnSettingsSchema.parse(template.settings);
+      }
+
+      // Generate unique filename
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const filename = `inventory-export-${timestamp}.csv`;
+      const { extension } = EXPORT_FORMATS[validatedRequest.format];
+      const prefix = isInsuranceReport ? 'insurance-report' : 'inventory-export';
+      const filename = `${prefix}-${timestamp}-${randomUUID().slice(0, 8)}.${extension}`;
+
+      // Persist the job so any worker instance can pick it up
+      const job = await tx.exportJob.create({
+        data: {
+          householdId: targetHouseholdId,
+          userId,
+          format: validatedRequest.format,
+          report: validatedRequest.report ?? 'inventory',
+          asOf: validatedRequest.asOf,
+          status: 'pending',
+          filename,
+          totalItems: itemCount,
+          filters: validatedRequest.filters
+            ? (JSON.parse(JSON.stringify(validatedRequest.filters)) as Prisma.InputJsonObject)
+            : undefined,
+          columnSettings: columnSettings
+            ? (columnSettings as unknown as Prisma.InputJsonObject)
+            : undefined,
+          scheduleId: options.scheduleId,
+          expiresAt: options.scheduleId ? null : new Date(Date.now() + EXPORT_RETENTION_MS),
+        },
+      });
 
-      // Create export job record (this would typically be in a dedicated export_jobs table)
-      const exportJob: ExportJob = {
-        id: jobId,
-        userId,
-        format: validatedRequest.format,
-        status: 'pending',
-        filename,
-        progress: 0,
-        totalItems: itemCount,
-        processedItems: 0,
-        filters: validatedRequest.filters,
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-      };
+      return this.toExportJob(job);
+    });
 
-      // QA CRITICAL: Queue appropriate processing based on dataset size
-      if (itemCount > this.config.backgroundProcessingThreshold) {
-        await this.queueLargeExportJob(jobId, itemCount);
-      } else {
-        await this.processStandardExportJob(exportJob);
-      }
+    // QA CRITICAL: Large exports wait for the scheduled worker
+    if (this.isBackgroundJob(exportJob)) {
+      this.queueLargeExportJob(exportJob.id, exportJob.totalItems);
+    }
+
+    return exportJob;
+  }
+
+  /**
+   * Whether a job is large enough to be left to the scheduled worker rather
+   * than processed straight after the request
+   *
+   * @param job - Export job
+   * @returns True when the job exceeds the background processing threshold
+   */
+  isBackgroundJob(job: Pick<ExportJob, 'totalItems'>): boolean {
+    return job.totalItems > this.config.backgroundProcessingThreshold;
+  }
+
+  /**
+   * Get an export job owned by the user
+   *
+   * @param jobId - Export job ID
+   * @param userId - ID of the user who requested the export
+   * @returns Promise resolving to the job, or null when not found or not theirs
+   */
+  async getExportJob(jobId: string, userId: string): Promise<ExportJob | null> {
+    const job = await this.prisma.exportJob.findFirst({ where: { id: jobId, userId } });
+    return job ? this.toExportJob(job) : null;
+  }
+
+  /**
+   * List the user's recent export jobs in a household, newest first
+   *
+   * @param userId - ID of the user who requested the exports
+   * @param householdId - Household the exports were taken from
+   * @param limit - Maximum jobs to return
+   * @returns Promise resolving to the export jobs
+   */
+  async listExportJobs(userId: string, householdId: string, limit = 20): Promise<ExportJob[]> {
+    const jobs = await this.prisma.exportJob.findMany({
+      where: { userId, householdId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return jobs.map(job => this.toExportJob(job));
+  }
+
+  /**
+   * Custom metadata keys used by a household's items, for picking export
+   * columns
+   *
+   * Keys that can't be a column ID (see METADATA_KEY_PATTERN) are left out.
+   *
+   * @param householdId - Household whose items are read
+   * @returns Promise resolving to the keys, sorted
+   */
+  async listMetadataKeys(householdId: string): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ key: string }>>`
+      SELECT DISTINCT jsonb_object_keys(i.metadata) AS key
+      FROM items i
+      WHERE
+        i.household_id = ${householdId}
+        AND jsonb_typeof(i.metadata) = 'object'
+      ORDER BY key
+    `;
+
+    return rows.map(row => row.key).filter(key => METADATA_KEY_PATTERN.test(key));
+  }
 
-      return exportJob;
+  /**
+   * Cancel a pending or processing export job
+   *
+   * A worker processing the job notices at its next chunk and stops without
+   * uploading the file.
+   *
+   * @param jobId - Export job ID
+   * @param userId - ID of the user who requested the export
+   * @returns Promise resolving to the cancelled job
+   * @throws {ExportError} When the job is not found or already finished
+   */
+  async cancelExport(jobId: string, userId: string): Promise<ExportJob> {
+    const { count } = await this.prisma.exportJob.updateMany({
+      where: { id: jobId, userId, status: { in: ['pending', 'processing'] } },
+      data: { status: 'cancelled', lockedBy: null, lockedAt: null, completedAt: new Date() },
     });
+
+    const job = await this.prisma.exportJob.findFirst({ where: { id: jobId, userId } });
+    if (!job) {
+      throw this.createError('EXPORT_NOT_FOUND', 'Export job not found', { jobId });
+    }
+
+    if (count === 0) {
+      throw this.createError('EXPORT_NOT_CANCELLABLE', `Export job is already ${job.status}`, { jobId, status: job.status });
+    }
+
+    return this.toExportJob(job);
+  }
+
+  /**
+   * Fetch a completed export file for download
+   *
+   * @param jobId - Export job ID
+   * @param userId - ID of the user who requested the export
+   * @returns Promise resolving to the job and file contents
+   * @throws {ExportError} When the job is missing, unfinished or expired
+   */
+  async getExportFile(jobId: string, userId: string): Promise<{ job: ExportJob; buffer: Buffer }> {
+    const job = await this.prisma.exportJob.findFirst({ where: { id: jobId, userId } });
+    if (!job) {
+      throw this.createError('EXPORT_NOT_FOUND', 'Export job not found', { jobId });
+    }
+
+    if (job.status !== 'completed') {
+      throw this.createError('EXPORT_NOT_READY', `Export is ${job.status}, not ready for download`, { jobId, status: job.status });
+    }
+
+    if ((job.expiresAt && job.expiresAt <= new Date()) || !job.storageKey) {
+      throw this.createError('EXPORT_EXPIRED', 'Export has expired and its file was removed', { jobId });
+    }
+
+    const { buffer } = await this.storage.downloadFile(job.storageKey, exportBucket(job));
+    return { job: this.toExportJob(job), buffer };
+  }
+
+  /**
+   * Claim and process pending export jobs until none are left or the time
+   * budget runs out
+   *
+   * Safe to run from several instances at once: each job is claimed with a
+   * conditional update, and a job whose worker stopped heartbeating is
+   * reclaimed after the lease expires (up to MAX_EXPORT_ATTEMPTS tries).
+   *
+   * @param options - Maximum jobs and time budget for this run
+   * @returns Promise resolving to counts of processed jobs by outcome
+   */
+  async runExportWorker(options: { maxJobs?: number; timeBudgetMs?: number } = {}): Promise<ExportWorkerResult> {
+    const { maxJobs = 10, timeBudgetMs = this.config.timeoutMs } = options;
+    const workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+    const deadline = Date.now() + timeBudgetMs;
+    const result: ExportWorkerResult = { processed: 0, completed: 0, failed: 0, cancelled: 0 };
+
+    while (result.processed < maxJobs && Date.now() < deadline) {
+      const job = await this.claimNextExportJob(workerId);
+      if (!job) break;
+
+      const status = await this.runClaimedJob(job, workerId);
+      result.processed++;
+      if (status === 'completed') result.completed++;
+      else if (status === 'cancelled') result.cancelled++;
+      else result.failed++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Claim and process one specific pending job, e.g. right after creating it
+   *
+   * @param jobId - Export job ID
+   * @returns Promise resolving to the job's final status, or null if another
+   *   worker already claimed it
+   */
+  async processExportJob(jobId: string): Promise<ExportJobStatus | null> {
+    const workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+    const job = await this.claimExportJob(workerId, { id: jobId, status: 'pending' });
+
+    return job ? await this.runClaimedJob(job, workerId) : null;
+  }
+
+  /**
+   * Remove files of expired exports and fail jobs whose workers gave up
+   *
+   * Expired jobs stay listed in the history without a file; downloads of
+   * them return EXPORT_EXPIRED.
+   *
+   * @param now - Reference time (defaults to now)
+   * @returns Promise resolving to the number of files removed and jobs failed
+   */
+  async cleanupExpiredExports(now: Date = new Date()): Promise<{ filesRemoved: number; jobsFailed: number }> {
+    // 1. Delete expired files from the exports bucket
+    const expired = await this.prisma.exportJob.findMany({
+      where: { expiresAt: { lte: now }, storageKey: { not: null } },
+      select: { id: true, storageKey: true },
+      take: 500,
+    });
+
+    if (expired.length > 0) {
+      await this.storage.deleteFiles(expired.map(job => job.storageKey!), 'exports');
+      await this.prisma.exportJob.updateMany({
+        where: { id: { in: expired.map(job => job.id) } },
+        data: { storageKey: null },
+      });
+    }
+
+    // 2. Fail stalled jobs that have used up their attempts
+    const { count: jobsFailed } = await this.prisma.exportJob.updateMany({
+      where: {
+        status: 'processing',
+        lockedAt: { lt: new Date(now.getTime() - EXPORT_JOB_LEASE_MS) },
+        attempts: { gte: MAX_EXPORT_ATTEMPTS },
+      },
+      data: {
+        status: 'failed',
+        errorMessage: 'Export worker stopped responding',
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: now,
+      },
+    });
+
+    return { filesRemoved: expired.length, jobsFailed };
   }
 
   /**
@@ -349,14 +1116,16 @@ export class ExportService {
    * @param tx - Database transaction client
    * @param userId - User requesting export
    * @param filters - Optional export filters
+   * @param householdId - Optional household to restrict the export to
    * @returns Promise resolving to item count
    */
   private async getExportItemCount(
     tx: PrismaTransactionClient,
     userId: string,
-    filters?: CreateExportRequestInput['filters']
+    filters?: CreateExportRequestInput['filters'],
+    householdId?: string
   ): Promise<number> {
-    const whereClause = await this.buildSecureWhereClause(userId, filters, tx);
+    const whereClause = await this.buildSecureWhereClause(userId, filters, tx, householdId);
 
     return await tx.item.count({
       where: whereClause
@@ -369,12 +1138,14 @@ export class ExportService {
    * @param userId - User ID for security filtering
    * @param filters - Additional export filters
    * @param tx - Optional transaction client
+   * @param householdId - Optional household to restrict the export to
    * @returns Prisma where clause with security constraints
    */
   private async buildSecureWhereClause(
     userId: string,
     filters?: CreateExportRequestInput['filters'],
-    tx?: PrismaTransactionClient
+    tx?: PrismaTransactionClient,
+    householdId?: string
   ): Promise<Prisma.ItemWhereInput> {
     // QA CRITICAL: Get user's accessible household IDs
     const accessibleHouseholds = await this.getUserAccessibleHouseholdIds(userId, tx);
@@ -412,6 +1183,10 @@ export class ExportService {
       (whereClause.AND as any[]).push(condition);
     };
 
+    if (householdId) {
+      addAndCondition({ householdId });
+    }
+
     // Apply user-specified filters
     if (filters) {
       if (filters.locationIds && filters.locationIds.length > 0) {
@@ -441,11 +1216,45 @@ export class ExportService {
           }
         });
       }
+
+      // Saved searches are run again, so the export has the items they match now
+      if (filters.savedSearchId) {
+        const itemIds = await this.getSavedSearchItemIds(userId, filters.savedSearchId, householdId);
+        addAndCondition({ id: { in: itemIds } });
+      }
     }
 
     return whereClause;
   }
 
+  /**
+   * IDs of the items a saved search matches, for the member the export is
+   * taken as
+   *
+   * @param userId - User the export is taken as; must be able to see the search
+   * @param savedSearchId - Saved search ID
+   * @param householdId - Household being exported
+   * @returns Promise resolving to the matching item IDs
+   * @throws {ExportError} When the saved search is gone or not visible to the user
+   */
+  private async getSavedSearchItemIds(
+    userId: string,
+    savedSearchId: string,
+    householdId?: string
+  ): Promise<string[]> {
+    try {
+      if (!householdId) {
+        throw new Error('Saved search not found or access denied');
+      }
+      return await this.savedSearches.getMatchingItemIds(savedSearchId, householdId, userId);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        throw this.createError('SAVED_SEARCH_NOT_FOUND', 'Saved search not found', { savedSearchId });
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get accessible household IDs for a user
    */
@@ -462,87 +1271,409 @@ export class ExportService {
   /**
    * QA CRITICAL: Background job processing with chunked processing and streaming
    *
+   * Large jobs stay pending in export_jobs until the scheduled worker claims them.
+   *
    * @param jobId - Export job ID
    * @param totalItems - Total number of items to process
    */
-  private async queueLargeExportJob(jobId: string, totalItems: number): Promise<void> {
-    // QA ENHANCEMENT: Use chunked processing for large datasets
+  private queueLargeExportJob(jobId: string, totalItems: number): void {
     console.log(`Queuing large export job ${jobId} with ${totalItems} items for background processing`);
+  }
 
-    // In a production environment, this would use a job queue like Bull/BullMQ
-    // For now, we'll simulate background processing
-    setImmediate(() => this.processLargeExportJobInBackground(jobId, totalItems));
+  /**
+   * Claim the oldest pending job, or a processing job whose lease expired
+   */
+  private async claimNextExportJob(workerId: string): Promise<ExportJobRecord | null> {
+    const staleBefore = new Date(Date.now() - EXPORT_JOB_LEASE_MS);
+
+    // Another worker may win the race for a candidate, so try a few
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const candidate = await this.prisma.exportJob.findFirst({
+        where: {
+          attempts: { lt: MAX_EXPORT_ATTEMPTS },
+          OR: [
+            { status: 'pending' },
+            { status: 'processing', lockedAt: { lt: staleBefore } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (!candidate) return null;
+
+      const claimed = await this.claimExportJob(workerId, {
+        id: candidate.id,
+        status: candidate.status,
+        lockedAt: candidate.lockedAt,
+      });
+      if (claimed) return claimed;
+    }
+
+    return null;
   }
 
   /**
-   * Process standard-size export jobs immediately
+   * Conditionally move a job to processing under this worker's lease
    */
-  private async processStandardExportJob(exportJob: ExportJob): Promise<void> {
+  private async claimExportJob(
+    workerId: string,
+    where: Prisma.ExportJobWhereInput
+  ): Promise<ExportJobRecord | null> {
+    const now = new Date();
+    const { count } = await this.prisma.exportJob.updateMany({
+      where,
+      data: {
+        status: 'processing',
+        lockedBy: workerId,
+        lockedAt: now,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (count === 0) return null;
+
+    const job = await this.prisma.exportJob.findUnique({ where: { id: where.id as string } });
+    if (job && !job.startedAt) {
+      await this.prisma.exportJob.update({ where: { id: job.id }, data: { startedAt: now } });
+    }
+    return job;
+  }
+
+  /**
+   * Generate a claimed job's file and upload it to the exports bucket (the
+   * backups bucket for scheduled exports)
+   *
+   * Progress updates renew the lease; if one matches nothing the job was
+   * cancelled (or reclaimed) and work stops.
+   */
+  private async runClaimedJob(job: ExportJobRecord, workerId: string): Promise<ExportJobStatus> {
+    const owned = { id: job.id, status: 'processing', lockedBy: workerId };
+    const filePath = join(tmpdir(), `${job.id}-${job.filename}`);
+
     try {
-      exportJob.status = 'processing';
+      const format = job.format as ExportFormat;
 
-      const filePath = join(tmpdir(), exportJob.filename);
-      const csvWriter = new StreamingCSVWriter(filePath, this.csvConfig);
+      // 1. Write the file
+      const written = job.report === 'insurance'
+        ? await this.writeInsuranceReport(job, owned, filePath)
+        : await this.writeExportFile(job, owned, filePath);
 
-      // Get all items for the export
-      const whereClause = await this.buildSecureWhereClause(exportJob.userId, exportJob.filters);
-      const items = await this.getItemsForExport(whereClause, 0, exportJob.totalItems);
+      if (!written) {
+        return await this.currentStatus(job.id);
+      }
 
-      // Write to CSV
-      await csvWriter.writeChunk(items);
-      await csvWriter.finalize();
+      // 2. Upload the finished file
+      const storageKey = job.scheduleId
+        ? `scheduled-exports/${job.householdId}/${job.scheduleId}/${job.id}/${job.filename}`
+        : `exports/${job.householdId}/${job.id}/${job.filename}`;
+      const upload = await this.storage.uploadFile(
+        await readFile(filePath),
+        storageKey,
+        EXPORT_FORMATS[format].contentType,
+        exportBucket(job)
+      );
+
+      // 3. Complete the job, unless it was cancelled meanwhile
+      const { count } = await this.prisma.exportJob.updateMany({
+        where: owned,
+        data: {
+          status: 'completed',
+          progress: 100,
+          processedItems: written.processedItems,
+          totalItems: written.processedItems,
+          fileSize: upload.fileSize,
+          storageKey,
+          signature: written.signature ?? null,
+          errorMessage: null,
+          lockedBy: null,
+          lockedAt: null,
+          completedAt: new Date(),
+        },
+      });
 
-      // Update job status
-      exportJob.status = 'completed';
-      exportJob.progress = 100;
-      exportJob.processedItems = exportJob.totalItems;
-      exportJob.completedAt = new Date();
-      exportJob.downloadUrl = `/api/v1/exports/${exportJob.id}/download`;
+      if (count === 0) {
+        await this.storage.deleteFile(storageKey, exportBucket(job));
+        return await this.currentStatus(job.id);
+      }
+
+      return 'completed';
 
     } catch (error) {
-      exportJob.status = 'failed';
-      exportJob.errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw error;
+      console.error(`Export job ${job.id} failed:`, error);
+
+      // Retry on the next worker run until attempts are used up
+      const retry = job.attempts < MAX_EXPORT_ATTEMPTS;
+      await this.prisma.exportJob.updateMany({
+        where: owned,
+        data: {
+          status: retry ? 'pending' : 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          lockedBy: null,
+          lockedAt: null,
+          completedAt: retry ? null : new Date(),
+        },
+      });
+
+      return retry ? 'pending' : 'failed';
+
+    } finally {
+      await unlink(filePath).catch(() => undefined);
     }
   }
 
   /**
-   * QA CRITICAL: Chunked processing to prevent timeout and memory issues
+   * Write an inventory export in chunks of items
+   *
+   * @returns Items written, or null when the job stopped being this worker's
    */
-  private async processLargeExportJobInBackground(jobId: string, totalItems: number): Promise<void> {
-    try {
-      console.log(`Starting background processing for export job ${jobId}`);
+  private async writeExportFile(
+    job: ExportJobRecord,
+    owned: Prisma.ExportJobWhereInput,
+    filePath: string
+  ): Promise<{ processedItems: number; signature?: string } | null> {
+    const filters = job.filters ? ExportFiltersSchema.parse(job.filters) : undefined;
+    const whereClause = await this.buildSecureWhereClause(job.userId, filters, undefined, job.householdId);
+    const columnSettings = job.columnSettings ? ExportColumnSettingsSchema.parse(job.columnSettings) : undefined;
+    const customFields = job.format === 'csv' || job.format === 'xlsx'
+      ? await this.prisma.customField.findMany({
+          where: { householdId: job.householdId },
+          select: { key: true, label: true, type: true },
+          orderBy: [{ displayOrder: 'asc' }, { label: 'asc' }],
+        })
+      : [];
+    const writer = this.createFileWriter(job.format as ExportFormat, filePath, columnSettings, customFields);
+    await writer.writeHeaders();
+
+    let processedItems = 0;
+    while (processedItems < job.totalItems) {
+      const items = await this.getItemsForExport(whereClause, processedItems, job.totalItems - processedItems);
+      if (items.length === 0) break;
+
+      await writer.writeChunk(items);
+      processedItems += items.length;
+
+      // QA CRITICAL: Memory pressure check
+      if (process.memoryUsage().heapUsed > this.config.memoryLimit) {
+        console.warn(`Memory usage high (${process.memoryUsage().heapUsed} bytes), triggering GC`);
+        global.gc?.();
+      }
+
+      if (!(await this.recordProgress(owned, processedItems, job.totalItems))) {
+        await writer.finalize();
+        return null;
+      }
+    }
+
+    await writer.finalize();
+    return { processedItems };
+  }
 
-      // This would retrieve the job from a database in production
-      // For now, we'll simulate the processing logic
+  /**
+   * Build, sign and render an insurance report
+   *
+   * Items and locations are read as they are now and, for a past asOf date,
+   * rolled back through the activity entries made since. Room totals come
+   * from Location.totalValue, or are recomputed from the rolled-back items
+   * for a past date.
+   *
+   * @returns Items in the report and its signature, or null when the job
+   *   stopped being this worker's
+   */
+  private async writeInsuranceReport(
+    job: ExportJobRecord,
+    owned: Prisma.ExportJobWhereInput,
+    filePath: string
+  ): Promise<{ processedItems: number; signature?: string } | null> {
+    const { householdId } = job;
+    const whereClause = await this.buildSecureWhereClause(job.userId, undefined, undefined, householdId);
+
+    // 1. Load the household as it is now
+    const [household, locationRecords] = await Promise.all([
+      this.prisma.household.findUniqueOrThrow({ where: { id: householdId }, select: { name: true } }),
+      this.prisma.location.findMany({
+        where: { householdId },
+        select: { id: true, name: true, parentId: true, path: true, locationType: true, totalValue: true },
+      }),
+    ]);
+
+    let locations: InsuranceReportLocation[] = locationRecords.map(location => ({
+      ...location,
+      totalValue: Number(location.totalValue),
+    }));
+    let items: ExportItemData[] = [];
+
+    for (;;) {
+      const chunk = await this.getItemsForExport(whereClause, items.length, this.config.chunkSize);
+      items.push(...chunk);
+
+      if (!(await this.recordProgress(owned, 0, job.totalItems))) return null;
+      if (chunk.length < this.config.chunkSize) break;
+    }
 
-      const chunkSize = this.config.chunkSize;
-      const totalChunks = Math.ceil(totalItems / chunkSize);
-      let processedChunks = 0;
+    // 2. Roll back to the report date
+    if (job.asOf) {
+      const entries = await this.prisma.activityLog.findMany({
+        where: { householdId, createdAt: { gt: job.asOf } },
+        select: { entityType: true, entityId: true, action: true, diff: true },
+        orderBy: { createdAt: 'desc' },
+      });
 
-      // QA ENHANCEMENT: Memory pressure monitoring would be implemented here
-      for (let offset = 0; offset < totalItems; offset += chunkSize) {
-        processedChunks++;
+      locations = rollBackLocations(locations, entries);
+      items = rollBackItems(items, entries, locations);
+      locations = computeLocationTotals(locations, items);
+    }
 
-        // QA CRITICAL: Memory pressure check
-        if (process.memoryUsage().heapUsed > this.config.memoryLimit) {
-          console.warn(`Memory usage high (${process.memoryUsage().heapUsed} bytes), triggering GC`);
-          global.gc?.();
-        }
+    // 3. Group by room and sign the figures
+    const rooms = groupItemsByRoom(items, locations);
+    const report: InsuranceReport = {
+      reportId: job.id,
+      householdId,
+      householdName: household.name,
+      generatedAt: new Date(),
+      asOf: job.asOf,
+      rooms,
+      itemCount: rooms.reduce((sum, room) => sum + room.items.length, 0),
+      grandTotal: roundCurrency(rooms.reduce((sum, room) => sum + room.totalValue, 0)),
+    };
+    const digest = buildReportDigest(report);
+    const signature = this.signReport(digest);
 
-        // Simulate processing time
-        await new Promise(resolve => setTimeout(resolve, 100));
+    // 4. Render room by room
+    const writer = new InsuranceReportPDFWriter(filePath, report, url => this.loadPdfImage(url, 480));
+    writer.writeSummary();
 
-        console.log(`Processed chunk ${processedChunks}/${totalChunks} for job ${jobId}`);
+    let processedItems = 0;
+    for (const room of rooms) {
+      await writer.writeRoom(room);
+      processedItems += room.items.length;
+
+      if (!(await this.recordProgress(owned, processedItems, report.itemCount))) {
+        await writer.finalize(digest, signature);
+        return null;
       }
+    }
+
+    await writer.finalize(digest, signature);
+    return { processedItems, signature };
+  }
+
+  /**
+   * Renew a job's lease and record its progress
+   *
+   * @returns False when the update matched nothing (job cancelled or reclaimed)
+   */
+  private async recordProgress(
+    owned: Prisma.ExportJobWhereInput,
+    processedItems: number,
+    totalItems: number
+  ): Promise<boolean> {
+    const { count } = await this.prisma.exportJob.updateMany({
+      where: owned,
+      data: {
+        processedItems,
+        progress: Math.min(99, Math.floor((processedItems / Math.max(totalItems, 1)) * 100)),
+        lockedAt: new Date(),
+      },
+    });
 
-      console.log(`Completed background processing for export job ${jobId}`);
+    return count > 0;
+  }
 
+  /**
+   * HMAC-SHA256 of a report digest with the report signing key
+   */
+  private signReport(digest: string): string {
+    const secret = serverEnv.REPORT_SIGNING_SECRET ?? serverEnv.NEXTAUTH_SECRET;
+    return createHmac('sha256', secret).update(digest).digest('hex');
+  }
+
+  /**
+   * Writer for a job's export format; CSV and XLSX use the job's column
+   * settings when it has them, and otherwise add a column per custom field
+   * to the default columns
+   */
+  private createFileWriter(
+    format: ExportFormat,
+    filePath: string,
+    columnSettings?: ExportColumnSettings,
+    customFields: ExportCustomField[] = []
+  ): ExportFileWriter {
+    const csvConfig = columnSettings
+      ? buildCSVConfig(columnSettings, customFields)
+      : customFields.length > 0
+      ? { ...this.csvConfig, columns: [...this.csvConfig.columns, ...buildCustomFieldColumns(customFields)] }
+      : this.csvConfig;
+
+    switch (format) {
+      case 'json':
+        return new StreamingJSONWriter(filePath, new Date());
+      case 'xlsx':
+        return new XLSXExportWriter(filePath, csvConfig);
+      case 'pdf':
+        return new PDFExportWriter(filePath, new Date(), url => this.loadPdfImage(url, 128));
+      default:
+        return new StreamingCSVWriter(filePath, csvConfig);
+    }
+  }
+
+  /**
+   * Fetch a photo as a JPEG no larger than `size` pixels for a PDF (PDFKit
+   * cannot embed WebP). Missing or unreadable photos return null and are
+   * left blank.
+   */
+  private async loadPdfImage(url: string, size: number): Promise<Buffer | null> {
+    const key = getStorageKeyFromUrl(url);
+    if (!key) return null;
+
+    try {
+      const { buffer } = await this.storage.downloadFile(key);
+      return await sharp(buffer).resize(size, size, { fit: 'inside', withoutEnlargement: true }).jpeg({ quality: 70 }).toBuffer();
     } catch (error) {
-      console.error(`Background export job ${jobId} failed:`, error);
+      console.warn(`Export thumbnail unavailable for ${key}:`, error);
+      return null;
     }
   }
 
+  /**
+   * Read a job's status after losing ownership of it
+   */
+  private async currentStatus(jobId: string): Promise<ExportJobStatus> {
+    const job = await this.prisma.exportJob.findUnique({ where: { id: jobId }, select: { status: true } });
+    return (job?.status ?? 'cancelled') as ExportJobStatus;
+  }
+
+  /**
+   * Convert a stored job to the API shape
+   */
+  private toExportJob(job: ExportJobRecord): ExportJob {
+    const downloadable = job.status === 'completed' && !!job.storageKey && (!job.expiresAt || job.expiresAt > new Date());
+
+    return {
+      id: job.id,
+      userId: job.userId,
+      householdId: job.householdId,
+      format: job.format as ExportJob['format'],
+      report: job.report as ExportJob['report'],
+      asOf: job.asOf ?? undefined,
+      signature: job.signature ?? undefined,
+      columnSettings: job.columnSettings ? ExportColumnSettingsSchema.parse(job.columnSettings) : undefined,
+      scheduleId: job.scheduleId ?? undefined,
+      status: job.status as ExportJobStatus,
+      filename: job.filename,
+      progress: job.progress,
+      totalItems: job.totalItems,
+      processedItems: job.processedItems,
+      fileSize: job.fileSize ?? undefined,
+      downloadUrl: downloadable ? `/api/v1/exports/${job.id}/download` : undefined,
+      errorMessage: job.errorMessage ?? undefined,
+      filters: job.filters ? ExportFiltersSchema.parse(job.filters) : undefined,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt ?? undefined,
+      completedAt: job.completedAt ?? undefined,
+      expiresAt: job.expiresAt ?? undefined,
+    };
+  }
+
   /**
    * Get items for export with all required relationships
    *
@@ -642,6 +1773,8 @@ export class ExportService {
       })),
       totalValue: (item.currentValue || item.purchasePrice || 0) * item.quantity,
       photoCount: item.photos.length,
+      serialNumber: getSerialNumber(item.metadata),
+      metadata: item.metadata && typeof item.metadata === 'object' && !Array.isArray(item.metadata) ? item.metadata : {},
       tagNames,
       photoUrls,
     };
@@ -0,0 +1,543 @@
+import { PrismaClient, HouseholdMember, Prisma } from '@prisma/client';
+import {
+  CreateInvitationInput,
+  AcceptInvitationInput,
+  UpdateMemberInput,
+} from '@/lib/validation';
+import { HOUSEHOLD_ROLES, hasPermission, parsePermissionOverrides } from '@/lib/utils/permissions';
+import { generateSecureToken, hashToken } from '@/lib/utils/password-hash';
+import type { InvitationPreview } from '@/lib/types/households';
+
+/**
+ * VerificationToken type used for household invitations
+ */
+export const HOUSEHOLD_INVITATION_TOKEN_TYPE = 'household_invitation';
+
+/**
+ * Member with the user's display details
+ */
+type HouseholdMemberWithUser = HouseholdMember & {
+  user: { id: string; name: string | null; email: string; image: string | null };
+};
+
+/**
+ * Pending invitation with the inviting user's display details (never the token hash)
+ */
+export interface HouseholdInvitation {
+  id: string;
+  email: string;
+  role: string;
+  expires: Date;
+  createdAt: Date;
+  inviter: { id: string; name: string | null; email: string } | null;
+}
+
+/**
+ * Newly created invitation with the plain token to send to the invitee
+ */
+export interface CreatedInvitation {
+  invitation: HouseholdInvitation;
+  /** Plain token - only its hash is stored */
+  token: string;
+}
+
+/**
+ * Select clause for member user details
+ */
+const MEMBER_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  image: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Select clause for inviter details
+ */
+const INVITER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Select clause for invitation reads
+ */
+const INVITATION_SELECT = {
+  id: true,
+  identifier: true,
+  role: true,
+  expires: true,
+  createdAt: true,
+  inviter: { select: INVITER_SELECT },
+} satisfies Prisma.VerificationTokenSelect;
+
+/**
+ * HouseholdService - Business logic for household membership
+ *
+ * This service handles inviting people to a household by email, accepting or
+ * declining those invitations, changing member roles and removing members.
+ * Invitations reuse the VerificationToken table with a household_invitation
+ * type; only the token hash is stored. Removing a member deletes their
+ * membership row, which getHouseholdContext re-checks on every request, so
+ * access is revoked immediately.
+ */
+export class HouseholdService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List the household's members, owners first
+   *
+   * @param householdId - ID of the household
+   * @returns Promise resolving to the members with user details
+   */
+  async listMembers(householdId: string): Promise<HouseholdMemberWithUser[]> {
+    const members = await this.prisma.householdMember.findMany({
+      where: { householdId },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    return members.sort((a, b) => roleRank(a.role) - roleRank(b.role));
+  }
+
+  /**
+   * List the household's unexpired invitations
+   *
+   * @param householdId - ID of the household
+   * @returns Promise resolving to pending invitations, newest first
+   */
+  async listInvitations(householdId: string): Promise<HouseholdInvitation[]> {
+    const invitations = await this.prisma.verificationToken.findMany({
+      where: {
+        householdId,
+        type: HOUSEHOLD_INVITATION_TOKEN_TYPE,
+        expires: { gt: new Date() },
+      },
+      select: INVITATION_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map(toInvitation);
+  }
+
+  /**
+   * Invite someone to the household by email
+   *
+   * Re-inviting an address replaces its pending invitation, so only the
+   * latest link works.
+   *
+   * @param userId - ID of the member sending the invitation
+   * @param householdId - ID of the household
+   * @param data - Validated invitation data
+   * @returns Promise resolving to the invitation and its plain token
+   */
+  async inviteMember(
+    userId: string,
+    householdId: string,
+    data: CreateInvitationInput
+  ): Promise<CreatedInvitation> {
+    const token = await generateSecureToken();
+    const tokenHash = await hashToken(token);
+
+    const invitation = await this.prisma.$transaction(async (tx) => {
+      // 1. Only members with members:manage can invite, and only owners can invite owners
+      const actor = await this.requireManager(tx, householdId, userId);
+      if (data.role === 'owner' && actor.role !== 'owner') {
+        throw new Error('Insufficient permissions: only owners can invite owners');
+      }
+
+      // 2. Reject people who are already members
+      const existingMember = await tx.householdMember.findFirst({
+        where: { householdId, user: { email: data.email } },
+      });
+
+      if (existingMember) {
+        throw new Error('User is already a member of this household');
+      }
+
+      // 3. Replace any pending invitation for this address
+      await tx.verificationToken.deleteMany({
+        where: {
+          householdId,
+          identifier: data.email,
+          type: HOUSEHOLD_INVITATION_TOKEN_TYPE,
+        },
+      });
+
+      // 4. Store the hashed token
+      const created = await tx.verificationToken.create({
+        data: {
+          identifier: data.email,
+          token: tokenHash,
+          type: HOUSEHOLD_INVITATION_TOKEN_TYPE,
+          expires: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+          householdId,
+          role: data.role,
+          invitedBy: userId,
+        },
+        select: INVITATION_SELECT,
+      });
+
+      return toInvitation(created);
+    });
+
+    return { invitation, token };
+  }
+
+  /**
+   * Cancel a pending invitation
+   *
+   * @param userId - ID of the member revoking the invitation
+   * @param householdId - ID of the household
+   * @param invitationId - ID of the invitation to revoke
+   */
+  async revokeInvitation(userId: string, householdId: string, invitationId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      // 1. Only members with members:manage can revoke
+      await this.requireManager(tx, householdId, userId);
+
+      // 2. Delete the invitation if it belongs to the household
+      const { count } = await tx.verificationToken.deleteMany({
+        where: {
+          id: invitationId,
+          householdId,
+          type: HOUSEHOLD_INVITATION_TOKEN_TYPE,
+        },
+      });
+
+      if (count === 0) {
+        throw new Error('Invitation not found or access denied');
+      }
+    });
+  }
+
+  /**
+   * Look up an invitation by its plain token
+   *
+   * @param token - Plain token from the invitation link
+   * @returns Promise resolving to the invitation details, or null if invalid or expired
+   */
+  async getInvitation(token: string): Promise<InvitationPreview | null> {
+    const invitation = await this.findPendingInvitation(this.prisma, token);
+    if (!invitation) return null;
+
+    return {
+      email: invitation.identifier,
+      role: invitation.role as InvitationPreview['role'],
+      expires: invitation.expires,
+      household: invitation.household,
+      inviter: invitation.inviter,
+    };
+  }
+
+  /**
+   * Accept an invitation and join the household
+   *
+   * @param token - Plain token from the invitation link
+   * @param userId - ID of the signed-in user accepting
+   * @param options - Whether the household becomes the user's default
+   * @returns Promise resolving to the new membership
+   */
+  async acceptInvitation(
+    token: string,
+    userId: string,
+    options: AcceptInvitationInput = { makeDefault: true }
+  ): Promise<HouseholdMemberWithUser> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the invitation and check it was sent to this user
+      const invitation = await this.findPendingInvitation(tx, token);
+      if (!invitation) {
+        throw new Error('Invitation not found or expired');
+      }
+
+      const user = await this.requireInvitee(tx, userId, invitation.identifier);
+
+      const existingMember = await tx.householdMember.findUnique({
+        where: { userId_householdId: { userId, householdId: invitation.householdId } },
+      });
+
+      if (existingMember) {
+        throw new Error('User is already a member of this household');
+      }
+
+      // 2. Spend the token and join the household
+      await tx.verificationToken.delete({ where: { id: invitation.id } });
+
+      const member = await tx.householdMember.create({
+        data: {
+          userId,
+          householdId: invitation.householdId,
+          role: invitation.role ?? 'member',
+        },
+        include: { user: { select: MEMBER_USER_SELECT } },
+      });
+
+      // 3. Switch the user's default household if requested (or if they have none)
+      if (options.makeDefault || !user.defaultHouseholdId) {
+        await tx.user.update({
+          where: { id: userId },
+          data: { defaultHouseholdId: invitation.householdId },
+        });
+      }
+
+      return member;
+    });
+  }
+
+  /**
+   * Decline an invitation
+   *
+   * @param token - Plain token from the invitation link
+   * @param userId - ID of the signed-in user declining
+   */
+  async declineInvitation(token: string, userId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the invitation and check it was sent to this user
+      const invitation = await this.findPendingInvitation(tx, token);
+      if (!invitation) {
+        throw new Error('Invitation not found or expired');
+      }
+
+      await this.requireInvitee(tx, userId, invitation.identifier);
+
+      // 2. Spend the token
+      await tx.verificationToken.delete({ where: { id: invitation.id } });
+    });
+  }
+
+  /**
+   * Change a member's role and/or per-capability permission overrides
+   *
+   * Only owners can grant or take away the owner role or change an owner's
+   * overrides, and the household always keeps at least one owner. A null
+   * override clears it back to the role default.
+   *
+   * @param userId - ID of the member making the change
+   * @param householdId - ID of the household
+   * @param memberId - ID of the membership to change
+   * @param data - New role and/or permission overrides
+   * @returns Promise resolving to the updated membership
+   */
+  async updateMember(
+    userId: string,
+    householdId: string,
+    memberId: string,
+    data: UpdateMemberInput
+  ): Promise<HouseholdMemberWithUser> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Only members with members:manage can change roles
+      const actor = await this.requireManager(tx, householdId, userId);
+      const member = await this.validateMemberAccess(tx, memberId, householdId);
+      const role = data.role ?? member.role;
+
+      // 2. Owner changes are reserved for owners
+      if ((member.role === 'owner' || role === 'owner') && actor.role !== 'owner') {
+        throw new Error('Insufficient permissions: only owners can change owner roles');
+      }
+
+      // 3. Keep at least one owner
+      if (member.role === 'owner' && role !== 'owner') {
+        await this.ensureAnotherOwner(tx, householdId, member.id);
+      }
+
+      // 4. Merge permission overrides (null clears one)
+      let permissions: Prisma.InputJsonObject | undefined;
+      if (data.permissions) {
+        const merged: Record<string, boolean> = { ...parsePermissionOverrides(member.permissions) };
+        for (const [permission, granted] of Object.entries(data.permissions)) {
+          if (granted === null || granted === undefined) {
+            delete merged[permission];
+          } else {
+            merged[permission] = granted;
+          }
+        }
+        permissions = merged;
+      }
+
+      // 5. Update the membership
+      return await tx.householdMember.update({
+        where: { id: member.id },
+        data: { role, permissions },
+        include: { user: { select: MEMBER_USER_SELECT } },
+      });
+    });
+  }
+
+  /**
+   * Remove a member from the household, or leave it
+   *
+   * Any member can remove themselves; removing others requires members:manage,
+   * and only owners can remove owners. The membership row is deleted so the
+   * member's next request fails the household context check.
+   *
+   * @param userId - ID of the member making the change
+   * @param householdId - ID of the household
+   * @param memberId - ID of the membership to remove
+   */
+  async removeMember(userId: string, householdId: string, memberId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      // 1. Check permissions (leaving needs none)
+      const member = await this.validateMemberAccess(tx, memberId, householdId);
+
+      if (member.userId !== userId) {
+        const actor = await this.requireManager(tx, householdId, userId);
+        if (member.role === 'owner' && actor.role !== 'owner') {
+          throw new Error('Insufficient permissions: only owners can remove owners');
+        }
+      }
+
+      // 2. Keep at least one owner
+      if (member.role === 'owner') {
+        await this.ensureAnotherOwner(tx, householdId, member.id);
+      }
+
+      // 3. Revoke access
+      await tx.householdMember.delete({ where: { id: member.id } });
+
+      // 4. Point the user's default household at one they still belong to
+      const user = await tx.user.findUnique({
+        where: { id: member.userId },
+        select: { defaultHouseholdId: true },
+      });
+
+      if (user?.defaultHouseholdId === householdId) {
+        const otherMembership = await tx.householdMember.findFirst({
+          where: { userId: member.userId },
+          orderBy: { joinedAt: 'asc' },
+        });
+
+        await tx.user.update({
+          where: { id: member.userId },
+          data: { defaultHouseholdId: otherMembership?.householdId ?? null },
+        });
+      }
+    });
+  }
+
+  // Private helper methods
+
+  /**
+   * Find an unexpired invitation by its plain token
+   */
+  private async findPendingInvitation(
+    client: Prisma.TransactionClient | PrismaClient,
+    token: string
+  ) {
+    const invitation = await client.verificationToken.findUnique({
+      where: { token: await hashToken(token) },
+      include: {
+        household: { select: { id: true, name: true } },
+        inviter: { select: INVITER_SELECT },
+      },
+    });
+
+    if (
+      !invitation ||
+      invitation.type !== HOUSEHOLD_INVITATION_TOKEN_TYPE ||
+      !invitation.householdId ||
+      !invitation.household ||
+      invitation.expires <= new Date()
+    ) {
+      return null;
+    }
+
+    return { ...invitation, householdId: invitation.householdId, household: invitation.household };
+  }
+
+  /**
+   * Check that the signed-in user is the person the invitation was sent to
+   */
+  private async requireInvitee(tx: Prisma.TransactionClient, userId: string, email: string) {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { email: true, defaultHouseholdId: true },
+    });
+
+    if (!user || user.email.toLowerCase() !== email.toLowerCase()) {
+      throw new Error('Invitation was sent to a different email address');
+    }
+
+    return user;
+  }
+
+  /**
+   * Get the acting user's membership, requiring the members:manage permission
+   */
+  private async requireManager(tx: Prisma.TransactionClient, householdId: string, userId: string) {
+    const actor = await tx.householdMember.findUnique({
+      where: { userId_householdId: { userId, householdId } },
+    });
+
+    if (!actor || !hasPermission(actor.role, actor.permissions, 'members:manage')) {
+      throw new Error('Insufficient permissions: members:manage is required');
+    }
+
+    return actor;
+  }
+
+  /**
+   * Validate that a membership exists and belongs to the household
+   */
+  private async validateMemberAccess(
+    tx: Prisma.TransactionClient,
+    memberId: string,
+    householdId: string
+  ) {
+    const member = await tx.householdMember.findFirst({
+      where: { id: memberId, householdId },
+    });
+
+    if (!member) {
+      throw new Error('Member not found or access denied');
+    }
+
+    return member;
+  }
+
+  /**
+   * Ensure the household has an owner other than the given member
+   */
+  private async ensureAnotherOwner(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    memberId: string
+  ): Promise<void> {
+    const otherOwners = await tx.householdMember.count({
+      where: { householdId, role: 'owner', id: { not: memberId } },
+    });
+
+    if (otherOwners === 0) {
+      throw new Error('Household must keep at least one owner');
+    }
+  }
+}
+
+/**
+ * Shape an invitation row for callers
+ */
+function toInvitation(
+  invitation: Prisma.VerificationTokenGetPayload<{ select: typeof INVITATION_SELECT }>
+): HouseholdInvitation {
+  return {
+    id: invitation.id,
+    email: invitation.identifier,
+    role: invitation.role ?? 'member',
+    expires: invitation.expires,
+    createdAt: invitation.createdAt,
+    inviter: invitation.inviter,
+  };
+}
+
+/**
+ * Sort key for roles, most privileged first
+ */
+function roleRank(role: string): number {
+  const rank = (HOUSEHOLD_ROLES as readonly string[]).indexOf(role);
+  return rank === -1 ? Number.MAX_SAFE_INTEGER : rank;
+}
+
+/**
+ * Singleton instance of HouseholdService
+ */
+export const householdService = new HouseholdService(new PrismaClient());
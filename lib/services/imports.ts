@@ -0,0 +1,746 @@
+/**
+ * ImportService - Business logic for importing items from spreadsheets
+ *
+ * The way back in from ExportService: reads CSV or XLSX files laid out like
+ * the CSV export (or mapped column by column), and:
+ * - Validates every row against CreateItemSchema before anything is written
+ * - Resolves "Location Path" against the location tree, creating missing
+ *   locations on request
+ * - Resolves tags by name, optionally creating unknown ones
+ * - Matches existing items by name within the same location for updates
+ * - Reports per-row errors and planned creates/updates as a dry run
+ *
+ * Committed imports are written in chunks so large spreadsheets don't hold
+ * one long transaction.
+ *
+ * @category Business Logic Services
+ * @since 1.11.0
+ */
+
+import { PrismaClient, Prisma, ItemStatus, LocationType, ActivityAction, ActivityEntityType } from '@prisma/client';
+import { CreateItemSchema } from '@/lib/validation/items';
+import {
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS,
+  type ImportOptionsInput,
+} from '@/lib/validation/imports';
+import {
+  detectSpreadsheetFormat,
+  excelSerialToDate,
+  readSpreadsheet,
+} from '@/lib/utils/spreadsheet';
+import type {
+  ImportColumnMapping,
+  ImportError,
+  ImportField,
+  ImportReport,
+  ImportRowResult,
+} from '@/lib/types/imports';
+import { DEFAULT_CSV_CONFIG } from './exports';
+import {
+  activityLogService,
+  buildActivityDiff,
+  ITEM_ACTIVITY_FIELDS,
+  LOCATION_ACTIVITY_FIELDS,
+} from './activity';
+
+/**
+ * Import error codes for consistent error handling
+ */
+export const ImportErrorCodes = {
+  UNSUPPORTED_FORMAT: 'IMPORT_001',
+  FILE_TOO_LARGE: 'IMPORT_002',
+  TOO_MANY_ROWS: 'IMPORT_003',
+  MISSING_COLUMNS: 'IMPORT_004',
+  ROWS_INVALID: 'IMPORT_005',
+  IMPORT_FAILED: 'IMPORT_006',
+} as const;
+
+/**
+ * Export column keys that map onto import fields
+ */
+const EXPORT_KEY_FIELDS: Record<string, ImportField> = {
+  name: 'name',
+  description: 'description',
+  quantity: 'quantity',
+  unit: 'unit',
+  purchasePrice: 'purchasePrice',
+  currentValue: 'currentValue',
+  purchaseDate: 'purchaseDate',
+  status: 'status',
+  tagNames: 'tags',
+};
+
+/**
+ * Default mapping: the CSV export's own headers, so an export imports back
+ * unchanged. Columns that can't be imported (photos, dates, household) are
+ * ignored.
+ */
+export const DEFAULT_IMPORT_MAPPING: ImportColumnMapping = Object.fromEntries(
+  DEFAULT_CSV_CONFIG.columns.map((column) => [
+    column.header,
+    column.header === 'Location Path' ? 'locationPath' : EXPORT_KEY_FIELDS[column.key] ?? 'ignore',
+  ])
+);
+
+/**
+ * Field names used in row error messages
+ */
+const FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Item Name',
+  description: 'Description',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  purchasePrice: 'Purchase Price',
+  currentValue: 'Current Value',
+  purchaseDate: 'Purchase Date',
+  status: 'Status',
+  locationPath: 'Location Path',
+  tags: 'Tags',
+};
+
+/**
+ * Row shape validated with CreateItemSchema; the location is resolved from
+ * its path instead of an ID
+ */
+const ImportRowSchema = CreateItemSchema.omit({ locationId: true });
+
+/**
+ * Separators accepted between "Location Path" segments (exports use " → ")
+ */
+const LOCATION_PATH_SEPARATOR = /\s*(?:→|>)\s*/;
+
+/**
+ * Location type given to auto-created locations, by parent type
+ */
+const CHILD_LOCATION_TYPE: Record<LocationType, LocationType> = {
+  [LocationType.BUILDING]: LocationType.ROOM,
+  [LocationType.ROOM]: LocationType.FURNITURE,
+  [LocationType.AREA]: LocationType.FURNITURE,
+  [LocationType.FURNITURE]: LocationType.CONTAINER,
+  [LocationType.CONTAINER]: LocationType.CONTAINER,
+};
+
+/**
+ * Statuses that can be set by import (loans go through the lending flow)
+ */
+const IMPORTABLE_STATUSES: ItemStatus[] = [
+  ItemStatus.AVAILABLE,
+  ItemStatus.MAINTENANCE,
+  ItemStatus.LOST,
+  ItemStatus.SOLD,
+];
+
+/**
+ * Uploaded spreadsheet
+ */
+export interface ImportFile {
+  filename: string;
+  data: Uint8Array;
+}
+
+/**
+ * Validated row waiting to be written
+ */
+interface PlannedRow {
+  result: ImportRowResult;
+  data: Prisma.ItemUncheckedCreateInput;
+
+  /** Fields with a value in the spreadsheet (updates leave the rest alone) */
+  provided: Set<ImportField>;
+
+  /** Normalized location path key */
+  locationKey: string;
+
+  /** Normalized tag name keys */
+  tagKeys: string[];
+}
+
+/**
+ * Location as loaded for path resolution
+ */
+interface KnownLocation {
+  id: string;
+  path: string;
+  level: number;
+  locationType: LocationType;
+}
+
+/**
+ * Everything needed to commit after planning
+ */
+interface ImportPlan {
+  report: ImportReport;
+  rows: PlannedRow[];
+
+  /** Location path key -> segments, for paths to create (parents first) */
+  newLocations: Map<string, string[]>;
+
+  /** Tag name key -> display name, for tags to create */
+  newTags: Map<string, string>;
+  locations: Map<string, KnownLocation>;
+  tags: Map<string, string>;
+}
+
+/**
+ * ImportService class
+ */
+export class ImportService {
+  constructor(
+    private prisma: PrismaClient,
+    private chunkSize = 50
+  ) {}
+
+  /**
+   * Import items from a spreadsheet, or report what an import would do
+   *
+   * Nothing is written for a dry run. Otherwise, rows with errors block the
+   * whole import unless `skipInvalidRows` is set.
+   *
+   * @param userId - ID of the user importing
+   * @param householdId - ID of the household to import into
+   * @param file - Uploaded CSV or XLSX file
+   * @param options - Validated import options
+   * @returns Import report with per-row outcomes
+   * @throws ImportError for unreadable files, and ROWS_INVALID (with the
+   *   report as context) when a committing import has row errors
+   */
+  async importItems(
+    userId: string,
+    householdId: string,
+    file: ImportFile,
+    options: ImportOptionsInput
+  ): Promise<ImportReport> {
+    // 1. Read and plan the spreadsheet
+    const plan = await this.planImport(householdId, file, options);
+
+    if (options.dryRun) {
+      return plan.report;
+    }
+
+    // 2. Refuse partial imports unless asked for
+    if (plan.report.summary.error > 0 && !options.skipInvalidRows) {
+      throw this.createError(
+        'ROWS_INVALID',
+        `${plan.report.summary.error} row(s) have errors; fix them or skip invalid rows`,
+        { report: plan.report }
+      );
+    }
+
+    // 3. Write everything
+    await this.commitPlan(userId, householdId, plan);
+
+    return { ...plan.report, committed: true };
+  }
+
+  // Private helper methods
+
+  /**
+   * Parse the file and work out what each row would do
+   */
+  private async planImport(
+    householdId: string,
+    file: ImportFile,
+    options: ImportOptionsInput
+  ): Promise<ImportPlan> {
+    // 1. Read the file
+    if (file.data.byteLength > MAX_IMPORT_FILE_SIZE) {
+      throw this.createError('FILE_TOO_LARGE', `Import files cannot exceed ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB`);
+    }
+
+    const format = detectSpreadsheetFormat(file.filename, file.data);
+    if (!format) {
+      throw this.createError('UNSUPPORTED_FORMAT', 'Only CSV and XLSX files can be imported');
+    }
+
+    let sheet: string[][];
+    try {
+      sheet = readSpreadsheet(file.data, format, DEFAULT_CSV_CONFIG);
+    } catch (error) {
+      throw this.createError('UNSUPPORTED_FORMAT', error instanceof Error ? error.message : 'File could not be read');
+    }
+
+    // 2. Map header columns to fields
+    const headers = (sheet[0] ?? []).map((header) => header.trim());
+    const mapping = options.mapping ?? DEFAULT_IMPORT_MAPPING;
+    const mappingByHeader = new Map(
+      Object.entries(mapping).map(([header, field]) => [header.trim().toLowerCase(), field])
+    );
+
+    const columns = new Map<ImportField, number>();
+    const appliedMapping: ImportColumnMapping = {};
+    const unmappedHeaders: string[] = [];
+    headers.forEach((header, index) => {
+      if (!header) return;
+      const field = mappingByHeader.get(header.toLowerCase());
+      if (field && field !== 'ignore' && !columns.has(field)) {
+        columns.set(field, index);
+        appliedMapping[header] = field;
+      } else if (!field) {
+        unmappedHeaders.push(header);
+      }
+    });
+
+    const missing = (['name', 'locationPath'] as const).filter((field) => !columns.has(field));
+    if (missing.length > 0) {
+      throw this.createError(
+        'MISSING_COLUMNS',
+        `No column is mapped to ${missing.map((field) => FIELD_LABELS[field]).join(' or ')}`,
+        { headers }
+      );
+    }
+
+    // 3. Collect data rows, skipping blank lines
+    const dataRows = sheet
+      .map((cells, index) => ({ cells, row: index + 1 }))
+      .slice(1)
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw this.createError(
+        'TOO_MANY_ROWS',
+        `Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and import it in parts`,
+        { rowCount: dataRows.length, limit: MAX_IMPORT_ROWS }
+      );
+    }
+
+    const cell = (cells: string[], field: ImportField): string => {
+      const index = columns.get(field);
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    // 4. Load what rows can refer to
+    const [locations, tags] = await Promise.all([
+      this.prisma.location.findMany({
+        where: { householdId },
+        select: { id: true, path: true, level: true, locationType: true },
+      }),
+      this.prisma.tag.findMany({
+        where: { householdId },
+        select: { id: true, name: true },
+      }),
+    ]);
+    const locationsByKey = new Map(locations.map((location) => [normalizePath(location.path), location]));
+    const tagsByKey = new Map(tags.map((tag) => [tag.name.toLowerCase(), tag.id]));
+
+    const names = Array.from(new Set(dataRows.map(({ cells }) => cell(cells, 'name')).filter(Boolean)));
+    const existingItems = names.length > 0
+      ? await this.prisma.item.findMany({
+          where: { householdId, name: { in: names, mode: 'insensitive' } },
+          select: { id: true, name: true, locationId: true },
+        })
+      : [];
+    const existingByKey = new Map(
+      existingItems.map((item) => [`${item.locationId}:${item.name.toLowerCase()}`, item.id])
+    );
+
+    // 5. Plan each row
+    const newLocations = new Map<string, string[]>();
+    const newTags = new Map<string, string>();
+    const seenRows = new Map<string, number>();
+    const planned: PlannedRow[] = [];
+    const results: ImportRowResult[] = [];
+
+    for (const { cells, row } of dataRows) {
+      const name = cell(cells, 'name');
+      const locationPath = cell(cells, 'locationPath');
+      const result: ImportRowResult = {
+        row,
+        action: 'create',
+        name: name || null,
+        locationPath: locationPath || null,
+        errors: [],
+        warnings: [],
+      };
+      results.push(result);
+
+      // Field values
+      const candidate: Record<string, unknown> = { name };
+      const provided = new Set<ImportField>(['name']);
+      for (const field of ['description', 'unit'] as const) {
+        const value = cell(cells, field);
+        if (value) {
+          candidate[field] = value;
+          provided.add(field);
+        }
+      }
+      for (const field of ['quantity', 'purchasePrice', 'currentValue'] as const) {
+        const value = cell(cells, field);
+        if (!value) continue;
+        const number = parseNumber(value);
+        if (number === null) {
+          result.errors.push(`${FIELD_LABELS[field]} "${value}" is not a number`);
+        } else {
+          candidate[field] = number;
+          provided.add(field);
+        }
+      }
+      const purchaseDate = cell(cells, 'purchaseDate');
+      if (purchaseDate) {
+        const date = parseDate(purchaseDate);
+        if (!date) {
+          result.errors.push(`Purchase Date "${purchaseDate}" is not a valid date`);
+        } else {
+          candidate.purchaseDate = date.toISOString();
+          provided.add('purchaseDate');
+        }
+      }
+
+      const parsed = ImportRowSchema.safeParse(candidate);
+      if (!parsed.success) {
+        result.errors.push(...parsed.error.errors.map((issue) => issue.message));
+      }
+
+      // Status
+      let status: ItemStatus | undefined;
+      const statusValue = cell(cells, 'status').toUpperCase();
+      if (statusValue) {
+        if (statusValue === ItemStatus.BORROWED) {
+          result.warnings.push('Loans cannot be imported; status was left unchanged');
+        } else if ((IMPORTABLE_STATUSES as string[]).includes(statusValue)) {
+          status = statusValue as ItemStatus;
+          provided.add('status');
+        } else {
+          result.errors.push(`Status "${statusValue}" must be one of ${IMPORTABLE_STATUSES.join(', ')}`);
+        }
+      }
+
+      // Location
+      const segments = locationPath.split(LOCATION_PATH_SEPARATOR).filter(Boolean);
+      const locationKey = segments.map((segment) => segment.toLowerCase()).join(' → ');
+      const location = locationsByKey.get(locationKey);
+      if (segments.length === 0) {
+        result.errors.push('Location Path is required');
+      } else if (segments.length > 11) {
+        result.errors.push('Location Path cannot be deeper than 10 levels');
+      } else if (segments.some((segment) => segment.length > 100)) {
+        result.errors.push('Location names must be 100 characters or less');
+      } else if (!location) {
+        if (options.createMissingLocations) {
+          segments.forEach((_, index) => {
+            const prefix = segments.slice(0, index + 1);
+            const key = prefix.map((segment) => segment.toLowerCase()).join(' → ');
+            if (!locationsByKey.has(key) && !newLocations.has(key)) {
+              newLocations.set(key, prefix);
+            }
+          });
+        } else {
+          result.errors.push(`Location "${locationPath}" does not exist`);
+        }
+      }
+
+      // Tags
+      const tagKeys: string[] = [];
+      for (const tagName of splitTags(cell(cells, 'tags'))) {
+        const key = tagName.toLowerCase();
+        if (tagKeys.includes(key)) continue;
+
+        if (tagsByKey.has(key) || newTags.has(key)) {
+          tagKeys.push(key);
+        } else if (tagName.length > 50) {
+          result.warnings.push(`Tag "${tagName}" is longer than 50 characters and was skipped`);
+        } else if (options.createMissingTags) {
+          newTags.set(key, tagName);
+          tagKeys.push(key);
+        } else {
+          result.warnings.push(`Unknown tag "${tagName}" was skipped`);
+        }
+      }
+
+      if (result.errors.length > 0 || !parsed.success) {
+        result.action = 'error';
+        continue;
+      }
+
+      // Duplicates, in the file and in the household
+      const duplicateKey = `${locationKey}:${name.toLowerCase()}`;
+      const existingId = location ? existingByKey.get(`${location.id}:${name.toLowerCase()}`) : undefined;
+      const earlierRow = seenRows.get(duplicateKey);
+      seenRows.set(duplicateKey, earlierRow ?? row);
+
+      if (options.onDuplicate !== 'create' && earlierRow !== undefined) {
+        result.action = 'skip';
+        result.warnings.push(`Same item as row ${earlierRow}`);
+        continue;
+      }
+
+      if (existingId && options.onDuplicate !== 'create') {
+        result.itemId = existingId;
+        if (options.onDuplicate === 'skip') {
+          result.action = 'skip';
+          result.warnings.push('An item with this name already exists in this location');
+          continue;
+        }
+        result.action = 'update';
+      }
+
+      planned.push({
+        result,
+        data: {
+          ...parsed.data,
+          purchaseDate: parsed.data.purchaseDate || undefined,
+          metadata: {},
+          status,
+          householdId,
+          locationId: location?.id ?? '',
+          createdBy: '',
+        },
+        provided,
+        locationKey,
+        tagKeys,
+      });
+    }
+
+    // 6. Summarize
+    const summary = { create: 0, update: 0, skip: 0, error: 0 };
+    for (const result of results) {
+      summary[result.action]++;
+    }
+
+    const report: ImportReport = {
+      dryRun: options.dryRun,
+      committed: false,
+      format,
+      totalRows: dataRows.length,
+      mapping: appliedMapping,
+      unmappedHeaders,
+      summary,
+      locationsToCreate: Array.from(newLocations.values(), (segments) => segments.join(' → ')),
+      tagsToCreate: Array.from(newTags.values()),
+      rows: results,
+    };
+
+    return {
+      report,
+      rows: planned,
+      newLocations,
+      newTags,
+      locations: locationsByKey,
+      tags: tagsByKey,
+    };
+  }
+
+  /**
+   * Write the planned locations, tags and items
+   */
+  private async commitPlan(userId: string, householdId: string, plan: ImportPlan): Promise<void> {
+    // 1. Create missing locations and tags
+    await this.prisma.$transaction(async (tx) => {
+      for (const [key, segments] of plan.newLocations) {
+        const parent = segments.length > 1
+          ? plan.locations.get(segments.slice(0, -1).map((segment) => segment.toLowerCase()).join(' → '))
+          : undefined;
+        const name = segments[segments.length - 1];
+
+        const location = await tx.location.create({
+          data: {
+            householdId,
+            name,
+            parentId: parent?.id,
+            path: parent ? `${parent.path} → ${name}` : name,
+            level: parent ? parent.level + 1 : 0,
+            locationType: parent ? CHILD_LOCATION_TYPE[parent.locationType] : LocationType.ROOM,
+          },
+        });
+        plan.locations.set(key, location);
+
+        await activityLogService.recordActivity(tx, {
+          householdId,
+          userId,
+          entityType: ActivityEntityType.LOCATION,
+          entityId: location.id,
+          action: ActivityAction.CREATED,
+          diff: buildActivityDiff(null, location, LOCATION_ACTIVITY_FIELDS),
+          metadata: { locationName: location.name, source: 'import' },
+        });
+      }
+
+      for (const [key, name] of plan.newTags) {
+        const tag = await tx.tag.create({ data: { householdId, name } });
+        plan.tags.set(key, tag.id);
+      }
+    });
+
+    // 2. Write items in chunks
+    const touchedLocations = new Set<string>();
+    const touchedTags = new Set<string>();
+
+    for (let offset = 0; offset < plan.rows.length; offset += this.chunkSize) {
+      const chunk = plan.rows.slice(offset, offset + this.chunkSize);
+
+      await this.prisma.$transaction(async (tx) => {
+        for (const planned of chunk) {
+          const location = plan.locations.get(planned.locationKey)!;
+          const tagIds = planned.tagKeys.map((key) => plan.tags.get(key)!);
+          const itemId = planned.result.action === 'update'
+            ? await this.updateImportedItem(tx, userId, householdId, planned, location)
+            : await this.createImportedItem(tx, userId, householdId, planned, location);
+
+          if (tagIds.length > 0) {
+            await tx.itemTag.createMany({
+              data: tagIds.map((tagId) => ({ itemId, tagId })),
+              skipDuplicates: true,
+            });
+            tagIds.forEach((tagId) => touchedTags.add(tagId));
+          }
+
+          planned.result.itemId = itemId;
+          touchedLocations.add(location.id);
+        }
+      });
+    }
+
+    // 3. Refresh location statistics and tag usage counts
+    await this.prisma.$transaction(async (tx) => {
+      for (const locationId of touchedLocations) {
+        const stats = await tx.item.aggregate({
+          where: { locationId, status: { notIn: [ItemStatus.SOLD, ItemStatus.LOST] } },
+          _count: { id: true },
+          _sum: { currentValue: true },
+        });
+        await tx.location.update({
+          where: { id: locationId },
+          data: {
+            itemCount: stats._count.id || 0,
+            totalValue: stats._sum.currentValue || 0,
+          },
+        });
+      }
+
+      for (const tagId of touchedTags) {
+        const usageCount = await tx.itemTag.count({ where: { tagId } });
+        await tx.tag.update({ where: { id: tagId }, data: { usageCount } });
+      }
+    });
+  }
+
+  /**
+   * Create an item from a planned row
+   */
+  private async createImportedItem(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    householdId: string,
+    planned: PlannedRow,
+    location: KnownLocation
+  ): Promise<string> {
+    const item = await tx.item.create({
+      data: { ...planned.data, locationId: location.id, createdBy: userId },
+    });
+
+    await activityLogService.recordActivity(tx, {
+      householdId,
+      userId,
+      entityType: ActivityEntityType.ITEM,
+      entityId: item.id,
+      action: ActivityAction.CREATED,
+      diff: buildActivityDiff(null, item, ITEM_ACTIVITY_FIELDS),
+      metadata: { itemName: item.name, locationPath: location.path, source: 'import' },
+    });
+
+    return item.id;
+  }
+
+  /**
+   * Update an existing item with the row's non-empty fields
+   */
+  private async updateImportedItem(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    householdId: string,
+    planned: PlannedRow,
+    location: KnownLocation
+  ): Promise<string> {
+    const itemId = planned.result.itemId!;
+    const existing = await tx.item.findFirst({ where: { id: itemId, householdId } });
+    if (!existing) {
+      throw new Error(`Item for row ${planned.result.row} not found or access denied`);
+    }
+
+    const data: Record<string, unknown> = {};
+    for (const field of planned.provided) {
+      if (field === 'locationPath' || field === 'tags') continue;
+      data[field] = planned.data[field];
+    }
+
+    const item = await tx.item.update({ where: { id: itemId }, data: data as Prisma.ItemUncheckedUpdateInput });
+
+    await activityLogService.recordActivity(tx, {
+      householdId,
+      userId,
+      entityType: ActivityEntityType.ITEM,
+      entityId: item.id,
+      action: ActivityAction.UPDATED,
+      diff: buildActivityDiff(existing, item, ITEM_ACTIVITY_FIELDS),
+      metadata: { itemName: item.name, locationPath: location.path, source: 'import' },
+    });
+
+    return item.id;
+  }
+
+  /**
+   * Create a standardized import error
+   */
+  private createError(
+    code: ImportError['code'],
+    message: string,
+    context?: Record<string, any>
+  ): ImportError {
+    const error = new Error(message) as ImportError;
+    error.code = code;
+    error.context = context;
+    return error;
+  }
+}
+
+/**
+ * Normalize a location path for case-insensitive matching
+ */
+function normalizePath(path: string): string {
+  return path
+    .split(LOCATION_PATH_SEPARATOR)
+    .filter(Boolean)
+    .map((segment) => segment.toLowerCase())
+    .join(' → ');
+}
+
+/**
+ * Split a Tags cell ("tools, garage" or "tools;garage")
+ */
+function splitTags(value: string): string[] {
+  return value
+    .split(/[,;]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a number, ignoring currency symbols and thousands separators
+ */
+function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/[^0-9.-]/g, '');
+  if (!cleaned) return null;
+
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Parse a date cell: ISO and other Date-parsable strings, or an Excel
+ * date serial number from an XLSX file
+ */
+function parseDate(value: string): Date | null {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Number(value);
+    // 1955-01-01 .. 2119-01-01; anything else is not a plausible date serial
+    return serial > 20000 && serial < 80000 ? excelSerialToDate(serial) : null;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Import service singleton instance
+ */
+export const importService = new ImportService(new PrismaClient());
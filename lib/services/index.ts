@@ -7,6 +7,7 @@
 export * from './items';
 export * from './locations';
 export * from './search';
+export * from './search-query-parser';
 export * from './storage';
 export * from './photo-processing';
 export * from './cdn';
@@ -14,6 +15,19 @@ export * from './cost-protection';
 export * from './migration-orchestrator';
 export * from './smart-deletion';
 export * from './exports';
+export * from './nfc-tags';
+export * from './labels';
+export * from './barcode-scanning';
+export * from './activity';
+export * from './households';
+export * from './imports';
+export * from './backups';
+export * from './export-templates';
+export * from './export-schedules';
+export * from './custom-fields';
+export * from './categories';
+export * from './tags';
+export * from './saved-searches';
 
 // Export service instances
 export { itemsService } from './items';
@@ -22,4 +36,17 @@ export { searchService } from './search';
 export { storageService } from './storage';
 export { photoProcessingService } from './photo-processing';
 export { cdnService } from './cdn';
-export { exportsService } from './exports';
\ No newline at end of file
+export { exportsService } from './exports';
+export { nfcTagService } from './nfc-tags';
+export { labelService } from './labels';
+export { barcodeScanService } from './barcode-scanning';
+export { activityLogService } from './activity';
+export { householdService } from './households';
+export { importService } from './imports';
+export { backupService } from './backups';
+export { exportTemplateService } from './export-templates';
+export { exportScheduleService } from './export-schedules';
+export { customFieldService } from './custom-fields';
+export { categoryService } from './categories';
+export { tagService } from './tags';
+export { savedSearchService } from './saved-searches';
@@ -1,4 +1,4 @@
-import { PrismaClient, Item, ItemStatus, Prisma } from '@prisma/client';
+import { PrismaClient, Item, ItemLoan, ItemStatus, ActivityAction, ActivityEntityType, LocationType, Prisma } from '@prisma/client';
 import { 
   CreateItemInput, 
   UpdateItemInput, 
@@ -7,7 +7,42 @@ import {
   ReturnItemInput,
   PaginationMeta,
   createPaginationMeta,
+  validateCustomFieldValues,
 } from '@/lib/validation';
+import { getApplicableCustomFields } from '@/lib/utils/custom-fields';
+import { getCategoryLineage, getCategorySubtreeIds } from '@/lib/utils/categories';
+import {
+  activityLogService,
+  buildActivityDiff,
+  ITEM_ACTIVITY_FIELDS,
+} from './activity';
+import { tagService } from './tags';
+import type { ActivityDiff } from '@/lib/types/activity';
+import type { CustomFieldScope } from '@/lib/types/custom-fields';
+
+/**
+ * Loan with the borrower and lender display details
+ */
+type ItemLoanWithUsers = ItemLoan & {
+  borrowerUser: { id: string; name: string | null; email: string } | null;
+  lender: { id: string; name: string | null; email: string } | null;
+};
+
+/**
+ * Open loan past its due date, with the item it is for
+ */
+type OverdueLoan = ItemLoan & {
+  item: { id: string; name: string; location: { name: string; path: string } };
+};
+
+/**
+ * User fields selected for loan parties
+ */
+const LOAN_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
 
 /**
  * ItemsService - Business logic for inventory item management
@@ -30,17 +65,28 @@ export class ItemsService {
     return await this.prisma.$transaction(async (tx) => {
       // 1. Validate location exists and user has access
       const location = await this.validateLocationAccess(tx, householdId, data.locationId);
+      const categoryIds = data.categoryId
+        ? await this.resolveCategoryLineage(tx, householdId, data.categoryId)
+        : [];
+      const { tagIds = [], ...itemData } = data;
+      
+      // 2. Check custom field values against the fields that apply to the item
+      const metadata = await this.validateCustomFields(tx, householdId, data.metadata ?? {}, {
+        tagIds,
+        locationType: location.locationType,
+        categoryIds,
+      });
       
-      // 2. Generate search vector for full-text search
+      // 3. Generate search vector for full-text search
       const searchVector = this.generateSearchVector(data.name, data.description);
       
-      // 3. Create the item
+      // 4. Create the item and attach its tags
       const item = await tx.item.create({
         data: {
-          ...data,
+          ...itemData,
           householdId,
           createdBy: userId,
-          metadata: data.metadata ? JSON.parse(JSON.stringify(data.metadata)) : {},
+          metadata: JSON.parse(JSON.stringify(metadata)),
           // Note: searchVector would be handled by PostgreSQL triggers in production
         },
         include: {
@@ -52,14 +98,18 @@ export class ItemsService {
           }
         }
       });
+      await tagService.setItemTags(tx, householdId, item.id, tagIds);
       
-      // 4. Update location statistics
+      // 5. Update location statistics
       await this.updateLocationStats(tx, data.locationId);
       
-      // 5. Log activity for audit trail
-      await this.logItemActivity(tx, item.id, userId, 'CREATED', {
-        itemName: item.name,
-        locationPath: location.path,
+      // 6. Log activity for audit trail
+      await this.logItemActivity(tx, householdId, item.id, userId, ActivityAction.CREATED, {
+        diff: buildActivityDiff(null, item, ITEM_ACTIVITY_FIELDS),
+        metadata: {
+          itemName: item.name,
+          locationPath: location.path,
+        },
       });
       
       return item;
@@ -86,16 +136,39 @@ export class ItemsService {
       const existingItem = await this.validateItemAccess(tx, itemId, householdId);
       
       // 2. If location is being changed, validate new location
-      if (data.locationId && data.locationId !== existingItem.locationId) {
-        await this.validateLocationAccess(tx, householdId, data.locationId);
+      const isMove = Boolean(data.locationId && data.locationId !== existingItem.locationId);
+      const location = isMove
+        ? await this.validateLocationAccess(tx, householdId, data.locationId!)
+        : undefined;
+      
+      // 3. Validate the new category, if any
+      const categoryId = data.categoryId !== undefined ? data.categoryId : existingItem.categoryId;
+      const categoryIds = categoryId
+        ? await this.resolveCategoryLineage(tx, householdId, categoryId)
+        : [];
+      
+      // 4. Check custom field values when the metadata is replaced
+      const { tagIds, ...itemData } = data;
+      let metadata: Record<string, unknown> | undefined;
+      if (data.metadata) {
+        const [itemTags, itemLocation] = await Promise.all([
+          tagIds ?? tx.itemTag.findMany({ where: { itemId }, select: { tagId: true } })
+            .then(links => links.map(link => link.tagId)),
+          location ?? tx.location.findUnique({ where: { id: existingItem.locationId }, select: { locationType: true } }),
+        ]);
+        metadata = await this.validateCustomFields(tx, householdId, data.metadata, {
+          tagIds: itemTags,
+          locationType: itemLocation?.locationType,
+          categoryIds,
+        });
       }
       
-      // 3. Update the item
+      // 5. Update the item and, when given, replace its tags
       const updatedItem = await tx.item.update({
         where: { id: itemId },
         data: {
-          ...data,
-          metadata: data.metadata ? JSON.parse(JSON.stringify(data.metadata)) : undefined,
+          ...itemData,
+          metadata: metadata ? JSON.parse(JSON.stringify(metadata)) : undefined,
           updatedAt: new Date(),
         },
         include: {
@@ -107,16 +180,31 @@ export class ItemsService {
           },
         },
       });
+      if (tagIds) {
+        await tagService.setItemTags(tx, householdId, itemId, tagIds);
+      }
       
-      // 4. Update location statistics if location changed
-      if (data.locationId && data.locationId !== existingItem.locationId) {
-        await this.updateLocationStats(tx, existingItem.locationId); // Old location
-        await this.updateLocationStats(tx, data.locationId); // New location
+      // 6. Update location statistics if location changed
+      let fromPath: string | undefined;
+      if (isMove) {
+        const oldLocation = await this.updateLocationStats(tx, existingItem.locationId); // Old location
+        await this.updateLocationStats(tx, data.locationId!); // New location
+        fromPath = oldLocation.path;
       }
       
-      // 5. Log activity
-      await this.logItemActivity(tx, itemId, userId, 'UPDATED', {
-        changes: data,
+      // 7. Log activity (moves and status changes get their own action so they stand out in history)
+      const diff = buildActivityDiff(existingItem, updatedItem, ITEM_ACTIVITY_FIELDS);
+      const action = isMove
+        ? ActivityAction.MOVED
+        : diff.status
+        ? ActivityAction.STATUS_CHANGED
+        : ActivityAction.UPDATED;
+      await this.logItemActivity(tx, householdId, itemId, userId, action, {
+        diff,
+        metadata: {
+          itemName: updatedItem.name,
+          ...(isMove && { fromPath, toPath: updatedItem.location.path }),
+        },
       });
       
       return updatedItem;
@@ -142,7 +230,7 @@ export class ItemsService {
       }
       
       // 3. Soft delete by updating status
-      await tx.item.update({
+      const deletedItem = await tx.item.update({
         where: { id: itemId },
         data: {
           status: ItemStatus.SOLD,
@@ -154,7 +242,10 @@ export class ItemsService {
       await this.updateLocationStats(tx, existingItem.locationId);
       
       // 5. Log activity
-      await this.logItemActivity(tx, itemId, userId, 'DELETED');
+      await this.logItemActivity(tx, householdId, itemId, userId, ActivityAction.DELETED, {
+        diff: buildActivityDiff(existingItem, deletedItem, ITEM_ACTIVITY_FIELDS),
+        metadata: { itemName: existingItem.name },
+      });
     });
   }
 
@@ -166,11 +257,12 @@ export class ItemsService {
    * @returns Promise resolving to the item with related data
    */
   async getItemById(itemId: string, householdId: string): Promise<Item & {
-    location: { name: string; path: string };
+    location: { name: string; path: string; locationType: LocationType };
+    category: { id: string; name: string; path: string } | null;
     creator: { name: string | null; email: string };
     borrower: { name: string | null; email: string } | null;
     photos: Array<{ id: string; thumbnailUrl: string; isPrimary: boolean }>;
-    tags: Array<{ tag: { name: string; color: string } }>;
+    tags: Array<{ tag: { id: string; name: string; color: string } }>;
   } | null> {
     const item = await this.prisma.item.findFirst({
       where: {
@@ -183,6 +275,14 @@ export class ItemsService {
           select: {
             name: true,
             path: true,
+            locationType: true,
+          },
+        },
+        category: {
+          select: {
+            id: true,
+            name: true,
+            path: true,
           },
         },
         creator: {
@@ -212,6 +312,7 @@ export class ItemsService {
           include: {
             tag: {
               select: {
+                id: true,
                 name: true,
                 color: true,
               },
@@ -244,23 +345,35 @@ export class ItemsService {
     const {
       query,
       locationId,
+      categoryId,
       status,
       tags,
       minValue,
       maxValue,
+      barcode,
       page,
       limit,
       sortBy,
       sortOrder,
     } = searchParams;
 
+    // A category filter also matches its subcategories
+    const categoryIds = categoryId
+      ? getCategorySubtreeIds(
+          await this.prisma.category.findMany({ where: { householdId }, select: { id: true, parentId: true } }),
+          categoryId
+        )
+      : undefined;
+
     // Build the where clause
     const whereClause: Prisma.ItemWhereInput = {
       householdId,
       status: status || { not: ItemStatus.SOLD }, // Exclude deleted items by default
       ...(locationId && { locationId }),
+      ...(categoryIds && { categoryId: { in: categoryIds } }),
       ...(minValue && { currentValue: { gte: minValue } }),
       ...(maxValue && { currentValue: { lte: maxValue } }),
+      ...(barcode && { metadata: { path: ['barcode'], equals: barcode } }),
       ...(query && {
         OR: [
           { name: { contains: query, mode: 'insensitive' } },
@@ -318,7 +431,9 @@ export class ItemsService {
   }
 
   /**
-   * Borrow an item (mark as borrowed by a user)
+   * Borrow an item (lend it to a household member or an outside contact)
+   * 
+   * Opens a loan record so lending history is kept after the item is returned.
    * 
    * @param userId - ID of the user performing the action
    * @param itemId - ID of the item to borrow
@@ -340,22 +455,46 @@ export class ItemsService {
         throw new Error(`Item is not available for borrowing. Current status: ${item.status}`);
       }
       
-      // 2. Update item as borrowed
+      // 2. Resolve the borrower (household member or free-text contact)
+      const borrower = await this.resolveBorrower(tx, householdId, borrowData);
+      
+      // 3. Update item as borrowed
+      const borrowedAt = new Date();
       const borrowedItem = await tx.item.update({
         where: { id: itemId },
         data: {
           status: ItemStatus.BORROWED,
-          borrowedBy: borrowData.borrowerId,
-          borrowedAt: new Date(),
+          borrowedBy: borrower.userId,
+          borrowedAt,
           borrowedUntil: borrowData.borrowedUntil,
           updatedAt: new Date(),
         },
       });
       
-      // 3. Log activity
-      await this.logItemActivity(tx, itemId, userId, 'BORROWED', {
-        borrowerId: borrowData.borrowerId,
-        borrowedUntil: borrowData.borrowedUntil,
+      // 4. Open a loan record for the lending history
+      const loan = await tx.itemLoan.create({
+        data: {
+          householdId,
+          itemId,
+          borrowerUserId: borrower.userId,
+          borrowerName: borrower.name,
+          borrowerContact: borrowData.borrowerContact,
+          lentBy: userId,
+          lentAt: borrowedAt,
+          dueAt: borrowData.borrowedUntil,
+          notes: borrowData.notes,
+        },
+      });
+      
+      // 5. Log activity
+      await this.logItemActivity(tx, householdId, itemId, userId, ActivityAction.BORROWED, {
+        diff: buildActivityDiff(item, borrowedItem, ITEM_ACTIVITY_FIELDS),
+        metadata: {
+          itemName: item.name,
+          loanId: loan.id,
+          borrowerName: borrower.name,
+          ...(borrower.userId && { borrowerId: borrower.userId }),
+        },
       });
       
       return borrowedItem;
@@ -403,17 +542,127 @@ export class ItemsService {
         },
       });
       
-      // 4. Log activity
-      await this.logItemActivity(tx, itemId, userId, 'RETURNED', {
-        condition: returnData?.condition,
-        notes: returnData?.notes,
-        newStatus,
+      // 4. Close the open loan (items lent before loan records existed have none)
+      await tx.itemLoan.updateMany({
+        where: { itemId, returnedAt: null },
+        data: {
+          returnedAt: new Date(),
+          returnCondition: returnData?.condition,
+          returnNotes: returnData?.notes,
+        },
+      });
+      
+      // 5. Log activity
+      await this.logItemActivity(tx, householdId, itemId, userId, ActivityAction.RETURNED, {
+        diff: buildActivityDiff(item, returnedItem, ITEM_ACTIVITY_FIELDS),
+        metadata: {
+          itemName: item.name,
+          condition: returnData?.condition,
+          notes: returnData?.notes,
+        },
       });
       
       return returnedItem;
     });
   }
 
+  /**
+   * Get the lending history of an item, newest first
+   * 
+   * @param itemId - ID of the item
+   * @param householdId - ID of the household (for access control)
+   * @returns Promise resolving to all loans of the item, including the open one
+   */
+  async getItemLoans(itemId: string, householdId: string): Promise<ItemLoanWithUsers[]> {
+    await this.validateItemAccess(this.prisma, itemId, householdId);
+    
+    return await this.prisma.itemLoan.findMany({
+      where: { itemId, householdId },
+      include: {
+        borrowerUser: { select: LOAN_USER_SELECT },
+        lender: { select: LOAN_USER_SELECT },
+      },
+      orderBy: { lentAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get open loans that are past their due date, most overdue first
+   * 
+   * Items lent before loan records existed have no open loan, so borrowed
+   * items past `borrowedUntil` without one are included as loans built from
+   * the item's own borrow fields.
+   * 
+   * @param householdId - ID of the household
+   * @param asOf - Point in time to compare due dates against
+   * @returns Promise resolving to overdue loans with their items
+   */
+  async getOverdueLoans(householdId: string, asOf: Date = new Date()): Promise<OverdueLoan[]> {
+    const itemSelect = {
+      id: true,
+      name: true,
+      location: {
+        select: {
+          name: true,
+          path: true,
+        },
+      },
+    } satisfies Prisma.ItemSelect;
+
+    const [loans, untrackedItems] = await Promise.all([
+      this.prisma.itemLoan.findMany({
+        where: {
+          householdId,
+          returnedAt: null,
+          dueAt: { lt: asOf },
+        },
+        include: {
+          item: { select: itemSelect },
+        },
+        orderBy: { dueAt: 'asc' },
+      }),
+      this.prisma.item.findMany({
+        where: {
+          householdId,
+          status: ItemStatus.BORROWED,
+          borrowedUntil: { lt: asOf },
+          loans: { none: { returnedAt: null } },
+        },
+        select: {
+          ...itemSelect,
+          borrowedBy: true,
+          borrowedAt: true,
+          borrowedUntil: true,
+          updatedAt: true,
+          borrower: { select: { name: true, email: true } },
+        },
+      }),
+    ]);
+
+    const untrackedLoans: OverdueLoan[] = untrackedItems.map(item => ({
+      // No loan record to take an ID from; the item ID keeps entries unique
+      id: item.id,
+      householdId,
+      itemId: item.id,
+      borrowerUserId: item.borrowedBy,
+      borrowerName: item.borrower?.name || item.borrower?.email || 'Unknown borrower',
+      borrowerContact: null,
+      lentBy: null,
+      lentAt: item.borrowedAt ?? item.updatedAt,
+      dueAt: item.borrowedUntil,
+      notes: null,
+      returnedAt: null,
+      returnCondition: null,
+      returnNotes: null,
+      createdAt: item.borrowedAt ?? item.updatedAt,
+      updatedAt: item.updatedAt,
+      item: { id: item.id, name: item.name, location: item.location },
+    }));
+
+    return [...loans, ...untrackedLoans]
+      .sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime());
+  }
+
   // Private helper methods
 
   /**
@@ -438,6 +687,47 @@ export class ItemsService {
     return location;
   }
 
+  /**
+   * Validate that a category belongs to the household
+   *
+   * @returns IDs of the category and its ancestors, for custom field scoping
+   */
+  private async resolveCategoryLineage(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    categoryId: string
+  ): Promise<string[]> {
+    const categories = await tx.category.findMany({
+      where: { householdId },
+      select: { id: true, parentId: true },
+    });
+    
+    const lineage = getCategoryLineage(categories, categoryId);
+    if (lineage.length === 0) {
+      throw new Error('Category not found or access denied');
+    }
+    
+    return lineage;
+  }
+
+  /**
+   * Check metadata against the household's custom fields that apply to the item
+   *
+   * @returns Metadata with normalized values and blank values removed
+   * @throws {ZodError} With issues under `metadata.<key>` for invalid values
+   */
+  private async validateCustomFields(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    metadata: Record<string, unknown>,
+    scope: CustomFieldScope
+  ): Promise<Record<string, unknown>> {
+    const fields = await tx.customField.findMany({ where: { householdId } });
+    if (fields.length === 0) return metadata;
+
+    return validateCustomFieldValues(getApplicableCustomFields(fields, scope), metadata);
+  }
+
   /**
    * Validate that an item exists and belongs to the household
    */
@@ -460,8 +750,44 @@ export class ItemsService {
     return item;
   }
 
+  /**
+   * Resolve who an item is lent to
+   * Household members must belong to this household; contacts are stored by name
+   */
+  private async resolveBorrower(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    borrowData: BorrowItemInput
+  ): Promise<{ userId: string | null; name: string }> {
+    if (!borrowData.borrowerId) {
+      return { userId: null, name: borrowData.borrowerName! };
+    }
+    
+    const member = await tx.householdMember.findFirst({
+      where: {
+        householdId,
+        userId: borrowData.borrowerId,
+      },
+      include: {
+        user: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+    
+    if (!member) {
+      throw new Error('Borrower not found or access denied');
+    }
+    
+    return { userId: member.userId, name: member.user.name || member.user.email };
+  }
+
   /**
    * Update location statistics (item count and total value)
+   * Returns the updated location
    */
   private async updateLocationStats(
     tx: Prisma.TransactionClient,
@@ -476,7 +802,7 @@ export class ItemsService {
       _sum: { currentValue: true },
     });
     
-    await tx.location.update({
+    return await tx.location.update({
       where: { id: locationId },
       data: {
         itemCount: stats._count.id || 0,
@@ -496,22 +822,23 @@ export class ItemsService {
 
   /**
    * Log item activity for audit trail
-   * Note: This would integrate with a proper audit logging system in production
+   * Written in the same transaction so the entry commits with the change
    */
   private async logItemActivity(
     tx: Prisma.TransactionClient,
+    householdId: string,
     itemId: string,
     userId: string,
-    action: string,
-    metadata?: Record<string, any>
+    action: ActivityAction,
+    details: { diff?: ActivityDiff; metadata?: Record<string, unknown> } = {}
   ) {
-    // In a real implementation, this would write to an audit log table
-    console.log('Item Activity:', {
-      itemId,
+    await activityLogService.recordActivity(tx, {
+      householdId,
       userId,
+      entityType: ActivityEntityType.ITEM,
+      entityId: itemId,
       action,
-      metadata,
-      timestamp: new Date().toISOString(),
+      ...details,
     });
   }
 }
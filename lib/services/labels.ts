@@ -0,0 +1,396 @@
+/**
+ * LabelService - Printable QR/barcode label sheets for items and locations
+ *
+ * Sits beside the export pipeline and renders Avery-compatible PDF label sheets.
+ * Each label carries the item or location name, its location path and a short
+ * code. The QR code encodes the /t/[code] tag resolver URL, so printed labels
+ * work exactly like NFC tags on phones without NFC.
+ *
+ * @category Business Logic Services
+ */
+
+import { PrismaClient, Prisma, ItemStatus } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import bwipjs from 'bwip-js';
+import {
+  type LabelCodeType,
+  type LabelData,
+  type LabelLayout,
+  type LabelLayoutId,
+  type LabelSheetResult
+} from '@/lib/types/labels';
+import type { ExportError } from '@/lib/types/exports';
+import { ExportErrorCodes } from '@/lib/services/exports';
+import { nfcTagService } from '@/lib/services/nfc-tags';
+import { buildTagResolverUrl } from '@/lib/utils/url-state';
+import {
+  validateCreateLabelSheetRequest,
+  type CreateLabelSheetRequestInput
+} from '@/lib/validation/labels';
+
+/** Points per inch / millimetre */
+const INCH = 72;
+const MM = 72 / 25.4;
+
+/**
+ * Maximum labels in a single sheet request
+ */
+const MAX_LABELS = 1000;
+
+/**
+ * Avery label sheet geometry
+ */
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+  'avery-5160': {
+    name: 'Avery 5160 (30 per sheet, 2⅝" × 1")',
+    pageSize: 'LETTER',
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625 * INCH,
+    labelHeight: 1 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.1875 * INCH,
+    horizontalPitch: 2.75 * INCH,
+    verticalPitch: 1 * INCH,
+  },
+  'avery-5163': {
+    name: 'Avery 5163 (10 per sheet, 4" × 2")',
+    pageSize: 'LETTER',
+    columns: 2,
+    rows: 5,
+    labelWidth: 4 * INCH,
+    labelHeight: 2 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.15625 * INCH,
+    horizontalPitch: 4.1875 * INCH,
+    verticalPitch: 2 * INCH,
+  },
+  'avery-22805': {
+    name: 'Avery 22805 (24 per sheet, 1½" square)',
+    pageSize: 'LETTER',
+    columns: 4,
+    rows: 6,
+    labelWidth: 1.5 * INCH,
+    labelHeight: 1.5 * INCH,
+    marginTop: 0.625 * INCH,
+    marginLeft: 0.625 * INCH,
+    horizontalPitch: 1.8125 * INCH,
+    verticalPitch: 1.6875 * INCH,
+  },
+  'avery-l7160': {
+    name: 'Avery L7160 (21 per sheet, 63.5 × 38.1 mm)',
+    pageSize: 'A4',
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5 * MM,
+    labelHeight: 38.1 * MM,
+    marginTop: 15.15 * MM,
+    marginLeft: 7.2 * MM,
+    horizontalPitch: 66 * MM,
+    verticalPitch: 38.1 * MM,
+  },
+  'avery-l7163': {
+    name: 'Avery L7163 (14 per sheet, 99.1 × 38.1 mm)',
+    pageSize: 'A4',
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1 * MM,
+    labelHeight: 38.1 * MM,
+    marginTop: 15.15 * MM,
+    marginLeft: 4.65 * MM,
+    horizontalPitch: 101.6 * MM,
+    verticalPitch: 38.1 * MM,
+  },
+};
+
+/**
+ * Format a tag UID as a human-readable short code ("A1B2C3D4" -> "A1B2-C3D4")
+ */
+export function formatShortCode(code: string): string {
+  return code.match(/.{1,4}/g)?.join('-') ?? code;
+}
+
+/**
+ * LabelService - Label sheet generation
+ */
+export class LabelService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Generate a PDF label sheet for selected items or a location subtree
+   *
+   * @param userId - ID of the user printing the labels
+   * @param householdId - ID of the household (for access control)
+   * @param request - Validated label sheet request
+   * @param origin - Absolute app origin encoded in the QR codes
+   * @returns Promise resolving to the rendered sheet
+   * @throws {ExportError} When nothing matches or too many labels are requested
+   */
+  async generateLabelSheet(
+    userId: string,
+    householdId: string,
+    request: CreateLabelSheetRequestInput,
+    origin: string
+  ): Promise<LabelSheetResult> {
+    const validatedRequest = validateCreateLabelSheetRequest(request);
+    const layout = LABEL_LAYOUTS[validatedRequest.layout];
+
+    // 1. Collect what needs a label
+    const targets = await this.collectTargets(householdId, validatedRequest);
+
+    if (targets.length === 0) {
+      throw this.createError('LABEL_TARGETS_NOT_FOUND', 'No items or locations found to label');
+    }
+
+    if (targets.length > MAX_LABELS) {
+      throw this.createError(
+        'DATASET_TOO_LARGE',
+        `Too many labels: ${targets.length} (max: ${MAX_LABELS})`,
+        { labelCount: targets.length }
+      );
+    }
+
+    // 2. Make sure every target has a code the resolver understands
+    const codes = await nfcTagService.ensureLabelCodes(
+      userId,
+      householdId,
+      targets.map((t) => (t.targetType === 'item' ? { itemId: t.targetId } : { locationId: t.targetId }))
+    );
+
+    const labels: LabelData[] = targets.map((target) => {
+      const code = codes.get(target.targetId)!;
+      return {
+        ...target,
+        code,
+        url: buildTagResolverUrl(code, origin),
+      };
+    });
+
+    // 3. Render the sheet
+    const buffer = await this.renderSheet(labels, layout, validatedRequest.codeType, validatedRequest.skipLabels);
+
+    const perPage = layout.columns * layout.rows;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+    return {
+      buffer,
+      filename: `inventory-labels-${timestamp}.pdf`,
+      labelCount: labels.length,
+      pageCount: Math.ceil((labels.length + validatedRequest.skipLabels) / perPage),
+    };
+  }
+
+  /**
+   * Collect label targets in print order
+   *
+   * Location mode prints each location label followed by the items in it,
+   * walking the subtree in path order so sheets match the physical layout.
+   */
+  private async collectTargets(
+    householdId: string,
+    request: CreateLabelSheetRequestInput
+  ): Promise<Omit<LabelData, 'code' | 'url'>[]> {
+    const activeItemFilter: Prisma.ItemWhereInput = {
+      householdId,
+      status: { notIn: [ItemStatus.SOLD, ItemStatus.LOST] },
+    };
+
+    // Selected items
+    if (request.itemIds) {
+      const items = await this.prisma.item.findMany({
+        where: { ...activeItemFilter, id: { in: request.itemIds } },
+        select: { id: true, name: true, location: { select: { path: true } } },
+        orderBy: { name: 'asc' },
+      });
+
+      return items.map((item) => ({
+        targetType: 'item' as const,
+        targetId: item.id,
+        name: item.name,
+        locationPath: item.location.path,
+      }));
+    }
+
+    // Location subtree
+    const root = await this.prisma.location.findFirst({
+      where: { id: request.locationId, householdId },
+      select: { id: true, path: true },
+    });
+
+    if (!root) {
+      throw this.createError('LABEL_TARGETS_NOT_FOUND', 'Location not found or access denied');
+    }
+
+    const locations = await this.prisma.location.findMany({
+      where: {
+        householdId,
+        OR: [
+          { id: root.id },
+          ...(request.includeSubtree ? [{ path: { startsWith: `${root.path} → ` } }] : []),
+        ],
+      },
+      select: { id: true, name: true, path: true },
+      orderBy: { path: 'asc' },
+    });
+
+    const items = await this.prisma.item.findMany({
+      where: { ...activeItemFilter, locationId: { in: locations.map((l) => l.id) } },
+      select: { id: true, name: true, locationId: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const targets: Omit<LabelData, 'code' | 'url'>[] = [];
+    for (const location of locations) {
+      if (request.includeLocationLabels) {
+        targets.push({
+          targetType: 'location',
+          targetId: location.id,
+          name: location.name,
+          locationPath: location.path,
+        });
+      }
+
+      for (const item of items) {
+        if (item.locationId === location.id) {
+          targets.push({
+            targetType: 'item',
+            targetId: item.id,
+            name: item.name,
+            locationPath: location.path,
+          });
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Render labels onto Avery sheets
+   */
+  private async renderSheet(
+    labels: LabelData[],
+    layout: LabelLayout,
+    codeType: LabelCodeType,
+    skipLabels: number
+  ): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: layout.pageSize,
+      margin: 0,
+      autoFirstPage: true,
+      info: { Title: 'Inventory labels', Creator: 'Digital Inventory Manager' },
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const perPage = layout.columns * layout.rows;
+
+    for (let i = 0; i < labels.length; i++) {
+      const slot = i + skipLabels;
+      if (slot > 0 && slot % perPage === 0) {
+        doc.addPage();
+      }
+
+      const position = slot % perPage;
+      const x = layout.marginLeft + (position % layout.columns) * layout.horizontalPitch;
+      const y = layout.marginTop + Math.floor(position / layout.columns) * layout.verticalPitch;
+
+      await this.renderLabel(doc, labels[i], x, y, layout, codeType);
+    }
+
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * Draw a single label: code on the left (QR) or top (Code128), text beside/below it
+   */
+  private async renderLabel(
+    doc: PDFKit.PDFDocument,
+    label: LabelData,
+    x: number,
+    y: number,
+    layout: LabelLayout,
+    codeType: LabelCodeType
+  ): Promise<void> {
+    const padding = Math.min(layout.labelWidth, layout.labelHeight) * 0.08;
+    const innerWidth = layout.labelWidth - padding * 2;
+    const innerHeight = layout.labelHeight - padding * 2;
+    const shortCode = formatShortCode(label.code);
+
+    const nameSize = Math.max(6, Math.min(12, layout.labelHeight / 6));
+    const detailSize = Math.max(5, nameSize * 0.7);
+
+    let textX = x + padding;
+    let textY = y + padding;
+    let textWidth = innerWidth;
+
+    // Square labels have no room beside the code - centre it with the short code below
+    if (layout.labelWidth < layout.labelHeight * 1.5) {
+      const codeSize = innerHeight - detailSize - padding / 2;
+      const codeX = x + (layout.labelWidth - codeSize) / 2;
+      const image = codeType === 'qr'
+        ? await QRCode.toBuffer(label.url, { errorCorrectionLevel: 'M', margin: 0, width: 300 })
+        : await bwipjs.toBuffer({ bcid: 'code128', text: label.code, scale: 3, height: 10 });
+      doc.image(image, codeX, y + padding, { fit: [codeSize, codeSize], align: 'center', valign: 'center' });
+
+      doc.font('Courier-Bold').fontSize(detailSize).fillColor('#000000')
+        .text(shortCode, x + padding, y + layout.labelHeight - padding - detailSize, {
+          width: innerWidth,
+          align: 'center',
+          lineBreak: false,
+        });
+      return;
+    }
+
+    if (codeType === 'qr') {
+      const qrSize = innerHeight;
+      const qr = await QRCode.toBuffer(label.url, { errorCorrectionLevel: 'M', margin: 0, width: 300 });
+      doc.image(qr, x + padding, y + padding, { width: qrSize, height: qrSize });
+
+      textX += qrSize + padding;
+      textWidth -= qrSize + padding;
+    } else {
+      // Code128 carries the short code itself; scanners read it and hit /t/[code]
+      const barcodeHeight = innerHeight * 0.45;
+      const barcode = await bwipjs.toBuffer({ bcid: 'code128', text: label.code, scale: 3, height: 10 });
+      doc.image(barcode, x + padding, y + padding, { fit: [innerWidth, barcodeHeight], align: 'center' });
+
+      textY += barcodeHeight + padding / 2;
+    }
+
+    doc.font('Helvetica-Bold').fontSize(nameSize).fillColor('#000000')
+      .text(label.name, textX, textY, { width: textWidth, height: nameSize * 2.4, ellipsis: true });
+
+    doc.font('Helvetica').fontSize(detailSize).fillColor('#444444')
+      .text(label.locationPath, { width: textWidth, height: detailSize * 2.4, ellipsis: true });
+
+    doc.font('Courier-Bold').fontSize(detailSize).fillColor('#000000')
+      .text(shortCode, textX, y + layout.labelHeight - padding - detailSize, { width: textWidth, lineBreak: false });
+  }
+
+  /**
+   * Create a standardized export error
+   */
+  private createError(
+    code: keyof typeof ExportErrorCodes,
+    message: string,
+    context?: Record<string, any>
+  ): ExportError {
+    const error = new Error(message) as ExportError;
+    error.code = code;
+    error.context = context;
+    return error;
+  }
+}
+
+/**
+ * Label service singleton instance
+ */
+export const labelService = new LabelService(new PrismaClient());
@@ -1,4 +1,4 @@
-import { PrismaClient, Location, LocationType, Prisma } from '@prisma/client';
+import { PrismaClient, Location, LocationType, ActivityAction, ActivityEntityType, Prisma } from '@prisma/client';
 import { 
   CreateLocationInput, 
   UpdateLocationInput, 
@@ -7,6 +7,12 @@ import {
   PaginationMeta,
   createPaginationMeta,
 } from '@/lib/validation';
+import {
+  activityLogService,
+  buildActivityDiff,
+  LOCATION_ACTIVITY_FIELDS,
+} from './activity';
+import type { ActivityDiff } from '@/lib/types/activity';
 
 /**
  * LocationsService - Business logic for location hierarchy management
@@ -76,10 +82,9 @@ export class LocationsService {
       });
       
       // Log activity for audit trail
-      await this.logLocationActivity(tx, location.id, userId, 'CREATED', {
-        locationName: location.name,
-        path: location.path,
-        locationType: location.locationType,
+      await this.logLocationActivity(tx, householdId, location.id, userId, ActivityAction.CREATED, {
+        diff: buildActivityDiff(null, location, LOCATION_ACTIVITY_FIELDS),
+        metadata: { locationName: location.name },
       });
       
       return location;
@@ -127,9 +132,13 @@ export class LocationsService {
         await this.updateLocationPaths(tx, locationId);
       }
       
-      // Log activity
-      await this.logLocationActivity(tx, locationId, userId, 'UPDATED', {
-        changes: data,
+      // Log activity against the final state (paths may have been recomputed)
+      const finalLocation = needsPathUpdate
+        ? await tx.location.findUniqueOrThrow({ where: { id: locationId } })
+        : updatedLocation;
+      await this.logLocationActivity(tx, householdId, locationId, userId, ActivityAction.UPDATED, {
+        diff: buildActivityDiff(existingLocation, finalLocation, LOCATION_ACTIVITY_FIELDS),
+        metadata: { locationName: finalLocation.name },
       });
       
       return updatedLocation;
@@ -176,9 +185,9 @@ export class LocationsService {
       });
       
       // Log activity
-      await this.logLocationActivity(tx, locationId, userId, 'DELETED', {
-        locationName: location.name,
-        path: location.path,
+      await this.logLocationActivity(tx, householdId, locationId, userId, ActivityAction.DELETED, {
+        diff: buildActivityDiff(location, null, LOCATION_ACTIVITY_FIELDS),
+        metadata: { locationName: location.name },
       });
     });
   }
@@ -219,9 +228,16 @@ export class LocationsService {
       await this.updateLocationPaths(tx, locationId);
       
       // Log activity
-      await this.logLocationActivity(tx, locationId, userId, 'MOVED', {
-        oldPath: existingLocation.path,
-        newParentId: moveData.newParentId,
+      const movedLocation = await tx.location.findUniqueOrThrow({
+        where: { id: locationId },
+      });
+      await this.logLocationActivity(tx, householdId, locationId, userId, ActivityAction.MOVED, {
+        diff: buildActivityDiff(existingLocation, movedLocation, LOCATION_ACTIVITY_FIELDS),
+        metadata: {
+          locationName: movedLocation.name,
+          fromPath: existingLocation.path,
+          toPath: movedLocation.path,
+        },
       });
       
       return updatedLocation;
@@ -554,21 +570,23 @@ export class LocationsService {
 
   /**
    * Log location activity for audit trail
+   * Written in the same transaction so the entry commits with the change
    */
   private async logLocationActivity(
     tx: Prisma.TransactionClient,
+    householdId: string,
     locationId: string,
     userId: string,
-    action: string,
-    metadata?: Record<string, any>
+    action: ActivityAction,
+    details: { diff?: ActivityDiff; metadata?: Record<string, unknown> } = {}
   ) {
-    // In a real implementation, this would write to an audit log table
-    console.log('Location Activity:', {
-      locationId,
+    await activityLogService.recordActivity(tx, {
+      householdId,
       userId,
+      entityType: ActivityEntityType.LOCATION,
+      entityId: locationId,
       action,
-      metadata,
-      timestamp: new Date().toISOString(),
+      ...details,
     });
   }
 }
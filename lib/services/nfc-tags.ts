@@ -0,0 +1,487 @@
+import {
+  PrismaClient,
+  NfcTag,
+  NfcTagStatus,
+  ItemStatus,
+  ActivityAction,
+  ActivityEntityType,
+  Prisma,
+} from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { activityLogService, buildActivityDiff, NFC_TAG_ACTIVITY_FIELDS } from './activity';
+import {
+  RegisterNfcTagInput,
+  BindNfcTagInput,
+  SearchNfcTagsInput,
+  normalizeNfcTagUid,
+} from '@/lib/validation';
+
+/**
+ * Bound target details returned with a tag
+ */
+type NfcTagWithTarget = NfcTag & {
+  item: { id: string; name: string; locationId: string } | null;
+  location: { id: string; name: string; path: string } | null;
+};
+
+/**
+ * Include clause shared by all tag reads
+ */
+const TAG_TARGET_INCLUDE = {
+  item: {
+    select: {
+      id: true,
+      name: true,
+      locationId: true,
+    },
+  },
+  location: {
+    select: {
+      id: true,
+      name: true,
+      path: true,
+    },
+  },
+} satisfies Prisma.NfcTagInclude;
+
+/**
+ * NfcTagService - Business logic for the NFC tag registry
+ *
+ * This service handles registering physical NFC tags, binding them to items
+ * or locations, and resolving scanned UIDs. Every lookup is scoped to a single
+ * household, so a tag registered elsewhere resolves to nothing.
+ */
+export class NfcTagService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Register a tag in the household, optionally binding it straight away
+   *
+   * A previously retired tag with the same UID is reactivated instead of duplicated.
+   *
+   * @param userId - ID of the user registering the tag
+   * @param householdId - ID of the household the tag belongs to
+   * @param data - Validated tag registration data
+   * @returns Promise resolving to the registered tag with its bound target
+   */
+  async registerTag(
+    userId: string,
+    householdId: string,
+    data: RegisterNfcTagInput
+  ): Promise<NfcTagWithTarget> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Reject duplicates within the household
+      const existingTag = await tx.nfcTag.findUnique({
+        where: {
+          householdId_uid: { householdId, uid: data.uid },
+        },
+      });
+
+      if (existingTag && existingTag.status === NfcTagStatus.ACTIVE) {
+        throw new Error('Tag is already registered in this household');
+      }
+
+      // 2. Validate the binding target if one was given
+      await this.validateTargetAccess(tx, householdId, data.itemId, data.locationId);
+
+      // 3. Create the tag, or bring a retired one back into service
+      const tag = existingTag
+        ? await tx.nfcTag.update({
+            where: { id: existingTag.id },
+            data: {
+              label: data.label ?? existingTag.label,
+              itemId: data.itemId ?? null,
+              locationId: data.locationId ?? null,
+              status: NfcTagStatus.ACTIVE,
+              retiredAt: null,
+              registeredBy: userId,
+            },
+            include: TAG_TARGET_INCLUDE,
+          })
+        : await tx.nfcTag.create({
+            data: {
+              householdId,
+              uid: data.uid,
+              label: data.label,
+              itemId: data.itemId,
+              locationId: data.locationId,
+              registeredBy: userId,
+            },
+            include: TAG_TARGET_INCLUDE,
+          });
+
+      // 4. Record activity; a reactivated tag changes status rather than appearing
+      await this.recordTagActivity(
+        tx,
+        householdId,
+        userId,
+        tag,
+        existingTag ? ActivityAction.STATUS_CHANGED : ActivityAction.CREATED,
+        existingTag
+      );
+
+      return tag;
+    });
+  }
+
+  /**
+   * Bind, rebind or unbind a tag
+   *
+   * Binding to an item clears any location binding and vice versa.
+   * Passing null for both targets leaves the tag registered but unbound.
+   *
+   * @param userId - ID of the user binding the tag
+   * @param tagId - ID of the tag to bind
+   * @param householdId - ID of the household (for access control)
+   * @param data - Validated binding data
+   * @returns Promise resolving to the updated tag with its bound target
+   */
+  async bindTag(
+    userId: string,
+    tagId: string,
+    householdId: string,
+    data: BindNfcTagInput
+  ): Promise<NfcTagWithTarget> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Validate tag exists, belongs to the household and is in service
+      const existingTag = await this.validateTagAccess(tx, tagId, householdId);
+
+      if (existingTag.status === NfcTagStatus.RETIRED) {
+        throw new Error('Cannot bind a retired tag. Please register it again first.');
+      }
+
+      // 2. Validate the new target
+      await this.validateTargetAccess(tx, householdId, data.itemId, data.locationId);
+
+      // 3. Work out the new binding (only touch targets that were sent)
+      const targetChanged = data.itemId !== undefined || data.locationId !== undefined;
+      const bindingData = targetChanged
+        ? {
+            itemId: data.itemId ?? null,
+            locationId: data.locationId ?? null,
+          }
+        : {};
+
+      const updatedTag = await tx.nfcTag.update({
+        where: { id: tagId },
+        data: {
+          ...bindingData,
+          ...(data.label !== undefined && { label: data.label }),
+        },
+        include: TAG_TARGET_INCLUDE,
+      });
+
+      // 4. Record activity
+      await this.recordTagActivity(tx, householdId, userId, updatedTag, ActivityAction.UPDATED, existingTag);
+
+      return updatedTag;
+    });
+  }
+
+  /**
+   * Retire a tag so it no longer resolves (lost, damaged or reused elsewhere)
+   *
+   * @param userId - ID of the user retiring the tag
+   * @param tagId - ID of the tag to retire
+   * @param householdId - ID of the household (for access control)
+   * @returns Promise resolving to the retired tag
+   */
+  async retireTag(userId: string, tagId: string, householdId: string): Promise<NfcTag> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Validate tag exists and user has access
+      const existingTag = await this.validateTagAccess(tx, tagId, householdId);
+
+      if (existingTag.status === NfcTagStatus.RETIRED) {
+        throw new Error('Tag is already retired');
+      }
+
+      // 2. Retire and drop the binding
+      const retiredTag = await tx.nfcTag.update({
+        where: { id: tagId },
+        data: {
+          status: NfcTagStatus.RETIRED,
+          retiredAt: new Date(),
+          itemId: null,
+          locationId: null,
+        },
+      });
+
+      // 3. Record activity
+      await this.recordTagActivity(tx, householdId, userId, retiredTag, ActivityAction.STATUS_CHANGED, existingTag);
+
+      return retiredTag;
+    });
+  }
+
+  /**
+   * Get a single tag by ID
+   *
+   * @param tagId - ID of the tag to retrieve
+   * @param householdId - ID of the household (for access control)
+   * @returns Promise resolving to the tag with its bound target, or null
+   */
+  async getTagById(tagId: string, householdId: string): Promise<NfcTagWithTarget | null> {
+    return await this.prisma.nfcTag.findFirst({
+      where: {
+        id: tagId,
+        householdId,
+      },
+      include: TAG_TARGET_INCLUDE,
+    });
+  }
+
+  /**
+   * List tags in a household
+   *
+   * @param householdId - ID of the household to list
+   * @param searchParams - Validated filter parameters
+   * @returns Promise resolving to matching tags, most recently scanned first
+   */
+  async listTags(householdId: string, searchParams: SearchNfcTagsInput): Promise<NfcTagWithTarget[]> {
+    const { uid, status, itemId, locationId, unbound } = searchParams;
+
+    const whereClause: Prisma.NfcTagWhereInput = {
+      householdId,
+      ...(uid && { uid }),
+      ...(status && { status }),
+      ...(itemId && { itemId }),
+      ...(locationId && { locationId }),
+      ...(unbound && { itemId: null, locationId: null }),
+    };
+
+    return await this.prisma.nfcTag.findMany({
+      where: whereClause,
+      include: TAG_TARGET_INCLUDE,
+      orderBy: [
+        { lastScannedAt: { sort: 'desc', nulls: 'last' } },
+        { createdAt: 'desc' },
+      ],
+    });
+  }
+
+  /**
+   * Resolve a scanned UID to its bound target within the household
+   *
+   * Retired tags and tags registered in other households resolve to null.
+   *
+   * @param householdId - ID of the household the scan happened in
+   * @param uid - Raw tag UID as read from the tag
+   * @returns Promise resolving to the active tag with its target, or null
+   */
+  async resolveTag(householdId: string, uid: string): Promise<NfcTagWithTarget | null> {
+    let normalizedUid: string;
+    try {
+      normalizedUid = normalizeNfcTagUid(uid);
+    } catch {
+      return null;
+    }
+
+    return await this.prisma.nfcTag.findFirst({
+      where: {
+        householdId,
+        uid: normalizedUid,
+        status: NfcTagStatus.ACTIVE,
+      },
+      include: TAG_TARGET_INCLUDE,
+    });
+  }
+
+  /**
+   * Resolve a scanned UID and record the scan
+   *
+   * Stamps the tag's lastScannedAt and touches lastAccessed on the location the
+   * scan points at (the bound location, or the bound item's location).
+   *
+   * @param householdId - ID of the household the scan happened in
+   * @param uid - Raw tag UID as read from the tag
+   * @returns Promise resolving to the active tag with its target, or null if unknown
+   */
+  async recordScan(householdId: string, uid: string): Promise<NfcTagWithTarget | null> {
+    const tag = await this.resolveTag(householdId, uid);
+
+    if (!tag) {
+      return null;
+    }
+
+    return await this.prisma.$transaction(async (tx) => {
+      const scannedAt = new Date();
+
+      // 1. Update tag last-seen time
+      const scannedTag = await tx.nfcTag.update({
+        where: { id: tag.id },
+        data: { lastScannedAt: scannedAt },
+        include: TAG_TARGET_INCLUDE,
+      });
+
+      // 2. Feed location access stats
+      const locationId = tag.locationId ?? tag.item?.locationId;
+      if (locationId) {
+        await tx.location.update({
+          where: { id: locationId },
+          data: { lastAccessed: scannedAt },
+        });
+      }
+
+      return scannedTag;
+    });
+  }
+
+  /**
+   * Get a resolvable code for each target, registering printed-label codes as needed
+   *
+   * Targets that already have an active tag reuse its UID, so a reprinted label
+   * and an existing NFC tag open the same thing. Other targets get a random
+   * 4-byte code registered as a tag bound to them.
+   *
+   * @param userId - ID of the user printing the labels
+   * @param householdId - ID of the household the targets belong to
+   * @param targets - Items and locations to get codes for
+   * @returns Promise resolving to a map of target ID to tag UID
+   */
+  async ensureLabelCodes(
+    userId: string,
+    householdId: string,
+    targets: Array<{ itemId: string } | { locationId: string }>
+  ): Promise<Map<string, string>> {
+    const itemIds = targets.flatMap((t) => ('itemId' in t ? [t.itemId] : []));
+    const locationIds = targets.flatMap((t) => ('locationId' in t ? [t.locationId] : []));
+
+    return await this.prisma.$transaction(async (tx) => {
+      const codes = new Map<string, string>();
+
+      // 1. Reuse existing active tags (oldest first, so the code stays stable)
+      const existingTags = await tx.nfcTag.findMany({
+        where: {
+          householdId,
+          status: NfcTagStatus.ACTIVE,
+          OR: [
+            { itemId: { in: itemIds } },
+            { locationId: { in: locationIds } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (const tag of existingTags) {
+        const targetId = tag.itemId ?? tag.locationId;
+        if (targetId && !codes.has(targetId)) {
+          codes.set(targetId, tag.uid);
+        }
+      }
+
+      // 2. Register printed-label codes for everything else
+      for (const target of targets) {
+        const targetId = 'itemId' in target ? target.itemId : target.locationId;
+        if (codes.has(targetId)) continue;
+
+        const tag = await tx.nfcTag.create({
+          data: {
+            householdId,
+            uid: randomBytes(4).toString('hex').toUpperCase(),
+            label: 'Printed label',
+            ...target,
+            registeredBy: userId,
+          },
+        });
+        await this.recordTagActivity(tx, householdId, userId, tag, ActivityAction.CREATED, null);
+
+        codes.set(targetId, tag.uid);
+      }
+
+      return codes;
+    });
+  }
+
+  // Private helper methods
+
+  /**
+   * Validate that a tag exists and belongs to the household
+   */
+  private async validateTagAccess(
+    tx: Prisma.TransactionClient,
+    tagId: string,
+    householdId: string
+  ) {
+    const tag = await tx.nfcTag.findFirst({
+      where: {
+        id: tagId,
+        householdId,
+      },
+    });
+
+    if (!tag) {
+      throw new Error('Tag not found or access denied');
+    }
+
+    return tag;
+  }
+
+  /**
+   * Validate that the binding target exists in the household
+   */
+  private async validateTargetAccess(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    itemId?: string | null,
+    locationId?: string | null
+  ): Promise<void> {
+    if (itemId) {
+      const item = await tx.item.findFirst({
+        where: {
+          id: itemId,
+          householdId,
+          status: { not: ItemStatus.SOLD },
+        },
+        select: { id: true },
+      });
+
+      if (!item) {
+        throw new Error('Item not found or access denied');
+      }
+    }
+
+    if (locationId) {
+      const location = await tx.location.findFirst({
+        where: {
+          id: locationId,
+          householdId,
+        },
+        select: { id: true },
+      });
+
+      if (!location) {
+        throw new Error('Location not found or access denied');
+      }
+    }
+  }
+
+  /**
+   * Record a tag change in the household activity log
+   *
+   * The diff shows the binding moving between items and locations, so a
+   * rebound tag can be traced back to what it used to open.
+   */
+  private async recordTagActivity(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    userId: string,
+    tag: NfcTag,
+    action: ActivityAction,
+    before: NfcTag | null
+  ): Promise<void> {
+    await activityLogService.recordActivity(tx, {
+      householdId,
+      userId,
+      entityType: ActivityEntityType.NFC_TAG,
+      entityId: tag.id,
+      action,
+      diff: buildActivityDiff(before, tag, NFC_TAG_ACTIVITY_FIELDS),
+      metadata: { uid: tag.uid, label: tag.label },
+    });
+  }
+}
+
+/**
+ * Singleton instance of NfcTagService
+ */
+export const nfcTagService = new NfcTagService(new PrismaClient());
@@ -0,0 +1,326 @@
+import { PrismaClient, Prisma, type SavedSearch } from '@prisma/client';
+import { SearchService, searchService, type SearchQuery, type SearchResults } from './search';
+import { searchFiltersSchema } from '@/lib/validation/search';
+import {
+  hasSearchCriteria,
+  type CreateSavedSearchInput,
+  type UpdateSavedSearchInput,
+  type SavedSearchItemsQueryInput,
+} from '@/lib/validation/saved-searches';
+import type { SavedSearchEntry } from '@/lib/types/saved-searches';
+
+/**
+ * SavedSearchService - Business logic for saved searches ("smart collections")
+ *
+ * A saved search stores search text, filters and sort order, never item
+ * IDs: its items are found again by SearchService whenever the collection
+ * is opened or exported, so they follow edits to the inventory. Personal
+ * searches are visible to the member who saved them; household searches to
+ * every member. Only the member who saved a search can change or delete it.
+ */
+export class SavedSearchService {
+  constructor(
+    private prisma: PrismaClient,
+    private search: SearchService = searchService
+  ) {}
+
+  /**
+   * List the saved searches a member can see, by name
+   *
+   * @param householdId - ID of the household
+   * @param userId - ID of the member
+   * @returns Promise resolving to their own searches and the household's shared ones
+   */
+  async listSavedSearches(householdId: string, userId: string): Promise<SavedSearchEntry[]> {
+    const searches = await this.prisma.savedSearch.findMany({
+      where: this.visibleTo(householdId, userId),
+      orderBy: { name: 'asc' },
+    });
+
+    return searches.map(search => this.toEntry(search, userId));
+  }
+
+  /**
+   * Get a saved search
+   *
+   * @param savedSearchId - ID of the saved search
+   * @param householdId - ID of the household
+   * @param userId - ID of the member
+   * @returns Promise resolving to the saved search
+   */
+  async getSavedSearch(savedSearchId: string, householdId: string, userId: string): Promise<SavedSearchEntry> {
+    const search = await this.validateSavedSearchAccess(this.prisma, savedSearchId, householdId, userId);
+    return this.toEntry(search, userId);
+  }
+
+  /**
+   * Save a search
+   *
+   * @param householdId - ID of the household
+   * @param userId - ID of the member saving it
+   * @param data - Validated name, query, filters, sort order and visibility
+   * @returns Promise resolving to the saved search
+   */
+  async createSavedSearch(
+    householdId: string,
+    userId: string,
+    data: CreateSavedSearchInput
+  ): Promise<SavedSearchEntry> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Names are unique among the searches members will see side by side
+      await this.ensureNameAvailable(tx, householdId, userId, data.name, data.visibility);
+
+      // 2. Save the search
+      const search = await tx.savedSearch.create({
+        data: {
+          householdId,
+          userId,
+          name: data.name,
+          query: data.query,
+          filters: this.toJson(data.filters),
+          sortBy: data.sortBy,
+          sortOrder: data.sortOrder,
+          visibility: data.visibility,
+        },
+      });
+
+      return this.toEntry(search, userId);
+    });
+  }
+
+  /**
+   * Rename, share or change the criteria of a saved search
+   *
+   * @param savedSearchId - ID of the saved search
+   * @param householdId - ID of the household
+   * @param userId - ID of the member; must be the one who saved it
+   * @param data - Validated changes; filters replace the saved ones
+   * @returns Promise resolving to the updated saved search
+   */
+  async updateSavedSearch(
+    savedSearchId: string,
+    householdId: string,
+    userId: string,
+    data: UpdateSavedSearchInput
+  ): Promise<SavedSearchEntry> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the search and check it is theirs
+      const search = await this.validateSavedSearchOwner(tx, savedSearchId, householdId, userId);
+
+      // 2. The search must still pick items by something
+      const query = data.query ?? search.query;
+      const filters = data.filters ?? this.parseFilters(search);
+      if (!hasSearchCriteria({ query, filters })) {
+        throw new Error('A saved search needs search text or at least one filter');
+      }
+
+      // 3. A new name, or sharing it, must not clash with another search
+      const name = data.name ?? search.name;
+      const visibility = data.visibility ?? search.visibility;
+      if (name !== search.name || visibility !== search.visibility) {
+        await this.ensureNameAvailable(tx, householdId, userId, name, visibility, search.id);
+      }
+
+      // 4. Update the search
+      const updated = await tx.savedSearch.update({
+        where: { id: search.id },
+        data: {
+          name: data.name,
+          query: data.query,
+          filters: data.filters ? this.toJson(data.filters) : undefined,
+          sortBy: data.sortBy,
+          sortOrder: data.sortOrder,
+          visibility: data.visibility,
+        },
+      });
+
+      return this.toEntry(updated, userId);
+    });
+  }
+
+  /**
+   * Delete a saved search
+   *
+   * @param savedSearchId - ID of the saved search
+   * @param householdId - ID of the household
+   * @param userId - ID of the member; must be the one who saved it
+   */
+  async deleteSavedSearch(savedSearchId: string, householdId: string, userId: string): Promise<void> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the search and check it is theirs
+      const search = await this.validateSavedSearchOwner(tx, savedSearchId, householdId, userId);
+
+      // 2. Delete it
+      await tx.savedSearch.delete({ where: { id: search.id } });
+    });
+  }
+
+  /**
+   * Find the items a saved search matches now
+   *
+   * @param savedSearchId - ID of the saved search
+   * @param householdId - ID of the household
+   * @param userId - ID of the member
+   * @param params - Page of items to return
+   * @returns Promise resolving to the page of items with the total count and facets
+   */
+  async getSavedSearchItems(
+    savedSearchId: string,
+    householdId: string,
+    userId: string,
+    params: SavedSearchItemsQueryInput = { limit: 20, offset: 0 }
+  ): Promise<SearchResults> {
+    const search = await this.validateSavedSearchAccess(this.prisma, savedSearchId, householdId, userId);
+
+    return await this.search.findItems(householdId, {
+      ...this.toSearchQuery(search),
+      limit: params.limit,
+      offset: params.offset,
+      cursor: params.cursor,
+      includeLocation: true,
+      includePhotos: true,
+      includeTags: true,
+    });
+  }
+
+  /**
+   * IDs of every item a saved search matches now, e.g. to export them
+   *
+   * @param savedSearchId - ID of the saved search
+   * @param householdId - ID of the household
+   * @param userId - ID of the member
+   * @returns Promise resolving to the matching item IDs
+   */
+  async getMatchingItemIds(savedSearchId: string, householdId: string, userId: string): Promise<string[]> {
+    const search = await this.validateSavedSearchAccess(this.prisma, savedSearchId, householdId, userId);
+    return await this.search.findItemIds(householdId, this.toSearchQuery(search));
+  }
+
+  // Private helper methods
+
+  /**
+   * Saved searches a member can see
+   */
+  private visibleTo(householdId: string, userId: string): Prisma.SavedSearchWhereInput {
+    return {
+      householdId,
+      OR: [{ visibility: 'HOUSEHOLD' }, { userId }],
+    };
+  }
+
+  /**
+   * Validate that a saved search exists and the member can see it
+   */
+  private async validateSavedSearchAccess(
+    tx: Prisma.TransactionClient,
+    savedSearchId: string,
+    householdId: string,
+    userId: string
+  ): Promise<SavedSearch> {
+    const search = await tx.savedSearch.findFirst({
+      where: { id: savedSearchId, ...this.visibleTo(householdId, userId) },
+    });
+
+    if (!search) {
+      throw new Error('Saved search not found or access denied');
+    }
+
+    return search;
+  }
+
+  /**
+   * Validate that a saved search exists and the member saved it
+   */
+  private async validateSavedSearchOwner(
+    tx: Prisma.TransactionClient,
+    savedSearchId: string,
+    householdId: string,
+    userId: string
+  ): Promise<SavedSearch> {
+    const search = await this.validateSavedSearchAccess(tx, savedSearchId, householdId, userId);
+
+    if (search.userId !== userId) {
+      throw new Error('Only the member who saved this search can change it');
+    }
+
+    return search;
+  }
+
+  /**
+   * Check that no search shown next to this one uses the name, ignoring
+   * case: a personal search among the member's own and the shared ones, a
+   * shared search among every search in the household
+   */
+  private async ensureNameAvailable(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    userId: string,
+    name: string,
+    visibility: SavedSearch['visibility'],
+    exceptSavedSearchId?: string
+  ): Promise<void> {
+    const existing = await tx.savedSearch.findFirst({
+      where: {
+        ...(visibility === 'HOUSEHOLD' ? { householdId } : this.visibleTo(householdId, userId)),
+        name: { equals: name, mode: 'insensitive' },
+        ...(exceptSavedSearchId && { id: { not: exceptSavedSearchId } }),
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new Error(`A saved search named "${name}" already exists`);
+    }
+  }
+
+  /**
+   * Search parameters of a saved search
+   */
+  private toSearchQuery(search: SavedSearch): SearchQuery {
+    const entry = this.toEntry(search, search.userId);
+
+    return {
+      text: entry.query,
+      filters: entry.filters,
+      sortBy: entry.sortBy,
+      sortOrder: entry.sortOrder,
+    };
+  }
+
+  /**
+   * Stored filters, with their dates revived
+   */
+  private parseFilters(search: SavedSearch): SavedSearchEntry['filters'] {
+    return searchFiltersSchema.parse(search.filters ?? {});
+  }
+
+  /**
+   * Filters as stored JSON
+   */
+  private toJson(filters: SavedSearchEntry['filters']): Prisma.InputJsonObject {
+    return JSON.parse(JSON.stringify(filters)) as Prisma.InputJsonObject;
+  }
+
+  /**
+   * Saved search as returned to a member
+   */
+  private toEntry(search: SavedSearch, userId: string): SavedSearchEntry {
+    return {
+      id: search.id,
+      name: search.name,
+      query: search.query,
+      filters: this.parseFilters(search),
+      sortBy: (search.sortBy ?? undefined) as SavedSearchEntry['sortBy'],
+      sortOrder: (search.sortOrder ?? undefined) as SavedSearchEntry['sortOrder'],
+      visibility: search.visibility,
+      isOwner: search.userId === userId,
+      createdAt: search.createdAt,
+      updatedAt: search.updatedAt,
+    };
+  }
+}
+
+/**
+ * Singleton instance of SavedSearchService
+ */
+export const savedSearchService = new SavedSearchService(new PrismaClient());
@@ -0,0 +1,569 @@
+/**
+ * Search Query Parser - Structured query syntax for the search bar
+ *
+ * Turns queries such as `drill in:garage tag:tools status:borrowed value:>100
+ * added:<2024-01-01` into an AdvancedSearchQuery for SearchService. The parser
+ * does no database access, so it is safe to import from client components;
+ * location and tag names are resolved against lists the caller provides.
+ *
+ * Syntax:
+ * - Words and "quoted phrases" are searched for as text
+ * - in:, tag: and status: filter by location (including sublocations), tag
+ *   and status; quote names with spaces, as in in:"metal shelf"
+ * - value:, qty: and added: take >, >=, <, <=, an exact value or a from..to
+ *   range; dates are written YYYY-MM-DD
+ * - A leading - excludes an in:, tag: or status: filter, as in -tag:broken
+ * - OR combines values of one filter: tag:tools OR tag:garden,
+ *   (tag:tools OR tag:garden) or tag:(tools OR garden)
+ *
+ * Errors carry the character range of the offending text so the search bar
+ * can highlight it.
+ *
+ * @category Services
+ * @since 1.17.0
+ */
+
+import type { AdvancedSearchQuery, SearchFilters } from '@/lib/types/search';
+
+/**
+ * Problem with a search query, located in the input.
+ */
+export interface SearchQueryError {
+  /** What is wrong, phrased for the user */
+  message: string;
+
+  /** Index of the first offending character */
+  start: number;
+
+  /** Index after the last offending character */
+  end: number;
+}
+
+/**
+ * Household data for resolving location and tag names.
+ */
+export interface SearchQueryContext {
+  locations: Array<{ id: string; name: string }>;
+  tags: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Parsed query, or every error found in the input.
+ */
+export type SearchQueryParseResult =
+  | { success: true; query: AdvancedSearchQuery }
+  | { success: false; errors: SearchQueryError[] };
+
+type FilterKey = 'in' | 'tag' | 'status' | 'value' | 'qty' | 'added';
+
+type ItemStatusValue = NonNullable<SearchFilters['statuses']>[number];
+
+/**
+ * Filter keys as typed, including aliases
+ */
+const FILTER_KEYS: Record<string, FilterKey> = {
+  in: 'in',
+  tag: 'tag',
+  status: 'status',
+  value: 'value',
+  qty: 'qty',
+  quantity: 'qty',
+  added: 'added',
+};
+
+const ITEM_STATUSES: ItemStatusValue[] = ['AVAILABLE', 'BORROWED', 'MAINTENANCE', 'LOST', 'SOLD'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How value:, qty: and added: read a single value.
+ *
+ * `step` is the smallest difference between two values and `width` how far
+ * one written value reaches (a date covers its whole day).
+ */
+const RANGE_FORMATS: Record<'value' | 'qty' | 'added', {
+  parse: (text: string) => number | null;
+  step: number;
+  width: number;
+  example: string;
+}> = {
+  value: {
+    parse: (text) => /^\d+(\.\d{1,2})?$/.test(text) ? Number(text) : null,
+    step: 0.01,
+    width: 0,
+    example: 'value:>100 or value:50..200',
+  },
+  qty: {
+    parse: (text) => /^\d+$/.test(text) ? Number(text) : null,
+    step: 1,
+    width: 0,
+    example: 'qty:>=2',
+  },
+  added: {
+    parse: (text) => {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return null;
+      const date = new Date(`${text}T00:00:00.000Z`);
+      return !isNaN(date.getTime()) && date.toISOString().startsWith(text) ? date.getTime() : null;
+    },
+    step: 1,
+    width: DAY_MS - 1,
+    example: 'added:<2024-01-01',
+  },
+};
+
+/**
+ * Word or phrase and where it sits in the input
+ */
+interface TermValue {
+  text: string;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+type Token =
+  | { type: 'term'; key?: FilterKey; negated: boolean; value: TermValue; start: number; end: number }
+  | { type: 'open'; key?: FilterKey; negated: boolean; start: number; end: number }
+  | { type: 'close'; start: number; end: number }
+  | { type: 'or'; start: number; end: number };
+
+/**
+ * A term, or the values an OR group combines
+ */
+interface Clause {
+  key?: FilterKey;
+  negated: boolean;
+  values: TermValue[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a structured search query.
+ *
+ * @param input - Query as typed in the search bar
+ * @param context - The household's locations and tags, for in: and tag:
+ * @returns The AdvancedSearchQuery, or the errors with their positions
+ *
+ * @example
+ * ```typescript
+ * const result = parseSearchQuery('drill in:garage -tag:broken value:>100', { locations, tags });
+ * if (result.success) {
+ *   // { text: 'drill', filters: { locationIds: [garageId], excludeTagIds: [brokenId], valueRange: { min: 100.01 } } }
+ *   await search(result.query);
+ * } else {
+ *   highlight(result.errors[0].start, result.errors[0].end);
+ * }
+ * ```
+ */
+export function parseSearchQuery(input: string, context: SearchQueryContext): SearchQueryParseResult {
+  const errors: SearchQueryError[] = [];
+  const clauses = groupClauses(tokenize(input, errors), errors);
+
+  const textParts: string[] = [];
+  const filters: SearchFilters = {};
+
+  for (const clause of clauses) {
+    switch (clause.key) {
+      case undefined:
+        if (clause.negated) {
+          errors.push({ message: 'Only in:, tag: and status: filters can be excluded', start: clause.start, end: clause.end });
+        } else if (clause.values.length > 1) {
+          errors.push({ message: 'OR combines filters only, as in tag:tools OR tag:garden', start: clause.start, end: clause.end });
+        } else {
+          const [value] = clause.values;
+          textParts.push(value.quoted ? `"${value.text}"` : value.text);
+        }
+        break;
+
+      case 'in':
+        addIds(filters, clause.negated ? 'excludeLocationIds' : 'locationIds',
+          resolveNames(clause.values, context.locations, 'location', errors));
+        break;
+
+      case 'tag':
+        addIds(filters, clause.negated ? 'excludeTagIds' : 'tagIds',
+          resolveNames(clause.values, context.tags, 'tag', errors));
+        break;
+
+      case 'status':
+        addIds(filters, clause.negated ? 'excludeStatuses' : 'statuses',
+          resolveStatuses(clause.values, errors));
+        break;
+
+      default: {
+        const range = parseRange(clause, errors);
+        if (!range) break;
+
+        if (clause.key === 'value') {
+          filters.valueRange = narrowRange(filters.valueRange, range);
+        } else if (clause.key === 'qty') {
+          filters.quantityRange = narrowRange(filters.quantityRange, range);
+        } else {
+          const current = filters.dateRange && {
+            min: filters.dateRange.from?.getTime(),
+            max: filters.dateRange.to?.getTime(),
+          };
+          const dates = narrowRange(current, range);
+          filters.dateRange = {
+            ...(dates.min !== undefined && { from: new Date(dates.min) }),
+            ...(dates.max !== undefined && { to: new Date(dates.max) }),
+          };
+        }
+      }
+    }
+  }
+
+  const text = textParts.join(' ');
+  if (text.replace(/"/g, '').trim().length < 2) {
+    errors.push({ message: 'Add a word to search for, as in drill tag:tools', start: 0, end: input.length });
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors: errors.sort((a, b) => a.start - b.start) };
+  }
+
+  return {
+    success: true,
+    query: {
+      text,
+      ...(Object.keys(filters).length > 0 && { filters }),
+    },
+  };
+}
+
+/**
+ * Split the input into terms, parentheses and OR keywords.
+ */
+function tokenize(input: string, errors: SearchQueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    if (input[index] === ')') {
+      tokens.push({ type: 'close', start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = input[index] === '-' && index + 1 < input.length && !/[\s)]/.test(input[index + 1]);
+    if (negated) index++;
+
+    if (input[index] === '(') {
+      tokens.push({ type: 'open', negated, start, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    // Filter key, as in tag:tools
+    const keyMatch = /^([a-z]+):/i.exec(input.slice(index));
+    const key = keyMatch ? FILTER_KEYS[keyMatch[1].toLowerCase()] : undefined;
+    if (keyMatch) {
+      if (!key) {
+        errors.push({
+          message: `Unknown filter "${keyMatch[1]}:". Use in:, tag:, status:, value:, qty: or added:, or quote the text`,
+          start: index,
+          end: index + keyMatch[0].length,
+        });
+      }
+      index += keyMatch[0].length;
+
+      if (input[index] === '(') {
+        tokens.push({ type: 'open', key, negated, start, end: index + 1 });
+        index++;
+        continue;
+      }
+
+      if (index >= input.length || /[\s)]/.test(input[index])) {
+        errors.push({ message: `Add a value after ${keyMatch[0]}`, start, end: index });
+        continue;
+      }
+    }
+
+    const value = readValue(input, index, errors);
+    index = value.end;
+
+    // The unknown key is reported already
+    if (keyMatch && !key) continue;
+
+    if (!keyMatch && !negated && !value.quoted && value.text === 'OR') {
+      tokens.push({ type: 'or', start, end: index });
+    } else {
+      tokens.push({ type: 'term', key, negated, value, start, end: index });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Read a word, or a quoted phrase, starting at the given index.
+ */
+function readValue(input: string, start: number, errors: SearchQueryError[]): TermValue {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      errors.push({ message: 'Close the quote', start, end: input.length });
+      return { text: input.slice(start + 1).trim(), quoted: true, start, end: input.length };
+    }
+    if (input.slice(start + 1, close).trim() === '') {
+      errors.push({ message: 'Add text between the quotes', start, end: close + 1 });
+    }
+    return { text: input.slice(start + 1, close).trim(), quoted: true, start, end: close + 1 };
+  }
+
+  let end = start;
+  while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+  return { text: input.slice(start, end), quoted: false, start, end };
+}
+
+/**
+ * Combine OR-joined terms and parenthesized groups into clauses.
+ */
+function groupClauses(tokens: Token[], errors: SearchQueryError[]): Clause[] {
+  const clauses: Clause[] = [];
+  let pendingOr: Token | null = null;
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (token.type === 'or') {
+      if (clauses.length === 0 || pendingOr) {
+        errors.push({ message: 'Put OR between two filters', start: token.start, end: token.end });
+      } else {
+        pendingOr = token;
+      }
+      continue;
+    }
+
+    if (token.type === 'close') {
+      errors.push({ message: 'This parenthesis has no opening (', start: token.start, end: token.end });
+      continue;
+    }
+
+    let clause: Clause;
+    if (token.type === 'term') {
+      clause = { key: token.key, negated: token.negated, values: [token.value], start: token.start, end: token.end };
+    } else {
+      const group = readGroup(tokens, index, errors);
+      clause = group.clause;
+      index = group.lastIndex;
+      if (clause.values.length === 0) continue;
+    }
+
+    if (pendingOr) {
+      const previous = clauses[clauses.length - 1];
+      if (previous.key !== clause.key || previous.negated || clause.negated) {
+        errors.push({
+          message: 'OR combines values of one filter, as in tag:tools OR tag:garden',
+          start: previous.start,
+          end: clause.end,
+        });
+      } else {
+        previous.values.push(...clause.values);
+        previous.end = clause.end;
+      }
+      pendingOr = null;
+    } else {
+      clauses.push(clause);
+    }
+  }
+
+  if (pendingOr) {
+    errors.push({ message: 'Put OR between two filters', start: pendingOr.start, end: pendingOr.end });
+  }
+
+  return clauses;
+}
+
+/**
+ * Read the parenthesized group opened at the given token.
+ */
+function readGroup(
+  tokens: Token[],
+  openIndex: number,
+  errors: SearchQueryError[]
+): { clause: Clause; lastIndex: number } {
+  const open = tokens[openIndex] as Extract<Token, { type: 'open' }>;
+  const clause: Clause = { key: open.key, negated: open.negated, values: [], start: open.start, end: open.end };
+  let expectValue = true;
+
+  for (let index = openIndex + 1; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (token.type === 'close') {
+      clause.end = token.end;
+      if (clause.values.length === 0) {
+        errors.push({ message: 'This group is empty', start: clause.start, end: clause.end });
+      } else if (expectValue) {
+        errors.push({ message: 'Put OR between two values', start: tokens[index - 1].start, end: tokens[index - 1].end });
+      }
+      return { clause, lastIndex: index };
+    }
+
+    if (token.type === 'open') {
+      errors.push({ message: 'Groups cannot be nested', start: token.start, end: token.end });
+      continue;
+    }
+
+    if (token.type === 'or') {
+      if (expectValue) {
+        errors.push({ message: 'Put OR between two values', start: token.start, end: token.end });
+      }
+      expectValue = true;
+      continue;
+    }
+
+    if (!expectValue) {
+      errors.push({ message: 'Separate the values in a group with OR', start: token.start, end: token.end });
+    }
+    if (token.negated) {
+      errors.push({ message: 'Exclude the whole group instead, as in -(tag:a OR tag:b)', start: token.start, end: token.end });
+    }
+
+    if (open.key) {
+      if (token.key) {
+        errors.push({ message: `Leave out the filter name inside ${open.key}:( )`, start: token.start, end: token.end });
+      }
+    } else if (clause.values.length === 0) {
+      clause.key = token.key;
+    } else if (token.key !== clause.key) {
+      errors.push({ message: 'A group combines values of one filter, as in (tag:tools OR tag:garden)', start: token.start, end: token.end });
+    }
+
+    clause.values.push(token.value);
+    clause.end = token.end;
+    expectValue = false;
+  }
+
+  errors.push({ message: 'Close the parenthesis', start: open.start, end: open.end });
+  return { clause, lastIndex: tokens.length - 1 };
+}
+
+/**
+ * IDs of the entries named by each value, matching names ignoring case.
+ */
+function resolveNames(
+  values: TermValue[],
+  entries: Array<{ id: string; name: string }>,
+  kind: 'location' | 'tag',
+  errors: SearchQueryError[]
+): string[] {
+  return values.flatMap(value => {
+    const matches = entries.filter(entry => entry.name.toLowerCase() === value.text.toLowerCase());
+    if (matches.length === 0) {
+      errors.push({ message: `No ${kind} named "${value.text}"`, start: value.start, end: value.end });
+    }
+    return matches.map(entry => entry.id);
+  });
+}
+
+/**
+ * Item statuses named by each value, ignoring case.
+ */
+function resolveStatuses(values: TermValue[], errors: SearchQueryError[]): ItemStatusValue[] {
+  return values.flatMap(value => {
+    const status = ITEM_STATUSES.find(candidate => candidate === value.text.toUpperCase());
+    if (!status) {
+      errors.push({
+        message: `Unknown status "${value.text}". Use ${ITEM_STATUSES.map(candidate => candidate.toLowerCase()).join(', ')}`,
+        start: value.start,
+        end: value.end,
+      });
+      return [];
+    }
+    return [status];
+  });
+}
+
+/**
+ * Add IDs or statuses to a list filter, without duplicates.
+ */
+function addIds<K extends 'locationIds' | 'excludeLocationIds' | 'tagIds' | 'excludeTagIds' | 'statuses' | 'excludeStatuses'>(
+  filters: SearchFilters,
+  key: K,
+  values: NonNullable<SearchFilters[K]>
+): void {
+  if (values.length === 0) return;
+  filters[key] = [...new Set([...(filters[key] ?? []), ...values])] as SearchFilters[K];
+}
+
+/**
+ * Inclusive bounds of a value:, qty: or added: clause.
+ */
+function parseRange(clause: Clause, errors: SearchQueryError[]): { min?: number; max?: number } | null {
+  const format = RANGE_FORMATS[clause.key as 'value' | 'qty' | 'added'];
+  const [value] = clause.values;
+
+  if (clause.negated) {
+    errors.push({ message: `${clause.key}: cannot be excluded; flip the comparison instead`, start: clause.start, end: clause.end });
+    return null;
+  }
+  if (clause.values.length > 1) {
+    errors.push({ message: `${clause.key}: cannot be combined with OR; use a from..to range`, start: clause.start, end: clause.end });
+    return null;
+  }
+
+  const invalid = () => {
+    errors.push({ message: `Write ${clause.key}: as in ${format.example}`, start: value.start, end: value.end });
+    return null;
+  };
+
+  const rangeMatch = /^(.+)\.\.(.+)$/.exec(value.text);
+  if (rangeMatch) {
+    const from = format.parse(rangeMatch[1]);
+    const to = format.parse(rangeMatch[2]);
+    if (from === null || to === null) return invalid();
+    if (from > to) {
+      errors.push({ message: 'The range starts after it ends', start: value.start, end: value.end });
+      return null;
+    }
+    return { min: from, max: to + format.width };
+  }
+
+  const [, operator, operand] = /^(>=|<=|>|<)?(.*)$/.exec(value.text)!;
+  const bound = format.parse(operand);
+  if (bound === null) return invalid();
+
+  switch (operator) {
+    case '>':
+      return { min: round(bound + format.width + format.step) };
+    case '>=':
+      return { min: bound };
+    case '<':
+      return { max: round(bound - format.step) };
+    case '<=':
+      return { max: bound + format.width };
+    default:
+      return { min: bound, max: bound + format.width };
+  }
+}
+
+/**
+ * Intersect a range with the one already set by an earlier clause.
+ */
+function narrowRange(
+  current: { min?: number; max?: number } | undefined,
+  next: { min?: number; max?: number }
+): { min?: number; max?: number } {
+  const min = [current?.min, next.min].filter((bound): bound is number => bound !== undefined);
+  const max = [current?.max, next.max].filter((bound): bound is number => bound !== undefined);
+
+  return {
+    ...(min.length > 0 && { min: Math.max(...min) }),
+    ...(max.length > 0 && { max: Math.min(...max) }),
+  };
+}
+
+/**
+ * Drop floating point noise from cent amounts (100 - 0.01 = 99.99).
+ */
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
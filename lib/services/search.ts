@@ -9,6 +9,16 @@
  * - Full-text search with tsvector when available
  * - Trigram similarity search fallback
  * - ILIKE pattern matching as final fallback
+ * - Matching on the values of searchable custom fields
+ * - Category filter covering subcategories
+ * - Location, tag, status, value, date and quantity filters for every strategy
+ * - Excluding locations, tags and statuses
+ * - Items with or without photos
+ * - Quoted phrases in full-text search
+ * - Facet counts per status, tag and top-level location
+ * - Exact result counts and cursor (keyset) pagination for every strategy
+ * - "X in Y" queries matching items X whose location path contains Y
+ * - Matching locations returned next to the items, with "where is it" paths
  * - Search performance analytics without PII
  * - Household isolation for security
  * - Configurable search strategies
@@ -24,15 +34,39 @@ import {
   type ExtensionStatus,
   type SearchConfiguration 
 } from '@/lib/db/extensions';
-import type { PrismaClient } from '@prisma/client';
+import { getCategorySubtreeIds } from '@/lib/utils/categories';
+import { getLocationPathComponents, getLocationSubtreeIds, getRootLocationId } from '@/lib/utils/locations';
+import {
+  encodeSearchCursor,
+  decodeSearchCursor,
+  toSearchCursorValue,
+  type SearchCursor,
+} from '@/lib/utils/search-cursor';
+import { Prisma, type ItemStatus, type PrismaClient } from '@prisma/client';
+import type {
+  LocationSearchResult,
+  SearchFacetCount,
+  SearchFacets,
+  SearchFilters,
+} from '@/lib/types/search';
 
 export interface SearchQuery {
   text: string;
   limit?: number;
   offset?: number;
+  /** nextCursor of the previous page; takes the place of offset */
+  cursor?: string;
   includeLocation?: boolean;
   includePhotos?: boolean;
   includeTags?: boolean;
+  /** Only items in this category or its subcategories */
+  categoryId?: string;
+  /** Further filters; location filters cover sublocations */
+  filters?: SearchFilters;
+  /** Result order, relevance when omitted */
+  sortBy?: 'relevance' | 'name' | 'date' | 'value' | 'quantity';
+  /** Defaults to descending for relevance and ascending otherwise */
+  sortOrder?: 'asc' | 'desc';
 }
 
 export interface SearchResult {
@@ -45,6 +79,8 @@ export interface SearchResult {
     id: string;
     name: string;
     path: string;
+    /** Locations from the top level down to this one */
+    pathComponents?: Array<{ id: string; name: string }>;
   };
   photos?: Array<{
     id: string;
@@ -65,6 +101,11 @@ export interface SearchResults {
   responseTime: number;
   searchMethod: 'full_text_search' | 'trigram_search' | 'ilike_fallback';
   hasMore: boolean;
+  /** Cursor for the page after this one, null on the last page */
+  nextCursor: string | null;
+  facets: SearchFacets;
+  /** Locations matching the text, best first; only on the first page */
+  locations: LocationSearchResult[];
 }
 
 export interface SearchAnalyticsData {
@@ -75,6 +116,122 @@ export interface SearchAnalyticsData {
   searchMethod: 'full_text_search' | 'trigram_search' | 'ilike_fallback';
 }
 
+/**
+ * Conditions a search strategy matched items with, before paging; the raw
+ * SQL strategies give a WHERE clause over `items i`, the ILIKE fallback a
+ * Prisma filter. Counts, facets and unpaged IDs are queried through them.
+ */
+type SearchMatchScope =
+  | { kind: 'sql'; where: Prisma.Sql }
+  | { kind: 'prisma'; where: Prisma.ItemWhereInput };
+
+/**
+ * Matching items per facet value, as grouped by the database
+ */
+interface FacetGroups {
+  statuses: Array<{ status: string; count: number }>;
+  tags: Array<{ id: string; name: string; color: string; count: number }>;
+  locations: Array<{ locationId: string; count: number }>;
+}
+
+/**
+ * Results of one search strategy
+ */
+interface StrategyResults {
+  items: SearchResult[];
+  totalCount: number;
+  matches: SearchMatchScope;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * Search text split into the item and the place it is in, for "blue box in attic"
+ */
+interface LocationPhrase {
+  itemText: string;
+  locationText: string;
+}
+
+/**
+ * Filter values ready for a query; null where a filter is not set
+ */
+interface ResolvedSearchFilters {
+  categoryIds: string[] | null;
+  locationIds: string[] | null;
+  tagIds: string[] | null;
+  statuses: string[] | null;
+  excludeLocationIds: string[] | null;
+  excludeTagIds: string[] | null;
+  excludeStatuses: string[] | null;
+  minValue: number | null;
+  maxValue: number | null;
+  addedFrom: Date | null;
+  addedTo: Date | null;
+  minQuantity: number | null;
+  maxQuantity: number | null;
+  hasPhotos: boolean | null;
+}
+
+/**
+ * Raw SQL sort columns; relevance_score is each strategy's score column
+ */
+const SORT_COLUMNS = {
+  relevance: 'relevance_score',
+  name: 'i.name',
+  date: 'i.created_at',
+  value: 'i.current_value',
+  quantity: 'i.quantity',
+} as const;
+
+/**
+ * SQL types of the sort columns, for comparing them with cursor values
+ */
+const SORT_COLUMN_TYPES = {
+  relevance: 'real',
+  name: 'text',
+  date: 'timestamp',
+  value: 'numeric',
+  quantity: 'int',
+} as const;
+
+/**
+ * Result row properties holding each sort value, for building cursors
+ */
+const SORT_VALUE_KEYS = {
+  relevance: 'relevance_score',
+  name: 'name',
+  date: 'createdAt',
+  value: 'currentValue',
+  quantity: 'quantity',
+} as const;
+
+/**
+ * Prisma sort fields for the ILIKE fallback
+ */
+const SORT_FIELDS = {
+  name: 'name',
+  date: 'createdAt',
+  value: 'currentValue',
+  quantity: 'quantity',
+} as const;
+
+/**
+ * Most tags listed in the tag facet
+ */
+const MAX_TAG_FACETS = 20;
+
+/**
+ * Most locations returned with a page of results, and the candidates ranked for them
+ */
+const MAX_LOCATION_RESULTS = 5;
+const MAX_LOCATION_CANDIDATES = 50;
+
+/**
+ * "<item> in <place>"; the last "in", "inside", "at" or "on" splits the text
+ */
+const LOCATION_PHRASE = /^(.+)\s+(?:in|inside|at|on)\s+(?:the\s+|my\s+)?(.+)$/i;
+
 /**
  * Custom error classes for search operations
  */
@@ -118,7 +275,8 @@ export class SearchService {
    * 
    * This is the main search method that automatically selects the optimal search
    * strategy based on available database extensions and provides comprehensive
-   * search results with analytics logging.
+   * search results with analytics logging. Every strategy applies the same
+   * filters and sort order.
    * 
    * @param userId - ID of the user performing the search
    * @param query - Search parameters including text, pagination, and include options
@@ -138,6 +296,18 @@ export class SearchService {
    * 
    * console.log(`Found ${results.totalCount} items in ${results.responseTime}ms`);
    * ```
+   * 
+   * @example Filtered search sorted by value
+   * ```typescript
+   * const results = await searchService.searchItems('user-123', {
+   *   text: 'drill',
+   *   filters: { locationIds: [garageId], statuses: ['AVAILABLE'] },
+   *   sortBy: 'value',
+   *   sortOrder: 'desc'
+   * });
+   * 
+   * results.facets.tags; // [{ value: tagId, label: 'Tools', count: 4, color: '#3B82F6' }, ...]
+   * ```
    */
   async searchItems(userId: string, query: SearchQuery): Promise<SearchResults> {
     const startTime = Date.now();
@@ -155,21 +325,30 @@ export class SearchService {
       }
       
       // 4. Execute search with appropriate strategy
-      const searchResults = await this.executeSearch(query, userHousehold.id);
+      const { items: searchResults, totalCount, matches, hasMore, nextCursor } = await this.executeSearch(query, userHousehold.id);
+      
+      // 5. Count facets over every match, not just this page, and find matching locations
+      const [facets, { items, locations }] = await Promise.all([
+        this.buildFacets(userHousehold.id, matches, totalCount),
+        this.locateResults(query, userHousehold.id, searchResults),
+      ]);
       
-      // 5. Calculate response time and prepare results
+      // 6. Calculate response time and prepare results
       const responseTime = Date.now() - startTime;
       const searchMethod = this.determineSearchMethod();
       
       const results: SearchResults = {
-        items: searchResults,
-        totalCount: searchResults.length,
+        items,
+        totalCount,
         responseTime,
         searchMethod,
-        hasMore: query.limit ? searchResults.length >= query.limit : false,
+        hasMore,
+        nextCursor,
+        facets,
+        locations,
       };
       
-      // 6. Log analytics (anonymized)
+      // 7. Log analytics (anonymized)
       await this.logSearchAnalytics({
         householdId: userHousehold.id,
         queryLength: query.text.length,
@@ -197,6 +376,89 @@ export class SearchService {
     }
   }
 
+  /**
+   * Find the items in a household that match a query, such as a saved search.
+   * 
+   * Unlike searchItems, the household is given rather than looked up, the
+   * text may be left empty to match every item passing the filters, and
+   * nothing is recorded in search analytics.
+   * 
+   * @param householdId - Household to search
+   * @param query - Search parameters; text is optional
+   * @returns Promise<SearchResults> The requested page of matches, with facets
+   * 
+   * @throws {SearchValidationError} When search parameters are invalid
+   * 
+   * @example
+   * ```typescript
+   * const results = await searchService.findItems(householdId, {
+   *   text: '',
+   *   filters: { valueRange: { min: 500 }, hasPhotos: false },
+   *   sortBy: 'value',
+   *   sortOrder: 'desc'
+   * });
+   * ```
+   */
+  async findItems(householdId: string, query: SearchQuery): Promise<SearchResults> {
+    const startTime = Date.now();
+    
+    const { items: matchingItems, totalCount, matches, hasMore, nextCursor } = await this.findMatchingItems(query, householdId);
+    const [facets, { items, locations }] = await Promise.all([
+      this.buildFacets(householdId, matches, totalCount),
+      this.locateResults(query, householdId, matchingItems),
+    ]);
+    
+    return {
+      items,
+      totalCount,
+      responseTime: Date.now() - startTime,
+      searchMethod: query.text.trim() ? this.determineSearchMethod() : 'ilike_fallback',
+      hasMore,
+      nextCursor,
+      facets,
+      locations,
+    };
+  }
+  
+  /**
+   * IDs of every item in a household that matches a query, unpaged.
+   * 
+   * @param householdId - Household to search
+   * @param query - Search parameters; text is optional, paging is ignored
+   * @returns Promise resolving to the matching item IDs
+   * 
+   * @throws {SearchValidationError} When search parameters are invalid
+   */
+  async findItemIds(householdId: string, query: Omit<SearchQuery, 'limit' | 'offset' | 'cursor'>): Promise<string[]> {
+    const { matches } = await this.findMatchingItems({ ...query, limit: 1, offset: 0 }, householdId);
+    return await this.findMatchIds(matches);
+  }
+
+  /**
+   * Run a query with or without text.
+   * 
+   * Text queries go through the usual strategies; filters alone only need
+   * the Prisma query of the ILIKE fallback.
+   * 
+   * @private
+   */
+  private async findMatchingItems(query: SearchQuery, householdId: string): Promise<StrategyResults> {
+    if (!query.text.trim()) {
+      if (query.limit && (query.limit < 1 || query.limit > 100)) {
+        throw new SearchValidationError('Search limit must be between 1 and 100');
+      }
+      this.resolveCursor(query);
+      return await this.searchWithILIKE(query, householdId, await this.resolveFilters(query, householdId));
+    }
+    
+    this.validateSearchQuery(query);
+    if (!this.searchConfig) {
+      await this.initializeSearchConfiguration();
+    }
+    
+    return await this.executeSearch(query, householdId);
+  }
+
   /**
    * Initialize search configuration by checking database extensions.
    * 
@@ -238,13 +500,14 @@ export class SearchService {
    * 
    * @private
    */
-  private async executeSearch(query: SearchQuery, householdId: string): Promise<SearchResult[]> {
+  private async executeSearch(query: SearchQuery, householdId: string): Promise<StrategyResults> {
     const config = this.searchConfig!;
+    const filters = await this.resolveFilters(query, householdId);
     
     // Try full-text search first (most accurate and fast)
     if (config.useFullTextSearch) {
       try {
-        return await this.searchWithFullText(query, householdId);
+        return await this.searchWithFullText(query, householdId, filters);
       } catch (error) {
         console.warn('Full-text search failed, falling back to trigram search:', error);
       }
@@ -253,14 +516,14 @@ export class SearchService {
     // Try trigram search (good similarity matching)
     if (config.useTrigramSearch) {
       try {
-        return await this.searchWithTrigram(query, householdId);
+        return await this.searchWithTrigram(query, householdId, filters);
       } catch (error) {
         console.warn('Trigram search failed, falling back to ILIKE search:', error);
       }
     }
     
     // Final fallback to ILIKE pattern matching
-    return await this.searchWithILIKE(query, householdId);
+    return await this.searchWithILIKE(query, householdId, filters);
   }
 
   /**
@@ -268,39 +531,70 @@ export class SearchService {
    * 
    * Uses the pre-computed search vectors for fast, accurate text matching
    * with ranking based on content weights (name > description > location > tags).
+   * "X in Y" also matches items X stored where the location path contains Y.
    * 
    * @private
    */
-  private async searchWithFullText(query: SearchQuery, householdId: string): Promise<SearchResult[]> {
+  private async searchWithFullText(
+    query: SearchQuery,
+    householdId: string,
+    filters: ResolvedSearchFilters
+  ): Promise<StrategyResults> {
     const searchTerm = this.sanitizeSearchTerm(query.text);
-    const limit = Math.min(query.limit || 20, 100);
-    const offset = Math.max(query.offset || 0, 0);
-    
-    // Build the search query with ts_rank for relevance scoring
-    const items = await this.prisma.$queryRaw<Array<SearchResult & { relevance_score: number }>>`
-      SELECT 
-        i.id,
-        i.name,
-        i.description,
-        i.quantity,
-        i.unit,
-        i.status,
-        i.current_value as "currentValue",
-        i.created_at as "createdAt",
-        i.updated_at as "updatedAt",
-        ts_rank(i.search_vector, websearch_to_tsquery('english', ${searchTerm})) as relevance_score
-        ${query.includeLocation ? ', json_build_object(\'id\', l.id, \'name\', l.name, \'path\', l.path) as location' : ''}
-      FROM items i
-      ${query.includeLocation ? 'JOIN locations l ON i.location_id = l.id' : ''}
-      WHERE 
-        i.household_id = ${householdId}
-        AND i.search_vector @@ websearch_to_tsquery('english', ${searchTerm})
-      ORDER BY ts_rank(i.search_vector, websearch_to_tsquery('english', ${searchTerm})) DESC
-      LIMIT ${limit} OFFSET ${offset}
+    const customFieldPattern = `%${this.plainSearchText(query.text)}%`;
+    const phrase = this.splitLocationPhrase(query.text);
+    const { limit, offset } = this.pageBounds(query);
+    const rank = (term: string) => Prisma.sql`ts_rank(i.search_vector, websearch_to_tsquery('english', ${term}))`;
+    const score = phrase
+      ? Prisma.sql`GREATEST(${rank(searchTerm)}, ${rank(this.sanitizeSearchTerm(phrase.itemText))})`
+      : rank(searchTerm);
+    
+    // Items whose searchable custom field values match are included with rank 0
+    const where = Prisma.sql`
+      i.household_id = ${householdId}
+      AND ${this.buildFilterSql(filters)}
+      AND (
+        i.search_vector @@ websearch_to_tsquery('english', ${searchTerm})
+        OR ${this.buildLocationPhraseSql(phrase, term => Prisma.sql`
+          i.search_vector @@ websearch_to_tsquery('english', ${this.sanitizeSearchTerm(term)})
+        `)}
+        OR EXISTS (
+          SELECT 1 FROM custom_fields cf
+          WHERE cf.household_id = i.household_id
+            AND cf.searchable
+            AND i.metadata->>cf.key ILIKE ${customFieldPattern}
+        )
+      )
     `;
     
+    // Build the search query with ts_rank for relevance scoring; one extra row tells whether more follow
+    const matches: SearchMatchScope = { kind: 'sql', where };
+    const [rows, totalCount] = await Promise.all([
+      this.prisma.$queryRaw<Array<SearchResult & { relevance_score: number }>>`
+        SELECT 
+          i.id,
+          i.name,
+          i.description,
+          i.quantity,
+          i.unit,
+          i.status,
+          i.current_value as "currentValue",
+          i.created_at as "createdAt",
+          i.updated_at as "updatedAt",
+          ${score} as relevance_score
+          ${query.includeLocation ? ', json_build_object(\'id\', l.id, \'name\', l.name, \'path\', l.path) as location' : ''}
+        FROM items i
+        ${query.includeLocation ? 'JOIN locations l ON i.location_id = l.id' : ''}
+        WHERE ${where} AND ${this.buildCursorSql(query, score)}
+        ORDER BY ${this.buildOrderBySql(query)}
+        LIMIT ${limit + 1} OFFSET ${offset}
+      `,
+      this.countMatches(matches),
+    ]);
+    const page = this.paginate(rows, query, limit, SORT_VALUE_KEYS);
+    
     // Add photos and tags if requested
-    return await this.enrichSearchResults(items, query);
+    return { ...page, items: await this.enrichSearchResults(page.items, query), totalCount, matches };
   }
 
   /**
@@ -308,68 +602,120 @@ export class SearchService {
    * 
    * Uses pg_trgm extension for fuzzy text matching, useful when full-text
    * search vectors are not available or query doesn't match exactly.
+   * "X in Y" also matches items X stored where the location path contains Y.
    * 
    * @private
    */
-  private async searchWithTrigram(query: SearchQuery, householdId: string): Promise<SearchResult[]> {
-    const searchTerm = query.text.trim();
-    const limit = Math.min(query.limit || 20, 100);
-    const offset = Math.max(query.offset || 0, 0);
+  private async searchWithTrigram(
+    query: SearchQuery,
+    householdId: string,
+    filters: ResolvedSearchFilters
+  ): Promise<StrategyResults> {
+    const searchTerm = this.plainSearchText(query.text);
+    const customFieldPattern = `%${searchTerm}%`;
+    const phrase = this.splitLocationPhrase(query.text);
+    const { limit, offset } = this.pageBounds(query);
+    const similarities = (term: string) => Prisma.sql`
+      similarity(i.name, ${term}),
+      similarity(COALESCE(i.description, ''), ${term})
+    `;
+    const score = phrase
+      ? Prisma.sql`GREATEST(${similarities(searchTerm)}, ${similarities(phrase.itemText)})`
+      : Prisma.sql`GREATEST(${similarities(searchTerm)})`;
     
-    // Use similarity() function for relevance scoring
-    const items = await this.prisma.$queryRaw<Array<SearchResult & { relevance_score: number }>>`
-      SELECT 
-        i.id,
-        i.name,
-        i.description,
-        i.quantity,
-        i.unit,
-        i.status,
-        i.current_value as "currentValue",
-        i.created_at as "createdAt",
-        i.updated_at as "updatedAt",
-        GREATEST(
-          similarity(i.name, ${searchTerm}),
-          similarity(COALESCE(i.description, ''), ${searchTerm})
-        ) as relevance_score
-        ${query.includeLocation ? ', json_build_object(\'id\', l.id, \'name\', l.name, \'path\', l.path) as location' : ''}
-      FROM items i
-      ${query.includeLocation ? 'JOIN locations l ON i.location_id = l.id' : ''}
-      WHERE 
-        i.household_id = ${householdId}
-        AND (
-          similarity(i.name, ${searchTerm}) > 0.3
-          OR similarity(COALESCE(i.description, ''), ${searchTerm}) > 0.3
+    const where = Prisma.sql`
+      i.household_id = ${householdId}
+      AND ${this.buildFilterSql(filters)}
+      AND (
+        similarity(i.name, ${searchTerm}) > 0.3
+        OR similarity(COALESCE(i.description, ''), ${searchTerm}) > 0.3
+        OR ${this.buildLocationPhraseSql(phrase, term => Prisma.sql`
+          (similarity(i.name, ${term}) > 0.3 OR similarity(COALESCE(i.description, ''), ${term}) > 0.3)
+        `)}
+        OR EXISTS (
+          SELECT 1 FROM custom_fields cf
+          WHERE cf.household_id = i.household_id
+            AND cf.searchable
+            AND i.metadata->>cf.key ILIKE ${customFieldPattern}
         )
-      ORDER BY GREATEST(
-        similarity(i.name, ${searchTerm}),
-        similarity(COALESCE(i.description, ''), ${searchTerm})
-      ) DESC
-      LIMIT ${limit} OFFSET ${offset}
+      )
     `;
     
-    return await this.enrichSearchResults(items, query);
+    // Use similarity() function for relevance scoring
+    const matches: SearchMatchScope = { kind: 'sql', where };
+    const [rows, totalCount] = await Promise.all([
+      this.prisma.$queryRaw<Array<SearchResult & { relevance_score: number }>>`
+        SELECT 
+          i.id,
+          i.name,
+          i.description,
+          i.quantity,
+          i.unit,
+          i.status,
+          i.current_value as "currentValue",
+          i.created_at as "createdAt",
+          i.updated_at as "updatedAt",
+          ${score} as relevance_score
+          ${query.includeLocation ? ', json_build_object(\'id\', l.id, \'name\', l.name, \'path\', l.path) as location' : ''}
+        FROM items i
+        ${query.includeLocation ? 'JOIN locations l ON i.location_id = l.id' : ''}
+        WHERE ${where} AND ${this.buildCursorSql(query, score)}
+        ORDER BY ${this.buildOrderBySql(query)}
+        LIMIT ${limit + 1} OFFSET ${offset}
+      `,
+      this.countMatches(matches),
+    ]);
+    const page = this.paginate(rows, query, limit, SORT_VALUE_KEYS);
+    
+    return { ...page, items: await this.enrichSearchResults(page.items, query), totalCount, matches };
   }
 
   /**
    * ILIKE pattern search implementation (fallback).
    * 
    * Uses basic SQL pattern matching as the most compatible search method.
-   * Works on any PostgreSQL installation without extensions.
+   * Works on any PostgreSQL installation without extensions. "X in Y" also
+   * matches items X stored where the location path contains Y.
    * 
    * @private
    */
-  private async searchWithILIKE(query: SearchQuery, householdId: string): Promise<SearchResult[]> {
-    const searchPattern = `%${query.text.trim()}%`;
-    const limit = Math.min(query.limit || 20, 100);
-    const offset = Math.max(query.offset || 0, 0);
+  private async searchWithILIKE(
+    query: SearchQuery,
+    householdId: string,
+    filters: ResolvedSearchFilters
+  ): Promise<StrategyResults> {
+    const searchText = this.plainSearchText(query.text);
+    const phrase = this.splitLocationPhrase(query.text);
+    const { limit, offset } = this.pageBounds(query);
     
-    const whereClause = {
+    // JSON path filters cannot ignore case, so custom field values match as typed
+    const searchableFields = searchText
+      ? await this.prisma.customField.findMany({
+          where: { householdId, searchable: true },
+          select: { key: true },
+        })
+      : [];
+    
+    // Without text (saved searches made of filters alone) every filtered item matches
+    const whereClause: Prisma.ItemWhereInput = {
       householdId,
-      OR: [
-        { name: { contains: query.text.trim(), mode: 'insensitive' as const } },
-        { description: { contains: query.text.trim(), mode: 'insensitive' as const } },
-      ],
+      ...this.buildFilterWhere(filters),
+      ...(searchText && {
+        OR: [
+          { name: { contains: searchText, mode: 'insensitive' as const } },
+          { description: { contains: searchText, mode: 'insensitive' as const } },
+          ...searchableFields.map(field => ({
+            metadata: { path: [field.key], string_contains: searchText },
+          })),
+          ...(phrase ? [{
+            OR: [
+              { name: { contains: phrase.itemText, mode: 'insensitive' as const } },
+              { description: { contains: phrase.itemText, mode: 'insensitive' as const } },
+            ],
+            location: { path: { contains: phrase.locationText, mode: 'insensitive' as const } },
+          }] : []),
+        ],
+      }),
     };
     
     const include = {
@@ -393,33 +739,592 @@ export class SearchService {
       } : false,
     };
     
-    const items = await this.prisma.item.findMany({
-      where: whereClause,
-      include,
-      take: limit,
-      skip: offset,
-      orderBy: [
-        { name: 'asc' },
-        { createdAt: 'desc' }
-      ],
-    });
+    // Without a relevance score, relevance order falls back to name
+    const orderBy: Prisma.ItemOrderByWithRelationInput[] = !query.sortBy || query.sortBy === 'relevance'
+      ? [{ name: 'asc' }, { id: 'asc' }]
+      : [{ [SORT_FIELDS[query.sortBy]]: query.sortOrder || 'asc' }, { id: 'asc' }];
+    const cursorWhere = this.buildCursorWhere(query);
+    const matches: SearchMatchScope = { kind: 'prisma', where: whereClause };
+    
+    const [rows, totalCount] = await Promise.all([
+      this.prisma.item.findMany({
+        where: cursorWhere ? { AND: [whereClause, cursorWhere] } : whereClause,
+        include,
+        take: limit + 1,
+        skip: offset,
+        orderBy,
+      }),
+      this.countMatches(matches),
+    ]);
+    
+    const { items, ...page } = this.paginate(rows, query, limit, { ...SORT_VALUE_KEYS, relevance: 'name' });
     
     // Transform Prisma results to match SearchResult interface
-    return items.map(item => ({
-      id: item.id,
-      name: item.name,
-      description: item.description,
-      quantity: item.quantity,
-      unit: item.unit,
-      status: item.status,
-      currentValue: item.currentValue ? Number(item.currentValue) : null,
-      createdAt: item.createdAt,
-      updatedAt: item.updatedAt,
-      location: query.includeLocation ? item.location : undefined,
-      photos: query.includePhotos ? item.photos : undefined,
-      tags: query.includeTags ? item.tags?.map((itemTag: any) => itemTag.tag) : undefined,
-      relevanceScore: 0.5, // Static score for ILIKE fallback
-    }));
+    return {
+      ...page,
+      items: items.map(item => ({
+        id: item.id,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        status: item.status,
+        currentValue: item.currentValue ? Number(item.currentValue) : null,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+        location: query.includeLocation ? item.location : undefined,
+        photos: query.includePhotos ? item.photos : undefined,
+        tags: query.includeTags ? item.tags?.map((itemTag: any) => itemTag.tag) : undefined,
+        relevanceScore: 0.5, // Static score for ILIKE fallback
+      })),
+      totalCount,
+      matches,
+    };
+  }
+
+  /**
+   * Resolve the query's filters for the search strategies.
+   * 
+   * Category and location filters, including excluded locations, are widened
+   * to their subtrees.
+   * 
+   * @private
+   */
+  private async resolveFilters(query: SearchQuery, householdId: string): Promise<ResolvedSearchFilters> {
+    const filters = query.filters ?? {};
+    
+    const [categories, locations] = await Promise.all([
+      query.categoryId
+        ? this.prisma.category.findMany({
+            where: { householdId },
+            select: { id: true, parentId: true },
+          })
+        : [],
+      filters.locationIds?.length || filters.excludeLocationIds?.length
+        ? this.prisma.location.findMany({
+            where: { householdId },
+            select: { id: true, parentId: true },
+          })
+        : [],
+    ]);
+    
+    return {
+      categoryIds: query.categoryId ? getCategorySubtreeIds(categories, query.categoryId) : null,
+      locationIds: filters.locationIds?.length ? getLocationSubtreeIds(locations, filters.locationIds) : null,
+      tagIds: filters.tagIds?.length ? filters.tagIds : null,
+      statuses: filters.statuses?.length ? filters.statuses : null,
+      excludeLocationIds: filters.excludeLocationIds?.length
+        ? getLocationSubtreeIds(locations, filters.excludeLocationIds)
+        : null,
+      excludeTagIds: filters.excludeTagIds?.length ? filters.excludeTagIds : null,
+      excludeStatuses: filters.excludeStatuses?.length ? filters.excludeStatuses : null,
+      minValue: filters.valueRange?.min ?? null,
+      maxValue: filters.valueRange?.max ?? null,
+      addedFrom: filters.dateRange?.from ?? null,
+      addedTo: filters.dateRange?.to ?? null,
+      minQuantity: filters.quantityRange?.min ?? null,
+      maxQuantity: filters.quantityRange?.max ?? null,
+      hasPhotos: filters.hasPhotos ?? null,
+    };
+  }
+
+  /**
+   * SQL conditions for the resolved filters on items aliased as i.
+   * 
+   * Unset filters are passed as NULL so one statement serves every combination.
+   * 
+   * @private
+   */
+  private buildFilterSql(filters: ResolvedSearchFilters): Prisma.Sql {
+    return Prisma.sql`
+      (${filters.categoryIds}::uuid[] IS NULL OR i.category_id = ANY(${filters.categoryIds}::uuid[]))
+      AND (${filters.locationIds}::uuid[] IS NULL OR i.location_id = ANY(${filters.locationIds}::uuid[]))
+      AND (${filters.tagIds}::uuid[] IS NULL OR EXISTS (
+        SELECT 1 FROM item_tags it
+        WHERE it.item_id = i.id AND it.tag_id = ANY(${filters.tagIds}::uuid[])
+      ))
+      AND (${filters.statuses}::text[] IS NULL OR i.status::text = ANY(${filters.statuses}::text[]))
+      AND (${filters.excludeLocationIds}::uuid[] IS NULL OR i.location_id <> ALL(${filters.excludeLocationIds}::uuid[]))
+      AND (${filters.excludeTagIds}::uuid[] IS NULL OR NOT EXISTS (
+        SELECT 1 FROM item_tags it
+        WHERE it.item_id = i.id AND it.tag_id = ANY(${filters.excludeTagIds}::uuid[])
+      ))
+      AND (${filters.excludeStatuses}::text[] IS NULL OR i.status::text <> ALL(${filters.excludeStatuses}::text[]))
+      AND (${filters.minValue}::numeric IS NULL OR i.current_value >= ${filters.minValue}::numeric)
+      AND (${filters.maxValue}::numeric IS NULL OR i.current_value <= ${filters.maxValue}::numeric)
+      AND (${filters.addedFrom}::timestamp IS NULL OR i.created_at >= ${filters.addedFrom}::timestamp)
+      AND (${filters.addedTo}::timestamp IS NULL OR i.created_at <= ${filters.addedTo}::timestamp)
+      AND (${filters.minQuantity}::int IS NULL OR i.quantity >= ${filters.minQuantity}::int)
+      AND (${filters.maxQuantity}::int IS NULL OR i.quantity <= ${filters.maxQuantity}::int)
+      AND (${filters.hasPhotos}::boolean IS NULL OR EXISTS (
+        SELECT 1 FROM item_photos ip WHERE ip.item_id = i.id
+      ) = ${filters.hasPhotos}::boolean)
+    `;
+  }
+
+  /**
+   * Raw SQL condition for an "X in Y" search: X matches the item and the
+   * item's location path contains Y.
+   * 
+   * @private
+   */
+  private buildLocationPhraseSql(
+    phrase: LocationPhrase | null,
+    matchItem: (text: string) => Prisma.Sql
+  ): Prisma.Sql {
+    if (!phrase) {
+      return Prisma.sql`FALSE`;
+    }
+    
+    return Prisma.sql`(
+      ${matchItem(phrase.itemText)}
+      AND EXISTS (
+        SELECT 1 FROM locations pl
+        WHERE pl.id = i.location_id
+          AND pl.path ILIKE ${`%${phrase.locationText}%`}
+      )
+    )`;
+  }
+
+  /**
+   * Prisma conditions for the resolved filters, for the ILIKE fallback.
+   * 
+   * @private
+   */
+  private buildFilterWhere(filters: ResolvedSearchFilters): Prisma.ItemWhereInput {
+    return {
+      ...(filters.categoryIds && { categoryId: { in: filters.categoryIds } }),
+      ...((filters.locationIds || filters.excludeLocationIds) && {
+        locationId: {
+          ...(filters.locationIds && { in: filters.locationIds }),
+          ...(filters.excludeLocationIds && { notIn: filters.excludeLocationIds }),
+        },
+      }),
+      ...((filters.tagIds || filters.excludeTagIds) && {
+        tags: {
+          ...(filters.tagIds && { some: { tagId: { in: filters.tagIds } } }),
+          ...(filters.excludeTagIds && { none: { tagId: { in: filters.excludeTagIds } } }),
+        },
+      }),
+      ...((filters.statuses || filters.excludeStatuses) && {
+        status: {
+          ...(filters.statuses && { in: filters.statuses as ItemStatus[] }),
+          ...(filters.excludeStatuses && { notIn: filters.excludeStatuses as ItemStatus[] }),
+        },
+      }),
+      ...((filters.minValue !== null || filters.maxValue !== null) && {
+        currentValue: {
+          ...(filters.minValue !== null && { gte: filters.minValue }),
+          ...(filters.maxValue !== null && { lte: filters.maxValue }),
+        },
+      }),
+      ...((filters.addedFrom || filters.addedTo) && {
+        createdAt: {
+          ...(filters.addedFrom && { gte: filters.addedFrom }),
+          ...(filters.addedTo && { lte: filters.addedTo }),
+        },
+      }),
+      ...((filters.minQuantity !== null || filters.maxQuantity !== null) && {
+        quantity: {
+          ...(filters.minQuantity !== null && { gte: filters.minQuantity }),
+          ...(filters.maxQuantity !== null && { lte: filters.maxQuantity }),
+        },
+      }),
+      ...(filters.hasPhotos !== null && {
+        photos: filters.hasPhotos ? { some: {} } : { none: {} },
+      }),
+    };
+  }
+
+  /**
+   * ORDER BY clause for the raw SQL strategies.
+   * 
+   * Columns come from a fixed list, never from the request.
+   * 
+   * @private
+   */
+  private buildOrderBySql(query: SearchQuery): Prisma.Sql {
+    const { sortBy, sortOrder } = this.sortOf(query);
+    
+    return Prisma.raw(`${SORT_COLUMNS[sortBy]} ${sortOrder.toUpperCase()} NULLS LAST, i.id`);
+  }
+
+  /**
+   * Sort order of a query with its defaults applied.
+   * 
+   * @private
+   */
+  private sortOf(query: SearchQuery): Pick<SearchCursor, 'sortBy' | 'sortOrder'> {
+    const sortBy = query.sortBy ?? 'relevance';
+    return { sortBy, sortOrder: query.sortOrder ?? (sortBy === 'relevance' ? 'desc' : 'asc') };
+  }
+
+  /**
+   * Page size, and the rows to skip when paging by offset instead of cursor.
+   * 
+   * @private
+   */
+  private pageBounds(query: SearchQuery): { limit: number; offset: number } {
+    return {
+      limit: Math.min(query.limit || 20, 100),
+      offset: query.cursor ? 0 : Math.max(query.offset || 0, 0),
+    };
+  }
+
+  /**
+   * Decode the query's cursor and check it belongs to the query's sort order.
+   * 
+   * @private
+   */
+  private resolveCursor(query: SearchQuery): SearchCursor | null {
+    if (!query.cursor) {
+      return null;
+    }
+    
+    const cursor = decodeSearchCursor(query.cursor);
+    const { sortBy, sortOrder } = this.sortOf(query);
+    if (!cursor || cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+      throw new SearchValidationError('Search cursor is invalid or belongs to a different sort order');
+    }
+    
+    return cursor;
+  }
+
+  /**
+   * SQL condition for rows after the cursor in the raw SQL strategies' order.
+   * 
+   * Matches ORDER BY with NULLS LAST and the item ID breaking ties.
+   * 
+   * @private
+   */
+  private buildCursorSql(query: SearchQuery, score: Prisma.Sql): Prisma.Sql {
+    const cursor = this.resolveCursor(query);
+    if (!cursor) {
+      return Prisma.sql`TRUE`;
+    }
+    
+    const column = cursor.sortBy === 'relevance' ? score : Prisma.raw(SORT_COLUMNS[cursor.sortBy]);
+    if (cursor.value === null) {
+      return Prisma.sql`(${column} IS NULL AND i.id > ${cursor.id}::uuid)`;
+    }
+    
+    const value = Prisma.sql`${cursor.value}::${Prisma.raw(SORT_COLUMN_TYPES[cursor.sortBy])}`;
+    const beyond = cursor.sortOrder === 'asc'
+      ? Prisma.sql`${column} > ${value}`
+      : Prisma.sql`${column} < ${value}`;
+    
+    return Prisma.sql`(${beyond} OR (${column} = ${value} AND i.id > ${cursor.id}::uuid) OR ${column} IS NULL)`;
+  }
+
+  /**
+   * Prisma condition for items after the cursor in the ILIKE fallback's order.
+   * 
+   * Relevance is ordered by name there. Postgres puts nulls last when
+   * ascending and first when descending; only the value can be null.
+   * 
+   * @private
+   */
+  private buildCursorWhere(query: SearchQuery): Prisma.ItemWhereInput | null {
+    const cursor = this.resolveCursor(query);
+    if (!cursor) {
+      return null;
+    }
+    
+    const field = cursor.sortBy === 'relevance' ? 'name' : SORT_FIELDS[cursor.sortBy];
+    const ascending = cursor.sortBy === 'relevance' || cursor.sortOrder === 'asc';
+    const afterId = { id: { gt: cursor.id } };
+    
+    if (cursor.value === null) {
+      return ascending
+        ? { [field]: null, ...afterId }
+        : { OR: [{ [field]: null, ...afterId }, { [field]: { not: null } }] };
+    }
+    
+    const value = field === 'createdAt' ? new Date(cursor.value) : cursor.value;
+    return {
+      OR: [
+        { [field]: { [ascending ? 'gt' : 'lt']: value } },
+        { [field]: value, ...afterId },
+        ...(field === 'currentValue' && ascending ? [{ [field]: null }] : []),
+      ],
+    };
+  }
+
+  /**
+   * Trim the extra row fetched past the page and build the next cursor
+   * from the last row kept.
+   * 
+   * @private
+   */
+  private paginate<T extends { id: string }>(
+    rows: T[],
+    query: SearchQuery,
+    limit: number,
+    valueKeys: Record<SearchCursor['sortBy'], string>
+  ): { items: T[]; hasMore: boolean; nextCursor: string | null } {
+    const items = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+    const last = items[items.length - 1];
+    
+    if (!hasMore || !last) {
+      return { items, hasMore: false, nextCursor: null };
+    }
+    
+    const { sortBy, sortOrder } = this.sortOf(query);
+    return {
+      items,
+      hasMore,
+      nextCursor: encodeSearchCursor({
+        sortBy,
+        sortOrder,
+        value: toSearchCursorValue((last as Record<string, unknown>)[valueKeys[sortBy]]),
+        id: last.id,
+      }),
+    };
+  }
+
+  /**
+   * Number of items a strategy matched, counted by the database.
+   * 
+   * @private
+   */
+  private async countMatches(matches: SearchMatchScope): Promise<number> {
+    if (matches.kind === 'prisma') {
+      return await this.prisma.item.count({ where: matches.where });
+    }
+    
+    const [row] = await this.prisma.$queryRaw<Array<{ count: number }>>`
+      SELECT COUNT(*)::int as count
+      FROM items i
+      WHERE ${matches.where}
+    `;
+    return Number(row?.count ?? 0);
+  }
+
+  /**
+   * IDs of every item a strategy matched, unpaged.
+   * 
+   * @private
+   */
+  private async findMatchIds(matches: SearchMatchScope): Promise<string[]> {
+    if (matches.kind === 'prisma') {
+      const items = await this.prisma.item.findMany({ where: matches.where, select: { id: true } });
+      return items.map(item => item.id);
+    }
+    
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT i.id FROM items i WHERE ${matches.where}
+    `;
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Group a strategy's matches by status, tag and location in the database.
+   * 
+   * Tags are joined through item_tags and only the most used are returned.
+   * 
+   * @private
+   */
+  private async groupFacets(matches: SearchMatchScope): Promise<FacetGroups> {
+    if (matches.kind === 'prisma') {
+      const [statuses, locations, tagGroups] = await Promise.all([
+        this.prisma.item.groupBy({ by: ['status'], where: matches.where, _count: { _all: true } }),
+        this.prisma.item.groupBy({ by: ['locationId'], where: matches.where, _count: { _all: true } }),
+        this.prisma.itemTag.groupBy({
+          by: ['tagId'],
+          where: { item: matches.where },
+          _count: { _all: true },
+          orderBy: { _count: { tagId: 'desc' } },
+          take: MAX_TAG_FACETS,
+        }),
+      ]);
+      const tags = tagGroups.length > 0
+        ? await this.prisma.tag.findMany({
+            where: { id: { in: tagGroups.map(group => group.tagId) } },
+            select: { id: true, name: true, color: true },
+          })
+        : [];
+      const tagCounts = new Map(tagGroups.map(group => [group.tagId, group._count._all]));
+      
+      return {
+        statuses: statuses.map(group => ({ status: group.status, count: group._count._all })),
+        tags: tags.map(tag => ({ ...tag, count: tagCounts.get(tag.id) ?? 0 })),
+        locations: locations.map(group => ({ locationId: group.locationId, count: group._count._all })),
+      };
+    }
+    
+    const [statuses, tags, locations] = await Promise.all([
+      this.prisma.$queryRaw<FacetGroups['statuses']>`
+        SELECT i.status::text as status, COUNT(*)::int as count
+        FROM items i
+        WHERE ${matches.where}
+        GROUP BY i.status
+      `,
+      this.prisma.$queryRaw<FacetGroups['tags']>`
+        SELECT t.id, t.name, t.color, COUNT(*)::int as count
+        FROM items i
+        JOIN item_tags it ON it.item_id = i.id
+        JOIN tags t ON t.id = it.tag_id
+        WHERE ${matches.where}
+        GROUP BY t.id, t.name, t.color
+        ORDER BY count DESC, t.name ASC
+        LIMIT ${MAX_TAG_FACETS}
+      `,
+      this.prisma.$queryRaw<FacetGroups['locations']>`
+        SELECT i.location_id as "locationId", COUNT(*)::int as count
+        FROM items i
+        WHERE ${matches.where}
+        GROUP BY i.location_id
+      `,
+    ]);
+    
+    return { statuses, tags, locations };
+  }
+
+  /**
+   * Count matching items per status, tag and top-level location.
+   * 
+   * The database groups the matches; per-location counts are then rolled up
+   * to their top-level location here. Facets are a convenience, so a failure
+   * leaves them empty rather than failing the search.
+   * 
+   * @private
+   */
+  private async buildFacets(
+    householdId: string,
+    matches: SearchMatchScope,
+    totalCount: number
+  ): Promise<SearchFacets> {
+    if (totalCount === 0) {
+      return { statuses: [], tags: [], locations: [] };
+    }
+    
+    try {
+      const [groups, locations] = await Promise.all([
+        this.groupFacets(matches),
+        this.prisma.location.findMany({
+          where: { householdId },
+          select: { id: true, name: true, parentId: true },
+        }),
+      ]);
+      
+      const locationNames = new Map(locations.map(location => [location.id, location.name]));
+      
+      const roots = new Map<string, SearchFacetCount>();
+      for (const group of groups.locations) {
+        const rootId = getRootLocationId(locations, group.locationId);
+        if (rootId) {
+          const root = roots.get(rootId) ?? { value: rootId, label: locationNames.get(rootId)!, count: 0 };
+          root.count += Number(group.count);
+          roots.set(rootId, root);
+        }
+      }
+      
+      const byCount = (a: SearchFacetCount, b: SearchFacetCount) =>
+        b.count - a.count || a.label.localeCompare(b.label);
+      
+      return {
+        statuses: groups.statuses
+          .map(({ status, count }) => ({
+            value: status,
+            label: status.charAt(0) + status.slice(1).toLowerCase(),
+            count: Number(count),
+          }))
+          .sort(byCount),
+        tags: groups.tags
+          .map(tag => ({ value: tag.id, label: tag.name, color: tag.color, count: Number(tag.count) }))
+          .sort(byCount),
+        locations: [...roots.values()].sort(byCount),
+      };
+    } catch (error) {
+      console.warn('Failed to count search facets:', error);
+      return { statuses: [], tags: [], locations: [] };
+    }
+  }
+
+  /**
+   * Find locations matching the search and add "where is it" paths to the items.
+   * 
+   * Locations are matched on name and path through their indexes, only for
+   * the first page, and rank name matches above path matches. Like facets,
+   * they are a convenience, so a failure leaves the items as they are.
+   * 
+   * @private
+   */
+  private async locateResults(
+    query: SearchQuery,
+    householdId: string,
+    items: SearchResult[]
+  ): Promise<{ items: SearchResult[]; locations: LocationSearchResult[] }> {
+    const locationText = this.splitLocationPhrase(query.text)?.locationText ?? this.plainSearchText(query.text);
+    const isFirstPage = !query.cursor && !query.offset;
+    
+    try {
+      const candidates = locationText && isFirstPage
+        ? await this.prisma.location.findMany({
+            where: {
+              householdId,
+              OR: [
+                { name: { contains: locationText, mode: 'insensitive' } },
+                { path: { contains: locationText, mode: 'insensitive' } },
+              ],
+            },
+            select: { id: true, name: true, path: true, level: true, itemCount: true },
+            orderBy: [{ level: 'asc' }, { name: 'asc' }],
+            take: MAX_LOCATION_CANDIDATES,
+          })
+        : [];
+      
+      if (candidates.length === 0 && !items.some(item => item.location)) {
+        return { items, locations: [] };
+      }
+      
+      // Paths need every ancestor, so the household's tree is read once
+      const tree = await this.prisma.location.findMany({
+        where: { householdId },
+        select: { id: true, name: true, parentId: true },
+      });
+      
+      const locations = candidates
+        .map(location => ({
+          id: location.id,
+          name: location.name,
+          path: location.path,
+          pathComponents: getLocationPathComponents(tree, location.id),
+          itemCount: location.itemCount,
+          relevanceScore: this.scoreLocation(location.name, locationText),
+        }))
+        .sort((a, b) => b.relevanceScore - a.relevanceScore)
+        .slice(0, MAX_LOCATION_RESULTS);
+      
+      return {
+        items: items.map(item => item.location
+          ? { ...item, location: { ...item.location, pathComponents: getLocationPathComponents(tree, item.location.id) } }
+          : item),
+        locations,
+      };
+    } catch (error) {
+      console.warn('Failed to search locations:', error);
+      return { items, locations: [] };
+    }
+  }
+
+  /**
+   * Score a location on the 0 to 1 scale of item relevance.
+   * 
+   * An exact name ranks highest, then a name starting with or containing
+   * the text; locations matched only through a parent in their path rank last.
+   * 
+   * @private
+   */
+  private scoreLocation(name: string, text: string): number {
+    const locationName = name.toLowerCase();
+    const searchText = text.toLowerCase();
+    
+    if (locationName === searchText) return 1;
+    if (locationName.startsWith(searchText)) return 0.8;
+    if (locationName.includes(searchText)) return 0.6;
+    return 0.3;
   }
 
   /**
@@ -549,21 +1454,52 @@ export class SearchService {
     if (query.offset && query.offset < 0) {
       throw new SearchValidationError('Search offset cannot be negative');
     }
+    
+    this.resolveCursor(query);
   }
 
   /**
    * Sanitize search term for safe use in SQL queries.
    * 
+   * Double quotes are kept so websearch_to_tsquery matches quoted phrases.
+   * 
    * @private
    */
   private sanitizeSearchTerm(text: string): string {
     return text
       .trim()
-      .replace(/[^\w\s\-\.]/g, ' ') // Remove special chars except basic punctuation
+      .replace(/[^\w\s\-\."]/g, ' ') // Remove special chars except basic punctuation and quotes
       .replace(/\s+/g, ' ') // Normalize whitespace
       .trim();
   }
 
+  /**
+   * Search text without phrase quotes, for the strategies that match text as typed.
+   * 
+   * @private
+   */
+  private plainSearchText(text: string): string {
+    return text.replace(/"/g, '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Split "blue box in attic" into the item and the place it is in.
+   * 
+   * The last "in", "inside", "at" or "on" splits the text, and a leading
+   * "the" or "my" is dropped from the place.
+   * 
+   * @private
+   */
+  private splitLocationPhrase(text: string): LocationPhrase | null {
+    const match = this.plainSearchText(text).match(LOCATION_PHRASE);
+    if (!match) {
+      return null;
+    }
+    
+    const [, itemText, locationText] = match;
+    return itemText.length >= 2 && locationText.length >= 2 ? { itemText, locationText } : null;
+  }
+
   /**
    * Determine which search method was used for analytics.
    * 
@@ -9,9 +9,10 @@
  */
 
 import { EventEmitter } from 'events';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, ActivityAction, ActivityEntityType } from '@prisma/client';
 import { S3StorageService } from './storage';
 import { CdnService } from './cdn';
+import { activityLogService } from './activity';
 import { STORAGE_CONFIG } from '@/lib/config/storage';
 
 /**
@@ -89,10 +90,14 @@ export class SmartDeletionService extends EventEmitter<SmartDeletionEvents> {
 
   /**
    * Delete a single photo with all its formats and associated files
+   *
+   * The removal is recorded in the item's activity history, attributed to
+   * `deletedBy` when given.
    */
   async deletePhoto(photoId: string, options: {
     skipConfirmation?: boolean;
     auditReason?: string;
+    deletedBy?: string;
   } = {}): Promise<DeletionResult> {
     const result: DeletionResult = {
       photoId,
@@ -136,9 +141,25 @@ export class SmartDeletionService extends EventEmitter<SmartDeletionEvents> {
         console.warn('CDN cache invalidation failed:', error);
       }
 
-      // Delete from database
-      await this.prisma.itemPhoto.delete({
-        where: { id: photoId },
+      // Delete from database, with the item's activity entry
+      await this.prisma.$transaction(async (tx) => {
+        await tx.itemPhoto.delete({
+          where: { id: photoId },
+        });
+
+        await activityLogService.recordActivity(tx, {
+          householdId: photo.item.householdId,
+          userId: options.deletedBy ?? null,
+          entityType: ActivityEntityType.ITEM,
+          entityId: photo.itemId,
+          action: ActivityAction.PHOTO_DELETED,
+          metadata: {
+            itemName: photo.item.name,
+            photoId,
+            filename: photo.filename,
+            ...(options.auditReason && { reason: options.auditReason }),
+          },
+        });
       });
 
       // Log audit entry
@@ -171,6 +192,7 @@ export class SmartDeletionService extends EventEmitter<SmartDeletionEvents> {
       maxConcurrency?: number;
       auditReason?: string;
       skipConfirmation?: boolean;
+      deletedBy?: string;
     } = {}
   ): Promise<BatchDeletionResult> {
     const startTime = Date.now();
@@ -194,6 +216,7 @@ export class SmartDeletionService extends EventEmitter<SmartDeletionEvents> {
           this.deletePhoto(photoId, {
             auditReason: options.auditReason,
             skipConfirmation: options.skipConfirmation,
+            deletedBy: options.deletedBy,
           })
         )
       );
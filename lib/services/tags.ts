@@ -0,0 +1,344 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { CreateTagInput, UpdateTagInput, SearchTagsInput } from '@/lib/validation';
+import type { TagEntry } from '@/lib/types/tags';
+
+/**
+ * Fields returned for a tag
+ */
+const TAG_SELECT = {
+  id: true,
+  name: true,
+  color: true,
+  usageCount: true,
+} satisfies Prisma.TagSelect;
+
+/**
+ * TagService - Business logic for household item tags
+ *
+ * Tags are flat labels items can carry any number of. `Tag.usageCount`
+ * mirrors the number of `ItemTag` links and is changed in the same
+ * transaction as the links, so autocomplete can rank tags without counting
+ * joins. Custom fields scoped to a tag and saved searches filtering on it
+ * follow it through merges.
+ */
+export class TagService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * List the household's tags, most used first
+   *
+   * @param householdId - ID of the household
+   * @param params - Optional name filter and result limit
+   * @returns Promise resolving to the tags
+   */
+  async listTags(
+    householdId: string,
+    params: SearchTagsInput = { limit: 100 }
+  ): Promise<TagEntry[]> {
+    return await this.prisma.tag.findMany({
+      where: {
+        householdId,
+        ...(params.query && { name: { contains: params.query, mode: 'insensitive' } }),
+      },
+      select: TAG_SELECT,
+      orderBy: [{ usageCount: 'desc' }, { name: 'asc' }],
+      take: params.limit,
+    });
+  }
+
+  /**
+   * Add a tag
+   *
+   * @param householdId - ID of the household
+   * @param data - Validated name and color
+   * @returns Promise resolving to the created tag
+   */
+  async createTag(householdId: string, data: CreateTagInput): Promise<TagEntry> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Names are unique per household, ignoring case
+      await this.ensureNameAvailable(tx, householdId, data.name);
+
+      // 2. Create the tag
+      return await tx.tag.create({
+        data: {
+          householdId,
+          name: data.name,
+          color: data.color,
+        },
+        select: TAG_SELECT,
+      });
+    });
+  }
+
+  /**
+   * Rename or recolor a tag
+   *
+   * @param tagId - ID of the tag
+   * @param householdId - ID of the household
+   * @param data - Validated changes
+   * @returns Promise resolving to the updated tag
+   */
+  async updateTag(tagId: string, householdId: string, data: UpdateTagInput): Promise<TagEntry> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the tag within the household
+      const tag = await this.validateTagAccess(tx, householdId, tagId);
+
+      // 2. A new name must not clash with another tag
+      if (data.name !== undefined && data.name !== tag.name) {
+        await this.ensureNameAvailable(tx, householdId, data.name, tag.id);
+      }
+
+      // 3. Update the tag
+      return await tx.tag.update({
+        where: { id: tag.id },
+        data: {
+          name: data.name,
+          color: data.color,
+        },
+        select: TAG_SELECT,
+      });
+    });
+  }
+
+  /**
+   * Delete a tag and take it off every item and saved search
+   *
+   * @param tagId - ID of the tag
+   * @param householdId - ID of the household
+   */
+  async deleteTag(tagId: string, householdId: string): Promise<void> {
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve the tag within the household
+      const tag = await this.validateTagAccess(tx, householdId, tagId);
+
+      // 2. Stop custom fields being scoped to it
+      await this.replaceFieldTag(tx, householdId, tag.id, null);
+
+      // 3. Stop saved searches filtering on it
+      await this.replaceSearchTag(tx, householdId, tag.id, null);
+
+      // 4. Delete the tag (item links go with it)
+      await tx.tag.delete({ where: { id: tag.id } });
+    });
+  }
+
+  /**
+   * Merge one tag into another
+   *
+   * Every item carrying the source tag gets the target tag instead, custom
+   * fields scoped to the source are scoped to the target, saved searches
+   * filtering on the source filter on the target, and the source tag is
+   * deleted.
+   *
+   * @param sourceTagId - ID of the tag to merge away
+   * @param householdId - ID of the household
+   * @param targetTagId - ID of the tag to keep
+   * @returns Promise resolving to the target tag with its new usage count
+   */
+  async mergeTags(sourceTagId: string, householdId: string, targetTagId: string): Promise<TagEntry> {
+    if (sourceTagId === targetTagId) {
+      throw new Error('A tag cannot be merged into itself');
+    }
+
+    return await this.prisma.$transaction(async (tx) => {
+      // 1. Resolve both tags within the household
+      const source = await this.validateTagAccess(tx, householdId, sourceTagId);
+      const target = await this.validateTagAccess(tx, householdId, targetTagId);
+
+      // 2. Retag the source's items; items with both keep one link
+      const links = await tx.itemTag.findMany({
+        where: { tagId: source.id },
+        select: { itemId: true },
+      });
+      if (links.length > 0) {
+        await tx.itemTag.createMany({
+          data: links.map(link => ({ itemId: link.itemId, tagId: target.id })),
+          skipDuplicates: true,
+        });
+      }
+
+      // 3. Move custom field scoping and saved search filters over
+      await this.replaceFieldTag(tx, householdId, source.id, target.id);
+      await this.replaceSearchTag(tx, householdId, source.id, target.id);
+
+      // 4. Delete the source tag (its links go with it)
+      await tx.tag.delete({ where: { id: source.id } });
+
+      // 5. Recount the target's items
+      const usageCount = await tx.itemTag.count({ where: { tagId: target.id } });
+      return await tx.tag.update({
+        where: { id: target.id },
+        data: { usageCount },
+        select: TAG_SELECT,
+      });
+    });
+  }
+
+  /**
+   * Replace the tags on an item, within the caller's transaction
+   *
+   * @param tx - Transaction client
+   * @param householdId - ID of the household the item belongs to
+   * @param itemId - ID of the item
+   * @param tagIds - Tags the item should carry afterwards
+   * @returns Promise resolving to the tags added and removed
+   */
+  async setItemTags(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    itemId: string,
+    tagIds: string[]
+  ): Promise<{ added: string[]; removed: string[] }> {
+    // 1. Tags must belong to the household
+    await this.validateTags(tx, householdId, tagIds);
+
+    // 2. Work out what changes
+    const current = await tx.itemTag.findMany({
+      where: { itemId },
+      select: { tagId: true },
+    });
+    const currentIds = current.map(link => link.tagId);
+    const added = tagIds.filter(tagId => !currentIds.includes(tagId));
+    const removed = currentIds.filter(tagId => !tagIds.includes(tagId));
+
+    // 3. Update the links and usage counts together
+    if (removed.length > 0) {
+      await tx.itemTag.deleteMany({ where: { itemId, tagId: { in: removed } } });
+      await tx.tag.updateMany({
+        where: { id: { in: removed } },
+        data: { usageCount: { decrement: 1 } },
+      });
+    }
+    if (added.length > 0) {
+      await tx.itemTag.createMany({ data: added.map(tagId => ({ itemId, tagId })) });
+      await tx.tag.updateMany({
+        where: { id: { in: added } },
+        data: { usageCount: { increment: 1 } },
+      });
+    }
+
+    return { added, removed };
+  }
+
+  // Private helper methods
+
+  /**
+   * Check that tags belong to the household
+   */
+  private async validateTags(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    tagIds: string[]
+  ): Promise<void> {
+    if (tagIds.length === 0) return;
+
+    const count = await tx.tag.count({ where: { id: { in: tagIds }, householdId } });
+    if (count !== tagIds.length) {
+      throw new Error('Tags must belong to this household');
+    }
+  }
+
+  /**
+   * Validate that a tag exists and belongs to the household
+   */
+  private async validateTagAccess(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    tagId: string
+  ) {
+    const tag = await tx.tag.findFirst({
+      where: { id: tagId, householdId },
+    });
+
+    if (!tag) {
+      throw new Error('Tag not found or access denied');
+    }
+
+    return tag;
+  }
+
+  /**
+   * Check that no other tag uses the name, ignoring case
+   */
+  private async ensureNameAvailable(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    name: string,
+    exceptTagId?: string
+  ): Promise<void> {
+    const existing = await tx.tag.findFirst({
+      where: {
+        householdId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(exceptTagId && { id: { not: exceptTagId } }),
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new Error(`A tag named "${name}" already exists`);
+    }
+  }
+
+  /**
+   * Swap a tag in the scope of custom fields, or drop it when there is no
+   * replacement
+   */
+  private async replaceFieldTag(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    tagId: string,
+    replacementId: string | null
+  ): Promise<void> {
+    const fields = await tx.customField.findMany({
+      where: { householdId, tagIds: { has: tagId } },
+      select: { id: true, tagIds: true },
+    });
+
+    for (const field of fields) {
+      const tagIds = field.tagIds.filter(id => id !== tagId);
+      if (replacementId && !tagIds.includes(replacementId)) {
+        tagIds.push(replacementId);
+      }
+
+      await tx.customField.update({
+        where: { id: field.id },
+        data: { tagIds },
+      });
+    }
+  }
+
+  /**
+   * Swap a tag in the filters of saved searches, or drop it when there is
+   * no replacement
+   */
+  private async replaceSearchTag(
+    tx: Prisma.TransactionClient,
+    householdId: string,
+    tagId: string,
+    replacementId: string | null
+  ): Promise<void> {
+    const searches = await tx.savedSearch.findMany({
+      where: { householdId, filters: { path: ['tagIds'], array_contains: [tagId] } },
+      select: { id: true, filters: true },
+    });
+
+    for (const search of searches) {
+      const { tagIds: current, ...filters } = search.filters as Prisma.JsonObject;
+      const tagIds = (current as string[]).filter(id => id !== tagId);
+      if (replacementId && !tagIds.includes(replacementId)) {
+        tagIds.push(replacementId);
+      }
+
+      await tx.savedSearch.update({
+        where: { id: search.id },
+        data: { filters: tagIds.length > 0 ? { ...filters, tagIds } : filters },
+      });
+    }
+  }
+}
+
+/**
+ * Singleton instance of TagService
+ */
+export const tagService = new TagService(new PrismaClient());
@@ -0,0 +1,59 @@
+/**
+ * Activity Log Types
+ *
+ * Type definitions for the household audit trail and the per-item history
+ * timeline built from it.
+ *
+ * @category Types
+ */
+
+import type { ActivityAction, ActivityEntityType } from '@prisma/client';
+
+/**
+ * Field-level changes keyed by field name
+ */
+export type ActivityDiff = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Activity entry as returned by GET /api/v1/activity
+ *
+ * @interface ActivityLogEntry
+ */
+export interface ActivityLogEntry {
+  id: string;
+  householdId: string;
+  userId: string | null;
+  entityType: ActivityEntityType;
+  entityId: string;
+  action: ActivityAction;
+
+  /** Changed fields; a full snapshot for CREATED */
+  diff: ActivityDiff;
+
+  /** Action context (item name, fromPath/toPath for moves, photo details) */
+  metadata: Record<string, unknown>;
+
+  ipAddress: string | null;
+
+  /** ISO timestamp */
+  createdAt: string;
+
+  /** Acting user, null when the account was removed */
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
+}
+
+/**
+ * Event type groups offered by the history timeline filter
+ */
+export type ActivityEventType =
+  | 'all'
+  | 'created'
+  | 'edits'
+  | 'moves'
+  | 'status'
+  | 'loans'
+  | 'photos';
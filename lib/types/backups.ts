@@ -0,0 +1,223 @@
+/**
+ * Household Backup Types
+ *
+ * Type definitions for the household backup archive: a ZIP holding a JSON
+ * manifest of everything in one household plus the original photo files,
+ * and the result of restoring one.
+ *
+ * @category Types
+ * @since 1.11.0
+ */
+
+import type { CustomFieldType, DepreciationMethod, ItemStatus, LocationType, NfcTagStatus } from '@prisma/client';
+
+/**
+ * Location in a backup manifest; `parentId` refers to another manifest location
+ */
+export interface BackupLocation {
+  id: string;
+  name: string;
+  description: string | null;
+  parentId: string | null;
+  path: string;
+  level: number;
+  locationType: LocationType;
+  createdAt: string;
+}
+
+/**
+ * Category in a backup manifest; `parentId` refers to another manifest category
+ */
+export interface BackupCategory {
+  id: string;
+  name: string;
+  parentId: string | null;
+  path: string;
+  level: number;
+  depreciationMethod: DepreciationMethod | null;
+  usefulLifeYears: number | null;
+
+  /** Decimal rate as a string so no precision is lost */
+  depreciationRate: string | null;
+  createdAt: string;
+}
+
+/**
+ * Custom field definition in a backup manifest; item values live in item metadata
+ */
+export interface BackupCustomField {
+  id: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  required: boolean;
+  searchable: boolean;
+
+  /** Manifest tag and category IDs the field is scoped to */
+  tagIds: string[];
+  locationTypes: LocationType[];
+  categoryIds: string[];
+  displayOrder: number;
+  createdAt: string;
+}
+
+/**
+ * Tag in a backup manifest
+ */
+export interface BackupTag {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: string;
+}
+
+/**
+ * Photo in a backup manifest
+ */
+export interface BackupPhoto {
+  id: string;
+
+  /** Archive path of the original file, or null when it could not be downloaded */
+  file: string | null;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  width: number | null;
+  height: number | null;
+  displayOrder: number;
+  isPrimary: boolean;
+  createdAt: string;
+}
+
+/**
+ * Item in a backup manifest, with its tags and photos
+ */
+export interface BackupItem {
+  id: string;
+  locationId: string;
+  categoryId: string | null;
+  name: string;
+  description: string | null;
+  quantity: number;
+  unit: string;
+
+  /** Decimal amounts as strings so no precision is lost */
+  purchasePrice: string | null;
+  currentValue: string | null;
+  purchaseDate: string | null;
+  status: ItemStatus;
+  borrowedAt: string | null;
+  borrowedUntil: string | null;
+  metadata: unknown;
+  createdAt: string;
+  updatedAt: string;
+  tagIds: string[];
+  photos: BackupPhoto[];
+}
+
+/**
+ * Loan in a backup manifest
+ */
+export interface BackupLoan {
+  id: string;
+  itemId: string;
+  borrowerName: string;
+  borrowerContact: string | null;
+  lentAt: string;
+  dueAt: string | null;
+  notes: string | null;
+  returnedAt: string | null;
+  returnCondition: string | null;
+  returnNotes: string | null;
+}
+
+/**
+ * NFC tag binding in a backup manifest
+ */
+export interface BackupNfcTag {
+  id: string;
+  uid: string;
+  label: string | null;
+  itemId: string | null;
+  locationId: string | null;
+  status: NfcTagStatus;
+  retiredAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * The manifest.json at the root of a backup archive
+ *
+ * @interface BackupManifest
+ */
+export interface BackupManifest {
+  /** Always "household-backup" */
+  format: 'household-backup';
+
+  /** Archive format version; restores reject newer versions */
+  version: number;
+  createdAt: string;
+
+  household: {
+    name: string;
+    description: string | null;
+    settings: unknown;
+  };
+
+  locations: BackupLocation[];
+
+  /** Parents before children; empty in version 1 archives */
+  categories: BackupCategory[];
+  tags: BackupTag[];
+
+  /** Empty in version 1 archives */
+  customFields: BackupCustomField[];
+  items: BackupItem[];
+  loans: BackupLoan[];
+  nfcTags: BackupNfcTag[];
+}
+
+/**
+ * Where a backup is restored
+ */
+export type RestoreTarget =
+  | { mode: 'new'; name?: string }
+  | { mode: 'current'; householdId: string };
+
+/**
+ * Outcome of restoring a backup
+ *
+ * @interface RestoreResult
+ */
+export interface RestoreResult {
+  householdId: string;
+  householdName: string;
+
+  counts: {
+    locations: number;
+    categories: number;
+    tags: number;
+    customFields: number;
+    items: number;
+    photos: number;
+    loans: number;
+    nfcTags: number;
+  };
+
+  /** Photos listed in the manifest whose files were missing from the archive */
+  missingPhotos: number;
+}
+
+/**
+ * Backup-specific error with code and context
+ *
+ * @interface BackupError
+ */
+export interface BackupError extends Error {
+  /** Backup-specific error code */
+  code: 'FILE_TOO_LARGE' | 'INVALID_ARCHIVE' | 'UNSUPPORTED_VERSION' | 'HOUSEHOLD_NOT_EMPTY';
+
+  /** Additional error context (validation details for INVALID_ARCHIVE) */
+  context?: Record<string, any>;
+}
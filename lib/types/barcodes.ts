@@ -0,0 +1,57 @@
+/**
+ * Barcode Scanning Types
+ *
+ * Type definitions for camera-based code scanning. House labels (QR and
+ * Code 128, see ./labels) open the resolver; retail EAN/UPC codes are
+ * stored on items in metadata.barcode.
+ *
+ * @category Types
+ */
+
+/**
+ * Symbologies the decoder looks for
+ */
+export type BarcodeFormat =
+  | 'qr_code'
+  | 'code_128'
+  | 'ean_13'
+  | 'ean_8'
+  | 'upc_a'
+  | 'upc_e';
+
+/**
+ * Raw decoder output for a single frame
+ *
+ * @interface DecodedBarcode
+ */
+export interface DecodedBarcode {
+  /** Symbology the code was read as */
+  format: BarcodeFormat;
+
+  /** Decoded payload */
+  text: string;
+}
+
+/**
+ * What a decoded code means to the app
+ */
+export type ScannedCode =
+  | {
+      /** One of our printed labels or NFC resolver URLs */
+      kind: 'house-label';
+      /** Tag UID to pass to /t/[code] */
+      code: string;
+      decoded: DecodedBarcode;
+    }
+  | {
+      /** Product barcode printed by the manufacturer */
+      kind: 'retail';
+      /** Normalized GTIN (EAN-13 for UPC-A, 8 digits for EAN-8/UPC-E) */
+      barcode: string;
+      decoded: DecodedBarcode;
+    }
+  | {
+      /** Anything else (third-party QR codes, unknown Code 128 payloads) */
+      kind: 'unknown';
+      decoded: DecodedBarcode;
+    };
@@ -0,0 +1,80 @@
+/**
+ * Category Types
+ *
+ * Type definitions for the household item taxonomy. Categories form a tree
+ * (e.g. Electronics > Audio > Headphones); each item has at most one, and
+ * a category's default custom fields and depreciation rule also apply to
+ * its subcategories.
+ *
+ * @category Types
+ * @since 1.15.0
+ */
+
+import type { DepreciationMethod } from '@prisma/client';
+
+/** Separator between category names in a path */
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+/**
+ * How an item's value falls over time
+ *
+ * @interface DepreciationRule
+ */
+export interface DepreciationRule {
+  method: DepreciationMethod;
+
+  /** Years until a straight-line item is worth nothing */
+  usefulLifeYears: number | null;
+
+  /** Percentage of the remaining value lost each year on a declining balance */
+  depreciationRate: number | null;
+}
+
+/**
+ * Category as returned by GET /api/v1/categories
+ *
+ * @interface CategoryEntry
+ */
+export interface CategoryEntry {
+  id: string;
+  name: string;
+  parentId: string | null;
+
+  /** Names from the root down, joined with " > " */
+  path: string;
+
+  /** Depth in the tree; root categories are 0 */
+  level: number;
+
+  /** Own depreciation rule; null fields inherit from the parent */
+  depreciationMethod: DepreciationMethod | null;
+  usefulLifeYears: number | null;
+  depreciationRate: number | null;
+
+  /** Custom fields items in the category are asked for */
+  customFieldIds: string[];
+
+  /** Items filed directly under the category */
+  itemCount: number;
+}
+
+/**
+ * Item totals for one root category, as returned by
+ * GET /api/v1/categories/breakdown
+ *
+ * @interface CategoryBreakdownEntry
+ */
+export interface CategoryBreakdownEntry {
+  /** Null for items without a category */
+  categoryId: string | null;
+  name: string;
+
+  /** Items in the category and its subcategories */
+  itemCount: number;
+
+  /** Sum of the items' current values */
+  totalValue: number;
+
+  /** Sum of the values after applying each item's depreciation rule */
+  depreciatedValue: number;
+}
@@ -0,0 +1,71 @@
+/**
+ * Custom Field Types
+ *
+ * Type definitions for typed item fields a household defines. Values are
+ * stored in `Item.metadata` under the field's key, so they travel with
+ * backups and can be exported as `metadata.<key>` columns.
+ *
+ * @category Types
+ * @since 1.14.0
+ */
+
+import type { CustomFieldType, LocationType } from '@prisma/client';
+
+/**
+ * Custom field definition
+ *
+ * @interface CustomFieldDefinition
+ */
+export interface CustomFieldDefinition {
+  id: string;
+  householdId: string;
+
+  /** Metadata key the value is stored under; fixed once created */
+  key: string;
+
+  /** Name shown on forms, item pages and export headers */
+  label: string;
+
+  /** Value type; fixed once created */
+  type: CustomFieldType;
+
+  /** Allowed values of a SELECT field */
+  options: string[];
+
+  /** Items the field applies to must have a value */
+  required: boolean;
+
+  /** Values are matched by item search */
+  searchable: boolean;
+
+  /** Only applies to items with one of these tags (empty: any item) */
+  tagIds: string[];
+
+  /** Only applies to items in these kinds of location (empty: any location) */
+  locationTypes: LocationType[];
+
+  /** Only applies to items in these categories or their subcategories (empty: any item) */
+  categoryIds: string[];
+
+  /** Position on forms, lowest first */
+  displayOrder: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What decides whether a field applies to an item
+ *
+ * @interface CustomFieldScope
+ */
+export interface CustomFieldScope {
+  /** IDs of the item's tags */
+  tagIds: string[];
+
+  /** Type of the item's location */
+  locationType?: LocationType;
+
+  /** IDs of the item's category and its ancestors */
+  categoryIds?: string[];
+}
@@ -8,12 +8,81 @@
  * @since 1.8.0
  */
 
-import type { Item, Location, ItemPhoto, Tag, Household, ItemStatus } from '@prisma/client';
+import type { Item, Location, ItemPhoto, Tag, Household, ItemStatus, LocationType } from '@prisma/client';
 
 /**
  * Supported export file formats
+ *
+ * - `csv` - flat rows, importable back into the inventory
+ * - `json` - nested items with their location, tags and photos as objects
+ * - `xlsx` - one sheet per top-level location plus a summary sheet
+ * - `pdf` - printable inventory with a thumbnail of each item's primary photo
+ */
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'pdf';
+
+/**
+ * What an export job produces
+ *
+ * - `inventory` - the filtered items in the chosen format
+ * - `insurance` - a signed PDF of insured items grouped by room, optionally
+ *   reconstructed for a past date from the activity history
+ */
+export type ExportReportType = 'inventory' | 'insurance';
+
+/**
+ * Date formats for CSV and XLSX columns (dates and timestamps in UTC)
+ *
+ * - `iso` - 2026-03-04 / 2026-03-04T10:30:00.000Z
+ * - `us` - 03/04/2026 / 03/04/2026 10:30
+ * - `eu` - 04.03.2026 / 04.03.2026 10:30
+ */
+export type ExportDateFormat = 'iso' | 'us' | 'eu';
+
+/**
+ * Column selection and formatting for CSV and XLSX exports
+ *
+ * @interface ExportColumnSettings
+ * @since 1.13.0
+ */
+export interface ExportColumnSettings {
+  /**
+   * Column IDs in output order: built-in columns (see EXPORT_COLUMNS) or
+   * `metadata.<key>` for a custom metadata key
+   * @example ["name", "locationPath", "currentValue", "metadata.serialNumber"]
+   */
+  columns: string[];
+
+  /** CSV field delimiter */
+  delimiter: ',' | ';' | '\t' | '|';
+
+  /** How date columns are written */
+  dateFormat: ExportDateFormat;
+
+  /** How currency columns are written, e.g. "€12,50" */
+  currency: {
+    symbol: string;
+    decimalSeparator: '.' | ',';
+  };
+}
+
+/**
+ * Named column settings saved for a household
+ *
+ * @interface ExportTemplate
+ * @since 1.13.0
  */
-export type ExportFormat = 'csv';
+export interface ExportTemplate {
+  id: string;
+  householdId: string;
+  name: string;
+  settings: ExportColumnSettings;
+
+  /** Member who saved the template, null once their account is removed */
+  createdBy: string | null;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
 
 /**
  * Export job status states for progress tracking
@@ -33,11 +102,32 @@ export type ExportJobStatus =
  */
 export interface CreateExportRequest {
   /**
-   * Export file format (currently only CSV supported)
-   * @example "csv"
+   * Export file format
+   * @example "xlsx"
    */
   format: ExportFormat;
 
+  /**
+   * Report to generate; insurance reports must be PDF and take no filters
+   * @default "inventory"
+   */
+  report?: ExportReportType;
+
+  /**
+   * Past date an insurance report should show the inventory as of
+   */
+  asOf?: Date;
+
+  /**
+   * Column settings for CSV and XLSX exports; defaults to DEFAULT_CSV_CONFIG
+   */
+  columnSettings?: ExportColumnSettings;
+
+  /**
+   * Saved template to take the column settings from, instead of columnSettings
+   */
+  templateId?: string;
+
   /**
    * Optional filters to apply to the export
    */
@@ -51,6 +141,8 @@ export interface CreateExportRequest {
     /** Date range for item creation */
     createdAfter?: Date;
     createdBefore?: Date;
+    /** Only include the items a saved search matches when the export runs */
+    savedSearchId?: string;
   };
 }
 
@@ -67,9 +159,21 @@ export interface ExportJob {
   /** User who requested the export */
   userId: string;
 
+  /** Household the export was taken from */
+  householdId: string;
+
   /** Export file format */
   format: ExportFormat;
 
+  /** Report the job generates */
+  report: ExportReportType;
+
+  /** Date an insurance report was reconstructed for */
+  asOf?: Date;
+
+  /** HMAC-SHA256 signature printed on a completed insurance report */
+  signature?: string;
+
   /** Current job status */
   status: ExportJobStatus;
 
@@ -97,13 +201,22 @@ export interface ExportJob {
   /** Export filters applied */
   filters?: CreateExportRequest['filters'];
 
+  /** Column settings the file is written with (copied from the template, if one was used) */
+  columnSettings?: ExportColumnSettings;
+
+  /** Schedule that created the job; its file is kept in the backups bucket */
+  scheduleId?: string;
+
   /** Job creation timestamp */
   createdAt: Date;
 
+  /** When a worker first picked the job up */
+  startedAt?: Date;
+
   /** Job completion timestamp */
   completedAt?: Date;
 
-  /** Export expiration timestamp (for cleanup) */
+  /** Export expiration timestamp (for cleanup); unset for scheduled exports */
   expiresAt?: Date;
 }
 
@@ -159,6 +272,10 @@ export interface ExportItemData {
   // Computed fields
   totalValue: number;
   photoCount: number;
+  /** `serialNumber` from the item's metadata */
+  serialNumber: string | null;
+  /** Free-form item metadata */
+  metadata: Record<string, unknown>;
   tagNames: string[];
   photoUrls: string[];
 }
@@ -281,7 +398,7 @@ export interface ExportStatistics {
  */
 export interface ExportError extends Error {
   /** Export-specific error code */
-  code: 'UNAUTHORIZED' | 'DATASET_TOO_LARGE' | 'EXPORT_GENERATION_FAILED' | 'PHOTO_ACCESS_DENIED' | 'MEMORY_LIMIT_EXCEEDED' | 'BACKGROUND_JOB_FAILED';
+  code: 'UNAUTHORIZED' | 'DATASET_TOO_LARGE' | 'EXPORT_GENERATION_FAILED' | 'PHOTO_ACCESS_DENIED' | 'MEMORY_LIMIT_EXCEEDED' | 'BACKGROUND_JOB_FAILED' | 'LABEL_TARGETS_NOT_FOUND' | 'EXPORT_NOT_FOUND' | 'EXPORT_NOT_CANCELLABLE' | 'EXPORT_NOT_READY' | 'EXPORT_EXPIRED' | 'EXPORT_TEMPLATE_NOT_FOUND' | 'EXPORT_TEMPLATE_NAME_TAKEN' | 'EXPORT_SCHEDULE_NOT_FOUND' | 'SAVED_SEARCH_NOT_FOUND';
 
   /** Export job ID where error occurred */
   jobId?: string;
@@ -308,4 +425,138 @@ export interface ExportSecurityValidation {
 
   /** Validation warnings */
   warnings: string[];
-}
\ No newline at end of file
+}
+
+/**
+ * Recurring export of a household, kept in the backups bucket
+ *
+ * @interface ExportSchedule
+ * @since 1.13.0
+ */
+export interface ExportSchedule {
+  id: string;
+  householdId: string;
+
+  /** Member the exports are created as */
+  userId: string;
+
+  name: string;
+  format: ExportFormat;
+
+  /** Saved filter set applied to every run */
+  filters?: CreateExportRequest['filters'];
+
+  /** Columns and formatting for CSV and XLSX runs */
+  columnSettings?: ExportColumnSettings;
+
+  /**
+   * Five-field cron expression, evaluated in UTC
+   * @example "0 3 * * 1" (Mondays at 03:00)
+   */
+  cronExpression: string;
+
+  /** Completed exports kept; older files are deleted */
+  retentionCount: number;
+
+  enabled: boolean;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+
+  /** Why the last run could not create an export */
+  lastError?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Outcome of one export schedule runner pass
+ *
+ * @interface ExportScheduleRunResult
+ * @since 1.13.0
+ */
+export interface ExportScheduleRunResult {
+  /** Schedules that were due and claimed by this runner */
+  due: number;
+
+  /** Export jobs created */
+  started: number;
+
+  /** Schedules whose export could not be created */
+  failed: number;
+}
+
+/**
+ * Outcome of one export worker run
+ *
+ * @interface ExportWorkerResult
+ * @since 1.12.0
+ */
+export interface ExportWorkerResult {
+  /** Jobs claimed during the run */
+  processed: number;
+
+  /** Jobs whose file was uploaded */
+  completed: number;
+
+  /** Jobs that failed or were put back for a retry */
+  failed: number;
+
+  /** Jobs cancelled while they were processing */
+  cancelled: number;
+}
+
+/**
+ * Location as used to group an insurance report
+ *
+ * @interface InsuranceReportLocation
+ * @since 1.13.0
+ */
+export interface InsuranceReportLocation {
+  id: string;
+  name: string;
+  parentId: string | null;
+  path: string;
+  locationType: LocationType;
+
+  /** Value of the items directly in this location (Location.totalValue) */
+  totalValue: number;
+}
+
+/**
+ * Items of one room in an insurance report
+ *
+ * @interface InsuranceReportRoom
+ * @since 1.13.0
+ */
+export interface InsuranceReportRoom {
+  /** ROOM (or BUILDING, when there is no room above the items) they are grouped under */
+  location: InsuranceReportLocation;
+
+  /** Insured items in the room and the locations inside it, by name */
+  items: ExportItemData[];
+
+  /** Sum of totalValue over the room and the locations inside it */
+  totalValue: number;
+}
+
+/**
+ * Contents of an insurance report, as covered by its signature
+ *
+ * @interface InsuranceReport
+ * @since 1.13.0
+ */
+export interface InsuranceReport {
+  /** Export job ID, printed so the report can be matched to its job */
+  reportId: string;
+  householdId: string;
+  householdName: string;
+  generatedAt: Date;
+
+  /** Date the inventory was reconstructed for; null for the current inventory */
+  asOf: Date | null;
+
+  rooms: InsuranceReportRoom[];
+  itemCount: number;
+  grandTotal: number;
+}
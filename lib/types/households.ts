@@ -0,0 +1,69 @@
+/**
+ * Household Membership Types
+ *
+ * Type definitions for household members and the email invitations that
+ * bring new members in.
+ *
+ * @category Types
+ */
+
+/**
+ * Household member role, most privileged first
+ */
+export type HouseholdRoleName = 'owner' | 'admin' | 'member' | 'viewer';
+
+/**
+ * Member as returned by GET /api/v1/households/members
+ *
+ * @interface HouseholdMemberEntry
+ */
+export interface HouseholdMemberEntry {
+  id: string;
+  userId: string;
+  role: HouseholdRoleName;
+
+  /** Per-capability overrides on top of the role defaults, e.g. `{ "items:delete": true }` */
+  permissions: Record<string, boolean> | null;
+
+  /** ISO timestamp */
+  joinedAt: string;
+
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+  };
+}
+
+/**
+ * Pending invitation as returned by GET /api/v1/households/invitations
+ *
+ * @interface HouseholdInvitationEntry
+ */
+export interface HouseholdInvitationEntry {
+  id: string;
+
+  /** Invitee's email address */
+  email: string;
+  role: HouseholdRoleName;
+
+  /** ISO timestamps */
+  expires: string;
+  createdAt: string;
+
+  inviter: { id: string; name: string | null; email: string } | null;
+}
+
+/**
+ * Invitation details shown to the invitee before accepting
+ *
+ * @interface InvitationPreview
+ */
+export interface InvitationPreview {
+  email: string;
+  role: HouseholdRoleName;
+  expires: Date;
+  household: { id: string; name: string };
+  inviter: { name: string | null; email: string } | null;
+}
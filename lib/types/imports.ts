@@ -0,0 +1,134 @@
+/**
+ * Import Types
+ *
+ * Type definitions for bringing items in from CSV and XLSX spreadsheets,
+ * including column mapping and the dry-run report shown before committing.
+ *
+ * @category Types
+ * @since 1.11.0
+ */
+
+/**
+ * Spreadsheet formats accepted by the importer
+ */
+export type ImportFileFormat = 'csv' | 'xlsx';
+
+/**
+ * Item field a spreadsheet column can be mapped to
+ */
+export type ImportField =
+  | 'name'
+  | 'description'
+  | 'quantity'
+  | 'unit'
+  | 'purchasePrice'
+  | 'currentValue'
+  | 'purchaseDate'
+  | 'status'
+  | 'locationPath'
+  | 'tags';
+
+/**
+ * Column header to item field mapping; unmapped or 'ignore' columns are skipped
+ */
+export type ImportColumnMapping = Record<string, ImportField | 'ignore'>;
+
+/**
+ * What happens to an existing item with the same name in the same location
+ */
+export type ImportDuplicateStrategy = 'update' | 'skip' | 'create';
+
+/**
+ * Planned (dry run) or applied outcome for a single row
+ */
+export type ImportRowAction = 'create' | 'update' | 'skip' | 'error';
+
+/**
+ * Import options sent alongside the file
+ *
+ * @interface ImportOptions
+ */
+export interface ImportOptions {
+  /** Report what would happen without writing anything */
+  dryRun: boolean;
+
+  /** Header mapping; defaults to the CSV export columns */
+  mapping?: ImportColumnMapping;
+
+  onDuplicate: ImportDuplicateStrategy;
+
+  /** Create locations named in "Location Path" that don't exist yet */
+  createMissingLocations: boolean;
+
+  /** Create tags that don't exist yet instead of skipping them */
+  createMissingTags: boolean;
+
+  /** Commit the valid rows even when other rows have errors */
+  skipInvalidRows: boolean;
+}
+
+/**
+ * Per-row result in the import report
+ *
+ * @interface ImportRowResult
+ */
+export interface ImportRowResult {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number;
+  action: ImportRowAction;
+  name: string | null;
+  locationPath: string | null;
+
+  /** Existing item to update, or the item created once committed */
+  itemId?: string;
+
+  /** Problems that stop the row importing */
+  errors: string[];
+
+  /** Problems that were worked around, e.g. an unknown tag that was dropped */
+  warnings: string[];
+}
+
+/**
+ * Result of a dry run or committed import
+ *
+ * @interface ImportReport
+ */
+export interface ImportReport {
+  dryRun: boolean;
+
+  /** True once items were written */
+  committed: boolean;
+  format: ImportFileFormat;
+
+  /** Data rows read, excluding blank rows */
+  totalRows: number;
+
+  /** Header-to-field mapping that was applied */
+  mapping: ImportColumnMapping;
+
+  /** Headers that were not mapped to any field */
+  unmappedHeaders: string[];
+
+  summary: Record<ImportRowAction, number>;
+
+  /** Location paths that will be (or were) created */
+  locationsToCreate: string[];
+
+  /** Tag names that will be (or were) created */
+  tagsToCreate: string[];
+  rows: ImportRowResult[];
+}
+
+/**
+ * Error types specific to import operations
+ *
+ * @interface ImportError
+ */
+export interface ImportError extends Error {
+  /** Import-specific error code */
+  code: 'UNSUPPORTED_FORMAT' | 'FILE_TOO_LARGE' | 'TOO_MANY_ROWS' | 'MISSING_COLUMNS' | 'ROWS_INVALID';
+
+  /** Additional error context (the dry-run report for ROWS_INVALID) */
+  context?: Record<string, any>;
+}
@@ -3,6 +3,17 @@ export * from './common';
 export * from './auth';
 export * from './search';
 export * from './exports';
+export * from './labels';
+export * from './barcodes';
+export * from './activity';
+export * from './loans';
+export * from './households';
+export * from './imports';
+export * from './backups';
+export * from './custom-fields';
+export * from './categories';
+export * from './tags';
+export * from './saved-searches';
 // export * from './items';
 // export * from './users';
 // export * from './api';
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * Label Sheet Types
+ *
+ * Type definitions for printable QR/barcode label sheets, the fallback
+ * for phones without NFC. Labels encode the /t/[code] resolver URL.
+ *
+ * @category Types
+ */
+
+/**
+ * Supported label sheet layouts (Avery product codes)
+ */
+export type LabelLayoutId =
+  | 'avery-5160'  // US Letter, 30 per sheet, 2.625" x 1"
+  | 'avery-5163'  // US Letter, 10 per sheet, 4" x 2"
+  | 'avery-22805' // US Letter, 24 per sheet, 1.5" x 1.5" square
+  | 'avery-l7160' // A4, 21 per sheet, 63.5mm x 38.1mm
+  | 'avery-l7163'; // A4, 14 per sheet, 99.1mm x 38.1mm
+
+/**
+ * Machine-readable code printed on each label
+ */
+export type LabelCodeType = 'qr' | 'code128';
+
+/**
+ * Physical label sheet geometry (all measurements in PDF points, 72 per inch)
+ *
+ * @interface LabelLayout
+ */
+export interface LabelLayout {
+  /** Human-readable layout name */
+  name: string;
+
+  /** Paper size */
+  pageSize: 'LETTER' | 'A4';
+
+  /** Labels across */
+  columns: number;
+
+  /** Labels down */
+  rows: number;
+
+  /** Single label width */
+  labelWidth: number;
+
+  /** Single label height */
+  labelHeight: number;
+
+  /** Distance from top of page to first label */
+  marginTop: number;
+
+  /** Distance from left of page to first label */
+  marginLeft: number;
+
+  /** Distance between left edges of adjacent labels */
+  horizontalPitch: number;
+
+  /** Distance between top edges of adjacent labels */
+  verticalPitch: number;
+}
+
+/**
+ * Data printed on a single label
+ *
+ * @interface LabelData
+ */
+export interface LabelData {
+  /** What the label is stuck on */
+  targetType: 'item' | 'location';
+
+  /** Item or location ID */
+  targetId: string;
+
+  /** Item or location name */
+  name: string;
+
+  /** Location path, e.g. "Garage → Workbench" */
+  locationPath: string;
+
+  /** Short code the resolver looks up (tag UID) */
+  code: string;
+
+  /** Full resolver URL encoded in the QR code */
+  url: string;
+}
+
+/**
+ * Generated label sheet
+ *
+ * @interface LabelSheetResult
+ */
+export interface LabelSheetResult {
+  /** Rendered PDF */
+  buffer: Buffer;
+
+  /** Suggested download filename */
+  filename: string;
+
+  /** Number of labels printed */
+  labelCount: number;
+
+  /** Number of sheets used */
+  pageCount: number;
+}
@@ -0,0 +1,62 @@
+/**
+ * Loan Types
+ *
+ * Type definitions for lending items to household members or outside
+ * contacts. Each loan is kept as history once the item comes back.
+ *
+ * @category Types
+ */
+
+/**
+ * User shown as a loan party
+ */
+export interface LoanUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+/**
+ * Loan as returned by GET /api/v1/items/{id}/loans
+ *
+ * @interface ItemLoanEntry
+ */
+export interface ItemLoanEntry {
+  id: string;
+  itemId: string;
+
+  /** Set when the borrower is a household member */
+  borrowerUserId: string | null;
+
+  /** Display name; the only identity for outside contacts */
+  borrowerName: string;
+
+  /** Phone number, email, etc. for outside contacts */
+  borrowerContact: string | null;
+
+  /** ISO timestamps */
+  lentAt: string;
+  dueAt: string | null;
+  returnedAt: string | null;
+
+  notes: string | null;
+  returnCondition: 'GOOD' | 'DAMAGED' | 'NEEDS_MAINTENANCE' | null;
+  returnNotes: string | null;
+
+  borrowerUser: LoanUser | null;
+  lender: LoanUser | null;
+}
+
+/**
+ * Open loan past its due date, as returned by GET /api/v1/loans/overdue
+ *
+ * @interface OverdueLoanEntry
+ */
+export interface OverdueLoanEntry extends Omit<ItemLoanEntry, 'borrowerUser' | 'lender'> {
+  dueAt: string;
+  item: {
+    id: string;
+    name: string;
+    location: { name: string; path: string };
+  };
+}
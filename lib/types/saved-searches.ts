@@ -0,0 +1,42 @@
+/**
+ * Saved Search Types
+ *
+ * Type definitions for saved searches ("smart collections"): a named search
+ * text plus filters and sort order. Only the query is stored, so the items
+ * in a collection are worked out again every time it is opened or exported.
+ *
+ * @category Types
+ * @since 1.17.0
+ */
+
+import type { AdvancedSearchQuery, SearchFilters } from './search';
+
+/**
+ * Who can see a saved search: only the member who saved it, or the whole
+ * household
+ */
+export type SavedSearchVisibility = 'PERSONAL' | 'HOUSEHOLD';
+
+/**
+ * Saved search as returned by GET /api/v1/saved-searches
+ *
+ * @interface SavedSearchEntry
+ */
+export interface SavedSearchEntry {
+  id: string;
+  name: string;
+
+  /** Search text; empty when the collection is made of filters alone */
+  query: string;
+
+  filters: SearchFilters;
+  sortBy?: AdvancedSearchQuery['sortBy'];
+  sortOrder?: AdvancedSearchQuery['sortOrder'];
+  visibility: SavedSearchVisibility;
+
+  /** Whether the current member saved it, and so may change or delete it */
+  isOwner: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
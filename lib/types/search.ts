@@ -63,6 +63,12 @@ export interface SearchQuery {
    * @default false
    */
   includeTags?: boolean;
+
+  /**
+   * `nextCursor` of the previous page. Pages by position in the results
+   * rather than by offset, so edits to other items do not shift pages.
+   */
+  cursor?: string;
 }
 
 /**
@@ -79,6 +85,12 @@ export interface SearchResultLocation {
   
   /** Full hierarchical path to the location (e.g., "House > Garage > Workbench") */
   path: string;
+
+  /** Locations from the top level down to this one, for "where is it" breadcrumbs */
+  pathComponents?: Array<{
+    id: string;
+    name: string;
+  }>;
 }
 
 /**
@@ -163,6 +175,38 @@ export interface SearchResult {
   relevanceScore?: number;
 }
 
+/**
+ * Location found by a search.
+ * 
+ * Locations whose name or path matches the search text are returned next to
+ * the items, so searching "attic" offers the attic itself.
+ */
+export interface LocationSearchResult {
+  /** Unique identifier for the location */
+  id: string;
+  
+  /** Display name of the location */
+  name: string;
+  
+  /** Full hierarchical path to the location (e.g., "House → Attic") */
+  path: string;
+  
+  /** Locations from the top level down to this one */
+  pathComponents: Array<{
+    id: string;
+    name: string;
+  }>;
+  
+  /** Number of items stored here */
+  itemCount: number;
+  
+  /** 
+   * How well the location matches, on the same 0.0 to 1.0 scale as items.
+   * A name match ranks above a match on a parent's name in the path.
+   */
+  relevanceScore: number;
+}
+
 /**
  * Complete search operation results.
  * 
@@ -184,6 +228,49 @@ export interface SearchResults {
   
   /** Whether there are more results available (for pagination) */
   hasMore: boolean;
+
+  /** Cursor for the next page, null on the last page */
+  nextCursor: string | null;
+
+  /** Locations matching the search, best first; only on the first page */
+  locations: LocationSearchResult[];
+
+  /** Counts of all matching items by status, tag and top-level location */
+  facets?: SearchFacets;
+}
+
+/**
+ * Number of matching items sharing one facet value.
+ */
+export interface SearchFacetCount {
+  /** Filter value: a status, tag ID or location ID */
+  value: string;
+
+  /** Display label */
+  label: string;
+
+  /** Number of matching items */
+  count: number;
+
+  /** Hex color code (tags only) */
+  color?: string;
+}
+
+/**
+ * Facet counts over every item matching a search, not just the current page.
+ *
+ * Each list is ordered by count, highest first. Location counts are rolled
+ * up to the top-level location that contains each item.
+ */
+export interface SearchFacets {
+  /** Counts per item status */
+  statuses: SearchFacetCount[];
+
+  /** Counts per tag */
+  tags: SearchFacetCount[];
+
+  /** Counts per top-level location */
+  locations: SearchFacetCount[];
 }
 
 /**
@@ -277,14 +364,23 @@ export interface SearchSuggestions {
  * operations for more precise results.
  */
 export interface SearchFilters {
-  /** Filter by specific locations */
+  /** Filter by specific locations, including everything inside them */
   locationIds?: string[];
-  
-  /** Filter by specific tags */
+
+  /** Filter by specific tags (items with any of them) */
   tagIds?: string[];
   
   /** Filter by item status */
   statuses?: Array<'AVAILABLE' | 'BORROWED' | 'MAINTENANCE' | 'LOST' | 'SOLD'>;
+
+  /** Leave out items in these locations or inside them */
+  excludeLocationIds?: string[];
+
+  /** Leave out items with any of these tags */
+  excludeTagIds?: string[];
+
+  /** Leave out items with these statuses */
+  excludeStatuses?: Array<'AVAILABLE' | 'BORROWED' | 'MAINTENANCE' | 'LOST' | 'SOLD'>;
   
   /** Filter by value range */
   valueRange?: {
@@ -292,7 +388,7 @@ export interface SearchFilters {
     max?: number;
   };
   
-  /** Filter by date range */
+  /** Filter by the date the item was added */
   dateRange?: {
     from?: Date;
     to?: Date;
@@ -303,6 +399,9 @@ export interface SearchFilters {
     min?: number;
     max?: number;
   };
+
+  /** Only items with (true) or without (false) photos */
+  hasPhotos?: boolean;
 }
 
 /**
@@ -0,0 +1,29 @@
+/**
+ * Tag Types
+ *
+ * Type definitions for household item tags. Tags are flat, free-form
+ * labels; an item can carry any number of them, and each tag tracks how
+ * many items use it so suggestions can lead with the popular ones.
+ *
+ * @category Types
+ * @since 1.16.0
+ */
+
+/** Color new tags get when none is chosen */
+export const DEFAULT_TAG_COLOR = '#6B7280';
+
+/**
+ * Tag as returned by GET /api/v1/tags
+ *
+ * @interface TagEntry
+ */
+export interface TagEntry {
+  id: string;
+  name: string;
+
+  /** Hex color, e.g. "#6B7280" */
+  color: string;
+
+  /** Number of items carrying the tag */
+  usageCount: number;
+}
@@ -0,0 +1,60 @@
+/**
+ * Web NFC type declarations
+ *
+ * Web NFC is only shipped in Chrome on Android and is not part of the
+ * TypeScript DOM lib yet. These cover the subset used by useNfc.
+ *
+ * @see https://w3c.github.io/web-nfc/
+ */
+
+interface NDEFRecordInit {
+  recordType: string;
+  mediaType?: string;
+  id?: string;
+  encoding?: string;
+  lang?: string;
+  data?: string | BufferSource | NDEFMessageInit;
+}
+
+interface NDEFMessageInit {
+  records: NDEFRecordInit[];
+}
+
+interface NDEFRecord {
+  readonly recordType: string;
+  readonly mediaType?: string;
+  readonly id?: string;
+  readonly data?: DataView;
+  readonly encoding?: string;
+  readonly lang?: string;
+}
+
+interface NDEFMessage {
+  readonly records: ReadonlyArray<NDEFRecord>;
+}
+
+interface NDEFReadingEvent extends Event {
+  readonly serialNumber: string;
+  readonly message: NDEFMessage;
+}
+
+interface NDEFScanOptions {
+  signal?: AbortSignal;
+}
+
+interface NDEFWriteOptions {
+  overwrite?: boolean;
+  signal?: AbortSignal;
+}
+
+interface NDEFReader extends EventTarget {
+  onreading: ((this: NDEFReader, event: NDEFReadingEvent) => any) | null;
+  onreadingerror: ((this: NDEFReader, event: Event) => any) | null;
+  scan(options?: NDEFScanOptions): Promise<void>;
+  write(message: string | NDEFMessageInit, options?: NDEFWriteOptions): Promise<void>;
+}
+
+declare var NDEFReader: {
+  prototype: NDEFReader;
+  new (): NDEFReader;
+};
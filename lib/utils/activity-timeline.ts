@@ -0,0 +1,159 @@
+/**
+ * Activity timeline utilities.
+ *
+ * Turns activity log entries into the headlines and field changes shown on
+ * an item's history timeline, and maps timeline filters to log actions.
+ *
+ * @category Utilities
+ * @since 1.10.0
+ */
+
+import type { ActivityAction } from '@prisma/client';
+import type { ActivityEventType, ActivityLogEntry } from '@/lib/types/activity';
+
+/**
+ * Timeline filter options and the log actions each one covers
+ */
+export const ACTIVITY_EVENT_TYPES: Record<ActivityEventType, { label: string; actions: ActivityAction[] }> = {
+  all: { label: 'All events', actions: [] },
+  created: { label: 'Created', actions: ['CREATED'] },
+  edits: { label: 'Edits', actions: ['UPDATED'] },
+  moves: { label: 'Moves', actions: ['MOVED'] },
+  status: { label: 'Status changes', actions: ['STATUS_CHANGED', 'DELETED'] },
+  loans: { label: 'Borrow & return', actions: ['BORROWED', 'RETURNED'] },
+  photos: { label: 'Photos', actions: ['PHOTO_ADDED', 'PHOTO_DELETED'] },
+};
+
+/**
+ * Item fields shown in field-level diffs (others, like IDs, are covered by the headline)
+ */
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  purchasePrice: 'Purchase price',
+  currentValue: 'Current value',
+  purchaseDate: 'Purchase date',
+  status: 'Status',
+  borrowedUntil: 'Due back',
+};
+
+const CURRENCY_FIELDS = new Set(['purchasePrice', 'currentValue']);
+const DATE_FIELDS = new Set(['purchaseDate', 'borrowedUntil']);
+
+/**
+ * A single changed field, formatted for display
+ */
+export interface ActivityFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Formats a stored diff value for display
+ */
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+
+  if (CURRENCY_FIELDS.has(field) && typeof value === 'number') {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+  }
+
+  if (DATE_FIELDS.has(field) && typeof value === 'string') {
+    return new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+      .format(new Date(value));
+  }
+
+  if (field === 'status' && typeof value === 'string') {
+    return value.toLowerCase();
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Actions whose field changes are listed under the headline; the rest
+ * (creation snapshots, loans, photos) are summed up by the headline alone
+ */
+const DIFF_ACTIONS = new Set<ActivityAction>(['UPDATED', 'MOVED', 'STATUS_CHANGED']);
+
+/**
+ * Lists the displayable field changes of an entry
+ *
+ * @param entry - Activity entry
+ * @returns Changed fields in display order
+ */
+export function getActivityFieldChanges(entry: ActivityLogEntry): ActivityFieldChange[] {
+  if (!DIFF_ACTIONS.has(entry.action)) return [];
+
+  return Object.keys(FIELD_LABELS)
+    .filter((field) => field in entry.diff)
+    // The headline already spells out the status change
+    .filter((field) => !(field === 'status' && entry.action === 'STATUS_CHANGED'))
+    .map((field) => ({
+      field,
+      label: FIELD_LABELS[field],
+      before: formatValue(field, entry.diff[field].before),
+      after: formatValue(field, entry.diff[field].after),
+    }));
+}
+
+/**
+ * Builds the one-line headline for an entry
+ *
+ * @param entry - Activity entry
+ * @returns Headline such as "Moved from Garage to Garage → Shelf 2"
+ *
+ * @example
+ * ```typescript
+ * describeActivity({ action: 'MOVED', metadata: { fromPath: 'Garage', toPath: 'Shed' }, ... });
+ * // 'Moved from Garage to Shed'
+ * ```
+ */
+export function describeActivity(entry: ActivityLogEntry): string {
+  const metadata = entry.metadata;
+  const statusChange = entry.diff.status;
+
+  switch (entry.action) {
+    case 'CREATED':
+      return metadata.locationPath ? `Created in ${metadata.locationPath}` : 'Created';
+    case 'UPDATED':
+      return 'Edited';
+    case 'MOVED':
+      return metadata.fromPath
+        ? `Moved from ${metadata.fromPath} to ${metadata.toPath}`
+        : `Moved to ${metadata.toPath ?? 'another location'}`;
+    case 'STATUS_CHANGED':
+      return statusChange
+        ? `Status changed from ${formatValue('status', statusChange.before)} to ${formatValue('status', statusChange.after)}`
+        : 'Status changed';
+    case 'BORROWED': {
+      const lentTo = metadata.borrowerName ? `Lent to ${metadata.borrowerName}` : 'Lent out';
+      return entry.diff.borrowedUntil?.after
+        ? `${lentTo} until ${formatValue('borrowedUntil', entry.diff.borrowedUntil.after)}`
+        : lentTo;
+    }
+    case 'RETURNED':
+      return metadata.condition
+        ? `Returned (${String(metadata.condition).toLowerCase().replace(/_/g, ' ')})`
+        : 'Returned';
+    case 'PHOTO_ADDED':
+      return 'Photo added';
+    case 'PHOTO_DELETED':
+      return 'Photo deleted';
+    case 'DELETED':
+      return 'Deleted';
+    default:
+      return 'Updated';
+  }
+}
+
+/**
+ * Name of the user behind an entry
+ */
+export function getActivityActorName(entry: ActivityLogEntry): string {
+  return entry.user?.name || entry.user?.email || 'Someone';
+}
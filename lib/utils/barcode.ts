@@ -0,0 +1,208 @@
+/**
+ * Barcode scanning utilities.
+ *
+ * Classifies decoded camera codes into house labels (our printed QR/Code 128
+ * labels and NFC resolver URLs) and retail product barcodes, and sends video
+ * frames to the server-side decoder.
+ *
+ * @category Utilities
+ * @since 1.9.0
+ */
+
+import { NfcTagUidSchema } from '@/lib/validation/nfc-tags';
+import { RetailBarcodeSchema } from '@/lib/validation/items';
+import type { DecodedBarcode, ScannedCode } from '@/lib/types/barcodes';
+
+/**
+ * Resolver path written to tags and labels (see buildTagResolverUrl)
+ */
+const TAG_RESOLVER_PATH = /^\/t\/([^/]+)\/?$/;
+
+/**
+ * Short code printed under labels and encoded in Code 128 ("A1B2-C3D4")
+ */
+const SHORT_CODE_PATTERN = /^[0-9A-F]{4}(?:-[0-9A-F]{1,4})+$/i;
+
+const RETAIL_FORMATS = new Set<DecodedBarcode['format']>(['ean_13', 'ean_8', 'upc_a', 'upc_e']);
+
+/**
+ * Works out what a decoded code refers to.
+ *
+ * QR codes only count as house labels when they point at this app's
+ * resolver, so third-party QR codes with a /t/ path are ignored.
+ *
+ * @param decoded - Decoder output
+ * @param origin - This app's origin (window.location.origin)
+ * @returns Classified code
+ *
+ * @example
+ * ```typescript
+ * classifyScannedCode({ format: 'qr_code', text: 'https://inv.example.com/t/A1B2C3D4' }, 'https://inv.example.com');
+ * // { kind: 'house-label', code: 'A1B2C3D4', decoded }
+ * ```
+ */
+export function classifyScannedCode(decoded: DecodedBarcode, origin: string): ScannedCode {
+  if (decoded.format === 'qr_code') {
+    const code = parseResolverUrl(decoded.text, origin);
+    if (code) {
+      return { kind: 'house-label', code, decoded };
+    }
+  }
+
+  if (decoded.format === 'code_128' && SHORT_CODE_PATTERN.test(decoded.text.trim())) {
+    const uid = NfcTagUidSchema.safeParse(decoded.text);
+    if (uid.success) {
+      return { kind: 'house-label', code: uid.data, decoded };
+    }
+  }
+
+  if (RETAIL_FORMATS.has(decoded.format)) {
+    // UPC-E is reported as its 8-digit compressed form and kept that way
+    const barcode = RetailBarcodeSchema.safeParse(decoded.text);
+    if (barcode.success) {
+      return { kind: 'retail', barcode: barcode.data, decoded };
+    }
+  }
+
+  return { kind: 'unknown', decoded };
+}
+
+/**
+ * Extract the tag code from a /t/[code] resolver URL on this origin
+ */
+function parseResolverUrl(text: string, origin: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+
+  if (url.origin !== origin) return null;
+
+  const match = url.pathname.match(TAG_RESOLVER_PATH);
+  if (!match) return null;
+
+  const uid = NfcTagUidSchema.safeParse(decodeURIComponent(match[1]));
+  return uid.success ? uid.data : null;
+}
+
+/**
+ * Sends the current video frame to the decoder.
+ *
+ * The frame is downscaled and JPEG-encoded on a canvas (native, off the
+ * JS thread) and decoded server-side on the barcode worker pool.
+ *
+ * @param video - Playing video element
+ * @param canvas - Scratch canvas to draw into
+ * @param maxDimension - Longest edge of the uploaded frame
+ * @returns Decoded barcode, or null when the frame contains none
+ */
+export async function decodeVideoFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  maxDimension: number = 1024
+): Promise<DecodedBarcode | null> {
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>((resolve) => {
+    canvas.toBlob(resolve, 'image/jpeg', 0.8);
+  });
+  if (!blob) return null;
+
+  const formData = new FormData();
+  formData.append('frame', blob, 'frame.jpg');
+
+  const response = await fetch('/api/v1/utils/decode-barcode', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Barcode decoding failed: ${response.status} ${response.statusText}`);
+  }
+
+  const payload = await response.json();
+  return payload.data ?? null;
+}
+
+/**
+ * Frame scanner options
+ */
+export interface FrameScannerOptions {
+  /** Delay between frames, measured from the end of the previous decode */
+  intervalMs?: number;
+  /** Ignore the same code re-read within this window */
+  dedupeMs?: number;
+  /** Called when a frame fails to decode (network/server errors) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Continuously decodes frames from a video element until stopped.
+ *
+ * Only one frame is in flight at a time, and frames are skipped while the
+ * page is hidden so a backgrounded tab does not keep uploading.
+ *
+ * @param video - Playing video element
+ * @param onDetected - Called with each newly seen code
+ * @param options - Scanner options
+ * @returns Function that stops the scanner
+ */
+export function startFrameScanner(
+  video: HTMLVideoElement,
+  onDetected: (code: ScannedCode) => void,
+  options: FrameScannerOptions = {}
+): () => void {
+  const { intervalMs = 350, dedupeMs = 2000, onError } = options;
+  const canvas = document.createElement('canvas');
+
+  let active = true;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastText: string | null = null;
+  let lastSeenAt = 0;
+
+  const tick = async () => {
+    if (!active) return;
+
+    if (!document.hidden) {
+      try {
+        const decoded = await decodeVideoFrame(video, canvas);
+        const now = Date.now();
+
+        if (active && decoded && (decoded.text !== lastText || now - lastSeenAt > dedupeMs)) {
+          lastText = decoded.text;
+          lastSeenAt = now;
+          onDetected(classifyScannedCode(decoded, window.location.origin));
+        } else if (decoded) {
+          lastSeenAt = now;
+        }
+      } catch (error) {
+        onError?.(error);
+      }
+    }
+
+    if (active) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  tick();
+
+  return () => {
+    active = false;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Category tree utilities.
+ *
+ * Lineage and subtree lookups over a household's flat category list, used
+ * for category filters, inherited custom fields and inherited depreciation
+ * rules. Safe to import from client components.
+ *
+ * @category Utilities
+ * @since 1.15.0
+ */
+
+import type { DepreciationMethod } from '@prisma/client';
+import type { DepreciationRule } from '@/lib/types/categories';
+
+/**
+ * Minimal category node
+ */
+type CategoryNode = { id: string; parentId: string | null };
+
+/**
+ * Category node with its own depreciation settings
+ */
+type CategoryRuleNode = CategoryNode & {
+  depreciationMethod: DepreciationMethod | null;
+  usefulLifeYears: number | null;
+  depreciationRate: number | { toNumber(): number } | null;
+};
+
+/**
+ * IDs of a category and its ancestors
+ *
+ * @param categories - The household's categories
+ * @param categoryId - Category to start from
+ * @returns IDs from the category up to its root; empty when it is unknown
+ *
+ * @example
+ * ```typescript
+ * getCategoryLineage(categories, headphonesId); // [headphonesId, audioId, electronicsId]
+ * ```
+ */
+export function getCategoryLineage(categories: CategoryNode[], categoryId: string): string[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const lineage: string[] = [];
+
+  let current = byId.get(categoryId);
+  while (current && !lineage.includes(current.id)) {
+    lineage.push(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return lineage;
+}
+
+/**
+ * IDs of a category and every category below it
+ *
+ * @param categories - The household's categories
+ * @param categoryId - Root of the subtree
+ * @returns The category's ID followed by its descendants' IDs
+ */
+export function getCategorySubtreeIds(categories: CategoryNode[], categoryId: string): string[] {
+  const subtree = [categoryId];
+
+  for (let index = 0; index < subtree.length; index++) {
+    for (const category of categories) {
+      if (category.parentId === subtree[index] && !subtree.includes(category.id)) {
+        subtree.push(category.id);
+      }
+    }
+  }
+
+  return subtree;
+}
+
+/**
+ * Depreciation rule that applies to items in a category
+ *
+ * The category's own rule wins; otherwise the nearest ancestor's applies.
+ *
+ * @param categories - The household's categories
+ * @param categoryId - The item's category
+ * @returns The rule, or null when no category in the lineage has one
+ */
+export function resolveDepreciationRule(
+  categories: CategoryRuleNode[],
+  categoryId: string | null
+): DepreciationRule | null {
+  if (!categoryId) return null;
+
+  const byId = new Map(categories.map(category => [category.id, category]));
+  for (const id of getCategoryLineage(categories, categoryId)) {
+    const category = byId.get(id)!;
+    if (category.depreciationMethod) {
+      return {
+        method: category.depreciationMethod,
+        usefulLifeYears: category.usefulLifeYears,
+        depreciationRate: category.depreciationRate === null ? null : Number(category.depreciationRate),
+      };
+    }
+  }
+
+  return null;
+}
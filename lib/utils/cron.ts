@@ -0,0 +1,190 @@
+/**
+ * Cron expression utilities.
+ *
+ * Parses standard five-field cron expressions (minute, hour, day of month,
+ * month, day of week) and computes their next run time, for export
+ * schedules. Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`) and
+ * steps (`*\/2`, `0-30/10`); `@daily`, `@weekly` and `@monthly` are
+ * accepted as shorthands. Times are evaluated in UTC.
+ *
+ * @category Utilities
+ * @since 1.13.0
+ */
+
+/**
+ * Parsed cron expression: the values each field matches
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday; 7 is folded into 0 */
+  daysOfWeek: Set<number>;
+  /** Day of month and day of week were both restricted; either may match */
+  dayOrMatch: boolean;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/** How far ahead to look for a matching day (covers 29 February) */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Parse one field into the values it matches
+ */
+function parseField(field: string, { name, min, max }: typeof FIELD_RANGES[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} field "${field}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step !== undefined ? max : from;
+    const increment = step !== undefined ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid ${name} field "${field}": values must be between ${min} and ${max}`);
+    }
+
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @param expression - Five-field expression or alias
+ * @returns Values matched by each field
+ * @throws {Error} When the expression is malformed
+ *
+ * @example
+ * ```typescript
+ * parseCronExpression('0 3 * * 1'); // Mondays at 03:00 UTC
+ * ```
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = CRON_ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index])
+  );
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOrMatch: fields[2] !== '*' && fields[4] !== '*',
+  };
+}
+
+/**
+ * Check whether a string is a valid cron expression
+ *
+ * @param expression - Expression to check
+ * @returns True when parseCronExpression accepts it
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a UTC day matches the day fields
+ */
+function matchesDay(schedule: CronSchedule, day: Date): boolean {
+  if (!schedule.months.has(day.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = schedule.daysOfMonth.has(day.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(day.getUTCDay());
+  return schedule.dayOrMatch ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Next time a cron expression fires, strictly after a given time
+ *
+ * @param expression - Cron expression
+ * @param after - Reference time
+ * @returns Start of the next matching minute (UTC)
+ * @throws {Error} When the expression is malformed or never fires (e.g. 31 February)
+ */
+export function getNextCronRun(expression: string, after: Date): Date {
+  const schedule = parseCronExpression(expression);
+  const start = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const hours = Array.from(schedule.hours).sort((a, b) => a - b);
+  const minutes = Array.from(schedule.minutes).sort((a, b) => a - b);
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(startDay + offset * DAY_MS);
+    if (!matchesDay(schedule, day)) continue;
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const run = new Date(day.getTime() + (hour * 60 + minute) * MINUTE_MS);
+        if (run >= start) return run;
+      }
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never fires`);
+}
+
+/**
+ * Shortest gap between the next runs of a cron expression
+ *
+ * @param expression - Cron expression
+ * @param from - Reference time
+ * @param runs - How many upcoming runs to compare
+ * @returns Shortest interval in milliseconds
+ */
+export function getMinimumCronInterval(expression: string, from: Date, runs = 24): number {
+  let previous = getNextCronRun(expression, from);
+  let shortest = Infinity;
+
+  for (let i = 1; i < runs; i++) {
+    const next = getNextCronRun(expression, previous);
+    shortest = Math.min(shortest, next.getTime() - previous.getTime());
+    previous = next;
+  }
+
+  return shortest;
+}
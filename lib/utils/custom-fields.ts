@@ -0,0 +1,126 @@
+/**
+ * Custom field utilities.
+ *
+ * Scope matching and display formatting for household custom fields, shared
+ * by the item form, the item page, the items service and exports. Safe to
+ * import from client components.
+ *
+ * @category Utilities
+ * @since 1.14.0
+ */
+
+import type { CustomFieldDefinition, CustomFieldScope } from '@/lib/types/custom-fields';
+
+/**
+ * Whether a field applies to an item
+ *
+ * A field applies when it is not limited to tags or the item has one of its
+ * tags, it is not limited to location types or the item's location is one
+ * of them, and it is not a category default or the item is in one of its
+ * categories (directly or through a subcategory).
+ *
+ * @param field - Field definition
+ * @param scope - The item's tags, location type and category lineage
+ * @returns True when the item should carry the field
+ */
+export function isCustomFieldApplicable(
+  field: Pick<CustomFieldDefinition, 'tagIds' | 'locationTypes' | 'categoryIds'>,
+  scope: CustomFieldScope
+): boolean {
+  const matchesTags = field.tagIds.length === 0 || field.tagIds.some(tagId => scope.tagIds.includes(tagId));
+  const matchesLocation = field.locationTypes.length === 0
+    || (!!scope.locationType && field.locationTypes.includes(scope.locationType));
+  const matchesCategory = field.categoryIds.length === 0
+    || field.categoryIds.some(categoryId => scope.categoryIds?.includes(categoryId));
+
+  return matchesTags && matchesLocation && matchesCategory;
+}
+
+/**
+ * Fields that apply to an item, in display order
+ *
+ * @param fields - The household's field definitions
+ * @param scope - The item's tags, location type and category lineage
+ * @returns Applicable fields sorted by display order, then label
+ */
+export function getApplicableCustomFields<T extends Pick<CustomFieldDefinition, 'tagIds' | 'locationTypes' | 'categoryIds' | 'displayOrder' | 'label'>>(
+  fields: T[],
+  scope: CustomFieldScope
+): T[] {
+  return fields
+    .filter(field => isCustomFieldApplicable(field, scope))
+    .sort((a, b) => a.displayOrder - b.displayOrder || a.label.localeCompare(b.label));
+}
+
+/**
+ * Format a stored value for display
+ *
+ * @param field - Field definition
+ * @param value - Value from the item's metadata
+ * @returns Display text, or null when the item has no value
+ *
+ * @example
+ * ```typescript
+ * formatCustomFieldValue({ type: 'WARRANTY_EXPIRY' }, '2027-05-01'); // "May 1, 2027"
+ * ```
+ */
+export function formatCustomFieldValue(
+  field: Pick<CustomFieldDefinition, 'type'>,
+  value: unknown
+): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (field.type) {
+    case 'DATE':
+    case 'WARRANTY_EXPIRY': {
+      const date = new Date(`${String(value)}T00:00:00Z`);
+      if (Number.isNaN(date.getTime())) return String(value);
+      return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+    }
+    case 'NUMBER':
+      return typeof value === 'number' ? value.toLocaleString('en-US') : String(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Whether a warranty has run out
+ *
+ * @param value - Stored YYYY-MM-DD expiry date
+ * @param now - Point in time to compare against
+ * @returns True when the expiry day is before today (UTC)
+ */
+export function isWarrantyExpired(value: unknown, now: Date = new Date()): boolean {
+  if (typeof value !== 'string') return false;
+  return value < now.toISOString().slice(0, 10);
+}
+
+/**
+ * Suggest a metadata key for a field label
+ *
+ * @param label - Field label
+ * @returns camelCase key of letters and digits, starting with a letter
+ *
+ * @example
+ * ```typescript
+ * toCustomFieldKey('Warranty expires'); // "warrantyExpires"
+ * ```
+ */
+export function toCustomFieldKey(label: string): string {
+  const words = label
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9 ]/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const key = words
+    .map((word, index) => index === 0
+      ? word.toLowerCase()
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('')
+    .replace(/^[0-9]+/, '');
+
+  return key.slice(0, 50);
+}
@@ -0,0 +1,52 @@
+/**
+ * Depreciation utilities.
+ *
+ * Estimates what an item is worth today from its purchase price, purchase
+ * date and its category's depreciation rule.
+ *
+ * @category Utilities
+ * @since 1.15.0
+ */
+
+import type { DepreciationRule } from '@/lib/types/categories';
+
+/** Average year length, so leap years do not skew long holding periods */
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Value of an item after depreciation
+ *
+ * Straight-line rules lose an equal share of the price each year until the
+ * useful life is over; declining-balance rules lose a fixed percentage of
+ * the remaining value each year. Partial years count pro rata.
+ *
+ * @param purchasePrice - What the item cost
+ * @param purchaseDate - When it was bought
+ * @param rule - Depreciation rule of the item's category
+ * @param asOf - Point in time to value the item at
+ * @returns Depreciated value rounded to cents, never below zero
+ *
+ * @example
+ * ```typescript
+ * calculateDepreciatedValue(1000, new Date('2024-01-01'),
+ *   { method: 'STRAIGHT_LINE', usefulLifeYears: 4, depreciationRate: null },
+ *   new Date('2026-01-01')); // 499.66 - about half of a four-year life
+ * ```
+ */
+export function calculateDepreciatedValue(
+  purchasePrice: number,
+  purchaseDate: Date,
+  rule: DepreciationRule,
+  asOf: Date = new Date()
+): number {
+  const years = Math.max(0, (asOf.getTime() - purchaseDate.getTime()) / MS_PER_YEAR);
+
+  let value = purchasePrice;
+  if (rule.method === 'STRAIGHT_LINE' && rule.usefulLifeYears) {
+    value = purchasePrice * Math.max(0, 1 - years / rule.usefulLifeYears);
+  } else if (rule.method === 'DECLINING_BALANCE' && rule.depreciationRate !== null) {
+    value = purchasePrice * Math.pow(1 - rule.depreciationRate / 100, years);
+  }
+
+  return Math.max(0, Math.round(value * 100) / 100);
+}
@@ -33,6 +33,12 @@ const serverEnvSchema = z.object({
   ADMIN_DATABASE_URL: z.string().optional(),
   ADMIN_EMAIL: z.string().email('ADMIN_EMAIL must be a valid email').optional(),
   ENABLE_ADMIN_PANEL: z.string().transform(val => val === 'true').default('false'),
+
+  // Background Jobs (bearer token Vercel Cron sends to /api/cron/*)
+  CRON_SECRET: z.string().min(16, 'CRON_SECRET must be at least 16 characters').optional(),
+
+  // Insurance report signing key (falls back to NEXTAUTH_SECRET)
+  REPORT_SIGNING_SECRET: z.string().min(32, 'REPORT_SIGNING_SECRET must be at least 32 characters').optional(),
   
   // AWS Configuration
   AWS_REGION: z.string().default('us-east-1'),
@@ -0,0 +1,264 @@
+/**
+ * Export column utilities.
+ *
+ * The catalog of columns a CSV or XLSX export can contain, and the builder
+ * that turns saved column settings into a CSVExportConfig. Safe to import
+ * from client components, which list the same columns.
+ *
+ * @category Utilities
+ * @since 1.13.0
+ */
+
+import type {
+  CSVColumn,
+  CSVExportConfig,
+  ExportColumnSettings,
+  ExportDateFormat,
+  ExportItemData,
+} from '@/lib/types/exports';
+import type { CustomFieldDefinition } from '@/lib/types/custom-fields';
+
+/**
+ * Custom field details export columns need
+ */
+export type ExportCustomField = Pick<CustomFieldDefinition, 'key' | 'label' | 'type'>;
+
+/**
+ * How a column's value is formatted
+ */
+type ExportColumnType = 'text' | 'number' | 'currency' | 'date' | 'datetime' | 'list';
+
+/**
+ * A built-in export column
+ */
+export interface ExportColumnDefinition {
+  id: string;
+
+  /** ExportItemData property the value is read from (dot notation) */
+  key: string;
+
+  header: string;
+  type: ExportColumnType;
+
+  /** Always exported; the columns an import needs to bring items back */
+  required: boolean;
+
+  /** Value to read instead of `key` */
+  getValue?: (item: ExportItemData) => unknown;
+
+  /** Written for empty text and number values */
+  fallback?: string;
+
+  /** Separator for list columns */
+  separator?: string;
+}
+
+/**
+ * Built-in columns, in the order of the default export
+ */
+export const EXPORT_COLUMNS: ExportColumnDefinition[] = [
+  { id: 'name', key: 'name', header: 'Item Name', type: 'text', required: true },
+  { id: 'description', key: 'description', header: 'Description', type: 'text', required: false },
+  { id: 'quantity', key: 'quantity', header: 'Quantity', type: 'number', required: false, fallback: '0' },
+  { id: 'unit', key: 'unit', header: 'Unit', type: 'text', required: false, fallback: 'piece' },
+  { id: 'purchasePrice', key: 'purchasePrice', header: 'Purchase Price', type: 'currency', required: false },
+  { id: 'currentValue', key: 'currentValue', header: 'Current Value', type: 'currency', required: false },
+  { id: 'purchaseDate', key: 'purchaseDate', header: 'Purchase Date', type: 'date', required: false },
+  { id: 'status', key: 'status', header: 'Status', type: 'text', required: false, fallback: 'AVAILABLE' },
+  { id: 'locationPath', key: 'location', header: 'Location Path', type: 'text', required: true, getValue: item => item.location?.path },
+  { id: 'locationName', key: 'location', header: 'Location Name', type: 'text', required: false, getValue: item => item.location?.name },
+  { id: 'household', key: 'household', header: 'Household', type: 'text', required: false, getValue: item => item.household?.name },
+  { id: 'photoUrls', key: 'photoUrls', header: 'Photo URLs', type: 'list', required: false, separator: ';' },
+  { id: 'tags', key: 'tagNames', header: 'Tags', type: 'list', required: false, separator: ',' },
+  { id: 'createdAt', key: 'createdAt', header: 'Created Date', type: 'datetime', required: false },
+  { id: 'updatedAt', key: 'updatedAt', header: 'Updated Date', type: 'datetime', required: false },
+  { id: 'totalValue', key: 'totalValue', header: 'Total Value', type: 'currency', required: false },
+  { id: 'photoCount', key: 'photoCount', header: 'Photo Count', type: 'number', required: false, fallback: '0' },
+];
+
+/** Column ID prefix for custom metadata keys */
+export const METADATA_COLUMN_PREFIX = 'metadata.';
+
+/** Metadata keys that can be exported as columns */
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_\- ]{1,50}$/;
+
+/** Columns every export must contain */
+export const REQUIRED_EXPORT_COLUMNS = EXPORT_COLUMNS.filter(column => column.required).map(column => column.id);
+
+/**
+ * Column settings of the default export
+ */
+export const DEFAULT_EXPORT_COLUMN_SETTINGS: ExportColumnSettings = {
+  columns: EXPORT_COLUMNS.filter(column => column.id !== 'totalValue' && column.id !== 'photoCount').map(column => column.id),
+  delimiter: ',',
+  dateFormat: 'iso',
+  currency: { symbol: '$', decimalSeparator: '.' },
+};
+
+const COLUMNS_BY_ID = new Map(EXPORT_COLUMNS.map(column => [column.id, column]));
+
+/**
+ * Check whether a column ID names a built-in column or a metadata key
+ *
+ * @param id - Column ID
+ * @returns True when the ID can be exported
+ */
+export function isExportColumnId(id: string): boolean {
+  if (id.startsWith(METADATA_COLUMN_PREFIX)) {
+    return METADATA_KEY_PATTERN.test(id.slice(METADATA_COLUMN_PREFIX.length));
+  }
+  return COLUMNS_BY_ID.has(id);
+}
+
+/**
+ * Header shown for a column ID; metadata columns use their custom field's
+ * label, or their key
+ *
+ * @param id - Column ID
+ * @param customFields - The household's custom fields
+ * @returns Column header
+ */
+export function getExportColumnHeader(id: string, customFields: ExportCustomField[] = []): string {
+  if (!id.startsWith(METADATA_COLUMN_PREFIX)) return COLUMNS_BY_ID.get(id)?.header ?? id;
+
+  const key = id.slice(METADATA_COLUMN_PREFIX.length);
+  return customFields.find(field => field.key === key)?.label ?? key;
+}
+
+/**
+ * Format a date in UTC
+ *
+ * @param value - Date or ISO string
+ * @param format - Date format
+ * @param withTime - Include the time of day
+ * @returns Formatted date, or '' when the value is not a date
+ *
+ * @example
+ * ```typescript
+ * formatExportDate(new Date('2026-03-04T10:30:00Z'), 'eu', false); // "04.03.2026"
+ * ```
+ */
+export function formatExportDate(value: unknown, format: ExportDateFormat, withTime: boolean): string {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value as string);
+  if (Number.isNaN(date.getTime())) return '';
+
+  const iso = date.toISOString();
+  if (format === 'iso') return withTime ? iso : iso.slice(0, 10);
+
+  const [year, month, day] = [iso.slice(0, 4), iso.slice(5, 7), iso.slice(8, 10)];
+  const datePart = format === 'us' ? `${month}/${day}/${year}` : `${day}.${month}.${year}`;
+  return withTime ? `${datePart} ${iso.slice(11, 16)}` : datePart;
+}
+
+/**
+ * Format a currency amount with two decimals and no grouping
+ *
+ * @param value - Amount
+ * @param currency - Symbol and decimal separator
+ * @returns Formatted amount, or '' for empty and zero amounts
+ */
+export function formatExportCurrency(value: unknown, currency: ExportColumnSettings['currency']): string {
+  if (!value) return '';
+  const amount = Number(value).toFixed(2);
+  return currency.symbol + (currency.decimalSeparator === ',' ? amount.replace('.', ',') : amount);
+}
+
+/**
+ * Build the CSV configuration for column settings
+ *
+ * Unknown column IDs are skipped; settings are validated before they get here.
+ * Metadata columns of custom fields are headed with the field's label.
+ *
+ * @param settings - Column selection, delimiter and formats
+ * @param customFields - The household's custom fields
+ * @returns Configuration used by the CSV and XLSX writers
+ */
+export function buildCSVConfig(settings: ExportColumnSettings, customFields: ExportCustomField[] = []): CSVExportConfig {
+  const columns: CSVColumn[] = [];
+
+  for (const id of settings.columns) {
+    if (id.startsWith(METADATA_COLUMN_PREFIX)) {
+      const key = id.slice(METADATA_COLUMN_PREFIX.length);
+      columns.push(buildMetadataColumn(key, settings, customFields.find(field => field.key === key)));
+      continue;
+    }
+
+    const column = COLUMNS_BY_ID.get(id);
+    if (!column) continue;
+
+    columns.push({
+      key: column.key,
+      header: column.header,
+      formatter: (value: unknown, item: ExportItemData) =>
+        formatColumnValue(column, column.getValue ? column.getValue(item) : value, settings),
+      required: column.required,
+    });
+  }
+
+  return {
+    includeHeaders: true,
+    delimiter: settings.delimiter,
+    textQualifier: '"',
+    lineEnding: '\n',
+    columns,
+  };
+}
+
+/**
+ * Columns for every custom field, for exports without saved column settings
+ *
+ * @param customFields - The household's custom fields
+ * @param settings - Formats to write values with
+ * @returns One column per field
+ */
+export function buildCustomFieldColumns(
+  customFields: ExportCustomField[],
+  settings: ExportColumnSettings = DEFAULT_EXPORT_COLUMN_SETTINGS
+): CSVColumn[] {
+  return customFields.map(field => buildMetadataColumn(field.key, settings, field));
+}
+
+/**
+ * Column for a metadata key; date fields use the export's date format
+ */
+function buildMetadataColumn(key: string, settings: ExportColumnSettings, field?: ExportCustomField): CSVColumn {
+  const isDate = field?.type === 'DATE' || field?.type === 'WARRANTY_EXPIRY';
+
+  return {
+    key: METADATA_COLUMN_PREFIX + key,
+    header: field?.label ?? key,
+    formatter: (_value: unknown, item: ExportItemData) => isDate
+      ? formatExportDate(item.metadata?.[key], settings.dateFormat, false)
+      : formatMetadataValue(item.metadata?.[key], settings),
+    required: false,
+  };
+}
+
+/**
+ * Format a built-in column's value
+ */
+function formatColumnValue(column: ExportColumnDefinition, value: unknown, settings: ExportColumnSettings): string {
+  switch (column.type) {
+    case 'currency':
+      return formatExportCurrency(value, settings.currency);
+    case 'date':
+      return formatExportDate(value, settings.dateFormat, false);
+    case 'datetime':
+      return formatExportDate(value, settings.dateFormat, true);
+    case 'list':
+      return Array.isArray(value) ? value.join(column.separator ?? ',') : '';
+    default:
+      return String(value || column.fallback || '');
+  }
+}
+
+/**
+ * Format a custom metadata value; nested values are written as JSON
+ */
+function formatMetadataValue(value: unknown, settings: ExportColumnSettings): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'number' && settings.currency.decimalSeparator === ',') return String(value).replace('.', ',');
+  return String(value);
+}
@@ -347,6 +347,33 @@ async function validateImageContent(file: File): Promise<FileValidationResult> {
   });
 }
 
+/**
+ * Identify an allowed image type from its magic bytes
+ *
+ * Server-side counterpart to the header check in validateImageFile, for
+ * bytes that did not arrive as a File (such as photos in a backup archive).
+ * WebP must also carry the WEBP form type, not just any RIFF container.
+ *
+ * @param bytes - File contents, or at least their first 16 bytes
+ * @returns The detected MIME type, or null when the bytes are not an allowed image
+ */
+export function detectImageType(bytes: Uint8Array): 'image/jpeg' | 'image/png' | 'image/webp' | null {
+  const matches = (signature: readonly number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  for (const [mimeType, signatures] of Object.entries(FILE_SIGNATURES)) {
+    if (!signatures.some(signature => matches(signature))) {
+      continue;
+    }
+    if (mimeType === 'image/webp' && !matches([0x57, 0x45, 0x42, 0x50], 8)) {
+      return null;
+    }
+    return mimeType as keyof typeof FILE_SIGNATURES;
+  }
+
+  return null;
+}
+
 /**
  * Get file extension from filename
  */
@@ -12,6 +12,7 @@
 
 import { Session } from 'next-auth';
 import { prisma } from '@/lib/db';
+import { HouseholdPermission, resolvePermissions } from '@/lib/utils/permissions';
 
 /**
  * Custom error for household permission violations.
@@ -23,6 +24,35 @@ export class PermissionError extends Error {
   }
 }
 
+/**
+ * Error for members whose role and overrides lack a required capability.
+ */
+export class InsufficientPermissionError extends PermissionError {
+  constructor(public readonly permission: HouseholdPermission) {
+    super(`Your household role does not allow this action (requires ${permission})`);
+    this.name = 'InsufficientPermissionError';
+  }
+}
+
+/**
+ * Resolved household membership for the signed-in user.
+ */
+export interface HouseholdAccess {
+  householdId: string;
+  userId: string;
+  role: string;
+  /** Effective capabilities after role defaults and per-member overrides */
+  permissions: HouseholdPermission[];
+}
+
+/**
+ * Minimal session shape accepted by the household guards (NextAuth sessions
+ * and the server-action auth helper both satisfy it).
+ */
+type HouseholdSession = {
+  user?: { id?: string; householdId?: string | null };
+} | null;
+
 /**
  * Resolves and validates household context from user session.
  * 
@@ -52,6 +82,20 @@ export class PermissionError extends Error {
  * ```
  */
 export async function getHouseholdContext(session: Session): Promise<string> {
+  const access = await getHouseholdAccess(session);
+  return access.householdId;
+}
+
+/**
+ * Resolves the signed-in user's household membership with its role and
+ * effective permissions. Membership is re-read on every call, so removed
+ * members and changed roles take effect on the next request.
+ *
+ * @param session - Authenticated user session with household context
+ * @returns Promise resolving to the validated membership
+ * @throws {PermissionError} When session lacks household context or access is revoked
+ */
+export async function getHouseholdAccess(session: HouseholdSession): Promise<HouseholdAccess> {
   // Validate session has household context
   if (!session?.user?.householdId) {
     throw new PermissionError('No household context available - user session may be incomplete');
@@ -62,27 +106,67 @@ export async function getHouseholdContext(session: Session): Promise<string> {
   }
   
   // Verify user still has access to household (handles revoked access scenarios)
-  const userHousehold = await prisma.household.findFirst({
-    where: { 
-      id: session.user.householdId,
-      members: { 
-        some: { userId: session.user.id } 
-      }
+  const membership = await prisma.householdMember.findUnique({
+    where: {
+      userId_householdId: {
+        userId: session.user.id,
+        householdId: session.user.householdId,
+      },
+    },
+    select: {
+      role: true,
+      permissions: true,
     },
-    select: { 
-      id: true,
-      name: true 
-    }
   });
   
-  if (!userHousehold) {
+  if (!membership) {
     throw new PermissionError(
       `Household access has been revoked or household no longer exists. ` +
       `User: ${session.user.id}, Household: ${session.user.householdId}`
     );
   }
   
-  return session.user.householdId;
+  return {
+    householdId: session.user.householdId,
+    userId: session.user.id,
+    role: membership.role,
+    permissions: resolvePermissions(membership.role, membership.permissions),
+  };
+}
+
+/**
+ * Shared permission guard for API routes and server actions.
+ *
+ * Resolves the household context like {@link getHouseholdContext} and then
+ * requires the given capability from the member's role and overrides.
+ *
+ * @param session - Authenticated user session with household context
+ * @param permission - Capability the action needs
+ * @returns Promise resolving to the validated membership
+ * @throws {PermissionError} When household access is missing or revoked
+ * @throws {InsufficientPermissionError} When the member lacks the capability
+ *
+ * @example API route usage
+ * ```typescript
+ * let householdId: string;
+ * try {
+ *   ({ householdId } = await requireHouseholdPermission(session, 'items:delete'));
+ * } catch (error) {
+ *   return handleHouseholdContextError(error);
+ * }
+ * ```
+ */
+export async function requireHouseholdPermission(
+  session: HouseholdSession,
+  permission: HouseholdPermission
+): Promise<HouseholdAccess> {
+  const access = await getHouseholdAccess(session);
+
+  if (!access.permissions.includes(permission)) {
+    throw new InsufficientPermissionError(permission);
+  }
+
+  return access;
 }
 
 /**
@@ -160,6 +244,18 @@ export async function assignUserToHousehold(userId: string, householdId: string)
  * @returns Response object with appropriate status code and error message
  */
 export function handleHouseholdContextError(error: unknown): Response {
+  if (error instanceof InsufficientPermissionError) {
+    return Response.json(
+      {
+        error: 'Insufficient permissions',
+        message: error.message,
+        code: 'INSUFFICIENT_PERMISSIONS',
+        permission: error.permission
+      },
+      { status: 403 }
+    );
+  }
+
   if (error instanceof PermissionError) {
     return Response.json(
       { 
@@ -0,0 +1,320 @@
+/**
+ * Insurance report utilities.
+ *
+ * Builds the contents of an insurance report from export item data: rolls
+ * items and locations back to a past date using the activity log, groups
+ * insured items by room and computes the digest the report is signed over.
+ *
+ * @category Utilities
+ * @since 1.13.0
+ */
+
+import { createHash } from 'crypto';
+import type { ActivityAction, ActivityEntityType, ItemStatus, LocationType } from '@prisma/client';
+import type { ActivityDiff } from '@/lib/types/activity';
+import type {
+  ExportItemData,
+  InsuranceReport,
+  InsuranceReportLocation,
+  InsuranceReportRoom,
+} from '@/lib/types/exports';
+
+/**
+ * Statuses of items still owned by the household; SOLD and LOST items are
+ * left out, as they are from Location.totalValue
+ */
+export const INSURED_ITEM_STATUSES: ItemStatus[] = ['AVAILABLE', 'BORROWED', 'MAINTENANCE'];
+
+/**
+ * Activity log entry as needed to undo it
+ */
+export interface ActivityRollbackEntry {
+  entityType: ActivityEntityType;
+  entityId: string;
+  action: ActivityAction;
+  diff: unknown;
+}
+
+/**
+ * Read the serial number from item metadata
+ *
+ * @param metadata - Item metadata JSON
+ * @returns The trimmed `serialNumber` value, or null when unset
+ */
+export function getSerialNumber(metadata: unknown): string | null {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null;
+
+  const value = (metadata as Record<string, unknown>).serialNumber;
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Before-values of a stored diff
+ */
+function beforeValues(diff: unknown): Record<string, unknown> {
+  if (!diff || typeof diff !== 'object') return {};
+
+  return Object.fromEntries(
+    Object.entries(diff as ActivityDiff).map(([field, change]) => [field, change?.before ?? null])
+  );
+}
+
+/**
+ * Undo location changes made after a date
+ *
+ * @param locations - Current locations
+ * @param entries - LOCATION entries made after the date, newest first
+ * @returns Locations as they were, with deleted ones restored
+ */
+export function rollBackLocations(
+  locations: InsuranceReportLocation[],
+  entries: ActivityRollbackEntry[]
+): InsuranceReportLocation[] {
+  const byId = new Map(locations.map(location => [location.id, { ...location }]));
+
+  for (const entry of entries) {
+    if (entry.entityType !== 'LOCATION') continue;
+
+    if (entry.action === 'CREATED') {
+      byId.delete(entry.entityId);
+      continue;
+    }
+
+    const values = beforeValues(entry.diff);
+    const location = byId.get(entry.entityId);
+
+    if (!location) {
+      // Deleted locations are restored from the snapshot in their DELETED entry
+      if (entry.action === 'DELETED') {
+        byId.set(entry.entityId, {
+          id: entry.entityId,
+          name: String(values.name ?? ''),
+          parentId: (values.parentId as string | null) ?? null,
+          path: String(values.path ?? values.name ?? ''),
+          locationType: (values.locationType as LocationType) ?? 'ROOM',
+          totalValue: 0,
+        });
+      }
+      continue;
+    }
+
+    if ('name' in values) location.name = String(values.name ?? '');
+    if ('parentId' in values) location.parentId = (values.parentId as string | null) ?? null;
+    if ('path' in values) location.path = String(values.path ?? '');
+    if ('locationType' in values && values.locationType) location.locationType = values.locationType as LocationType;
+  }
+
+  return Array.from(byId.values());
+}
+
+/**
+ * Undo item changes made after a date
+ *
+ * Items are only ever soft deleted (marked SOLD), so every item that existed
+ * at the date is still among the current ones. Photos and tags are not
+ * rolled back.
+ *
+ * @param items - Current items
+ * @param entries - ITEM entries made after the date, newest first
+ * @param locations - Locations as they were at the date
+ * @returns Items as they were, without those created since
+ */
+export function rollBackItems(
+  items: ExportItemData[],
+  entries: ActivityRollbackEntry[],
+  locations: InsuranceReportLocation[]
+): ExportItemData[] {
+  const byId = new Map(items.map(item => [item.id, { ...item }]));
+  const locationById = new Map(locations.map(location => [location.id, location]));
+
+  for (const entry of entries) {
+    if (entry.entityType !== 'ITEM') continue;
+
+    if (entry.action === 'CREATED') {
+      byId.delete(entry.entityId);
+      continue;
+    }
+
+    const item = byId.get(entry.entityId);
+    if (!item) continue;
+
+    for (const [field, value] of Object.entries(beforeValues(entry.diff))) {
+      switch (field) {
+        case 'name':
+        case 'unit':
+          item[field] = String(value ?? '');
+          break;
+        case 'description':
+          item.description = (value as string | null) ?? null;
+          break;
+        case 'quantity':
+          item.quantity = Number(value ?? 0);
+          break;
+        case 'purchasePrice':
+        case 'currentValue':
+          item[field] = value === null ? null : Number(value);
+          break;
+        case 'purchaseDate':
+          item.purchaseDate = value ? new Date(value as string) : null;
+          break;
+        case 'status':
+          item.status = value as ItemStatus;
+          break;
+        case 'locationId':
+          item.location = { ...item.location, id: String(value) };
+          break;
+        case 'metadata':
+          item.metadata = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+          item.serialNumber = getSerialNumber(value);
+          break;
+      }
+    }
+  }
+
+  return Array.from(byId.values()).map(item => {
+    const location = locationById.get(item.location.id);
+
+    return {
+      ...item,
+      location: location
+        ? { id: location.id, name: location.name, path: location.path, type: location.locationType }
+        : item.location,
+      totalValue: (item.currentValue || item.purchasePrice || 0) * item.quantity,
+    };
+  });
+}
+
+/**
+ * Recompute each location's totalValue from items, the way the items
+ * service maintains it: current values of insured items directly in it
+ *
+ * Used for past dates, where the stored totals no longer apply.
+ *
+ * @param locations - Locations to total
+ * @param items - Items at the same date
+ * @returns Locations with totalValue replaced
+ */
+export function computeLocationTotals(
+  locations: InsuranceReportLocation[],
+  items: ExportItemData[]
+): InsuranceReportLocation[] {
+  const totals = new Map<string, number>();
+
+  for (const item of items) {
+    if (!INSURED_ITEM_STATUSES.includes(item.status)) continue;
+    totals.set(item.location.id, (totals.get(item.location.id) ?? 0) + (item.currentValue ?? 0));
+  }
+
+  return locations.map(location => ({ ...location, totalValue: roundCurrency(totals.get(location.id) ?? 0) }));
+}
+
+/**
+ * Group insured items by the room they are in
+ *
+ * Each location belongs to its nearest ROOM ancestor (itself included),
+ * else its nearest BUILDING, else its top-level location. Room totals add
+ * up the totalValue of every location in the room.
+ *
+ * @param items - Items to group; those not in INSURED_ITEM_STATUSES are skipped
+ * @param locations - All household locations
+ * @returns Rooms with items or value, by path
+ */
+export function groupItemsByRoom(
+  items: ExportItemData[],
+  locations: InsuranceReportLocation[]
+): InsuranceReportRoom[] {
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const rooms = new Map<string, InsuranceReportRoom>();
+
+  const roomFor = (location: InsuranceReportLocation): InsuranceReportRoom => {
+    let current: InsuranceReportLocation | undefined = location;
+    let building: InsuranceReportLocation | undefined;
+    let top = location;
+    const seen = new Set<string>();
+
+    while (current && !seen.has(current.id)) {
+      if (current.locationType === 'ROOM') break;
+      if (current.locationType === 'BUILDING' && !building) building = current;
+      seen.add(current.id);
+      top = current;
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    const roomLocation = current?.locationType === 'ROOM' ? current : building ?? top;
+    const room = rooms.get(roomLocation.id) ?? { location: roomLocation, items: [], totalValue: 0 };
+    rooms.set(roomLocation.id, room);
+    return room;
+  };
+
+  for (const location of locations) {
+    roomFor(location).totalValue += location.totalValue;
+  }
+
+  for (const item of items) {
+    if (!INSURED_ITEM_STATUSES.includes(item.status)) continue;
+
+    const location = byId.get(item.location.id) ?? {
+      id: item.location.id,
+      name: item.location.name,
+      parentId: null,
+      path: item.location.path,
+      locationType: item.location.type as LocationType,
+      totalValue: 0,
+    };
+    roomFor(location).items.push(item);
+  }
+
+  return Array.from(rooms.values())
+    .filter(room => room.items.length > 0 || room.totalValue > 0)
+    .map(room => ({
+      ...room,
+      items: [...room.items].sort((a, b) => a.name.localeCompare(b.name)),
+      totalValue: roundCurrency(room.totalValue),
+    }))
+    .sort((a, b) => a.location.path.localeCompare(b.location.path));
+}
+
+/**
+ * SHA-256 digest of the values a report states
+ *
+ * Covers the report ID, household, timestamps, and every room and item
+ * value printed, so a signature over it vouches for the figures rather
+ * than the PDF bytes.
+ *
+ * @param report - Report contents
+ * @returns Hex digest
+ */
+export function buildReportDigest(report: InsuranceReport): string {
+  const canonical = JSON.stringify({
+    reportId: report.reportId,
+    householdId: report.householdId,
+    generatedAt: report.generatedAt.toISOString(),
+    asOf: report.asOf?.toISOString() ?? null,
+    rooms: report.rooms.map(room => ({
+      locationId: room.location.id,
+      path: room.location.path,
+      totalValue: room.totalValue,
+      items: room.items.map(item => ({
+        id: item.id,
+        name: item.name,
+        quantity: item.quantity,
+        purchasePrice: item.purchasePrice,
+        currentValue: item.currentValue,
+        purchaseDate: item.purchaseDate?.toISOString() ?? null,
+        serialNumber: item.serialNumber,
+      })),
+    })),
+    itemCount: report.itemCount,
+    grandTotal: report.grandTotal,
+  });
+
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Round a currency amount to cents
+ */
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
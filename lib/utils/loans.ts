@@ -0,0 +1,63 @@
+/**
+ * Loan utilities.
+ *
+ * Due-date helpers shared by the lending panel and the overdue widget.
+ *
+ * @category Utilities
+ * @since 1.10.0
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether an open loan is past its due date
+ *
+ * @param loan - Loan with ISO `dueAt`/`returnedAt`
+ * @param now - Point in time to compare against
+ * @returns True when the loan is still open and its due date has passed
+ */
+export function isLoanOverdue(
+  loan: { dueAt: string | null; returnedAt: string | null },
+  now: Date = new Date()
+): boolean {
+  return !loan.returnedAt && !!loan.dueAt && new Date(loan.dueAt) < now;
+}
+
+/**
+ * Whole days a due date has passed (0 when not yet due)
+ *
+ * @param dueAt - ISO due date
+ * @param now - Point in time to compare against
+ * @returns Days overdue, rounded down
+ *
+ * @example
+ * ```typescript
+ * getDaysOverdue('2026-03-01T00:00:00.000Z', new Date('2026-03-04T12:00:00.000Z')); // 3
+ * ```
+ */
+export function getDaysOverdue(dueAt: string, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(dueAt).getTime()) / MS_PER_DAY));
+}
+
+/**
+ * Short "due" label for a loan, e.g. "3 days overdue" or "Due Mar 1, 2026"
+ *
+ * @param loan - Loan with ISO `dueAt`/`returnedAt`
+ * @param now - Point in time to compare against
+ * @returns Label, or null when the loan has no due date
+ */
+export function formatLoanDue(
+  loan: { dueAt: string | null; returnedAt: string | null },
+  now: Date = new Date()
+): string | null {
+  if (!loan.dueAt) return null;
+
+  if (isLoanOverdue(loan, now)) {
+    const days = getDaysOverdue(loan.dueAt, now);
+    if (days === 0) return 'Overdue today';
+    return `${days} day${days === 1 ? '' : 's'} overdue`;
+  }
+
+  return `Due ${new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+    .format(new Date(loan.dueAt))}`;
+}
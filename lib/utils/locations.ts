@@ -0,0 +1,95 @@
+/**
+ * Location tree utilities.
+ *
+ * Subtree, root and path lookups over a household's flat location list,
+ * used by search filters, facets and "where is it" breadcrumbs. Safe to
+ * import from client components.
+ *
+ * @category Utilities
+ * @since 1.17.0
+ */
+
+/**
+ * Minimal location node
+ */
+type LocationNode = { id: string; parentId: string | null };
+
+/**
+ * Location node with its name, for breadcrumbs
+ */
+type NamedLocationNode = LocationNode & { name: string };
+
+/**
+ * IDs of the given locations and every location inside them
+ *
+ * @param locations - The household's locations
+ * @param locationIds - Roots of the subtrees
+ * @returns The roots' IDs followed by their descendants' IDs, without duplicates
+ *
+ * @example
+ * ```typescript
+ * getLocationSubtreeIds(locations, [garageId]); // [garageId, shelfId, toolboxId]
+ * ```
+ */
+export function getLocationSubtreeIds(locations: LocationNode[], locationIds: string[]): string[] {
+  const subtree = [...new Set(locationIds)];
+
+  for (let index = 0; index < subtree.length; index++) {
+    for (const location of locations) {
+      if (location.parentId === subtree[index] && !subtree.includes(location.id)) {
+        subtree.push(location.id);
+      }
+    }
+  }
+
+  return subtree;
+}
+
+/**
+ * ID of the top-level location that contains a location
+ *
+ * @param locations - The household's locations
+ * @param locationId - Location to start from
+ * @returns The root's ID (the location itself when it is top-level); null when it is unknown
+ */
+export function getRootLocationId(locations: LocationNode[], locationId: string): string | null {
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const visited = new Set<string>();
+
+  let current = byId.get(locationId);
+  while (current?.parentId && byId.has(current.parentId) && !visited.has(current.id)) {
+    visited.add(current.id);
+    current = byId.get(current.parentId);
+  }
+
+  return current?.id ?? null;
+}
+
+/**
+ * Locations from the top level down to a location, for breadcrumbs
+ *
+ * @param locations - The household's locations
+ * @param locationId - Location to end at
+ * @returns ID and name of each location on the path; empty when it is unknown
+ *
+ * @example
+ * ```typescript
+ * getLocationPathComponents(locations, toolboxId);
+ * // [{ id: houseId, name: 'House' }, { id: garageId, name: 'Garage' }, { id: toolboxId, name: 'Toolbox' }]
+ * ```
+ */
+export function getLocationPathComponents(
+  locations: NamedLocationNode[],
+  locationId: string
+): Array<{ id: string; name: string }> {
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const path: Array<{ id: string; name: string }> = [];
+
+  let current = byId.get(locationId);
+  while (current && !path.some(component => component.id === current!.id)) {
+    path.unshift({ id: current.id, name: current.name });
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
@@ -0,0 +1,137 @@
+/**
+ * Household permission model.
+ *
+ * Each household member has a role that grants a default set of
+ * capabilities, plus optional per-capability overrides stored in
+ * `HouseholdMember.permissions` (e.g. `{ "items:delete": true }` to let one
+ * member delete items, or `{ "exports:create": false }` to stop them
+ * exporting). Owners always hold every capability so a household can never
+ * lock itself out.
+ *
+ * @category Security
+ * @category Multi-Tenant
+ * @since 1.11.0
+ */
+
+/**
+ * Roles a household member can hold, most privileged first
+ */
+export const HOUSEHOLD_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+
+/**
+ * Household member role
+ */
+export type HouseholdRole = (typeof HOUSEHOLD_ROLES)[number];
+
+/**
+ * Capabilities checked by the household permission guard
+ */
+export const HOUSEHOLD_PERMISSIONS = [
+  'items:create',
+  'items:update',
+  'items:delete',
+  'items:lend',
+  'photos:manage',
+  'locations:manage',
+  'tags:manage',
+  'fields:manage',
+  'categories:manage',
+  'exports:create',
+  'members:manage',
+] as const;
+
+/**
+ * A single household capability
+ */
+export type HouseholdPermission = (typeof HOUSEHOLD_PERMISSIONS)[number];
+
+/**
+ * Per-member grants (true) and revocations (false) on top of the role defaults
+ */
+export type PermissionOverrides = Partial<Record<HouseholdPermission, boolean>>;
+
+/**
+ * Default capabilities of each role
+ *
+ * Members add and edit things but cannot delete items or reshape the
+ * location tree; viewers can only browse.
+ */
+export const ROLE_PERMISSIONS: Record<HouseholdRole, readonly HouseholdPermission[]> = {
+  owner: HOUSEHOLD_PERMISSIONS,
+  admin: HOUSEHOLD_PERMISSIONS,
+  member: [
+    'items:create',
+    'items:update',
+    'items:lend',
+    'photos:manage',
+    'tags:manage',
+    'exports:create',
+  ],
+  viewer: [],
+};
+
+/**
+ * Check whether a string is a known role
+ */
+export function isHouseholdRole(role: string): role is HouseholdRole {
+  return (HOUSEHOLD_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Read overrides from the stored `permissions` JSON, ignoring unknown keys
+ * and non-boolean values.
+ *
+ * @param value - Raw `HouseholdMember.permissions` value
+ * @returns Known capability overrides
+ */
+export function parsePermissionOverrides(value: unknown): PermissionOverrides {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  const overrides: PermissionOverrides = {};
+  for (const permission of HOUSEHOLD_PERMISSIONS) {
+    const granted = (value as Record<string, unknown>)[permission];
+    if (typeof granted === 'boolean') {
+      overrides[permission] = granted;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Work out a member's effective capabilities
+ *
+ * @param role - Member's role (unknown roles get no capabilities)
+ * @param overrides - Raw `HouseholdMember.permissions` value
+ * @returns Capabilities the member holds
+ *
+ * @example
+ * ```typescript
+ * resolvePermissions('member', { 'items:delete': true });
+ * // [...member defaults, 'items:delete']
+ * ```
+ */
+export function resolvePermissions(role: string, overrides?: unknown): HouseholdPermission[] {
+  if (role === 'owner') {
+    return [...HOUSEHOLD_PERMISSIONS];
+  }
+
+  const defaults: readonly HouseholdPermission[] = isHouseholdRole(role) ? ROLE_PERMISSIONS[role] : [];
+  const parsed = parsePermissionOverrides(overrides);
+
+  return HOUSEHOLD_PERMISSIONS.filter((permission) => parsed[permission] ?? defaults.includes(permission));
+}
+
+/**
+ * Check a single capability
+ *
+ * @param role - Member's role
+ * @param overrides - Raw `HouseholdMember.permissions` value
+ * @param permission - Capability to check
+ * @returns True when the member holds the capability
+ */
+export function hasPermission(role: string, overrides: unknown, permission: HouseholdPermission): boolean {
+  return resolvePermissions(role, overrides).includes(permission);
+}
@@ -1,5 +1,5 @@
 /**
- * PWA utilities for service worker registration and camera permissions
+ * PWA utilities for service worker registration, camera and NFC permissions
  * Implements Progressive Web App functionality with camera access support
  */
 
@@ -8,6 +8,11 @@
  */
 export type CameraPermissionState = 'granted' | 'denied' | 'prompt' | 'unknown';
 
+/**
+ * NFC permission state
+ */
+export type NfcPermissionState = 'granted' | 'denied' | 'prompt' | 'unknown';
+
 /**
  * PWA installation state
  */
@@ -348,6 +353,38 @@ export async function getCameraDevices(): Promise<{
   }
 }
 
+/**
+ * Check if device supports Web NFC (Chrome on Android)
+ */
+export function isNfcSupported(): boolean {
+  if (typeof window === 'undefined') return false;
+
+  return 'NDEFReader' in window;
+}
+
+/**
+ * Check NFC permission status
+ */
+export async function checkNfcPermission(): Promise<NfcPermissionState> {
+  if (typeof window === 'undefined' || !isNfcSupported()) {
+    return 'unknown';
+  }
+
+  try {
+    // Permissions API is the only way to check without prompting;
+    // NDEFReader.scan() itself is what triggers the prompt
+    if ('permissions' in navigator) {
+      const permission = await navigator.permissions.query({ name: 'nfc' as PermissionName });
+      return permission.state as NfcPermissionState;
+    }
+
+    return 'unknown';
+  } catch (error) {
+    console.error('❌ PWA: Error checking NFC permission:', error);
+    return 'unknown';
+  }
+}
+
 /**
  * Initialize PWA functionality
  */
@@ -0,0 +1,39 @@
+/**
+ * Request context utilities for code running below the route handler.
+ *
+ * Lets services pick up per-request details (such as the client IP for the
+ * activity log) without threading the request through every call.
+ *
+ * @category Utilities
+ * @since 1.10.0
+ */
+
+import { headers } from 'next/headers';
+
+/**
+ * Resolves the client IP address of the current request.
+ *
+ * @returns Client IP, or null when unknown or called outside a request
+ * (scripts, background jobs, tests)
+ *
+ * @example
+ * ```typescript
+ * const ipAddress = await getRequestIp(); // '203.0.113.7'
+ * ```
+ */
+export async function getRequestIp(): Promise<string | null> {
+  let headerList: Awaited<ReturnType<typeof headers>>;
+  try {
+    headerList = await headers();
+  } catch {
+    return null;
+  }
+
+  const forwarded = headerList.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim().slice(0, 45) || null;
+  }
+
+  const ip = headerList.get('x-real-ip') || headerList.get('x-client-ip');
+  return ip ? ip.slice(0, 45) : null;
+}
@@ -0,0 +1,91 @@
+/**
+ * Search cursor utilities for keyset pagination of search results.
+ *
+ * A cursor records the sort value and ID of the last item on a page. The
+ * next page starts after that position rather than after a number of rows,
+ * so items added, deleted or edited elsewhere in the results do not shift
+ * later pages. Cursors are opaque base64url strings to clients.
+ *
+ * @category Utilities
+ * @subcategory Search
+ * @since 1.17.0
+ */
+
+/**
+ * Search result orders a cursor can follow.
+ */
+export type SearchCursorSort = 'relevance' | 'name' | 'date' | 'value' | 'quantity';
+
+/**
+ * Position after the last item of a page of search results.
+ */
+export interface SearchCursor {
+  /** Order the page was sorted in */
+  sortBy: SearchCursorSort;
+  /** Direction the page was sorted in */
+  sortOrder: 'asc' | 'desc';
+  /** Sort value of the last item; dates and decimals as strings, null when unset */
+  value: string | number | null;
+  /** ID of the last item, which breaks ties */
+  id: string;
+}
+
+const SORTS: readonly SearchCursorSort[] = ['relevance', 'name', 'date', 'value', 'quantity'];
+
+/**
+ * Turns a sort value read from the database into a cursor value.
+ *
+ * @param value - Sort value: a string, number, Date or Decimal
+ * @returns Value to store in a cursor
+ */
+export function toSearchCursorValue(value: unknown): SearchCursor['value'] {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'bigint') return Number(value);
+  return String(value);
+}
+
+/**
+ * Encodes a cursor for a search response.
+ *
+ * @param cursor - Position after the last item of the page
+ * @returns Opaque cursor string
+ *
+ * @example
+ * ```typescript
+ * const nextCursor = encodeSearchCursor({
+ *   sortBy: 'value',
+ *   sortOrder: 'desc',
+ *   value: '249.99',
+ *   id: lastItem.id,
+ * });
+ * ```
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  const payload = JSON.stringify([cursor.sortBy, cursor.sortOrder, cursor.value, cursor.id]);
+  return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor sent back by a client.
+ *
+ * @param token - Cursor string from a previous search response
+ * @returns The cursor, or null when the string is not a valid cursor
+ */
+export function decodeSearchCursor(token: string): SearchCursor | null {
+  try {
+    const payload: unknown = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(payload) || payload.length !== 4) return null;
+
+    const [sortBy, sortOrder, value, id] = payload;
+    if (!SORTS.includes(sortBy)) return null;
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') return null;
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number') return null;
+    if (typeof id !== 'string' || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+    return { sortBy, sortOrder, value, id };
+  } catch {
+    return null;
+  }
+}
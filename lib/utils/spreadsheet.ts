@@ -0,0 +1,401 @@
+/**
+ * Spreadsheet reading and writing utilities.
+ *
+ * Turns uploaded CSV and XLSX files into rows of cell strings for the item
+ * importer. CSV parsing mirrors the quoting rules of the export writer;
+ * XLSX files are unzipped and only the first worksheet's cell values are
+ * read (no formulas, styles or dates beyond their stored number).
+ *
+ * Also builds minimal XLSX workbooks (inline strings and numbers, no styles)
+ * for the XLSX export format.
+ *
+ * @category Utilities
+ * @since 1.11.0
+ */
+
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+import type { ImportFileFormat } from '@/lib/types/imports';
+
+/**
+ * CSV dialect, matching the export writer's configuration keys
+ */
+export interface CSVParseOptions {
+  delimiter?: string;
+  textQualifier?: string;
+}
+
+/**
+ * Parse CSV text into rows of cells.
+ *
+ * Handles quoted cells containing delimiters, doubled qualifiers and line
+ * breaks, CRLF line endings and a leading byte order mark.
+ *
+ * @param text - CSV file contents
+ * @param options - Delimiter and text qualifier (defaults: `,` and `"`)
+ * @returns Rows of raw cell strings
+ *
+ * @example
+ * ```typescript
+ * parseCSV('Item Name,Tags\n"Drill, cordless","tools,garage"');
+ * // [['Item Name', 'Tags'], ['Drill, cordless', 'tools,garage']]
+ * ```
+ */
+export function parseCSV(text: string, options: CSVParseOptions = {}): string[][] {
+  const delimiter = options.delimiter ?? ',';
+  const qualifier = options.textQualifier ?? '"';
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === qualifier) {
+        if (input[i + 1] === qualifier) {
+          cell += qualifier;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === qualifier && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      if (char === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows of cells.
+ *
+ * Rows keep their sheet position, so `rows[4]` is spreadsheet row 5 even
+ * when earlier rows are empty.
+ *
+ * @param data - XLSX file bytes
+ * @returns Rows of cell strings
+ * @throws Error when the file is not a readable workbook
+ */
+export function parseXLSX(data: Uint8Array): string[][] {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, {
+      filter: (file) => file.name === 'xl/sharedStrings.xml' || file.name.startsWith('xl/worksheets/'),
+    });
+  } catch {
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  const sheetName = files['xl/worksheets/sheet1.xml']
+    ? 'xl/worksheets/sheet1.xml'
+    : Object.keys(files).filter((name) => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).sort()[0];
+  if (!sheetName) {
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  const sharedStrings = files['xl/sharedStrings.xml']
+    ? readSharedStrings(strFromU8(files['xl/sharedStrings.xml']))
+    : [];
+  const sheet = strFromU8(files[sheetName]);
+
+  const rows: string[][] = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+
+  for (const rowMatch of sheet.matchAll(rowPattern)) {
+    const rowNumber = Number(readAttribute(rowMatch[1], 'r')) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(cellPattern)) {
+      const reference = readAttribute(cellMatch[1], 'r');
+      const column = reference ? columnIndex(reference) : cells.length;
+      const value = readCellValue(readAttribute(cellMatch[1], 't'), cellMatch[2] ?? '', sharedStrings);
+
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+
+  return rows;
+}
+
+/**
+ * Work out a spreadsheet's format from its name, falling back to sniffing
+ * the ZIP signature XLSX files start with.
+ *
+ * @param filename - Uploaded file name
+ * @param data - File bytes
+ * @returns Detected format, or null when it is neither CSV nor XLSX
+ */
+export function detectSpreadsheetFormat(filename: string, data: Uint8Array): ImportFileFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'xlsx') return 'xlsx';
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+
+  // "PK\x03\x04"
+  if (data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04) {
+    return 'xlsx';
+  }
+
+  return null;
+}
+
+/**
+ * Read a CSV or XLSX file into rows of cells
+ *
+ * @param data - File bytes
+ * @param format - Detected file format
+ * @param options - CSV dialect (ignored for XLSX)
+ * @returns Rows of cell strings
+ */
+export function readSpreadsheet(
+  data: Uint8Array,
+  format: ImportFileFormat,
+  options?: CSVParseOptions
+): string[][] {
+  return format === 'xlsx'
+    ? parseXLSX(data)
+    : parseCSV(new TextDecoder('utf-8').decode(data), options);
+}
+
+/**
+ * A worksheet to write: numbers become numeric cells, everything else text
+ */
+export interface WorksheetData {
+  name: string;
+  rows: Array<Array<string | number | null | undefined>>;
+}
+
+/**
+ * Build an XLSX workbook from worksheets of cell values.
+ *
+ * Sheet names are cleaned of characters Excel rejects, cut to 31 characters
+ * and made unique.
+ *
+ * @param sheets - Worksheets in tab order (at least one)
+ * @returns XLSX file bytes
+ *
+ * @example
+ * ```typescript
+ * buildXLSX([{ name: 'Garage', rows: [['Item Name', 'Quantity'], ['Drill', 1]] }]);
+ * ```
+ */
+export function buildXLSX(sheets: WorksheetData[]): Uint8Array {
+  const usedNames = new Set<string>();
+  const names = sheets.map((sheet) => uniqueSheetName(sheet.name, usedNames));
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      sheets.map((_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ).join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      names.map((name, i) => `<sheet name="${encodeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets.map((_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+      ).join('') +
+      '</Relationships>'
+    ),
+  };
+
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(buildWorksheetXml(sheet.rows));
+  });
+
+  return zipSync(files);
+}
+
+/**
+ * Convert an Excel date serial (days since 1899-12-30) to a Date
+ */
+export function excelSerialToDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400 * 1000));
+}
+
+// Private helpers
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * Worksheet XML with numeric and inline string cells
+ */
+function buildWorksheetXml(rows: WorksheetData['rows']): string {
+  const rowsXml = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const reference = `${columnName(c)}${r + 1}`;
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+      }
+      if (value === null || value === undefined || value === '') {
+        return '';
+      }
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(String(value))}</t></is></c>`;
+    }).join('');
+
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rowsXml}</sheetData></worksheet>`;
+}
+
+/**
+ * A valid, unique sheet name: no []:*?/\ characters, at most 31 characters
+ */
+function uniqueSheetName(name: string, usedNames: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Sheet';
+  let candidate = base;
+
+  for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Column letters from a zero-based index (2 -> "C", 27 -> "AB")
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Escape text for XML content and attributes, dropping control characters
+ * XML 1.0 cannot represent
+ */
+function encodeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Read the shared string table (one entry per <si>, rich text runs joined)
+ */
+function readSharedStrings(xml: string): string[] {
+  return Array.from(xml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), (match) => readText(match[1]));
+}
+
+/**
+ * Join the <t> text runs inside an element
+ */
+function readText(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+}
+
+/**
+ * Resolve a cell's displayed value from its type and contents
+ */
+function readCellValue(type: string | null, xml: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return readText(xml);
+  }
+
+  const value = xml.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (value === undefined) return '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return decodeXml(value);
+  }
+}
+
+/**
+ * Read an XML attribute value from an element's attribute string
+ */
+function readAttribute(attributes: string, name: string): string | null {
+  return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? null;
+}
+
+/**
+ * Zero-based column index from a cell reference ("C7" -> 2)
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Decode the XML entities Excel writes
+ */
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        );
+    }
+  });
+}
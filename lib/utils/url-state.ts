@@ -32,6 +32,8 @@ export interface SearchUrlState {
   tags?: string[];
   /** Filter by status */
   statuses?: string[];
+  /** Saved search to show instead of the query and filters */
+  collection?: string;
 }
 
 /**
@@ -96,6 +98,10 @@ const URL_PARAM_VALIDATION: Record<string, UrlParamValidation> = {
     param: 'from',
     allowedValues: ['search', 'inventory', 'dashboard'],
   },
+  collection: {
+    param: 'collection',
+    pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  },
 };
 
 /**
@@ -141,7 +147,7 @@ function validateUrlParam(param: string, value: string): boolean {
  * Extracts and validates search-related parameters from URL search params,
  * applying security validation and type conversion as needed.
  * 
- * @param searchParams - URL search parameters from Next.js
+ * @param searchParams - URL search parameters from Next.js or a plain URLSearchParams
  * @returns Parsed and validated search state
  * 
  * @example
@@ -152,7 +158,7 @@ function validateUrlParam(param: string, value: string): boolean {
  * console.log(state.viewMode); // "grid"
  * ```
  */
-export function parseSearchState(searchParams: ReadonlyURLSearchParams): SearchUrlState {
+export function parseSearchState(searchParams: URLSearchParams | ReadonlyURLSearchParams): SearchUrlState {
   const state: SearchUrlState = {};
 
   // Parse query
@@ -215,6 +221,12 @@ export function parseSearchState(searchParams: ReadonlyURLSearchParams): SearchU
     }
   }
 
+  // Parse saved search ID
+  const collection = searchParams.get('collection');
+  if (collection && validateUrlParam('collection', collection)) {
+    state.collection = collection;
+  }
+
   return state;
 }
 
@@ -336,6 +348,13 @@ export function serializeSearchState(
     params.delete('statuses');
   }
 
+  // Set saved search
+  if (state.collection) {
+    params.set('collection', state.collection);
+  } else {
+    params.delete('collection');
+  }
+
   return params;
 }
 
@@ -460,4 +479,45 @@ export function buildBackToSearchUrl(context: NavigationContext): string {
   const paramString = params.toString();
   
   return `/search${paramString ? `?${paramString}` : ''}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Builds the URL of a saved search ("smart collection").
+ * 
+ * The link holds only the saved search ID, so it always shows the items
+ * the search matches when it is opened. Household members can open shared
+ * searches; personal ones only open for the member who saved them.
+ * 
+ * @param savedSearchId - Saved search ID
+ * @returns URL string for the collection
+ * 
+ * @example
+ * ```typescript
+ * buildCollectionUrl('6f1c2d3e-4a5b-4c6d-8e7f-901234567890');
+ * // "/search?collection=6f1c2d3e-4a5b-4c6d-8e7f-901234567890"
+ * ```
+ */
+export function buildCollectionUrl(savedSearchId: string): string {
+  const params = serializeSearchState({ collection: savedSearchId });
+  return `/search?${params.toString()}`;
+}
+
+/**
+ * Builds the resolver URL written to NFC tags and printed on labels.
+ * 
+ * The /t/[code] route resolves the code within the scanning user's
+ * household and redirects to the bound item or location.
+ * 
+ * @param code - Tag code (NFC tag UID)
+ * @param origin - Absolute origin to prefix, required when writing to a tag
+ * @returns Resolver URL string
+ * 
+ * @example
+ * ```typescript
+ * buildTagResolverUrl('04A2B3C4', 'https://inventory.example.com');
+ * // "https://inventory.example.com/t/04A2B3C4"
+ * ```
+ */
+export function buildTagResolverUrl(code: string, origin: string = ''): string {
+  return `${origin}/t/${encodeURIComponent(code)}`;
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { ActivityEntityType, ActivityAction } from '@prisma/client';
+
+/**
+ * Validation schemas for the household activity log
+ * These schemas validate filters for browsing audit history
+ */
+
+/**
+ * Schema for querying activity log entries
+ */
+export const ActivityQuerySchema = z.object({
+  entityType: z
+    .enum([ActivityEntityType.ITEM, ActivityEntityType.LOCATION, ActivityEntityType.NFC_TAG])
+    .optional(),
+
+  entityId: z
+    .string()
+    .uuid('Entity ID must be a valid UUID')
+    .optional(),
+
+  userId: z
+    .string()
+    .min(1, 'User ID cannot be empty')
+    .optional(),
+
+  actions: z
+    .array(z.nativeEnum(ActivityAction))
+    .max(Object.keys(ActivityAction).length, 'Too many actions')
+    .optional(),
+
+  from: z
+    .coerce
+    .date({ invalid_type_error: 'From must be a valid date' })
+    .optional(),
+
+  to: z
+    .coerce
+    .date({ invalid_type_error: 'To must be a valid date' })
+    .optional(),
+
+  page: z
+    .number()
+    .int('Page must be a whole number')
+    .positive('Page must be greater than 0')
+    .default(1),
+
+  limit: z
+    .number()
+    .int('Limit must be a whole number')
+    .positive('Limit must be greater than 0')
+    .max(100, 'Cannot request more than 100 entries per page')
+    .default(50),
+}).refine((data) => !(data.entityId && !data.entityType), {
+  message: 'Entity type is required when filtering by entity ID',
+  path: ['entityType'],
+}).refine((data) => !(data.from && data.to) || data.from <= data.to, {
+  message: 'From date must be before to date',
+  path: ['from'],
+});
+
+/**
+ * Type exports for use in API routes and services
+ */
+export type ActivityQueryInput = z.infer<typeof ActivityQuerySchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateActivityQuery = (data: unknown) => ActivityQuerySchema.parse(data);
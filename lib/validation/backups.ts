@@ -0,0 +1,199 @@
+/**
+ * Backup validation schemas using Zod
+ *
+ * Validates restore options and the manifest.json read back out of a
+ * household backup archive before anything is written.
+ *
+ * @category Validation
+ * @since 1.11.0
+ */
+
+import { z } from 'zod';
+import { CustomFieldType, DepreciationMethod, ItemStatus, LocationType, NfcTagStatus } from '@prisma/client';
+
+/**
+ * Current backup archive format version
+ *
+ * Version 2 adds categories and custom field definitions; version 1
+ * archives restore without them.
+ */
+export const BACKUP_FORMAT_VERSION = 2;
+
+/**
+ * Maximum upload size for a backup archive (250MB)
+ */
+export const MAX_BACKUP_FILE_SIZE = 250 * 1024 * 1024;
+
+/**
+ * Maximum unpacked size of all entries in a backup archive (500MB)
+ */
+export const MAX_BACKUP_UNPACKED_SIZE = 500 * 1024 * 1024;
+
+/**
+ * Maximum unpacked size of the manifest entry (64MB)
+ */
+export const MAX_BACKUP_MANIFEST_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Maximum unpacked size of one photo entry, matching photo uploads (50MB)
+ */
+export const MAX_BACKUP_PHOTO_SIZE = 50 * 1024 * 1024;
+
+/**
+ * ISO date string as written by Date.toISOString()
+ */
+const IsoDateSchema = z.string().datetime({ offset: true });
+
+const BackupLocationSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  description: z.string().nullable(),
+  parentId: z.string().min(1).nullable(),
+  path: z.string().min(1),
+  level: z.number().int().min(0).max(10),
+  locationType: z.nativeEnum(LocationType),
+  createdAt: IsoDateSchema,
+});
+
+const BackupCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  parentId: z.string().min(1).nullable(),
+  path: z.string().min(1),
+  level: z.number().int().min(0),
+  depreciationMethod: z.nativeEnum(DepreciationMethod).nullable(),
+  usefulLifeYears: z.number().int().min(1).nullable(),
+  depreciationRate: z.string().regex(/^\d+(\.\d+)?$/, 'Rates must be decimal strings').nullable(),
+  createdAt: IsoDateSchema,
+});
+
+const BackupCustomFieldSchema = z.object({
+  id: z.string().min(1),
+  key: z.string().min(1).max(50),
+  label: z.string().min(1).max(100),
+  type: z.nativeEnum(CustomFieldType),
+  options: z.array(z.string()),
+  required: z.boolean(),
+  searchable: z.boolean(),
+  tagIds: z.array(z.string().min(1)),
+  locationTypes: z.array(z.nativeEnum(LocationType)),
+  categoryIds: z.array(z.string().min(1)),
+  displayOrder: z.number().int(),
+  createdAt: IsoDateSchema,
+});
+
+const BackupTagSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(50),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Tag color must be a hex color'),
+  createdAt: IsoDateSchema,
+});
+
+const BackupPhotoSchema = z.object({
+  id: z.string().min(1),
+  file: z.string().min(1).nullable(),
+  filename: z.string().min(1).max(255),
+  mimeType: z.string().min(1).max(50),
+  fileSize: z.number().int().min(0),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  displayOrder: z.number().int(),
+  isPrimary: z.boolean(),
+  createdAt: IsoDateSchema,
+});
+
+const DecimalStringSchema = z.string().regex(/^-?\d+(\.\d+)?$/, 'Amounts must be decimal strings');
+
+const BackupItemSchema = z.object({
+  id: z.string().min(1),
+  locationId: z.string().min(1),
+  categoryId: z.string().min(1).nullable().default(null),
+  name: z.string().min(1).max(200),
+  description: z.string().nullable(),
+  quantity: z.number().int(),
+  unit: z.string().min(1).max(20),
+  purchasePrice: DecimalStringSchema.nullable(),
+  currentValue: DecimalStringSchema.nullable(),
+  purchaseDate: IsoDateSchema.nullable(),
+  status: z.nativeEnum(ItemStatus),
+  borrowedAt: IsoDateSchema.nullable(),
+  borrowedUntil: IsoDateSchema.nullable(),
+  metadata: z.unknown(),
+  createdAt: IsoDateSchema,
+  updatedAt: IsoDateSchema,
+  tagIds: z.array(z.string().min(1)),
+  photos: z.array(BackupPhotoSchema),
+});
+
+const BackupLoanSchema = z.object({
+  id: z.string().min(1),
+  itemId: z.string().min(1),
+  borrowerName: z.string().min(1).max(100),
+  borrowerContact: z.string().max(255).nullable(),
+  lentAt: IsoDateSchema,
+  dueAt: IsoDateSchema.nullable(),
+  notes: z.string().max(500).nullable(),
+  returnedAt: IsoDateSchema.nullable(),
+  returnCondition: z.string().max(20).nullable(),
+  returnNotes: z.string().max(500).nullable(),
+});
+
+const BackupNfcTagSchema = z.object({
+  id: z.string().min(1),
+  uid: z.string().min(1).max(32),
+  label: z.string().max(100).nullable(),
+  itemId: z.string().min(1).nullable(),
+  locationId: z.string().min(1).nullable(),
+  status: z.nativeEnum(NfcTagStatus),
+  retiredAt: IsoDateSchema.nullable(),
+  createdAt: IsoDateSchema,
+});
+
+/**
+ * Backup manifest validation
+ *
+ * Cross-references (parents, item locations and categories, tag and loan
+ * item IDs) are checked by the backup service while it remaps IDs.
+ * Categories and custom fields default to empty for version 1 archives.
+ */
+export const BackupManifestSchema = z.object({
+  format: z.literal('household-backup'),
+  version: z.number().int().min(1).max(BACKUP_FORMAT_VERSION, {
+    message: `Backup version is newer than this server supports (max ${BACKUP_FORMAT_VERSION})`,
+  }),
+  createdAt: IsoDateSchema,
+  household: z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().nullable(),
+    settings: z.unknown(),
+  }),
+  locations: z.array(BackupLocationSchema),
+  categories: z.array(BackupCategorySchema).default([]),
+  tags: z.array(BackupTagSchema),
+  customFields: z.array(BackupCustomFieldSchema).default([]),
+  items: z.array(BackupItemSchema),
+  loans: z.array(BackupLoanSchema),
+  nfcTags: z.array(BackupNfcTagSchema),
+});
+
+/**
+ * Restore options validation
+ */
+export const RestoreOptionsSchema = z.object({
+  target: z.enum(['new', 'current'], {
+    errorMap: () => ({ message: 'target must be "new" or "current"' })
+  }).default('new'),
+  name: z.string().trim().min(1, 'Household name cannot be empty').max(100, 'Household name must be 100 characters or less').optional(),
+}).strict();
+
+/**
+ * Type exports
+ */
+export type BackupManifestInput = z.infer<typeof BackupManifestSchema>;
+export type RestoreOptionsInput = z.infer<typeof RestoreOptionsSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateBackupManifest = (data: unknown) => BackupManifestSchema.parse(data);
+export const validateRestoreOptions = (data: unknown) => RestoreOptionsSchema.parse(data);
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { DepreciationMethod } from '@prisma/client';
+
+/**
+ * Validation schemas for the household category tree
+ * These schemas validate category names, their place in the tree and their
+ * default depreciation rule
+ */
+
+/**
+ * Category name; ">" separates names in category paths
+ */
+export const CategoryNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Category name is required')
+  .max(100, 'Category name must be 100 characters or less')
+  .refine((name) => !name.includes('>'), 'Category names cannot contain ">"');
+
+/**
+ * Fields shared by create and update
+ */
+const CategorySettingsSchema = z.object({
+  name: CategoryNameSchema,
+
+  parentId: z
+    .string()
+    .uuid('Parent category ID must be a valid UUID')
+    .nullable(),
+
+  depreciationMethod: z.nativeEnum(DepreciationMethod).nullable(),
+
+  usefulLifeYears: z
+    .number()
+    .int('Useful life must be a whole number of years')
+    .min(1, 'Useful life must be at least 1 year')
+    .max(100, 'Useful life cannot exceed 100 years')
+    .nullable(),
+
+  depreciationRate: z
+    .number()
+    .positive('Depreciation rate must be greater than 0')
+    .max(100, 'Depreciation rate cannot exceed 100%')
+    .nullable(),
+
+  customFieldIds: z
+    .array(z.string().uuid('Custom field ID must be a valid UUID'))
+    .max(50, 'A category cannot have more than 50 default fields'),
+});
+
+/**
+ * Depreciation settings of a category
+ */
+type DepreciationSettings = Pick<
+  z.infer<typeof CategorySettingsSchema>,
+  'depreciationMethod' | 'usefulLifeYears' | 'depreciationRate'
+>;
+
+/**
+ * Check that a depreciation rule has what its method needs
+ *
+ * @param rule - Method, useful life and rate
+ * @returns Problem with the rule, or null when it is complete
+ */
+export function getDepreciationRuleError(rule: DepreciationSettings): string | null {
+  switch (rule.depreciationMethod) {
+    case DepreciationMethod.STRAIGHT_LINE:
+      return rule.usefulLifeYears === null ? 'Straight-line depreciation needs a useful life' : null;
+    case DepreciationMethod.DECLINING_BALANCE:
+      return rule.depreciationRate === null ? 'Declining-balance depreciation needs a yearly rate' : null;
+    default:
+      return rule.usefulLifeYears !== null || rule.depreciationRate !== null
+        ? 'Choose a depreciation method for the useful life or rate'
+        : null;
+  }
+}
+
+/**
+ * Schema for adding a category
+ */
+export const CreateCategorySchema = CategorySettingsSchema.extend({
+  parentId: CategorySettingsSchema.shape.parentId.default(null),
+  depreciationMethod: CategorySettingsSchema.shape.depreciationMethod.default(null),
+  usefulLifeYears: CategorySettingsSchema.shape.usefulLifeYears.default(null),
+  depreciationRate: CategorySettingsSchema.shape.depreciationRate.default(null),
+  customFieldIds: CategorySettingsSchema.shape.customFieldIds.default([]),
+}).superRefine((data, ctx) => {
+  const message = getDepreciationRuleError(data);
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['depreciationMethod'] });
+  }
+});
+
+/**
+ * Schema for changing a category; the depreciation rule is checked against
+ * the stored one by the service
+ */
+export const UpdateCategorySchema = CategorySettingsSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  'At least one field must be provided'
+);
+
+/**
+ * Type exports for use in API routes and services
+ */
+export type CreateCategoryInput = z.infer<typeof CreateCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof UpdateCategorySchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateCreateCategory = (data: unknown) => CreateCategorySchema.parse(data);
+export const validateUpdateCategory = (data: unknown) => UpdateCategorySchema.parse(data);
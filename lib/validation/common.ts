@@ -278,6 +278,23 @@ export function handleValidationError(
   );
 }
 
+/**
+ * Check whether an error is a coded service error with a code from `codes`
+ *
+ * Services throw Errors tagged with a `code` and optional `context` (see
+ * ExportError, ImportError, BackupError). Passing the service's error code
+ * table, or a route's code-to-status map, narrows `code` to its keys.
+ */
+export function isServiceError<TCode extends string>(
+  error: unknown,
+  codes: Record<TCode, unknown>
+): error is Error & { code: TCode; context?: Record<string, any> } {
+  return error instanceof Error
+    && 'code' in error
+    && typeof error.code === 'string'
+    && Object.prototype.hasOwnProperty.call(codes, error.code);
+}
+
 /**
  * Validation result type for service layer
  */
@@ -0,0 +1,221 @@
+import { z } from 'zod';
+import { CustomFieldType, LocationType } from '@prisma/client';
+import type { CustomFieldDefinition } from '@/lib/types/custom-fields';
+
+/**
+ * Validation schemas for household custom item fields
+ * These schemas validate field definitions and generate the schema item
+ * values are checked against
+ */
+
+/** Metadata keys with built-in handling that custom fields cannot take over */
+export const RESERVED_CUSTOM_FIELD_KEYS = ['barcode'] as const;
+
+/** Dates are stored as calendar days */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Custom field key - the metadata key values are stored under
+ */
+export const CustomFieldKeySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Key must start with a letter and contain only letters, numbers and underscores')
+  .max(50, 'Key must be 50 characters or less')
+  .refine(
+    (key) => !(RESERVED_CUSTOM_FIELD_KEYS as readonly string[]).includes(key),
+    (key) => ({ message: `"${key}" is reserved` })
+  );
+
+/**
+ * Allowed values of a SELECT field
+ */
+const CustomFieldOptionsSchema = z
+  .array(
+    z.string()
+      .trim()
+      .min(1, 'Options cannot be empty')
+      .max(100, 'Options must be 100 characters or less')
+  )
+  .max(50, 'A field cannot have more than 50 options')
+  .refine((options) => new Set(options).size === options.length, 'Options must be unique');
+
+/**
+ * Fields shared by create and update
+ */
+const CustomFieldSettingsSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, 'Label is required')
+    .max(100, 'Label must be 100 characters or less'),
+
+  options: CustomFieldOptionsSchema,
+
+  required: z.boolean(),
+
+  searchable: z.boolean(),
+
+  tagIds: z
+    .array(z.string().uuid('Tag ID must be a valid UUID'))
+    .max(20, 'Cannot scope a field to more than 20 tags'),
+
+  locationTypes: z.array(z.nativeEnum(LocationType)),
+
+  displayOrder: z
+    .number()
+    .int('Display order must be a whole number')
+    .min(0, 'Display order cannot be negative'),
+});
+
+/**
+ * Check that options are given for SELECT fields and only for them
+ */
+export function checkCustomFieldOptions(
+  type: CustomFieldType,
+  options: string[] | undefined,
+  ctx: z.RefinementCtx
+): void {
+  if (type === CustomFieldType.SELECT && (!options || options.length === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Select fields need at least one option', path: ['options'] });
+  } else if (type !== CustomFieldType.SELECT && options && options.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Only select fields have options', path: ['options'] });
+  }
+}
+
+/**
+ * Schema for defining a custom field
+ */
+export const CreateCustomFieldSchema = CustomFieldSettingsSchema.extend({
+  key: CustomFieldKeySchema,
+  type: z.nativeEnum(CustomFieldType),
+  options: CustomFieldSettingsSchema.shape.options.default([]),
+  required: CustomFieldSettingsSchema.shape.required.default(false),
+  searchable: CustomFieldSettingsSchema.shape.searchable.default(true),
+  tagIds: CustomFieldSettingsSchema.shape.tagIds.default([]),
+  locationTypes: CustomFieldSettingsSchema.shape.locationTypes.default([]),
+  displayOrder: CustomFieldSettingsSchema.shape.displayOrder.default(0),
+}).superRefine((data, ctx) => checkCustomFieldOptions(data.type, data.options, ctx));
+
+/**
+ * Schema for changing a custom field; the key and type are fixed so
+ * stored values stay valid
+ */
+export const UpdateCustomFieldSchema = CustomFieldSettingsSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  'At least one field must be provided'
+);
+
+/**
+ * Treat blank form values as "no value"
+ */
+const blankToUndefined = (value: unknown) =>
+  value === null || (typeof value === 'string' && value.trim() === '') ? undefined : value;
+
+/**
+ * Schema for one field's value
+ *
+ * @param field - Field definition
+ * @returns Schema for the value; blank values are reported as missing
+ */
+export function buildCustomFieldValueSchema(
+  field: Pick<CustomFieldDefinition, 'label' | 'type' | 'options'>
+): z.ZodTypeAny {
+  const { label } = field;
+  const required_error = `${label} is required`;
+
+  switch (field.type) {
+    case CustomFieldType.NUMBER:
+      return z.number({ required_error, invalid_type_error: `${label} must be a number` }).finite(`${label} must be a number`);
+
+    case CustomFieldType.DATE:
+    case CustomFieldType.WARRANTY_EXPIRY:
+      return z
+        .string({ required_error, invalid_type_error: `${label} must be a date` })
+        .regex(ISO_DATE_PATTERN, `${label} must be a date (YYYY-MM-DD)`)
+        .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), `${label} must be a valid date`);
+
+    case CustomFieldType.SELECT:
+      return z
+        .string({ required_error, invalid_type_error: `${label} must be one of: ${field.options.join(', ')}` })
+        .refine((value) => field.options.includes(value), `${label} must be one of: ${field.options.join(', ')}`);
+
+    case CustomFieldType.URL:
+      return z
+        .string({ required_error, invalid_type_error: `${label} must be a URL` })
+        .trim()
+        .max(2048, `${label} must be 2048 characters or less`)
+        .url(`${label} must be a valid URL`)
+        .refine((value) => /^https?:\/\//i.test(value), `${label} must start with http:// or https://`);
+
+    case CustomFieldType.SERIAL_NUMBER:
+      return z
+        .string({ required_error, invalid_type_error: `${label} must be text` })
+        .trim()
+        .max(100, `${label} must be 100 characters or less`)
+        .regex(/^[A-Za-z0-9][A-Za-z0-9\-_./ ]*$/, `${label} may only contain letters, numbers, spaces and - _ . /`);
+
+    default:
+      return z
+        .string({ required_error, invalid_type_error: `${label} must be text` })
+        .trim()
+        .max(500, `${label} must be 500 characters or less`);
+  }
+}
+
+/**
+ * Generate the schema item metadata is checked against
+ *
+ * Only the given (applicable) fields are checked; other metadata keys pass
+ * through untouched. Blank values are dropped.
+ *
+ * @param fields - Fields that apply to the item
+ * @returns Schema for the item's metadata object
+ *
+ * @example
+ * ```typescript
+ * const schema = buildCustomFieldValuesSchema([
+ *   { key: 'warrantyUntil', label: 'Warranty', type: 'WARRANTY_EXPIRY', options: [], required: true },
+ * ]);
+ * schema.parse({ warrantyUntil: '2027-05-01', barcode: '4006381333931' });
+ * ```
+ */
+export function buildCustomFieldValuesSchema(
+  fields: Array<Pick<CustomFieldDefinition, 'key' | 'label' | 'type' | 'options' | 'required'>>
+) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    const valueSchema = buildCustomFieldValueSchema(field);
+    shape[field.key] = z.preprocess(blankToUndefined, field.required ? valueSchema : valueSchema.optional());
+  }
+
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Check an item's custom field values, reporting issues under `metadata.<key>`
+ *
+ * @param fields - Fields that apply to the item
+ * @param metadata - Item metadata
+ * @returns Metadata with values normalized and blank values removed
+ * @throws {ZodError} When a value is invalid or a required value is missing
+ */
+export function validateCustomFieldValues(
+  fields: Array<Pick<CustomFieldDefinition, 'key' | 'label' | 'type' | 'options' | 'required'>>,
+  metadata: Record<string, unknown>
+): Record<string, unknown> {
+  const parsed = z.object({ metadata: buildCustomFieldValuesSchema(fields) }).parse({ metadata });
+  return Object.fromEntries(Object.entries(parsed.metadata).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Type exports for use in API routes and services
+ */
+export type CreateCustomFieldInput = z.infer<typeof CreateCustomFieldSchema>;
+export type UpdateCustomFieldInput = z.infer<typeof UpdateCustomFieldSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateCreateCustomField = (data: unknown) => CreateCustomFieldSchema.parse(data);
+export const validateUpdateCustomField = (data: unknown) => UpdateCustomFieldSchema.parse(data);
@@ -10,12 +10,24 @@
 
 import { z } from 'zod';
 import type { CreateExportRequest, ExportJob, ExportProgressUpdate } from '@/lib/types/exports';
+import { isExportColumnId, REQUIRED_EXPORT_COLUMNS } from '@/lib/utils/export-columns';
+import { getMinimumCronInterval, isValidCronExpression } from '@/lib/utils/cron';
+
+/** Export schedules may not run more often than this */
+export const MIN_EXPORT_SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
 
 /**
  * Supported export formats validation
  */
-export const ExportFormatSchema = z.enum(['csv'], {
-  errorMap: () => ({ message: 'Export format must be "csv"' })
+export const ExportFormatSchema = z.enum(['csv', 'json', 'xlsx', 'pdf'], {
+  errorMap: () => ({ message: 'Export format must be one of "csv", "json", "xlsx" or "pdf"' })
+});
+
+/**
+ * Export report type validation
+ */
+export const ExportReportTypeSchema = z.enum(['inventory', 'insurance'], {
+  errorMap: () => ({ message: 'Report must be "inventory" or "insurance"' })
 });
 
 /**
@@ -49,6 +61,9 @@ export const ExportFiltersSchema = z.object({
   /** Date range for filtering items by creation date */
   createdAfter: z.coerce.date().optional(),
   createdBefore: z.coerce.date().optional(),
+
+  /** Saved search whose current items to export */
+  savedSearchId: z.string().uuid('Invalid saved search ID').optional(),
 }).strict().refine((data) => {
   // Ensure createdAfter is before createdBefore if both are provided
   if (data.createdAfter && data.createdBefore) {
@@ -60,17 +75,93 @@ export const ExportFiltersSchema = z.object({
   path: ['createdAfter']
 });
 
+/**
+ * Export column settings validation schema
+ * Column IDs are built-in columns or `metadata.<key>`; the required columns
+ * keep exports importable
+ */
+export const ExportColumnSettingsSchema = z.object({
+  /** Column IDs in output order */
+  columns: z.array(
+    z.string().refine(isExportColumnId, (id) => ({ message: `Unknown export column "${id}"` }))
+  )
+    .min(1, 'At least one column is required')
+    .max(100, 'Cannot export more than 100 columns')
+    .refine((columns) => new Set(columns).size === columns.length, 'Columns cannot be repeated')
+    .refine(
+      (columns) => REQUIRED_EXPORT_COLUMNS.every(id => columns.includes(id)),
+      `Columns must include ${REQUIRED_EXPORT_COLUMNS.join(', ')}`
+    ),
+
+  /** Field delimiter */
+  delimiter: z.enum([',', ';', '\t', '|'], {
+    errorMap: () => ({ message: 'Delimiter must be a comma, semicolon, tab or pipe' })
+  }),
+
+  /** Date and timestamp format */
+  dateFormat: z.enum(['iso', 'us', 'eu'], {
+    errorMap: () => ({ message: 'Date format must be "iso", "us" or "eu"' })
+  }),
+
+  /** Currency formatting */
+  currency: z.object({
+    symbol: z.string().max(3, 'Currency symbol cannot exceed 3 characters'),
+    decimalSeparator: z.enum(['.', ',']),
+  }).strict(),
+}).strict();
+
 /**
  * Create export request validation schema
  * Validates the initial export request from the client
  */
 export const CreateExportRequestSchema = z.object({
-  /** Export format - currently only CSV supported */
+  /** Export format */
   format: ExportFormatSchema,
 
+  /** Report to generate (defaults to inventory) */
+  report: ExportReportTypeSchema.optional(),
+
+  /** Past date for an insurance report */
+  asOf: z.coerce.date().optional(),
+
   /** Optional filters to apply to the export */
   filters: ExportFiltersSchema.optional(),
-}).strict();
+
+  /** Columns and formatting for CSV and XLSX exports */
+  columnSettings: ExportColumnSettingsSchema.optional(),
+
+  /** Saved export template to take the column settings from */
+  templateId: z.string().uuid('Invalid export template ID').optional(),
+}).strict().superRefine((data, ctx) => {
+  if (data.columnSettings && data.templateId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Use either columnSettings or templateId, not both', path: ['templateId'] });
+  }
+  if ((data.columnSettings || data.templateId) && (data.report === 'insurance' || !['csv', 'xlsx'].includes(data.format))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Column settings only apply to CSV and XLSX inventory exports',
+      path: [data.columnSettings ? 'columnSettings' : 'templateId'],
+    });
+  }
+
+  if (data.report !== 'insurance') {
+    if (data.asOf) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'asOf is only supported for insurance reports', path: ['asOf'] });
+    }
+    return;
+  }
+
+  // Insurance reports always cover the whole household
+  if (data.format !== 'pdf') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Insurance reports are only available as PDF', path: ['format'] });
+  }
+  if (data.filters) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Insurance reports cannot be filtered', path: ['filters'] });
+  }
+  if (data.asOf && data.asOf > new Date()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'asOf cannot be in the future', path: ['asOf'] });
+  }
+});
 
 /**
  * Export job validation schema
@@ -79,7 +170,11 @@ export const CreateExportRequestSchema = z.object({
 export const ExportJobSchema = z.object({
   id: z.string().uuid('Invalid export job ID'),
   userId: z.string().cuid('Invalid user ID'),
+  householdId: z.string().cuid('Invalid household ID'),
   format: ExportFormatSchema,
+  report: ExportReportTypeSchema,
+  asOf: z.date().optional(),
+  signature: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid report signature').optional(),
   status: ExportJobStatusSchema,
   filename: z.string().min(1, 'Filename cannot be empty'),
   progress: z.number().min(0).max(100, 'Progress must be between 0 and 100'),
@@ -89,7 +184,10 @@ export const ExportJobSchema = z.object({
   downloadUrl: z.string().url('Invalid download URL').optional(),
   errorMessage: z.string().optional(),
   filters: ExportFiltersSchema.optional(),
+  columnSettings: ExportColumnSettingsSchema.optional(),
+  scheduleId: z.string().uuid('Invalid export schedule ID').optional(),
   createdAt: z.date(),
+  startedAt: z.date().optional(),
   completedAt: z.date().optional(),
   expiresAt: z.date().optional(),
 }).strict().refine((data) => {
@@ -130,6 +228,105 @@ export const ExportProgressUpdateSchema = z.object({
   path: ['processedItems']
 });
 
+/**
+ * Create export template validation schema
+ */
+export const CreateExportTemplateSchema = z.object({
+  /** Template name, unique within the household */
+  name: z.string()
+    .trim()
+    .min(1, 'Template name is required')
+    .max(100, 'Template name cannot exceed 100 characters'),
+
+  /** Saved column settings */
+  settings: ExportColumnSettingsSchema,
+}).strict();
+
+/**
+ * Update export template validation schema
+ */
+export const UpdateExportTemplateSchema = CreateExportTemplateSchema.partial().refine(
+  (data) => data.name !== undefined || data.settings !== undefined,
+  'At least one of name or settings must be provided'
+);
+
+/**
+ * Cron expression of an export schedule; must fire at most hourly
+ */
+const ExportScheduleCronSchema = z.string()
+  .trim()
+  .min(1, 'Schedule interval is required')
+  .max(100, 'Schedule interval cannot exceed 100 characters')
+  .refine(isValidCronExpression, 'Invalid cron expression')
+  .refine(
+    (expression) => !isValidCronExpression(expression) ||
+      getMinimumCronInterval(expression, new Date()) >= MIN_EXPORT_SCHEDULE_INTERVAL_MS,
+    'Export schedules cannot run more than once an hour'
+  );
+
+/**
+ * Export schedule fields; insurance reports are not scheduled
+ */
+const ExportScheduleFieldsSchema = z.object({
+  /** Schedule name shown in the export history */
+  name: z.string()
+    .trim()
+    .min(1, 'Schedule name is required')
+    .max(100, 'Schedule name cannot exceed 100 characters'),
+
+  /** Export format */
+  format: ExportFormatSchema,
+
+  /** Saved filter set applied to every run */
+  filters: ExportFiltersSchema.optional(),
+
+  /** Columns and formatting for CSV and XLSX runs */
+  columnSettings: ExportColumnSettingsSchema.optional(),
+
+  /** Five-field cron expression (UTC) or @daily, @weekly, @monthly */
+  cronExpression: ExportScheduleCronSchema,
+
+  /** Completed exports to keep */
+  retentionCount: z.number()
+    .int('Retention count must be a whole number')
+    .min(1, 'Keep at least one export')
+    .max(100, 'Cannot keep more than 100 exports'),
+
+  /** Paused schedules are skipped by the runner */
+  enabled: z.boolean(),
+}).strict();
+
+/**
+ * Column settings only apply to spreadsheet formats
+ */
+const hasSpreadsheetFormat = (data: { format?: string; columnSettings?: unknown }) =>
+  !data.columnSettings || data.format === 'csv' || data.format === 'xlsx';
+
+/**
+ * Create export schedule validation schema
+ */
+export const CreateExportScheduleSchema = ExportScheduleFieldsSchema.extend({
+  retentionCount: ExportScheduleFieldsSchema.shape.retentionCount.default(4),
+  enabled: ExportScheduleFieldsSchema.shape.enabled.default(true),
+}).refine(hasSpreadsheetFormat, {
+  message: 'Column settings only apply to CSV and XLSX exports',
+  path: ['columnSettings'],
+});
+
+/**
+ * Update export schedule validation schema
+ *
+ * Changing the format away from CSV or XLSX drops the column settings; the
+ * service checks the combination against the stored schedule.
+ */
+export const UpdateExportScheduleSchema = ExportScheduleFieldsSchema.extend({
+  filters: ExportFiltersSchema.nullable(),
+  columnSettings: ExportColumnSettingsSchema.nullable(),
+}).partial().refine(
+  (data) => Object.keys(data).length > 0,
+  'At least one field must be provided'
+);
+
 /**
  * Export job query parameters validation
  * Used for validating query parameters in export API endpoints
@@ -195,7 +392,15 @@ export const ExportErrorSchema = z.object({
     'EXPORT_GENERATION_FAILED',
     'PHOTO_ACCESS_DENIED',
     'MEMORY_LIMIT_EXCEEDED',
-    'BACKGROUND_JOB_FAILED'
+    'BACKGROUND_JOB_FAILED',
+    'LABEL_TARGETS_NOT_FOUND',
+    'EXPORT_NOT_FOUND',
+    'EXPORT_NOT_CANCELLABLE',
+    'EXPORT_NOT_READY',
+    'EXPORT_EXPIRED',
+    'EXPORT_TEMPLATE_NOT_FOUND',
+    'EXPORT_TEMPLATE_NAME_TAKEN',
+    'EXPORT_SCHEDULE_NOT_FOUND'
   ]),
   message: z.string().min(1),
   jobId: z.string().uuid().optional(),
@@ -206,6 +411,11 @@ export const ExportErrorSchema = z.object({
 export type CreateExportRequestInput = z.infer<typeof CreateExportRequestSchema>;
 export type ExportJobInput = z.infer<typeof ExportJobSchema>;
 export type ExportProgressUpdateInput = z.infer<typeof ExportProgressUpdateSchema>;
+export type ExportColumnSettingsInput = z.infer<typeof ExportColumnSettingsSchema>;
+export type CreateExportTemplateInput = z.infer<typeof CreateExportTemplateSchema>;
+export type UpdateExportTemplateInput = z.infer<typeof UpdateExportTemplateSchema>;
+export type CreateExportScheduleInput = z.input<typeof CreateExportScheduleSchema>;
+export type UpdateExportScheduleInput = z.infer<typeof UpdateExportScheduleSchema>;
 export type ExportJobQueryInput = z.infer<typeof ExportJobQuerySchema>;
 export type ExportStatisticsQueryInput = z.infer<typeof ExportStatisticsQuerySchema>;
 export type CSVExportConfigInput = z.infer<typeof CSVExportConfigSchema>;
@@ -227,6 +437,50 @@ export function validateCreateExportRequest(data: unknown): CreateExportRequestI
   return CreateExportRequestSchema.parse(data);
 }
 
+/**
+ * Validates a new export template
+ *
+ * @param data - Raw template data
+ * @returns Validated template with a trimmed name
+ * @throws {z.ZodError} When validation fails
+ */
+export function validateCreateExportTemplate(data: unknown): CreateExportTemplateInput {
+  return CreateExportTemplateSchema.parse(data);
+}
+
+/**
+ * Validates an export template update
+ *
+ * @param data - Raw template changes
+ * @returns Validated changes
+ * @throws {z.ZodError} When validation fails
+ */
+export function validateUpdateExportTemplate(data: unknown): UpdateExportTemplateInput {
+  return UpdateExportTemplateSchema.parse(data);
+}
+
+/**
+ * Validates a new export schedule
+ *
+ * @param data - Raw schedule data
+ * @returns Validated schedule with defaults applied
+ * @throws {z.ZodError} When validation fails
+ */
+export function validateCreateExportSchedule(data: unknown): z.infer<typeof CreateExportScheduleSchema> {
+  return CreateExportScheduleSchema.parse(data);
+}
+
+/**
+ * Validates an export schedule update
+ *
+ * @param data - Raw schedule changes
+ * @returns Validated changes
+ * @throws {z.ZodError} When validation fails
+ */
+export function validateUpdateExportSchedule(data: unknown): UpdateExportScheduleInput {
+  return UpdateExportScheduleSchema.parse(data);
+}
+
 /**
  * Validates export job data with business rules
  *
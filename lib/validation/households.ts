@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { HOUSEHOLD_ROLES, HOUSEHOLD_PERMISSIONS } from '@/lib/utils/permissions';
+
+/**
+ * Validation schemas for household membership
+ * These schemas validate invitations, member roles and permission overrides
+ */
+
+/**
+ * Household member role
+ */
+export const HouseholdRoleSchema = z.enum(HOUSEHOLD_ROLES, {
+  errorMap: () => ({ message: `Role must be one of: ${HOUSEHOLD_ROLES.join(', ')}` }),
+});
+
+/**
+ * Schema for inviting someone to the household by email
+ */
+export const CreateInvitationSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Invalid email address')
+    .max(255, 'Email must be 255 characters or less'),
+
+  role: HouseholdRoleSchema.default('member'),
+
+  expiresInDays: z
+    .number()
+    .int('Expiry must be a whole number of days')
+    .min(1, 'Invitation must be valid for at least 1 day')
+    .max(30, 'Invitation cannot be valid for more than 30 days')
+    .default(7),
+});
+
+/**
+ * Per-capability overrides; null clears an override back to the role default
+ */
+export const PermissionOverridesSchema = z.record(
+  z.enum(HOUSEHOLD_PERMISSIONS, {
+    errorMap: () => ({ message: 'Unknown permission' }),
+  }),
+  z.boolean().nullable()
+);
+
+/**
+ * Schema for changing a member's role and permission overrides
+ */
+export const UpdateMemberSchema = z.object({
+  role: HouseholdRoleSchema.optional(),
+  permissions: PermissionOverridesSchema.optional(),
+}).refine((data) => data.role !== undefined || data.permissions !== undefined, {
+  message: 'Provide a role or permissions to update',
+});
+
+/**
+ * Schema for accepting an invitation
+ */
+export const AcceptInvitationSchema = z.object({
+  makeDefault: z.boolean().default(true),
+});
+
+/**
+ * Type exports for use in API routes and services
+ */
+export type HouseholdRole = z.infer<typeof HouseholdRoleSchema>;
+export type CreateInvitationInput = z.infer<typeof CreateInvitationSchema>;
+export type UpdateMemberInput = z.infer<typeof UpdateMemberSchema>;
+export type AcceptInvitationInput = z.infer<typeof AcceptInvitationSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateCreateInvitation = (data: unknown) => CreateInvitationSchema.parse(data);
+export const validateUpdateMember = (data: unknown) => UpdateMemberSchema.parse(data);
+export const validateAcceptInvitation = (data: unknown) => AcceptInvitationSchema.parse(data);
@@ -0,0 +1,88 @@
+/**
+ * Import validation schemas using Zod
+ *
+ * Validates the options sent with a spreadsheet import. Rows themselves are
+ * validated against CreateItemSchema by the import service.
+ *
+ * @category Validation
+ * @since 1.11.0
+ */
+
+import { z } from 'zod';
+
+/**
+ * Importable item fields
+ */
+export const IMPORT_FIELDS = [
+  'name',
+  'description',
+  'quantity',
+  'unit',
+  'purchasePrice',
+  'currentValue',
+  'purchaseDate',
+  'status',
+  'locationPath',
+  'tags',
+] as const;
+
+/**
+ * Maximum upload size for an import file (10MB)
+ */
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Maximum data rows in a single import
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Boolean that also accepts the "true"/"false" strings sent in form data
+ */
+const FormBooleanSchema = z.union([
+  z.boolean(),
+  z.enum(['true', 'false']).transform((value) => value === 'true'),
+]);
+
+/**
+ * Column mapping validation: spreadsheet header -> item field
+ */
+export const ImportColumnMappingSchema = z.record(
+  z.string().trim().min(1, 'Column header cannot be empty').max(100),
+  z.enum([...IMPORT_FIELDS, 'ignore'], {
+    errorMap: () => ({ message: `Mapped field must be one of: ${IMPORT_FIELDS.join(', ')}, ignore` })
+  })
+).refine((mapping) => {
+  // Each field can only come from one column
+  const fields = Object.values(mapping).filter((field) => field !== 'ignore');
+  return new Set(fields).size === fields.length;
+}, {
+  message: 'Each field can only be mapped from one column'
+}).refine((mapping) => Object.values(mapping).includes('name'), {
+  message: 'A column must be mapped to the item name'
+});
+
+/**
+ * Import options validation
+ */
+export const ImportOptionsSchema = z.object({
+  dryRun: FormBooleanSchema.default(true),
+  mapping: ImportColumnMappingSchema.optional(),
+  onDuplicate: z.enum(['update', 'skip', 'create'], {
+    errorMap: () => ({ message: 'onDuplicate must be "update", "skip" or "create"' })
+  }).default('update'),
+  createMissingLocations: FormBooleanSchema.default(true),
+  createMissingTags: FormBooleanSchema.default(false),
+  skipInvalidRows: FormBooleanSchema.default(false),
+}).strict();
+
+/**
+ * Type exports
+ */
+export type ImportOptionsInput = z.infer<typeof ImportOptionsSchema>;
+export type ImportColumnMappingInput = z.infer<typeof ImportColumnMappingSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateImportOptions = (data: unknown) => ImportOptionsSchema.parse(data);
@@ -21,6 +21,36 @@ export * from './auth';
 // Export validation schemas
 export * from './exports';
 
+// NFC tag validation schemas
+export * from './nfc-tags';
+
+// Label sheet validation schemas
+export * from './labels';
+
+// Activity log validation schemas
+export * from './activity';
+
+// Household membership validation schemas
+export * from './households';
+
+// Spreadsheet import validation schemas
+export * from './imports';
+
+// Household backup validation schemas
+export * from './backups';
+
+// Custom item field validation schemas
+export * from './custom-fields';
+
+// Item category validation schemas
+export * from './categories';
+
+// Item tag validation schemas
+export * from './tags';
+
+// Saved search validation schemas
+export * from './saved-searches';
+
 // Re-export commonly used types and functions
 export type {
   CreateItemInput,
@@ -75,6 +105,37 @@ export type {
   ExportErrorInput,
 } from './exports';
 
+export type {
+  RegisterNfcTagInput,
+  BindNfcTagInput,
+  SearchNfcTagsInput,
+} from './nfc-tags';
+
+export type {
+  CreateLabelSheetRequestInput,
+} from './labels';
+
+export type {
+  ActivityQueryInput,
+} from './activity';
+
+export type {
+  HouseholdRole,
+  CreateInvitationInput,
+  UpdateMemberInput,
+  AcceptInvitationInput,
+} from './households';
+
+export type {
+  ImportOptionsInput,
+  ImportColumnMappingInput,
+} from './imports';
+
+export type {
+  BackupManifestInput,
+  RestoreOptionsInput,
+} from './backups';
+
 // Re-export validation helper functions
 export {
   validateCreateItem,
@@ -82,6 +143,7 @@ export {
   validateSearchItems,
   validateBorrowItem,
   validateReturnItem,
+  normalizeRetailBarcode,
 } from './items';
 
 export {
@@ -119,6 +181,36 @@ export {
   validateExportSecurity,
 } from './exports';
 
+export {
+  validateRegisterNfcTag,
+  validateBindNfcTag,
+  validateSearchNfcTags,
+  normalizeNfcTagUid,
+} from './nfc-tags';
+
+export {
+  validateCreateLabelSheetRequest,
+} from './labels';
+
+export {
+  validateActivityQuery,
+} from './activity';
+
+export {
+  validateCreateInvitation,
+  validateUpdateMember,
+  validateAcceptInvitation,
+} from './households';
+
+export {
+  validateImportOptions,
+} from './imports';
+
+export {
+  validateBackupManifest,
+  validateRestoreOptions,
+} from './backups';
+
 /**
  * Enhanced photo upload validation with HEIC support
  */
@@ -1,11 +1,41 @@
 import { z } from 'zod';
 import { ItemStatus } from '@prisma/client';
+import { ItemTagIdsSchema } from './tags';
 
 /**
  * Validation schemas for item-related operations
  * These schemas enforce business rules and data integrity
  */
 
+/**
+ * Retail product barcode (EAN-8, EAN-13, UPC-A, GTIN-14)
+ * Normalizes to the form scanners report so lookups match: UPC-A is
+ * stored as its EAN-13 equivalent and padded GTIN-14 codes are trimmed.
+ */
+export const RetailBarcodeSchema = z
+  .string()
+  .trim()
+  .transform((val) => val.replace(/[\s-]/g, ''))
+  .pipe(
+    z
+      .string()
+      .regex(/^(\d{8}|\d{12,14})$/, 'Barcode must be 8, 12, 13 or 14 digits')
+  )
+  .transform((val) => {
+    if (val.length === 12) return `0${val}`;
+    if (val.length === 14 && val.startsWith('0')) return val.slice(1);
+    return val;
+  });
+
+/**
+ * Free-form item metadata with well-known keys validated
+ */
+export const ItemMetadataSchema = z
+  .object({
+    barcode: RetailBarcodeSchema.optional(),
+  })
+  .passthrough();
+
 /**
  * Schema for creating a new inventory item
  */
@@ -26,6 +56,14 @@ export const CreateItemSchema = z.object({
     .string()
     .uuid('Location ID must be a valid UUID'),
   
+  categoryId: z
+    .string()
+    .uuid('Category ID must be a valid UUID')
+    .optional(),
+  
+  tagIds: ItemTagIdsSchema
+    .optional(),
+  
   quantity: z
     .number()
     .int('Quantity must be a whole number')
@@ -59,8 +97,7 @@ export const CreateItemSchema = z.object({
     .optional()
     .transform((val) => val ? new Date(val) : val),
   
-  metadata: z
-    .record(z.unknown())
+  metadata: ItemMetadataSchema
     .default({})
     .optional(),
 });
@@ -87,6 +124,17 @@ export const UpdateItemSchema = z.object({
     .uuid('Location ID must be a valid UUID')
     .optional(),
   
+  // null takes the item out of its category
+  categoryId: z
+    .string()
+    .uuid('Category ID must be a valid UUID')
+    .nullable()
+    .optional(),
+  
+  // Replaces the item's tags; an empty list removes them all
+  tagIds: ItemTagIdsSchema
+    .optional(),
+  
   quantity: z
     .number()
     .int('Quantity must be a whole number')
@@ -124,8 +172,7 @@ export const UpdateItemSchema = z.object({
     .enum([ItemStatus.AVAILABLE, ItemStatus.BORROWED, ItemStatus.MAINTENANCE, ItemStatus.LOST, ItemStatus.SOLD])
     .optional(),
   
-  metadata: z
-    .record(z.unknown())
+  metadata: ItemMetadataSchema
     .optional(),
 });
 
@@ -133,15 +180,52 @@ export const UpdateItemSchema = z.object({
  * Schema for borrowing an item
  */
 export const BorrowItemSchema = z.object({
+  // Household member borrowing the item
   borrowerId: z
     .string()
-    .uuid('Borrower ID must be a valid UUID'),
+    .min(1, 'Borrower ID cannot be empty')
+    .optional(),
+  
+  // Free-text contact outside the household (neighbour, friend, ...)
+  borrowerName: z
+    .string()
+    .trim()
+    .min(1, 'Borrower name cannot be empty')
+    .max(100, 'Borrower name must be 100 characters or less')
+    .optional(),
+  
+  borrowerContact: z
+    .string()
+    .trim()
+    .max(255, 'Contact details must be 255 characters or less')
+    .optional(),
   
   borrowedUntil: z
     .string()
     .datetime('Return date must be a valid date')
     .optional()
     .transform((val) => val ? new Date(val) : val),
+  
+  notes: z
+    .string()
+    .max(500, 'Notes must be 500 characters or less')
+    .trim()
+    .optional(),
+}).superRefine((data, ctx) => {
+  // Exactly one kind of borrower
+  if (!data.borrowerId && !data.borrowerName) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Required',
+      path: ['borrowerId'],
+    });
+  } else if (data.borrowerId && data.borrowerName) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Choose a household member or enter a contact, not both',
+      path: ['borrowerName'],
+    });
+  }
 }).refine((data) => {
   // Ensure return date is in the future if provided
   if (data.borrowedUntil) {
@@ -183,6 +267,12 @@ export const SearchItemsSchema = z.object({
     .uuid('Location ID must be a valid UUID')
     .optional(),
   
+  // Matches the category and its subcategories
+  categoryId: z
+    .string()
+    .uuid('Category ID must be a valid UUID')
+    .optional(),
+  
   status: z
     .enum([ItemStatus.AVAILABLE, ItemStatus.BORROWED, ItemStatus.MAINTENANCE, ItemStatus.LOST, ItemStatus.SOLD])
     .optional(),
@@ -202,6 +292,8 @@ export const SearchItemsSchema = z.object({
     .positive('Maximum value must be positive')
     .optional(),
   
+  barcode: RetailBarcodeSchema.optional(),
+  
   page: z
     .number()
     .int('Page must be a whole number')
@@ -288,4 +380,5 @@ export const validateBorrowItem = (data: unknown) => BorrowItemSchema.parse(data
 export const validateReturnItem = (data: unknown) => ReturnItemSchema.parse(data);
 export const validateSearchItems = (data: unknown) => SearchItemsSchema.parse(data);
 export const validatePagination = (data: unknown) => PaginationSchema.parse(data);
-export const validateBulkOperation = (data: unknown) => BulkItemOperationSchema.parse(data);
\ No newline at end of file
+export const validateBulkOperation = (data: unknown) => BulkItemOperationSchema.parse(data);
+export const normalizeRetailBarcode = (barcode: string) => RetailBarcodeSchema.parse(barcode);
\ No newline at end of file
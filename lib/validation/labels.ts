@@ -0,0 +1,67 @@
+/**
+ * Label sheet validation schemas using Zod
+ *
+ * Validates requests for printable QR/barcode label sheets.
+ *
+ * @category Validation
+ */
+
+import { z } from 'zod';
+
+/**
+ * Supported label layouts validation
+ */
+export const LabelLayoutSchema = z.enum(
+  ['avery-5160', 'avery-5163', 'avery-22805', 'avery-l7160', 'avery-l7163'],
+  { errorMap: () => ({ message: 'Unsupported label layout' }) }
+);
+
+/**
+ * Supported code types validation
+ */
+export const LabelCodeTypeSchema = z.enum(['qr', 'code128'], {
+  errorMap: () => ({ message: 'Code type must be "qr" or "code128"' })
+});
+
+/**
+ * Create label sheet request validation schema
+ * Labels are printed either for selected items or for a whole location subtree
+ */
+export const CreateLabelSheetRequestSchema = z.object({
+  /** Sheet layout */
+  layout: LabelLayoutSchema.default('avery-5160'),
+
+  /** Code printed on each label */
+  codeType: LabelCodeTypeSchema.default('qr'),
+
+  /** Specific items to label */
+  itemIds: z.array(z.string().uuid('Invalid item ID format'))
+    .min(1, 'Select at least one item')
+    .max(1000, 'Cannot print more than 1000 labels at once')
+    .optional(),
+
+  /** Root location whose subtree should be labelled */
+  locationId: z.string().uuid('Invalid location ID format').optional(),
+
+  /** Include items in nested locations (location mode only) */
+  includeSubtree: z.boolean().default(true),
+
+  /** Also print a label for each location (location mode only) */
+  includeLocationLabels: z.boolean().default(true),
+
+  /** Labels to skip at the start of the first sheet, for partly used sheets */
+  skipLabels: z.number().int().min(0).max(80).default(0),
+}).strict().refine((data) => !!data.itemIds !== !!data.locationId, {
+  message: 'Provide either itemIds or locationId',
+  path: ['itemIds'],
+});
+
+/**
+ * Type exports
+ */
+export type CreateLabelSheetRequestInput = z.infer<typeof CreateLabelSheetRequestSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateCreateLabelSheetRequest = (data: unknown) => CreateLabelSheetRequestSchema.parse(data);
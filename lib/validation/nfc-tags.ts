@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { NfcTagStatus } from '@prisma/client';
+
+/**
+ * Validation schemas for NFC tag registry operations
+ * These schemas normalize tag UIDs and enforce single-target binding rules
+ */
+
+/**
+ * Tag UID schema - accepts hex with optional ":" or "-" separators
+ * and normalizes to uppercase hex without separators (e.g. "04A2B3C4D5E6F7")
+ */
+export const NfcTagUidSchema = z
+  .string()
+  .trim()
+  .transform((val) => val.replace(/[:\-\s]/g, '').toUpperCase())
+  .pipe(
+    z
+      .string()
+      .regex(/^[0-9A-F]+$/, 'Tag UID must be hexadecimal')
+      .min(8, 'Tag UID must be at least 4 bytes')
+      .max(32, 'Tag UID must be 16 bytes or less')
+  );
+
+/**
+ * Schema for registering a new NFC tag
+ */
+export const RegisterNfcTagSchema = z.object({
+  uid: NfcTagUidSchema,
+
+  label: z
+    .string()
+    .max(100, 'Label must be 100 characters or less')
+    .trim()
+    .optional(),
+
+  itemId: z
+    .string()
+    .uuid('Item ID must be a valid UUID')
+    .optional(),
+
+  locationId: z
+    .string()
+    .uuid('Location ID must be a valid UUID')
+    .optional(),
+}).refine((data) => !(data.itemId && data.locationId), {
+  message: 'A tag can be bound to an item or a location, not both',
+  path: ['locationId'],
+});
+
+/**
+ * Schema for binding or rebinding a tag
+ * Passing null for both targets unbinds the tag
+ */
+export const BindNfcTagSchema = z.object({
+  itemId: z
+    .string()
+    .uuid('Item ID must be a valid UUID')
+    .nullable()
+    .optional(),
+
+  locationId: z
+    .string()
+    .uuid('Location ID must be a valid UUID')
+    .nullable()
+    .optional(),
+
+  label: z
+    .string()
+    .max(100, 'Label must be 100 characters or less')
+    .trim()
+    .optional(),
+}).refine((data) => !(data.itemId && data.locationId), {
+  message: 'A tag can be bound to an item or a location, not both',
+  path: ['locationId'],
+});
+
+/**
+ * Schema for listing tags in a household
+ */
+export const SearchNfcTagsSchema = z.object({
+  uid: NfcTagUidSchema.optional(),
+
+  status: z
+    .enum([NfcTagStatus.ACTIVE, NfcTagStatus.RETIRED])
+    .optional(),
+
+  itemId: z
+    .string()
+    .uuid('Item ID must be a valid UUID')
+    .optional(),
+
+  locationId: z
+    .string()
+    .uuid('Location ID must be a valid UUID')
+    .optional(),
+
+  unbound: z
+    .boolean()
+    .optional(),
+});
+
+/**
+ * Type exports for use in API routes and services
+ */
+export type RegisterNfcTagInput = z.infer<typeof RegisterNfcTagSchema>;
+export type BindNfcTagInput = z.infer<typeof BindNfcTagSchema>;
+export type SearchNfcTagsInput = z.infer<typeof SearchNfcTagsSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateRegisterNfcTag = (data: unknown) => RegisterNfcTagSchema.parse(data);
+export const validateBindNfcTag = (data: unknown) => BindNfcTagSchema.parse(data);
+export const validateSearchNfcTags = (data: unknown) => SearchNfcTagsSchema.parse(data);
+export const normalizeNfcTagUid = (uid: string) => NfcTagUidSchema.parse(uid);
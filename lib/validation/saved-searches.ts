@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { searchFiltersSchema } from './search';
+
+/**
+ * Validation schemas for saved searches
+ * These schemas validate a saved search's name, query, filters and sharing,
+ * and the paging of its items
+ */
+
+/**
+ * Saved search name; surrounding and repeated whitespace is dropped
+ */
+export const SavedSearchNameSchema = z
+  .string()
+  .transform((name) => name.trim().replace(/\s+/g, ' '))
+  .pipe(
+    z
+      .string()
+      .min(1, 'Name is required')
+      .max(100, 'Name must be 100 characters or less')
+  );
+
+/**
+ * Search text; may be empty when filters pick the items
+ */
+export const SavedSearchQuerySchema = z
+  .string()
+  .trim()
+  .max(500, 'Search text must be 500 characters or less')
+  .refine(
+    (query) => query.length === 0 || query.length >= 2,
+    'Search text must be at least 2 characters'
+  );
+
+const savedSearchFields = {
+  name: SavedSearchNameSchema,
+  query: SavedSearchQuerySchema,
+  filters: searchFiltersSchema,
+  sortBy: z.enum(['relevance', 'name', 'date', 'value', 'quantity']),
+  sortOrder: z.enum(['asc', 'desc']),
+  visibility: z.enum(['PERSONAL', 'HOUSEHOLD']),
+};
+
+/**
+ * Whether a saved search picks items by anything at all
+ *
+ * @param search - Search text and filters
+ * @returns True when there is text or at least one filter
+ */
+export function hasSearchCriteria(search: { query?: string; filters?: z.infer<typeof searchFiltersSchema> }): boolean {
+  const isSet = (value: unknown): boolean => {
+    if (value === undefined) return false;
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      return Object.values(value).some(isSet);
+    }
+    return true;
+  };
+
+  return Boolean(search.query) || Object.values(search.filters ?? {}).some(isSet);
+}
+
+/**
+ * Schema for saving a search
+ */
+export const CreateSavedSearchSchema = z
+  .object({
+    ...savedSearchFields,
+    query: SavedSearchQuerySchema.default(''),
+    filters: searchFiltersSchema.default({}),
+    sortBy: savedSearchFields.sortBy.optional(),
+    sortOrder: savedSearchFields.sortOrder.optional(),
+    visibility: savedSearchFields.visibility.default('PERSONAL'),
+  })
+  .refine(hasSearchCriteria, {
+    message: 'Add search text or at least one filter',
+    path: ['query'],
+  });
+
+/**
+ * Schema for changing a saved search; filters replace the saved ones
+ */
+export const UpdateSavedSearchSchema = z
+  .object(savedSearchFields)
+  .partial()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'At least one field must be provided'
+  );
+
+/**
+ * Schema for paging through a saved search's items
+ */
+export const SavedSearchItemsQuerySchema = z.object({
+  limit: z
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot exceed 100')
+    .default(20),
+
+  offset: z
+    .number()
+    .int('Offset must be a whole number')
+    .min(0, 'Offset cannot be negative')
+    .default(0),
+
+  /** nextCursor of the previous page; takes the place of offset */
+  cursor: z.string().max(1000, 'Cursor too long').optional(),
+});
+
+/**
+ * Type exports for use in API routes and services
+ */
+export type CreateSavedSearchInput = z.infer<typeof CreateSavedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof UpdateSavedSearchSchema>;
+export type SavedSearchItemsQueryInput = z.infer<typeof SavedSearchItemsQuerySchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateCreateSavedSearch = (data: unknown) => CreateSavedSearchSchema.parse(data);
+export const validateUpdateSavedSearch = (data: unknown) => UpdateSavedSearchSchema.parse(data);
+export const validateSavedSearchItemsQuery = (data: unknown) => SavedSearchItemsQuerySchema.parse(data);
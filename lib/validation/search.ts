@@ -55,6 +55,13 @@ const searchQuerySchema = z.object({
     .default(0)
     .optional(),
 
+  /**
+   * nextCursor of the previous page; takes the place of offset.
+   */
+  cursor: z.string()
+    .max(1000, 'Cursor too long')
+    .optional(),
+
   /**
    * Whether to include location data in results.
    * @default false
@@ -78,6 +85,13 @@ const searchQuerySchema = z.object({
   includeTags: z.coerce.boolean()
     .default(false)
     .optional(),
+
+  /**
+   * Only return items in this category or its subcategories.
+   */
+  categoryId: z.string()
+    .uuid('Invalid category ID')
+    .optional(),
 });
 
 /**
@@ -86,7 +100,7 @@ const searchQuerySchema = z.object({
  * Validates additional filtering criteria for more sophisticated
  * search operations.
  */
-const searchFiltersSchema = z.object({
+export const searchFiltersSchema = z.object({
   /**
    * Filter by specific location IDs.
    */
@@ -108,6 +122,27 @@ const searchFiltersSchema = z.object({
     .max(5, 'Cannot filter by more than 5 statuses')
     .optional(),
 
+  /**
+   * Leave out items in these locations or inside them.
+   */
+  excludeLocationIds: z.array(z.string().uuid('Invalid location ID'))
+    .max(10, 'Cannot exclude more than 10 locations')
+    .optional(),
+
+  /**
+   * Leave out items with any of these tags.
+   */
+  excludeTagIds: z.array(z.string().uuid('Invalid tag ID'))
+    .max(20, 'Cannot exclude more than 20 tags')
+    .optional(),
+
+  /**
+   * Leave out items with these statuses.
+   */
+  excludeStatuses: z.array(z.enum(['AVAILABLE', 'BORROWED', 'MAINTENANCE', 'LOST', 'SOLD']))
+    .max(5, 'Cannot exclude more than 5 statuses')
+    .optional(),
+
   /**
    * Filter by value range.
    */
@@ -140,6 +175,11 @@ const searchFiltersSchema = z.object({
     (data) => !data.min || !data.max || data.min <= data.max,
     'Minimum quantity cannot be greater than maximum quantity'
   ).optional(),
+
+  /**
+   * Only items with (true) or without (false) photos.
+   */
+  hasPhotos: z.boolean().optional(),
 });
 
 /**
@@ -376,7 +416,9 @@ export function validateSearchMethod(method: unknown): SearchMethod {
  * Transform URL search parameters to search query object.
  * 
  * Converts URL search parameters to a properly typed search query object,
- * handling type coercion and default values appropriately.
+ * handling type coercion and default values appropriately. Location, tag
+ * and status filters and the sort order use the comma-separated parameters
+ * of the search page URL (see serializeSearchState).
  * 
  * @param searchParams - URLSearchParams from request
  * @returns Search query object ready for validation
@@ -385,7 +427,7 @@ export function validateSearchMethod(method: unknown): SearchMethod {
  * ```typescript
  * const url = new URL(request.url);
  * const queryData = transformSearchParams(url.searchParams);
- * const validatedQuery = validateSearchQuery(queryData);
+ * const validatedQuery = validateAdvancedSearchQuery(queryData);
  * ```
  */
 export function transformSearchParams(searchParams: URLSearchParams): Record<string, unknown> {
@@ -394,13 +436,27 @@ export function transformSearchParams(searchParams: URLSearchParams): Record<str
     throw new Error('Search query is required');
   }
 
+  const list = (param: string) => {
+    const values = searchParams.get(param)?.split(',').filter(value => value.trim().length > 0);
+    return values?.length ? values : undefined;
+  };
+
   return {
     text: query,
     limit: searchParams.get('limit'),
     offset: searchParams.get('offset'),
+    cursor: searchParams.get('cursor') || undefined,
     includeLocation: searchParams.get('includeLocation'),
     includePhotos: searchParams.get('includePhotos'),
     includeTags: searchParams.get('includeTags'),
+    categoryId: searchParams.get('categoryId') || undefined,
+    filters: {
+      locationIds: list('locations'),
+      tagIds: list('tags'),
+      statuses: list('statuses'),
+    },
+    sortBy: searchParams.get('sort') || undefined,
+    sortOrder: searchParams.get('sortDir') || undefined,
   };
 }
 
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { DEFAULT_TAG_COLOR } from '@/lib/types/tags';
+
+/**
+ * Validation schemas for household item tags
+ * These schemas validate tag names and colors, tag lookups and merges
+ */
+
+/**
+ * Tag name; surrounding and repeated whitespace is dropped
+ */
+export const TagNameSchema = z
+  .string()
+  .transform((name) => name.trim().replace(/\s+/g, ' '))
+  .pipe(
+    z
+      .string()
+      .min(1, 'Tag name is required')
+      .max(50, 'Tag name must be 50 characters or less')
+  );
+
+/**
+ * Six-digit hex color, stored uppercase
+ */
+export const TagColorSchema = z
+  .string()
+  .trim()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #6B7280')
+  .transform((color) => color.toUpperCase());
+
+/**
+ * Schema for adding a tag
+ */
+export const CreateTagSchema = z.object({
+  name: TagNameSchema,
+  color: TagColorSchema.default(DEFAULT_TAG_COLOR),
+});
+
+/**
+ * Schema for renaming or recoloring a tag
+ */
+export const UpdateTagSchema = z
+  .object({
+    name: TagNameSchema,
+    color: TagColorSchema,
+  })
+  .partial()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'At least one field must be provided'
+  );
+
+/**
+ * Schema for merging one tag into another
+ */
+export const MergeTagsSchema = z.object({
+  targetTagId: z
+    .string()
+    .uuid('Target tag ID must be a valid UUID'),
+});
+
+/**
+ * Schema for listing tags, e.g. for autocomplete
+ */
+export const SearchTagsSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .max(50, 'Search query must be 50 characters or less')
+    .optional(),
+
+  limit: z
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(500, 'Limit cannot exceed 500')
+    .default(100),
+});
+
+/**
+ * Tags to put on an item; duplicates are dropped
+ */
+export const ItemTagIdsSchema = z
+  .array(z.string().uuid('Tag ID must be a valid UUID'))
+  .max(20, 'An item cannot have more than 20 tags')
+  .transform((tagIds) => [...new Set(tagIds)]);
+
+/**
+ * Type exports for use in API routes and services
+ */
+export type CreateTagInput = z.infer<typeof CreateTagSchema>;
+export type UpdateTagInput = z.infer<typeof UpdateTagSchema>;
+export type MergeTagsInput = z.infer<typeof MergeTagsSchema>;
+export type SearchTagsInput = z.infer<typeof SearchTagsSchema>;
+
+/**
+ * Validation helper functions
+ */
+export const validateCreateTag = (data: unknown) => CreateTagSchema.parse(data);
+export const validateUpdateTag = (data: unknown) => UpdateTagSchema.parse(data);
+export const validateMergeTags = (data: unknown) => MergeTagsSchema.parse(data);
+export const validateSearchTags = (data: unknown) => SearchTagsSchema.parse(data);
@@ -0,0 +1,168 @@
+/**
+ * Barcode Decoding Worker Thread
+ *
+ * This worker decodes QR codes and retail barcodes from camera frames in
+ * isolation so continuous scanning does not block the main Node.js thread.
+ * Frames are downscaled and converted to greyscale before decoding.
+ *
+ * @category Worker Threads
+ * @since 1.9.0
+ */
+
+const { parentPort } = require('worker_threads');
+const sharp = require('sharp');
+const {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+  ChecksumException,
+  FormatException,
+  RGBLuminanceSource
+} = require('@zxing/library');
+
+/**
+ * Formats we look for: house labels (QR, Code 128) and retail products (EAN/UPC)
+ */
+const FORMAT_NAMES = {
+  [BarcodeFormat.QR_CODE]: 'qr_code',
+  [BarcodeFormat.CODE_128]: 'code_128',
+  [BarcodeFormat.EAN_13]: 'ean_13',
+  [BarcodeFormat.EAN_8]: 'ean_8',
+  [BarcodeFormat.UPC_A]: 'upc_a',
+  [BarcodeFormat.UPC_E]: 'upc_e'
+};
+
+const reader = new MultiFormatReader();
+reader.setHints(new Map([
+  [DecodeHintType.POSSIBLE_FORMATS, Object.keys(FORMAT_NAMES).map(Number)],
+  [DecodeHintType.TRY_HARDER, true]
+]));
+
+/**
+ * Worker thread message handler
+ */
+parentPort.on('message', async (message) => {
+  const { id, method, args } = message;
+
+  try {
+    let result;
+
+    switch (method) {
+      case 'decodeFrame':
+        result = await decodeFrame(...args);
+        break;
+      default:
+        throw new Error(`Unknown method: ${method}`);
+    }
+
+    parentPort.postMessage({ id, result });
+  } catch (error) {
+    parentPort.postMessage({
+      id,
+      error: {
+        message: error.message,
+        stack: error.stack,
+        name: error.name
+      }
+    });
+  }
+});
+
+/**
+ * Decode the first barcode found in an encoded camera frame
+ *
+ * @param {Buffer} buffer - JPEG/PNG/WebP frame
+ * @param {Object} options - Decoding options
+ * @returns {Promise<Object|null>} Decoded barcode ({ format, text }) or null
+ */
+async function decodeFrame(buffer, options = {}) {
+  const { maxDimension = 1024 } = options;
+
+  // Greyscale raw pixels are exactly what the luminance source expects
+  const { data, info } = await sharp(Buffer.from(buffer), {
+    limitInputPixels: 25000000, // ~5k x 5k pixels max
+    sequentialRead: true
+  })
+    .rotate() // Respect EXIF orientation from phone cameras
+    .resize(maxDimension, maxDimension, {
+      fit: 'inside',
+      withoutEnlargement: true
+    })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return decodeLuminance(new Uint8ClampedArray(data), info.width, info.height);
+}
+
+/**
+ * Decode a greyscale pixel buffer
+ *
+ * @param {Uint8ClampedArray} luminance - One byte per pixel
+ * @param {number} width - Frame width
+ * @param {number} height - Frame height
+ * @returns {Object|null} Decoded barcode or null when nothing was found
+ */
+function decodeLuminance(luminance, width, height) {
+  const bitmap = new BinaryBitmap(
+    new HybridBinarizer(new RGBLuminanceSource(luminance, width, height))
+  );
+
+  try {
+    const result = reader.decode(bitmap);
+
+    return {
+      format: FORMAT_NAMES[result.getBarcodeFormat()] || 'unknown',
+      text: result.getText()
+    };
+  } catch (error) {
+    // "Nothing in this frame" is the normal case while the user lines up a code
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ChecksumException ||
+      error instanceof FormatException
+    ) {
+      return null;
+    }
+    throw error;
+  } finally {
+    reader.reset();
+  }
+}
+
+/**
+ * Process worker lifecycle
+ */
+process.on('uncaughtException', (error) => {
+  console.error('Worker uncaught exception:', error);
+  parentPort?.postMessage({
+    id: 'worker-error',
+    error: {
+      message: error.message,
+      stack: error.stack,
+      name: error.name,
+      type: 'uncaughtException'
+    }
+  });
+  process.exit(1);
+});
+
+process.on('unhandledRejection', (reason, promise) => {
+  console.error('Worker unhandled rejection at:', promise, 'reason:', reason);
+  parentPort?.postMessage({
+    id: 'worker-error',
+    error: {
+      message: typeof reason === 'string' ? reason : reason?.message || 'Unknown rejection',
+      type: 'unhandledRejection',
+      reason: reason
+    }
+  });
+});
+
+// Signal ready
+if (parentPort) {
+  parentPort.postMessage({ id: 'worker-ready' });
+}
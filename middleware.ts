@@ -118,6 +118,16 @@ export default withAuth(
           return !!token;
         }
 
+        // Tag resolver links are public URLs but only resolve for signed-in users
+        if (pathname.startsWith('/t/')) {
+          return !!token;
+        }
+
+        // Invitations can only be answered once signed in as the invitee
+        if (pathname.startsWith('/invite/')) {
+          return !!token;
+        }
+
         // Default to allowing access
         return true;
       },
@@ -140,6 +150,8 @@ export const config = {
     '/locations/:path*',
     '/family/:path*',
     '/settings/:path*',
+    '/t/:path*',
+    '/invite/:path*',
     
     // Authentication routes
     '/login',
@@ -3,6 +3,8 @@ const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // pdfkit reads its font metrics from disk at runtime, so it can't be bundled
+  serverExternalPackages: ['pdfkit'],
   experimental: {
     serverActions: {
       allowedOrigins: ['localhost:3000', 'nfc-inventory-management-dev-alchemists-projects.vercel.app'],
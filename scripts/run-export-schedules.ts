@@ -0,0 +1,70 @@
+#!/usr/bin/env tsx
+
+/**
+ * Export Schedule Runner Script
+ *
+ * Runs one pass of scheduled exports outside Vercel Cron, e.g. from a
+ * system crontab on a self-hosted install: queues jobs for due export
+ * schedules, generates them with the export worker, then deletes scheduled
+ * export files past each schedule's retention count.
+ *
+ * Usage:
+ * - npm run exports:run-schedules
+ * - npm run exports:run-schedules -- --time-budget 600
+ *
+ * @category Export Scripts
+ * @since 1.13.0
+ */
+
+import { exportsService, exportScheduleService } from '@/lib/services';
+
+/**
+ * Parse the worker time budget (seconds) from the command line
+ */
+function parseTimeBudgetMs(): number | undefined {
+  const index = process.argv.indexOf('--time-budget');
+  if (index === -1) return undefined;
+
+  const seconds = Number(process.argv[index + 1]);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error('--time-budget must be a positive number of seconds');
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Run due schedules, the export worker and retention pruning once
+ */
+async function main(): Promise<void> {
+  const timeBudgetMs = parseTimeBudgetMs();
+
+  console.log('⏰ Running due export schedules...');
+  const schedules = await exportScheduleService.runDueSchedules();
+  console.log(`   Due: ${schedules.due}, started: ${schedules.started}, failed: ${schedules.failed}`);
+
+  console.log('⚙️  Generating queued exports...');
+  const worker = await exportsService.runExportWorker({ timeBudgetMs });
+  console.log(`   Processed: ${worker.processed}, completed: ${worker.completed}, failed: ${worker.failed}`);
+
+  console.log('🧹 Removing scheduled exports past their retention count...');
+  const retention = await exportScheduleService.pruneScheduledExports();
+  console.log(`   Files removed: ${retention.filesRemoved}`);
+
+  if (schedules.failed > 0 || worker.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Script execution entry point
+ */
+if (require.main === module) {
+  main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch(error => {
+      console.error('💥 Export schedule run failed:', error);
+      process.exit(1);
+    });
+}
+
+export { main as runExportSchedules };
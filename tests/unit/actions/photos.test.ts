@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+import { removePhotoAction } from '@/lib/actions/photos';
+
+jest.mock('@/lib/auth', () => ({
+  auth: jest.fn(() => Promise.resolve({ user: { id: 'user-1' } })),
+}));
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}));
+
+jest.mock('@/lib/utils/household-context', () => ({
+  requireHouseholdPermission: jest.fn(() => Promise.resolve({ householdId: 'household-1' })),
+  PermissionError: class PermissionError extends Error {},
+}));
+
+jest.mock('@/lib/utils/photos', () => ({
+  processAndUploadPhoto: jest.fn(),
+  deletePhotoFromStorage: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('@/lib/utils/file-validation', () => ({
+  validateImageFile: jest.fn(),
+}));
+
+jest.mock('@/lib/services/activity', () => ({
+  activityLogService: { recordActivity: jest.fn() },
+}));
+
+jest.mock('@/lib/db', () => {
+  const tx = { itemPhoto: { deleteMany: jest.fn() } };
+  return {
+    prisma: {
+      itemPhoto: { findMany: jest.fn() },
+      $transaction: jest.fn((callback: (client: typeof tx) => unknown) => callback(tx)),
+      tx,
+    },
+  };
+});
+
+const { prisma: mockPrisma } = require('@/lib/db');
+const { activityLogService } = require('@/lib/services/activity');
+const { deletePhotoFromStorage } = require('@/lib/utils/photos');
+
+describe('removePhotoAction', () => {
+  const photo = {
+    id: 'photo-1',
+    filename: 'drill.jpg',
+    originalUrl: 'https://cdn.example.com/drill.webp',
+    thumbnailUrl: 'https://cdn.example.com/drill-thumb.webp',
+    item: { name: 'Cordless drill' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should delete the photo, record it in the timeline and remove its files', async () => {
+    mockPrisma.itemPhoto.findMany.mockResolvedValue([photo]);
+
+    const result = await removePhotoAction('item-1', 'photo-1');
+
+    expect(result.success).toBe(true);
+    expect(mockPrisma.itemPhoto.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { itemId: 'item-1', id: 'photo-1', item: { householdId: 'household-1' } },
+    }));
+    expect(mockPrisma.tx.itemPhoto.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['photo-1'] } } });
+    expect(activityLogService.recordActivity).toHaveBeenCalledWith(mockPrisma.tx, expect.objectContaining({
+      householdId: 'household-1',
+      userId: 'user-1',
+      entityType: 'ITEM',
+      entityId: 'item-1',
+      action: 'PHOTO_DELETED',
+      metadata: { itemName: 'Cordless drill', photoId: 'photo-1', filename: 'drill.jpg' },
+    }));
+    expect(deletePhotoFromStorage).toHaveBeenCalledWith(photo.originalUrl, photo.thumbnailUrl);
+  });
+
+  it('should not record anything for a photo outside the household', async () => {
+    mockPrisma.itemPhoto.findMany.mockResolvedValue([]);
+
+    const result = await removePhotoAction('item-1', 'photo-2');
+
+    expect(result).toEqual({ success: false, error: 'Photo not found' });
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    expect(activityLogService.recordActivity).not.toHaveBeenCalled();
+  });
+});
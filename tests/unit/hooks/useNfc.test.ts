@@ -0,0 +1,145 @@
+/**
+ * Tests for the Web NFC hook against a mocked NDEFReader
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { TextEncoder, TextDecoder } from 'util';
+import { useNfc } from '@/lib/hooks/useNfc';
+
+// jsdom doesn't provide the encoding APIs used to decode NDEF records
+Object.assign(global, { TextEncoder, TextDecoder });
+
+/**
+ * Minimal NDEFReader stand-in that lets tests tap a tag on demand
+ */
+class MockNDEFReader {
+  static instances: MockNDEFReader[] = [];
+  static scanError: Error | null = null;
+
+  onreading: ((event: any) => void) | null = null;
+  onreadingerror: ((event: any) => void) | null = null;
+  scan = jest.fn(async () => {
+    if (MockNDEFReader.scanError) throw MockNDEFReader.scanError;
+  });
+  write = jest.fn(async () => {});
+
+  constructor() {
+    MockNDEFReader.instances.push(this);
+  }
+
+  tap(serialNumber: string, records: any[] = []) {
+    this.onreading?.({ serialNumber, message: { records } });
+  }
+}
+
+const latestReader = () => MockNDEFReader.instances[MockNDEFReader.instances.length - 1];
+
+describe('useNfc', () => {
+  beforeEach(() => {
+    MockNDEFReader.instances = [];
+    MockNDEFReader.scanError = null;
+    (window as any).NDEFReader = MockNDEFReader;
+    Object.defineProperty(window, 'isSecureContext', { value: true, configurable: true });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete (window as any).NDEFReader;
+    jest.restoreAllMocks();
+  });
+
+  it('should report unsupported browsers without throwing', async () => {
+    delete (window as any).NDEFReader;
+
+    const { result } = renderHook(() => useNfc());
+    await waitFor(() => expect(result.current.state.isSecure).toBe(true));
+
+    expect(result.current.state.isSupported).toBe(false);
+
+    let readResult: any;
+    await act(async () => {
+      readResult = await result.current.actions.readTag();
+    });
+
+    expect(readResult).toBeNull();
+    expect(result.current.state.error).toBe('NFC is not supported by this browser');
+  });
+
+  it('should read the serial number and URL record of a tapped tag', async () => {
+    const { result } = renderHook(() => useNfc());
+    await waitFor(() => expect(result.current.state.isSupported).toBe(true));
+
+    let readPromise: Promise<any>;
+    act(() => {
+      readPromise = result.current.actions.readTag();
+    });
+    await waitFor(() => expect(result.current.state.isScanning).toBe(true));
+    await waitFor(() => expect(latestReader().scan).toHaveBeenCalled());
+
+    const url = 'https://example.com/t/04A2B3C4';
+    await act(async () => {
+      latestReader().tap('04:a2:b3:c4', [
+        { recordType: 'url', data: new DataView(new TextEncoder().encode(url).buffer) },
+      ]);
+    });
+
+    await expect(readPromise!).resolves.toEqual({ serialNumber: '04:a2:b3:c4', url });
+    expect(result.current.state.isScanning).toBe(false);
+  });
+
+  it('should write a URL built from the tapped tag serial number', async () => {
+    const { result } = renderHook(() => useNfc());
+    await waitFor(() => expect(result.current.state.isSupported).toBe(true));
+
+    let writePromise: Promise<any>;
+    act(() => {
+      writePromise = result.current.actions.writeTag((serial) => `https://example.com/t/${serial}`);
+    });
+    await waitFor(() => expect(latestReader().scan).toHaveBeenCalled());
+
+    await act(async () => {
+      latestReader().tap('04A2B3C4');
+    });
+
+    await expect(writePromise!).resolves.toEqual({
+      serialNumber: '04A2B3C4',
+      url: 'https://example.com/t/04A2B3C4',
+    });
+    expect(latestReader().write).toHaveBeenCalledWith({
+      records: [{ recordType: 'url', data: 'https://example.com/t/04A2B3C4' }],
+    });
+  });
+
+  it('should mark permission as denied when the scan is not allowed', async () => {
+    MockNDEFReader.scanError = Object.assign(new Error('denied'), { name: 'NotAllowedError' });
+
+    const { result } = renderHook(() => useNfc());
+    await waitFor(() => expect(result.current.state.isSupported).toBe(true));
+
+    await act(async () => {
+      await result.current.actions.readTag();
+    });
+
+    expect(result.current.state.permissionState).toBe('denied');
+    expect(result.current.state.error).toMatch(/permission was denied/);
+  });
+
+  it('should resolve to null without an error when cancelled', async () => {
+    const { result } = renderHook(() => useNfc());
+    await waitFor(() => expect(result.current.state.isSupported).toBe(true));
+
+    let readPromise: Promise<any>;
+    act(() => {
+      readPromise = result.current.actions.readTag();
+    });
+    await waitFor(() => expect(latestReader().scan).toHaveBeenCalled());
+
+    await act(async () => {
+      result.current.actions.cancel();
+    });
+
+    await expect(readPromise!).resolves.toBeNull();
+    expect(result.current.state.error).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  ActivityLogService,
+  buildActivityDiff,
+  ITEM_ACTIVITY_FIELDS,
+} from '@/lib/services/activity';
+import { getRequestIp } from '@/lib/utils/request-context';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+jest.mock('@/lib/utils/request-context', () => ({
+  getRequestIp: jest.fn(),
+}));
+
+const mockPrisma = {
+  activityLog: { findMany: jest.fn(), count: jest.fn() },
+};
+
+describe('ActivityLogService', () => {
+  let activityLogService: ActivityLogService;
+  const userId = 'user-1';
+  const householdId = 'household-1';
+  const itemId = '550e8400-e29b-41d4-a716-446655440000';
+
+  beforeEach(() => {
+    activityLogService = new ActivityLogService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('buildActivityDiff', () => {
+    it('should include only changed fields', () => {
+      const diff = buildActivityDiff(
+        { name: 'Drill', locationId: 'loc-1', quantity: 1 },
+        { name: 'Drill', locationId: 'loc-2', quantity: 1 },
+        ITEM_ACTIVITY_FIELDS
+      );
+
+      expect(diff).toEqual({
+        locationId: { before: 'loc-1', after: 'loc-2' },
+      });
+    });
+
+    it('should store decimals as numbers and dates as ISO strings', () => {
+      const diff = buildActivityDiff(
+        { currentValue: new Prisma.Decimal('120.50'), borrowedAt: null },
+        { currentValue: new Prisma.Decimal('99.99'), borrowedAt: new Date('2026-03-01T10:00:00.000Z') },
+        ['currentValue', 'borrowedAt']
+      );
+
+      expect(diff).toEqual({
+        currentValue: { before: 120.5, after: 99.99 },
+        borrowedAt: { before: null, after: '2026-03-01T10:00:00.000Z' },
+      });
+    });
+
+    it('should snapshot every set field on creation', () => {
+      const diff = buildActivityDiff(null, { name: 'Drill', description: null, quantity: 2 }, ['name', 'description', 'quantity']);
+
+      expect(diff).toEqual({
+        name: { before: null, after: 'Drill' },
+        quantity: { before: null, after: 2 },
+      });
+    });
+  });
+
+  describe('recordActivity', () => {
+    it('should write the entry with the request IP inside the given transaction', async () => {
+      (getRequestIp as jest.Mock).mockResolvedValue('203.0.113.7');
+      const tx = { activityLog: { create: jest.fn().mockResolvedValue({ id: 'log-1' }) } };
+
+      await activityLogService.recordActivity(tx as any, {
+        householdId,
+        userId,
+        entityType: 'ITEM',
+        entityId: itemId,
+        action: 'MOVED',
+        diff: { locationId: { before: 'loc-1', after: 'loc-2' } },
+        metadata: { fromPath: 'Garage', toPath: 'Shed' },
+      });
+
+      expect(tx.activityLog.create).toHaveBeenCalledWith({
+        data: {
+          householdId,
+          userId,
+          entityType: 'ITEM',
+          entityId: itemId,
+          action: 'MOVED',
+          diff: { locationId: { before: 'loc-1', after: 'loc-2' } },
+          metadata: { fromPath: 'Garage', toPath: 'Shed' },
+          ipAddress: '203.0.113.7',
+        },
+      });
+    });
+  });
+
+  describe('listActivity', () => {
+    it('should filter by entity, user, action and date range within the household', async () => {
+      mockPrisma.activityLog.findMany.mockResolvedValue([]);
+      mockPrisma.activityLog.count.mockResolvedValue(0);
+      const from = new Date('2026-01-01T00:00:00.000Z');
+      const to = new Date('2026-02-01T00:00:00.000Z');
+
+      const result = await activityLogService.listActivity(householdId, {
+        entityType: 'ITEM',
+        entityId: itemId,
+        userId,
+        actions: ['MOVED', 'STATUS_CHANGED'],
+        from,
+        to,
+        page: 2,
+        limit: 10,
+      });
+
+      expect(mockPrisma.activityLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          householdId,
+          entityType: 'ITEM',
+          entityId: itemId,
+          userId,
+          action: { in: ['MOVED', 'STATUS_CHANGED'] },
+          createdAt: { gte: from, lte: to },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: 10,
+        take: 10,
+      }));
+      expect(result.pagination.page).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * @jest-environment node
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { BackupService } from '@/lib/services/backups';
+import type { BackupManifest } from '@/lib/types/backups';
+import { MAX_BACKUP_PHOTO_SIZE } from '@/lib/validation/backups';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+const mockSharp = {
+  resize: jest.fn().mockReturnThis(),
+  jpeg: jest.fn().mockReturnThis(),
+  toBuffer: jest.fn(),
+};
+jest.mock('sharp', () => jest.fn(() => mockSharp));
+
+jest.mock('@/lib/services/storage', () => ({
+  S3StorageService: jest.fn(),
+  storageService: {},
+}));
+
+const mockTx = {
+  household: { create: jest.fn(), findUniqueOrThrow: jest.fn() },
+  location: { create: jest.fn() },
+  category: { create: jest.fn() },
+  tag: { createMany: jest.fn() },
+  customField: { createMany: jest.fn() },
+  item: { createMany: jest.fn() },
+  itemTag: { createMany: jest.fn() },
+  itemPhoto: { createMany: jest.fn() },
+  itemLoan: { createMany: jest.fn() },
+  nfcTag: { createMany: jest.fn() },
+};
+
+const mockPrisma = {
+  household: { findUniqueOrThrow: jest.fn() },
+  location: { findMany: jest.fn(), count: jest.fn() },
+  category: { findMany: jest.fn(), count: jest.fn() },
+  tag: { findMany: jest.fn(), count: jest.fn() },
+  customField: { findMany: jest.fn(), count: jest.fn() },
+  item: { findMany: jest.fn(), count: jest.fn() },
+  itemLoan: { findMany: jest.fn() },
+  nfcTag: { findMany: jest.fn(), count: jest.fn() },
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+};
+
+const mockStorage = {
+  downloadFile: jest.fn(),
+  uploadFile: jest.fn(),
+  deleteFiles: jest.fn(),
+};
+
+const createdAt = '2026-01-05T09:00:00.000Z';
+
+const buildManifest = (overrides: Partial<BackupManifest> = {}): BackupManifest => ({
+  format: 'household-backup',
+  version: 2,
+  createdAt,
+  household: { name: 'Home', description: null, settings: { currency: 'EUR' } },
+  locations: [
+    { id: 'loc-garage', name: 'Garage', description: null, parentId: null, path: 'Garage', level: 0, locationType: 'ROOM', createdAt },
+    { id: 'loc-shelf', name: 'Shelf', description: null, parentId: 'loc-garage', path: 'Garage → Shelf', level: 1, locationType: 'FURNITURE', createdAt },
+  ],
+  categories: [
+    { id: 'cat-tools', name: 'Tools', parentId: null, path: 'Tools', level: 0, depreciationMethod: null, usefulLifeYears: null, depreciationRate: null, createdAt },
+    { id: 'cat-power', name: 'Power tools', parentId: 'cat-tools', path: 'Tools → Power tools', level: 1, depreciationMethod: 'STRAIGHT_LINE', usefulLifeYears: 5, depreciationRate: '20.00', createdAt },
+  ],
+  tags: [{ id: 'tag-tools', name: 'Tools', color: '#FF0000', createdAt }],
+  customFields: [{
+    id: 'field-voltage',
+    key: 'voltage',
+    label: 'Voltage',
+    type: 'NUMBER',
+    options: [],
+    required: false,
+    searchable: true,
+    tagIds: ['tag-tools'],
+    locationTypes: [],
+    categoryIds: ['cat-power'],
+    displayOrder: 0,
+    createdAt,
+  }],
+  items: [{
+    id: 'item-drill',
+    locationId: 'loc-shelf',
+    categoryId: 'cat-power',
+    name: 'Drill',
+    description: null,
+    quantity: 1,
+    unit: 'piece',
+    purchasePrice: '129.99',
+    currentValue: '80.00',
+    purchaseDate: null,
+    status: 'BORROWED',
+    borrowedAt: createdAt,
+    borrowedUntil: null,
+    metadata: { brand: 'Bosch' },
+    createdAt,
+    updatedAt: createdAt,
+    tagIds: ['tag-tools'],
+    photos: [{
+      id: 'photo-1',
+      file: 'photos/photo-1/1700-original.webp',
+      filename: 'drill.jpg',
+      mimeType: 'image/jpeg',
+      fileSize: 3,
+      width: 640,
+      height: 480,
+      displayOrder: 0,
+      isPrimary: true,
+      createdAt,
+    }],
+  }],
+  loans: [{
+    id: 'loan-1',
+    itemId: 'item-drill',
+    borrowerName: 'Sam',
+    borrowerContact: null,
+    lentAt: createdAt,
+    dueAt: null,
+    notes: null,
+    returnedAt: null,
+    returnCondition: null,
+    returnNotes: null,
+  }],
+  nfcTags: [{
+    id: 'nfc-1',
+    uid: '04A1B2C3',
+    label: null,
+    itemId: null,
+    locationId: 'loc-garage',
+    status: 'ACTIVE',
+    retiredAt: null,
+    createdAt,
+  }],
+  ...overrides,
+});
+
+const buildArchive = (manifest: unknown, photos: Record<string, Uint8Array> = {}) =>
+  zipSync({ 'manifest.json': strToU8(JSON.stringify(manifest)), ...photos });
+
+/** PNG signature followed by image data */
+const pngBytes = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 1, 2, 3]);
+
+const readStream = async (stream: ReadableStream<Uint8Array>) =>
+  new Uint8Array(await new Response(stream).arrayBuffer());
+
+describe('BackupService', () => {
+  let backupService: BackupService;
+  const userId = 'user-1';
+  const householdId = 'household-1';
+
+  beforeEach(() => {
+    backupService = new BackupService(mockPrisma as any, mockStorage as any);
+    jest.clearAllMocks();
+
+    mockStorage.uploadFile.mockImplementation(async (_buffer: Buffer, key: string) => ({ key }));
+    mockStorage.deleteFiles.mockResolvedValue(undefined);
+    mockSharp.toBuffer.mockResolvedValue(Buffer.from('thumbnail'));
+  });
+
+  describe('createBackup', () => {
+    it('should archive the manifest and original photos, marking photos that fail to download', async () => {
+      const date = new Date(createdAt);
+      mockPrisma.household.findUniqueOrThrow.mockResolvedValue({ id: householdId, name: 'My Home', description: null, settings: {} });
+      mockPrisma.location.findMany.mockResolvedValue([
+        { id: 'loc-garage', name: 'Garage', description: null, parentId: null, path: 'Garage', level: 0, locationType: 'ROOM', createdAt: date },
+      ]);
+      mockPrisma.category.findMany.mockResolvedValue([
+        { id: 'cat-tools', name: 'Tools', parentId: null, path: 'Tools', level: 0, depreciationMethod: 'DECLINING_BALANCE', usefulLifeYears: null, depreciationRate: { toString: () => '25' }, createdAt: date },
+      ]);
+      mockPrisma.tag.findMany.mockResolvedValue([{ id: 'tag-tools', name: 'Tools', color: '#FF0000', createdAt: date }]);
+      mockPrisma.customField.findMany.mockResolvedValue([
+        { id: 'field-voltage', key: 'voltage', label: 'Voltage', type: 'NUMBER', options: [], required: false, searchable: true, tagIds: [], locationTypes: [], categoryIds: ['cat-tools'], displayOrder: 0, createdAt: date },
+      ]);
+      mockPrisma.item.findMany.mockResolvedValue([{
+        id: 'item-drill',
+        locationId: 'loc-garage',
+        categoryId: 'cat-tools',
+        name: 'Drill',
+        description: null,
+        quantity: 1,
+        unit: 'piece',
+        purchasePrice: null,
+        currentValue: { toString: () => '80' },
+        purchaseDate: null,
+        status: 'AVAILABLE',
+        borrowedAt: null,
+        borrowedUntil: null,
+        metadata: { brand: 'Bosch' },
+        createdAt: date,
+        updatedAt: date,
+        tags: [{ tagId: 'tag-tools' }],
+        photos: [
+          { id: 'photo-1', originalUrl: 'https://cdn.example.com/items/item-drill/photos/1700-original.webp', filename: 'drill.jpg', mimeType: 'image/jpeg', fileSize: 3, width: null, height: null, displayOrder: 0, isPrimary: true, createdAt: date },
+          { id: 'photo-2', originalUrl: 'https://cdn.example.com/items/item-drill/photos/1800-original.webp', filename: 'case.jpg', mimeType: 'image/jpeg', fileSize: 3, width: null, height: null, displayOrder: 1, isPrimary: false, createdAt: date },
+        ],
+      }]);
+      mockPrisma.itemLoan.findMany.mockResolvedValue([]);
+      mockPrisma.nfcTag.findMany.mockResolvedValue([]);
+      mockStorage.downloadFile
+        .mockResolvedValueOnce({ buffer: Buffer.from([1, 2, 3]) })
+        .mockRejectedValueOnce(new Error('NoSuchKey'));
+
+      const backup = await backupService.createBackup(householdId);
+      const files = unzipSync(await readStream(backup.stream));
+      const manifest = JSON.parse(strFromU8(files['manifest.json']));
+
+      expect(backup.filename).toMatch(/^my-home-backup-\d{4}-\d{2}-\d{2}\.zip$/);
+      expect(mockStorage.downloadFile).toHaveBeenCalledWith('items/item-drill/photos/1700-original.webp');
+      expect(Array.from(files['photos/photo-1/1700-original.webp'])).toEqual([1, 2, 3]);
+      expect(manifest).toMatchObject({
+        format: 'household-backup',
+        version: 2,
+        categories: [{ id: 'cat-tools', parentId: null, depreciationMethod: 'DECLINING_BALANCE', depreciationRate: '25' }],
+        tags: [{ id: 'tag-tools', color: '#FF0000' }],
+        customFields: [{ id: 'field-voltage', key: 'voltage', categoryIds: ['cat-tools'] }],
+        items: [{
+          id: 'item-drill',
+          categoryId: 'cat-tools',
+          currentValue: '80',
+          metadata: { brand: 'Bosch' },
+          tagIds: ['tag-tools'],
+          photos: [
+            { id: 'photo-1', file: 'photos/photo-1/1700-original.webp', displayOrder: 0 },
+            { id: 'photo-2', file: null, displayOrder: 1 },
+          ],
+        }],
+      });
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should rebuild the household with new IDs and remapped references', async () => {
+      mockTx.household.create.mockResolvedValue({ id: 'household-new', name: 'Home' });
+
+      // The file name says WebP, but the bytes decide the stored type
+      const result = await backupService.restoreBackup(
+        userId,
+        buildArchive(buildManifest(), { 'photos/photo-1/1700-original.webp': pngBytes }),
+        { mode: 'new' }
+      );
+
+      expect(result).toEqual({
+        householdId: 'household-new',
+        householdName: 'Home',
+        counts: { locations: 2, categories: 2, tags: 1, customFields: 1, items: 1, photos: 1, loans: 1, nfcTags: 1 },
+        missingPhotos: 0,
+      });
+      expect(mockTx.household.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'Home', members: { create: { userId, role: 'owner' } } }),
+      });
+
+      const [garage, shelf] = mockTx.location.create.mock.calls.map(([args]) => args.data);
+      expect(garage.id).not.toBe('loc-garage');
+      expect(shelf).toMatchObject({ parentId: garage.id, householdId: 'household-new', itemCount: 1 });
+      expect(shelf.totalValue.toString()).toBe('80');
+
+      const [tools, power] = mockTx.category.create.mock.calls.map(([args]) => args.data);
+      expect(tools.id).not.toBe('cat-tools');
+      expect(power).toMatchObject({ parentId: tools.id, householdId: 'household-new', usefulLifeYears: 5, depreciationRate: '20.00' });
+
+      const [item] = mockTx.item.createMany.mock.calls[0][0].data;
+      const [tag] = mockTx.tag.createMany.mock.calls[0][0].data;
+      expect(item).toMatchObject({ locationId: shelf.id, categoryId: power.id, createdBy: userId, metadata: { brand: 'Bosch' }, status: 'BORROWED' });
+      expect(tag).toMatchObject({ name: 'Tools', color: '#FF0000', usageCount: 1 });
+      expect(mockTx.customField.createMany.mock.calls[0][0].data[0]).toMatchObject({
+        householdId: 'household-new',
+        key: 'voltage',
+        tagIds: [tag.id],
+        categoryIds: [power.id],
+      });
+      expect(mockTx.itemTag.createMany.mock.calls[0][0].data).toEqual([{ itemId: item.id, tagId: tag.id }]);
+      expect(mockTx.itemLoan.createMany.mock.calls[0][0].data[0]).toMatchObject({ itemId: item.id, borrowerName: 'Sam' });
+      expect(mockTx.nfcTag.createMany.mock.calls[0][0].data[0]).toMatchObject({ locationId: garage.id, itemId: null, registeredBy: userId });
+
+      expect(mockStorage.uploadFile).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        expect.stringMatching(new RegExp(`^items/${item.id}/photos/\\d+-original\\.png$`)),
+        'image/png'
+      );
+      expect(mockSharp.resize).toHaveBeenCalledWith(200, 200, expect.objectContaining({ fit: 'cover' }));
+      expect(mockStorage.uploadFile).toHaveBeenCalledWith(
+        Buffer.from('thumbnail'),
+        expect.stringMatching(/-thumb\.jpg$/),
+        'image/jpeg'
+      );
+      expect(mockTx.itemPhoto.createMany.mock.calls[0][0].data[0]).toMatchObject({
+        itemId: item.id,
+        mimeType: 'image/png',
+        originalUrl: expect.stringContaining(`items/${item.id}/photos/`),
+        isPrimary: true,
+        uploadedBy: userId,
+      });
+    });
+
+    it('should restore version 1 archives, which have no categories or custom fields', async () => {
+      mockTx.household.create.mockResolvedValue({ id: 'household-new', name: 'Home' });
+      const { categories: _categories, customFields: _customFields, ...manifest } = buildManifest();
+
+      const result = await backupService.restoreBackup(
+        userId,
+        buildArchive({ ...manifest, version: 1, items: manifest.items.map(({ categoryId: _categoryId, ...item }) => item) }),
+        { mode: 'new' }
+      );
+
+      expect(result.counts).toMatchObject({ categories: 0, customFields: 0, items: 1 });
+      expect(mockTx.category.create).not.toHaveBeenCalled();
+      expect(mockTx.item.createMany.mock.calls[0][0].data[0]).toMatchObject({ categoryId: null });
+    });
+
+    it('should refuse to restore into a household that has data', async () => {
+      mockPrisma.location.count.mockResolvedValue(3);
+      mockPrisma.category.count.mockResolvedValue(0);
+      mockPrisma.item.count.mockResolvedValue(0);
+      mockPrisma.tag.count.mockResolvedValue(0);
+      mockPrisma.customField.count.mockResolvedValue(0);
+      mockPrisma.nfcTag.count.mockResolvedValue(0);
+
+      await expect(
+        backupService.restoreBackup(userId, buildArchive(buildManifest()), { mode: 'current', householdId })
+      ).rejects.toMatchObject({ code: 'HOUSEHOLD_NOT_EMPTY' });
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject archives that are newer, invalid or inconsistent', async () => {
+      await expect(
+        backupService.restoreBackup(userId, buildArchive({ ...buildManifest(), version: 3 }), { mode: 'new' })
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_VERSION' });
+
+      await expect(
+        backupService.restoreBackup(userId, strToU8('not a zip'), { mode: 'new' })
+      ).rejects.toMatchObject({ code: 'INVALID_ARCHIVE' });
+
+      await expect(
+        backupService.restoreBackup(userId, buildArchive(buildManifest({ loans: [{ ...buildManifest().loans[0], itemId: 'item-missing' }] })), { mode: 'new' })
+      ).rejects.toMatchObject({ code: 'INVALID_ARCHIVE', message: 'Backup references unknown item item-missing' });
+    });
+
+    it('should reject unexpected entries and entries that unpack too large before inflating them', async () => {
+      await expect(
+        backupService.restoreBackup(userId, buildArchive(buildManifest(), { 'index.html': strToU8('<script></script>') }), { mode: 'new' })
+      ).rejects.toMatchObject({ code: 'INVALID_ARCHIVE', message: 'Backup contains an unexpected file: index.html' });
+
+      await expect(
+        backupService.restoreBackup(
+          userId,
+          buildArchive(buildManifest(), { 'photos/photo-1/1700-original.webp': new Uint8Array(MAX_BACKUP_PHOTO_SIZE + 1) }),
+          { mode: 'new' }
+        )
+      ).rejects.toMatchObject({ code: 'FILE_TOO_LARGE' });
+
+      expect(mockStorage.uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('should count photos that are not allowed images or cannot be decoded as missing', async () => {
+      mockTx.household.create.mockResolvedValue({ id: 'household-new', name: 'Home' });
+      const manifest = buildManifest();
+      manifest.items[0].photos[0].file = 'photos/photo-1/drawing.svg+xml';
+
+      const result = await backupService.restoreBackup(
+        userId,
+        buildArchive(manifest, { 'photos/photo-1/drawing.svg+xml': strToU8('<svg onload="alert(1)"></svg>') }),
+        { mode: 'new' }
+      );
+
+      expect(result).toMatchObject({ counts: { photos: 0 }, missingPhotos: 1 });
+      expect(mockSharp.toBuffer).not.toHaveBeenCalled();
+      expect(mockTx.itemPhoto.createMany.mock.calls[0][0].data).toEqual([]);
+
+      mockSharp.toBuffer.mockRejectedValueOnce(new Error('Input buffer contains unsupported image format'));
+      const corrupt = await backupService.restoreBackup(
+        userId,
+        buildArchive(buildManifest(), { 'photos/photo-1/1700-original.webp': pngBytes }),
+        { mode: 'new' }
+      );
+
+      expect(corrupt.missingPhotos).toBe(1);
+      expect(mockStorage.uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('should remove uploaded photos when the database write fails', async () => {
+      mockTx.household.create.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        backupService.restoreBackup(
+          userId,
+          buildArchive(buildManifest(), { 'photos/photo-1/1700-original.webp': pngBytes }),
+          { mode: 'new' }
+        )
+      ).rejects.toThrow('connection lost');
+
+      expect(mockStorage.deleteFiles).toHaveBeenCalledWith([
+        expect.stringMatching(/-original\.png$/),
+        expect.stringMatching(/-thumb\.jpg$/),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+
+import { CategoryService } from '@/lib/services/categories';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+const mockTx = {
+  category: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    count: jest.fn(),
+  },
+  customField: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+};
+
+const mockPrisma = {
+  category: { findMany: jest.fn() },
+  customField: { findMany: jest.fn() },
+  item: { findMany: jest.fn() },
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+};
+
+describe('CategoryService', () => {
+  let categoryService: CategoryService;
+  const householdId = 'household-1';
+
+  const noRule = { depreciationMethod: null, usefulLifeYears: null, depreciationRate: null };
+  const electronics = { id: 'cat-electronics', householdId, name: 'Electronics', parentId: null, path: 'Electronics', level: 0, ...noRule };
+  const audio = { id: 'cat-audio', householdId, name: 'Audio', parentId: 'cat-electronics', path: 'Electronics > Audio', level: 1, ...noRule };
+
+  const createInput = {
+    name: 'Headphones',
+    parentId: audio.id,
+    ...noRule,
+    customFieldIds: ['field-serial'],
+  };
+
+  beforeEach(() => {
+    categoryService = new CategoryService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('createCategory', () => {
+    it('should place the category under its parent and attach default fields', async () => {
+      mockTx.category.findFirst
+        .mockResolvedValueOnce(audio) // parent lookup
+        .mockResolvedValueOnce(null); // sibling name check
+      mockTx.category.create.mockImplementation(async ({ data }) => ({ id: 'cat-headphones', ...data }));
+      mockTx.customField.findMany.mockResolvedValue([
+        { id: 'field-serial', categoryIds: [] },
+        { id: 'field-warranty', categoryIds: [] },
+      ]);
+
+      const category = await categoryService.createCategory(householdId, createInput);
+
+      expect(mockTx.category.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ householdId, path: 'Electronics > Audio > Headphones', level: 2 }),
+      });
+      expect(mockTx.customField.update).toHaveBeenCalledTimes(1);
+      expect(mockTx.customField.update).toHaveBeenCalledWith({
+        where: { id: 'field-serial' },
+        data: { categoryIds: ['cat-headphones'] },
+      });
+      expect(category.id).toBe('cat-headphones');
+    });
+
+    it('should reject duplicate names under the same parent', async () => {
+      mockTx.category.findFirst
+        .mockResolvedValueOnce(audio)
+        .mockResolvedValueOnce({ id: 'cat-existing' });
+
+      await expect(categoryService.createCategory(householdId, createInput))
+        .rejects.toThrow('A category "Electronics > Audio > Headphones" already exists');
+      expect(mockTx.category.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject parents of other households', async () => {
+      mockTx.category.findFirst.mockResolvedValueOnce(null);
+
+      await expect(categoryService.createCategory('household-2', createInput))
+        .rejects.toThrow('Category not found or access denied');
+      expect(mockTx.category.findFirst).toHaveBeenCalledWith({ where: { id: audio.id, householdId: 'household-2' } });
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('should not move a category into its own subtree', async () => {
+      mockTx.category.findFirst
+        .mockResolvedValueOnce(electronics) // category
+        .mockResolvedValueOnce(audio); // new parent
+      mockTx.category.findMany.mockResolvedValue([electronics, audio]);
+
+      await expect(categoryService.updateCategory(electronics.id, householdId, { parentId: audio.id }))
+        .rejects.toThrow('Cannot move a category into itself or one of its subcategories');
+      expect(mockTx.category.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the depreciation rule complete', async () => {
+      mockTx.category.findFirst.mockResolvedValueOnce({
+        ...electronics,
+        depreciationMethod: 'STRAIGHT_LINE',
+        usefulLifeYears: 5,
+        depreciationRate: null,
+      });
+
+      await expect(categoryService.updateCategory(electronics.id, householdId, { usefulLifeYears: null }))
+        .rejects.toThrow('Straight-line depreciation needs a useful life');
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('should not delete categories with subcategories', async () => {
+      mockTx.category.findFirst.mockResolvedValueOnce(electronics);
+      mockTx.category.count.mockResolvedValue(1);
+
+      await expect(categoryService.deleteCategory(electronics.id, householdId))
+        .rejects.toThrow('Cannot delete a category that has subcategories');
+      expect(mockTx.category.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCategoryBreakdown', () => {
+    it('should roll subcategories up into their root and depreciate purchases', async () => {
+      mockPrisma.category.findMany.mockResolvedValue([
+        { ...electronics, depreciationMethod: 'STRAIGHT_LINE', usefulLifeYears: 4, depreciationRate: null },
+        audio,
+      ]);
+      mockPrisma.item.findMany.mockResolvedValue([
+        { categoryId: audio.id, currentValue: 300, purchasePrice: 400, purchaseDate: new Date('2024-01-01T00:00:00.000Z') },
+        { categoryId: electronics.id, currentValue: 100, purchasePrice: null, purchaseDate: null },
+        { categoryId: null, currentValue: 50, purchasePrice: null, purchaseDate: null },
+      ]);
+
+      const asOf = new Date(new Date('2024-01-01T00:00:00.000Z').getTime() + 2 * 365.25 * 24 * 60 * 60 * 1000);
+      const breakdown = await categoryService.getCategoryBreakdown(householdId, asOf);
+
+      expect(breakdown).toEqual([
+        { categoryId: electronics.id, name: 'Electronics', itemCount: 2, totalValue: 400, depreciatedValue: 300 },
+        { categoryId: null, name: 'Uncategorized', itemCount: 1, totalValue: 50, depreciatedValue: 50 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+
+import { CustomFieldService } from '@/lib/services/custom-fields';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+const mockTx = {
+  customField: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  tag: {
+    count: jest.fn(),
+  },
+};
+
+const mockPrisma = {
+  ...mockTx,
+  customField: {
+    ...mockTx.customField,
+    findMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+};
+
+describe('CustomFieldService', () => {
+  let customFieldService: CustomFieldService;
+  const householdId = 'household-1';
+  const tagId = '6f1c2e3b-4a4c-4d8e-9fa0-b1c2d3e4f5a6';
+
+  const createInput = {
+    key: 'warrantyUntil',
+    label: 'Warranty',
+    type: 'WARRANTY_EXPIRY' as const,
+    options: [],
+    required: false,
+    searchable: true,
+    tagIds: [tagId],
+    locationTypes: [],
+    displayOrder: 0,
+  };
+
+  beforeEach(() => {
+    customFieldService = new CustomFieldService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('createField', () => {
+    it('should create a field scoped to the household', async () => {
+      mockTx.customField.findFirst.mockResolvedValue(null);
+      mockTx.tag.count.mockResolvedValue(1);
+      mockTx.customField.create.mockImplementation(async ({ data }) => ({ id: 'field-1', ...data }));
+
+      const field = await customFieldService.createField(householdId, createInput);
+
+      expect(mockTx.tag.count).toHaveBeenCalledWith({ where: { id: { in: [tagId] }, householdId } });
+      expect(mockTx.customField.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ householdId, key: 'warrantyUntil', tagIds: [tagId] }),
+      });
+      expect(field.id).toBe('field-1');
+    });
+
+    it('should reject duplicate keys', async () => {
+      mockTx.customField.findFirst.mockResolvedValue({ id: 'field-1' });
+
+      await expect(customFieldService.createField(householdId, createInput))
+        .rejects.toThrow('A custom field with key "warrantyUntil" already exists');
+      expect(mockTx.customField.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject tags of other households', async () => {
+      mockTx.customField.findFirst.mockResolvedValue(null);
+      mockTx.tag.count.mockResolvedValue(0);
+
+      await expect(customFieldService.createField(householdId, createInput))
+        .rejects.toThrow('Tags must belong to this household');
+    });
+  });
+
+  describe('updateField', () => {
+    it('should not give options to fields that are not select fields', async () => {
+      mockTx.customField.findFirst.mockResolvedValue({ id: 'field-1', type: 'TEXT' });
+
+      await expect(customFieldService.updateField('field-1', householdId, { options: ['a'] }))
+        .rejects.toThrow('Only select fields have options');
+      expect(mockTx.customField.update).not.toHaveBeenCalled();
+    });
+
+    it('should not update fields of other households', async () => {
+      mockTx.customField.findFirst.mockResolvedValue(null);
+
+      await expect(customFieldService.updateField('field-1', 'household-2', { label: 'Renamed' }))
+        .rejects.toThrow('Custom field not found or access denied');
+      expect(mockTx.customField.findFirst).toHaveBeenCalledWith({ where: { id: 'field-1', householdId: 'household-2' } });
+    });
+  });
+
+  describe('deleteField', () => {
+    it('should delete only within the household', async () => {
+      mockPrisma.customField.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(customFieldService.deleteField('field-1', householdId))
+        .rejects.toThrow('Custom field not found or access denied');
+      expect(mockPrisma.customField.deleteMany).toHaveBeenCalledWith({ where: { id: 'field-1', householdId } });
+    });
+  });
+});
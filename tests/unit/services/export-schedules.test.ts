@@ -0,0 +1,245 @@
+/**
+ * @jest-environment node
+ */
+
+import { ExportScheduleService } from '@/lib/services/export-schedules';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+jest.mock('@/lib/services/storage', () => ({
+  S3StorageService: jest.fn(),
+  storageService: {},
+}));
+
+// The exports module loads sharp for PDF thumbnails
+jest.mock('sharp', () => jest.fn());
+
+const mockPrisma = {
+  exportSchedule: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+  },
+  exportJob: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  householdMember: {
+    findUnique: jest.fn(),
+  },
+};
+
+const mockExports = {
+  createExport: jest.fn(),
+};
+
+const mockStorage = {
+  deleteFiles: jest.fn(),
+};
+
+describe('ExportScheduleService', () => {
+  let scheduleService: ExportScheduleService;
+  const householdId = 'household-1';
+  const scheduleId = '0d6f1c2e-3b4a-4c5d-8e9f-a0b1c2d3e4f5';
+  const now = new Date('2026-03-02T03:00:30.000Z');
+
+  const buildRecord = (overrides: Record<string, unknown> = {}) => ({
+    id: scheduleId,
+    householdId,
+    userId: 'user-1',
+    name: 'Weekly backup',
+    format: 'csv',
+    filters: { status: ['AVAILABLE'] },
+    columnSettings: null,
+    cronExpression: '0 3 * * 1',
+    retentionCount: 2,
+    enabled: true,
+    nextRunAt: new Date('2026-03-02T03:00:00.000Z'),
+    lastRunAt: null,
+    lastError: null,
+    createdAt: new Date('2026-02-20T10:30:00.000Z'),
+    updatedAt: new Date('2026-02-20T10:30:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    scheduleService = new ExportScheduleService(mockPrisma as any, mockExports as any, mockStorage as any);
+    jest.clearAllMocks();
+  });
+
+  describe('createSchedule', () => {
+    it('should apply defaults and schedule the first run', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-03-01T12:00:00.000Z'));
+      mockPrisma.exportSchedule.create.mockImplementation(({ data }) => Promise.resolve(buildRecord(data)));
+
+      try {
+        const schedule = await scheduleService.createSchedule('user-1', householdId, {
+          name: ' Weekly backup ',
+          format: 'json',
+          cronExpression: '0 3 * * 1',
+        });
+
+        expect(mockPrisma.exportSchedule.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            name: 'Weekly backup',
+            retentionCount: 4,
+            enabled: true,
+            nextRunAt: new Date('2026-03-02T03:00:00.000Z'),
+          }),
+        });
+        expect(schedule.retentionCount).toBe(4);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject schedules that run more often than hourly', async () => {
+      await expect(scheduleService.createSchedule('user-1', householdId, {
+        name: 'Too often',
+        format: 'csv',
+        cronExpression: '*/10 * * * *',
+      })).rejects.toThrow('Export schedules cannot run more than once an hour');
+      expect(mockPrisma.exportSchedule.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSchedule', () => {
+    it('should drop column settings when switching to a non-spreadsheet format', async () => {
+      mockPrisma.exportSchedule.findFirst.mockResolvedValueOnce(buildRecord());
+      mockPrisma.exportSchedule.update.mockImplementation(({ data }) => Promise.resolve(buildRecord({ format: data.format })));
+
+      await scheduleService.updateSchedule(scheduleId, householdId, { format: 'pdf' });
+
+      const { data } = mockPrisma.exportSchedule.update.mock.calls[0][0];
+      expect(data.columnSettings).toBe(jest.requireActual('@prisma/client').Prisma.DbNull);
+      expect(data.nextRunAt).toBeUndefined();
+    });
+
+    it('should not update schedules of other households', async () => {
+      mockPrisma.exportSchedule.findFirst.mockResolvedValueOnce(null);
+
+      await expect(scheduleService.updateSchedule(scheduleId, 'household-2', { enabled: false }))
+        .rejects.toMatchObject({ code: 'EXPORT_SCHEDULE_NOT_FOUND' });
+      expect(mockPrisma.exportSchedule.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runDueSchedules', () => {
+    it('should claim due schedules and create scheduled export jobs', async () => {
+      mockPrisma.exportSchedule.findMany.mockResolvedValueOnce([buildRecord()]);
+      mockPrisma.exportSchedule.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockPrisma.householdMember.findUnique.mockResolvedValueOnce({ role: 'member', permissions: null });
+      mockExports.createExport.mockResolvedValueOnce({ id: 'job-1' });
+
+      const result = await scheduleService.runDueSchedules({ now });
+
+      expect(mockPrisma.exportSchedule.updateMany).toHaveBeenCalledWith({
+        where: { id: scheduleId, enabled: true, nextRunAt: new Date('2026-03-02T03:00:00.000Z') },
+        data: { nextRunAt: new Date('2026-03-09T03:00:00.000Z'), lastRunAt: now },
+      });
+      expect(mockExports.createExport).toHaveBeenCalledWith(
+        'user-1',
+        { format: 'csv', filters: { status: ['AVAILABLE'] }, columnSettings: undefined },
+        householdId,
+        { scheduleId }
+      );
+      expect(result).toEqual({ due: 1, started: 1, failed: 0 });
+    });
+
+    it('should skip schedules another runner claimed and record failures', async () => {
+      mockPrisma.exportSchedule.findMany.mockResolvedValueOnce([
+        buildRecord(),
+        buildRecord({ id: 'schedule-2' }),
+      ]);
+      mockPrisma.exportSchedule.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+      mockPrisma.householdMember.findUnique.mockResolvedValueOnce({ role: 'member', permissions: null });
+      mockExports.createExport.mockRejectedValueOnce(new Error('User does not have access to this household'));
+
+      const result = await scheduleService.runDueSchedules({ now });
+
+      expect(mockExports.createExport).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.exportSchedule.update).toHaveBeenCalledWith({
+        where: { id: 'schedule-2' },
+        data: { lastError: 'User does not have access to this household' },
+      });
+      expect(result).toEqual({ due: 1, started: 0, failed: 1 });
+    });
+
+    it('should pause schedules whose owner can no longer create exports', async () => {
+      mockPrisma.exportSchedule.findMany.mockResolvedValueOnce([
+        buildRecord(),
+        buildRecord({ id: 'schedule-2', userId: 'user-2' }),
+      ]);
+      mockPrisma.exportSchedule.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 });
+      mockPrisma.householdMember.findUnique
+        .mockResolvedValueOnce({ role: 'viewer', permissions: null })
+        .mockResolvedValueOnce({ role: 'member', permissions: { 'exports:create': false } });
+
+      const result = await scheduleService.runDueSchedules({ now });
+
+      expect(mockPrisma.householdMember.findUnique).toHaveBeenCalledWith({
+        where: { userId_householdId: { userId: 'user-1', householdId } },
+        select: { role: true, permissions: true },
+      });
+      expect(mockExports.createExport).not.toHaveBeenCalled();
+      for (const id of [scheduleId, 'schedule-2']) {
+        expect(mockPrisma.exportSchedule.update).toHaveBeenCalledWith({
+          where: { id },
+          data: {
+            enabled: false,
+            lastError: 'Paused: the schedule owner no longer has permission to create exports',
+          },
+        });
+      }
+      expect(result).toEqual({ due: 2, started: 0, failed: 2 });
+    });
+  });
+
+  describe('pruneScheduledExports', () => {
+    it('should delete backup files beyond the retention count', async () => {
+      mockPrisma.exportSchedule.findMany.mockResolvedValueOnce([{ id: scheduleId, retentionCount: 2 }]);
+      mockPrisma.exportJob.findMany.mockResolvedValueOnce([
+        { id: 'job-old', storageKey: 'scheduled-exports/household-1/schedule/job-old/export.csv' },
+      ]);
+
+      const result = await scheduleService.pruneScheduledExports();
+
+      expect(mockPrisma.exportJob.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { scheduleId, status: 'completed', storageKey: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        skip: 2,
+      }));
+      expect(mockStorage.deleteFiles).toHaveBeenCalledWith(
+        ['scheduled-exports/household-1/schedule/job-old/export.csv'],
+        'backups'
+      );
+      expect(mockPrisma.exportJob.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['job-old'] } },
+        data: { storageKey: null },
+      });
+      expect(result).toEqual({ filesRemoved: 1 });
+    });
+  });
+
+  describe('deleteSchedule', () => {
+    it('should remove the kept files before deleting the schedule', async () => {
+      mockPrisma.exportSchedule.findFirst.mockResolvedValueOnce({ id: scheduleId });
+      mockPrisma.exportJob.findMany.mockResolvedValueOnce([{ id: 'job-1', storageKey: 'key-1' }]);
+
+      await scheduleService.deleteSchedule(scheduleId, householdId);
+
+      expect(mockStorage.deleteFiles).toHaveBeenCalledWith(['key-1'], 'backups');
+      expect(mockPrisma.exportSchedule.delete).toHaveBeenCalledWith({ where: { id: scheduleId } });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+import { ExportTemplateService } from '@/lib/services/export-templates';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+// ExportErrorCodes is all the template service needs from the exports module
+jest.mock('@/lib/services/storage', () => ({
+  S3StorageService: jest.fn(),
+  storageService: {},
+}));
+
+const mockTx = {
+  exportTemplate: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+};
+
+const mockPrisma = {
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+  exportTemplate: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+};
+
+describe('ExportTemplateService', () => {
+  let templateService: ExportTemplateService;
+  const householdId = 'household-1';
+  const templateId = '0d6f1c2e-3b4a-4c5d-8e9f-a0b1c2d3e4f5';
+  const settings = {
+    columns: ['name', 'locationPath', 'metadata.invoiceNumber'],
+    delimiter: ';' as const,
+    dateFormat: 'eu' as const,
+    currency: { symbol: '€', decimalSeparator: ',' as const },
+  };
+
+  const buildRecord = (overrides: Record<string, unknown> = {}) => ({
+    id: templateId,
+    householdId,
+    name: 'Accounting',
+    settings,
+    createdBy: 'user-1',
+    createdAt: new Date('2026-03-04T10:30:00.000Z'),
+    updatedAt: new Date('2026-03-04T10:30:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    templateService = new ExportTemplateService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('createTemplate', () => {
+    it('should save trimmed names and reject names already used in the household', async () => {
+      mockTx.exportTemplate.findFirst.mockResolvedValueOnce(null);
+      mockTx.exportTemplate.create.mockImplementation(({ data }) => Promise.resolve(buildRecord(data)));
+
+      const template = await templateService.createTemplate('user-1', householdId, { name: '  Accounting ', settings });
+
+      expect(mockTx.exportTemplate.findFirst).toHaveBeenCalledWith({
+        where: { householdId, name: { equals: 'Accounting', mode: 'insensitive' } },
+        select: { id: true },
+      });
+      expect(template).toMatchObject({ name: 'Accounting', settings, createdBy: 'user-1' });
+
+      mockTx.exportTemplate.findFirst.mockResolvedValueOnce({ id: 'other-template' });
+
+      await expect(templateService.createTemplate('user-1', householdId, { name: 'accounting', settings }))
+        .rejects.toMatchObject({ code: 'EXPORT_TEMPLATE_NAME_TAKEN' });
+      expect(mockTx.exportTemplate.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject settings that leave out required columns', async () => {
+      await expect(templateService.createTemplate('user-1', householdId, {
+        name: 'Names only',
+        settings: { ...settings, columns: ['name'] },
+      })).rejects.toThrow('Columns must include name, locationPath');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should only check for duplicates when the name changes', async () => {
+      mockTx.exportTemplate.findFirst.mockResolvedValueOnce(buildRecord());
+      mockTx.exportTemplate.update.mockImplementation(({ data }) => Promise.resolve(buildRecord({ settings: data.settings })));
+
+      const newSettings = { ...settings, delimiter: '\t' as const };
+      const template = await templateService.updateTemplate(templateId, householdId, { name: 'Accounting', settings: newSettings });
+
+      expect(mockTx.exportTemplate.findFirst).toHaveBeenCalledTimes(1);
+      expect(template.settings.delimiter).toBe('\t');
+    });
+
+    it('should not update templates of other households', async () => {
+      mockTx.exportTemplate.findFirst.mockResolvedValueOnce(null);
+
+      await expect(templateService.updateTemplate(templateId, 'household-2', { name: 'Mine now' }))
+        .rejects.toMatchObject({ code: 'EXPORT_TEMPLATE_NOT_FOUND' });
+      expect(mockTx.exportTemplate.findFirst).toHaveBeenCalledWith({ where: { id: templateId, householdId: 'household-2' } });
+      expect(mockTx.exportTemplate.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should scope deletes to the household', async () => {
+      mockPrisma.exportTemplate.deleteMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      await templateService.deleteTemplate(templateId, householdId);
+      await expect(templateService.deleteTemplate(templateId, 'household-2'))
+        .rejects.toMatchObject({ code: 'EXPORT_TEMPLATE_NOT_FOUND' });
+
+      expect(mockPrisma.exportTemplate.deleteMany).toHaveBeenLastCalledWith({ where: { id: templateId, householdId: 'household-2' } });
+    });
+  });
+});
@@ -1,3 +1,7 @@
+/**
+ * @jest-environment node
+ */
+
 /**
  * ExportService Unit Tests - Comprehensive test suite for export functionality
  *
@@ -12,11 +16,15 @@
  * @version 1.0.0 - QA-enhanced comprehensive testing
  */
 
-import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 
 // Mock setImmediate for Node.js environment
 global.setImmediate = global.setImmediate || ((fn: Function) => setTimeout(fn, 0));
 import { PrismaClient } from '@prisma/client';
+import fsPromises from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { Writable } from 'stream';
+import { parseXLSX } from '@/lib/utils/spreadsheet';
 import { ExportService, ExportErrorCodes } from '@/lib/services/exports';
 import type { CreateExportRequestInput } from '@/lib/validation/exports';
 
@@ -31,8 +39,43 @@ const mockPrisma = {
     count: jest.fn(),
     findMany: jest.fn(),
   },
+  household: {
+    findUniqueOrThrow: jest.fn(),
+  },
+  location: {
+    findMany: jest.fn(),
+  },
+  activityLog: {
+    findMany: jest.fn(),
+  },
+  customField: {
+    findMany: jest.fn(),
+  },
+  exportJob: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
 } as any;
 
+// Mock S3 storage
+const mockStorage = {
+  uploadFile: jest.fn(),
+  downloadFile: jest.fn(),
+  deleteFile: jest.fn(),
+  deleteFiles: jest.fn(),
+} as any;
+
+jest.mock('@/lib/services/storage', () => ({
+  S3StorageService: jest.fn(),
+  storageService: {},
+}));
+
+// PDF thumbnails are re-encoded with sharp
+jest.mock('sharp', () => jest.fn());
+
 // Mock filesystem operations
 jest.mock('fs/promises', () => ({
   readFile: jest.fn(),
@@ -40,6 +83,7 @@ jest.mock('fs/promises', () => ({
 }));
 
 jest.mock('fs', () => ({
+  ...jest.requireActual<typeof import('fs')>('fs'),
   createWriteStream: jest.fn(() => ({
     write: jest.fn((data, callback) => callback()),
     end: jest.fn((callback) => callback()),
@@ -65,6 +109,29 @@ describe('ExportService', () => {
         count: jest.fn(),
         findMany: jest.fn(),
       },
+      exportJob: {
+        create: jest.fn(({ data }: any) => Promise.resolve({
+          id: `job-${Math.random().toString(36).slice(2)}`,
+          progress: 0,
+          processedItems: 0,
+          fileSize: null,
+          storageKey: null,
+          errorMessage: null,
+          attempts: 0,
+          lockedBy: null,
+          lockedAt: null,
+          startedAt: null,
+          completedAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+          filters: data.filters ?? null,
+          columnSettings: data.columnSettings ?? null,
+        })),
+      },
+      exportTemplate: {
+        findFirst: jest.fn(),
+      },
     };
 
     // Mock the main prisma methods too (for non-transaction calls)
@@ -560,6 +627,58 @@ describe('ExportService', () => {
         expect(result.format).toBe('csv');
       });
     });
+
+    describe('Column Settings', () => {
+      const columnSettings = {
+        columns: ['name', 'locationPath', 'currentValue', 'metadata.serialNumber'],
+        delimiter: ';' as const,
+        dateFormat: 'eu' as const,
+        currency: { symbol: '€', decimalSeparator: ',' as const },
+      };
+
+      beforeEach(() => {
+        mockTransaction.householdMember.findFirst.mockResolvedValue({ userId, household: { id: 'household-123' } });
+        mockTransaction.householdMember.findMany.mockResolvedValue([{ householdId: 'household-123' }]);
+        mockTransaction.item.count.mockResolvedValue(5);
+      });
+
+      it('should copy a household template\'s settings onto the job', async () => {
+        const templateId = '0d6f1c2e-3b4a-4c5d-8e9f-a0b1c2d3e4f5';
+        mockTransaction.exportTemplate.findFirst.mockResolvedValue({ id: templateId, settings: columnSettings });
+
+        const result = await exportService.createExport(userId, { format: 'csv', templateId }, 'household-123');
+
+        expect(mockTransaction.exportTemplate.findFirst).toHaveBeenCalledWith({
+          where: { id: templateId, householdId: 'household-123' },
+        });
+        expect(mockTransaction.exportTemplate.findFirst).toHaveBeenCalledTimes(1);
+        expect(mockTransaction.exportJob.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ columnSettings }),
+        });
+        expect(result.columnSettings).toEqual(columnSettings);
+      });
+
+      it('should reject templates from other households', async () => {
+        mockTransaction.exportTemplate.findFirst.mockResolvedValue(null);
+
+        await expect(exportService.createExport(
+          userId,
+          { format: 'xlsx', templateId: '0d6f1c2e-3b4a-4c5d-8e9f-a0b1c2d3e4f5' },
+          'household-123'
+        )).rejects.toMatchObject({ code: 'EXPORT_TEMPLATE_NOT_FOUND' });
+        expect(mockTransaction.exportJob.create).not.toHaveBeenCalled();
+      });
+
+      it('should reject column settings without the required columns or for other formats', async () => {
+        await expect(exportService.createExport(userId, {
+          format: 'csv',
+          columnSettings: { ...columnSettings, columns: ['name', 'currentValue'] },
+        })).rejects.toThrow('Columns must include name, locationPath');
+
+        await expect(exportService.createExport(userId, { format: 'json', columnSettings }))
+          .rejects.toThrow('Column settings only apply to CSV and XLSX inventory exports');
+      });
+    });
   });
 
   /**
@@ -608,6 +727,406 @@ describe('ExportService', () => {
   });
 });
 
+/**
+ * Persisted export jobs: claiming, chunked generation, cancellation and expiry
+ */
+describe('Export Job Worker', () => {
+  let exportService: ExportService;
+  const jobId = '5f0c7a52-6d0e-4c1b-9a8e-2f3b4c5d6e7f';
+
+  const buildJobRecord = (overrides: Record<string, unknown> = {}) => ({
+    id: jobId,
+    householdId: 'household-123',
+    userId: 'user-123',
+    format: 'csv',
+    status: 'processing',
+    filename: 'inventory-export.csv',
+    progress: 0,
+    totalItems: 1,
+    processedItems: 0,
+    fileSize: null,
+    storageKey: null,
+    errorMessage: null,
+    filters: null,
+    attempts: 1,
+    lockedBy: 'worker-1',
+    lockedAt: new Date(),
+    startedAt: new Date(),
+    completedAt: null,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const exportItem = {
+    id: 'item-1',
+    name: 'Drill',
+    description: null,
+    quantity: 1,
+    unit: 'piece',
+    purchasePrice: null,
+    currentValue: null,
+    purchaseDate: null,
+    status: 'AVAILABLE',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    location: { id: 'loc-1', name: 'Garage', path: 'Garage', locationType: 'ROOM' },
+    household: { id: 'household-123', name: 'Test Household' },
+    photos: [],
+    tags: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.values(mockPrisma.exportJob).forEach((fn: any) => fn.mockReset());
+    mockPrisma.item.findMany.mockReset();
+    mockPrisma.householdMember.findMany.mockResolvedValue([{ householdId: 'household-123' }]);
+    mockPrisma.customField.findMany.mockResolvedValue([]);
+    jest.spyOn(fsPromises, 'readFile').mockResolvedValue(Buffer.from('Item Name\nDrill\n'));
+    jest.spyOn(fsPromises, 'unlink').mockResolvedValue(undefined);
+    mockStorage.uploadFile.mockResolvedValue({ fileSize: 16 });
+
+    exportService = new ExportService(mockPrisma, undefined, undefined, mockStorage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should generate the file, upload it to the exports bucket and complete the job', async () => {
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord());
+    mockPrisma.item.findMany.mockResolvedValue([exportItem]);
+
+    const status = await exportService.processExportJob(jobId);
+
+    expect(status).toBe('completed');
+    expect(mockPrisma.exportJob.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: jobId, status: 'pending' },
+      data: expect.objectContaining({ status: 'processing', attempts: { increment: 1 } }),
+    });
+    expect(mockStorage.uploadFile).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      `exports/household-123/${jobId}/inventory-export.csv`,
+      'text/csv; charset=utf-8',
+      'exports'
+    );
+    expect(mockPrisma.exportJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: jobId, status: 'processing', lockedBy: expect.any(String) },
+      data: expect.objectContaining({
+        status: 'completed',
+        progress: 100,
+        fileSize: 16,
+        storageKey: `exports/household-123/${jobId}/inventory-export.csv`,
+      }),
+    });
+    expect(fsPromises.unlink).toHaveBeenCalled();
+  });
+
+  it('should write the job\'s chosen columns and formats to CSV exports', async () => {
+    const written: string[] = [];
+    jest.mocked(createWriteStream).mockReturnValueOnce({
+      write: jest.fn((data: string, callback: () => void) => { written.push(data); callback(); }),
+      end: jest.fn((callback: () => void) => callback()),
+      cork: jest.fn(),
+      uncork: jest.fn(),
+    } as any);
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({
+      columnSettings: {
+        columns: ['locationPath', 'name', 'currentValue', 'purchaseDate', 'metadata.serialNumber'],
+        delimiter: ';',
+        dateFormat: 'eu',
+        currency: { symbol: '€', decimalSeparator: ',' },
+      },
+    }));
+    mockPrisma.item.findMany.mockResolvedValue([{
+      ...exportItem,
+      currentValue: 1234.5,
+      purchaseDate: new Date('2025-03-04T00:00:00.000Z'),
+      metadata: { serialNumber: 'SN; 42' },
+    }]);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('completed');
+
+    expect(written.join('')).toBe(
+      'Location Path;Item Name;Current Value;Purchase Date;serialNumber\n' +
+      'Garage;Drill;€1234,50;04.03.2025;"SN; 42"\n'
+    );
+  });
+
+  it('should add a column per custom field to default CSV exports', async () => {
+    const written: string[] = [];
+    jest.mocked(createWriteStream).mockReturnValueOnce({
+      write: jest.fn((data: string, callback: () => void) => { written.push(data); callback(); }),
+      end: jest.fn((callback: () => void) => callback()),
+      cork: jest.fn(),
+      uncork: jest.fn(),
+    } as any);
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord());
+    mockPrisma.customField.findMany.mockResolvedValue([
+      { key: 'warrantyUntil', label: 'Warranty', type: 'WARRANTY_EXPIRY' },
+    ]);
+    mockPrisma.item.findMany.mockResolvedValue([{ ...exportItem, metadata: { warrantyUntil: '2027-05-01' } }]);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('completed');
+
+    expect(mockPrisma.customField.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { householdId: 'household-123' },
+    }));
+    const [header, row] = written.join('').split('\n');
+    expect(header.endsWith(',Updated Date,Warranty')).toBe(true);
+    expect(row.endsWith(',2027-05-01')).toBe(true);
+  });
+
+    it('should write nested items for JSON exports', async () => {
+    const written: string[] = [];
+    jest.mocked(createWriteStream).mockReturnValueOnce({
+      write: jest.fn((data: string, callback: () => void) => { written.push(data); callback(); }),
+      end: jest.fn((callback: () => void) => callback()),
+    } as any);
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({ format: 'json', filename: 'inventory-export.json' }));
+    mockPrisma.item.findMany.mockResolvedValue([{ ...exportItem, tags: [{ tag: { name: 'tools', color: '#FF0000' } }] }]);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('completed');
+
+    const document = JSON.parse(written.join(''));
+    expect(document.items).toEqual([
+      expect.objectContaining({
+        name: 'Drill',
+        location: { id: 'loc-1', name: 'Garage', path: 'Garage', type: 'ROOM' },
+        tags: [{ name: 'tools', color: '#FF0000' }],
+      }),
+    ]);
+    expect(document.items[0]).not.toHaveProperty('tagNames');
+    expect(mockStorage.uploadFile).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      `exports/household-123/${jobId}/inventory-export.json`,
+      'application/json; charset=utf-8',
+      'exports'
+    );
+  });
+
+  it('should summarise XLSX exports per top-level location', async () => {
+    const writeFile = jest.spyOn(fsPromises, 'writeFile').mockResolvedValue(undefined);
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({ format: 'xlsx', totalItems: 2 }));
+    mockPrisma.item.findMany.mockResolvedValue([
+      { ...exportItem, quantity: 2, currentValue: 10 },
+      { ...exportItem, id: 'item-2', location: { ...exportItem.location, name: 'Shelf', path: 'Shed → Shelf' } },
+    ]);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('completed');
+
+    const summary = parseXLSX(writeFile.mock.calls[0][1] as Uint8Array);
+    expect(summary).toEqual([
+      ['Location', 'Items', 'Total Quantity', 'Total Value'],
+      ['Garage', '1', '2', '20'],
+      ['Shed', '1', '1', '0'],
+      ['Total', '2', '3', '20'],
+    ]);
+  });
+
+  it('should render PDF exports, leaving a blank frame for unreadable photos', async () => {
+    const chunks: Buffer[] = [];
+    jest.mocked(createWriteStream).mockReturnValueOnce(new Writable({
+      write(chunk, _encoding, callback) { chunks.push(chunk); callback(); },
+    }) as any);
+    mockStorage.downloadFile.mockRejectedValue(new Error('NoSuchKey'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({ format: 'pdf', filename: 'inventory-export.pdf' }));
+    mockPrisma.item.findMany.mockResolvedValue([{
+      ...exportItem,
+      photos: [{
+        originalUrl: 'https://cdn.example.com/items/item-1/photos/1700-original.webp',
+        thumbnailUrl: 'https://cdn.example.com/items/item-1/photos/1700-thumb.webp',
+        isPrimary: true,
+        filename: 'drill.jpg',
+      }],
+    }]);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('completed');
+
+    expect(Buffer.concat(chunks).subarray(0, 5).toString()).toBe('%PDF-');
+    expect(mockStorage.downloadFile).toHaveBeenCalledWith('items/item-1/photos/1700-thumb.webp');
+    expect(mockStorage.uploadFile).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      `exports/household-123/${jobId}/inventory-export.pdf`,
+      'application/pdf',
+      'exports'
+    );
+  });
+
+  it('should sign insurance reports rebuilt for their asOf date', async () => {
+    const asOf = new Date('2026-01-31T23:59:59.999Z');
+    jest.mocked(createWriteStream).mockReturnValueOnce(new Writable({
+      write(_chunk, _encoding, callback) { callback(); },
+    }) as any);
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({
+      format: 'pdf',
+      report: 'insurance',
+      asOf,
+      filename: 'insurance-report.pdf',
+      totalItems: 2,
+    }));
+    mockPrisma.household.findUniqueOrThrow.mockResolvedValue({ name: 'Test Household' });
+    mockPrisma.location.findMany.mockResolvedValue([
+      { id: 'loc-1', name: 'Garage', parentId: null, path: 'Garage', locationType: 'ROOM', totalValue: 80 },
+    ]);
+    mockPrisma.item.findMany.mockResolvedValue([
+      { ...exportItem, currentValue: 80, metadata: { serialNumber: 'SN-1' } },
+      { ...exportItem, id: 'item-2', name: 'Saw', metadata: {} },
+    ]);
+    mockPrisma.activityLog.findMany.mockResolvedValue([
+      { entityType: 'ITEM', entityId: 'item-2', action: 'CREATED', diff: {} },
+    ]);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('completed');
+
+    expect(mockPrisma.activityLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { householdId: 'household-123', createdAt: { gt: asOf } },
+      orderBy: { createdAt: 'desc' },
+    }));
+    expect(mockStorage.uploadFile).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      `exports/household-123/${jobId}/insurance-report.pdf`,
+      'application/pdf',
+      'exports'
+    );
+    expect(mockPrisma.exportJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: jobId, status: 'processing', lockedBy: expect.any(String) },
+      data: expect.objectContaining({
+        status: 'completed',
+        processedItems: 1,
+        signature: expect.stringMatching(/^[0-9a-f]{64}$/),
+      }),
+    });
+  });
+
+  it('should stop without uploading when the job is cancelled mid-run', async () => {
+    mockPrisma.exportJob.updateMany
+      .mockResolvedValueOnce({ count: 1 }) // claim
+      .mockResolvedValueOnce({ count: 0 }); // progress update after cancellation
+    mockPrisma.exportJob.findUnique
+      .mockResolvedValueOnce(buildJobRecord())
+      .mockResolvedValueOnce({ status: 'cancelled' });
+    mockPrisma.item.findMany.mockResolvedValue([exportItem]);
+
+    const status = await exportService.processExportJob(jobId);
+
+    expect(status).toBe('cancelled');
+    expect(mockStorage.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should put a failed job back to pending until its attempts are used up', async () => {
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({ attempts: 1 }));
+    mockPrisma.item.findMany.mockRejectedValue(new Error('connection lost'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('pending');
+    expect(mockPrisma.exportJob.updateMany).toHaveBeenLastCalledWith({
+      where: expect.objectContaining({ id: jobId, status: 'processing' }),
+      data: expect.objectContaining({ status: 'pending', errorMessage: 'connection lost' }),
+    });
+
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({ attempts: 3 }));
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('failed');
+  });
+
+  it('should skip jobs another worker claimed first', async () => {
+    mockPrisma.exportJob.findFirst
+      .mockResolvedValueOnce(buildJobRecord({ status: 'pending', lockedAt: null }))
+      .mockResolvedValueOnce(null);
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await exportService.runExportWorker();
+
+    expect(result).toEqual({ processed: 0, completed: 0, failed: 0, cancelled: 0 });
+    expect(mockPrisma.item.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should only allow pending or processing jobs to be cancelled', async () => {
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.exportJob.findFirst.mockResolvedValue(buildJobRecord({ status: 'completed' }));
+
+    await expect(exportService.cancelExport(jobId, 'user-123')).rejects.toMatchObject({
+      code: 'EXPORT_NOT_CANCELLABLE',
+    });
+    expect(mockPrisma.exportJob.updateMany).toHaveBeenCalledWith({
+      where: { id: jobId, userId: 'user-123', status: { in: ['pending', 'processing'] } },
+      data: expect.objectContaining({ status: 'cancelled' }),
+    });
+  });
+
+  it('should serve completed files from the exports bucket until they expire', async () => {
+    const storageKey = `exports/household-123/${jobId}/inventory-export.csv`;
+    mockStorage.downloadFile.mockResolvedValue({ buffer: Buffer.from('csv') });
+
+    mockPrisma.exportJob.findFirst.mockResolvedValueOnce(buildJobRecord({ status: 'completed', storageKey }));
+    const { job, buffer } = await exportService.getExportFile(jobId, 'user-123');
+    expect(job.downloadUrl).toBe(`/api/v1/exports/${jobId}/download`);
+    expect(buffer.toString()).toBe('csv');
+    expect(mockStorage.downloadFile).toHaveBeenCalledWith(storageKey, 'exports');
+
+    mockPrisma.exportJob.findFirst.mockResolvedValueOnce(buildJobRecord({ status: 'processing' }));
+    await expect(exportService.getExportFile(jobId, 'user-123')).rejects.toMatchObject({ code: 'EXPORT_NOT_READY' });
+
+    mockPrisma.exportJob.findFirst.mockResolvedValueOnce(
+      buildJobRecord({ status: 'completed', storageKey, expiresAt: new Date(Date.now() - 1000) })
+    );
+    await expect(exportService.getExportFile(jobId, 'user-123')).rejects.toMatchObject({ code: 'EXPORT_EXPIRED' });
+  });
+
+  it('should keep scheduled exports in the backups bucket without an expiry', async () => {
+    const scheduleId = '0d6f1c2e-3b4a-4c5d-8e9f-a0b1c2d3e4f5';
+    const storageKey = `scheduled-exports/household-123/${scheduleId}/${jobId}/inventory-export.csv`;
+    mockPrisma.exportJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.exportJob.findUnique.mockResolvedValue(buildJobRecord({ scheduleId, expiresAt: null }));
+    mockPrisma.item.findMany.mockResolvedValue([exportItem]);
+
+    await expect(exportService.processExportJob(jobId)).resolves.toBe('completed');
+    expect(mockStorage.uploadFile).toHaveBeenCalledWith(expect.any(Buffer), storageKey, 'text/csv; charset=utf-8', 'backups');
+
+    mockStorage.downloadFile.mockResolvedValue({ buffer: Buffer.from('csv') });
+    mockPrisma.exportJob.findFirst.mockResolvedValueOnce(
+      buildJobRecord({ status: 'completed', scheduleId, storageKey, expiresAt: null })
+    );
+    const { job } = await exportService.getExportFile(jobId, 'user-123');
+    expect(job).toMatchObject({ scheduleId, downloadUrl: `/api/v1/exports/${jobId}/download` });
+    expect(mockStorage.downloadFile).toHaveBeenCalledWith(storageKey, 'backups');
+  });
+
+  it('should delete expired files and fail abandoned jobs', async () => {
+    mockPrisma.exportJob.findMany.mockResolvedValue([
+      { id: 'job-a', storageKey: 'exports/h/job-a/a.csv' },
+      { id: 'job-b', storageKey: 'exports/h/job-b/b.csv' },
+    ]);
+    mockPrisma.exportJob.updateMany
+      .mockResolvedValueOnce({ count: 2 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    const result = await exportService.cleanupExpiredExports();
+
+    expect(result).toEqual({ filesRemoved: 2, jobsFailed: 1 });
+    expect(mockStorage.deleteFiles).toHaveBeenCalledWith(['exports/h/job-a/a.csv', 'exports/h/job-b/b.csv'], 'exports');
+    expect(mockPrisma.exportJob.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: { in: ['job-a', 'job-b'] } },
+      data: { storageKey: null },
+    });
+    expect(mockPrisma.exportJob.updateMany).toHaveBeenNthCalledWith(2, {
+      where: expect.objectContaining({ status: 'processing', attempts: { gte: 3 } }),
+      data: expect.objectContaining({ status: 'failed' }),
+    });
+  });
+});
+
 /**
  * Integration helper functions for testing with real data scenarios
  */
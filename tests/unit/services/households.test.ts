@@ -0,0 +1,247 @@
+/**
+ * @jest-environment node
+ */
+
+import { HouseholdService, HOUSEHOLD_INVITATION_TOKEN_TYPE } from '@/lib/services/households';
+import { hashToken } from '@/lib/utils/password-hash';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+const mockTx = {
+  householdMember: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    count: jest.fn(),
+  },
+  verificationToken: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  user: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+};
+
+const mockPrisma = {
+  ...mockTx,
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+};
+
+describe('HouseholdService', () => {
+  let householdService: HouseholdService;
+  const userId = 'user-owner';
+  const householdId = 'household-1';
+
+  beforeEach(() => {
+    householdService = new HouseholdService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('inviteMember', () => {
+    it('should store only the token hash and return the plain token', async () => {
+      mockTx.householdMember.findUnique.mockResolvedValue({ id: 'm-1', role: 'owner' });
+      mockTx.householdMember.findFirst.mockResolvedValue(null);
+      mockTx.verificationToken.create.mockImplementation(async ({ data }) => ({
+        id: 'inv-1',
+        identifier: data.identifier,
+        role: data.role,
+        expires: data.expires,
+        createdAt: new Date(),
+        inviter: null,
+      }));
+
+      const { invitation, token } = await householdService.inviteMember(userId, householdId, {
+        email: 'sam@example.com',
+        role: 'member',
+        expiresInDays: 7,
+      });
+
+      const createArgs = mockTx.verificationToken.create.mock.calls[0][0];
+      expect(createArgs.data).toMatchObject({
+        identifier: 'sam@example.com',
+        type: HOUSEHOLD_INVITATION_TOKEN_TYPE,
+        householdId,
+        role: 'member',
+        invitedBy: userId,
+      });
+      expect(createArgs.data.token).toBe(await hashToken(token));
+      expect(invitation).toMatchObject({ id: 'inv-1', email: 'sam@example.com', role: 'member' });
+      expect(invitation).not.toHaveProperty('token');
+    });
+
+    it('should reject invitations from plain members', async () => {
+      mockTx.householdMember.findUnique.mockResolvedValue({ id: 'm-2', role: 'member' });
+
+      await expect(
+        householdService.inviteMember(userId, householdId, {
+          email: 'sam@example.com',
+          role: 'member',
+          expiresInDays: 7,
+        })
+      ).rejects.toThrow('Insufficient permissions');
+
+      expect(mockTx.verificationToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should only let owners invite owners', async () => {
+      mockTx.householdMember.findUnique.mockResolvedValue({ id: 'm-3', role: 'admin' });
+
+      await expect(
+        householdService.inviteMember(userId, householdId, {
+          email: 'sam@example.com',
+          role: 'owner',
+          expiresInDays: 7,
+        })
+      ).rejects.toThrow('only owners can invite owners');
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    const invitation = {
+      id: 'inv-1',
+      identifier: 'sam@example.com',
+      type: HOUSEHOLD_INVITATION_TOKEN_TYPE,
+      householdId,
+      role: 'admin',
+      expires: new Date(Date.now() + 60_000),
+      household: { id: householdId, name: 'Home' },
+      inviter: null,
+    };
+
+    it('should join the household with the invited role and spend the token', async () => {
+      mockTx.verificationToken.findUnique.mockResolvedValue(invitation);
+      mockTx.user.findUnique.mockResolvedValue({ email: 'Sam@Example.com', defaultHouseholdId: null });
+      mockTx.householdMember.findUnique.mockResolvedValue(null);
+      mockTx.householdMember.create.mockResolvedValue({ id: 'm-new' });
+
+      await householdService.acceptInvitation('plain-token', 'user-sam', { makeDefault: false });
+
+      expect(mockTx.verificationToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { token: await hashToken('plain-token') } })
+      );
+      expect(mockTx.verificationToken.delete).toHaveBeenCalledWith({ where: { id: 'inv-1' } });
+      expect(mockTx.householdMember.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { userId: 'user-sam', householdId, role: 'admin' } })
+      );
+      // No default household yet, so the new one becomes it
+      expect(mockTx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-sam' },
+        data: { defaultHouseholdId: householdId },
+      });
+    });
+
+    it('should reject a user signed in with a different email', async () => {
+      mockTx.verificationToken.findUnique.mockResolvedValue(invitation);
+      mockTx.user.findUnique.mockResolvedValue({ email: 'someone@example.com', defaultHouseholdId: 'h-2' });
+
+      await expect(
+        householdService.acceptInvitation('plain-token', 'user-other')
+      ).rejects.toThrow('different email address');
+
+      expect(mockTx.householdMember.create).not.toHaveBeenCalled();
+    });
+
+    it('should treat expired invitations as not found', async () => {
+      mockTx.verificationToken.findUnique.mockResolvedValue({
+        ...invitation,
+        expires: new Date(Date.now() - 60_000),
+      });
+
+      await expect(
+        householdService.acceptInvitation('plain-token', 'user-sam')
+      ).rejects.toThrow('Invitation not found or expired');
+    });
+  });
+
+  describe('updateMember', () => {
+    it('should not demote the last owner', async () => {
+      mockTx.householdMember.findUnique.mockResolvedValue({ id: 'm-1', userId, role: 'owner' });
+      mockTx.householdMember.findFirst.mockResolvedValue({ id: 'm-1', userId, role: 'owner' });
+      mockTx.householdMember.count.mockResolvedValue(0);
+
+      await expect(
+        householdService.updateMember(userId, householdId, 'm-1', { role: 'admin' })
+      ).rejects.toThrow('at least one owner');
+
+      expect(mockTx.householdMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should merge permission overrides and clear nulls', async () => {
+      mockTx.householdMember.findUnique.mockResolvedValue({ id: 'm-1', userId, role: 'owner' });
+      mockTx.householdMember.findFirst.mockResolvedValue({
+        id: 'm-2',
+        userId: 'user-sam',
+        role: 'member',
+        permissions: { 'exports:create': false, 'tags:manage': false },
+      });
+      mockTx.householdMember.update.mockResolvedValue({ id: 'm-2' });
+
+      await householdService.updateMember(userId, householdId, 'm-2', {
+        permissions: { 'items:delete': true, 'tags:manage': null },
+      });
+
+      expect(mockTx.householdMember.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'm-2' },
+        data: {
+          role: 'member',
+          permissions: { 'exports:create': false, 'items:delete': true },
+        },
+      }));
+    });
+
+    it('should let members granted members:manage change roles', async () => {
+      mockTx.householdMember.findUnique.mockResolvedValue({
+        id: 'm-3',
+        userId,
+        role: 'member',
+        permissions: { 'members:manage': true },
+      });
+      mockTx.householdMember.findFirst.mockResolvedValue({ id: 'm-2', userId: 'user-sam', role: 'member' });
+      mockTx.householdMember.update.mockResolvedValue({ id: 'm-2' });
+
+      await householdService.updateMember(userId, householdId, 'm-2', { role: 'viewer' });
+
+      expect(mockTx.householdMember.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { role: 'viewer', permissions: undefined },
+      }));
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should delete the membership and move the default household', async () => {
+      mockTx.householdMember.findUnique.mockResolvedValue({ id: 'm-1', userId, role: 'owner' });
+      mockTx.householdMember.findFirst
+        .mockResolvedValueOnce({ id: 'm-2', userId: 'user-sam', role: 'member' })
+        .mockResolvedValueOnce({ householdId: 'household-2' });
+      mockTx.user.findUnique.mockResolvedValue({ defaultHouseholdId: householdId });
+
+      await householdService.removeMember(userId, householdId, 'm-2');
+
+      expect(mockTx.householdMember.delete).toHaveBeenCalledWith({ where: { id: 'm-2' } });
+      expect(mockTx.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-sam' },
+        data: { defaultHouseholdId: 'household-2' },
+      });
+    });
+
+    it('should stop admins removing owners', async () => {
+      mockTx.householdMember.findFirst.mockResolvedValue({ id: 'm-1', userId: 'user-owner-2', role: 'owner' });
+      mockTx.householdMember.findUnique.mockResolvedValue({ id: 'm-3', userId, role: 'admin' });
+
+      await expect(
+        householdService.removeMember(userId, householdId, 'm-1')
+      ).rejects.toThrow('only owners can remove owners');
+
+      expect(mockTx.householdMember.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @jest-environment node
+ */
+
+import { ImportService } from '@/lib/services/imports';
+import { activityLogService } from '@/lib/services/activity';
+import { validateImportOptions } from '@/lib/validation/imports';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+// Loaded through the exports service, which re-encodes PDF thumbnails
+jest.mock('sharp', () => jest.fn());
+
+jest.mock('@/lib/services/activity', () => ({
+  ...jest.requireActual('@/lib/services/activity'),
+  activityLogService: { recordActivity: jest.fn() },
+}));
+
+const mockTx = {
+  location: {
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  tag: {
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  item: {
+    create: jest.fn(),
+    update: jest.fn(),
+    findFirst: jest.fn(),
+    aggregate: jest.fn(),
+  },
+  itemTag: {
+    createMany: jest.fn(),
+    count: jest.fn(),
+  },
+};
+
+const mockPrisma = {
+  location: { findMany: jest.fn() },
+  tag: { findMany: jest.fn() },
+  item: { findMany: jest.fn() },
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+};
+
+const csvFile = (lines: string[]) => ({
+  filename: 'items.csv',
+  data: new TextEncoder().encode(lines.join('\n')),
+});
+
+describe('ImportService', () => {
+  let importService: ImportService;
+  const userId = 'user-1';
+  const householdId = 'household-1';
+  const garage = { id: 'loc-garage', path: 'Garage', level: 0, locationType: 'ROOM' };
+
+  beforeEach(() => {
+    importService = new ImportService(mockPrisma as any);
+    jest.clearAllMocks();
+
+    mockPrisma.location.findMany.mockResolvedValue([garage]);
+    mockPrisma.tag.findMany.mockResolvedValue([{ id: 'tag-tools', name: 'Tools' }]);
+    mockPrisma.item.findMany.mockResolvedValue([{ id: 'item-hammer', name: 'Hammer', locationId: 'loc-garage' }]);
+    mockTx.item.aggregate.mockResolvedValue({ _count: { id: 1 }, _sum: { currentValue: null } });
+  });
+
+  describe('dry run', () => {
+    it('should report planned creates, updates, new locations and row errors without writing', async () => {
+      const report = await importService.importItems(userId, householdId, csvFile([
+        'Item Name,Quantity,Purchase Price,Location Path,Tags,Household',
+        'Drill,1,$129.99,Garage → Shelf A,"tools, power",Home',
+        'Hammer,2,,Garage,,Home',
+        ',1,,Garage,,Home',
+        'Saw,lots,,Garage,,Home',
+      ]), validateImportOptions({}));
+
+      expect(report).toMatchObject({
+        dryRun: true,
+        committed: false,
+        format: 'csv',
+        totalRows: 4,
+        summary: { create: 1, update: 1, skip: 0, error: 2 },
+        locationsToCreate: ['Garage → Shelf A'],
+        tagsToCreate: [],
+      });
+      expect(report.rows[0]).toMatchObject({ row: 2, action: 'create', warnings: ['Unknown tag "power" was skipped'] });
+      expect(report.rows[1]).toMatchObject({ row: 3, action: 'update', itemId: 'item-hammer' });
+      expect(report.rows[2].errors).toContain('Item name is required');
+      expect(report.rows[3].errors).toContain('Quantity "lots" is not a number');
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should apply a custom column mapping', async () => {
+      const report = await importService.importItems(userId, householdId, csvFile([
+        'What,Where,How many',
+        'Wrench,garage,3',
+      ]), validateImportOptions({
+        mapping: { What: 'name', Where: 'locationPath', 'How many': 'quantity' },
+      }));
+
+      expect(report.summary.create).toBe(1);
+      expect(report.mapping).toEqual({ What: 'name', Where: 'locationPath', 'How many': 'quantity' });
+    });
+
+    it('should report missing locations as errors when they cannot be created', async () => {
+      const report = await importService.importItems(userId, householdId, csvFile([
+        'Item Name,Location Path',
+        'Drill,Shed',
+      ]), validateImportOptions({ createMissingLocations: false }));
+
+      expect(report.rows[0].errors).toEqual(['Location "Shed" does not exist']);
+      expect(report.locationsToCreate).toEqual([]);
+    });
+
+    it('should reject files without a name or location column', async () => {
+      await expect(
+        importService.importItems(userId, householdId, csvFile(['Title,Room', 'Drill,Garage']), validateImportOptions({}))
+      ).rejects.toMatchObject({ code: 'MISSING_COLUMNS' });
+    });
+  });
+
+  describe('commit', () => {
+    it('should refuse to commit while rows have errors', async () => {
+      await expect(
+        importService.importItems(userId, householdId, csvFile([
+          'Item Name,Location Path',
+          ',Garage',
+        ]), validateImportOptions({ dryRun: 'false' }))
+      ).rejects.toMatchObject({ code: 'ROWS_INVALID', context: { report: expect.any(Object) } });
+
+      expect(mockTx.item.create).not.toHaveBeenCalled();
+    });
+
+    it('should create locations and items, tag them and log activity', async () => {
+      mockTx.location.create.mockResolvedValue({ id: 'loc-shelf', name: 'Shelf A', path: 'Garage → Shelf A', level: 1, locationType: 'FURNITURE' });
+      mockTx.item.create.mockResolvedValue({ id: 'item-drill', name: 'Drill' });
+
+      const report = await importService.importItems(userId, householdId, csvFile([
+        'Item Name,Location Path,Tags',
+        'Drill,Garage > Shelf A,Tools',
+      ]), validateImportOptions({ dryRun: false }));
+
+      expect(report.committed).toBe(true);
+      expect(mockTx.location.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          name: 'Shelf A',
+          parentId: 'loc-garage',
+          path: 'Garage → Shelf A',
+          level: 1,
+          locationType: 'FURNITURE',
+        }),
+      });
+      expect(mockTx.item.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'Drill', quantity: 1, locationId: 'loc-shelf', householdId, createdBy: userId }),
+      });
+      expect(mockTx.itemTag.createMany).toHaveBeenCalledWith({
+        data: [{ itemId: 'item-drill', tagId: 'tag-tools' }],
+        skipDuplicates: true,
+      });
+      expect(activityLogService.recordActivity).toHaveBeenCalledTimes(2);
+      expect(report.rows[0].itemId).toBe('item-drill');
+    });
+
+    it('should only overwrite the fields a row fills in when updating', async () => {
+      mockTx.item.findFirst.mockResolvedValue({ id: 'item-hammer', name: 'Hammer', quantity: 1, unit: 'piece' });
+      mockTx.item.update.mockResolvedValue({ id: 'item-hammer', name: 'Hammer', quantity: 4 });
+
+      await importService.importItems(userId, householdId, csvFile([
+        'Item Name,Quantity,Unit,Location Path',
+        'hammer,4,,Garage',
+      ]), validateImportOptions({ dryRun: false }));
+
+      expect(mockTx.item.update).toHaveBeenCalledWith({
+        where: { id: 'item-hammer' },
+        data: { name: 'hammer', quantity: 4 },
+      });
+    });
+  });
+});
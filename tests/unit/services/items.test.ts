@@ -433,4 +433,60 @@ describe('ItemsService', () => {
       );
     });
   });
-});
\ No newline at end of file
+});
+
+describe('ItemsService.getOverdueLoans', () => {
+  const householdId = 'household-1';
+  const asOf = new Date('2026-03-10T12:00:00.000Z');
+  const location = { name: 'Garage', path: '/Garage' };
+
+  const mockClient = {
+    itemLoan: { findMany: jest.fn() },
+    item: { findMany: jest.fn() },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should include borrowed items past their due date that have no open loan', async () => {
+    mockClient.itemLoan.findMany.mockResolvedValue([{
+      id: 'loan-1',
+      itemId: 'item-1',
+      borrowerName: 'Sam',
+      dueAt: new Date('2026-03-05T00:00:00.000Z'),
+      item: { id: 'item-1', name: 'Drill', location },
+    }]);
+    mockClient.item.findMany.mockResolvedValue([{
+      id: 'item-2',
+      name: 'Ladder',
+      location,
+      borrowedBy: 'user-2',
+      borrowedAt: new Date('2026-02-01T00:00:00.000Z'),
+      borrowedUntil: new Date('2026-03-01T00:00:00.000Z'),
+      updatedAt: new Date('2026-02-01T00:00:00.000Z'),
+      borrower: { name: 'Alex', email: 'alex@example.com' },
+    }]);
+
+    const service = new ItemsService(mockClient as any);
+    const loans = await service.getOverdueLoans(householdId, asOf);
+
+    expect(mockClient.item.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        householdId,
+        status: ItemStatus.BORROWED,
+        borrowedUntil: { lt: asOf },
+        loans: { none: { returnedAt: null } },
+      },
+    }));
+    expect(loans.map(loan => loan.itemId)).toEqual(['item-2', 'item-1']);
+    expect(loans[0]).toMatchObject({
+      borrowerUserId: 'user-2',
+      borrowerName: 'Alex',
+      lentAt: new Date('2026-02-01T00:00:00.000Z'),
+      dueAt: new Date('2026-03-01T00:00:00.000Z'),
+      returnedAt: null,
+      item: { id: 'item-2', name: 'Ladder', location },
+    });
+  });
+});
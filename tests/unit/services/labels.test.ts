@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+import { LabelService, formatShortCode } from '@/lib/services/labels';
+import { nfcTagService } from '@/lib/services/nfc-tags';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+jest.mock('@/lib/services/nfc-tags', () => ({
+  nfcTagService: { ensureLabelCodes: jest.fn() },
+}));
+
+const mockPrisma = {
+  item: { findMany: jest.fn() },
+  location: { findFirst: jest.fn(), findMany: jest.fn() },
+};
+
+describe('LabelService', () => {
+  let labelService: LabelService;
+  const userId = 'user-1';
+  const householdId = 'household-1';
+  const locationId = '550e8400-e29b-41d4-a716-446655440000';
+  const origin = 'https://inventory.example.com';
+
+  beforeEach(() => {
+    labelService = new LabelService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('formatShortCode', () => {
+    it('should group codes into blocks of four', () => {
+      expect(formatShortCode('A1B2C3D4')).toBe('A1B2-C3D4');
+      expect(formatShortCode('04A2B3C4D5E6F7')).toBe('04A2-B3C4-D5E6-F7');
+    });
+  });
+
+  describe('generateLabelSheet', () => {
+    it('should label a location subtree with locations before their items', async () => {
+      mockPrisma.location.findFirst.mockResolvedValue({ id: locationId, path: 'Garage' });
+      mockPrisma.location.findMany.mockResolvedValue([
+        { id: locationId, name: 'Garage', path: 'Garage' },
+        { id: 'loc-2', name: 'Shelf', path: 'Garage → Shelf' },
+      ]);
+      mockPrisma.item.findMany.mockResolvedValue([
+        { id: 'item-1', name: 'Drill', locationId: 'loc-2' },
+      ]);
+      (nfcTagService.ensureLabelCodes as jest.Mock).mockResolvedValue(new Map([
+        [locationId, 'AAAA0001'],
+        ['loc-2', 'AAAA0002'],
+        ['item-1', 'AAAA0003'],
+      ]));
+
+      const result = await labelService.generateLabelSheet(userId, householdId, { locationId } as any, origin);
+
+      expect(nfcTagService.ensureLabelCodes).toHaveBeenCalledWith(userId, householdId, [
+        { locationId },
+        { locationId: 'loc-2' },
+        { itemId: 'item-1' },
+      ]);
+      expect(mockPrisma.location.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            householdId,
+            OR: [{ id: locationId }, { path: { startsWith: 'Garage → ' } }],
+          },
+        })
+      );
+      expect(result.labelCount).toBe(3);
+      expect(result.pageCount).toBe(1);
+      expect(result.buffer.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should count skipped labels towards the page total', async () => {
+      mockPrisma.item.findMany.mockResolvedValue([
+        { id: 'item-1', name: 'Drill', location: { path: 'Garage' } },
+      ]);
+      (nfcTagService.ensureLabelCodes as jest.Mock).mockResolvedValue(new Map([['item-1', 'AAAA0003']]));
+
+      const result = await labelService.generateLabelSheet(
+        userId,
+        householdId,
+        { itemIds: [locationId], layout: 'avery-5163', skipLabels: 10 } as any,
+        origin
+      );
+
+      expect(result.labelCount).toBe(1);
+      expect(result.pageCount).toBe(2);
+    });
+
+    it('should reject when nothing matches', async () => {
+      mockPrisma.item.findMany.mockResolvedValue([]);
+
+      await expect(
+        labelService.generateLabelSheet(userId, householdId, { itemIds: [locationId] } as any, origin)
+      ).rejects.toMatchObject({ code: 'LABEL_TARGETS_NOT_FOUND' });
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+
+import { NfcTagService } from '@/lib/services/nfc-tags';
+import { activityLogService } from '@/lib/services/activity';
+import { ActivityAction, ActivityEntityType, NfcTagStatus } from '@prisma/client';
+
+jest.mock('@/lib/services/activity', () => ({
+  ...jest.requireActual('@/lib/services/activity'),
+  activityLogService: { recordActivity: jest.fn() },
+}));
+
+const mockPrisma = {
+  $transaction: jest.fn(),
+  nfcTag: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+  },
+};
+
+describe('NfcTagService', () => {
+  let nfcTagService: NfcTagService;
+  const userId = 'user-1';
+  const householdId = 'household-1';
+  const itemId = '550e8400-e29b-41d4-a716-446655440000';
+
+  beforeEach(() => {
+    nfcTagService = new NfcTagService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('registerTag', () => {
+    it('should create a tag bound to an item in the household', async () => {
+      const create = jest.fn().mockResolvedValue({ id: 'tag-1', uid: '04A2B3C4', itemId, locationId: null });
+      mockPrisma.$transaction.mockImplementation((callback: any) =>
+        callback({
+          nfcTag: { findUnique: jest.fn().mockResolvedValue(null), create },
+          item: { findFirst: jest.fn().mockResolvedValue({ id: itemId }) },
+        })
+      );
+
+      const tag = await nfcTagService.registerTag(userId, householdId, { uid: '04A2B3C4', itemId });
+
+      expect(tag.id).toBe('tag-1');
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ householdId, uid: '04A2B3C4', itemId, registeredBy: userId }),
+        })
+      );
+      expect(activityLogService.recordActivity).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        householdId,
+        userId,
+        entityType: ActivityEntityType.NFC_TAG,
+        entityId: 'tag-1',
+        action: ActivityAction.CREATED,
+        diff: {
+          uid: { before: null, after: '04A2B3C4' },
+          itemId: { before: null, after: itemId },
+        },
+      }));
+    });
+
+    it('should reject a UID that is already active in the household', async () => {
+      mockPrisma.$transaction.mockImplementation((callback: any) =>
+        callback({
+          nfcTag: {
+            findUnique: jest.fn().mockResolvedValue({ id: 'tag-1', status: NfcTagStatus.ACTIVE }),
+          },
+        })
+      );
+
+      await expect(
+        nfcTagService.registerTag(userId, householdId, { uid: '04A2B3C4' })
+      ).rejects.toThrow('Tag is already registered in this household');
+    });
+
+    it('should reject binding to an item from another household', async () => {
+      mockPrisma.$transaction.mockImplementation((callback: any) =>
+        callback({
+          nfcTag: { findUnique: jest.fn().mockResolvedValue(null) },
+          item: { findFirst: jest.fn().mockResolvedValue(null) },
+        })
+      );
+
+      await expect(
+        nfcTagService.registerTag(userId, householdId, { uid: '04A2B3C4', itemId })
+      ).rejects.toThrow('Item not found or access denied');
+    });
+  });
+
+  describe('bindTag', () => {
+    it('should record the binding moving from a location to an item', async () => {
+      const existingTag = { id: 'tag-1', uid: '04A2B3C4', label: null, itemId: null, locationId: 'location-1', status: NfcTagStatus.ACTIVE };
+      const tx = {
+        nfcTag: {
+          findFirst: jest.fn().mockResolvedValue(existingTag),
+          update: jest.fn().mockResolvedValue({ ...existingTag, itemId, locationId: null }),
+        },
+        item: { findFirst: jest.fn().mockResolvedValue({ id: itemId }) },
+      };
+      mockPrisma.$transaction.mockImplementation((callback: any) => callback(tx));
+
+      await nfcTagService.bindTag(userId, 'tag-1', householdId, { itemId });
+
+      expect(activityLogService.recordActivity).toHaveBeenCalledWith(tx, expect.objectContaining({
+        entityType: ActivityEntityType.NFC_TAG,
+        action: ActivityAction.UPDATED,
+        diff: {
+          itemId: { before: null, after: itemId },
+          locationId: { before: 'location-1', after: null },
+        },
+      }));
+    });
+
+    it('should refuse to bind a retired tag', async () => {
+      mockPrisma.$transaction.mockImplementation((callback: any) =>
+        callback({
+          nfcTag: {
+            findFirst: jest.fn().mockResolvedValue({ id: 'tag-1', status: NfcTagStatus.RETIRED }),
+          },
+        })
+      );
+
+      await expect(
+        nfcTagService.bindTag(userId, 'tag-1', householdId, { itemId })
+      ).rejects.toThrow('Cannot bind a retired tag');
+    });
+  });
+
+  describe('resolveTag', () => {
+    it('should normalize the UID and only match active tags in the household', async () => {
+      mockPrisma.nfcTag.findFirst.mockResolvedValue(null);
+
+      await nfcTagService.resolveTag(householdId, '04:a2:b3:c4');
+
+      expect(mockPrisma.nfcTag.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { householdId, uid: '04A2B3C4', status: NfcTagStatus.ACTIVE },
+        })
+      );
+    });
+
+    it('should resolve malformed UIDs to null without querying', async () => {
+      const result = await nfcTagService.resolveTag(householdId, 'not-a-tag');
+
+      expect(result).toBeNull();
+      expect(mockPrisma.nfcTag.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordScan', () => {
+    it('should stamp the tag and touch the bound item location', async () => {
+      const tagUpdate = jest.fn().mockResolvedValue({ id: 'tag-1' });
+      const locationUpdate = jest.fn();
+      mockPrisma.nfcTag.findFirst.mockResolvedValue({
+        id: 'tag-1',
+        itemId,
+        locationId: null,
+        item: { id: itemId, name: 'Drill', locationId: 'location-1' },
+      });
+      mockPrisma.$transaction.mockImplementation((callback: any) =>
+        callback({
+          nfcTag: { update: tagUpdate },
+          location: { update: locationUpdate },
+        })
+      );
+
+      await nfcTagService.recordScan(householdId, '04A2B3C4');
+
+      expect(tagUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { lastScannedAt: expect.any(Date) } })
+      );
+      expect(locationUpdate).toHaveBeenCalledWith({
+        where: { id: 'location-1' },
+        data: { lastAccessed: expect.any(Date) },
+      });
+    });
+
+    it('should return null for unknown tags without writing', async () => {
+      mockPrisma.nfcTag.findFirst.mockResolvedValue(null);
+
+      const result = await nfcTagService.recordScan(householdId, '04A2B3C4');
+
+      expect(result).toBeNull();
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
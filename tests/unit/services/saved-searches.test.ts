@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+import { SavedSearchService } from '@/lib/services/saved-searches';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+const mockTx = {
+  savedSearch: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+};
+
+const mockPrisma = {
+  savedSearch: {
+    ...mockTx.savedSearch,
+    findMany: jest.fn(),
+  },
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+};
+
+const mockSearch = {
+  findItems: jest.fn(),
+  findItemIds: jest.fn(),
+};
+
+describe('SavedSearchService', () => {
+  let savedSearchService: SavedSearchService;
+  const householdId = 'household-1';
+  const savedSearch = {
+    id: 'saved-1',
+    householdId,
+    userId: 'user-1',
+    name: 'Valuables without photos',
+    query: '',
+    filters: { valueRange: { min: 500 }, hasPhotos: false },
+    sortBy: 'value',
+    sortOrder: 'desc',
+    visibility: 'HOUSEHOLD',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  beforeEach(() => {
+    savedSearchService = new SavedSearchService(mockPrisma as any, mockSearch as any);
+    jest.clearAllMocks();
+  });
+
+  describe('listSavedSearches', () => {
+    it('should list personal searches of the member and every shared one', async () => {
+      mockPrisma.savedSearch.findMany.mockResolvedValue([savedSearch]);
+
+      const searches = await savedSearchService.listSavedSearches(householdId, 'user-2');
+
+      expect(mockPrisma.savedSearch.findMany).toHaveBeenCalledWith({
+        where: { householdId, OR: [{ visibility: 'HOUSEHOLD' }, { userId: 'user-2' }] },
+        orderBy: { name: 'asc' },
+      });
+      expect(searches[0]).toMatchObject({ id: 'saved-1', isOwner: false, sortBy: 'value' });
+    });
+  });
+
+  describe('createSavedSearch', () => {
+    it('should check shared names against the whole household', async () => {
+      mockTx.savedSearch.findFirst.mockResolvedValue({ id: 'saved-2' });
+
+      await expect(savedSearchService.createSavedSearch(householdId, 'user-1', {
+        name: 'Camping gear',
+        query: 'camping',
+        filters: {},
+        visibility: 'HOUSEHOLD',
+      })).rejects.toThrow('A saved search named "Camping gear" already exists');
+      expect(mockTx.savedSearch.findFirst).toHaveBeenCalledWith({
+        where: { householdId, name: { equals: 'Camping gear', mode: 'insensitive' } },
+        select: { id: true },
+      });
+      expect(mockTx.savedSearch.create).not.toHaveBeenCalled();
+    });
+
+    it('should store the query and filters, not items', async () => {
+      mockTx.savedSearch.findFirst.mockResolvedValue(null);
+      mockTx.savedSearch.create.mockResolvedValue({ ...savedSearch, visibility: 'PERSONAL' });
+
+      await savedSearchService.createSavedSearch(householdId, 'user-1', {
+        name: 'Valuables without photos',
+        query: '',
+        filters: { valueRange: { min: 500 }, hasPhotos: false },
+        visibility: 'PERSONAL',
+      });
+
+      expect(mockTx.savedSearch.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ OR: [{ visibility: 'HOUSEHOLD' }, { userId: 'user-1' }] }),
+      }));
+      expect(mockTx.savedSearch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          householdId,
+          userId: 'user-1',
+          query: '',
+          filters: { valueRange: { min: 500 }, hasPhotos: false },
+          visibility: 'PERSONAL',
+        }),
+      });
+    });
+  });
+
+  describe('updateSavedSearch', () => {
+    it('should only let the member who saved a search change it', async () => {
+      mockTx.savedSearch.findFirst.mockResolvedValue(savedSearch);
+
+      await expect(savedSearchService.updateSavedSearch('saved-1', householdId, 'user-2', { name: 'Mine now' }))
+        .rejects.toThrow('Only the member who saved this search can change it');
+      expect(mockTx.savedSearch.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject changes that leave neither text nor filters', async () => {
+      mockTx.savedSearch.findFirst.mockResolvedValue(savedSearch);
+
+      await expect(savedSearchService.updateSavedSearch('saved-1', householdId, 'user-1', { filters: {} }))
+        .rejects.toThrow('A saved search needs search text or at least one filter');
+      expect(mockTx.savedSearch.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSavedSearchItems', () => {
+    it('should run the saved criteria again for the requested page', async () => {
+      mockPrisma.savedSearch.findFirst.mockResolvedValue(savedSearch);
+      mockSearch.findItems.mockResolvedValue({ items: [], totalCount: 0, hasMore: false });
+
+      await savedSearchService.getSavedSearchItems('saved-1', householdId, 'user-2', { limit: 10, offset: 20 });
+
+      expect(mockSearch.findItems).toHaveBeenCalledWith(householdId, {
+        text: '',
+        filters: { valueRange: { min: 500 }, hasPhotos: false },
+        sortBy: 'value',
+        sortOrder: 'desc',
+        limit: 10,
+        offset: 20,
+        includeLocation: true,
+        includePhotos: true,
+        includeTags: true,
+      });
+    });
+
+    it('should not run personal searches of other members', async () => {
+      mockPrisma.savedSearch.findFirst.mockResolvedValue(null);
+
+      await expect(savedSearchService.getSavedSearchItems('saved-1', householdId, 'user-2'))
+        .rejects.toThrow('Saved search not found or access denied');
+      expect(mockPrisma.savedSearch.findFirst).toHaveBeenCalledWith({
+        where: { id: 'saved-1', householdId, OR: [{ visibility: 'HOUSEHOLD' }, { userId: 'user-2' }] },
+      });
+      expect(mockSearch.findItems).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @jest-environment node
+ */
+
+import { SearchService } from '@/lib/services/search';
+import { decodeSearchCursor, encodeSearchCursor } from '@/lib/utils/search-cursor';
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+jest.mock('@/lib/db/extensions', () => ({
+  checkExtensionAvailability: jest.fn(),
+  getSearchConfiguration: jest.fn(),
+}));
+
+const { checkExtensionAvailability, getSearchConfiguration } = require('@/lib/db/extensions');
+
+const mockPrisma = {
+  $queryRaw: jest.fn(),
+  user: { findUnique: jest.fn() },
+  item: { findMany: jest.fn(), count: jest.fn(), groupBy: jest.fn() },
+  itemTag: { findMany: jest.fn(), groupBy: jest.fn() },
+  tag: { findMany: jest.fn() },
+  location: { findMany: jest.fn() },
+  category: { findMany: jest.fn() },
+  customField: { findMany: jest.fn() },
+  searchAnalytics: { create: jest.fn() },
+};
+
+describe('SearchService filters and facets', () => {
+  let searchService: SearchService;
+  const householdId = 'household-1';
+
+  const locations = [
+    { id: 'garage', name: 'Garage', parentId: null },
+    { id: 'shelf', name: 'Metal Shelf', parentId: 'garage' },
+    { id: 'attic', name: 'Attic', parentId: null },
+  ];
+
+  const expectedFacets = {
+    statuses: [
+      { value: 'AVAILABLE', label: 'Available', count: 2 },
+      { value: 'BORROWED', label: 'Borrowed', count: 1 },
+    ],
+    tags: [
+      { value: 'tag-1', label: 'Tools', color: '#3B82F6', count: 2 },
+      { value: 'tag-2', label: 'Camping', color: '#16A34A', count: 1 },
+    ],
+    locations: [
+      { value: 'garage', label: 'Garage', count: 2 },
+      { value: 'attic', label: 'Attic', count: 1 },
+    ],
+  };
+
+  const sqlOf = (call: any[]) => call.map((part: any) => (Array.isArray(part) ? part.join(' ') : part?.sql ?? '')).join(' ');
+
+  const useSearchConfiguration = (useFullTextSearch: boolean) => {
+    checkExtensionAvailability.mockResolvedValue({ pg_trgm: useFullTextSearch, fullTextSearchCapable: useFullTextSearch });
+    getSearchConfiguration.mockResolvedValue({ useFullTextSearch, useTrigramSearch: false, fallbackToIlike: true });
+  };
+
+  beforeEach(() => {
+    searchService = new SearchService(mockPrisma as any);
+    jest.clearAllMocks();
+
+    mockPrisma.user.findUnique.mockResolvedValue({ defaultHouseholdId: householdId, households: [] });
+    mockPrisma.location.findMany.mockResolvedValue(locations);
+    mockPrisma.customField.findMany.mockResolvedValue([]);
+    mockPrisma.item.count.mockResolvedValue(3);
+    mockPrisma.item.groupBy.mockImplementation(async ({ by: [field] }: { by: string[] }) => (field === 'status'
+      ? [{ status: 'AVAILABLE', _count: { _all: 2 } }, { status: 'BORROWED', _count: { _all: 1 } }]
+      : [
+          { locationId: 'shelf', _count: { _all: 1 } },
+          { locationId: 'garage', _count: { _all: 1 } },
+          { locationId: 'attic', _count: { _all: 1 } },
+        ]));
+    mockPrisma.itemTag.groupBy.mockResolvedValue([
+      { tagId: 'tag-1', _count: { _all: 2 } },
+      { tagId: 'tag-2', _count: { _all: 1 } },
+    ]);
+    mockPrisma.tag.findMany.mockResolvedValue([
+      { id: 'tag-2', name: 'Camping', color: '#16A34A' },
+      { id: 'tag-1', name: 'Tools', color: '#3B82F6' },
+    ]);
+    mockPrisma.searchAnalytics.create.mockResolvedValue({});
+  });
+
+  it('should apply filters and sorting in the ILIKE fallback', async () => {
+    useSearchConfiguration(false);
+    mockPrisma.item.findMany.mockResolvedValueOnce([]);
+
+    await searchService.searchItems('user-1', {
+      text: 'drill',
+      filters: {
+        locationIds: ['garage'],
+        tagIds: ['tag-1'],
+        statuses: ['AVAILABLE'],
+        valueRange: { min: 50 },
+      },
+      sortBy: 'value',
+      sortOrder: 'desc',
+    });
+
+    const [[pageQuery]] = mockPrisma.item.findMany.mock.calls;
+    expect(pageQuery.where).toEqual(expect.objectContaining({
+      householdId,
+      locationId: { in: ['garage', 'shelf'] },
+      tags: { some: { tagId: { in: ['tag-1'] } } },
+      status: { in: ['AVAILABLE'] },
+      currentValue: { gte: 50 },
+    }));
+    expect(pageQuery.orderBy).toEqual([{ currentValue: 'desc' }, { id: 'asc' }]);
+    expect(mockPrisma.item.findMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.item.count).toHaveBeenCalledWith({ where: pageQuery.where });
+  });
+
+  it('should exclude locations with their sublocations, tags and statuses', async () => {
+    useSearchConfiguration(false);
+    mockPrisma.item.findMany.mockResolvedValueOnce([]);
+
+    await searchService.searchItems('user-1', {
+      text: 'drill',
+      filters: {
+        excludeLocationIds: ['garage'],
+        tagIds: ['tag-1'],
+        excludeTagIds: ['tag-2'],
+        excludeStatuses: ['LOST', 'SOLD'],
+      },
+    });
+
+    const [[pageQuery]] = mockPrisma.item.findMany.mock.calls;
+    expect(pageQuery.where).toEqual(expect.objectContaining({
+      locationId: { notIn: ['garage', 'shelf'] },
+      tags: { some: { tagId: { in: ['tag-1'] } }, none: { tagId: { in: ['tag-2'] } } },
+      status: { notIn: ['LOST', 'SOLD'] },
+    }));
+  });
+
+  it('should group facets over every match with locations rolled up to the top level', async () => {
+    useSearchConfiguration(false);
+    mockPrisma.item.findMany.mockResolvedValueOnce([]);
+
+    const results = await searchService.searchItems('user-1', { text: 'drill' });
+
+    const [[pageQuery]] = mockPrisma.item.findMany.mock.calls;
+    expect(mockPrisma.item.groupBy).toHaveBeenCalledWith(expect.objectContaining({ by: ['status'], where: pageQuery.where }));
+    expect(mockPrisma.itemTag.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      by: ['tagId'],
+      where: { item: pageQuery.where },
+    }));
+    expect(mockPrisma.itemTag.findMany).not.toHaveBeenCalled();
+    expect(results.totalCount).toBe(3);
+    expect(results.facets).toEqual(expectedFacets);
+  });
+
+  it('should count and group full-text matches in SQL', async () => {
+    useSearchConfiguration(true);
+    mockPrisma.$queryRaw.mockImplementation(async (...call: any[]) => {
+      const sql = sqlOf(call);
+      if (sql.includes('GROUP BY i.status')) {
+        return [{ status: 'AVAILABLE', count: 2 }, { status: 'BORROWED', count: 1 }];
+      }
+      if (sql.includes('GROUP BY t.id')) {
+        return [{ id: 'tag-1', name: 'Tools', color: '#3B82F6', count: 2 }, { id: 'tag-2', name: 'Camping', color: '#16A34A', count: 1 }];
+      }
+      if (sql.includes('GROUP BY i.location_id')) {
+        return [{ locationId: 'shelf', count: 1 }, { locationId: 'garage', count: 1 }, { locationId: 'attic', count: 1 }];
+      }
+      return sql.includes('COUNT(*)') ? [{ count: 3 }] : [];
+    });
+
+    const results = await searchService.searchItems('user-1', { text: 'drill' });
+
+    const queries = mockPrisma.$queryRaw.mock.calls.map(sqlOf);
+    // The page, the count and one GROUP BY per facet; no query returns every match
+    expect(queries).toHaveLength(5);
+    expect(queries.find(sql => sql.includes('GROUP BY t.id'))).toContain('JOIN item_tags it ON it.item_id = i.id');
+    expect(mockPrisma.itemTag.findMany).not.toHaveBeenCalled();
+    expect(results.totalCount).toBe(3);
+    expect(results.facets).toEqual(expectedFacets);
+  });
+
+  it('should pass the location subtree and sort column to full-text search', async () => {
+    useSearchConfiguration(true);
+    mockPrisma.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+    const results = await searchService.searchItems('user-1', {
+      text: 'drill',
+      filters: { locationIds: ['garage'] },
+      sortBy: 'name',
+    });
+
+    const sql = mockPrisma.$queryRaw.mock.calls[0].slice(1).map((value: any) => value?.sql ?? '').join(' ');
+    const values = mockPrisma.$queryRaw.mock.calls[0].slice(1).flatMap((value: any) => value?.values ?? [value]);
+    expect(sql).toContain('i.name ASC NULLS LAST');
+    expect(values).toContainEqual(['garage', 'shelf']);
+    expect(results.facets).toEqual({ statuses: [], tags: [], locations: [] });
+  });
+
+  describe('pagination', () => {
+    const itemIds = [
+      '11111111-1111-4111-8111-111111111111',
+      '22222222-2222-4222-8222-222222222222',
+      '33333333-3333-4333-8333-333333333333',
+    ];
+    const items = itemIds.map((id, index) => ({
+      id,
+      name: `Drill ${index + 1}`,
+      description: null,
+      quantity: 1,
+      unit: 'piece',
+      status: 'AVAILABLE',
+      currentValue: null,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+    }));
+
+    it('should count every match and return a cursor after the last item of the page', async () => {
+      useSearchConfiguration(false);
+      mockPrisma.item.findMany.mockResolvedValueOnce(items);
+
+      const results = await searchService.searchItems('user-1', { text: 'drill', limit: 2 });
+
+      const [[pageQuery]] = mockPrisma.item.findMany.mock.calls;
+      expect(pageQuery).toEqual(expect.objectContaining({ take: 3, skip: 0 }));
+      expect(results.items.map(item => item.id)).toEqual(itemIds.slice(0, 2));
+      expect(results.totalCount).toBe(3);
+      expect(results.hasMore).toBe(true);
+      expect(decodeSearchCursor(results.nextCursor!)).toEqual({
+        sortBy: 'relevance',
+        sortOrder: 'desc',
+        value: 'Drill 2',
+        id: itemIds[1],
+      });
+    });
+
+    it('should continue after the cursor rather than skipping rows', async () => {
+      useSearchConfiguration(false);
+      mockPrisma.item.findMany.mockResolvedValueOnce(items.slice(2));
+      const cursor = encodeSearchCursor({ sortBy: 'value', sortOrder: 'desc', value: '250', id: itemIds[1] });
+
+      const results = await searchService.searchItems('user-1', {
+        text: 'drill',
+        limit: 2,
+        offset: 40,
+        cursor,
+        sortBy: 'value',
+        sortOrder: 'desc',
+      });
+
+      const [[pageQuery]] = mockPrisma.item.findMany.mock.calls;
+      expect(pageQuery.skip).toBe(0);
+      expect(pageQuery.where.AND[1]).toEqual({
+        OR: [
+          { currentValue: { lt: '250' } },
+          { currentValue: '250', id: { gt: itemIds[1] } },
+        ],
+      });
+      expect(results.hasMore).toBe(false);
+      expect(results.nextCursor).toBeNull();
+    });
+
+    it('should page full-text results by relevance score and item ID', async () => {
+      useSearchConfiguration(true);
+      mockPrisma.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+      const cursor = encodeSearchCursor({ sortBy: 'relevance', sortOrder: 'desc', value: 0.5, id: itemIds[0] });
+
+      await searchService.searchItems('user-1', { text: 'drill', cursor });
+
+      const sql = mockPrisma.$queryRaw.mock.calls[0].slice(1).map((value: any) => value?.sql ?? '').join(' ');
+      const values = mockPrisma.$queryRaw.mock.calls[0].slice(1).flatMap((value: any) => value?.values ?? [value]);
+      expect(sql).toContain('::real');
+      expect(values).toEqual(expect.arrayContaining([0.5, itemIds[0], 21, 0]));
+    });
+
+    it('should reject cursors issued for another sort order', async () => {
+      useSearchConfiguration(false);
+      const cursor = encodeSearchCursor({ sortBy: 'name', sortOrder: 'asc', value: 'Drill', id: itemIds[0] });
+
+      await expect(searchService.searchItems('user-1', { text: 'drill', cursor, sortBy: 'value' }))
+        .rejects.toThrow('Search cursor is invalid or belongs to a different sort order');
+      expect(mockPrisma.item.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
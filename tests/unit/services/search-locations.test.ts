@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+import { SearchService } from '@/lib/services/search';
+
+jest.mock('@/lib/db', () => ({ prisma: {} }));
+
+jest.mock('@/lib/db/extensions', () => ({
+  checkExtensionAvailability: jest.fn(),
+  getSearchConfiguration: jest.fn(),
+}));
+
+const { checkExtensionAvailability, getSearchConfiguration } = require('@/lib/db/extensions');
+
+const mockPrisma = {
+  $queryRaw: jest.fn(),
+  user: { findUnique: jest.fn() },
+  item: { findMany: jest.fn(), count: jest.fn() },
+  itemTag: { findMany: jest.fn() },
+  location: { findMany: jest.fn() },
+  category: { findMany: jest.fn() },
+  customField: { findMany: jest.fn() },
+  searchAnalytics: { create: jest.fn() },
+};
+
+describe('SearchService locations', () => {
+  let searchService: SearchService;
+  const householdId = 'household-1';
+
+  const tree = [
+    { id: 'house', name: 'House', parentId: null },
+    { id: 'attic', name: 'Attic', parentId: 'house' },
+    { id: 'attic-shelf', name: 'Shelf', parentId: 'attic' },
+    { id: 'garage', name: 'Garage', parentId: 'house' },
+    { id: 'shelving', name: 'Shelf Unit', parentId: 'garage' },
+    { id: 'toolbox', name: 'Toolbox', parentId: 'shelving' },
+  ];
+
+  const blueBox = {
+    id: 'item-1',
+    name: 'Blue storage box',
+    description: null,
+    quantity: 1,
+    unit: 'piece',
+    status: 'AVAILABLE',
+    currentValue: null,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    location: { id: 'attic-shelf', name: 'Shelf', path: 'House → Attic → Shelf' },
+  };
+
+  const useSearchConfiguration = (useFullTextSearch: boolean) => {
+    checkExtensionAvailability.mockResolvedValue({ pg_trgm: useFullTextSearch, fullTextSearchCapable: useFullTextSearch });
+    getSearchConfiguration.mockResolvedValue({ useFullTextSearch, useTrigramSearch: false, fallbackToIlike: true });
+  };
+
+  /**
+   * Name and path matches for the location search; the tree for everything else
+   */
+  const useLocations = (candidates: Array<{ id: string; name: string; path: string; level: number }>) => {
+    mockPrisma.location.findMany.mockImplementation(async (args: any) =>
+      args.where.OR ? candidates.map(location => ({ ...location, itemCount: 2 })) : tree
+    );
+  };
+
+  beforeEach(() => {
+    searchService = new SearchService(mockPrisma as any);
+    jest.clearAllMocks();
+
+    mockPrisma.user.findUnique.mockResolvedValue({ defaultHouseholdId: householdId, households: [] });
+    mockPrisma.customField.findMany.mockResolvedValue([]);
+    mockPrisma.item.count.mockResolvedValue(0);
+    mockPrisma.itemTag.findMany.mockResolvedValue([]);
+    mockPrisma.searchAnalytics.create.mockResolvedValue({});
+    useLocations([]);
+  });
+
+  it('should match items by name and location path for "X in Y"', async () => {
+    useSearchConfiguration(false);
+    useLocations([{ id: 'attic', name: 'Attic', path: 'House → Attic', level: 1 }]);
+    mockPrisma.item.findMany.mockResolvedValueOnce([blueBox]);
+
+    const results = await searchService.searchItems('user-1', { text: 'blue box in the attic', includeLocation: true });
+
+    const [[pageQuery]] = mockPrisma.item.findMany.mock.calls;
+    expect(pageQuery.where.OR).toContainEqual({
+      OR: [
+        { name: { contains: 'blue box', mode: 'insensitive' } },
+        { description: { contains: 'blue box', mode: 'insensitive' } },
+      ],
+      location: { path: { contains: 'attic', mode: 'insensitive' } },
+    });
+    expect(mockPrisma.location.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        householdId,
+        OR: [
+          { name: { contains: 'attic', mode: 'insensitive' } },
+          { path: { contains: 'attic', mode: 'insensitive' } },
+        ],
+      },
+    }));
+    expect(results.locations.map(location => location.id)).toEqual(['attic']);
+  });
+
+  it('should add the path to each item for "where is it" breadcrumbs', async () => {
+    useSearchConfiguration(false);
+    mockPrisma.item.findMany.mockResolvedValueOnce([blueBox]);
+
+    const results = await searchService.searchItems('user-1', { text: 'blue box', includeLocation: true });
+
+    expect(results.items[0].location?.pathComponents).toEqual([
+      { id: 'house', name: 'House' },
+      { id: 'attic', name: 'Attic' },
+      { id: 'attic-shelf', name: 'Shelf' },
+    ]);
+  });
+
+  it('should rank location name matches above path matches', async () => {
+    useSearchConfiguration(false);
+    useLocations([
+      { id: 'shelving', name: 'Shelf Unit', path: 'House → Garage → Shelf Unit', level: 2 },
+      { id: 'attic-shelf', name: 'Shelf', path: 'House → Attic → Shelf', level: 2 },
+      { id: 'toolbox', name: 'Toolbox', path: 'House → Garage → Shelf Unit → Toolbox', level: 3 },
+    ]);
+    mockPrisma.item.findMany.mockResolvedValueOnce([]);
+
+    const results = await searchService.searchItems('user-1', { text: 'shelf' });
+
+    expect(results.locations.map(location => [location.id, location.relevanceScore])).toEqual([
+      ['attic-shelf', 1],
+      ['shelving', 0.8],
+      ['toolbox', 0.3],
+    ]);
+    expect(results.locations[2]).toEqual(expect.objectContaining({
+      itemCount: 2,
+      pathComponents: [
+        { id: 'house', name: 'House' },
+        { id: 'garage', name: 'Garage' },
+        { id: 'shelving', name: 'Shelf Unit' },
+        { id: 'toolbox', name: 'Toolbox' },
+      ],
+    }));
+  });
+
+  it('should require the location path in full-text search for "X in Y"', async () => {
+    useSearchConfiguration(true);
+    mockPrisma.$queryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+    await searchService.searchItems('user-1', { text: 'blue box in attic' });
+
+    const sql = mockPrisma.$queryRaw.mock.calls[0].slice(1).map((value: any) => value?.sql ?? '').join(' ');
+    const values = mockPrisma.$queryRaw.mock.calls[0].slice(1).flatMap((value: any) => value?.values ?? [value]);
+    expect(sql).toContain('pl.path ILIKE');
+    expect(values).toEqual(expect.arrayContaining(['blue box in attic', 'blue box', '%attic%']));
+  });
+
+  it('should only return locations with the first page', async () => {
+    useSearchConfiguration(false);
+    useLocations([{ id: 'attic', name: 'Attic', path: 'House → Attic', level: 1 }]);
+    mockPrisma.item.findMany.mockResolvedValueOnce([]);
+
+    const results = await searchService.searchItems('user-1', { text: 'attic', offset: 20 });
+
+    expect(results.locations).toEqual([]);
+    expect(mockPrisma.location.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should leave items and locations out when the location search fails', async () => {
+    useSearchConfiguration(false);
+    mockPrisma.location.findMany.mockRejectedValue(new Error('connection lost'));
+    mockPrisma.item.findMany.mockResolvedValueOnce([blueBox]);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const results = await searchService.searchItems('user-1', { text: 'blue box', includeLocation: true });
+
+    expect(results.items).toHaveLength(1);
+    expect(results.locations).toEqual([]);
+  });
+});
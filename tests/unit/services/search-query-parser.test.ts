@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+
+import { parseSearchQuery, SearchQueryContext } from '@/lib/services/search-query-parser';
+
+const context: SearchQueryContext = {
+  locations: [
+    { id: 'garage-id', name: 'Garage' },
+    { id: 'shelf-id', name: 'Metal Shelf' },
+  ],
+  tags: [
+    { id: 'tools-id', name: 'Tools' },
+    { id: 'garden-id', name: 'garden' },
+    { id: 'broken-id', name: 'Broken' },
+  ],
+};
+
+function parse(input: string) {
+  const result = parseSearchQuery(input, context);
+  if (!result.success) {
+    throw new Error(`Expected "${input}" to parse: ${result.errors.map(error => error.message).join('; ')}`);
+  }
+  return result.query;
+}
+
+function errorsOf(input: string) {
+  const result = parseSearchQuery(input, context);
+  if (result.success) {
+    throw new Error(`Expected "${input}" to fail`);
+  }
+  return result.errors.map(error => ({ ...error, text: input.slice(error.start, error.end) }));
+}
+
+describe('parseSearchQuery', () => {
+  it('should turn filters into an advanced search query', () => {
+    expect(parse('drill in:garage tag:tools status:borrowed value:>100 added:<2024-01-01')).toEqual({
+      text: 'drill',
+      filters: {
+        locationIds: ['garage-id'],
+        tagIds: ['tools-id'],
+        statuses: ['BORROWED'],
+        valueRange: { min: 100.01 },
+        dateRange: { to: new Date('2023-12-31T23:59:59.999Z') },
+      },
+    });
+  });
+
+  it('should leave out filters for plain text', () => {
+    expect(parse('cordless  drill')).toEqual({ text: 'cordless drill' });
+  });
+
+  it('should keep quoted phrases and accept quoted names', () => {
+    expect(parse('"power drill" in:"metal shelf" TAG:tools')).toEqual({
+      text: '"power drill"',
+      filters: { locationIds: ['shelf-id'], tagIds: ['tools-id'] },
+    });
+  });
+
+  it('should map negated filters to exclusions', () => {
+    expect(parse('drill -tag:broken -in:garage -status:lost').filters).toEqual({
+      excludeTagIds: ['broken-id'],
+      excludeLocationIds: ['garage-id'],
+      excludeStatuses: ['LOST'],
+    });
+  });
+
+  it('should combine OR groups of one filter', () => {
+    const expected = { tagIds: ['tools-id', 'garden-id'] };
+
+    expect(parse('rake tag:tools OR tag:garden').filters).toEqual(expected);
+    expect(parse('rake (tag:tools OR tag:garden)').filters).toEqual(expected);
+    expect(parse('rake tag:(tools OR garden)').filters).toEqual(expected);
+    expect(parse('rake -(tag:tools OR tag:garden)').filters).toEqual({ excludeTagIds: ['tools-id', 'garden-id'] });
+  });
+
+  it('should parse ranges', () => {
+    expect(parse('drill value:50..200 qty:>=2').filters).toEqual({
+      valueRange: { min: 50, max: 200 },
+      quantityRange: { min: 2 },
+    });
+    expect(parse('drill value:>10 value:<=20.5').filters?.valueRange).toEqual({ min: 10.01, max: 20.5 });
+    expect(parse('drill added:2024-03-05').filters?.dateRange).toEqual({
+      from: new Date('2024-03-05T00:00:00.000Z'),
+      to: new Date('2024-03-05T23:59:59.999Z'),
+    });
+    expect(parse('drill added:>2024-03-05').filters?.dateRange).toEqual({
+      from: new Date('2024-03-06T00:00:00.000Z'),
+    });
+  });
+
+  it('should report errors at the offending text', () => {
+    expect(errorsOf('drill in:attic colour:red')).toEqual([
+      expect.objectContaining({ message: 'No location named "attic"', text: 'attic' }),
+      expect.objectContaining({ message: expect.stringContaining('Unknown filter "colour:"'), text: 'colour:' }),
+    ]);
+    expect(errorsOf('drill status:missing value:abc')).toEqual([
+      expect.objectContaining({ message: expect.stringContaining('Unknown status "missing"'), text: 'missing' }),
+      expect.objectContaining({ message: 'Write value: as in value:>100 or value:50..200', text: 'abc' }),
+    ]);
+    expect(errorsOf('drill added:2024-02-30')[0].text).toBe('2024-02-30');
+    expect(errorsOf('drill tag:')[0]).toEqual(expect.objectContaining({ message: 'Add a value after tag:', text: 'tag:' }));
+  });
+
+  it('should reject misplaced negation and OR', () => {
+    expect(errorsOf('drill -rusty')[0].text).toBe('-rusty');
+    expect(errorsOf('drill -value:>5')[0].message).toContain('flip the comparison');
+    expect(errorsOf('drill tag:tools OR in:garage')[0].text).toBe('tag:tools OR in:garage');
+    expect(errorsOf('drill OR saw')[0].message).toBe('OR combines filters only, as in tag:tools OR tag:garden');
+    expect(errorsOf('drill tag:tools OR')[0].text).toBe('OR');
+  });
+
+  it('should reject unbalanced groups and quotes', () => {
+    expect(errorsOf('drill (tag:tools OR tag:garden')[0]).toEqual(expect.objectContaining({ message: 'Close the parenthesis', text: '(' }));
+    expect(errorsOf('drill tag:tools)')[0]).toEqual(expect.objectContaining({ text: ')' }));
+    expect(errorsOf('drill (tag:tools tag:garden)')[0]).toEqual(expect.objectContaining({
+      message: 'Separate the values in a group with OR',
+      text: 'tag:garden',
+    }));
+    expect(errorsOf('"power drill')[0]).toEqual(expect.objectContaining({ message: 'Close the quote', text: '"power drill' }));
+  });
+
+  it('should require text to search for', () => {
+    expect(errorsOf('tag:tools')).toEqual([
+      expect.objectContaining({ message: 'Add a word to search for, as in drill tag:tools', start: 0, end: 9 }),
+    ]);
+  });
+});
@@ -245,7 +245,12 @@ describe('SearchService Core Functionality', () => {
     });
 
     it('should log search analytics on success', async () => {
-      mockPrisma.$queryRaw.mockResolvedValue(mockSearchResults);
+      // Mock full-text search results, their count and no facets
+      mockPrisma.$queryRaw.mockImplementation(async (strings: TemplateStringsArray) => {
+        const sql = strings.join('');
+        if (sql.includes('GROUP BY')) return [];
+        return sql.includes('COUNT(*)') ? [{ count: mockSearchResults.length }] : mockSearchResults;
+      });
 
       await searchService.searchItems('user-123', basicQuery);
 
@@ -133,8 +133,12 @@ describe('SearchService', () => {
     };
 
     it('should perform full-text search when extensions are available', async () => {
-      // Mock full-text search results
-      mockPrisma.$queryRaw.mockResolvedValue(mockSearchResults);
+      // Mock full-text search results, their count and no facets
+      mockPrisma.$queryRaw.mockImplementation(async (strings: TemplateStringsArray) => {
+        const sql = strings.join('');
+        if (sql.includes('GROUP BY')) return [];
+        return sql.includes('COUNT(*)') ? [{ count: mockSearchResults.length }] : mockSearchResults;
+      });
       mockPrisma.searchUpdateQueue.count.mockResolvedValue(0);
       mockPrisma.searchAnalytics.aggregate.mockResolvedValue({
         _avg: { responseTimeMs: 150 },
@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+
+import { TagService } from '@/lib/services/tags';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+const mockTx = {
+  tag: {
+    findFirst: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+  },
+  itemTag: {
+    findMany: jest.fn(),
+    count: jest.fn(),
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  customField: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  savedSearch: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+};
+
+const mockPrisma = {
+  ...mockTx,
+  tag: {
+    ...mockTx.tag,
+    findMany: jest.fn(),
+  },
+  $transaction: jest.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+};
+
+describe('TagService', () => {
+  let tagService: TagService;
+  const householdId = 'household-1';
+  const sourceTag = { id: 'tag-1', householdId, name: 'tools', color: '#6B7280', usageCount: 2 };
+  const targetTag = { id: 'tag-2', householdId, name: 'Tools', color: '#3B82F6', usageCount: 3 };
+
+  beforeEach(() => {
+    tagService = new TagService(mockPrisma as any);
+    jest.clearAllMocks();
+  });
+
+  describe('createTag', () => {
+    it('should reject names already used with different case', async () => {
+      mockTx.tag.findFirst.mockResolvedValue({ id: 'tag-2' });
+
+      await expect(tagService.createTag(householdId, { name: 'TOOLS', color: '#6B7280' }))
+        .rejects.toThrow('A tag named "TOOLS" already exists');
+      expect(mockTx.tag.findFirst).toHaveBeenCalledWith({
+        where: { householdId, name: { equals: 'TOOLS', mode: 'insensitive' } },
+        select: { id: true },
+      });
+      expect(mockTx.tag.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTag', () => {
+    it('should allow changing only the case of a name', async () => {
+      mockTx.tag.findFirst
+        .mockResolvedValueOnce(sourceTag)
+        .mockResolvedValueOnce(null);
+      mockTx.tag.update.mockResolvedValue({ ...sourceTag, name: 'Tools' });
+
+      await tagService.updateTag('tag-1', householdId, { name: 'Tools' });
+
+      expect(mockTx.tag.findFirst).toHaveBeenLastCalledWith({
+        where: { householdId, name: { equals: 'Tools', mode: 'insensitive' }, id: { not: 'tag-1' } },
+        select: { id: true },
+      });
+      expect(mockTx.tag.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'tag-1' },
+        data: { name: 'Tools', color: undefined },
+      }));
+    });
+
+    it('should not update tags of other households', async () => {
+      mockTx.tag.findFirst.mockResolvedValue(null);
+
+      await expect(tagService.updateTag('tag-1', 'household-2', { color: '#000000' }))
+        .rejects.toThrow('Tag not found or access denied');
+      expect(mockTx.tag.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should drop the tag from field scoping and saved search filters', async () => {
+      mockTx.tag.findFirst.mockResolvedValue(sourceTag);
+      mockTx.customField.findMany.mockResolvedValue([{ id: 'field-1', tagIds: ['tag-1', 'tag-2'] }]);
+      mockTx.savedSearch.findMany.mockResolvedValue([
+        { id: 'search-1', filters: { tagIds: ['tag-1', 'tag-2'] } },
+        { id: 'search-2', filters: { tagIds: ['tag-1'], statuses: ['LOST'] } },
+      ]);
+
+      await tagService.deleteTag('tag-1', householdId);
+
+      expect(mockTx.customField.update).toHaveBeenCalledWith({ where: { id: 'field-1' }, data: { tagIds: ['tag-2'] } });
+      expect(mockTx.savedSearch.update).toHaveBeenCalledWith({ where: { id: 'search-1' }, data: { filters: { tagIds: ['tag-2'] } } });
+      expect(mockTx.savedSearch.update).toHaveBeenCalledWith({ where: { id: 'search-2' }, data: { filters: { statuses: ['LOST'] } } });
+      expect(mockTx.tag.delete).toHaveBeenCalledWith({ where: { id: 'tag-1' } });
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('should retag items, move field scoping and recount the target', async () => {
+      mockTx.tag.findFirst
+        .mockResolvedValueOnce(sourceTag)
+        .mockResolvedValueOnce(targetTag);
+      mockTx.itemTag.findMany.mockResolvedValue([{ itemId: 'item-1' }, { itemId: 'item-2' }]);
+      mockTx.customField.findMany.mockResolvedValue([
+        { id: 'field-1', tagIds: ['tag-1'] },
+        { id: 'field-2', tagIds: ['tag-1', 'tag-2'] },
+      ]);
+      mockTx.savedSearch.findMany.mockResolvedValue([
+        { id: 'search-1', filters: { tagIds: ['tag-1'], statuses: ['AVAILABLE'] } },
+        { id: 'search-2', filters: { tagIds: ['tag-2', 'tag-1'] } },
+      ]);
+      mockTx.itemTag.count.mockResolvedValue(4);
+      mockTx.tag.update.mockResolvedValue({ ...targetTag, usageCount: 4 });
+
+      const tag = await tagService.mergeTags('tag-1', householdId, 'tag-2');
+
+      expect(mockTx.itemTag.createMany).toHaveBeenCalledWith({
+        data: [{ itemId: 'item-1', tagId: 'tag-2' }, { itemId: 'item-2', tagId: 'tag-2' }],
+        skipDuplicates: true,
+      });
+      expect(mockTx.customField.update).toHaveBeenCalledWith({ where: { id: 'field-1' }, data: { tagIds: ['tag-2'] } });
+      expect(mockTx.customField.update).toHaveBeenCalledWith({ where: { id: 'field-2' }, data: { tagIds: ['tag-2'] } });
+      expect(mockTx.savedSearch.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { householdId, filters: { path: ['tagIds'], array_contains: ['tag-1'] } },
+      }));
+      expect(mockTx.savedSearch.update).toHaveBeenCalledWith({
+        where: { id: 'search-1' },
+        data: { filters: { statuses: ['AVAILABLE'], tagIds: ['tag-2'] } },
+      });
+      expect(mockTx.savedSearch.update).toHaveBeenCalledWith({ where: { id: 'search-2' }, data: { filters: { tagIds: ['tag-2'] } } });
+      expect(mockTx.tag.delete).toHaveBeenCalledWith({ where: { id: 'tag-1' } });
+      expect(mockTx.tag.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'tag-2' },
+        data: { usageCount: 4 },
+      }));
+      expect(tag.usageCount).toBe(4);
+    });
+
+    it('should not merge a tag into itself', async () => {
+      await expect(tagService.mergeTags('tag-1', householdId, 'tag-1'))
+        .rejects.toThrow('A tag cannot be merged into itself');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setItemTags', () => {
+    it('should only touch links and counts that change', async () => {
+      mockTx.tag.count.mockResolvedValue(2);
+      mockTx.itemTag.findMany.mockResolvedValue([{ tagId: 'tag-1' }, { tagId: 'tag-3' }]);
+
+      const changes = await tagService.setItemTags(mockTx as any, householdId, 'item-1', ['tag-1', 'tag-2']);
+
+      expect(changes).toEqual({ added: ['tag-2'], removed: ['tag-3'] });
+      expect(mockTx.itemTag.deleteMany).toHaveBeenCalledWith({ where: { itemId: 'item-1', tagId: { in: ['tag-3'] } } });
+      expect(mockTx.tag.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['tag-3'] } },
+        data: { usageCount: { decrement: 1 } },
+      });
+      expect(mockTx.itemTag.createMany).toHaveBeenCalledWith({ data: [{ itemId: 'item-1', tagId: 'tag-2' }] });
+      expect(mockTx.tag.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['tag-2'] } },
+        data: { usageCount: { increment: 1 } },
+      });
+    });
+
+    it('should reject tags of other households', async () => {
+      mockTx.tag.count.mockResolvedValue(1);
+
+      await expect(tagService.setItemTags(mockTx as any, householdId, 'item-1', ['tag-1', 'tag-9']))
+        .rejects.toThrow('Tags must belong to this household');
+      expect(mockTx.itemTag.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Activity Timeline Utility Tests
+ *
+ * Tests for turning activity log entries into item history headlines
+ * and field-level changes.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.10.0
+ */
+
+import {
+  describeActivity,
+  getActivityActorName,
+  getActivityFieldChanges,
+} from '@/lib/utils/activity-timeline';
+import type { ActivityLogEntry } from '@/lib/types/activity';
+
+const buildEntry = (overrides: Partial<ActivityLogEntry>): ActivityLogEntry => ({
+  id: 'log-1',
+  householdId: 'household-1',
+  userId: 'user-1',
+  entityType: 'ITEM',
+  entityId: '550e8400-e29b-41d4-a716-446655440000',
+  action: 'UPDATED',
+  diff: {},
+  metadata: {},
+  ipAddress: null,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  user: { id: 'user-1', name: 'Sam', email: 'sam@example.com' },
+  ...overrides,
+});
+
+describe('describeActivity', () => {
+  it('should name both locations for moves', () => {
+    const entry = buildEntry({
+      action: 'MOVED',
+      metadata: { fromPath: 'Garage', toPath: 'Garage → Shelf 2' },
+    });
+
+    expect(describeActivity(entry)).toBe('Moved from Garage to Garage → Shelf 2');
+  });
+
+  it('should describe status changes from the diff', () => {
+    const entry = buildEntry({
+      action: 'STATUS_CHANGED',
+      diff: { status: { before: 'AVAILABLE', after: 'MAINTENANCE' } },
+    });
+
+    expect(describeActivity(entry)).toBe('Status changed from available to maintenance');
+  });
+
+  it('should describe photo events', () => {
+    expect(describeActivity(buildEntry({ action: 'PHOTO_ADDED' }))).toBe('Photo added');
+    expect(describeActivity(buildEntry({ action: 'PHOTO_DELETED' }))).toBe('Photo deleted');
+  });
+});
+
+describe('getActivityFieldChanges', () => {
+  it('should format edited fields for display', () => {
+    const entry = buildEntry({
+      diff: {
+        name: { before: 'Drill', after: 'Cordless Drill' },
+        currentValue: { before: null, after: 89.5 },
+        locationId: { before: 'loc-1', after: 'loc-1' },
+      },
+    });
+
+    expect(getActivityFieldChanges(entry)).toEqual([
+      { field: 'name', label: 'Name', before: 'Drill', after: 'Cordless Drill' },
+      { field: 'currentValue', label: 'Current value', before: '—', after: '$89.50' },
+    ]);
+  });
+
+  it('should leave creation snapshots to the headline', () => {
+    const entry = buildEntry({
+      action: 'CREATED',
+      diff: { name: { before: null, after: 'Drill' } },
+    });
+
+    expect(getActivityFieldChanges(entry)).toEqual([]);
+  });
+});
+
+describe('getActivityActorName', () => {
+  it('should fall back when the acting user was removed', () => {
+    expect(getActivityActorName(buildEntry({ user: null }))).toBe('Someone');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Barcode Scanning Utility Tests
+ *
+ * Tests for classifying decoded camera codes into house labels and
+ * retail product barcodes.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.9.0
+ */
+
+import { classifyScannedCode } from '@/lib/utils/barcode';
+
+describe('classifyScannedCode', () => {
+  const origin = 'https://inventory.example.com';
+
+  describe('house labels', () => {
+    it('should resolve QR codes pointing at this app\'s tag resolver', () => {
+      const result = classifyScannedCode({ format: 'qr_code', text: `${origin}/t/a1b2c3d4` }, origin);
+
+      expect(result).toMatchObject({ kind: 'house-label', code: 'A1B2C3D4' });
+    });
+
+    it('should ignore resolver-like QR codes from other origins', () => {
+      const result = classifyScannedCode(
+        { format: 'qr_code', text: 'https://elsewhere.example.com/t/A1B2C3D4' },
+        origin
+      );
+
+      expect(result.kind).toBe('unknown');
+    });
+
+    it('should ignore QR codes that are not URLs', () => {
+      const result = classifyScannedCode({ format: 'qr_code', text: 'WIFI:S:home;T:WPA;P:secret;;' }, origin);
+
+      expect(result.kind).toBe('unknown');
+    });
+
+    it('should resolve Code 128 short codes printed on labels', () => {
+      const result = classifyScannedCode({ format: 'code_128', text: 'A1B2-C3D4' }, origin);
+
+      expect(result).toMatchObject({ kind: 'house-label', code: 'A1B2C3D4' });
+    });
+
+    it('should not treat arbitrary Code 128 payloads as labels', () => {
+      const result = classifyScannedCode({ format: 'code_128', text: 'SN-12345' }, origin);
+
+      expect(result.kind).toBe('unknown');
+    });
+  });
+
+  describe('retail barcodes', () => {
+    it('should normalize UPC-A to EAN-13', () => {
+      const result = classifyScannedCode({ format: 'upc_a', text: '036000291452' }, origin);
+
+      expect(result).toMatchObject({ kind: 'retail', barcode: '0036000291452' });
+    });
+
+    it('should keep EAN-8 and UPC-E codes as scanned', () => {
+      expect(classifyScannedCode({ format: 'ean_8', text: '96385074' }, origin))
+        .toMatchObject({ kind: 'retail', barcode: '96385074' });
+      expect(classifyScannedCode({ format: 'upc_e', text: '01234565' }, origin))
+        .toMatchObject({ kind: 'retail', barcode: '01234565' });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Category Utility Tests
+ *
+ * Tests for the tree lookups behind category filters, inherited default
+ * fields and inherited depreciation rules.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.15.0
+ */
+
+import { getCategoryLineage, getCategorySubtreeIds, resolveDepreciationRule } from '@/lib/utils/categories';
+
+describe('category tree', () => {
+  const categories = [
+    { id: 'electronics', parentId: null, depreciationMethod: 'STRAIGHT_LINE' as const, usefulLifeYears: 5, depreciationRate: null },
+    { id: 'audio', parentId: 'electronics', depreciationMethod: null, usefulLifeYears: null, depreciationRate: null },
+    { id: 'headphones', parentId: 'audio', depreciationMethod: null, usefulLifeYears: null, depreciationRate: null },
+    { id: 'computers', parentId: 'electronics', depreciationMethod: 'DECLINING_BALANCE' as const, usefulLifeYears: null, depreciationRate: 30 },
+    { id: 'tools', parentId: null, depreciationMethod: null, usefulLifeYears: null, depreciationRate: null },
+  ];
+
+  it('should list a category and its ancestors up to the root', () => {
+    expect(getCategoryLineage(categories, 'headphones')).toEqual(['headphones', 'audio', 'electronics']);
+    expect(getCategoryLineage(categories, 'tools')).toEqual(['tools']);
+    expect(getCategoryLineage(categories, 'unknown')).toEqual([]);
+  });
+
+  it('should list a category and all of its descendants', () => {
+    expect(getCategorySubtreeIds(categories, 'electronics').sort())
+      .toEqual(['audio', 'computers', 'electronics', 'headphones']);
+    expect(getCategorySubtreeIds(categories, 'headphones')).toEqual(['headphones']);
+  });
+
+  it('should use the nearest depreciation rule in the lineage', () => {
+    expect(resolveDepreciationRule(categories, 'headphones')).toEqual({
+      method: 'STRAIGHT_LINE',
+      usefulLifeYears: 5,
+      depreciationRate: null,
+    });
+    expect(resolveDepreciationRule(categories, 'computers')).toMatchObject({ method: 'DECLINING_BALANCE', depreciationRate: 30 });
+    expect(resolveDepreciationRule(categories, 'tools')).toBeNull();
+    expect(resolveDepreciationRule(categories, null)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Cron Utility Tests
+ *
+ * Tests for parsing cron expressions and computing their next run times
+ * in UTC.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.13.0
+ */
+
+import {
+  getMinimumCronInterval,
+  getNextCronRun,
+  isValidCronExpression,
+  parseCronExpression,
+} from '@/lib/utils/cron';
+
+describe('parseCronExpression', () => {
+  it('should expand ranges, lists, steps and aliases', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 7');
+
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([9, 10, 11]);
+    expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(Array.from(schedule.daysOfWeek)).toEqual([0]);
+    expect(schedule.dayOrMatch).toBe(true);
+
+    expect(parseCronExpression('@weekly')).toEqual(parseCronExpression('0 0 * * 0'));
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCronExpression('0 3 * *')).toThrow('Cron expression must have 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('Invalid minute field "60"');
+    expect(isValidCronExpression('0 3 * * MON')).toBe(false);
+    expect(isValidCronExpression('0 3 1 * *')).toBe(true);
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('should return the next matching minute strictly after the reference time', () => {
+    const monday = new Date('2026-03-02T03:00:00.000Z');
+
+    expect(getNextCronRun('0 3 * * 1', new Date('2026-03-01T12:00:00.000Z'))).toEqual(monday);
+    expect(getNextCronRun('0 3 * * 1', monday)).toEqual(new Date('2026-03-09T03:00:00.000Z'));
+    expect(getNextCronRun('0 3 1 * *', new Date('2026-12-15T00:00:00.000Z'))).toEqual(new Date('2027-01-01T03:00:00.000Z'));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th or any Friday
+    expect(getNextCronRun('0 0 13 * 5', new Date('2026-03-01T00:00:00.000Z'))).toEqual(new Date('2026-03-06T00:00:00.000Z'));
+  });
+
+  it('should find leap days and reject dates that never occur', () => {
+    expect(getNextCronRun('0 0 29 2 *', new Date('2026-03-01T00:00:00.000Z'))).toEqual(new Date('2028-02-29T00:00:00.000Z'));
+    expect(() => getNextCronRun('0 0 31 2 *', new Date())).toThrow('never fires');
+  });
+});
+
+describe('getMinimumCronInterval', () => {
+  it('should measure the shortest gap between upcoming runs', () => {
+    const from = new Date('2026-03-01T00:00:00.000Z');
+
+    expect(getMinimumCronInterval('*/30 * * * *', from)).toBe(30 * 60 * 1000);
+    expect(getMinimumCronInterval('0 3 * * 1', from, 4)).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Depreciation Utility Tests
+ *
+ * Tests for the value estimates shown in the dashboard category breakdown.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.15.0
+ */
+
+import { calculateDepreciatedValue } from '@/lib/utils/depreciation';
+
+describe('calculateDepreciatedValue', () => {
+  const purchaseDate = new Date('2024-01-01T00:00:00.000Z');
+  const twoYearsLater = new Date(purchaseDate.getTime() + 2 * 365.25 * 24 * 60 * 60 * 1000);
+
+  it('should lose an equal share each year on a straight line', () => {
+    const rule = { method: 'STRAIGHT_LINE' as const, usefulLifeYears: 4, depreciationRate: null };
+
+    expect(calculateDepreciatedValue(1000, purchaseDate, rule, twoYearsLater)).toBe(500);
+    expect(calculateDepreciatedValue(1000, purchaseDate, rule, new Date('2030-01-01T00:00:00.000Z'))).toBe(0);
+  });
+
+  it('should lose a percentage of the remaining value on a declining balance', () => {
+    const rule = { method: 'DECLINING_BALANCE' as const, usefulLifeYears: null, depreciationRate: 20 };
+
+    expect(calculateDepreciatedValue(1000, purchaseDate, rule, twoYearsLater)).toBe(640);
+  });
+
+  it('should not change the value before the purchase date', () => {
+    const rule = { method: 'STRAIGHT_LINE' as const, usefulLifeYears: 4, depreciationRate: null };
+
+    expect(calculateDepreciatedValue(1000, purchaseDate, rule, new Date('2023-06-01T00:00:00.000Z'))).toBe(1000);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Export Column Utility Tests
+ *
+ * Tests for building CSV configurations from column settings and the date
+ * and currency formats they apply.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.13.0
+ */
+
+import {
+  DEFAULT_EXPORT_COLUMN_SETTINGS,
+  buildCSVConfig,
+  buildCustomFieldColumns,
+  formatExportCurrency,
+  formatExportDate,
+  isExportColumnId,
+} from '@/lib/utils/export-columns';
+import type { ExportItemData } from '@/lib/types/exports';
+
+const item: ExportItemData = {
+  id: 'item-1',
+  name: 'Drill',
+  description: null,
+  quantity: 2,
+  unit: 'piece',
+  purchasePrice: 1999.9,
+  currentValue: null,
+  purchaseDate: new Date('2025-03-04T00:00:00.000Z'),
+  status: 'AVAILABLE',
+  createdAt: new Date('2025-03-04T10:30:00.000Z'),
+  updatedAt: new Date('2025-03-05T08:15:00.000Z'),
+  location: { id: 'loc-1', name: 'Shelf', path: 'Garage → Shelf', type: 'FURNITURE' },
+  household: { id: 'household-1', name: 'Home' },
+  photos: [],
+  tags: [{ name: 'tools', color: '#FF0000' }],
+  totalValue: 3999.8,
+  photoCount: 0,
+  serialNumber: 'SN-1',
+  metadata: { serialNumber: 'SN-1', warranty: { years: 2 }, weightKg: 1.5, warrantyUntil: '2027-05-01' },
+  tagNames: ['tools', 'power'],
+  photoUrls: [],
+};
+
+/**
+ * Cell values the way the CSV writer reads them
+ */
+const formatRow = (config: ReturnType<typeof buildCSVConfig>) =>
+  config.columns.map(column => column.formatter!((item as any)[column.key], item));
+
+describe('buildCSVConfig', () => {
+  it('should reproduce the original default export layout', () => {
+    const config = buildCSVConfig(DEFAULT_EXPORT_COLUMN_SETTINGS);
+
+    expect(config.delimiter).toBe(',');
+    expect(config.columns.map(column => column.header)).toEqual([
+      'Item Name', 'Description', 'Quantity', 'Unit', 'Purchase Price', 'Current Value', 'Purchase Date',
+      'Status', 'Location Path', 'Location Name', 'Household', 'Photo URLs', 'Tags', 'Created Date', 'Updated Date',
+    ]);
+    expect(formatRow(config)).toEqual([
+      'Drill', '', '2', 'piece', '$1999.90', '', '2025-03-04', 'AVAILABLE', 'Garage → Shelf', 'Shelf', 'Home',
+      '', 'tools,power', '2025-03-04T10:30:00.000Z', '2025-03-05T08:15:00.000Z',
+    ]);
+  });
+
+  it('should apply column order, formats and metadata columns', () => {
+    const config = buildCSVConfig({
+      columns: ['locationPath', 'name', 'purchasePrice', 'createdAt', 'metadata.weightKg', 'metadata.warranty', 'metadata.missing'],
+      delimiter: '\t',
+      dateFormat: 'us',
+      currency: { symbol: '', decimalSeparator: ',' },
+    });
+
+    expect(config.delimiter).toBe('\t');
+    expect(config.columns.map(column => [column.header, column.required])).toEqual([
+      ['Location Path', true],
+      ['Item Name', true],
+      ['Purchase Price', false],
+      ['Created Date', false],
+      ['weightKg', false],
+      ['warranty', false],
+      ['missing', false],
+    ]);
+    expect(formatRow(config)).toEqual(['Garage → Shelf', 'Drill', '1999,90', '03/04/2025 10:30', '1,5', '{"years":2}', '']);
+  });
+
+  it('should head custom field columns with their labels and format their dates', () => {
+    const customFields = [
+      { key: 'serialNumber', label: 'Serial Number', type: 'SERIAL_NUMBER' as const },
+      { key: 'warrantyUntil', label: 'Warranty', type: 'WARRANTY_EXPIRY' as const },
+    ];
+    const config = buildCSVConfig({
+      ...DEFAULT_EXPORT_COLUMN_SETTINGS,
+      columns: ['name', 'metadata.warrantyUntil', 'metadata.serialNumber'],
+      dateFormat: 'eu',
+    }, customFields);
+
+    expect(config.columns.map(column => column.header)).toEqual(['Item Name', 'Warranty', 'Serial Number']);
+    expect(formatRow(config)).toEqual(['Drill', '01.05.2027', 'SN-1']);
+    expect(buildCustomFieldColumns(customFields).map(column => column.key))
+      .toEqual(['metadata.serialNumber', 'metadata.warrantyUntil']);
+  });
+});
+
+describe('formatExportDate and formatExportCurrency', () => {
+  it('should format in UTC and leave empty values blank', () => {
+    expect(formatExportDate('2026-12-31T23:59:00.000Z', 'eu', true)).toBe('31.12.2026 23:59');
+    expect(formatExportDate(null, 'iso', false)).toBe('');
+    expect(formatExportDate('not a date', 'us', false)).toBe('');
+    expect(formatExportCurrency(12.5, { symbol: '€', decimalSeparator: ',' })).toBe('€12,50');
+    expect(formatExportCurrency(null, { symbol: '$', decimalSeparator: '.' })).toBe('');
+  });
+});
+
+describe('isExportColumnId', () => {
+  it('should accept built-in columns and plain metadata keys', () => {
+    expect(isExportColumnId('locationPath')).toBe(true);
+    expect(isExportColumnId('metadata.serial_number')).toBe(true);
+    expect(isExportColumnId('location')).toBe(false);
+    expect(isExportColumnId('metadata.')).toBe(false);
+    expect(isExportColumnId('metadata.a.b')).toBe(false);
+  });
+});
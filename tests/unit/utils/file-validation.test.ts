@@ -2,7 +2,7 @@
  * @jest-environment jsdom
  */
 
-import { validateImageFile, generateSecureFilename, validateMultipleImageFiles } from '@/lib/utils/file-validation';
+import { validateImageFile, generateSecureFilename, validateMultipleImageFiles, detectImageType } from '@/lib/utils/file-validation';
 
 // Mock image loading for testing
 global.Image = class MockImage {
@@ -199,6 +199,20 @@ describe('File Validation Security Tests (1.3-UNIT-003)', () => {
     });
   });
 
+  describe('detectImageType', () => {
+    it('should identify allowed images from their magic bytes', () => {
+      expect(detectImageType(new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0x00]))).toBe('image/jpeg');
+      expect(detectImageType(new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))).toBe('image/png');
+      expect(detectImageType(new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50]))).toBe('image/webp');
+    });
+
+    it('should reject other content, including RIFF files that are not WebP', () => {
+      expect(detectImageType(new Uint8Array(Buffer.from('<svg onload="alert(1)"></svg>')))).toBeNull();
+      expect(detectImageType(new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x41, 0x56, 0x45]))).toBeNull();
+      expect(detectImageType(new Uint8Array([]))).toBeNull();
+    });
+  });
+
   describe('generateSecureFilename', () => {
     it('should generate safe filenames', () => {
       const originalName = 'my photo.jpg';
@@ -0,0 +1,169 @@
+/**
+ * Insurance Report Utility Tests
+ *
+ * Tests for rolling items and locations back through the activity log,
+ * grouping insured items by room and digesting report contents.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.13.0
+ */
+
+import {
+  buildReportDigest,
+  computeLocationTotals,
+  getSerialNumber,
+  groupItemsByRoom,
+  rollBackItems,
+  rollBackLocations,
+} from '@/lib/utils/insurance-report';
+import type { ExportItemData, InsuranceReport, InsuranceReportLocation } from '@/lib/types/exports';
+
+const buildLocation = (overrides: Partial<InsuranceReportLocation>): InsuranceReportLocation => ({
+  id: 'loc-house',
+  name: 'House',
+  parentId: null,
+  path: 'House',
+  locationType: 'BUILDING',
+  totalValue: 0,
+  ...overrides,
+});
+
+const buildItem = (overrides: Partial<ExportItemData>): ExportItemData => ({
+  id: 'item-tv',
+  name: 'TV',
+  description: null,
+  quantity: 1,
+  unit: 'piece',
+  purchasePrice: 1000,
+  currentValue: 800,
+  purchaseDate: new Date('2024-11-29T00:00:00.000Z'),
+  status: 'AVAILABLE',
+  createdAt: new Date('2024-12-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-12-01T00:00:00.000Z'),
+  location: { id: 'loc-kitchen', name: 'Kitchen', path: 'House → Kitchen', type: 'ROOM' },
+  household: { id: 'household-1', name: 'Home' },
+  photos: [],
+  tags: [],
+  totalValue: 800,
+  photoCount: 0,
+  serialNumber: 'SN-1',
+  metadata: { serialNumber: 'SN-1' },
+  tagNames: [],
+  photoUrls: [],
+  ...overrides,
+});
+
+const house = buildLocation({});
+const kitchen = buildLocation({ id: 'loc-kitchen', name: 'Kitchen', parentId: 'loc-house', path: 'House → Kitchen', locationType: 'ROOM', totalValue: 800 });
+const cabinet = buildLocation({ id: 'loc-cabinet', name: 'Cabinet', parentId: 'loc-kitchen', path: 'House → Kitchen → Cabinet', locationType: 'FURNITURE', totalValue: 150 });
+const attic = buildLocation({ id: 'loc-attic', name: 'Attic', parentId: 'loc-house', path: 'House → Attic', locationType: 'AREA', totalValue: 40 });
+
+describe('getSerialNumber', () => {
+  it('should read serialNumber from metadata', () => {
+    expect(getSerialNumber({ serialNumber: '  ABC-123 ' })).toBe('ABC-123');
+    expect(getSerialNumber({ serialNumber: 42 })).toBe('42');
+    expect(getSerialNumber({ barcode: '0123' })).toBeNull();
+    expect(getSerialNumber(null)).toBeNull();
+  });
+});
+
+describe('groupItemsByRoom', () => {
+  it('should group items under their nearest room, else building, with totals from the locations', () => {
+    const items = [
+      buildItem({}),
+      buildItem({ id: 'item-mixer', name: 'Mixer', currentValue: 150, location: { id: 'loc-cabinet', name: 'Cabinet', path: cabinet.path, type: 'FURNITURE' } }),
+      buildItem({ id: 'item-box', name: 'Box', currentValue: 40, location: { id: 'loc-attic', name: 'Attic', path: attic.path, type: 'AREA' } }),
+      buildItem({ id: 'item-bike', name: 'Bike', status: 'SOLD', location: { id: 'loc-attic', name: 'Attic', path: attic.path, type: 'AREA' } }),
+    ];
+
+    const rooms = groupItemsByRoom(items, [house, kitchen, cabinet, attic]);
+
+    expect(rooms.map(room => [room.location.path, room.items.map(item => item.name), room.totalValue])).toEqual([
+      ['House', ['Box'], 40],
+      ['House → Kitchen', ['Mixer', 'TV'], 950],
+    ]);
+  });
+});
+
+describe('rollBackLocations and rollBackItems', () => {
+  it('should undo changes made after the report date', () => {
+    const garage = buildLocation({ id: 'loc-garage', name: 'Garage', parentId: 'loc-house', path: 'House → Garage', locationType: 'ROOM' });
+    const locationEntries = [
+      { entityType: 'LOCATION' as const, entityId: 'loc-garage', action: 'CREATED' as const, diff: {} },
+      {
+        entityType: 'LOCATION' as const,
+        entityId: 'loc-pantry',
+        action: 'DELETED' as const,
+        diff: {
+          name: { before: 'Pantry', after: null },
+          parentId: { before: 'loc-house', after: null },
+          path: { before: 'House → Pantry', after: null },
+          locationType: { before: 'ROOM', after: null },
+        },
+      },
+      { entityType: 'LOCATION' as const, entityId: 'loc-kitchen', action: 'UPDATED' as const, diff: { name: { before: 'Galley', after: 'Kitchen' }, path: { before: 'House → Galley', after: 'House → Kitchen' } } },
+    ];
+    const itemEntries = [
+      { entityType: 'ITEM' as const, entityId: 'item-drill', action: 'CREATED' as const, diff: {} },
+      { entityType: 'ITEM' as const, entityId: 'item-tv', action: 'DELETED' as const, diff: { status: { before: 'AVAILABLE', after: 'SOLD' } } },
+      {
+        entityType: 'ITEM' as const,
+        entityId: 'item-tv',
+        action: 'UPDATED' as const,
+        diff: {
+          currentValue: { before: 900, after: 800 },
+          metadata: { before: {}, after: { serialNumber: 'SN-1' } },
+        },
+      },
+      { entityType: 'ITEM' as const, entityId: 'item-tv', action: 'MOVED' as const, diff: { locationId: { before: 'loc-pantry', after: 'loc-kitchen' } } },
+    ];
+
+    const locations = rollBackLocations([house, kitchen, garage], locationEntries);
+    const items = rollBackItems(
+      [buildItem({ status: 'SOLD' }), buildItem({ id: 'item-drill', name: 'Drill', location: { id: 'loc-garage', name: 'Garage', path: garage.path, type: 'ROOM' } })],
+      itemEntries,
+      locations
+    );
+
+    expect(locations.map(location => location.path).sort()).toEqual(['House', 'House → Galley', 'House → Pantry']);
+    expect(items).toEqual([
+      expect.objectContaining({
+        id: 'item-tv',
+        status: 'AVAILABLE',
+        currentValue: 900,
+        totalValue: 900,
+        serialNumber: null,
+        location: { id: 'loc-pantry', name: 'Pantry', path: 'House → Pantry', type: 'ROOM' },
+      }),
+    ]);
+
+    const totals = computeLocationTotals(locations, items);
+    expect(totals.find(location => location.id === 'loc-pantry')?.totalValue).toBe(900);
+    expect(totals.find(location => location.id === 'loc-kitchen')?.totalValue).toBe(0);
+  });
+});
+
+describe('buildReportDigest', () => {
+  it('should change when any reported value changes', () => {
+    const report: InsuranceReport = {
+      reportId: 'job-1',
+      householdId: 'household-1',
+      householdName: 'Home',
+      generatedAt: new Date('2026-03-04T10:30:00.000Z'),
+      asOf: null,
+      rooms: [{ location: kitchen, items: [buildItem({})], totalValue: 800 }],
+      itemCount: 1,
+      grandTotal: 800,
+    };
+
+    const digest = buildReportDigest(report);
+
+    expect(digest).toMatch(/^[0-9a-f]{64}$/);
+    expect(buildReportDigest({ ...report })).toBe(digest);
+    expect(buildReportDigest({
+      ...report,
+      rooms: [{ ...report.rooms[0], items: [buildItem({ serialNumber: 'SN-2' })] }],
+    })).not.toBe(digest);
+  });
+});
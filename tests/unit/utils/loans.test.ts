@@ -0,0 +1,38 @@
+/**
+ * Loan Utility Tests
+ *
+ * Tests for the due-date helpers behind the lending panel and the
+ * overdue dashboard widget.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.10.0
+ */
+
+import { formatLoanDue, getDaysOverdue, isLoanOverdue } from '@/lib/utils/loans';
+
+describe('loan due dates', () => {
+  const now = new Date('2026-03-04T12:00:00.000Z');
+
+  it('should treat open loans past their due date as overdue', () => {
+    expect(isLoanOverdue({ dueAt: '2026-03-01T00:00:00.000Z', returnedAt: null }, now)).toBe(true);
+    expect(isLoanOverdue({ dueAt: '2026-03-10T00:00:00.000Z', returnedAt: null }, now)).toBe(false);
+  });
+
+  it('should not flag returned loans or loans without a due date', () => {
+    expect(isLoanOverdue({ dueAt: '2026-03-01T00:00:00.000Z', returnedAt: '2026-03-02T00:00:00.000Z' }, now)).toBe(false);
+    expect(isLoanOverdue({ dueAt: null, returnedAt: null }, now)).toBe(false);
+  });
+
+  it('should count whole days overdue', () => {
+    expect(getDaysOverdue('2026-03-01T00:00:00.000Z', now)).toBe(3);
+    expect(getDaysOverdue('2026-03-10T00:00:00.000Z', now)).toBe(0);
+  });
+
+  it('should label overdue and upcoming loans', () => {
+    expect(formatLoanDue({ dueAt: '2026-03-01T00:00:00.000Z', returnedAt: null }, now)).toBe('3 days overdue');
+    expect(formatLoanDue({ dueAt: '2026-03-04T08:00:00.000Z', returnedAt: null }, now)).toBe('Overdue today');
+    expect(formatLoanDue({ dueAt: '2026-03-10T12:00:00.000Z', returnedAt: null }, now)).toBe('Due Mar 10, 2026');
+    expect(formatLoanDue({ dueAt: null, returnedAt: null }, now)).toBeNull();
+  });
+});
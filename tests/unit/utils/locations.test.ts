@@ -0,0 +1,46 @@
+/**
+ * Location Utility Tests
+ *
+ * Tests for the tree lookups behind location search filters, facets and
+ * breadcrumbs.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.17.0
+ */
+
+import { getLocationPathComponents, getLocationSubtreeIds, getRootLocationId } from '@/lib/utils/locations';
+
+describe('location tree', () => {
+  const locations = [
+    { id: 'house', parentId: null },
+    { id: 'garage', parentId: 'house' },
+    { id: 'shelf', parentId: 'garage' },
+    { id: 'toolbox', parentId: 'shelf' },
+    { id: 'shed', parentId: null },
+  ];
+
+  it('should list locations and everything inside them', () => {
+    expect(getLocationSubtreeIds(locations, ['garage']).sort()).toEqual(['garage', 'shelf', 'toolbox']);
+    expect(getLocationSubtreeIds(locations, ['shelf', 'shed', 'shelf']).sort()).toEqual(['shed', 'shelf', 'toolbox']);
+  });
+
+  it('should find the top-level location', () => {
+    expect(getRootLocationId(locations, 'toolbox')).toBe('house');
+    expect(getRootLocationId(locations, 'shed')).toBe('shed');
+    expect(getRootLocationId(locations, 'unknown')).toBeNull();
+  });
+
+  it('should list the path from the top level down to a location', () => {
+    const named = locations.map(location => ({ ...location, name: location.id.toUpperCase() }));
+
+    expect(getLocationPathComponents(named, 'toolbox')).toEqual([
+      { id: 'house', name: 'HOUSE' },
+      { id: 'garage', name: 'GARAGE' },
+      { id: 'shelf', name: 'SHELF' },
+      { id: 'toolbox', name: 'TOOLBOX' },
+    ]);
+    expect(getLocationPathComponents(named, 'shed')).toEqual([{ id: 'shed', name: 'SHED' }]);
+    expect(getLocationPathComponents(named, 'unknown')).toEqual([]);
+  });
+});
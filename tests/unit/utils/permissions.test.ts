@@ -0,0 +1,56 @@
+/**
+ * Household Permission Tests
+ *
+ * Tests for role defaults and per-member overrides behind the shared
+ * household permission guard.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.11.0
+ */
+
+import {
+  HOUSEHOLD_PERMISSIONS,
+  hasPermission,
+  parsePermissionOverrides,
+  resolvePermissions,
+} from '@/lib/utils/permissions';
+
+describe('household permissions', () => {
+  it('should give owners and admins every capability', () => {
+    expect(resolvePermissions('owner')).toEqual([...HOUSEHOLD_PERMISSIONS]);
+    expect(resolvePermissions('admin')).toEqual([...HOUSEHOLD_PERMISSIONS]);
+  });
+
+  it('should stop members deleting items or managing locations by default', () => {
+    expect(hasPermission('member', null, 'items:create')).toBe(true);
+    expect(hasPermission('member', null, 'items:delete')).toBe(false);
+    expect(hasPermission('member', null, 'locations:manage')).toBe(false);
+    expect(hasPermission('member', null, 'members:manage')).toBe(false);
+  });
+
+  it('should leave viewers and unknown roles read-only', () => {
+    expect(resolvePermissions('viewer')).toEqual([]);
+    expect(resolvePermissions('guest')).toEqual([]);
+  });
+
+  it('should apply grants and revocations on top of the role', () => {
+    const overrides = { 'items:delete': true, 'exports:create': false };
+
+    expect(hasPermission('member', overrides, 'items:delete')).toBe(true);
+    expect(hasPermission('member', overrides, 'exports:create')).toBe(false);
+    expect(hasPermission('viewer', { 'items:lend': true }, 'items:lend')).toBe(true);
+    expect(hasPermission('admin', { 'members:manage': false }, 'members:manage')).toBe(false);
+  });
+
+  it('should never let overrides lock out an owner', () => {
+    expect(hasPermission('owner', { 'members:manage': false }, 'members:manage')).toBe(true);
+  });
+
+  it('should ignore unknown keys and non-boolean values', () => {
+    expect(parsePermissionOverrides({ 'items:delete': true, 'admin:everything': true, 'tags:manage': 'yes' }))
+      .toEqual({ 'items:delete': true });
+    expect(parsePermissionOverrides(null)).toEqual({});
+    expect(parsePermissionOverrides(['items:delete'])).toEqual({});
+  });
+});
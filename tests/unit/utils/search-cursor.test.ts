@@ -0,0 +1,54 @@
+/**
+ * Search Cursor Utility Tests
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.17.0
+ */
+
+import {
+  encodeSearchCursor,
+  decodeSearchCursor,
+  toSearchCursorValue,
+  type SearchCursor,
+} from '@/lib/utils/search-cursor';
+
+describe('Search Cursor Utilities', () => {
+  const id = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+
+  describe('encodeSearchCursor / decodeSearchCursor', () => {
+    it('should round-trip a cursor through an opaque URL-safe string', () => {
+      const cursor: SearchCursor = { sortBy: 'date', sortOrder: 'asc', value: '2024-03-01T10:00:00.000Z', id };
+
+      const token = encodeSearchCursor(cursor);
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeSearchCursor(token)).toEqual(cursor);
+    });
+
+    it('should keep null sort values', () => {
+      const cursor: SearchCursor = { sortBy: 'value', sortOrder: 'desc', value: null, id };
+
+      expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should reject tampered and malformed cursors', () => {
+      const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+      expect(decodeSearchCursor('not a cursor')).toBeNull();
+      expect(decodeSearchCursor(encode(['price', 'asc', 1, id]))).toBeNull();
+      expect(decodeSearchCursor(encode(['name', 'up', 'Drill', id]))).toBeNull();
+      expect(decodeSearchCursor(encode(['name', 'asc', { $gt: '' }, id]))).toBeNull();
+      expect(decodeSearchCursor(encode(['name', 'asc', 'Drill', "x' OR 1=1"]))).toBeNull();
+    });
+  });
+
+  describe('toSearchCursorValue', () => {
+    it('should store dates as ISO strings and decimals as strings', () => {
+      expect(toSearchCursorValue(new Date('2024-03-01T10:00:00Z'))).toBe('2024-03-01T10:00:00.000Z');
+      expect(toSearchCursorValue({ toString: () => '249.99' })).toBe('249.99');
+      expect(toSearchCursorValue(0.25)).toBe(0.25);
+      expect(toSearchCursorValue(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Spreadsheet Utility Tests
+ *
+ * Tests for the CSV and XLSX readers behind the item importer and the XLSX
+ * writer behind the XLSX export.
+ *
+ * @category Tests
+ * @subcategory Utils
+ * @since 1.11.0
+ */
+
+import { zipSync, strToU8, unzipSync, strFromU8 } from 'fflate';
+import { buildXLSX, detectSpreadsheetFormat, excelSerialToDate, parseCSV, parseXLSX } from '@/lib/utils/spreadsheet';
+
+describe('parseCSV', () => {
+  it('should read quoted cells with delimiters, doubled quotes and line breaks', () => {
+    const csv = '﻿Item Name,Description,Tags\r\n"Drill, cordless","18V ""Pro""\nwith case","tools,garage"\r\nHammer,,\n';
+
+    expect(parseCSV(csv)).toEqual([
+      ['Item Name', 'Description', 'Tags'],
+      ['Drill, cordless', '18V "Pro"\nwith case', 'tools,garage'],
+      ['Hammer', '', ''],
+    ]);
+  });
+
+  it('should honour a custom delimiter and keep a last line without newline', () => {
+    expect(parseCSV('a;b\n1;2', { delimiter: ';' })).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('parseXLSX', () => {
+  const buildWorkbook = (sheet: string, sharedStrings?: string) =>
+    zipSync({
+      'xl/workbook.xml': strToU8('<workbook/>'),
+      'xl/worksheets/sheet1.xml': strToU8(sheet),
+      ...(sharedStrings ? { 'xl/sharedStrings.xml': strToU8(sharedStrings) } : {}),
+    });
+
+  it('should resolve shared, inline and numeric cells by position', () => {
+    const workbook = buildWorkbook(
+      '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>Tom &amp; Jerry</t></is></c><c r="B3"/><c r="C3"><v>4.5</v></c></row>' +
+      '</sheetData></worksheet>',
+      '<sst><si><t>Item Name</t></si><si><r><t>Qu</t></r><r><t>antity</t></r></si></sst>'
+    );
+
+    expect(parseXLSX(workbook)).toEqual([
+      ['Item Name', '', 'Quantity'],
+      [],
+      ['Tom & Jerry', '', '4.5'],
+    ]);
+  });
+
+  it('should reject files that are not workbooks', () => {
+    expect(() => parseXLSX(strToU8('Item Name,Quantity'))).toThrow('not a valid XLSX workbook');
+  });
+});
+
+describe('buildXLSX', () => {
+  it('should write numeric and text cells that parseXLSX reads back', () => {
+    const workbook = buildXLSX([
+      { name: 'Garage', rows: [['Item Name', 'Quantity', 'Notes'], ['Drill & bits <18V>', 2, null], ['Hammer', 1.5, '']] },
+    ]);
+
+    expect(parseXLSX(workbook)).toEqual([
+      ['Item Name', 'Quantity', 'Notes'],
+      ['Drill & bits <18V>', '2'],
+      ['Hammer', '1.5'],
+    ]);
+  });
+
+  it('should clean, shorten and de-duplicate sheet names', () => {
+    const workbook = unzipSync(buildXLSX([
+      { name: 'Garage', rows: [] },
+      { name: 'garage', rows: [] },
+      { name: 'Shed: [back]/left', rows: [] },
+      { name: 'A very long location name that Excel would reject', rows: [] },
+    ]));
+    const names = Array.from(
+      strFromU8(workbook['xl/workbook.xml']).matchAll(/<sheet name="([^"]*)"/g),
+      (match) => match[1]
+    );
+
+    expect(names).toEqual(['Garage', 'garage (2)', 'Shed   back  left', 'A very long location name that']);
+    expect(Object.keys(workbook)).toContain('xl/worksheets/sheet4.xml');
+  });
+});
+
+describe('spreadsheet helpers', () => {
+  it('should detect the format from the name or ZIP signature', () => {
+    expect(detectSpreadsheetFormat('items.CSV', new Uint8Array())).toBe('csv');
+    expect(detectSpreadsheetFormat('upload', new Uint8Array([0x50, 0x4b, 0x03, 0x04]))).toBe('xlsx');
+    expect(detectSpreadsheetFormat('items.pdf', new Uint8Array())).toBeNull();
+  });
+
+  it('should convert Excel date serials', () => {
+    expect(excelSerialToDate(45292).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+});
@@ -16,7 +16,8 @@ import {
   serializeNavigationContext,
   buildItemDetailUrl,
   buildLocationUrl,
-  buildBackToSearchUrl
+  buildBackToSearchUrl,
+  buildCollectionUrl
 } from '@/lib/utils/url-state';
 import type { SearchUrlState, NavigationContext } from '@/lib/utils/url-state';
 
@@ -396,6 +397,31 @@ describe('URL State Management', () => {
         expect(url).toBe('/search');
       });
     });
+
+    describe('buildCollectionUrl', () => {
+      const savedSearchId = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+
+      it('should build a URL holding only the saved search ID', () => {
+        expect(buildCollectionUrl(savedSearchId)).toBe(`/search?collection=${savedSearchId}`);
+      });
+
+      it('should round-trip the saved search ID through the search state', () => {
+        const url = new URL(buildCollectionUrl(savedSearchId), 'https://inventory.example.com');
+        const state = parseSearchState(
+          new MockReadonlyURLSearchParams(Object.fromEntries(url.searchParams)) as any
+        );
+
+        expect(state).toEqual({ collection: savedSearchId });
+      });
+
+      it('should ignore saved search IDs that are not UUIDs', () => {
+        const state = parseSearchState(
+          new MockReadonlyURLSearchParams({ collection: '../admin' }) as any
+        );
+
+        expect(state.collection).toBeUndefined();
+      });
+    });
   });
 
   describe('Parameter Validation Security', () => {
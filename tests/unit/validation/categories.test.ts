@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+
+import { CreateCategorySchema, UpdateCategorySchema, getDepreciationRuleError } from '@/lib/validation/categories';
+import { DepreciationMethod } from '@prisma/client';
+
+describe('Category Validation Schemas', () => {
+  describe('CreateCategorySchema', () => {
+    it('should apply defaults to a minimal category', () => {
+      expect(CreateCategorySchema.parse({ name: ' Headphones ' })).toEqual({
+        name: 'Headphones',
+        parentId: null,
+        depreciationMethod: null,
+        usefulLifeYears: null,
+        depreciationRate: null,
+        customFieldIds: [],
+      });
+    });
+
+    it('should reject names that would break category paths', () => {
+      const result = CreateCategorySchema.safeParse({ name: 'Audio > Headphones' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Category names cannot contain ">"');
+      }
+    });
+
+    it('should require the setting each depreciation method needs', () => {
+      const result = CreateCategorySchema.safeParse({ name: 'Electronics', depreciationMethod: 'STRAIGHT_LINE' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]).toMatchObject({
+          path: ['depreciationMethod'],
+          message: 'Straight-line depreciation needs a useful life',
+        });
+      }
+
+      expect(CreateCategorySchema.safeParse({
+        name: 'Tools', depreciationMethod: 'DECLINING_BALANCE', depreciationRate: 20,
+      }).success).toBe(true);
+    });
+  });
+
+  describe('UpdateCategorySchema', () => {
+    it('should reject empty updates and allow moving to the top level', () => {
+      expect(UpdateCategorySchema.safeParse({}).success).toBe(false);
+      expect(UpdateCategorySchema.parse({ parentId: null })).toEqual({ parentId: null });
+    });
+  });
+
+  describe('getDepreciationRuleError', () => {
+    it('should reject settings without a method', () => {
+      expect(getDepreciationRuleError({ depreciationMethod: null, usefulLifeYears: 5, depreciationRate: null }))
+        .toBe('Choose a depreciation method for the useful life or rate');
+      expect(getDepreciationRuleError({ depreciationMethod: null, usefulLifeYears: null, depreciationRate: null }))
+        .toBeNull();
+      expect(getDepreciationRuleError({
+        depreciationMethod: DepreciationMethod.DECLINING_BALANCE, usefulLifeYears: null, depreciationRate: null,
+      })).toBe('Declining-balance depreciation needs a yearly rate');
+    });
+  });
+});
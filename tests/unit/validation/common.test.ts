@@ -0,0 +1,25 @@
+/**
+ * @jest-environment node
+ */
+
+import { isServiceError } from '@/lib/validation/common';
+
+describe('Common Validation Helpers', () => {
+  describe('isServiceError', () => {
+    const codes = { EXPORT_NOT_FOUND: 404, EXPORT_EXPIRED: 410 } as const;
+
+    const codedError = (code: unknown) => Object.assign(new Error('Export job not found'), { code });
+
+    it('should accept errors with a code from the table', () => {
+      expect(isServiceError(codedError('EXPORT_NOT_FOUND'), codes)).toBe(true);
+    });
+
+    it('should reject unknown codes, inherited keys and non-Error values', () => {
+      expect(isServiceError(codedError('EXPORT_NOT_READY'), codes)).toBe(false);
+      expect(isServiceError(codedError('toString'), codes)).toBe(false);
+      expect(isServiceError(codedError(404), codes)).toBe(false);
+      expect(isServiceError(new Error('Plain failure'), codes)).toBe(false);
+      expect(isServiceError({ code: 'EXPORT_NOT_FOUND', message: 'Not an Error' }, codes)).toBe(false);
+    });
+  });
+});
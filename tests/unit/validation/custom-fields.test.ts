@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+import { ZodError } from 'zod';
+import {
+  CreateCustomFieldSchema,
+  UpdateCustomFieldSchema,
+  buildCustomFieldValuesSchema,
+  validateCustomFieldValues,
+} from '@/lib/validation/custom-fields';
+import { CustomFieldType } from '@prisma/client';
+
+describe('Custom Field Validation Schemas', () => {
+  describe('CreateCustomFieldSchema', () => {
+    it('should apply defaults to a minimal field', () => {
+      const result = CreateCustomFieldSchema.parse({ key: 'serialNumber', label: 'Serial', type: 'SERIAL_NUMBER' });
+
+      expect(result).toEqual({
+        key: 'serialNumber',
+        label: 'Serial',
+        type: CustomFieldType.SERIAL_NUMBER,
+        options: [],
+        required: false,
+        searchable: true,
+        tagIds: [],
+        locationTypes: [],
+        displayOrder: 0,
+      });
+    });
+
+    it('should reject reserved and malformed keys', () => {
+      expect(CreateCustomFieldSchema.safeParse({ key: 'barcode', label: 'Barcode', type: 'TEXT' }).success).toBe(false);
+      expect(CreateCustomFieldSchema.safeParse({ key: '1st', label: 'First', type: 'TEXT' }).success).toBe(false);
+      expect(CreateCustomFieldSchema.safeParse({ key: 'serial number', label: 'Serial', type: 'TEXT' }).success).toBe(false);
+    });
+
+    it('should require options for select fields only', () => {
+      const noOptions = CreateCustomFieldSchema.safeParse({ key: 'condition', label: 'Condition', type: 'SELECT' });
+      expect(noOptions.success).toBe(false);
+      if (!noOptions.success) {
+        expect(noOptions.error.issues[0]).toMatchObject({ path: ['options'], message: 'Select fields need at least one option' });
+      }
+
+      expect(CreateCustomFieldSchema.safeParse({
+        key: 'notes', label: 'Notes', type: 'TEXT', options: ['a'],
+      }).success).toBe(false);
+      expect(CreateCustomFieldSchema.safeParse({
+        key: 'condition', label: 'Condition', type: 'SELECT', options: ['New', 'New'],
+      }).success).toBe(false);
+    });
+  });
+
+  describe('UpdateCustomFieldSchema', () => {
+    it('should reject empty updates and ignore key and type changes', () => {
+      expect(UpdateCustomFieldSchema.safeParse({}).success).toBe(false);
+      expect(UpdateCustomFieldSchema.parse({ label: 'Warranty', type: 'NUMBER' })).toEqual({ label: 'Warranty' });
+    });
+  });
+
+  describe('buildCustomFieldValuesSchema', () => {
+    const fields = [
+      { key: 'serial', label: 'Serial', type: CustomFieldType.SERIAL_NUMBER, options: [], required: true },
+      { key: 'weight', label: 'Weight', type: CustomFieldType.NUMBER, options: [], required: false },
+      { key: 'warranty', label: 'Warranty', type: CustomFieldType.WARRANTY_EXPIRY, options: [], required: false },
+      { key: 'condition', label: 'Condition', type: CustomFieldType.SELECT, options: ['New', 'Used'], required: false },
+      { key: 'manual', label: 'Manual', type: CustomFieldType.URL, options: [], required: false },
+    ];
+
+    it('should accept valid values and keep other metadata keys', () => {
+      const result = buildCustomFieldValuesSchema(fields).parse({
+        serial: ' SN-42/A ',
+        weight: 1.5,
+        warranty: '2027-05-01',
+        condition: 'Used',
+        manual: 'https://example.com/manual.pdf',
+        barcode: '4006381333931',
+      });
+
+      expect(result).toEqual({
+        serial: 'SN-42/A',
+        weight: 1.5,
+        warranty: '2027-05-01',
+        condition: 'Used',
+        manual: 'https://example.com/manual.pdf',
+        barcode: '4006381333931',
+      });
+    });
+
+    it('should report each invalid value with the field label', () => {
+      const result = buildCustomFieldValuesSchema(fields).safeParse({
+        weight: 'heavy',
+        warranty: '2027-13-45',
+        condition: 'Broken',
+        manual: 'ftp://example.com/manual.pdf',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const messages = Object.fromEntries(result.error.issues.map(issue => [issue.path.join('.'), issue.message]));
+        expect(messages).toEqual({
+          weight: 'Weight must be a number',
+          warranty: 'Warranty must be a valid date',
+          condition: 'Condition must be one of: New, Used',
+          manual: 'Manual must start with http:// or https://',
+          serial: 'Serial is required',
+        });
+      }
+    });
+  });
+
+  describe('validateCustomFieldValues', () => {
+    const fields = [
+      { key: 'serial', label: 'Serial', type: CustomFieldType.SERIAL_NUMBER, options: [], required: false },
+    ];
+
+    it('should drop blank values', () => {
+      expect(validateCustomFieldValues(fields, { serial: '  ', color: 'red' })).toEqual({ color: 'red' });
+    });
+
+    it('should report issues under the metadata key', () => {
+      try {
+        validateCustomFieldValues(fields, { serial: 'SN#1' });
+        fail('Expected a validation error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ZodError);
+        expect((error as ZodError).issues[0].path).toEqual(['metadata', 'serial']);
+      }
+    });
+  });
+});
@@ -8,6 +8,7 @@ import {
   SearchItemsSchema,
   BorrowItemSchema,
   ReturnItemSchema,
+  RetailBarcodeSchema,
 } from '@/lib/validation/items';
 import { ItemStatus } from '@prisma/client';
 
@@ -140,6 +141,45 @@ describe('Item Validation Schemas', () => {
         expect(result.success).toBe(false);
       });
     });
+
+    it('should normalize a barcode in metadata and keep other keys', () => {
+      const testData = { ...validItemData, metadata: { brand: 'TestBrand', barcode: '036000 291452' } };
+      const result = CreateItemSchema.safeParse(testData);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.metadata).toEqual({ brand: 'TestBrand', barcode: '0036000291452' });
+      }
+    });
+
+    it('should reject a malformed barcode in metadata', () => {
+      const testData = { ...validItemData, metadata: { barcode: 'ABC123' } };
+      const result = CreateItemSchema.safeParse(testData);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(['metadata', 'barcode']);
+      }
+    });
+  });
+
+  describe('RetailBarcodeSchema', () => {
+    it('should store UPC-A as its EAN-13 equivalent', () => {
+      expect(RetailBarcodeSchema.parse('036000291452')).toBe('0036000291452');
+    });
+
+    it('should keep EAN-13 and EAN-8 codes as scanned', () => {
+      expect(RetailBarcodeSchema.parse('4006381333931')).toBe('4006381333931');
+      expect(RetailBarcodeSchema.parse('96385074')).toBe('96385074');
+    });
+
+    it('should trim zero-padded GTIN-14 codes', () => {
+      expect(RetailBarcodeSchema.parse('04006381333931')).toBe('4006381333931');
+    });
+
+    it('should reject codes of the wrong length', () => {
+      ['1234567', '1234567890', ''].forEach(code => {
+        expect(RetailBarcodeSchema.safeParse(code).success).toBe(false);
+      });
+    });
   });
 
   describe('UpdateItemSchema', () => {
@@ -307,6 +347,30 @@ describe('Item Validation Schemas', () => {
         expect(result.error.errors[0].message).toContain('Required');
       }
     });
+
+    it('should accept a free-text borrower outside the household', () => {
+      const result = BorrowItemSchema.safeParse({
+        borrowerName: '  Pat (next door)  ',
+        borrowerContact: '555-0100',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.borrowerName).toBe('Pat (next door)');
+      }
+    });
+
+    it('should reject both a household member and a contact', () => {
+      const result = BorrowItemSchema.safeParse({
+        borrowerId: 'clx1y2z3a0000abcd1234efgh',
+        borrowerName: 'Pat',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(['borrowerName']);
+      }
+    });
   });
 
   describe('ReturnItemSchema', () => {
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  CreateSavedSearchSchema,
+  UpdateSavedSearchSchema,
+  hasSearchCriteria,
+} from '@/lib/validation/saved-searches';
+
+describe('Saved Search Validation Schemas', () => {
+  describe('CreateSavedSearchSchema', () => {
+    it('should accept filter-only searches and default to personal', () => {
+      expect(CreateSavedSearchSchema.parse({
+        name: '  Valuables   without photos ',
+        filters: { valueRange: { min: 500 }, hasPhotos: false },
+      })).toEqual({
+        name: 'Valuables without photos',
+        query: '',
+        filters: { valueRange: { min: 500 }, hasPhotos: false },
+        visibility: 'PERSONAL',
+      });
+    });
+
+    it('should reject searches without text or filters', () => {
+      const result = CreateSavedSearchSchema.safeParse({ name: 'Everything', filters: { tagIds: [] } });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        message: 'Add search text or at least one filter',
+        path: ['query'],
+      });
+    });
+
+    it('should reject one-character text and unknown visibility', () => {
+      expect(CreateSavedSearchSchema.safeParse({ name: 'Drills', query: 'd' }).success).toBe(false);
+      expect(CreateSavedSearchSchema.safeParse({ name: 'Drills', query: 'drill', visibility: 'PUBLIC' }).success).toBe(false);
+    });
+  });
+
+  describe('UpdateSavedSearchSchema', () => {
+    it('should reject empty updates', () => {
+      expect(UpdateSavedSearchSchema.safeParse({}).success).toBe(false);
+      expect(UpdateSavedSearchSchema.parse({ visibility: 'HOUSEHOLD' })).toEqual({ visibility: 'HOUSEHOLD' });
+    });
+  });
+
+  describe('hasSearchCriteria', () => {
+    it('should not count empty lists and ranges as filters', () => {
+      expect(hasSearchCriteria({ query: '', filters: { tagIds: [], valueRange: {} } })).toBe(false);
+      expect(hasSearchCriteria({ query: '', filters: { hasPhotos: false } })).toBe(true);
+      expect(hasSearchCriteria({ query: 'tent' })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  CreateTagSchema,
+  UpdateTagSchema,
+  ItemTagIdsSchema,
+} from '@/lib/validation/tags';
+import { CreateItemSchema } from '@/lib/validation/items';
+
+describe('Tag Validation Schemas', () => {
+  describe('CreateTagSchema', () => {
+    it('should tidy the name and default the color', () => {
+      expect(CreateTagSchema.parse({ name: '  power   tools ' })).toEqual({
+        name: 'power tools',
+        color: '#6B7280',
+      });
+    });
+
+    it('should normalize colors and reject malformed ones', () => {
+      expect(CreateTagSchema.parse({ name: 'Camping', color: '#16a34a' }).color).toBe('#16A34A');
+      expect(CreateTagSchema.safeParse({ name: 'Camping', color: 'green' }).success).toBe(false);
+      expect(CreateTagSchema.safeParse({ name: 'Camping', color: '#fff' }).success).toBe(false);
+    });
+
+    it('should reject blank and overlong names', () => {
+      expect(CreateTagSchema.safeParse({ name: '   ' }).success).toBe(false);
+      expect(CreateTagSchema.safeParse({ name: 'x'.repeat(51) }).success).toBe(false);
+    });
+  });
+
+  describe('UpdateTagSchema', () => {
+    it('should reject empty updates', () => {
+      expect(UpdateTagSchema.safeParse({}).success).toBe(false);
+      expect(UpdateTagSchema.parse({ color: '#3b82f6' })).toEqual({ color: '#3B82F6' });
+    });
+  });
+
+  describe('ItemTagIdsSchema', () => {
+    const tagId = '660e8400-e29b-41d4-a716-446655440001';
+
+    it('should drop duplicate tags', () => {
+      expect(ItemTagIdsSchema.parse([tagId, tagId])).toEqual([tagId]);
+    });
+
+    it('should be optional on new items', () => {
+      const item = CreateItemSchema.parse({ name: 'Tent', locationId: '550e8400-e29b-41d4-a716-446655440001' });
+      expect(item.tagIds).toBeUndefined();
+      expect(CreateItemSchema.safeParse({
+        name: 'Tent',
+        locationId: '550e8400-e29b-41d4-a716-446655440001',
+        tagIds: ['camping'],
+      }).success).toBe(false);
+    });
+  });
+});